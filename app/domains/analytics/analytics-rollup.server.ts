@@ -0,0 +1,632 @@
+/**
+ * Analytics Rollup Service
+ *
+ * Pre-aggregates raw PopupEvent, Lead and CampaignConversion rows into daily
+ * rollup tables so dashboards never scan raw events:
+ * - campaign_daily_rollups: per campaign (and therefore per variant) and day
+ * - campaign_device_daily_rollups: per campaign, day and device type
+ *
+ * Day buckets are local days in Store.timezone. A day is always rebuilt as a
+ * whole (delete + insert in one transaction), which makes every run idempotent:
+ * - Incremental: POST /api/internal/analytics/rollup rebuilds each store from
+ *   the day of its last run up to today (Cloud Scheduler / cron, every few minutes)
+ * - Backfill / recompute: the same endpoint with { storeId, from, to }
+ * - Refunds / cancellations: refreshConversionDay re-aggregates the order
+ *   columns of the day the conversion was recorded on
+ */
+
+import { Prisma } from "@prisma/client";
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import { ServiceError } from "~/lib/errors.server";
+import { isValidTimezone } from "~/domains/campaigns/utils/schedule-helpers";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RollupEventTotals {
+  impressions: number;
+  clicks: number;
+  submits: number;
+  closes: number;
+  couponsIssued: number;
+}
+
+export interface RollupTotals extends RollupEventTotals {
+  leads: number;
+  /** Conversions, cancelled orders excluded */
+  orders: number;
+  /** Net revenue (after refunds), cancelled orders excluded */
+  revenue: number;
+  /** Order totals as placed, before refunds and cancellations */
+  grossRevenue: number;
+  discount: number;
+}
+
+export interface DailyRollupTotals extends RollupTotals {
+  /** Local day in the store's timezone (YYYY-MM-DD) */
+  date: string;
+}
+
+export interface RollupDateRange {
+  /** First local day to rebuild (YYYY-MM-DD, inclusive) */
+  from: string;
+  /** Last local day to rebuild (YYYY-MM-DD, inclusive) */
+  to: string;
+}
+
+export interface StoreRollupResult {
+  storeId: string;
+  from: string;
+  to: string;
+  days: number;
+  error?: boolean;
+}
+
+export interface RollupRunSummary {
+  rolledUp: number;
+  errors: number;
+  results: StoreRollupResult[];
+}
+
+interface StoreRollupContext {
+  timezone: string;
+  /** Raw popup events before this instant were pruned by the retention job */
+  eventsArchivedBefore: Date | null;
+}
+
+interface RollupRangeOptions {
+  from?: Date;
+  to?: Date;
+}
+
+type TotalsRow = { [K in keyof RollupTotals]: number | bigint | Prisma.Decimal | null };
+
+/** Stores that were never rolled up start with this much history */
+const INITIAL_BACKFILL_DAYS = 90;
+
+/** Days rebuilt per transaction during a backfill */
+const RECOMPUTE_CHUNK_DAYS = 31;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const EMPTY_ROLLUP_TOTALS: RollupTotals = {
+  impressions: 0,
+  clicks: 0,
+  submits: 0,
+  closes: 0,
+  couponsIssued: 0,
+  leads: 0,
+  orders: 0,
+  revenue: 0,
+  grossRevenue: 0,
+  discount: 0,
+};
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+/**
+ * Local calendar day (YYYY-MM-DD) of an instant in a timezone
+ */
+export function getLocalDateKey(date: Date, timezone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+/**
+ * Add (or subtract) whole days to a YYYY-MM-DD key
+ */
+export function shiftDateKey(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+/** Offset of a timezone from UTC at an instant, in milliseconds */
+function getTimezoneOffsetMs(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Instant at which a local day (YYYY-MM-DD) starts in a timezone
+ */
+export function getLocalMidnight(dateKey: string, timezone: string): Date {
+  const utcMidnight = new Date(`${dateKey}T00:00:00.000Z`).getTime();
+  const offset = getTimezoneOffsetMs(new Date(utcMidnight), timezone);
+  const guess = utcMidnight - offset;
+  // The offset can differ at the guessed instant across a DST change
+  const corrected = getTimezoneOffsetMs(new Date(guess), timezone);
+  return new Date(corrected === offset ? guess : utcMidnight - corrected);
+}
+
+function countDays(range: RollupDateRange): number {
+  const from = new Date(`${range.from}T00:00:00.000Z`).getTime();
+  const to = new Date(`${range.to}T00:00:00.000Z`).getTime();
+  return Math.round((to - from) / 86_400_000) + 1;
+}
+
+function toTotals(row: TotalsRow): RollupTotals {
+  return {
+    impressions: Number(row.impressions ?? 0),
+    clicks: Number(row.clicks ?? 0),
+    submits: Number(row.submits ?? 0),
+    closes: Number(row.closes ?? 0),
+    couponsIssued: Number(row.couponsIssued ?? 0),
+    leads: Number(row.leads ?? 0),
+    orders: Number(row.orders ?? 0),
+    revenue: Number(row.revenue ?? 0),
+    grossRevenue: Number(row.grossRevenue ?? 0),
+    discount: Number(row.discount ?? 0),
+  };
+}
+
+/** SQL expression bucketing a UTC timestamp column into a local day */
+function localDay(column: string, timezone: string): Prisma.Sql {
+  return Prisma.sql`((${Prisma.raw(column)} AT TIME ZONE 'UTC') AT TIME ZONE ${timezone})::date`;
+}
+
+/** Filter a rollup "date" column by instants, converted to the store's local days */
+function rangeFilter(options?: RollupRangeOptions): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [];
+  if (options?.from) {
+    conditions.push(
+      Prisma.sql`r."date" >= (${options.from.toISOString()}::timestamptz AT TIME ZONE s."timezone")::date`
+    );
+  }
+  if (options?.to) {
+    conditions.push(
+      Prisma.sql`r."date" <= (${options.to.toISOString()}::timestamptz AT TIME ZONE s."timezone")::date`
+    );
+  }
+  return conditions.length > 0 ? Prisma.sql`AND ${Prisma.join(conditions, " AND ")}` : Prisma.empty;
+}
+
+// ============================================================================
+// ANALYTICS ROLLUP SERVICE
+// ============================================================================
+
+export class AnalyticsRollupService {
+  // --------------------------------------------------------------------------
+  // Writes
+  // --------------------------------------------------------------------------
+
+  /**
+   * Incremental run: rebuild every active store from the local day of its
+   * previous run up to today
+   */
+  static async rollupAllStores(now: Date = new Date()): Promise<RollupRunSummary> {
+    const stores = await prisma.store.findMany({
+      where: { isActive: true },
+      select: { id: true, timezone: true, analyticsRolledUpAt: true, eventsArchivedBefore: true },
+    });
+
+    const results: StoreRollupResult[] = [];
+    for (const store of stores) {
+      const timezone = isValidTimezone(store.timezone) ? store.timezone : "UTC";
+      const to = getLocalDateKey(now, timezone);
+      const from = store.analyticsRolledUpAt
+        ? getLocalDateKey(store.analyticsRolledUpAt, timezone)
+        : shiftDateKey(to, -(INITIAL_BACKFILL_DAYS - 1));
+
+      try {
+        const result = await this.recomputeStore(
+          store.id,
+          { from, to },
+          { timezone, eventsArchivedBefore: store.eventsArchivedBefore }
+        );
+        // Events recorded after `now` land on a day the next run rebuilds again
+        await prisma.store.update({
+          where: { id: store.id },
+          data: { analyticsRolledUpAt: now },
+        });
+        results.push(result);
+      } catch (error) {
+        logger.error({ error, storeId: store.id }, "[AnalyticsRollup] Store rollup failed");
+        results.push({ storeId: store.id, from, to, days: 0, error: true });
+      }
+    }
+
+    const summary: RollupRunSummary = {
+      rolledUp: results.filter((r) => !r.error).length,
+      errors: results.filter((r) => r.error).length,
+      results,
+    };
+
+    logger.info(
+      { rolledUp: summary.rolledUp, errors: summary.errors },
+      "[AnalyticsRollup] Rollup run complete"
+    );
+
+    return summary;
+  }
+
+  /**
+   * Backfill / recompute a store's rollups for a range of local days
+   *
+   * Also used after a store's timezone changes, since existing buckets were
+   * cut with the previous timezone. Days whose raw events were archived are
+   * never rebuilt: their rollups are the only remaining source of truth.
+   */
+  static async recomputeStore(
+    storeId: string,
+    range: RollupDateRange,
+    context?: StoreRollupContext
+  ): Promise<StoreRollupResult> {
+    if (
+      !DATE_KEY_PATTERN.test(range.from) ||
+      !DATE_KEY_PATTERN.test(range.to) ||
+      range.from > range.to
+    ) {
+      throw new ServiceError(
+        "INVALID_ROLLUP_RANGE",
+        "Rollup range must be YYYY-MM-DD with from <= to"
+      );
+    }
+
+    const { timezone: tz, eventsArchivedBefore } = context ?? (await this.getStoreContext(storeId));
+
+    // eventsArchivedBefore is a local midnight, so its day is the first complete one
+    const firstRawDay = eventsArchivedBefore ? getLocalDateKey(eventsArchivedBefore, tz) : null;
+    const from = firstRawDay && firstRawDay > range.from ? firstRawDay : range.from;
+    if (from > range.to) {
+      return { storeId, from, to: range.to, days: 0 };
+    }
+
+    try {
+      let chunkFrom = from;
+      while (chunkFrom <= range.to) {
+        const chunkEnd = shiftDateKey(chunkFrom, RECOMPUTE_CHUNK_DAYS - 1);
+        const chunkTo = chunkEnd < range.to ? chunkEnd : range.to;
+        await this.rebuildDays(storeId, { from: chunkFrom, to: chunkTo }, tz);
+        chunkFrom = shiftDateKey(chunkTo, 1);
+      }
+    } catch (error) {
+      throw new ServiceError(
+        "ROLLUP_RECOMPUTE_FAILED",
+        "Failed to recompute analytics rollups",
+        error
+      );
+    }
+
+    return { storeId, from, to: range.to, days: countDays({ from, to: range.to }) };
+  }
+
+  /**
+   * Re-aggregate the order columns of one campaign day after a conversion was
+   * refunded or cancelled
+   *
+   * Event counts are left alone, so this also works on days whose raw events
+   * were archived. Days that were never rolled up are picked up by the next
+   * incremental run instead.
+   */
+  static async refreshConversionDay(campaignId: string, convertedAt: Date): Promise<void> {
+    try {
+      const campaign = await prisma.campaign.findUnique({
+        where: { id: campaignId },
+        select: { store: { select: { timezone: true } } },
+      });
+      if (!campaign) return;
+
+      const timezone = isValidTimezone(campaign.store.timezone) ? campaign.store.timezone : "UTC";
+      const day = getLocalDateKey(convertedAt, timezone);
+
+      await prisma.$executeRaw`
+        UPDATE "campaign_daily_rollups" r
+        SET
+          "orders" = t."orders",
+          "revenue" = t."revenue",
+          "grossRevenue" = t."grossRevenue",
+          "discount" = t."discount",
+          "updatedAt" = NOW()
+        FROM (
+          SELECT
+            (COUNT(*) FILTER (WHERE cv."cancelledAt" IS NULL))::int AS "orders",
+            COALESCE(SUM(cv."netRevenue") FILTER (WHERE cv."cancelledAt" IS NULL), 0) AS "revenue",
+            COALESCE(SUM(cv."totalPrice"), 0) AS "grossRevenue",
+            COALESCE(SUM(cv."discountAmount") FILTER (WHERE cv."cancelledAt" IS NULL), 0) AS "discount"
+          FROM "campaign_conversions" cv
+          WHERE cv."campaignId" = ${campaignId}
+            AND ${localDay('cv."createdAt"', timezone)} = ${day}::date
+        ) t
+        WHERE r."campaignId" = ${campaignId} AND r."date" = ${day}::date
+      `;
+    } catch (error) {
+      throw new ServiceError(
+        "ROLLUP_REFRESH_FAILED",
+        "Failed to refresh conversion rollups",
+        error
+      );
+    }
+  }
+
+  /**
+   * Store timezone used for day buckets (UTC when unknown to the runtime) and
+   * the raw event retention boundary
+   */
+  private static async getStoreContext(storeId: string): Promise<StoreRollupContext> {
+    const store = await prisma.store.findUnique({
+      where: { id: storeId },
+      select: { timezone: true, eventsArchivedBefore: true },
+    });
+    if (!store) {
+      throw new ServiceError("STORE_NOT_FOUND", `Store ${storeId} not found`);
+    }
+    return {
+      timezone: isValidTimezone(store.timezone) ? store.timezone : "UTC",
+      eventsArchivedBefore: store.eventsArchivedBefore,
+    };
+  }
+
+  /**
+   * Replace both rollup tables for a range of local days in one transaction
+   */
+  private static async rebuildDays(
+    storeId: string,
+    range: RollupDateRange,
+    timezone: string
+  ): Promise<void> {
+    // Local midnight of the first day and of the day after the last one, as UTC timestamps
+    const start = Prisma.sql`((${range.from}::date)::timestamp AT TIME ZONE ${timezone}) AT TIME ZONE 'UTC'`;
+    const end = Prisma.sql`(((${range.to}::date) + 1)::timestamp AT TIME ZONE ${timezone}) AT TIME ZONE 'UTC'`;
+
+    await prisma.$transaction([
+      prisma.$executeRaw`
+        DELETE FROM "campaign_daily_rollups"
+        WHERE "storeId" = ${storeId}
+          AND "date" BETWEEN ${range.from}::date AND ${range.to}::date
+      `,
+      prisma.$executeRaw`
+        INSERT INTO "campaign_daily_rollups" (
+          "campaignId", "date", "storeId", "experimentId", "variantKey",
+          "impressions", "clicks", "submits", "closes", "couponsIssued",
+          "leads", "orders", "revenue", "grossRevenue", "discount", "updatedAt"
+        )
+        SELECT
+          f."campaignId", f."day", c."storeId", c."experimentId", c."variantKey",
+          SUM(f."impressions")::int, SUM(f."clicks")::int, SUM(f."submits")::int,
+          SUM(f."closes")::int, SUM(f."couponsIssued")::int,
+          SUM(f."leads")::int, SUM(f."orders")::int, SUM(f."revenue"), SUM(f."grossRevenue"),
+          SUM(f."discount"), NOW()
+        FROM (
+          SELECT
+            e."campaignId",
+            ${localDay('e."createdAt"', timezone)} AS "day",
+            COUNT(*) FILTER (WHERE e."eventType" = 'VIEW') AS "impressions",
+            COUNT(*) FILTER (WHERE e."eventType" = 'CLICK') AS "clicks",
+            COUNT(*) FILTER (WHERE e."eventType" = 'SUBMIT') AS "submits",
+            COUNT(*) FILTER (WHERE e."eventType" = 'CLOSE') AS "closes",
+            COUNT(*) FILTER (WHERE e."eventType" = 'COUPON_ISSUED') AS "couponsIssued",
+            0 AS "leads", 0 AS "orders", 0::numeric AS "revenue",
+            0::numeric AS "grossRevenue", 0::numeric AS "discount"
+          FROM "popup_events" e
+          WHERE e."storeId" = ${storeId}
+            AND e."createdAt" >= ${start} AND e."createdAt" < ${end}
+          GROUP BY 1, 2
+          UNION ALL
+          SELECT
+            l."campaignId",
+            ${localDay('l."submittedAt"', timezone)},
+            0, 0, 0, 0, 0, COUNT(*), 0, 0, 0, 0
+          FROM "leads" l
+          WHERE l."storeId" = ${storeId}
+            AND l."submittedAt" >= ${start} AND l."submittedAt" < ${end}
+          GROUP BY 1, 2
+          UNION ALL
+          SELECT
+            cv."campaignId",
+            ${localDay('cv."createdAt"', timezone)},
+            0, 0, 0, 0, 0, 0,
+            COUNT(*) FILTER (WHERE cv."cancelledAt" IS NULL),
+            COALESCE(SUM(cv."netRevenue") FILTER (WHERE cv."cancelledAt" IS NULL), 0),
+            SUM(cv."totalPrice"),
+            COALESCE(SUM(cv."discountAmount") FILTER (WHERE cv."cancelledAt" IS NULL), 0)
+          FROM "campaign_conversions" cv
+          JOIN "campaigns" cc ON cc."id" = cv."campaignId"
+          WHERE cc."storeId" = ${storeId}
+            AND cv."createdAt" >= ${start} AND cv."createdAt" < ${end}
+          GROUP BY 1, 2
+        ) f
+        JOIN "campaigns" c ON c."id" = f."campaignId"
+        GROUP BY f."campaignId", f."day", c."storeId", c."experimentId", c."variantKey"
+      `,
+      prisma.$executeRaw`
+        DELETE FROM "campaign_device_daily_rollups"
+        WHERE "storeId" = ${storeId}
+          AND "date" BETWEEN ${range.from}::date AND ${range.to}::date
+      `,
+      prisma.$executeRaw`
+        INSERT INTO "campaign_device_daily_rollups" (
+          "campaignId", "date", "deviceType", "storeId",
+          "impressions", "clicks", "submits", "closes", "couponsIssued", "updatedAt"
+        )
+        SELECT
+          e."campaignId",
+          ${localDay('e."createdAt"', timezone)},
+          COALESCE(NULLIF(LOWER(e."deviceType"), ''), 'unknown'),
+          e."storeId",
+          COUNT(*) FILTER (WHERE e."eventType" = 'VIEW')::int,
+          COUNT(*) FILTER (WHERE e."eventType" = 'CLICK')::int,
+          COUNT(*) FILTER (WHERE e."eventType" = 'SUBMIT')::int,
+          COUNT(*) FILTER (WHERE e."eventType" = 'CLOSE')::int,
+          COUNT(*) FILTER (WHERE e."eventType" = 'COUPON_ISSUED')::int,
+          NOW()
+        FROM "popup_events" e
+        WHERE e."storeId" = ${storeId}
+          AND e."createdAt" >= ${start} AND e."createdAt" < ${end}
+        GROUP BY 1, 2, 3, 4
+      `,
+    ]);
+  }
+
+  // --------------------------------------------------------------------------
+  // Reads
+  // --------------------------------------------------------------------------
+
+  /**
+   * Totals per campaign. `from`/`to` are converted to local days of each
+   * campaign's store, so ranges always cover whole days.
+   */
+  static async getTotalsByCampaign(
+    campaignIds: string[],
+    options?: RollupRangeOptions
+  ): Promise<Map<string, RollupTotals>> {
+    if (campaignIds.length === 0) return new Map();
+
+    try {
+      const rows = await prisma.$queryRaw<Array<TotalsRow & { campaignId: string }>>`
+        SELECT
+          r."campaignId",
+          SUM(r."impressions") AS "impressions",
+          SUM(r."clicks") AS "clicks",
+          SUM(r."submits") AS "submits",
+          SUM(r."closes") AS "closes",
+          SUM(r."couponsIssued") AS "couponsIssued",
+          SUM(r."leads") AS "leads",
+          SUM(r."orders") AS "orders",
+          SUM(r."revenue") AS "revenue",
+          SUM(r."grossRevenue") AS "grossRevenue",
+          SUM(r."discount") AS "discount"
+        FROM "campaign_daily_rollups" r
+        JOIN "stores" s ON s."id" = r."storeId"
+        WHERE r."campaignId" IN (${Prisma.join(campaignIds)})
+          ${rangeFilter(options)}
+        GROUP BY r."campaignId"
+      `;
+
+      const result = new Map<string, RollupTotals>();
+      rows.forEach((row) => {
+        result.set(row.campaignId, toTotals(row));
+      });
+
+      return result;
+    } catch (error) {
+      throw new ServiceError("ROLLUP_TOTALS_FAILED", "Failed to fetch rollup totals", error);
+    }
+  }
+
+  /**
+   * Daily totals across campaigns for the last N local days (today included),
+   * with empty days filled in
+   */
+  static async getDailyTotals(campaignIds: string[], days: number): Promise<DailyRollupTotals[]> {
+    if (campaignIds.length === 0 || days <= 0) return [];
+
+    try {
+      const campaign = await prisma.campaign.findFirst({
+        where: { id: { in: campaignIds } },
+        select: { store: { select: { timezone: true } } },
+      });
+      const timezone =
+        campaign && isValidTimezone(campaign.store.timezone) ? campaign.store.timezone : "UTC";
+
+      const to = getLocalDateKey(new Date(), timezone);
+      const from = shiftDateKey(to, -(days - 1));
+
+      const rows = await prisma.$queryRaw<Array<TotalsRow & { date: Date }>>`
+        SELECT
+          r."date",
+          SUM(r."impressions") AS "impressions",
+          SUM(r."clicks") AS "clicks",
+          SUM(r."submits") AS "submits",
+          SUM(r."closes") AS "closes",
+          SUM(r."couponsIssued") AS "couponsIssued",
+          SUM(r."leads") AS "leads",
+          SUM(r."orders") AS "orders",
+          SUM(r."revenue") AS "revenue",
+          SUM(r."grossRevenue") AS "grossRevenue",
+          SUM(r."discount") AS "discount"
+        FROM "campaign_daily_rollups" r
+        WHERE r."campaignId" IN (${Prisma.join(campaignIds)})
+          AND r."date" BETWEEN ${from}::date AND ${to}::date
+        GROUP BY r."date"
+      `;
+
+      // DATE columns come back as UTC midnight of the local day
+      const byDate = new Map<string, RollupTotals>();
+      rows.forEach((row) => {
+        byDate.set(row.date.toISOString().split("T")[0], toTotals(row));
+      });
+
+      const result: DailyRollupTotals[] = [];
+      for (let date = from; date <= to; date = shiftDateKey(date, 1)) {
+        result.push({ date, ...(byDate.get(date) ?? EMPTY_ROLLUP_TOTALS) });
+      }
+
+      return result;
+    } catch (error) {
+      throw new ServiceError("ROLLUP_DAILY_FAILED", "Failed to fetch daily rollups", error);
+    }
+  }
+
+  /**
+   * Event totals per device type across campaigns
+   */
+  static async getTotalsByDevice(
+    campaignIds: string[],
+    options?: RollupRangeOptions
+  ): Promise<Map<string, RollupEventTotals>> {
+    if (campaignIds.length === 0) return new Map();
+
+    try {
+      const rows = await prisma.$queryRaw<
+        Array<{ deviceType: string } & { [K in keyof RollupEventTotals]: number | bigint | null }>
+      >`
+        SELECT
+          r."deviceType",
+          SUM(r."impressions") AS "impressions",
+          SUM(r."clicks") AS "clicks",
+          SUM(r."submits") AS "submits",
+          SUM(r."closes") AS "closes",
+          SUM(r."couponsIssued") AS "couponsIssued"
+        FROM "campaign_device_daily_rollups" r
+        JOIN "stores" s ON s."id" = r."storeId"
+        WHERE r."campaignId" IN (${Prisma.join(campaignIds)})
+          ${rangeFilter(options)}
+        GROUP BY r."deviceType"
+      `;
+
+      const result = new Map<string, RollupEventTotals>();
+      rows.forEach((row) => {
+        result.set(row.deviceType, {
+          impressions: Number(row.impressions ?? 0),
+          clicks: Number(row.clicks ?? 0),
+          submits: Number(row.submits ?? 0),
+          closes: Number(row.closes ?? 0),
+          couponsIssued: Number(row.couponsIssued ?? 0),
+        });
+      });
+
+      return result;
+    } catch (error) {
+      throw new ServiceError("ROLLUP_DEVICE_FAILED", "Failed to fetch device rollups", error);
+    }
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Campaign Anomaly Detection
+ *
+ * Pure helpers comparing a campaign's latest window (the last complete hour or
+ * the last 24 hours) with the same window on each of the previous 7 days:
+ * - impressions_drop: impressions far below the baseline average (e.g. a theme
+ *   update stopped the popup from rendering)
+ * - submit_rate_drop: visitors still see the popup but almost nobody submits
+ * - discount_failures / lead_submit_failures: ERROR events for a large share of
+ *   attempts, well above the baseline failure rate
+ *
+ * Minimum volumes keep small campaigns from alerting on noise. No database
+ * access here - AnomalyMonitorService loads the counts and stores the alerts.
+ */
+
+import type { AlertGranularity } from "~/domains/store/types/settings";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const CAMPAIGN_ALERT_TYPES = [
+  "impressions_drop",
+  "submit_rate_drop",
+  "discount_failures",
+  "lead_submit_failures",
+] as const;
+export type CampaignAlertType = (typeof CAMPAIGN_ALERT_TYPES)[number];
+
+export type AlertSeverity = "warning" | "critical";
+
+/** metadata.kind of ERROR popup events */
+export const CAMPAIGN_ERROR_KINDS = ["discount_issue", "lead_submit"] as const;
+export type CampaignErrorKind = (typeof CAMPAIGN_ERROR_KINDS)[number];
+
+export const CAMPAIGN_ALERT_LABELS: Record<CampaignAlertType, string> = {
+  impressions_drop: "Impressions dropped",
+  submit_rate_drop: "Submit rate collapsed",
+  discount_failures: "Discount issuance failing",
+  lead_submit_failures: "Lead submissions failing",
+};
+
+/**
+ * Event counts of one campaign for one hour or window
+ */
+export interface PerformanceCounts {
+  impressions: number;
+  submits: number;
+  couponsIssued: number;
+  discountErrors: number;
+  leadErrors: number;
+}
+
+export interface HourlyPerformanceCounts extends PerformanceCounts {
+  /** Start of the UTC hour */
+  hour: Date;
+}
+
+export interface TimeWindow {
+  from: Date;
+  /** Exclusive */
+  to: Date;
+}
+
+export interface DetectedAnomaly {
+  type: CampaignAlertType;
+  severity: AlertSeverity;
+  message: string;
+  /** Metric in the checked window (count or rate, see type) */
+  current: number;
+  /** Same metric in the baseline */
+  baseline: number;
+}
+
+/** Previous days the latest window is compared with */
+export const BASELINE_DAYS = 7;
+
+export const ANOMALY_THRESHOLDS = {
+  /** Average impressions per baseline window before drops are checked */
+  minBaselineImpressions: 20,
+  /** Share of the baseline impressions lost */
+  impressionDrop: 0.8,
+  /** Submits expected in the checked window at the baseline rate */
+  minExpectedSubmits: 5,
+  /** Share of the baseline submit rate lost */
+  submitRateDrop: 0.7,
+  /** Failed attempts in the checked window */
+  minFailures: 5,
+  /** Share of attempts failing */
+  failureRate: 0.2,
+  /** Failure rate relative to the baseline failure rate */
+  failureRateIncrease: 2,
+  /** Failure rate that makes the alert critical */
+  criticalFailureRate: 0.5,
+} as const;
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+// ============================================================================
+// WINDOWS
+// ============================================================================
+
+export const EMPTY_PERFORMANCE_COUNTS: PerformanceCounts = {
+  impressions: 0,
+  submits: 0,
+  couponsIssued: 0,
+  discountErrors: 0,
+  leadErrors: 0,
+};
+
+/**
+ * Latest complete window before `now` and the same window on each previous day
+ */
+export function getComparisonWindows(
+  granularity: AlertGranularity,
+  now: Date
+): { current: TimeWindow; baseline: TimeWindow[] } {
+  const end = Math.floor(now.getTime() / HOUR_MS) * HOUR_MS;
+  const length = granularity === "hourly" ? HOUR_MS : DAY_MS;
+  const window = (shift: number): TimeWindow => ({
+    from: new Date(end - length - shift),
+    to: new Date(end - shift),
+  });
+
+  return {
+    current: window(0),
+    baseline: Array.from({ length: BASELINE_DAYS }, (_, index) => window((index + 1) * DAY_MS)),
+  };
+}
+
+export function sumCounts(hours: HourlyPerformanceCounts[], window: TimeWindow): PerformanceCounts {
+  return hours
+    .filter((entry) => entry.hour >= window.from && entry.hour < window.to)
+    .reduce(
+      (total, entry) => ({
+        impressions: total.impressions + entry.impressions,
+        submits: total.submits + entry.submits,
+        couponsIssued: total.couponsIssued + entry.couponsIssued,
+        discountErrors: total.discountErrors + entry.discountErrors,
+        leadErrors: total.leadErrors + entry.leadErrors,
+      }),
+      EMPTY_PERFORMANCE_COUNTS
+    );
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+function detectFailures(
+  type: "discount_failures" | "lead_submit_failures",
+  failures: number,
+  successes: number,
+  baselineFailures: number,
+  baselineSuccesses: number
+): DetectedAnomaly | null {
+  const attempts = failures + successes;
+  if (failures < ANOMALY_THRESHOLDS.minFailures) return null;
+
+  const rate = failures / attempts;
+  const baselineAttempts = baselineFailures + baselineSuccesses;
+  const baselineRate = baselineAttempts > 0 ? baselineFailures / baselineAttempts : 0;
+  if (
+    rate < ANOMALY_THRESHOLDS.failureRate ||
+    rate < baselineRate * ANOMALY_THRESHOLDS.failureRateIncrease
+  ) {
+    return null;
+  }
+
+  return {
+    type,
+    severity: rate >= ANOMALY_THRESHOLDS.criticalFailureRate ? "critical" : "warning",
+    message: `${CAMPAIGN_ALERT_LABELS[type]}: ${failures} of ${attempts} attempts failed (${formatPercent(rate)})`,
+    current: rate,
+    baseline: baselineRate,
+  };
+}
+
+/**
+ * Anomalies of the current window against the baseline windows
+ */
+export function detectAnomalies(
+  current: PerformanceCounts,
+  baseline: PerformanceCounts[]
+): DetectedAnomaly[] {
+  const anomalies: DetectedAnomaly[] = [];
+  const total = baseline.reduce(
+    (sum, window) => ({
+      impressions: sum.impressions + window.impressions,
+      submits: sum.submits + window.submits,
+      couponsIssued: sum.couponsIssued + window.couponsIssued,
+      discountErrors: sum.discountErrors + window.discountErrors,
+      leadErrors: sum.leadErrors + window.leadErrors,
+    }),
+    EMPTY_PERFORMANCE_COUNTS
+  );
+  const averageImpressions = baseline.length > 0 ? total.impressions / baseline.length : 0;
+
+  // Impressions
+  if (averageImpressions >= ANOMALY_THRESHOLDS.minBaselineImpressions) {
+    const drop = 1 - current.impressions / averageImpressions;
+    if (drop >= ANOMALY_THRESHOLDS.impressionDrop) {
+      anomalies.push({
+        type: "impressions_drop",
+        severity: current.impressions === 0 || drop >= 0.95 ? "critical" : "warning",
+        message:
+          current.impressions === 0
+            ? `Impressions dropped to zero (usually ${Math.round(averageImpressions)})`
+            : `Impressions dropped ${Math.round(drop * 100)}% (${current.impressions} vs ${Math.round(averageImpressions)} usually)`,
+        current: current.impressions,
+        baseline: averageImpressions,
+      });
+    }
+  }
+
+  // Submit rate, when enough submits would be expected at the usual rate
+  const baselineRate = total.impressions > 0 ? total.submits / total.impressions : 0;
+  if (
+    baselineRate > 0 &&
+    current.impressions * baselineRate >= ANOMALY_THRESHOLDS.minExpectedSubmits
+  ) {
+    const rate = current.submits / current.impressions;
+    if (rate <= baselineRate * (1 - ANOMALY_THRESHOLDS.submitRateDrop)) {
+      anomalies.push({
+        type: "submit_rate_drop",
+        severity: current.submits === 0 ? "critical" : "warning",
+        message: `Submit rate collapsed from ${formatPercent(baselineRate)} to ${formatPercent(rate)}`,
+        current: rate,
+        baseline: baselineRate,
+      });
+    }
+  }
+
+  const discountFailures = detectFailures(
+    "discount_failures",
+    current.discountErrors,
+    current.couponsIssued,
+    total.discountErrors,
+    total.couponsIssued
+  );
+  if (discountFailures) anomalies.push(discountFailures);
+
+  const leadFailures = detectFailures(
+    "lead_submit_failures",
+    current.leadErrors,
+    current.submits,
+    total.leadErrors,
+    total.submits
+  );
+  if (leadFailures) anomalies.push(leadFailures);
+
+  return anomalies;
+}
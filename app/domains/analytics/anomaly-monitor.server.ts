@@ -0,0 +1,415 @@
+/**
+ * Anomaly Monitor Service
+ *
+ * Checks every active campaign against its own baseline (see ./anomaly-detection)
+ * and keeps CampaignAlert rows in sync:
+ * - a new anomaly opens an alert and notifies the store's webhook / email
+ *   recipients once
+ * - an anomaly that persists only refreshes its open alert
+ * - an alert whose metric recovered (or whose campaign stopped) is resolved
+ *
+ * Run by POST /api/internal/analytics/anomalies (hourly). Open alerts show as
+ * banners on the dashboard until they resolve or are dismissed.
+ */
+
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import { ServiceError } from "~/lib/errors.server";
+import { getMailFrom, getMailTransport } from "~/lib/mail-transport.server";
+import {
+  PerformanceAlertSettingsSchema,
+  StoreSettingsSchema,
+  type PerformanceAlertSettings,
+} from "~/domains/store/types/settings";
+import {
+  detectAnomalies,
+  getComparisonWindows,
+  sumCounts,
+  type AlertSeverity,
+  type CampaignAlertType,
+  type DetectedAnomaly,
+  type HourlyPerformanceCounts,
+} from "./anomaly-detection";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CampaignAlertSummary {
+  id: string;
+  campaignId: string;
+  campaignName: string;
+  type: CampaignAlertType;
+  severity: AlertSeverity;
+  message: string;
+  detectedAt: string;
+}
+
+export interface StoreAnomalyResult {
+  storeId: string;
+  campaigns: number;
+  opened: number;
+  resolved: number;
+  error?: boolean;
+}
+
+export interface AnomalyRunSummary {
+  processed: number;
+  errors: number;
+  opened: number;
+  resolved: number;
+  results: StoreAnomalyResult[];
+}
+
+interface MonitoredStore {
+  id: string;
+  shopifyDomain: string;
+}
+
+interface HourlyCountRow {
+  campaignId: string;
+  hour: Date;
+  impressions: number;
+  submits: number;
+  couponsIssued: number;
+  discountErrors: number;
+  leadErrors: number;
+}
+
+interface OpenAlertRow {
+  id: string;
+  campaignId: string;
+  type: string;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// ============================================================================
+// ANOMALY MONITOR SERVICE
+// ============================================================================
+
+export class AnomalyMonitorService {
+  /**
+   * Store alert settings with defaults applied
+   */
+  static getSettings(storeSettings: unknown): PerformanceAlertSettings {
+    const parsed = StoreSettingsSchema.safeParse(storeSettings ?? {});
+    return PerformanceAlertSettingsSchema.parse(
+      (parsed.success ? parsed.data.alerts : undefined) ?? {}
+    );
+  }
+
+  /**
+   * Check the campaigns of every active store
+   */
+  static async runAll(now: Date = new Date()): Promise<AnomalyRunSummary> {
+    const stores = await prisma.store.findMany({
+      where: { isActive: true },
+      select: { id: true, shopifyDomain: true, settings: true },
+    });
+
+    const results: StoreAnomalyResult[] = [];
+    for (const store of stores) {
+      const settings = this.getSettings(store.settings);
+      try {
+        const result = settings.enabled
+          ? await this.checkStore(store, settings, now)
+          : { campaigns: 0, opened: 0, resolved: await this.resolveAlerts(store.id, [], now) };
+        results.push({ storeId: store.id, ...result });
+      } catch (error) {
+        logger.error({ error, storeId: store.id }, "[AnomalyMonitor] Store check failed");
+        results.push({ storeId: store.id, campaigns: 0, opened: 0, resolved: 0, error: true });
+      }
+    }
+
+    const summary: AnomalyRunSummary = {
+      processed: results.filter((r) => !r.error).length,
+      errors: results.filter((r) => r.error).length,
+      opened: results.reduce((sum, r) => sum + r.opened, 0),
+      resolved: results.reduce((sum, r) => sum + r.resolved, 0),
+      results,
+    };
+
+    logger.info(
+      {
+        processed: summary.processed,
+        errors: summary.errors,
+        opened: summary.opened,
+        resolved: summary.resolved,
+      },
+      "[AnomalyMonitor] Anomaly run complete"
+    );
+
+    return summary;
+  }
+
+  /**
+   * Detect anomalies for a store's active campaigns and sync its alerts
+   */
+  static async checkStore(
+    store: MonitoredStore,
+    settings: PerformanceAlertSettings,
+    now: Date = new Date()
+  ): Promise<Omit<StoreAnomalyResult, "storeId">> {
+    const campaigns = await prisma.campaign.findMany({
+      where: {
+        storeId: store.id,
+        status: "ACTIVE",
+        OR: [{ endDate: null }, { endDate: { gt: now } }],
+      },
+      select: { id: true, name: true },
+    });
+
+    const windows = getComparisonWindows(settings.granularity, now);
+    const hours = await this.getHourlyCounts(
+      store.id,
+      windows.baseline[windows.baseline.length - 1].from,
+      windows.current.to
+    );
+
+    const detected: Array<DetectedAnomaly & { campaignId: string; campaignName: string }> = [];
+    for (const campaign of campaigns) {
+      const campaignHours = hours.filter((entry) => entry.campaignId === campaign.id);
+      const anomalies = detectAnomalies(
+        sumCounts(campaignHours, windows.current),
+        windows.baseline.map((window) => sumCounts(campaignHours, window))
+      );
+      for (const anomaly of anomalies) {
+        detected.push({ ...anomaly, campaignId: campaign.id, campaignName: campaign.name });
+      }
+    }
+
+    const openAlerts: OpenAlertRow[] = await prisma.campaignAlert.findMany({
+      where: { storeId: store.id, resolvedAt: null },
+      select: { id: true, campaignId: true, type: true },
+    });
+
+    const opened: CampaignAlertSummary[] = [];
+    const stillOpen: string[] = [];
+    for (const anomaly of detected) {
+      const existing = openAlerts.find(
+        (alert) => alert.campaignId === anomaly.campaignId && alert.type === anomaly.type
+      );
+      const values = {
+        severity: anomaly.severity,
+        message: anomaly.message,
+        current: anomaly.current,
+        baseline: anomaly.baseline,
+        lastSeenAt: now,
+      };
+
+      if (existing) {
+        await prisma.campaignAlert.update({ where: { id: existing.id }, data: values });
+        stillOpen.push(existing.id);
+        continue;
+      }
+
+      const created = await prisma.campaignAlert.create({
+        data: {
+          ...values,
+          storeId: store.id,
+          campaignId: anomaly.campaignId,
+          type: anomaly.type,
+          detectedAt: now,
+        },
+        select: { id: true },
+      });
+      opened.push({
+        id: created.id,
+        campaignId: anomaly.campaignId,
+        campaignName: anomaly.campaignName,
+        type: anomaly.type,
+        severity: anomaly.severity,
+        message: anomaly.message,
+        detectedAt: now.toISOString(),
+      });
+    }
+
+    const resolved = await this.resolveAlerts(store.id, stillOpen, now);
+
+    if (opened.length > 0) {
+      logger.warn(
+        { storeId: store.id, alerts: opened.map((alert) => alert.type) },
+        "[AnomalyMonitor] Campaign alerts opened"
+      );
+      if (await this.notify(store, settings, opened)) {
+        await prisma.campaignAlert.updateMany({
+          where: { id: { in: opened.map((alert) => alert.id) } },
+          data: { notifiedAt: now },
+        });
+      }
+    }
+
+    return { campaigns: campaigns.length, opened: opened.length, resolved };
+  }
+
+  /**
+   * Open, undismissed alerts for the dashboard banner (critical first)
+   */
+  static async getOpenAlerts(storeId: string): Promise<CampaignAlertSummary[]> {
+    try {
+      const alerts: Array<{
+        id: string;
+        campaignId: string;
+        type: string;
+        severity: string;
+        message: string;
+        detectedAt: Date;
+        campaign: { name: string };
+      }> = await prisma.campaignAlert.findMany({
+        where: { storeId, resolvedAt: null, dismissedAt: null },
+        orderBy: { detectedAt: "desc" },
+        select: {
+          id: true,
+          campaignId: true,
+          type: true,
+          severity: true,
+          message: true,
+          detectedAt: true,
+          campaign: { select: { name: true } },
+        },
+      });
+
+      return alerts
+        .map((alert) => ({
+          id: alert.id,
+          campaignId: alert.campaignId,
+          campaignName: alert.campaign.name,
+          type: alert.type as CampaignAlertType,
+          severity: alert.severity as AlertSeverity,
+          message: alert.message,
+          detectedAt: alert.detectedAt.toISOString(),
+        }))
+        .sort((a, b) => Number(b.severity === "critical") - Number(a.severity === "critical"));
+    } catch (error) {
+      throw new ServiceError("ALERTS_FETCH_FAILED", "Failed to fetch campaign alerts", error);
+    }
+  }
+
+  /**
+   * Hide an alert from the dashboard; it still resolves on its own
+   */
+  static async dismissAlert(storeId: string, alertId: string): Promise<boolean> {
+    const result = await prisma.campaignAlert.updateMany({
+      where: { id: alertId, storeId, dismissedAt: null },
+      data: { dismissedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Resolve a store's open alerts except the given ones
+   */
+  private static async resolveAlerts(
+    storeId: string,
+    keepIds: string[],
+    now: Date
+  ): Promise<number> {
+    const result = await prisma.campaignAlert.updateMany({
+      where: {
+        storeId,
+        resolvedAt: null,
+        ...(keepIds.length > 0 && { id: { notIn: keepIds } }),
+      },
+      data: { resolvedAt: now },
+    });
+    return result.count;
+  }
+
+  /**
+   * VIEW / SUBMIT / COUPON_ISSUED / ERROR counts per campaign and UTC hour
+   */
+  private static async getHourlyCounts(
+    storeId: string,
+    from: Date,
+    to: Date
+  ): Promise<Array<HourlyPerformanceCounts & { campaignId: string }>> {
+    try {
+      const rows = await prisma.$queryRaw<HourlyCountRow[]>`
+        SELECT
+          "campaignId",
+          date_trunc('hour', "createdAt") AS "hour",
+          COUNT(*) FILTER (WHERE "eventType" = 'VIEW')::int AS "impressions",
+          COUNT(*) FILTER (WHERE "eventType" = 'SUBMIT')::int AS "submits",
+          COUNT(*) FILTER (WHERE "eventType" = 'COUPON_ISSUED')::int AS "couponsIssued",
+          COUNT(*) FILTER (WHERE "eventType" = 'ERROR' AND "metadata"->>'kind' = 'discount_issue')::int AS "discountErrors",
+          COUNT(*) FILTER (WHERE "eventType" = 'ERROR' AND "metadata"->>'kind' = 'lead_submit')::int AS "leadErrors"
+        FROM "popup_events"
+        WHERE "storeId" = ${storeId}
+          AND "createdAt" >= ${from} AND "createdAt" < ${to}
+          AND "eventType" IN ('VIEW', 'SUBMIT', 'COUPON_ISSUED', 'ERROR')
+        GROUP BY 1, 2
+      `;
+
+      return rows.map((row: HourlyCountRow) => ({
+        campaignId: row.campaignId,
+        hour: new Date(row.hour),
+        impressions: Number(row.impressions),
+        submits: Number(row.submits),
+        couponsIssued: Number(row.couponsIssued),
+        discountErrors: Number(row.discountErrors),
+        leadErrors: Number(row.leadErrors),
+      }));
+    } catch (error) {
+      throw new ServiceError("ANOMALY_COUNTS_FAILED", "Failed to load hourly event counts", error);
+    }
+  }
+
+  /**
+   * Send newly opened alerts to the store's webhook and email recipients.
+   * Returns whether any channel accepted them.
+   */
+  private static async notify(
+    store: MonitoredStore,
+    settings: PerformanceAlertSettings,
+    alerts: CampaignAlertSummary[]
+  ): Promise<boolean> {
+    let delivered = false;
+
+    if (settings.webhookUrl) {
+      try {
+        const response = await fetch(settings.webhookUrl, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            event: "campaign_alerts.opened",
+            shop: store.shopifyDomain,
+            alerts,
+          }),
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        });
+        if (!response.ok) throw new Error(`Webhook responded with ${response.status}`);
+        delivered = true;
+      } catch (error) {
+        logger.warn({ error, storeId: store.id }, "[AnomalyMonitor] Alert webhook failed");
+      }
+    }
+
+    if (settings.emails.length > 0) {
+      const transport = getMailTransport();
+      if (!transport) {
+        logger.warn({ storeId: store.id }, "[AnomalyMonitor] No mail transport for alert emails");
+      } else {
+        try {
+          await transport.send({
+            from: getMailFrom(),
+            to: settings.emails,
+            subject: `Revenue Boost alert for ${store.shopifyDomain}: ${alerts.length} campaign issue${alerts.length === 1 ? "" : "s"}`,
+            text: [
+              "Revenue Boost noticed unusual campaign performance:",
+              "",
+              ...alerts.map((alert) => `- ${alert.campaignName}: ${alert.message}`),
+              "",
+              "Open the app dashboard for details.",
+            ].join("\n"),
+          });
+          delivered = true;
+        } catch (error) {
+          logger.warn({ error, storeId: store.id }, "[AnomalyMonitor] Alert email failed");
+        }
+      }
+    }
+
+    return delivered;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Attribution Models
+ *
+ * Pure helpers splitting an order's credit across the campaigns a shopper
+ * interacted with before buying:
+ * - last_touch / first_touch: everything to the last / first campaign
+ * - linear: equal share per touch
+ * - position_based: 40% first, 40% last, 20% shared by the touches in between
+ *
+ * Consecutive touches of the same campaign (view → click → submit) count as one,
+ * so a campaign doesn't earn more credit just for firing more events.
+ *
+ * No database access here - AttributionService collects the touchpoints.
+ */
+
+import type { AttributionModel } from "~/domains/store/types/settings";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TouchpointType = "VIEW" | "CLICK" | "SUBMIT" | "COUPON_ISSUED" | "DISCOUNT_CODE";
+
+export interface Touchpoint {
+  campaignId: string;
+  type: TouchpointType;
+  occurredAt: Date;
+}
+
+export interface CampaignCredit {
+  campaignId: string;
+  /** Share of the order (0-1), sums to 1 across campaigns */
+  credit: number;
+  /** Touchpoints of this campaign, before collapsing */
+  touchpoints: number;
+  lastTouchAt: Date;
+}
+
+export const ATTRIBUTION_MODELS: AttributionModel[] = [
+  "last_touch",
+  "first_touch",
+  "linear",
+  "position_based",
+];
+
+export const ATTRIBUTION_MODEL_LABELS: Record<AttributionModel, string> = {
+  last_touch: "Last touch",
+  first_touch: "First touch",
+  linear: "Linear",
+  position_based: "Position-based (40/20/40)",
+};
+
+/** Share of the first and of the last touch in the position-based model */
+const POSITION_BASED_ENDPOINT_SHARE = 0.4;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Sort touchpoints chronologically and merge runs of the same campaign
+ */
+function collapseTouchpoints(touchpoints: Touchpoint[]): Touchpoint[] {
+  const sorted = [...touchpoints].sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+  const collapsed: Touchpoint[] = [];
+  for (const touch of sorted) {
+    const previous = collapsed[collapsed.length - 1];
+    if (previous?.campaignId === touch.campaignId) {
+      collapsed[collapsed.length - 1] = touch;
+    } else {
+      collapsed.push(touch);
+    }
+  }
+  return collapsed;
+}
+
+/**
+ * Weight of each position in a journey of `count` touches
+ */
+function getPositionWeights(model: AttributionModel, count: number): number[] {
+  if (count === 0) return [];
+  if (count === 1) return [1];
+
+  switch (model) {
+    case "first_touch":
+      return Array.from({ length: count }, (_, i) => (i === 0 ? 1 : 0));
+    case "last_touch":
+      return Array.from({ length: count }, (_, i) => (i === count - 1 ? 1 : 0));
+    case "linear":
+      return Array.from({ length: count }, () => 1 / count);
+    case "position_based": {
+      if (count === 2) return [0.5, 0.5];
+      const middleShare = (1 - 2 * POSITION_BASED_ENDPOINT_SHARE) / (count - 2);
+      return Array.from({ length: count }, (_, i) =>
+        i === 0 || i === count - 1 ? POSITION_BASED_ENDPOINT_SHARE : middleShare
+      );
+    }
+  }
+}
+
+// ============================================================================
+// MODELS
+// ============================================================================
+
+/**
+ * Credit per campaign for one model, ordered by credit (highest first, ties
+ * broken by the most recent touch)
+ */
+export function computeAttributionCredits(
+  touchpoints: Touchpoint[],
+  model: AttributionModel
+): CampaignCredit[] {
+  const journey = collapseTouchpoints(touchpoints);
+  const weights = getPositionWeights(model, journey.length);
+
+  const byCampaign = new Map<string, CampaignCredit>();
+  for (const touch of touchpoints) {
+    const existing = byCampaign.get(touch.campaignId);
+    if (existing) {
+      existing.touchpoints += 1;
+      if (touch.occurredAt > existing.lastTouchAt) existing.lastTouchAt = touch.occurredAt;
+    } else {
+      byCampaign.set(touch.campaignId, {
+        campaignId: touch.campaignId,
+        credit: 0,
+        touchpoints: 1,
+        lastTouchAt: touch.occurredAt,
+      });
+    }
+  }
+
+  journey.forEach((touch, index) => {
+    byCampaign.get(touch.campaignId)!.credit += weights[index];
+  });
+
+  return Array.from(byCampaign.values())
+    .filter((entry) => entry.credit > 0)
+    .sort((a, b) => b.credit - a.credit || b.lastTouchAt.getTime() - a.lastTouchAt.getTime());
+}
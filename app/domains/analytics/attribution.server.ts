@@ -0,0 +1,359 @@
+/**
+ * Attribution Service
+ *
+ * Multi-touch revenue attribution for orders:
+ * - Collects the shopper's touchpoints: PopupEvents linked through the leads
+ *   matching the order's customer ID or email (visitorId, sessionId, leadId),
+ *   the lead submissions themselves and any campaign discount code on the order
+ * - Applies the store's click / view windows (StoreSettings.attribution)
+ * - Stores the credit of every campaign under every model in campaign_attributions,
+ *   so revenue reports can switch models without reprocessing orders
+ *
+ * The campaign with the most credit under the store's model is the one recorded
+ * as the order's CampaignConversion (see app/webhooks/orders.create.ts).
+ */
+
+import type { PopupEventType, Prisma } from "@prisma/client";
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import { ServiceError } from "~/lib/errors.server";
+import {
+  AttributionSettingsSchema,
+  StoreSettingsSchema,
+  type AttributionModel,
+  type AttributionSettings,
+} from "~/domains/store/types/settings";
+import {
+  ATTRIBUTION_MODELS,
+  computeAttributionCredits,
+  type CampaignCredit,
+  type Touchpoint,
+} from "./attribution-models";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AttributionOrder {
+  orderId: string;
+  orderedAt: Date;
+  totalPrice: number;
+  discountAmount: number;
+  customerId?: string;
+  email?: string;
+}
+
+/** A campaign discount code used on the order */
+export interface DiscountCodeMatch {
+  campaignId: string;
+  code: string;
+  /** Lead the unique code was issued to, if any */
+  leadId?: string;
+}
+
+export interface AttributionLead {
+  id: string;
+  campaignId: string;
+  visitorId: string | null;
+  sessionId: string;
+  discountCode: string | null;
+  submittedAt: Date;
+}
+
+export interface OrderAttribution {
+  model: AttributionModel;
+  credits: Record<AttributionModel, CampaignCredit[]>;
+  /** Campaign with the most credit under the store's model */
+  primary: CampaignCredit | null;
+  /** Most recent lead of the primary campaign */
+  primaryLead: AttributionLead | null;
+  touchpoints: Touchpoint[];
+}
+
+export interface AttributedRevenue {
+  revenue: number;
+  discount: number;
+  /** Credited orders, fractional for split models */
+  orderCount: number;
+  aov: number;
+}
+
+/** Leads used to resolve a shopper's identity */
+const MAX_IDENTITY_LEADS = 50;
+
+/** Events considered per order, oldest first */
+const MAX_TOUCHPOINT_EVENTS = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// ATTRIBUTION SERVICE
+// ============================================================================
+
+export class AttributionService {
+  /**
+   * Store attribution settings with defaults applied
+   */
+  static getSettings(storeSettings: unknown): AttributionSettings {
+    const parsed = StoreSettingsSchema.safeParse(storeSettings ?? {});
+    return AttributionSettingsSchema.parse(
+      (parsed.success ? parsed.data.attribution : undefined) ?? {}
+    );
+  }
+
+  /**
+   * Collect touchpoints, compute credits for every model and store them
+   */
+  static async attributeOrder(
+    storeId: string,
+    order: AttributionOrder,
+    settings: AttributionSettings,
+    discountMatches: DiscountCodeMatch[] = []
+  ): Promise<OrderAttribution> {
+    const { touchpoints, leads } = await this.collectTouchpoints(
+      storeId,
+      order,
+      settings,
+      discountMatches
+    );
+
+    const credits = Object.fromEntries(
+      ATTRIBUTION_MODELS.map((model) => [model, computeAttributionCredits(touchpoints, model)])
+    ) as Record<AttributionModel, CampaignCredit[]>;
+
+    const rows: Prisma.CampaignAttributionCreateManyInput[] = ATTRIBUTION_MODELS.flatMap((model) =>
+      credits[model].map((entry) => ({
+        storeId,
+        campaignId: entry.campaignId,
+        orderId: order.orderId,
+        model,
+        credit: Number(entry.credit.toFixed(6)),
+        revenue: order.totalPrice * entry.credit,
+        netRevenue: order.totalPrice * entry.credit,
+        discount: order.discountAmount * entry.credit,
+        touchpoints: entry.touchpoints,
+        orderedAt: order.orderedAt,
+      }))
+    );
+
+    if (rows.length > 0) {
+      try {
+        // Webhooks are retried, the unique (orderId, model, campaignId) keeps this idempotent
+        await prisma.campaignAttribution.createMany({ data: rows, skipDuplicates: true });
+      } catch (error) {
+        // Model reports lose this order, but the caller can still record the conversion
+        logger.error({ error, orderId: order.orderId }, "[Attribution] Failed to store credits");
+      }
+    }
+
+    const primary = credits[settings.model][0] ?? null;
+    const primaryLead = primary
+      ? (leads.find((lead) => lead.campaignId === primary.campaignId) ?? null)
+      : null;
+
+    logger.info(
+      {
+        orderId: order.orderId,
+        touchpoints: touchpoints.length,
+        campaigns: credits.linear.length,
+        primaryCampaignId: primary?.campaignId,
+      },
+      "[Attribution] Order attributed"
+    );
+
+    return { model: settings.model, credits, primary, primaryLead, touchpoints };
+  }
+
+  /**
+   * Touchpoints inside the attribution windows, oldest first
+   */
+  static async collectTouchpoints(
+    storeId: string,
+    order: AttributionOrder,
+    settings: AttributionSettings,
+    discountMatches: DiscountCodeMatch[] = []
+  ): Promise<{ touchpoints: Touchpoint[]; leads: AttributionLead[] }> {
+    const clickWindowStart = new Date(
+      order.orderedAt.getTime() - settings.clickWindowDays * DAY_MS
+    );
+    const viewWindowStart = new Date(order.orderedAt.getTime() - settings.viewWindowDays * DAY_MS);
+
+    // 1. Resolve the shopper's leads (and through them visitor and session IDs)
+    const identity: Prisma.LeadWhereInput[] = [];
+    if (order.customerId && /^\d+$/.test(order.customerId)) {
+      identity.push({ shopifyCustomerId: BigInt(order.customerId) });
+    }
+    if (order.email) {
+      identity.push({ email: order.email.toLowerCase() });
+    }
+    const codeLeadIds = discountMatches
+      .map((match) => match.leadId)
+      .filter((id): id is string => Boolean(id));
+    if (codeLeadIds.length > 0) {
+      identity.push({ id: { in: codeLeadIds } });
+    }
+
+    const leads: AttributionLead[] =
+      identity.length > 0
+        ? await prisma.lead.findMany({
+            where: { storeId, OR: identity },
+            select: {
+              id: true,
+              campaignId: true,
+              visitorId: true,
+              sessionId: true,
+              discountCode: true,
+              submittedAt: true,
+            },
+            orderBy: { submittedAt: "desc" },
+            take: MAX_IDENTITY_LEADS,
+          })
+        : [];
+
+    // 2. Popup events of those visitors, sessions and leads
+    const visitorIds = unique(leads.map((lead) => lead.visitorId));
+    const sessionIds = unique(leads.map((lead) => lead.sessionId));
+    const leadIds = leads.map((lead) => lead.id);
+
+    const eventFilters: Prisma.PopupEventWhereInput[] = [];
+    if (visitorIds.length > 0) eventFilters.push({ visitorId: { in: visitorIds } });
+    if (sessionIds.length > 0) eventFilters.push({ sessionId: { in: sessionIds } });
+    if (leadIds.length > 0) eventFilters.push({ leadId: { in: leadIds } });
+
+    const eventTypes: PopupEventType[] = ["CLICK", "SUBMIT", "COUPON_ISSUED"];
+    if (settings.viewWindowDays > 0) eventTypes.push("VIEW");
+
+    const events =
+      eventFilters.length > 0
+        ? await prisma.popupEvent.findMany({
+            where: {
+              storeId,
+              eventType: { in: eventTypes },
+              createdAt: {
+                gte: clickWindowStart < viewWindowStart ? clickWindowStart : viewWindowStart,
+                lte: order.orderedAt,
+              },
+              OR: eventFilters,
+            },
+            select: { campaignId: true, eventType: true, createdAt: true, leadId: true },
+            orderBy: { createdAt: "asc" },
+            take: MAX_TOUCHPOINT_EVENTS,
+          })
+        : [];
+
+    const touchpoints: Touchpoint[] = [];
+    const leadsWithEvents = new Set<string>();
+
+    for (const event of events) {
+      const windowStart = event.eventType === "VIEW" ? viewWindowStart : clickWindowStart;
+      if (event.createdAt < windowStart) continue;
+      if (event.leadId) leadsWithEvents.add(event.leadId);
+      touchpoints.push({
+        campaignId: event.campaignId,
+        type: event.eventType as Touchpoint["type"],
+        occurredAt: event.createdAt,
+      });
+    }
+
+    // 3. Lead submissions (events may be missing, e.g. pruned by retention)
+    for (const lead of leads) {
+      if (leadsWithEvents.has(lead.id)) continue;
+      if (lead.submittedAt < clickWindowStart || lead.submittedAt > order.orderedAt) continue;
+      touchpoints.push({
+        campaignId: lead.campaignId,
+        type: "SUBMIT",
+        occurredAt: lead.submittedAt,
+      });
+    }
+
+    // 4. Discount codes used at checkout are the last touch
+    for (const match of discountMatches) {
+      touchpoints.push({
+        campaignId: match.campaignId,
+        type: "DISCOUNT_CODE",
+        occurredAt: order.orderedAt,
+      });
+    }
+
+    touchpoints.sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+    return { touchpoints, leads };
+  }
+
+  /**
+   * Spread an order's refunds / cancellation over the credit every campaign got
+   * for it, under every model
+   */
+  static async adjustOrder(
+    orderId: string,
+    adjustment: { netRevenue: number; cancelledAt: Date | null }
+  ): Promise<void> {
+    try {
+      await prisma.$executeRaw`
+        UPDATE "campaign_attributions"
+        SET "netRevenue" = "credit" * ${adjustment.netRevenue}, "cancelledAt" = ${adjustment.cancelledAt}
+        WHERE "orderId" = ${orderId}
+      `;
+    } catch (error) {
+      throw new ServiceError(
+        "ATTRIBUTION_ADJUST_FAILED",
+        "Failed to adjust attributed revenue",
+        error
+      );
+    }
+  }
+
+  /**
+   * Attributed net revenue per campaign under a model (cancelled orders excluded)
+   */
+  static async getRevenueByCampaign(
+    campaignIds: string[],
+    model: AttributionModel,
+    options?: { from?: Date; to?: Date }
+  ): Promise<Map<string, AttributedRevenue>> {
+    if (campaignIds.length === 0) return new Map();
+
+    const where: Prisma.CampaignAttributionWhereInput = {
+      campaignId: { in: campaignIds },
+      model,
+      cancelledAt: null,
+    };
+    if (options?.from || options?.to) {
+      where.orderedAt = {
+        ...(options.from ? { gte: options.from } : {}),
+        ...(options.to ? { lte: options.to } : {}),
+      };
+    }
+
+    try {
+      const rows = await prisma.campaignAttribution.groupBy({
+        by: ["campaignId"],
+        where,
+        _sum: { credit: true, netRevenue: true, discount: true },
+      });
+
+      const result = new Map<string, AttributedRevenue>();
+      for (const row of rows) {
+        const orderCount = Number(row._sum.credit ?? 0);
+        if (orderCount === 0) continue;
+        const revenue = Number(row._sum.netRevenue ?? 0);
+        result.set(row.campaignId, {
+          revenue,
+          discount: Number(row._sum.discount ?? 0),
+          orderCount: Math.round(orderCount * 100) / 100,
+          aov: revenue / orderCount,
+        });
+      }
+      return result;
+    } catch (error) {
+      throw new ServiceError(
+        "ATTRIBUTION_REVENUE_FAILED",
+        "Failed to fetch attributed revenue",
+        error
+      );
+    }
+  }
+}
+
+function unique(values: Array<string | null>): string[] {
+  return Array.from(new Set(values.filter((value): value is string => Boolean(value))));
+}
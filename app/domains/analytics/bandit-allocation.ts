@@ -0,0 +1,123 @@
+/**
+ * Bandit Allocation
+ *
+ * Multi-armed bandit traffic weights for experiments:
+ * - Thompson sampling (traffic proportional to posterior probability to be best)
+ * - Epsilon-greedy (exploit the current leader, explore evenly with probability epsilon)
+ * - Minimum allocation floor so no variant is starved of data
+ *
+ * Pure functions only - the bandit allocation service feeds in aggregated counts.
+ */
+
+import type { BanditConfig } from "~/domains/campaigns/types/experiment";
+import { probabilityToBeBestForRates } from "./experiment-statistics";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BanditArm {
+  variantKey: string;
+  /** Conversions for the experiment's primary metric */
+  successes: number;
+  /** Impressions */
+  trials: number;
+}
+
+/** Percent of traffic per variant key, summing to 100 */
+export type AllocationWeights = Record<string, number>;
+
+const ALLOCATION_SIMULATIONS = 10000;
+const ALLOCATION_SEED = 7;
+
+// ============================================================================
+// ALGORITHMS
+// ============================================================================
+
+/**
+ * Thompson sampling: each variant's share is its probability of having the best rate
+ */
+export function thompsonSamplingShares(
+  arms: BanditArm[],
+  simulations: number = ALLOCATION_SIMULATIONS,
+  seed: number = ALLOCATION_SEED
+): number[] {
+  return probabilityToBeBestForRates(arms, simulations, seed);
+}
+
+/**
+ * Epsilon-greedy: the leader gets 1 - epsilon, epsilon is spread evenly across all variants.
+ * Tied leaders split the exploitation share.
+ */
+export function epsilonGreedyShares(arms: BanditArm[], epsilon: number): number[] {
+  if (arms.length === 0) return [];
+
+  const rates = arms.map((arm) => (arm.trials > 0 ? arm.successes / arm.trials : 0));
+  const best = Math.max(...rates);
+  const leaders = rates.filter((rate) => rate === best).length;
+  const exploration = epsilon / arms.length;
+
+  return rates.map((rate) => exploration + (rate === best ? (1 - epsilon) / leaders : 0));
+}
+
+/**
+ * Convert shares (summing to 1) into percentages with a per-variant floor
+ */
+export function applyMinimumAllocation(shares: number[], minimumPercent: number): number[] {
+  if (shares.length === 0) return [];
+
+  const floor = Math.min(Math.max(minimumPercent, 0), 100 / shares.length);
+  const remaining = 100 - floor * shares.length;
+  const total = shares.reduce((sum, share) => sum + share, 0);
+
+  return shares.map((share) =>
+    total > 0 ? floor + (remaining * share) / total : 100 / shares.length
+  );
+}
+
+// ============================================================================
+// ALLOCATION
+// ============================================================================
+
+/**
+ * Compute traffic weights for every arm. Falls back to an even split until each
+ * variant has collected the warm-up number of impressions.
+ */
+export function computeBanditAllocation(
+  arms: BanditArm[],
+  config: BanditConfig
+): AllocationWeights {
+  if (arms.length === 0) return {};
+
+  const warmingUp = arms.some((arm) => arm.trials < config.warmupImpressions);
+  const shares = warmingUp
+    ? arms.map(() => 1 / arms.length)
+    : config.algorithm === "epsilon_greedy"
+      ? epsilonGreedyShares(arms, config.epsilon)
+      : thompsonSamplingShares(arms);
+
+  const percents = applyMinimumAllocation(shares, config.minimumAllocation);
+
+  return Object.fromEntries(
+    arms.map((arm, i) => [arm.variantKey, Math.round(percents[i] * 100) / 100])
+  );
+}
+
+/**
+ * Pick a key from weighted options using a point in [0, 1).
+ * Options without weight (or all-zero weights) fall back to an even split.
+ */
+export function selectByWeight<T>(options: Array<{ value: T; weight: number }>, point: number): T {
+  const total = options.reduce((sum, option) => sum + Math.max(option.weight, 0), 0);
+  if (total <= 0) {
+    return options[Math.min(Math.floor(point * options.length), options.length - 1)].value;
+  }
+
+  let cumulative = 0;
+  const target = point * total;
+  for (const option of options) {
+    cumulative += Math.max(option.weight, 0);
+    if (target < cumulative) return option.value;
+  }
+  return options[options.length - 1].value;
+}
@@ -0,0 +1,129 @@
+/**
+ * ExportDataCard - Download popup events, leads or conversions as CSV / NDJSON
+ *
+ * Streams /api/export/:dataset for the selected time range (and campaign or
+ * experiment, when given). Personal columns are only included on request.
+ */
+
+import { useState } from "react";
+import {
+  Banner,
+  BlockStack,
+  Button,
+  Card,
+  Checkbox,
+  InlineStack,
+  Select,
+  Text,
+} from "@shopify/polaris";
+import {
+  EXPORT_COLUMNS,
+  EXPORT_DATASETS,
+  EXPORT_DATASET_LABELS,
+  type ExportDataset,
+  type ExportFormat,
+} from "~/domains/analytics/data-export";
+
+export interface ExportDataCardProps {
+  timeRange?: string;
+  campaignId?: string;
+  experimentId?: string;
+}
+
+const DATASET_OPTIONS = EXPORT_DATASETS.map((dataset) => ({
+  label: EXPORT_DATASET_LABELS[dataset],
+  value: dataset,
+}));
+
+const FORMAT_OPTIONS: Array<{ label: string; value: ExportFormat }> = [
+  { label: "CSV", value: "csv" },
+  { label: "NDJSON", value: "ndjson" },
+];
+
+function getFilename(response: Response, fallback: string): string {
+  const match = response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/);
+  return match ? match[1] : fallback;
+}
+
+export function ExportDataCard({ timeRange, campaignId, experimentId }: ExportDataCardProps) {
+  const [dataset, setDataset] = useState<ExportDataset>("leads");
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [includePersonal, setIncludePersonal] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    const params = new URLSearchParams({ format });
+    if (timeRange) params.set("timeRange", timeRange);
+    if (campaignId) params.set("campaignId", campaignId);
+    if (experimentId) params.set("experimentId", experimentId);
+    if (includePersonal) {
+      params.set("columns", EXPORT_COLUMNS[dataset].map((column) => column.key).join(","));
+    }
+
+    setDownloading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/export/${dataset}?${params}`);
+      if (!response.ok) throw new Error(`Export failed (${response.status})`);
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = getFilename(response, `${dataset}.${format}`);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError("The export could not be downloaded. Please try again.");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            Export data
+          </Text>
+          <Text as="p" tone="subdued">
+            Download raw rows for your BI tools. Older popup events may have been archived under
+            your data retention settings.
+          </Text>
+        </BlockStack>
+
+        {error && (
+          <Banner tone="critical" onDismiss={() => setError(null)}>
+            <p>{error}</p>
+          </Banner>
+        )}
+
+        <InlineStack gap="400" blockAlign="end">
+          <Select
+            label="Data"
+            options={DATASET_OPTIONS}
+            value={dataset}
+            onChange={(value) => setDataset(value as ExportDataset)}
+          />
+          <Select
+            label="Format"
+            options={FORMAT_OPTIONS}
+            value={format}
+            onChange={(value) => setFormat(value as ExportFormat)}
+          />
+          <Button onClick={handleDownload} loading={downloading}>
+            Download
+          </Button>
+        </InlineStack>
+
+        <Checkbox
+          label="Include personal data"
+          helpText="Adds emails, names, phone numbers, customer IDs and user agents. IP addresses are always truncated."
+          checked={includePersonal}
+          onChange={setIncludePersonal}
+        />
+      </BlockStack>
+    </Card>
+  );
+}
@@ -0,0 +1,229 @@
+/**
+ * FunnelCard - Impression → interaction → submit → coupon → order funnel
+ *
+ * Loads /api/analytics/funnel lazily. Campaign funnels can be split by device,
+ * page type or trigger; experiment funnels show one row per variant.
+ */
+
+import { useEffect, useState } from "react";
+import { useFetcher } from "react-router";
+import {
+  Banner,
+  BlockStack,
+  Card,
+  DataTable,
+  InlineStack,
+  Select,
+  SkeletonBodyText,
+  Text,
+} from "@shopify/polaris";
+import type { FunnelReport } from "~/domains/analytics/funnel-analytics.server";
+import {
+  FUNNEL_BREAKDOWNS,
+  FUNNEL_BREAKDOWN_LABELS,
+  FUNNEL_STEP_LABELS,
+  type CloseStep,
+  type FunnelBreakdown,
+  type FunnelSegment,
+} from "~/domains/analytics/funnel";
+
+export type FunnelCardProps = ({ campaignId: string } | { experimentId: string }) & {
+  timeRange?: string;
+};
+
+interface FunnelResponse {
+  success: boolean;
+  data?: { funnel: FunnelReport };
+  error?: string;
+}
+
+const BREAKDOWN_OPTIONS = FUNNEL_BREAKDOWNS.map((breakdown) => ({
+  label: FUNNEL_BREAKDOWN_LABELS[breakdown],
+  value: breakdown,
+}));
+
+const CLOSE_STEPS: CloseStep[] = ["impression", "interaction", "submit", "coupon"];
+
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+
+/**
+ * Compact duration, e.g. 45s, 3m 20s, 2h 5m, 3d 4h
+ */
+export function formatDuration(seconds: number | null): string {
+  if (seconds === null) return "-";
+  const rounded = Math.round(seconds);
+  const days = Math.floor(rounded / 86400);
+  const hours = Math.floor((rounded % 86400) / 3600);
+  const minutes = Math.floor((rounded % 3600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${rounded % 60}s`;
+  return `${rounded}s`;
+}
+
+function stepRows(segment: FunnelSegment) {
+  return segment.steps.map((step, index) => [
+    step.label,
+    step.sessions.toLocaleString(),
+    formatPercent(step.rateFromImpression),
+    index === 0 ? "-" : formatPercent(step.rateFromPrevious),
+    index === 0 ? "-" : formatPercent(step.dropOffRate),
+    formatDuration(step.medianSecondsFromPrevious),
+  ]);
+}
+
+function segmentRows(segments: FunnelSegment[]) {
+  return segments.map((segment) => [
+    segment.label,
+    ...segment.steps.map((step) =>
+      step.step === "impression"
+        ? step.sessions.toLocaleString()
+        : `${step.sessions.toLocaleString()} (${formatPercent(step.rateFromPrevious)})`
+    ),
+    formatPercent(segment.steps[segment.steps.length - 1].rateFromImpression),
+  ]);
+}
+
+export function FunnelCard(props: FunnelCardProps) {
+  const { timeRange = "30d" } = props;
+  const campaignId = "campaignId" in props ? props.campaignId : undefined;
+  const experimentId = "experimentId" in props ? props.experimentId : undefined;
+  const [breakdown, setBreakdown] = useState<FunnelBreakdown>("none");
+  const fetcher = useFetcher<FunnelResponse>();
+  // load is stable across renders, unlike the fetcher object
+  const { load } = fetcher;
+
+  useEffect(() => {
+    const params = new URLSearchParams({ timeRange });
+    if (campaignId) {
+      params.set("campaignId", campaignId);
+      params.set("breakdown", breakdown);
+    }
+    if (experimentId) params.set("experimentId", experimentId);
+    load(`/api/analytics/funnel?${params.toString()}`);
+  }, [load, campaignId, experimentId, breakdown, timeRange]);
+
+  const funnel = fetcher.data?.data?.funnel;
+  const isLoading = fetcher.state === "loading" || (!fetcher.data && fetcher.state === "idle");
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <InlineStack align="space-between" blockAlign="center">
+          <Text as="h2" variant="headingMd">
+            Conversion Funnel
+          </Text>
+          {campaignId && (
+            <div style={{ minWidth: "180px" }}>
+              <Select
+                label="Break down by"
+                labelHidden
+                options={BREAKDOWN_OPTIONS}
+                value={breakdown}
+                onChange={(value) => setBreakdown(value as FunnelBreakdown)}
+              />
+            </div>
+          )}
+        </InlineStack>
+        <Text as="p" tone="subdued">
+          Sessions that saw the popup and how far they got. Time between steps is the median from
+          the previous step reached.
+        </Text>
+
+        {fetcher.data && !fetcher.data.success ? (
+          <Banner tone="critical">
+            <p>{fetcher.data.error ?? "Failed to load the funnel."}</p>
+          </Banner>
+        ) : isLoading || !funnel ? (
+          <SkeletonBodyText lines={6} />
+        ) : (
+          <BlockStack gap="400">
+            {funnel.hasArchivedEvents && (
+              <Banner tone="info">
+                <p>
+                  Raw events from the start of this period were archived, so older sessions are
+                  missing from the funnel.
+                </p>
+              </Banner>
+            )}
+
+            {funnel.total.steps[0].sessions === 0 ? (
+              <Text as="p" tone="subdued">
+                No impressions recorded in this period.
+              </Text>
+            ) : (
+              <>
+                <DataTable
+                  columnContentTypes={[
+                    "text",
+                    "numeric",
+                    "numeric",
+                    "numeric",
+                    "numeric",
+                    "numeric",
+                  ]}
+                  headings={[
+                    "Step",
+                    "Sessions",
+                    "Of impressions",
+                    "From previous",
+                    "Drop-off",
+                    "Median time",
+                  ]}
+                  rows={stepRows(funnel.total)}
+                />
+
+                {funnel.segments.length > 0 && (
+                  <DataTable
+                    columnContentTypes={[
+                      "text",
+                      "numeric",
+                      "numeric",
+                      "numeric",
+                      "numeric",
+                      "numeric",
+                      "numeric",
+                    ]}
+                    headings={[
+                      funnel.breakdown === "variant"
+                        ? "Variant"
+                        : FUNNEL_BREAKDOWN_LABELS[funnel.breakdown],
+                      ...funnel.total.steps.map((step) => step.label),
+                      "Impression → order",
+                    ]}
+                    rows={segmentRows(funnel.segments)}
+                  />
+                )}
+
+                <BlockStack gap="200">
+                  <Text as="h3" variant="headingSm">
+                    Last step before close
+                  </Text>
+                  <Text as="p" tone="subdued">
+                    {`${funnel.total.closes.total.toLocaleString()} sessions (${formatPercent(
+                      funnel.total.closes.closeRate
+                    )} of impressions) closed the popup.`}
+                  </Text>
+                  <DataTable
+                    columnContentTypes={["text", "numeric", "numeric"]}
+                    headings={["Last step", "Closes", "Share of closes"]}
+                    rows={CLOSE_STEPS.map((step) => [
+                      FUNNEL_STEP_LABELS[step],
+                      funnel.total.closes.byLastStep[step].toLocaleString(),
+                      formatPercent(
+                        funnel.total.closes.total > 0
+                          ? (funnel.total.closes.byLastStep[step] / funnel.total.closes.total) * 100
+                          : 0
+                      ),
+                    ])}
+                  />
+                </BlockStack>
+              </>
+            )}
+          </BlockStack>
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
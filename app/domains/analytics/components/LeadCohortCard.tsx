@@ -0,0 +1,141 @@
+/**
+ * LeadCohortCard - What captured leads buy in the 30 / 60 / 90 days after signing up
+ *
+ * Loads /api/analytics/cohorts lazily, grouped by campaign, template type or
+ * signup week, so sources can be compared by repeat purchases and revenue per lead.
+ */
+
+import { useEffect, useState } from "react";
+import { useFetcher } from "react-router";
+import {
+  Banner,
+  BlockStack,
+  Card,
+  DataTable,
+  InlineStack,
+  Select,
+  SkeletonBodyText,
+  Text,
+} from "@shopify/polaris";
+import {
+  COHORT_GROUPINGS,
+  COHORT_GROUPING_LABELS,
+  COHORT_WINDOWS,
+  type CohortGrouping,
+  type CohortSummary,
+} from "~/domains/analytics/lead-cohorts";
+
+export interface LeadCohortCardProps {
+  currency: string;
+}
+
+interface CohortResponse {
+  success: boolean;
+  data?: { groupBy: CohortGrouping; weeks: number; cohorts: CohortSummary[] };
+  error?: string;
+}
+
+const GROUPING_OPTIONS = COHORT_GROUPINGS.map((grouping) => ({
+  label: COHORT_GROUPING_LABELS[grouping],
+  value: grouping,
+}));
+
+const WEEK_OPTIONS = [
+  { label: "Signed up in the last 13 weeks", value: "13" },
+  { label: "Signed up in the last 26 weeks", value: "26" },
+  { label: "Signed up in the last 52 weeks", value: "52" },
+];
+
+const formatRate = (rate: number | null) => (rate === null ? "-" : `${(rate * 100).toFixed(1)}%`);
+
+export function LeadCohortCard({ currency }: LeadCohortCardProps) {
+  const [groupBy, setGroupBy] = useState<CohortGrouping>("campaign");
+  const [weeks, setWeeks] = useState("26");
+  const fetcher = useFetcher<CohortResponse>();
+  // Unlike the fetcher itself, load keeps its identity between renders
+  const { load } = fetcher;
+
+  useEffect(() => {
+    load(`/api/analytics/cohorts?groupBy=${groupBy}&weeks=${weeks}`);
+  }, [load, groupBy, weeks]);
+
+  const formatMoney = (amount: number | null) =>
+    amount === null
+      ? "-"
+      : new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+
+  const cohorts = fetcher.data?.data?.cohorts;
+  const isLoading = fetcher.state === "loading" || (!fetcher.data && fetcher.state === "idle");
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <InlineStack align="space-between" blockAlign="center">
+          <Text as="h2" variant="headingMd">
+            Lead Cohorts
+          </Text>
+          <InlineStack gap="200">
+            <Select
+              label="Group by"
+              labelHidden
+              options={GROUPING_OPTIONS}
+              value={groupBy}
+              onChange={(value) => setGroupBy(value as CohortGrouping)}
+            />
+            <Select
+              label="Signup weeks"
+              labelHidden
+              options={WEEK_OPTIONS}
+              value={weeks}
+              onChange={setWeeks}
+            />
+          </InlineStack>
+        </InlineStack>
+        <Text as="p" tone="subdued">
+          Orders placed by captured leads after signing up. Repeat rate is the share of leads with
+          two or more orders within 30, 60 or 90 days; only leads who signed up at least that long
+          ago are counted.
+        </Text>
+
+        {fetcher.data && !fetcher.data.success ? (
+          <Banner tone="critical">
+            <p>{fetcher.data.error ?? "Failed to load lead cohorts."}</p>
+          </Banner>
+        ) : isLoading || !cohorts ? (
+          <SkeletonBodyText lines={6} />
+        ) : cohorts.length === 0 ? (
+          <Text as="p" tone="subdued">
+            No leads captured in this period.
+          </Text>
+        ) : (
+          <DataTable
+            columnContentTypes={[
+              "text",
+              "numeric",
+              "numeric",
+              ...COHORT_WINDOWS.flatMap(() => ["numeric", "numeric"] as const),
+            ]}
+            headings={[
+              COHORT_GROUPING_LABELS[groupBy],
+              "Leads",
+              "Bought in 90d",
+              ...COHORT_WINDOWS.flatMap((window) => [
+                `Repeat rate ${window}d`,
+                `Revenue / lead ${window}d`,
+              ]),
+            ]}
+            rows={cohorts.map((cohort) => [
+              cohort.label,
+              cohort.leads.toLocaleString(),
+              formatRate(cohort.windows[90].purchaseRate),
+              ...COHORT_WINDOWS.flatMap((window) => [
+                formatRate(cohort.windows[window].repeatPurchaseRate),
+                formatMoney(cohort.windows[window].revenuePerLead),
+              ]),
+            ])}
+          />
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
@@ -0,0 +1,245 @@
+/**
+ * Conversion Adjustment Service
+ *
+ * CampaignConversion is written once on orders/create. Refunds and
+ * cancellations arrive later and adjust its net revenue:
+ * - refunds/create: subtracts the refund (each Shopify refund ID applies once)
+ * - orders/updated: reconciles against the order's full list of refunds
+ * - orders/cancelled: voids the conversion (no revenue, no order)
+ *
+ * The new net revenue is spread over the order's campaign_attributions rows and
+ * the daily rollup of the day the conversion was recorded on, so every revenue
+ * report (dashboards, getVariantPerformance, attribution models) shows net figures.
+ */
+
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import { ServiceError } from "~/lib/errors.server";
+import { AnalyticsRollupService } from "./analytics-rollup.server";
+import { AttributionService } from "./attribution.server";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OrderRefund {
+  /** Shopify refund ID */
+  id: string;
+  /** Money returned to the customer */
+  amount: number;
+}
+
+export interface ConversionAdjustment {
+  orderId: string;
+  campaignId: string;
+  netRevenue: number;
+  refundedAmount: number;
+  cancelled: boolean;
+}
+
+interface AdjustableConversion {
+  id: string;
+  campaignId: string;
+  orderId: string;
+  totalPrice: unknown;
+  refundedAmount: unknown;
+  refundIds: string[];
+  cancelledAt: Date | null;
+  createdAt: Date;
+}
+
+interface AdjustmentState {
+  refundIds: string[];
+  refundedAmount: number;
+  cancelledAt: Date | null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Net revenue left on an order: nothing once cancelled, never below zero
+ */
+export function computeNetRevenue(
+  totalPrice: number,
+  refundedAmount: number,
+  cancelled: boolean
+): number {
+  if (cancelled) return 0;
+  return roundMoney(Math.max(0, totalPrice - refundedAmount));
+}
+
+// ============================================================================
+// CONVERSION ADJUSTMENT SERVICE
+// ============================================================================
+
+export class ConversionAdjustmentService {
+  /**
+   * Subtract a refund from the order's conversion
+   *
+   * Returns null when the order has no conversion or the refund was already applied.
+   */
+  static async applyRefund(
+    storeId: string,
+    orderId: string,
+    refund: OrderRefund
+  ): Promise<ConversionAdjustment | null> {
+    const conversion = await this.findConversion(storeId, orderId);
+    if (!conversion || conversion.refundIds.includes(refund.id)) return null;
+
+    return this.adjust(conversion, {
+      refundIds: [...conversion.refundIds, refund.id],
+      refundedAmount: Number(conversion.refundedAmount) + refund.amount,
+      cancelledAt: conversion.cancelledAt,
+    });
+  }
+
+  /**
+   * Bring the conversion in line with the order's current refunds and
+   * cancellation (orders/updated carries both)
+   *
+   * Returns null when the order has no conversion or nothing changed.
+   */
+  static async reconcileOrder(
+    storeId: string,
+    orderId: string,
+    order: { refunds: OrderRefund[]; cancelledAt: Date | null }
+  ): Promise<ConversionAdjustment | null> {
+    const conversion = await this.findConversion(storeId, orderId);
+    if (!conversion) return null;
+
+    const refundedAmount = order.refunds.reduce((sum, refund) => sum + refund.amount, 0);
+    // Shopify orders cannot be un-cancelled
+    const cancelledAt = conversion.cancelledAt ?? order.cancelledAt;
+
+    const unchanged =
+      roundMoney(refundedAmount) === roundMoney(Number(conversion.refundedAmount)) &&
+      order.refunds.every((refund) => conversion.refundIds.includes(refund.id)) &&
+      cancelledAt === conversion.cancelledAt;
+    if (unchanged) return null;
+
+    return this.adjust(conversion, {
+      refundIds: order.refunds.map((refund) => refund.id),
+      refundedAmount,
+      cancelledAt,
+    });
+  }
+
+  /**
+   * Void the order's conversion
+   *
+   * Returns null when the order has no conversion or it was already voided.
+   */
+  static async cancelOrder(
+    storeId: string,
+    orderId: string,
+    cancelledAt: Date
+  ): Promise<ConversionAdjustment | null> {
+    const conversion = await this.findConversion(storeId, orderId);
+    if (!conversion || conversion.cancelledAt) return null;
+
+    return this.adjust(conversion, {
+      refundIds: conversion.refundIds,
+      refundedAmount: Number(conversion.refundedAmount),
+      cancelledAt,
+    });
+  }
+
+  private static async findConversion(
+    storeId: string,
+    orderId: string
+  ): Promise<AdjustableConversion | null> {
+    try {
+      return await prisma.campaignConversion.findFirst({
+        where: { orderId, campaign: { storeId } },
+        select: {
+          id: true,
+          campaignId: true,
+          orderId: true,
+          totalPrice: true,
+          refundedAmount: true,
+          refundIds: true,
+          cancelledAt: true,
+          createdAt: true,
+        },
+      });
+    } catch (error) {
+      throw new ServiceError(
+        "CONVERSION_LOOKUP_FAILED",
+        "Failed to look up the order's conversion",
+        error
+      );
+    }
+  }
+
+  private static async adjust(
+    conversion: AdjustableConversion,
+    state: AdjustmentState
+  ): Promise<ConversionAdjustment> {
+    const refundedAmount = roundMoney(state.refundedAmount);
+    const netRevenue = computeNetRevenue(
+      Number(conversion.totalPrice),
+      refundedAmount,
+      state.cancelledAt !== null
+    );
+
+    // Attributions first: if this throws, the webhook retry finds the
+    // conversion unchanged and applies the adjustment again
+    await AttributionService.adjustOrder(conversion.orderId, {
+      netRevenue,
+      cancelledAt: state.cancelledAt,
+    });
+
+    try {
+      await prisma.campaignConversion.update({
+        where: { id: conversion.id },
+        data: {
+          netRevenue,
+          refundedAmount,
+          refundIds: state.refundIds,
+          cancelledAt: state.cancelledAt,
+          adjustedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      throw new ServiceError("CONVERSION_ADJUST_FAILED", "Failed to adjust the conversion", error);
+    }
+
+    try {
+      await AnalyticsRollupService.refreshConversionDay(
+        conversion.campaignId,
+        conversion.createdAt
+      );
+    } catch (error) {
+      // The conversion is the source of truth, recomputing that day fixes the rollup
+      logger.error(
+        { error, orderId: conversion.orderId },
+        "[ConversionAdjustment] Failed to refresh rollups"
+      );
+    }
+
+    logger.info(
+      {
+        orderId: conversion.orderId,
+        campaignId: conversion.campaignId,
+        netRevenue,
+        refundedAmount,
+        cancelled: state.cancelledAt !== null,
+      },
+      "[ConversionAdjustment] Conversion adjusted"
+    );
+
+    return {
+      orderId: conversion.orderId,
+      campaignId: conversion.campaignId,
+      netRevenue,
+      refundedAmount,
+      cancelled: state.cancelledAt !== null,
+    };
+  }
+}
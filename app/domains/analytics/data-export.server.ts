@@ -0,0 +1,297 @@
+/**
+ * Data Export Service
+ *
+ * Reads PopupEvent, Lead and CampaignConversion rows of a store for BI exports
+ * (GET /api/export/:dataset):
+ * - getPage: one keyset page (createdAt, id) and an opaque cursor for the next
+ * - stream: the whole filtered range as a CSV / NDJSON byte stream, fetched
+ *   page by page so memory stays flat however large the store is
+ *
+ * Column selection and IP masking live in ./data-export.
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import { ServiceError } from "~/lib/errors.server";
+import {
+  DEFAULT_EXPORT_PAGE_SIZE,
+  formatCsvHeader,
+  formatExportRecords,
+  resolveExportColumns,
+  toExportRecord,
+  type ExportColumn,
+  type ExportDataset,
+  type ExportFormat,
+  type ExportRecord,
+} from "./data-export";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ExportFilters {
+  from?: Date;
+  to?: Date;
+  campaignId?: string;
+  experimentId?: string;
+  /** Only these rows (e.g. leads selected in the admin) */
+  ids?: string[];
+  /** Column keys, defaults to every non-personal column */
+  columns?: string[];
+}
+
+export interface ExportPageOptions extends ExportFilters {
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ExportPage {
+  columns: ExportColumn[];
+  records: ExportRecord[];
+  /** Pass back as `cursor` for the next page, null on the last page */
+  nextCursor: string | null;
+}
+
+interface ExportCursor {
+  createdAt: Date;
+  id: string;
+}
+
+type ExportRow = Record<string, unknown> & { id: string; createdAt: Date };
+
+/** Selected columns plus the cursor fields, for any of the exported models */
+type ExportSelect = Record<string, boolean> & { id: true; createdAt: true };
+
+// ============================================================================
+// CURSORS
+// ============================================================================
+
+function toExportRow(row: Record<string, unknown>): ExportRow {
+  const { id, createdAt } = row;
+  if (typeof id !== "string" || !(createdAt instanceof Date)) {
+    throw new Error("Export row is missing its cursor fields");
+  }
+  return { ...row, id, createdAt };
+}
+
+export function encodeExportCursor(cursor: ExportCursor): string {
+  return Buffer.from(JSON.stringify([cursor.createdAt.toISOString(), cursor.id])).toString(
+    "base64url"
+  );
+}
+
+/**
+ * Parse a cursor from encodeExportCursor, null when it is malformed
+ */
+export function decodeExportCursor(value: string): ExportCursor | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (
+      !Array.isArray(parsed) ||
+      parsed.length !== 2 ||
+      typeof parsed[0] !== "string" ||
+      typeof parsed[1] !== "string"
+    ) {
+      return null;
+    }
+    const createdAt = new Date(parsed[0]);
+    return Number.isNaN(createdAt.getTime()) ? null : { createdAt, id: parsed[1] };
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// DATA EXPORT SERVICE
+// ============================================================================
+
+export class DataExportService {
+  /**
+   * Validated columns for a dataset
+   */
+  static getColumns(dataset: ExportDataset, requested?: string[]): ExportColumn[] {
+    const { columns, unknown } = resolveExportColumns(dataset, requested);
+    if (unknown.length > 0) {
+      throw new ServiceError(
+        "VALIDATION_FAILED",
+        `Unknown ${dataset} columns: ${unknown.join(", ")}`,
+        { unknown }
+      );
+    }
+    return columns;
+  }
+
+  /**
+   * One page of rows, oldest first
+   */
+  static async getPage(
+    storeId: string,
+    dataset: ExportDataset,
+    options: ExportPageOptions = {}
+  ): Promise<ExportPage> {
+    const columns = this.getColumns(dataset, options.columns);
+
+    let after: ExportCursor | null = null;
+    if (options.cursor) {
+      after = decodeExportCursor(options.cursor);
+      if (!after) {
+        throw new ServiceError("VALIDATION_FAILED", "Invalid export cursor");
+      }
+    }
+
+    const limit = options.limit ?? DEFAULT_EXPORT_PAGE_SIZE;
+    // One extra row tells whether another page follows
+    const rows = await this.fetchRows(storeId, dataset, options, columns, after, limit + 1);
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      columns,
+      records: page.map((row) => toExportRecord(row, columns)),
+      nextCursor:
+        rows.length > limit && last
+          ? encodeExportCursor({ createdAt: last.createdAt, id: last.id })
+          : null,
+    };
+  }
+
+  /**
+   * Every matching row as CSV (with a header line) or NDJSON
+   */
+  static stream(
+    storeId: string,
+    dataset: ExportDataset,
+    format: ExportFormat,
+    filters: ExportFilters = {}
+  ): ReadableStream<Uint8Array> {
+    const columns = this.getColumns(dataset, filters.columns);
+    const encoder = new TextEncoder();
+    let after: ExportCursor | null = null;
+    let exported = 0;
+
+    return new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        if (format === "csv") {
+          controller.enqueue(encoder.encode(formatCsvHeader(columns)));
+        }
+      },
+      pull: async (controller) => {
+        try {
+          const rows = await this.fetchRows(
+            storeId,
+            dataset,
+            filters,
+            columns,
+            after,
+            DEFAULT_EXPORT_PAGE_SIZE
+          );
+
+          if (rows.length > 0) {
+            const records = rows.map((row) => toExportRecord(row, columns));
+            controller.enqueue(encoder.encode(formatExportRecords(records, columns, format)));
+            const last = rows[rows.length - 1];
+            after = { createdAt: last.createdAt, id: last.id };
+            exported += rows.length;
+          }
+
+          if (rows.length < DEFAULT_EXPORT_PAGE_SIZE) {
+            logger.info({ storeId, dataset, format, exported }, "[DataExport] Export complete");
+            controller.close();
+          }
+        } catch (error) {
+          logger.error({ error, storeId, dataset }, "[DataExport] Export failed");
+          controller.error(error);
+        }
+      },
+    });
+  }
+
+  /**
+   * Rows after the cursor, ordered by (createdAt, id), with just the exported
+   * columns plus the cursor fields
+   */
+  private static async fetchRows(
+    storeId: string,
+    dataset: ExportDataset,
+    filters: ExportFilters,
+    columns: ExportColumn[],
+    after: ExportCursor | null,
+    take: number
+  ): Promise<ExportRow[]> {
+    const select: ExportSelect = { id: true, createdAt: true };
+    for (const column of columns) select[column.key] = true;
+
+    const createdAt = {
+      ...(filters.from && { gte: filters.from }),
+      ...(filters.to && { lte: filters.to }),
+    };
+    const afterCursor = after
+      ? {
+          OR: [
+            { createdAt: { gt: after.createdAt } },
+            { createdAt: after.createdAt, id: { gt: after.id } },
+          ],
+        }
+      : {};
+    const ids = filters.ids ? { id: { in: filters.ids } } : {};
+    const orderBy = [{ createdAt: "asc" as const }, { id: "asc" as const }];
+
+    try {
+      switch (dataset) {
+        case "events": {
+          const rows = await prisma.popupEvent.findMany({
+            where: {
+              storeId,
+              ...(filters.campaignId && { campaignId: filters.campaignId }),
+              ...(filters.experimentId && { experimentId: filters.experimentId }),
+              ...ids,
+              createdAt,
+              AND: [afterCursor],
+            },
+            select: select satisfies Prisma.PopupEventSelect,
+            orderBy,
+            take,
+          });
+          return rows.map((row) => toExportRow(row));
+        }
+        case "leads": {
+          const rows = await prisma.lead.findMany({
+            where: {
+              storeId,
+              ...(filters.campaignId && { campaignId: filters.campaignId }),
+              ...(filters.experimentId && { campaign: { experimentId: filters.experimentId } }),
+              ...ids,
+              createdAt,
+              AND: [afterCursor],
+            },
+            select: select satisfies Prisma.LeadSelect,
+            orderBy,
+            take,
+          });
+          return rows.map((row) => toExportRow(row));
+        }
+        case "conversions": {
+          const rows = await prisma.campaignConversion.findMany({
+            where: {
+              campaign: {
+                storeId,
+                ...(filters.experimentId && { experimentId: filters.experimentId }),
+              },
+              ...(filters.campaignId && { campaignId: filters.campaignId }),
+              ...ids,
+              createdAt,
+              AND: [afterCursor],
+            },
+            select: select satisfies Prisma.CampaignConversionSelect,
+            orderBy,
+            take,
+          });
+          return rows.map((row) => toExportRow(row));
+        }
+      }
+    } catch (error) {
+      throw new ServiceError("EXPORT_FETCH_FAILED", `Failed to export ${dataset}`, error);
+    }
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Data Export Definitions
+ *
+ * Datasets and columns for the BI export (PopupEvent, Lead, CampaignConversion
+ * rows as CSV or NDJSON), plus the pure helpers the export service and API
+ * share:
+ * - Personal columns (emails, names, phone numbers, customer IDs, user agents,
+ *   IP addresses) are only exported when explicitly requested
+ * - IP addresses are always truncated (IPv4 /24, IPv6 /48), never exported in full
+ * - Pages are keyset-paginated on (createdAt, id), see DataExportService
+ */
+
+import { csvCell } from "./scheduled-reports";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const EXPORT_DATASETS = ["events", "leads", "conversions"] as const;
+export type ExportDataset = (typeof EXPORT_DATASETS)[number];
+
+export const EXPORT_FORMATS = ["csv", "ndjson"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export type ExportValue = string | number | boolean | null | string[] | Record<string, unknown>;
+
+/** One exported row, keyed by column */
+export type ExportRecord = Record<string, ExportValue>;
+
+export interface ExportColumn {
+  /** Database field and column name */
+  key: string;
+  /** Personal data: only exported when requested by name */
+  personal?: boolean;
+  /** Truncate to a network prefix before export */
+  maskIp?: boolean;
+}
+
+export const EXPORT_DATASET_LABELS: Record<ExportDataset, string> = {
+  events: "Popup events",
+  leads: "Leads",
+  conversions: "Conversions",
+};
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+/** Rows per page in the API and per database round trip when streaming */
+export const DEFAULT_EXPORT_PAGE_SIZE = 1000;
+export const MAX_EXPORT_PAGE_SIZE = 10000;
+
+/** Row IDs per request when exporting a selection */
+export const MAX_EXPORT_IDS = 250;
+
+// ============================================================================
+// COLUMNS
+// ============================================================================
+
+export const EXPORT_COLUMNS: Record<ExportDataset, ExportColumn[]> = {
+  events: [
+    { key: "id" },
+    { key: "createdAt" },
+    { key: "eventType" },
+    { key: "campaignId" },
+    { key: "experimentId" },
+    { key: "variantKey" },
+    { key: "leadId" },
+    { key: "sessionId" },
+    { key: "visitorId" },
+    { key: "deviceType" },
+    { key: "pageUrl" },
+    { key: "pageTitle" },
+    { key: "referrer" },
+    { key: "metadata" },
+    { key: "userAgent", personal: true },
+    { key: "ipAddress", personal: true, maskIp: true },
+  ],
+  leads: [
+    { key: "id" },
+    { key: "submittedAt" },
+    { key: "campaignId" },
+    { key: "marketingConsent" },
+    { key: "consentedAt" },
+    { key: "discountCode" },
+    { key: "sessionId" },
+    { key: "visitorId" },
+    { key: "pageUrl" },
+    { key: "referrer" },
+    { key: "utmSource" },
+    { key: "utmMedium" },
+    { key: "utmCampaign" },
+    { key: "createdAt" },
+    { key: "email", personal: true },
+    { key: "firstName", personal: true },
+    { key: "lastName", personal: true },
+    { key: "phone", personal: true },
+    { key: "shopifyCustomerId", personal: true },
+    { key: "userAgent", personal: true },
+    { key: "ipAddress", personal: true, maskIp: true },
+  ],
+  conversions: [
+    { key: "id" },
+    { key: "createdAt" },
+    { key: "campaignId" },
+    { key: "orderId" },
+    { key: "orderNumber" },
+    { key: "totalPrice" },
+    { key: "discountAmount" },
+    { key: "discountCodes" },
+    { key: "netRevenue" },
+    { key: "refundedAmount" },
+    { key: "cancelledAt" },
+    { key: "source" },
+    { key: "customerId", personal: true },
+  ],
+};
+
+/**
+ * Columns to export: the requested ones in the given order, or every
+ * non-personal column. Returns the unknown names instead when there are any.
+ */
+export function resolveExportColumns(
+  dataset: ExportDataset,
+  requested?: string[]
+): { columns: ExportColumn[]; unknown: string[] } {
+  const available = EXPORT_COLUMNS[dataset];
+  if (!requested || requested.length === 0) {
+    return { columns: available.filter((column) => !column.personal), unknown: [] };
+  }
+
+  const keys = Array.from(new Set(requested));
+  const unknown = keys.filter((key) => !available.some((column) => column.key === key));
+  return {
+    columns: unknown.length > 0 ? [] : keys.map((key) => available.find((c) => c.key === key)!),
+    unknown,
+  };
+}
+
+// ============================================================================
+// VALUES
+// ============================================================================
+
+/**
+ * Truncate an IP address to its network: 203.0.113.42 → 203.0.113.0,
+ * 2001:db8:85a3::8a2e:370:7334 → 2001:db8:85a3::. Unparseable values are dropped.
+ */
+export function maskIpAddress(ip: string | null | undefined): string | null {
+  const value = ip?.trim();
+  if (!value) return null;
+
+  const ipv4 = value.match(/^(?:::ffff:)?(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.\d{1,3}$/i);
+  if (ipv4) return `${ipv4[1]}.${ipv4[2]}.${ipv4[3]}.0`;
+
+  if (!/^[0-9a-f:]+$/i.test(value) || !value.includes(":")) return null;
+  const halves = value.split("::");
+  if (halves.length > 2) return null;
+
+  // Expand "::" to the missing zero groups
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const fill = halves.length === 2 ? 8 - head.length - tail.length : 0;
+  if (halves.length === 2 ? fill < 1 : head.length !== 8) return null;
+
+  const groups = [...head, ...Array<string>(fill).fill("0"), ...tail];
+  if (groups.some((group) => group.length === 0 || group.length > 4)) return null;
+
+  return `${groups
+    .slice(0, 3)
+    .map((group) => group.toLowerCase().replace(/^0+(?=.)/, ""))
+    .join(":")}::`;
+}
+
+/**
+ * JSON-safe value of a database field (dates as ISO strings, decimals as numbers,
+ * big integers as strings)
+ */
+export function toExportValue(value: unknown): ExportValue {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+  if (Array.isArray(value)) return value.map((entry) => String(entry));
+  // Prisma.Decimal
+  if (typeof value === "object" && "toNumber" in value && typeof value.toNumber === "function") {
+    return Number(value.toNumber());
+  }
+  return value as Record<string, unknown>;
+}
+
+export function toExportRecord(
+  row: Record<string, unknown>,
+  columns: ExportColumn[]
+): ExportRecord {
+  const record: ExportRecord = {};
+  for (const column of columns) {
+    const value = row[column.key];
+    record[column.key] = column.maskIp
+      ? maskIpAddress(typeof value === "string" ? value : null)
+      : toExportValue(value);
+  }
+  return record;
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+export function formatCsvHeader(columns: ExportColumn[]): string {
+  return `${columns.map((column) => csvCell(column.key)).join(",")}\r\n`;
+}
+
+function csvValue(value: ExportValue): string {
+  if (value === null) return "";
+  if (Array.isArray(value)) return csvCell(value.join(";"));
+  if (typeof value === "object") return csvCell(JSON.stringify(value));
+  return csvCell(value === true ? "true" : value === false ? "false" : value);
+}
+
+/**
+ * Serialize records (CSV rows without the header, or one JSON object per line)
+ */
+export function formatExportRecords(
+  records: ExportRecord[],
+  columns: ExportColumn[],
+  format: ExportFormat
+): string {
+  if (format === "ndjson") {
+    return records.map((record) => `${JSON.stringify(record)}\n`).join("");
+  }
+  return records
+    .map((record) => `${columns.map((column) => csvValue(record[column.key])).join(",")}\r\n`)
+    .join("");
+}
+
+export function getExportFilename(dataset: ExportDataset, format: ExportFormat, now = new Date()) {
+  return `revenue-boost-${dataset}-${now.toISOString().split("T")[0]}.${format}`;
+}
@@ -0,0 +1,310 @@
+/**
+ * Event Retention Service
+ *
+ * Raw PopupEvent rows are only needed until they are folded into the daily
+ * rollups, so they are pruned after a retention period:
+ * - Retention comes from the plan tier (PlanDefinition.rawEventRetentionDays),
+ *   optionally shortened per store (StoreSettings.eventRetention)
+ * - "archive" mode writes events to gzipped NDJSON (local disk or S3-compatible
+ *   storage, see ~/lib/archive-storage.server) before deleting them. Archived
+ *   rows carry nothing that identifies a shopper (see toArchiveRow), so
+ *   customers/redact has nothing to remove from them; shop/redact deletes a
+ *   store's archives.
+ * - Only whole local days that the rollup job already finished are pruned, and
+ *   Store.eventsArchivedBefore records the boundary so raw-event readers can
+ *   fall back to rollups for older ranges
+ *
+ * Run by POST /api/internal/analytics/retention (daily), which also prunes
+ * RateLimitLog rows.
+ */
+
+import { gzipSync } from "zlib";
+import type { PopupEvent } from "@prisma/client";
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import { getArchiveStorage, type ArchiveStorage } from "~/lib/archive-storage.server";
+import { PLAN_DEFINITIONS, type PlanTier } from "~/domains/billing/types/plan";
+import {
+  MIN_EVENT_RETENTION_DAYS,
+  StoreSettingsSchema,
+  type EventRetentionMode,
+} from "~/domains/store/types/settings";
+import { cleanupOldRateLimitLogs } from "~/domains/security/services/rate-limit.server";
+import { isValidTimezone } from "~/domains/campaigns/utils/schedule-helpers";
+import { getLocalDateKey, getLocalMidnight, shiftDateKey } from "./analytics-rollup.server";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface EventRetentionPolicy {
+  /** Days of raw events to keep, null keeps them forever */
+  retentionDays: number | null;
+  mode: EventRetentionMode;
+}
+
+export interface StoreRetentionResult {
+  storeId: string;
+  /** Events created before this instant were pruned (ISO string) */
+  cutoff: string | null;
+  archived: number;
+  deleted: number;
+  files: string[];
+  skipped?: "KEEP_FOREVER" | "NOT_ROLLED_UP" | "NO_ARCHIVE_STORAGE";
+  error?: boolean;
+}
+
+export interface RetentionRunSummary {
+  processed: number;
+  errors: number;
+  archivedEvents: number;
+  deletedEvents: number;
+  rateLimitLogsDeleted: number;
+  results: StoreRetentionResult[];
+}
+
+/** Events read, archived and deleted per round trip */
+const BATCH_SIZE = 5000;
+
+/** Upper bound per store and run; the rest is picked up by the next run */
+const MAX_BATCHES_PER_RUN = 100;
+
+function getArchivePrefix(storeId: string): string {
+  return `popup-events/${storeId}/`;
+}
+
+/**
+ * An event as archived: without network, device and visitor identifiers, and
+ * without the metadata of lead events (SUBMIT carries the submitted form)
+ */
+function toArchiveRow(event: PopupEvent) {
+  const {
+    ipAddress: _ipAddress,
+    userAgent: _userAgent,
+    visitorId: _visitorId,
+    referrer: _referrer,
+    ...row
+  } = event;
+  return row.leadId ? { ...row, metadata: null } : row;
+}
+
+// ============================================================================
+// EVENT RETENTION SERVICE
+// ============================================================================
+
+export class EventRetentionService {
+  /**
+   * Effective retention for a store: the plan's retention, shortened by the
+   * store's own setting when that is stricter
+   */
+  static resolvePolicy(planTier: PlanTier, settings: unknown): EventRetentionPolicy {
+    const parsed = StoreSettingsSchema.safeParse(settings ?? {});
+    const storeRetention = parsed.success ? parsed.data.eventRetention : undefined;
+    const planDays = PLAN_DEFINITIONS[planTier]?.rawEventRetentionDays ?? null;
+    const storeDays = storeRetention?.retentionDays ?? null;
+
+    let retentionDays: number | null = planDays;
+    if (storeDays !== null) {
+      retentionDays = planDays === null ? storeDays : Math.min(planDays, storeDays);
+    }
+
+    return { retentionDays, mode: storeRetention?.mode ?? "archive" };
+  }
+
+  /**
+   * Prune raw events of every active store, then old rate limit logs
+   */
+  static async runRetention(now: Date = new Date()): Promise<RetentionRunSummary> {
+    const stores = await prisma.store.findMany({
+      where: { isActive: true },
+      select: {
+        id: true,
+        planTier: true,
+        settings: true,
+        timezone: true,
+        analyticsRolledUpAt: true,
+        eventsArchivedBefore: true,
+      },
+    });
+
+    let storage: ArchiveStorage | null = null;
+    let storageError: unknown = null;
+    try {
+      storage = getArchiveStorage();
+    } catch (error) {
+      storageError = error;
+      logger.error({ error }, "[EventRetention] Archive storage is misconfigured");
+    }
+
+    const results: StoreRetentionResult[] = [];
+    for (const store of stores) {
+      const base = { storeId: store.id, cutoff: null, archived: 0, deleted: 0, files: [] };
+      const policy = this.resolvePolicy(store.planTier, store.settings);
+
+      if (policy.retentionDays === null) {
+        results.push({ ...base, skipped: "KEEP_FOREVER" });
+        continue;
+      }
+      // Never prune events the rollup job has not seen yet
+      if (!store.analyticsRolledUpAt) {
+        results.push({ ...base, skipped: "NOT_ROLLED_UP" });
+        continue;
+      }
+      if (policy.mode === "archive" && !storage) {
+        if (storageError) {
+          results.push({ ...base, error: true });
+        } else {
+          logger.warn(
+            { storeId: store.id },
+            "[EventRetention] No archive storage configured, keeping raw events"
+          );
+          results.push({ ...base, skipped: "NO_ARCHIVE_STORAGE" });
+        }
+        continue;
+      }
+
+      const timezone = isValidTimezone(store.timezone) ? store.timezone : "UTC";
+      const retentionDay = shiftDateKey(getLocalDateKey(now, timezone), -policy.retentionDays);
+      // The watermark's day is rebuilt again by the next rollup run, earlier days are final
+      const rolledUpDay = getLocalDateKey(store.analyticsRolledUpAt, timezone);
+      const cutoff = getLocalMidnight(
+        retentionDay < rolledUpDay ? retentionDay : rolledUpDay,
+        timezone
+      );
+
+      try {
+        const result = await this.pruneStore(
+          store.id,
+          cutoff,
+          store.eventsArchivedBefore,
+          policy.mode === "archive" ? storage : null,
+          now
+        );
+        results.push({ ...base, ...result, cutoff: cutoff.toISOString() });
+      } catch (error) {
+        logger.error({ error, storeId: store.id }, "[EventRetention] Store retention failed");
+        results.push({ ...base, cutoff: cutoff.toISOString(), error: true });
+      }
+    }
+
+    let rateLimitLogsDeleted = 0;
+    try {
+      rateLimitLogsDeleted = await cleanupOldRateLimitLogs();
+    } catch (error) {
+      logger.error({ error }, "[EventRetention] Rate limit log cleanup failed");
+    }
+
+    const summary: RetentionRunSummary = {
+      processed: results.filter((r) => !r.error && !r.skipped).length,
+      errors: results.filter((r) => r.error).length,
+      archivedEvents: results.reduce((sum, r) => sum + r.archived, 0),
+      deletedEvents: results.reduce((sum, r) => sum + r.deleted, 0),
+      rateLimitLogsDeleted,
+      results,
+    };
+
+    logger.info(
+      {
+        processed: summary.processed,
+        errors: summary.errors,
+        deletedEvents: summary.deletedEvents,
+        rateLimitLogsDeleted,
+      },
+      "[EventRetention] Retention run complete"
+    );
+
+    return summary;
+  }
+
+  /**
+   * Whether raw events of any of these campaigns' stores were pruned after
+   * `from` (or at all, without `from`). Callers counting raw events fall back
+   * to the daily rollups when this is true.
+   */
+  static async hasArchivedEvents(campaignIds: string[], from?: Date): Promise<boolean> {
+    if (campaignIds.length === 0) return false;
+
+    // No store keeps less than MIN_EVENT_RETENTION_DAYS (+1 day of timezone slack)
+    const minimumBoundary = Date.now() - (MIN_EVENT_RETENTION_DAYS - 1) * 86_400_000;
+    if (from && from.getTime() >= minimumBoundary) return false;
+
+    const count = await prisma.store.count({
+      where: {
+        eventsArchivedBefore: { gt: from ?? new Date(0) },
+        campaigns: { some: { id: { in: campaignIds } } },
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Delete every archive file of a store (shop/redact). Throws when archive
+   * storage is misconfigured or a delete fails, so the webhook is retried.
+   */
+  static async deleteArchives(storeId: string): Promise<void> {
+    const storage = getArchiveStorage();
+    if (!storage) return;
+
+    await storage.deletePrefix(getArchivePrefix(storeId));
+    logger.info({ storeId }, "[EventRetention] Deleted event archives");
+  }
+
+  /**
+   * Archive (optionally) and delete a store's events created before `cutoff`
+   */
+  private static async pruneStore(
+    storeId: string,
+    cutoff: Date,
+    archivedBefore: Date | null,
+    storage: ArchiveStorage | null,
+    now: Date
+  ): Promise<Pick<StoreRetentionResult, "archived" | "deleted" | "files">> {
+    // Record the boundary first: readers must stop trusting raw events before
+    // the first row disappears
+    if (!archivedBefore || archivedBefore < cutoff) {
+      await prisma.store.update({
+        where: { id: storeId },
+        data: { eventsArchivedBefore: cutoff },
+      });
+    }
+
+    const runId = now.toISOString().replace(/[:.]/g, "-");
+    const files: string[] = [];
+    let archived = 0;
+    let deleted = 0;
+
+    for (let batch = 1; batch <= MAX_BATCHES_PER_RUN; batch++) {
+      const events = await prisma.popupEvent.findMany({
+        where: { storeId, createdAt: { lt: cutoff } },
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        take: BATCH_SIZE,
+      });
+      if (events.length === 0) break;
+
+      if (storage) {
+        const body = gzipSync(
+          events.map((event) => JSON.stringify(toArchiveRow(event))).join("\n") + "\n"
+        );
+        const key = `${getArchivePrefix(storeId)}${runId}/part-${String(batch).padStart(4, "0")}.ndjson.gz`;
+        files.push(await storage.put(key, body, "application/x-ndjson"));
+        archived += events.length;
+      }
+
+      const result = await prisma.popupEvent.deleteMany({
+        where: { id: { in: events.map((event) => event.id) } },
+      });
+      deleted += result.count;
+
+      if (events.length < BATCH_SIZE) break;
+    }
+
+    if (deleted > 0) {
+      logger.info(
+        { storeId, cutoff, archived, deleted, files: files.length },
+        "[EventRetention] Pruned raw popup events"
+      );
+    }
+
+    return { archived, deleted, files };
+  }
+}
@@ -2,11 +2,24 @@
  * Experiment Analytics Service
  *
  * Aggregates performance metrics by variant for A/B testing experiments
+ * and runs them through the experiment statistics engine
  */
 
 import prisma from "~/db.server";
-
-export interface VariantMetrics {
+import {
+  parseStatisticalConfig,
+  parseSuccessMetrics,
+} from "~/domains/campaigns/utils/json-helpers";
+import {
+  analyzeExperiment,
+  type ExperimentPrimaryMetric,
+  type PairwiseComparison,
+  type VariantStatistics,
+} from "./experiment-statistics";
+import { AnalyticsRollupService } from "./analytics-rollup.server";
+import { EventRetentionService } from "./event-retention.server";
+
+interface VariantCounts {
   variantKey: string;
   campaignId: string;
   campaignName: string;
@@ -22,11 +35,32 @@ export interface VariantMetrics {
   revenuePerVisitor: number;
 }
 
+export type VariantMetrics = VariantCounts & Omit<VariantStatistics, "variantKey">;
+
 export interface VariantComparison {
   variants: VariantMetrics[];
   winner: string | null; // variantKey of winner, if statistically significant
-  pValue: number | null;
+  pValue: number | null; // smallest multiple-comparison adjusted p-value
   isSignificant: boolean;
+  primaryMetric: ExperimentPrimaryMetric;
+  confidenceLevel: number;
+  controlKey: string | null;
+  comparisons: PairwiseComparison[];
+}
+
+/**
+ * Rollup totals in the shape of a popupEvent groupBy by campaign and event type
+ */
+async function getRollupEventCounts(
+  campaignIds: string[]
+): Promise<Array<{ campaignId: string; eventType: string; _count: { id: number } }>> {
+  const totals = await AnalyticsRollupService.getTotalsByCampaign(campaignIds);
+  return Array.from(totals.entries()).flatMap(([campaignId, row]) => [
+    { campaignId, eventType: "VIEW", _count: { id: row.impressions } },
+    { campaignId, eventType: "CLICK", _count: { id: row.clicks } },
+    { campaignId, eventType: "SUBMIT", _count: { id: row.submits } },
+    { campaignId, eventType: "COUPON_ISSUED", _count: { id: row.couponsIssued } },
+  ]);
 }
 
 /**
@@ -36,7 +70,14 @@ export async function getVariantPerformance(
   experimentId: string,
   storeId: string
 ): Promise<VariantComparison> {
-  // 1. Get all campaigns (variants) in this experiment
+  // 1. Get the experiment configuration and all campaigns (variants) in this experiment
+  const experiment = await prisma.experiment.findFirst({
+    where: { id: experimentId, storeId },
+    select: { statisticalConfig: true, successMetrics: true },
+  });
+  const statisticalConfig = parseStatisticalConfig(experiment?.statisticalConfig);
+  const successMetrics = parseSuccessMetrics(experiment?.successMetrics);
+
   const campaigns = await prisma.campaign.findMany({
     where: {
       experimentId,
@@ -56,39 +97,58 @@ export async function getVariantPerformance(
       winner: null,
       pValue: null,
       isSignificant: false,
+      primaryMetric: successMetrics.primaryMetric,
+      confidenceLevel: statisticalConfig.confidenceLevel,
+      controlKey: null,
+      comparisons: [],
     };
   }
 
   const campaignIds = campaigns.map((c) => c.id);
 
-  // 2. Get event counts per campaign
-  const eventCounts = await prisma.popupEvent.groupBy({
-    by: ["campaignId", "eventType"],
+  // 2. Get event counts per campaign (from the daily rollups once raw events were archived)
+  const eventCounts = (await EventRetentionService.hasArchivedEvents(campaignIds))
+    ? await getRollupEventCounts(campaignIds)
+    : await prisma.popupEvent.groupBy({
+        by: ["campaignId", "eventType"],
+        where: {
+          campaignId: { in: campaignIds },
+          experimentId,
+        },
+        _count: {
+          id: true,
+        },
+      });
+
+  // 3. Get net revenue (after refunds) per campaign, cancelled orders excluded
+  const revenueData = await prisma.campaignConversion.groupBy({
+    by: ["campaignId"],
     where: {
       campaignId: { in: campaignIds },
-      experimentId,
+      cancelledAt: null,
+    },
+    _sum: {
+      netRevenue: true,
     },
     _count: {
       id: true,
     },
   });
 
-  // 3. Get revenue data per campaign
-  const revenueData = await prisma.campaignConversion.groupBy({
-    by: ["campaignId"],
+  // Individual order values are needed for revenue variance (RPV / AOV intervals)
+  const orderValues = await prisma.campaignConversion.findMany({
     where: {
       campaignId: { in: campaignIds },
+      cancelledAt: null,
     },
-    _sum: {
-      totalPrice: true,
-    },
-    _count: {
-      id: true,
+    select: {
+      campaignId: true,
+      netRevenue: true,
     },
   });
 
   // 4. Build metrics per variant
-  const variants: VariantMetrics[] = campaigns.map((campaign) => {
+  const variants: VariantCounts[] = campaigns.map((campaign) => {
     const campaignEvents = eventCounts.filter((e) => e.campaignId === campaign.id);
 
     const impressions = campaignEvents.find((e) => e.eventType === "VIEW")?._count.id || 0;
@@ -99,7 +159,7 @@ export async function getVariantPerformance(
 
     const revenue = revenueData.find((r) => r.campaignId === campaign.id);
     const orders = revenue?._count.id || 0;
-    const totalRevenue = revenue?._sum.totalPrice ? Number(revenue._sum.totalPrice) : 0;
+    const totalRevenue = revenue?._sum.netRevenue ? Number(revenue._sum.netRevenue) : 0;
 
     const conversionRate = impressions > 0 ? (submissions / impressions) * 100 : 0;
     const averageOrderValue = orders > 0 ? totalRevenue / orders : 0;
@@ -122,85 +182,41 @@ export async function getVariantPerformance(
     };
   });
 
-  // 5. Calculate statistical significance (if 2 variants)
-  let winner: string | null = null;
-  let pValue: number | null = null;
-  let isSignificant = false;
-
-  if (variants.length === 2) {
-    const [variantA, variantB] = variants;
-    const significance = calculateStatisticalSignificance(variantA, variantB);
-    pValue = significance.pValue;
-    isSignificant = significance.isSignificant;
-
-    if (isSignificant) {
-      // Determine winner based on conversion rate
-      winner =
-        variantA.conversionRate > variantB.conversionRate
-          ? variantA.variantKey
-          : variantB.variantKey;
-    }
+  // 5. Statistical analysis: pairwise comparisons vs control + probability to be best
+  const sumOfSquares = new Map<string, number>();
+  for (const order of orderValues) {
+    const value = Number(order.netRevenue);
+    sumOfSquares.set(order.campaignId, (sumOfSquares.get(order.campaignId) || 0) + value * value);
   }
 
+  const analysis = analyzeExperiment(
+    variants.map((variant) => ({
+      variantKey: variant.variantKey,
+      isControl: variant.isControl,
+      impressions: variant.impressions,
+      clicks: variant.clicks,
+      submissions: variant.submissions,
+      orders: variant.orders,
+      revenue: variant.revenue,
+      revenueSumOfSquares: sumOfSquares.get(variant.campaignId) || 0,
+    })),
+    {
+      primaryMetric: successMetrics.primaryMetric,
+      confidenceLevel: statisticalConfig.confidenceLevel,
+    }
+  );
+
   return {
-    variants,
-    winner,
-    pValue,
-    isSignificant,
+    variants: variants.map((variant, index) => ({
+      ...variant,
+      ...analysis.variants[index],
+    })),
+    winner: analysis.winner,
+    pValue: analysis.pValue,
+    isSignificant: analysis.isSignificant,
+    primaryMetric: analysis.primaryMetric,
+    confidenceLevel: analysis.confidenceLevel,
+    controlKey: analysis.controlKey,
+    comparisons: analysis.comparisons,
   };
 }
-
-/**
- * Calculate statistical significance between two variants using chi-squared test
- */
-function calculateStatisticalSignificance(
-  variantA: VariantMetrics,
-  variantB: VariantMetrics
-): { pValue: number; isSignificant: boolean } {
-  const n1 = variantA.impressions;
-  const n2 = variantB.impressions;
-  const x1 = variantA.submissions;
-  const x2 = variantB.submissions;
-
-  // Need minimum sample size
-  if (n1 < 30 || n2 < 30) {
-    return { pValue: 1, isSignificant: false };
-  }
-
-  // Pool proportions for chi-squared test
-  const pPool = (x1 + x2) / (n1 + n2);
-
-  // Calculate chi-squared statistic
-  const expected1 = n1 * pPool;
-  const expected2 = n2 * pPool;
-
-  if (expected1 === 0 || expected2 === 0) {
-    return { pValue: 1, isSignificant: false };
-  }
-
-  const chiSquared =
-    Math.pow(x1 - expected1, 2) / expected1 +
-    Math.pow(n1 - x1 - (n1 - expected1), 2) / (n1 - expected1) +
-    Math.pow(x2 - expected2, 2) / expected2 +
-    Math.pow(n2 - x2 - (n2 - expected2), 2) / (n2 - expected2);
-
-  // Approximate p-value using chi-squared distribution (df=1)
-  // For simplicity, using a lookup table approach
-  const pValue = chiSquaredToPValue(chiSquared);
-
-  // Significant if p < 0.05
-  const isSignificant = pValue < 0.05;
-
-  return { pValue, isSignificant };
-}
-
-/**
- * Convert chi-squared statistic to p-value (df=1)
- * Simplified lookup for common values
- */
-function chiSquaredToPValue(chiSquared: number): number {
-  if (chiSquared < 3.841) return 0.05; // p > 0.05
-  if (chiSquared < 6.635) return 0.025;
-  if (chiSquared < 10.828) return 0.005;
-  return 0.001; // p < 0.001
-}
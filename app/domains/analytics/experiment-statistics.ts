@@ -0,0 +1,619 @@
+/**
+ * Experiment Statistics
+ *
+ * Pure statistics helpers for A/B/C/D experiments:
+ * - Frequentist pairwise comparisons of every variant against the control
+ * - Holm-Bonferroni correction for multiple comparisons
+ * - Bayesian probability-to-be-best (Monte Carlo over posterior distributions)
+ * - Confidence intervals for conversion rate, revenue per visitor and AOV
+ *
+ * No database access here - callers aggregate the raw counts and pass them in.
+ */
+
+import type { SuccessMetrics } from "~/domains/campaigns/types/experiment";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ExperimentPrimaryMetric = SuccessMetrics["primaryMetric"];
+
+/**
+ * Raw aggregates for a single variant
+ */
+export interface VariantSample {
+  variantKey: string;
+  isControl: boolean;
+  impressions: number;
+  clicks: number;
+  submissions: number;
+  orders: number;
+  revenue: number;
+  /** Sum of squared order values, needed for revenue variance */
+  revenueSumOfSquares: number;
+}
+
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+export interface VariantStatistics {
+  variantKey: string;
+  /** Value of the primary metric (percent for rates, currency for revenue) */
+  primaryMetricValue: number;
+  probabilityToBeBest: number;
+  conversionRateInterval: ConfidenceInterval;
+  revenuePerVisitorInterval: ConfidenceInterval;
+  averageOrderValueInterval: ConfidenceInterval;
+}
+
+export interface PairwiseComparison {
+  variantKey: string;
+  controlKey: string;
+  /** Relative lift over the control in percent, null when the control value is 0 */
+  lift: number | null;
+  pValue: number;
+  /** Holm-Bonferroni adjusted p-value */
+  adjustedPValue: number;
+  isSignificant: boolean;
+  hasSufficientSample: boolean;
+}
+
+export interface ExperimentAnalysis {
+  primaryMetric: ExperimentPrimaryMetric;
+  confidenceLevel: number;
+  controlKey: string | null;
+  variants: VariantStatistics[];
+  comparisons: PairwiseComparison[];
+  winner: string | null;
+  /** Smallest adjusted p-value across comparisons */
+  pValue: number | null;
+  isSignificant: boolean;
+}
+
+export interface AnalyzeExperimentOptions {
+  primaryMetric?: ExperimentPrimaryMetric;
+  confidenceLevel?: number;
+  /** Monte Carlo draws for probability-to-be-best */
+  simulations?: number;
+  /** Seed for deterministic Monte Carlo results */
+  seed?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Minimum impressions per variant before a comparison is considered */
+export const MIN_SAMPLE_SIZE = 30;
+
+const DEFAULT_CONFIDENCE_LEVEL = 0.95;
+const DEFAULT_SIMULATIONS = 10000;
+const DEFAULT_SEED = 0x5eed;
+
+// ============================================================================
+// DISTRIBUTIONS
+// ============================================================================
+
+/**
+ * Standard normal cumulative distribution function
+ * (Abramowitz & Stegun 7.1.26 approximation of erf)
+ */
+export function normalCdf(z: number): number {
+  const sign = z < 0 ? -1 : 1;
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const y =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return 0.5 * (1 + sign * y);
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [
+    -39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716,
+    2.506628277459239,
+  ];
+  const b = [
+    -54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972,
+    -13.28068155288572,
+  ];
+  const c = [
+    -0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734,
+    4.374664141464968, 2.938163982698783,
+  ];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    );
+  }
+
+  if (p > 1 - pLow) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    );
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+/**
+ * Two-sided critical z value for a confidence level (e.g. 0.95 -> 1.96)
+ */
+export function criticalZ(confidenceLevel: number): number {
+  return normalQuantile(1 - (1 - confidenceLevel) / 2);
+}
+
+// ============================================================================
+// CONFIDENCE INTERVALS
+// ============================================================================
+
+/**
+ * Wilson score interval for a binomial proportion (returned as 0-1 fractions)
+ */
+export function wilsonInterval(
+  successes: number,
+  trials: number,
+  confidenceLevel: number = DEFAULT_CONFIDENCE_LEVEL
+): ConfidenceInterval {
+  if (trials <= 0) {
+    return { lower: 0, upper: 0 };
+  }
+
+  const z = criticalZ(confidenceLevel);
+  const p = successes / trials;
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const center = (p + z2 / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials))) / denominator;
+
+  return {
+    lower: Math.max(0, center - margin),
+    upper: Math.min(1, center + margin),
+  };
+}
+
+/**
+ * Normal-approximation interval for a sample mean
+ */
+export function meanInterval(
+  mean: number,
+  variance: number,
+  n: number,
+  confidenceLevel: number = DEFAULT_CONFIDENCE_LEVEL
+): ConfidenceInterval {
+  if (n <= 0) {
+    return { lower: 0, upper: 0 };
+  }
+
+  const margin = criticalZ(confidenceLevel) * Math.sqrt(Math.max(variance, 0) / n);
+  return {
+    lower: Math.max(0, mean - margin),
+    upper: mean + margin,
+  };
+}
+
+// ============================================================================
+// HYPOTHESIS TESTS
+// ============================================================================
+
+/**
+ * Two-sided two-proportion z-test (pooled variance)
+ */
+export function twoProportionTest(
+  successesA: number,
+  trialsA: number,
+  successesB: number,
+  trialsB: number
+): number {
+  if (trialsA <= 0 || trialsB <= 0) return 1;
+
+  const pooled = (successesA + successesB) / (trialsA + trialsB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB));
+  if (standardError === 0) return 1;
+
+  const z = (successesB / trialsB - successesA / trialsA) / standardError;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/**
+ * Two-sided Welch test on two sample means (normal approximation, large samples)
+ */
+export function welchTest(
+  meanA: number,
+  varianceA: number,
+  nA: number,
+  meanB: number,
+  varianceB: number,
+  nB: number
+): number {
+  if (nA <= 1 || nB <= 1) return 1;
+
+  const standardError = Math.sqrt(Math.max(varianceA, 0) / nA + Math.max(varianceB, 0) / nB);
+  if (standardError === 0) return 1;
+
+  const z = (meanB - meanA) / standardError;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/**
+ * Holm-Bonferroni step-down adjustment.
+ * Returns adjusted p-values in the original order.
+ */
+export function holmBonferroni(pValues: number[]): number[] {
+  const m = pValues.length;
+  const order = pValues.map((p, index) => ({ p, index })).sort((a, b) => a.p - b.p);
+
+  const adjusted = new Array<number>(m);
+  let runningMax = 0;
+  order.forEach(({ p, index }, rank) => {
+    runningMax = Math.max(runningMax, Math.min(1, (m - rank) * p));
+    adjusted[index] = runningMax;
+  });
+
+  return adjusted;
+}
+
+// ============================================================================
+// BAYESIAN PROBABILITY TO BE BEST
+// ============================================================================
+
+/**
+ * Small deterministic PRNG (mulberry32) so results are stable between page loads
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleStandardNormal(random: () => number): number {
+  // Box-Muller transform
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Gamma(shape, 1) sample using Marsaglia-Tsang
+ */
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleStandardNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+function sampleBeta(alpha: number, beta: number, random: () => number): number {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x / (x + y);
+}
+
+/**
+ * Count how often each sampler produces the highest draw. Ties split the win.
+ */
+function simulateProbabilityToBeBest(
+  samplers: Array<(random: () => number) => number>,
+  simulations: number,
+  seed: number
+): number[] {
+  const wins = new Array<number>(samplers.length).fill(0);
+  if (samplers.length === 0) return wins;
+
+  const random = createRandom(seed);
+  const draws = new Array<number>(samplers.length);
+
+  for (let i = 0; i < simulations; i++) {
+    let best = -Infinity;
+    for (let j = 0; j < samplers.length; j++) {
+      draws[j] = samplers[j](random);
+      if (draws[j] > best) best = draws[j];
+    }
+
+    const leaders = draws.filter((draw) => draw === best).length;
+    for (let j = 0; j < samplers.length; j++) {
+      if (draws[j] === best) wins[j] += 1 / leaders;
+    }
+  }
+
+  return wins.map((count) => count / simulations);
+}
+
+/**
+ * Probability each variant has the highest true rate, using Beta(1 + s, 1 + n - s) posteriors
+ */
+export function probabilityToBeBestForRates(
+  samples: Array<{ successes: number; trials: number }>,
+  simulations: number = DEFAULT_SIMULATIONS,
+  seed: number = DEFAULT_SEED
+): number[] {
+  return simulateProbabilityToBeBest(
+    samples.map(({ successes, trials }) => {
+      const alpha = 1 + Math.max(successes, 0);
+      const beta = 1 + Math.max(trials - successes, 0);
+      return (random) => sampleBeta(alpha, beta, random);
+    }),
+    simulations,
+    seed
+  );
+}
+
+/**
+ * Probability each variant has the highest true mean, using normal posteriors N(mean, variance / n)
+ */
+export function probabilityToBeBestForMeans(
+  samples: Array<{ mean: number; variance: number; n: number }>,
+  simulations: number = DEFAULT_SIMULATIONS,
+  seed: number = DEFAULT_SEED
+): number[] {
+  return simulateProbabilityToBeBest(
+    samples.map(({ mean, variance, n }) => {
+      const standardError = n > 0 ? Math.sqrt(Math.max(variance, 0) / n) : 0;
+      return (random) => mean + standardError * sampleStandardNormal(random);
+    }),
+    simulations,
+    seed
+  );
+}
+
+// ============================================================================
+// METRIC HELPERS
+// ============================================================================
+
+/**
+ * Sample variance from sum, sum of squares and count (zero-filled for missing observations)
+ */
+function sampleVariance(sum: number, sumOfSquares: number, n: number): number {
+  if (n <= 1) return 0;
+  const mean = sum / n;
+  return Math.max(0, (sumOfSquares - n * mean * mean) / (n - 1));
+}
+
+/**
+ * Successes counted by each rate-based primary metric.
+ * Revenue per visitor falls back to order conversions for rate-based tests.
+ */
+export function getMetricSuccesses(
+  sample: Pick<VariantSample, "impressions" | "clicks" | "submissions" | "orders">,
+  metric: ExperimentPrimaryMetric
+): number {
+  switch (metric) {
+    case "revenue_per_visitor":
+      return Math.min(sample.orders, sample.impressions);
+    case "click_through_rate":
+      return sample.clicks;
+    case "engagement_rate":
+      return Math.min(sample.clicks + sample.submissions, sample.impressions);
+    case "conversion_rate":
+    case "email_signups":
+    default:
+      return sample.submissions;
+  }
+}
+
+export function isRevenueMetric(metric: ExperimentPrimaryMetric): boolean {
+  return metric === "revenue_per_visitor";
+}
+
+export function getPrimaryMetricLabel(metric: ExperimentPrimaryMetric): string {
+  switch (metric) {
+    case "revenue_per_visitor":
+      return "Revenue per visitor";
+    case "click_through_rate":
+      return "Click-through rate";
+    case "engagement_rate":
+      return "Engagement rate";
+    case "email_signups":
+      return "Email signup rate";
+    case "conversion_rate":
+    default:
+      return "Conversion rate";
+  }
+}
+
+// ============================================================================
+// EXPERIMENT ANALYSIS
+// ============================================================================
+
+/**
+ * Analyze all variants of an experiment against the control.
+ *
+ * The control is the variant flagged `isControl`, falling back to "A" and then
+ * to the first variant. Every other variant is compared against it on the
+ * primary metric and the p-values are Holm-Bonferroni corrected.
+ */
+export function analyzeExperiment(
+  samples: VariantSample[],
+  options: AnalyzeExperimentOptions = {}
+): ExperimentAnalysis {
+  const primaryMetric = options.primaryMetric ?? "conversion_rate";
+  const confidenceLevel = options.confidenceLevel ?? DEFAULT_CONFIDENCE_LEVEL;
+  const simulations = options.simulations ?? DEFAULT_SIMULATIONS;
+  const seed = options.seed ?? DEFAULT_SEED;
+  const alpha = 1 - confidenceLevel;
+  const revenueMetric = isRevenueMetric(primaryMetric);
+
+  if (samples.length === 0) {
+    return {
+      primaryMetric,
+      confidenceLevel,
+      controlKey: null,
+      variants: [],
+      comparisons: [],
+      winner: null,
+      pValue: null,
+      isSignificant: false,
+    };
+  }
+
+  const control =
+    samples.find((s) => s.isControl) ?? samples.find((s) => s.variantKey === "A") ?? samples[0];
+
+  const rpv = samples.map((s) => ({
+    mean: s.impressions > 0 ? s.revenue / s.impressions : 0,
+    variance: sampleVariance(s.revenue, s.revenueSumOfSquares, s.impressions),
+    n: s.impressions,
+  }));
+
+  const primaryValue = (sample: VariantSample, index: number): number => {
+    if (revenueMetric) return rpv[index].mean;
+    return sample.impressions > 0
+      ? (getMetricSuccesses(sample, primaryMetric) / sample.impressions) * 100
+      : 0;
+  };
+
+  // Bayesian probability to be best on the primary metric
+  const probabilities = revenueMetric
+    ? probabilityToBeBestForMeans(rpv, simulations, seed)
+    : probabilityToBeBestForRates(
+        samples.map((s) => ({
+          successes: getMetricSuccesses(s, primaryMetric),
+          trials: s.impressions,
+        })),
+        simulations,
+        seed
+      );
+
+  const variants: VariantStatistics[] = samples.map((sample, index) => {
+    const conversion = wilsonInterval(sample.submissions, sample.impressions, confidenceLevel);
+    const aovMean = sample.orders > 0 ? sample.revenue / sample.orders : 0;
+    const aovVariance = sampleVariance(sample.revenue, sample.revenueSumOfSquares, sample.orders);
+
+    return {
+      variantKey: sample.variantKey,
+      primaryMetricValue: primaryValue(sample, index),
+      probabilityToBeBest: probabilities[index],
+      conversionRateInterval: {
+        lower: conversion.lower * 100,
+        upper: conversion.upper * 100,
+      },
+      revenuePerVisitorInterval: meanInterval(
+        rpv[index].mean,
+        rpv[index].variance,
+        rpv[index].n,
+        confidenceLevel
+      ),
+      averageOrderValueInterval: meanInterval(aovMean, aovVariance, sample.orders, confidenceLevel),
+    };
+  });
+
+  // Frequentist comparisons against the control
+  const controlIndex = samples.indexOf(control);
+  const rawComparisons = samples
+    .map((sample, index) => ({ sample, index }))
+    .filter(({ index }) => index !== controlIndex)
+    .map(({ sample, index }) => {
+      const hasSufficientSample =
+        sample.impressions >= MIN_SAMPLE_SIZE && control.impressions >= MIN_SAMPLE_SIZE;
+
+      let pValue = 1;
+      if (hasSufficientSample) {
+        pValue = revenueMetric
+          ? welchTest(
+              rpv[controlIndex].mean,
+              rpv[controlIndex].variance,
+              rpv[controlIndex].n,
+              rpv[index].mean,
+              rpv[index].variance,
+              rpv[index].n
+            )
+          : twoProportionTest(
+              getMetricSuccesses(control, primaryMetric),
+              control.impressions,
+              getMetricSuccesses(sample, primaryMetric),
+              sample.impressions
+            );
+      }
+
+      const controlValue = variants[controlIndex].primaryMetricValue;
+      const variantValue = variants[index].primaryMetricValue;
+      const lift = controlValue > 0 ? ((variantValue - controlValue) / controlValue) * 100 : null;
+
+      return { variantKey: sample.variantKey, pValue, lift, hasSufficientSample, variantValue };
+    });
+
+  const adjusted = holmBonferroni(rawComparisons.map((c) => c.pValue));
+
+  const comparisons: PairwiseComparison[] = rawComparisons.map((comparison, index) => ({
+    variantKey: comparison.variantKey,
+    controlKey: control.variantKey,
+    lift: comparison.lift,
+    pValue: comparison.pValue,
+    adjustedPValue: adjusted[index],
+    isSignificant: comparison.hasSufficientSample && adjusted[index] < alpha,
+    hasSufficientSample: comparison.hasSufficientSample,
+  }));
+
+  // Winner: best significantly-better challenger, or the control if it beats every challenger
+  const controlValue = variants[controlIndex].primaryMetricValue;
+  const betterChallengers = rawComparisons
+    .filter((c, index) => comparisons[index].isSignificant && c.variantValue > controlValue)
+    .sort((a, b) => b.variantValue - a.variantValue);
+
+  let winner: string | null = null;
+  if (betterChallengers.length > 0) {
+    winner = betterChallengers[0].variantKey;
+  } else if (
+    comparisons.length > 0 &&
+    comparisons.every(
+      (c, index) => c.isSignificant && rawComparisons[index].variantValue < controlValue
+    )
+  ) {
+    winner = control.variantKey;
+  }
+
+  return {
+    primaryMetric,
+    confidenceLevel,
+    controlKey: control.variantKey,
+    variants,
+    comparisons,
+    winner,
+    pValue: comparisons.length > 0 ? Math.min(...comparisons.map((c) => c.adjustedPValue)) : null,
+    isSignificant: winner !== null,
+  };
+}
@@ -0,0 +1,381 @@
+/**
+ * Funnel Analytics Service
+ *
+ * Builds impression → interaction → submit → coupon → order funnels from raw
+ * popup events, per campaign or per experiment variant:
+ * - One funnel entry per session that saw the campaign (VIEW event)
+ * - Later events of the same session and campaign mark the steps it reached
+ * - The order step links a CampaignConversion to the session through the lead
+ *   submitted in it (discount code / customer) or the order's storefront visitor
+ *
+ * Breakdowns use the session's first impression: device, page type (from the
+ * page URL, like the storefront's page type detection) and the trigger that
+ * opened the popup (metadata.triggerType, recorded by the storefront).
+ *
+ * Funnels need raw events, so sessions older than the store's event retention
+ * are missing; reports flag this with `hasArchivedEvents`.
+ */
+
+import { Prisma } from "@prisma/client";
+import prisma from "~/db.server";
+import { ServiceError } from "~/lib/errors.server";
+import { EventRetentionService } from "./event-retention.server";
+import {
+  buildFunnelSegment,
+  type CloseStep,
+  type FunnelBreakdown,
+  type FunnelCounts,
+  type FunnelSegment,
+} from "./funnel";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FunnelOptions {
+  from: Date;
+  to: Date;
+  breakdown?: FunnelBreakdown;
+}
+
+export interface FunnelReport {
+  breakdown: FunnelBreakdown | "variant";
+  from: Date;
+  to: Date;
+  total: FunnelSegment;
+  segments: FunnelSegment[];
+  /** Raw events in the range were archived, so early sessions are missing */
+  hasArchivedEvents: boolean;
+}
+
+type NumericValue = bigint | number | null;
+
+interface FunnelRow {
+  segment: string | null;
+  impressions: NumericValue;
+  interactions: NumericValue;
+  submits: NumericValue;
+  coupons: NumericValue;
+  orders: NumericValue;
+  avgToInteraction: NumericValue;
+  avgToSubmit: NumericValue;
+  avgToCoupon: NumericValue;
+  avgToOrder: NumericValue;
+  medianToInteraction: NumericValue;
+  medianToSubmit: NumericValue;
+  medianToCoupon: NumericValue;
+  medianToOrder: NumericValue;
+  closedAfterImpression: NumericValue;
+  closedAfterInteraction: NumericValue;
+  closedAfterSubmit: NumericValue;
+  closedAfterCoupon: NumericValue;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toNumber(value: NumericValue): number {
+  return Number(value ?? 0);
+}
+
+function toSeconds(value: NumericValue): number | null {
+  return value === null || value === undefined ? null : Math.round(Number(value) * 10) / 10;
+}
+
+function toCounts(row: FunnelRow): FunnelCounts {
+  const closedAfter: Record<CloseStep, number> = {
+    impression: toNumber(row.closedAfterImpression),
+    interaction: toNumber(row.closedAfterInteraction),
+    submit: toNumber(row.closedAfterSubmit),
+    coupon: toNumber(row.closedAfterCoupon),
+  };
+
+  return {
+    sessions: {
+      impression: toNumber(row.impressions),
+      interaction: toNumber(row.interactions),
+      submit: toNumber(row.submits),
+      coupon: toNumber(row.coupons),
+      order: toNumber(row.orders),
+    },
+    averageSeconds: {
+      interaction: toSeconds(row.avgToInteraction),
+      submit: toSeconds(row.avgToSubmit),
+      coupon: toSeconds(row.avgToCoupon),
+      order: toSeconds(row.avgToOrder),
+    },
+    medianSeconds: {
+      interaction: toSeconds(row.medianToInteraction),
+      submit: toSeconds(row.medianToSubmit),
+      coupon: toSeconds(row.medianToCoupon),
+      order: toSeconds(row.medianToOrder),
+    },
+    closedAfter,
+  };
+}
+
+/**
+ * Segment expression over the "steps" CTE
+ */
+function segmentSql(breakdown: FunnelBreakdown | "variant"): Prisma.Sql {
+  switch (breakdown) {
+    case "variant":
+      return Prisma.sql`st."campaignId"`;
+    case "device":
+      return Prisma.sql`st."deviceType"`;
+    case "triggerType":
+      return Prisma.sql`st."triggerType"`;
+    case "pageType":
+      // Mirrors detectPageType() in the storefront API client
+      return Prisma.sql`CASE
+        WHEN st."pagePath" IN ('', '/') THEN 'home'
+        WHEN st."pagePath" LIKE '%/products/%' THEN 'product'
+        WHEN st."pagePath" LIKE '%/collections/%' THEN 'collection'
+        WHEN st."pagePath" LIKE '%/cart%' THEN 'cart'
+        WHEN st."pagePath" LIKE '%/checkout%' THEN 'checkout'
+        ELSE 'other'
+      END`;
+    default:
+      return Prisma.sql`'all'`;
+  }
+}
+
+/**
+ * Seconds from `earlier` to `later`; NULL when either is missing or out of order
+ */
+function secondsBetween(later: string, earlier: string): Prisma.Sql {
+  return Prisma.sql`CASE WHEN ${Prisma.raw(later)} >= ${Prisma.raw(earlier)}
+    THEN EXTRACT(EPOCH FROM (${Prisma.raw(later)} - ${Prisma.raw(earlier)})) END`;
+}
+
+// ============================================================================
+// FUNNEL ANALYTICS SERVICE
+// ============================================================================
+
+export class FunnelAnalyticsService {
+  /**
+   * Funnel of one campaign, optionally split by device, page type or trigger.
+   * Returns null when the campaign does not belong to the store.
+   */
+  static async getCampaignFunnel(
+    storeId: string,
+    campaignId: string,
+    options: FunnelOptions
+  ): Promise<FunnelReport | null> {
+    const campaign = await prisma.campaign.findFirst({
+      where: { id: campaignId, storeId },
+      select: { id: true },
+    });
+    if (!campaign) return null;
+
+    const breakdown = options.breakdown ?? "none";
+    const { total, segments } = await this.queryFunnel(storeId, [campaignId], options, breakdown);
+
+    return {
+      breakdown,
+      from: options.from,
+      to: options.to,
+      total,
+      segments: breakdown === "none" ? [] : segments,
+      hasArchivedEvents: await EventRetentionService.hasArchivedEvents([campaignId], options.from),
+    };
+  }
+
+  /**
+   * Funnel of every variant of an experiment, one segment per variant.
+   * Returns null when the experiment has no variants in the store.
+   */
+  static async getExperimentFunnel(
+    storeId: string,
+    experimentId: string,
+    options: Omit<FunnelOptions, "breakdown">
+  ): Promise<FunnelReport | null> {
+    const variants = await prisma.campaign.findMany({
+      where: { experimentId, storeId },
+      select: { id: true, name: true, variantKey: true },
+      orderBy: { variantKey: "asc" },
+    });
+    if (variants.length === 0) return null;
+
+    const campaignIds = variants.map((variant) => variant.id);
+    const { total, segments } = await this.queryFunnel(storeId, campaignIds, options, "variant");
+
+    // Every variant gets a row, even without impressions yet
+    const variantSegments = variants.map((variant) => {
+      const label = variant.variantKey ? `Variant ${variant.variantKey}` : variant.name;
+      const segment = segments.find((s) => s.key === variant.id);
+      return segment
+        ? { ...segment, label }
+        : buildFunnelSegment(variant.id, this.emptyCounts(), label);
+    });
+
+    return {
+      breakdown: "variant",
+      from: options.from,
+      to: options.to,
+      total,
+      segments: variantSegments,
+      hasArchivedEvents: await EventRetentionService.hasArchivedEvents(campaignIds, options.from),
+    };
+  }
+
+  // ==========================================================================
+  // QUERIES
+  // ==========================================================================
+
+  private static async queryFunnel(
+    storeId: string,
+    campaignIds: string[],
+    options: Omit<FunnelOptions, "breakdown">,
+    breakdown: FunnelBreakdown | "variant"
+  ): Promise<{ total: FunnelSegment; segments: FunnelSegment[] }> {
+    // Time to a step is measured from the latest earlier step the session reached
+    const toInteraction = secondsBetween(`"interactedAt"`, `"viewedAt"`);
+    const toSubmit = secondsBetween(`"submittedAt"`, `COALESCE("interactedAt", "viewedAt")`);
+    const toCoupon = secondsBetween(
+      `"couponAt"`,
+      `COALESCE("submittedAt", "interactedAt", "viewedAt")`
+    );
+    const toOrder = secondsBetween(
+      `"orderedAt"`,
+      `COALESCE("couponAt", "submittedAt", "interactedAt", "viewedAt")`
+    );
+
+    try {
+      const rows = await prisma.$queryRaw<FunnelRow[]>`
+        WITH "sessions" AS (
+          SELECT
+            e."campaignId",
+            e."sessionId",
+            MIN(e."visitorId") AS "visitorId",
+            MIN(e."createdAt") AS "viewedAt",
+            (ARRAY_AGG(COALESCE(e."deviceType", 'unknown') ORDER BY e."createdAt"))[1] AS "deviceType",
+            (ARRAY_AGG(COALESCE(e."metadata"->>'triggerType', 'unknown') ORDER BY e."createdAt"))[1] AS "triggerType",
+            (ARRAY_AGG(COALESCE(SUBSTRING(e."pageUrl" FROM '^(?:https?://[^/]+)?([^?#]*)'), '') ORDER BY e."createdAt"))[1] AS "pagePath"
+          FROM "popup_events" e
+          WHERE e."storeId" = ${storeId}
+            AND e."campaignId" IN (${Prisma.join(campaignIds)})
+            AND e."eventType" = 'VIEW'
+            AND e."createdAt" >= ${options.from} AND e."createdAt" <= ${options.to}
+          GROUP BY e."campaignId", e."sessionId"
+        ),
+        "steps" AS (
+          SELECT
+            s."campaignId", s."sessionId", s."visitorId", s."viewedAt",
+            s."deviceType", s."triggerType", s."pagePath",
+            MIN(x."createdAt") FILTER (WHERE x."eventType" IN ('CLICK', 'SUBMIT', 'COUPON_ISSUED')) AS "interactedAt",
+            MIN(x."createdAt") FILTER (WHERE x."eventType" = 'SUBMIT') AS "submittedAt",
+            MIN(x."createdAt") FILTER (WHERE x."eventType" = 'COUPON_ISSUED') AS "couponAt",
+            MIN(x."createdAt") FILTER (WHERE x."eventType" = 'CLOSE') AS "closedAt"
+          FROM "sessions" s
+          LEFT JOIN "popup_events" x
+            ON x."storeId" = ${storeId}
+            AND x."campaignId" = s."campaignId"
+            AND x."sessionId" = s."sessionId"
+            AND x."eventType" IN ('CLICK', 'SUBMIT', 'COUPON_ISSUED', 'CLOSE')
+            AND x."createdAt" >= s."viewedAt"
+          GROUP BY s."campaignId", s."sessionId", s."visitorId", s."viewedAt",
+            s."deviceType", s."triggerType", s."pagePath"
+        ),
+        "funnel" AS (
+          SELECT
+            st.*,
+            ${segmentSql(breakdown)} AS "segment",
+            (
+              SELECT MIN(c."createdAt")
+              FROM "campaign_conversions" c
+              WHERE c."campaignId" = st."campaignId"
+                AND c."createdAt" >= st."viewedAt"
+                AND (
+                  EXISTS (
+                    SELECT 1 FROM "leads" l
+                    WHERE l."campaignId" = c."campaignId"
+                      AND l."sessionId" = st."sessionId"
+                      AND (l."discountCode" = ANY(c."discountCodes")
+                        OR l."shopifyCustomerId"::text = c."customerId")
+                  )
+                  OR EXISTS (
+                    SELECT 1 FROM "order_visitors" o
+                    WHERE o."storeId" = ${storeId}
+                      AND o."orderId" = c."orderId"
+                      AND o."visitorId" = st."visitorId"
+                  )
+                )
+            ) AS "orderedAt"
+          FROM "steps" st
+        ),
+        "closes" AS (
+          SELECT
+            f.*,
+            CASE
+              WHEN f."closedAt" IS NULL THEN NULL
+              WHEN f."couponAt" <= f."closedAt" THEN 'coupon'
+              WHEN f."submittedAt" <= f."closedAt" THEN 'submit'
+              WHEN f."interactedAt" <= f."closedAt" THEN 'interaction'
+              ELSE 'impression'
+            END AS "lastStepBeforeClose"
+          FROM "funnel" f
+        )
+        SELECT
+          "segment",
+          COUNT(*) AS "impressions",
+          COUNT("interactedAt") AS "interactions",
+          COUNT("submittedAt") AS "submits",
+          COUNT("couponAt") AS "coupons",
+          COUNT("orderedAt") AS "orders",
+          AVG(${toInteraction}) AS "avgToInteraction",
+          AVG(${toSubmit}) AS "avgToSubmit",
+          AVG(${toCoupon}) AS "avgToCoupon",
+          AVG(${toOrder}) AS "avgToOrder",
+          PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ${toInteraction}) AS "medianToInteraction",
+          PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ${toSubmit}) AS "medianToSubmit",
+          PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ${toCoupon}) AS "medianToCoupon",
+          PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ${toOrder}) AS "medianToOrder",
+          COUNT(*) FILTER (WHERE "lastStepBeforeClose" = 'impression') AS "closedAfterImpression",
+          COUNT(*) FILTER (WHERE "lastStepBeforeClose" = 'interaction') AS "closedAfterInteraction",
+          COUNT(*) FILTER (WHERE "lastStepBeforeClose" = 'submit') AS "closedAfterSubmit",
+          COUNT(*) FILTER (WHERE "lastStepBeforeClose" = 'coupon') AS "closedAfterCoupon"
+        FROM "closes"
+        GROUP BY ROLLUP ("segment")
+      `;
+
+      // ROLLUP adds the all-sessions row with a NULL segment
+      const totalRow = rows.find((row) => row.segment === null);
+      const segments = rows
+        .filter((row) => row.segment !== null)
+        .map((row) => buildFunnelSegment(row.segment as string, toCounts(row)))
+        .sort((a, b) => b.steps[0].sessions - a.steps[0].sessions);
+
+      return {
+        total: buildFunnelSegment("all", totalRow ? toCounts(totalRow) : this.emptyCounts()),
+        segments,
+      };
+    } catch (error) {
+      throw new ServiceError("FUNNEL_QUERY_FAILED", "Failed to build campaign funnel", error);
+    }
+  }
+
+  private static emptyCounts(): FunnelCounts {
+    return toCounts({
+      segment: null,
+      impressions: 0,
+      interactions: 0,
+      submits: 0,
+      coupons: 0,
+      orders: 0,
+      avgToInteraction: null,
+      avgToSubmit: null,
+      avgToCoupon: null,
+      avgToOrder: null,
+      medianToInteraction: null,
+      medianToSubmit: null,
+      medianToCoupon: null,
+      medianToOrder: null,
+      closedAfterImpression: 0,
+      closedAfterInteraction: 0,
+      closedAfterSubmit: 0,
+      closedAfterCoupon: 0,
+    });
+  }
+}
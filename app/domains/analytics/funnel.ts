@@ -0,0 +1,144 @@
+/**
+ * Funnel Analytics Helpers
+ *
+ * Pure helpers turning per-segment session counts into funnel steps:
+ * impression → interaction → submit → coupon → order
+ *
+ * Each session (visit) that saw a campaign is one funnel entry. Steps are
+ * counted independently, so an interaction includes clicks, submits and issued
+ * coupons, while the order step needs a CampaignConversion linked to the session.
+ *
+ * No database access here - FunnelAnalyticsService aggregates the sessions.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const FUNNEL_STEPS = ["impression", "interaction", "submit", "coupon", "order"] as const;
+
+export type FunnelStep = (typeof FUNNEL_STEPS)[number];
+
+/** Steps a visitor can close the popup after (orders happen after the popup) */
+export type CloseStep = Exclude<FunnelStep, "order">;
+
+export const FUNNEL_STEP_LABELS: Record<FunnelStep, string> = {
+  impression: "Impression",
+  interaction: "Interaction",
+  submit: "Submit",
+  coupon: "Coupon issued",
+  order: "Order",
+};
+
+/** Dimensions a funnel can be split by (taken from the session's first impression) */
+export const FUNNEL_BREAKDOWNS = ["none", "device", "pageType", "triggerType"] as const;
+
+export type FunnelBreakdown = (typeof FUNNEL_BREAKDOWNS)[number];
+
+export const FUNNEL_BREAKDOWN_LABELS: Record<FunnelBreakdown, string> = {
+  none: "No breakdown",
+  device: "Device",
+  pageType: "Page type",
+  triggerType: "Trigger",
+};
+
+/**
+ * Raw aggregates for one segment of sessions
+ */
+export interface FunnelCounts {
+  sessions: Record<FunnelStep, number>;
+  /** Average / median seconds from the previous step reached, null without data */
+  averageSeconds: Record<Exclude<FunnelStep, "impression">, number | null>;
+  medianSeconds: Record<Exclude<FunnelStep, "impression">, number | null>;
+  /** Sessions that closed the popup, by the last step reached before closing */
+  closedAfter: Record<CloseStep, number>;
+}
+
+export interface FunnelStepMetrics {
+  step: FunnelStep;
+  label: string;
+  sessions: number;
+  /** Percent of impressions reaching this step */
+  rateFromImpression: number;
+  /** Percent of the previous step's sessions reaching this step */
+  rateFromPrevious: number;
+  /** Percent of the previous step's sessions lost before this step */
+  dropOffRate: number;
+  averageSecondsFromPrevious: number | null;
+  medianSecondsFromPrevious: number | null;
+}
+
+export interface FunnelCloseSummary {
+  total: number;
+  /** Percent of impressions that ended with a close */
+  closeRate: number;
+  byLastStep: Record<CloseStep, number>;
+}
+
+export interface FunnelSegment {
+  /** Segment value (device, page type, trigger or campaign ID); "all" for the total */
+  key: string;
+  label: string;
+  steps: FunnelStepMetrics[];
+  closes: FunnelCloseSummary;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? (part / whole) * 100 : 0;
+}
+
+/**
+ * Human-readable segment value, e.g. "exit_intent" → "Exit intent"
+ */
+export function formatSegmentLabel(key: string): string {
+  if (key === "all") return "All sessions";
+  const words = key.replace(/([a-z])([A-Z])/g, "$1 $2").replace(/_/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1).toLowerCase();
+}
+
+/**
+ * Funnel steps with conversion and drop-off rates for one segment
+ */
+export function buildFunnelSegment(
+  key: string,
+  counts: FunnelCounts,
+  label?: string
+): FunnelSegment {
+  const impressions = counts.sessions.impression;
+
+  const steps = FUNNEL_STEPS.map((step, index): FunnelStepMetrics => {
+    const sessions = counts.sessions[step];
+    const previous = index > 0 ? counts.sessions[FUNNEL_STEPS[index - 1]] : sessions;
+    const rateFromPrevious = index > 0 ? percent(sessions, previous) : 100;
+
+    return {
+      step,
+      label: FUNNEL_STEP_LABELS[step],
+      sessions,
+      rateFromImpression: percent(sessions, impressions),
+      rateFromPrevious,
+      // Steps are counted independently (e.g. orders without a coupon), so a step
+      // can exceed the previous one; that counts as no drop-off
+      dropOffRate: index > 0 ? Math.max(0, 100 - rateFromPrevious) : 0,
+      averageSecondsFromPrevious: step === "impression" ? null : counts.averageSeconds[step],
+      medianSecondsFromPrevious: step === "impression" ? null : counts.medianSeconds[step],
+    };
+  });
+
+  const totalCloses = Object.values(counts.closedAfter).reduce((sum, count) => sum + count, 0);
+
+  return {
+    key,
+    label: label ?? formatSegmentLabel(key),
+    steps,
+    closes: {
+      total: totalCloses,
+      closeRate: percent(totalCloses, impressions),
+      byLastStep: counts.closedAfter,
+    },
+  };
+}
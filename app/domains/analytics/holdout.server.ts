@@ -0,0 +1,302 @@
+/**
+ * Holdout Service
+ *
+ * Incrementality measurement for campaign holdout groups:
+ * - Records the arm of every visitor a campaign with a holdout is eligible for,
+ *   when CampaignFilterService assigns it (once per visitor, campaign and day):
+ *   a HOLDOUT event ("would have shown") or a TREATMENT event ("will be shown")
+ * - Links orders to storefront visitors (OrderVisitor, from the cart attribute)
+ * - Compares orders of the two arms (intent-to-treat: whether the treatment
+ *   arm actually saw the popup doesn't matter, so both arms are selected alike)
+ *
+ * Store-wide reports only count visitors held out by the store-wide holdout;
+ * campaign reports count every visitor the campaign was withheld from.
+ */
+
+import { Prisma } from "@prisma/client";
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import { ServiceError } from "~/lib/errors.server";
+import { redis, REDIS_PREFIXES, REDIS_TTL } from "~/lib/redis.server";
+import type { CampaignWithConfigs } from "~/domains/campaigns/types/campaign";
+import type { StorefrontContext } from "~/domains/campaigns/types/storefront-context";
+import type { HoldoutPolicy, HoldoutScope } from "~/domains/campaigns/utils/holdout";
+import { PopupEventService } from "./popup-events.server";
+import {
+  analyzeIncrementality,
+  type HoldoutGroupSample,
+  type IncrementalityAnalysis,
+} from "./incrementality";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HoldoutAssignment {
+  campaign: Pick<CampaignWithConfigs, "id" | "experimentId" | "variantKey">;
+  policy: HoldoutPolicy;
+  /** Withheld from the visitor (holdout arm); otherwise shown (treatment arm) */
+  heldOut: boolean;
+}
+
+export interface OrderVisitorInput {
+  orderId: string;
+  visitorId: string;
+  customerId?: string;
+  totalPrice: number;
+  orderedAt: Date;
+}
+
+export interface IncrementalityOptions {
+  /** Report a single campaign; omit for the store-wide holdout */
+  campaignId?: string;
+  from: Date;
+  to: Date;
+  confidenceLevel?: number;
+}
+
+export interface IncrementalityReport extends IncrementalityAnalysis {
+  scope: HoldoutScope;
+  campaignId: string | null;
+  /** Start of the measured range: the requested start, or eventsArchivedBefore if later */
+  from: Date;
+  to: Date;
+  /** Raw events from the start of the requested range were archived */
+  hasArchivedEvents: boolean;
+}
+
+interface GroupRow {
+  visitors: bigint | number | null;
+  converters: bigint | number | null;
+  orders: bigint | number | null;
+  revenue: Prisma.Decimal | number | null;
+  revenueSumOfSquares: Prisma.Decimal | number | null;
+}
+
+/** Cart attribute set by the storefront, copied to the order's note_attributes */
+export const ORDER_VISITOR_ATTRIBUTE = "_rb_visitor_id";
+
+/** A visitor logs at most one assignment event per campaign per day */
+const HOLDOUT_EVENT_TTL = REDIS_TTL.DAY;
+
+// ============================================================================
+// HOLDOUT SERVICE
+// ============================================================================
+
+export class HoldoutService {
+  /**
+   * Log the holdout arm a visitor was assigned to for each eligible campaign.
+   * Never throws - a failed log must not break the storefront request.
+   */
+  static async recordAssignments(
+    storeId: string,
+    assignments: HoldoutAssignment[],
+    context: StorefrontContext
+  ): Promise<void> {
+    const visitorId = context.visitorId;
+    if (!visitorId || assignments.length === 0) return;
+
+    const toRecord = await this.claimDailyEvents(
+      visitorId,
+      assignments.map(({ campaign }) => campaign.id)
+    );
+
+    await Promise.all(
+      assignments
+        .filter(({ campaign }) => toRecord.has(campaign.id))
+        .map(async ({ campaign, policy, heldOut }) => {
+          try {
+            await PopupEventService.recordEvent({
+              storeId,
+              campaignId: campaign.id,
+              experimentId: campaign.experimentId,
+              variantKey: campaign.variantKey,
+              sessionId: context.sessionId,
+              visitorId,
+              eventType: heldOut ? "HOLDOUT" : "TREATMENT",
+              pageUrl: context.pageUrl,
+              deviceType: context.deviceType,
+              metadata: { scope: policy.scope, percentage: policy.percentage },
+            });
+          } catch (error) {
+            logger.warn(
+              { error, campaignId: campaign.id },
+              "[Holdout] Failed to record holdout assignment"
+            );
+          }
+        })
+    );
+  }
+
+  /**
+   * Remember which visitor placed an order. Webhooks are retried, so duplicates are skipped.
+   */
+  static async recordOrderVisitor(storeId: string, order: OrderVisitorInput): Promise<void> {
+    try {
+      await prisma.orderVisitor.createMany({
+        data: [
+          {
+            storeId,
+            orderId: order.orderId,
+            visitorId: order.visitorId,
+            customerId: order.customerId ?? null,
+            totalPrice: order.totalPrice,
+            orderedAt: order.orderedAt,
+          },
+        ],
+        skipDuplicates: true,
+      });
+    } catch (error) {
+      logger.error({ error, orderId: order.orderId }, "[Holdout] Failed to record order visitor");
+    }
+  }
+
+  /**
+   * Orders of held-out visitors vs. exposed visitors, with confidence intervals
+   *
+   * - Holdout: visitors with a HOLDOUT event in the range
+   * - Exposed: visitors with a TREATMENT event in the range who were never held out
+   * - Orders count from the visitor's first event in the range until `to`
+   * - Assignment events have no rollup, so the range starts no earlier than
+   *   Store.eventsArchivedBefore (flagged with `hasArchivedEvents`)
+   */
+  static async getIncrementality(
+    storeId: string,
+    options: IncrementalityOptions
+  ): Promise<IncrementalityReport> {
+    const campaignId = options.campaignId ?? null;
+
+    try {
+      const store = await prisma.store.findUnique({
+        where: { id: storeId },
+        select: { eventsArchivedBefore: true },
+      });
+      const archivedBefore = store?.eventsArchivedBefore ?? null;
+      const hasArchivedEvents = !!archivedBefore && archivedBefore > options.from;
+      const range = hasArchivedEvents ? { ...options, from: archivedBefore } : options;
+
+      const [holdout, exposed] = await Promise.all([
+        this.getGroupSample(storeId, "holdout", range),
+        this.getGroupSample(storeId, "exposed", range),
+      ]);
+
+      return {
+        scope: campaignId ? "campaign" : "store",
+        campaignId,
+        from: range.from,
+        to: range.to,
+        hasArchivedEvents,
+        ...analyzeIncrementality(holdout, exposed, options.confidenceLevel),
+      };
+    } catch (error) {
+      throw new ServiceError(
+        "INCREMENTALITY_FAILED",
+        "Failed to compute holdout incrementality",
+        error
+      );
+    }
+  }
+
+  // ==========================================================================
+  // QUERIES
+  // ==========================================================================
+
+  private static async getGroupSample(
+    storeId: string,
+    group: "holdout" | "exposed",
+    options: IncrementalityOptions
+  ): Promise<HoldoutGroupSample> {
+    // Visitors held out of the campaign, or out of every campaign by the store-wide holdout
+    const holdoutScope = (alias: string) =>
+      options.campaignId
+        ? Prisma.sql`AND ${Prisma.raw(alias)}."campaignId" = ${options.campaignId}`
+        : Prisma.sql`AND ${Prisma.raw(alias)}."metadata"->>'scope' = 'store'`;
+
+    // Both arms are recorded at assignment, so neither depends on the popup being seen
+    const groupFilter =
+      group === "holdout"
+        ? Prisma.sql`e."eventType" = 'HOLDOUT' ${holdoutScope("e")}`
+        : Prisma.sql`e."eventType" = 'TREATMENT' ${holdoutScope("e")}
+            AND NOT EXISTS (
+              SELECT 1 FROM "popup_events" h
+              WHERE h."storeId" = ${storeId}
+                AND h."eventType" = 'HOLDOUT'
+                AND h."visitorId" = e."visitorId"
+                ${holdoutScope("h")}
+            )`;
+
+    const rows = await prisma.$queryRaw<GroupRow[]>`
+      WITH "members" AS (
+        SELECT e."visitorId", MIN(e."createdAt") AS "firstSeenAt"
+        FROM "popup_events" e
+        WHERE e."storeId" = ${storeId}
+          AND e."visitorId" IS NOT NULL
+          AND e."createdAt" >= ${options.from} AND e."createdAt" <= ${options.to}
+          AND ${groupFilter}
+        GROUP BY e."visitorId"
+      ),
+      "perVisitor" AS (
+        SELECT m."visitorId", COUNT(o."id") AS "orders", COALESCE(SUM(o."totalPrice"), 0) AS "revenue"
+        FROM "members" m
+        LEFT JOIN "order_visitors" o
+          ON o."storeId" = ${storeId}
+          AND o."visitorId" = m."visitorId"
+          AND o."orderedAt" >= m."firstSeenAt" AND o."orderedAt" <= ${options.to}
+        GROUP BY m."visitorId"
+      )
+      SELECT
+        COUNT(*) AS "visitors",
+        COUNT(*) FILTER (WHERE "orders" > 0) AS "converters",
+        SUM("orders") AS "orders",
+        SUM("revenue") AS "revenue",
+        SUM("revenue" * "revenue") AS "revenueSumOfSquares"
+      FROM "perVisitor"
+    `;
+
+    const row = rows[0];
+    return {
+      visitors: Number(row?.visitors ?? 0),
+      converters: Number(row?.converters ?? 0),
+      orders: Number(row?.orders ?? 0),
+      revenue: Number(row?.revenue ?? 0),
+      revenueSumOfSquares: Number(row?.revenueSumOfSquares ?? 0),
+    };
+  }
+
+  // ==========================================================================
+  // DEDUPLICATION
+  // ==========================================================================
+
+  /**
+   * Campaign IDs whose assignment event for today has not been logged yet.
+   * Without Redis every assignment is logged.
+   */
+  private static async claimDailyEvents(
+    visitorId: string,
+    campaignIds: string[]
+  ): Promise<Set<string>> {
+    if (!redis) return new Set(campaignIds);
+
+    try {
+      const pipeline = redis.pipeline();
+      campaignIds.forEach((campaignId) => {
+        pipeline.set(this.eventKey(campaignId, visitorId), "1", "EX", HOLDOUT_EVENT_TTL, "NX");
+      });
+      const results = (await pipeline.exec()) ?? [];
+
+      return new Set(
+        campaignIds.filter((_, index) => {
+          const [error, reply] = results[index] ?? [];
+          return !error && reply === "OK";
+        })
+      );
+    } catch (error) {
+      logger.warn({ error }, "[Holdout] Failed to deduplicate holdout events");
+      return new Set(campaignIds);
+    }
+  }
+
+  private static eventKey(campaignId: string, visitorId: string): string {
+    return `${REDIS_PREFIXES.HOLDOUT}:${campaignId}:${visitorId}`;
+  }
+}
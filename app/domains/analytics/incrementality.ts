@@ -0,0 +1,170 @@
+/**
+ * Incrementality Statistics
+ *
+ * Pure helpers comparing the exposed group of a holdout test with the visitors
+ * held out of it:
+ * - Incremental conversion rate (percentage points) with a Wald interval
+ * - Incremental revenue = revenue-per-visitor difference × exposed visitors,
+ *   with a Welch (normal approximation) interval
+ * - Relative lift of the conversion rate over the holdout
+ *
+ * No database access here - HoldoutService aggregates the per-visitor orders.
+ */
+
+import {
+  MIN_SAMPLE_SIZE,
+  criticalZ,
+  twoProportionTest,
+  welchTest,
+  type ConfidenceInterval,
+} from "./experiment-statistics";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Raw aggregates for the holdout or the exposed group
+ */
+export interface HoldoutGroupSample {
+  visitors: number;
+  /** Visitors with at least one order */
+  converters: number;
+  orders: number;
+  revenue: number;
+  /** Sum of squared revenue per visitor, needed for revenue variance */
+  revenueSumOfSquares: number;
+}
+
+export interface HoldoutGroupSummary extends HoldoutGroupSample {
+  /** Percent of visitors with an order */
+  conversionRate: number;
+  revenuePerVisitor: number;
+}
+
+export interface IncrementalEstimate extends ConfidenceInterval {
+  value: number;
+}
+
+export interface IncrementalityAnalysis {
+  confidenceLevel: number;
+  holdout: HoldoutGroupSummary;
+  exposed: HoldoutGroupSummary;
+  /** Exposed minus holdout conversion rate, in percentage points */
+  incrementalConversionRate: IncrementalEstimate;
+  /** Relative conversion lift over the holdout in percent, null when the holdout rate is 0 */
+  relativeLift: number | null;
+  /** Orders that would not have happened without the campaign(s) */
+  incrementalConversions: IncrementalEstimate;
+  incrementalRevenue: IncrementalEstimate;
+  conversionPValue: number;
+  revenuePValue: number;
+  /** Conversion rate difference is significant at the confidence level */
+  isSignificant: boolean;
+  /** Both groups reached MIN_SAMPLE_SIZE visitors */
+  hasSufficientSample: boolean;
+}
+
+const DEFAULT_CONFIDENCE_LEVEL = 0.95;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function summarize(sample: HoldoutGroupSample): HoldoutGroupSummary {
+  return {
+    ...sample,
+    conversionRate: sample.visitors > 0 ? (sample.converters / sample.visitors) * 100 : 0,
+    revenuePerVisitor: sample.visitors > 0 ? sample.revenue / sample.visitors : 0,
+  };
+}
+
+/**
+ * Sample variance of revenue per visitor (visitors without orders count as 0)
+ */
+function revenueVariance(sample: HoldoutGroupSample): number {
+  if (sample.visitors <= 1) return 0;
+  const mean = sample.revenue / sample.visitors;
+  return Math.max(
+    0,
+    (sample.revenueSumOfSquares - sample.visitors * mean * mean) / (sample.visitors - 1)
+  );
+}
+
+function estimate(value: number, margin: number): IncrementalEstimate {
+  return { value, lower: value - margin, upper: value + margin };
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Compare the exposed group with the holdout
+ */
+export function analyzeIncrementality(
+  holdoutSample: HoldoutGroupSample,
+  exposedSample: HoldoutGroupSample,
+  confidenceLevel: number = DEFAULT_CONFIDENCE_LEVEL
+): IncrementalityAnalysis {
+  const holdout = summarize(holdoutSample);
+  const exposed = summarize(exposedSample);
+  const z = criticalZ(confidenceLevel);
+  const hasVisitors = holdout.visitors > 0 && exposed.visitors > 0;
+
+  // Conversion rate difference (fractions for the variance, reported in points)
+  const pHoldout = holdout.visitors > 0 ? holdout.converters / holdout.visitors : 0;
+  const pExposed = exposed.visitors > 0 ? exposed.converters / exposed.visitors : 0;
+  const rateError = hasVisitors
+    ? Math.sqrt(
+        (pExposed * (1 - pExposed)) / exposed.visitors +
+          (pHoldout * (1 - pHoldout)) / holdout.visitors
+      )
+    : 0;
+  const rateDifference = pExposed - pHoldout;
+
+  // Revenue per visitor difference
+  const revenueError = hasVisitors
+    ? Math.sqrt(
+        revenueVariance(exposed) / exposed.visitors + revenueVariance(holdout) / holdout.visitors
+      )
+    : 0;
+  const revenueDifference = exposed.revenuePerVisitor - holdout.revenuePerVisitor;
+
+  const conversionPValue = twoProportionTest(
+    holdout.converters,
+    holdout.visitors,
+    exposed.converters,
+    exposed.visitors
+  );
+  const revenuePValue = welchTest(
+    holdout.revenuePerVisitor,
+    revenueVariance(holdout),
+    holdout.visitors,
+    exposed.revenuePerVisitor,
+    revenueVariance(exposed),
+    exposed.visitors
+  );
+  const hasSufficientSample =
+    holdout.visitors >= MIN_SAMPLE_SIZE && exposed.visitors >= MIN_SAMPLE_SIZE;
+
+  return {
+    confidenceLevel,
+    holdout,
+    exposed,
+    incrementalConversionRate: estimate(rateDifference * 100, z * rateError * 100),
+    relativeLift: pHoldout > 0 ? (rateDifference / pHoldout) * 100 : null,
+    incrementalConversions: estimate(
+      rateDifference * exposed.visitors,
+      z * rateError * exposed.visitors
+    ),
+    incrementalRevenue: estimate(
+      revenueDifference * exposed.visitors,
+      z * revenueError * exposed.visitors
+    ),
+    conversionPValue,
+    revenuePValue,
+    isSignificant: hasSufficientSample && conversionPValue < 1 - confidenceLevel,
+    hasSufficientSample,
+  };
+}
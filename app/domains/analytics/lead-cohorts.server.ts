@@ -0,0 +1,256 @@
+/**
+ * Lead Cohort Service
+ *
+ * Tracks what captured leads buy after signing up:
+ * - recordOrder (orders/create): stores orders of customers who are leads of
+ *   the store, matched by Shopify customer ID or email, whether or not a
+ *   campaign gets credit for the order
+ * - reconcileOrder / cancelOrder (orders/updated, orders/cancelled): keep the
+ *   order's net revenue after refunds and cancellations
+ * - getCohorts: 30 / 60 / 90-day purchase counts and revenue per campaign and
+ *   signup week, grouped for display by ./lead-cohorts
+ */
+
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import { ServiceError } from "~/lib/errors.server";
+import { isValidTimezone } from "~/domains/campaigns/utils/schedule-helpers";
+import { getLocalDateKey, getLocalMidnight, shiftDateKey } from "./analytics-rollup.server";
+import { computeNetRevenue } from "./conversion-adjustment.server";
+import {
+  COHORT_WINDOWS,
+  DEFAULT_COHORT_WEEKS,
+  type CohortWindow,
+  type LeadCohortRow,
+} from "./lead-cohorts";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface LeadOrderInput {
+  orderId: string;
+  customerId?: string;
+  email?: string;
+  totalPrice: number;
+  orderedAt: Date;
+}
+
+export interface CohortOptions {
+  /** Signup weeks to include, the current one counting as the first */
+  weeks?: number;
+  now?: Date;
+}
+
+/** One row per campaign and signup week; counts per window suffix (30 / 60 / 90) */
+type CohortQueryRow = {
+  campaignId: string;
+  campaignName: string;
+  templateType: string;
+  week: string;
+  leads: number;
+} & {
+  [K in `${"eligible" | "purchasers" | "repeat" | "revenue"}${CohortWindow}`]: number | string;
+};
+
+const DAY_MS = 86_400_000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Monday (YYYY-MM-DD) of the week containing a local day
+ */
+export function getWeekStartKey(dateKey: string): string {
+  const day = new Date(`${dateKey}T00:00:00.000Z`).getUTCDay();
+  return shiftDateKey(dateKey, -((day + 6) % 7));
+}
+
+// ============================================================================
+// LEAD COHORT SERVICE
+// ============================================================================
+
+export class LeadCohortService {
+  /**
+   * Store an order when its customer is a lead of the store.
+   * Returns whether it was stored (or already had been).
+   */
+  static async recordOrder(storeId: string, order: LeadOrderInput): Promise<boolean> {
+    const email = order.email?.trim().toLowerCase() || undefined;
+    const customerId =
+      order.customerId && /^\d+$/.test(order.customerId) ? order.customerId : undefined;
+    if (!email && !customerId) return false;
+
+    try {
+      const lead = await prisma.lead.findFirst({
+        where: {
+          storeId,
+          OR: [
+            ...(customerId ? [{ shopifyCustomerId: BigInt(customerId) }] : []),
+            ...(email ? [{ email }] : []),
+          ],
+        },
+        select: { id: true },
+      });
+      if (!lead) return false;
+
+      // Webhook retries deliver the same order again
+      await prisma.leadOrder.createMany({
+        data: [
+          {
+            storeId,
+            orderId: order.orderId,
+            customerId: customerId ?? null,
+            email: email ?? null,
+            totalPrice: order.totalPrice,
+            netRevenue: order.totalPrice,
+            orderedAt: order.orderedAt,
+          },
+        ],
+        skipDuplicates: true,
+      });
+      return true;
+    } catch (error) {
+      logger.error(
+        { error, storeId, orderId: order.orderId },
+        "[LeadCohorts] Failed to record order"
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Bring a lead order in line with its refunds and cancellation
+   */
+  static async reconcileOrder(
+    storeId: string,
+    orderId: string,
+    state: { refundedAmount: number; cancelledAt: Date | null }
+  ): Promise<boolean> {
+    const order = await prisma.leadOrder.findUnique({
+      where: { storeId_orderId: { storeId, orderId } },
+      select: { id: true, totalPrice: true },
+    });
+    if (!order) return false;
+
+    await prisma.leadOrder.update({
+      where: { id: order.id },
+      data: {
+        netRevenue: computeNetRevenue(
+          Number(order.totalPrice),
+          state.refundedAmount,
+          state.cancelledAt !== null
+        ),
+        cancelledAt: state.cancelledAt,
+      },
+    });
+    return true;
+  }
+
+  static async cancelOrder(storeId: string, orderId: string, cancelledAt: Date): Promise<boolean> {
+    const result = await prisma.leadOrder.updateMany({
+      where: { storeId, orderId },
+      data: { netRevenue: 0, cancelledAt },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Cohorts of the leads that signed up in the last `weeks` weeks
+   */
+  static async getCohorts(storeId: string, options: CohortOptions = {}): Promise<LeadCohortRow[]> {
+    const now = options.now ?? new Date();
+    const weeks = options.weeks ?? DEFAULT_COHORT_WEEKS;
+
+    const store = await prisma.store.findUnique({
+      where: { id: storeId },
+      select: { timezone: true },
+    });
+    const timezone = isValidTimezone(store?.timezone) ? store.timezone : "UTC";
+
+    const currentWeek = getWeekStartKey(getLocalDateKey(now, timezone));
+    const from = getLocalMidnight(shiftDateKey(currentWeek, -7 * (weeks - 1)), timezone);
+    // Leads must be this old to count towards a window
+    const [cutoff30, cutoff60, cutoff90] = COHORT_WINDOWS.map(
+      (days) => new Date(now.getTime() - days * DAY_MS)
+    );
+
+    try {
+      const rows = await prisma.$queryRaw<CohortQueryRow[]>`
+        WITH lead_stats AS (
+          SELECT
+            l."campaignId",
+            date_trunc('week', (l."createdAt" AT TIME ZONE 'UTC') AT TIME ZONE ${timezone})::date AS "week",
+            l."createdAt",
+            COUNT(o."id") FILTER (WHERE o."orderedAt" < l."createdAt" + INTERVAL '30 days') AS "orders30",
+            COUNT(o."id") FILTER (WHERE o."orderedAt" < l."createdAt" + INTERVAL '60 days') AS "orders60",
+            COUNT(o."id") AS "orders90",
+            COALESCE(SUM(o."netRevenue") FILTER (WHERE o."orderedAt" < l."createdAt" + INTERVAL '30 days'), 0) AS "revenue30",
+            COALESCE(SUM(o."netRevenue") FILTER (WHERE o."orderedAt" < l."createdAt" + INTERVAL '60 days'), 0) AS "revenue60",
+            COALESCE(SUM(o."netRevenue"), 0) AS "revenue90"
+          FROM "leads" l
+          LEFT JOIN "lead_orders" o
+            ON o."storeId" = l."storeId"
+            AND o."cancelledAt" IS NULL
+            AND o."orderedAt" >= l."createdAt"
+            AND o."orderedAt" < l."createdAt" + INTERVAL '90 days'
+            AND (o."customerId" = l."shopifyCustomerId"::text OR o."email" = l."email")
+          WHERE l."storeId" = ${storeId} AND l."createdAt" >= ${from}
+          GROUP BY l."id"
+        )
+        SELECT
+          s."campaignId",
+          c."name" AS "campaignName",
+          c."templateType"::text AS "templateType",
+          to_char(s."week", 'YYYY-MM-DD') AS "week",
+          COUNT(*)::int AS "leads",
+          COUNT(*) FILTER (WHERE s."createdAt" <= ${cutoff30})::int AS "eligible30",
+          COUNT(*) FILTER (WHERE s."createdAt" <= ${cutoff30} AND s."orders30" >= 1)::int AS "purchasers30",
+          COUNT(*) FILTER (WHERE s."createdAt" <= ${cutoff30} AND s."orders30" >= 2)::int AS "repeat30",
+          COALESCE(SUM(s."revenue30") FILTER (WHERE s."createdAt" <= ${cutoff30}), 0)::float AS "revenue30",
+          COUNT(*) FILTER (WHERE s."createdAt" <= ${cutoff60})::int AS "eligible60",
+          COUNT(*) FILTER (WHERE s."createdAt" <= ${cutoff60} AND s."orders60" >= 1)::int AS "purchasers60",
+          COUNT(*) FILTER (WHERE s."createdAt" <= ${cutoff60} AND s."orders60" >= 2)::int AS "repeat60",
+          COALESCE(SUM(s."revenue60") FILTER (WHERE s."createdAt" <= ${cutoff60}), 0)::float AS "revenue60",
+          COUNT(*) FILTER (WHERE s."createdAt" <= ${cutoff90})::int AS "eligible90",
+          COUNT(*) FILTER (WHERE s."createdAt" <= ${cutoff90} AND s."orders90" >= 1)::int AS "purchasers90",
+          COUNT(*) FILTER (WHERE s."createdAt" <= ${cutoff90} AND s."orders90" >= 2)::int AS "repeat90",
+          COALESCE(SUM(s."revenue90") FILTER (WHERE s."createdAt" <= ${cutoff90}), 0)::float AS "revenue90"
+        FROM lead_stats s
+        JOIN "campaigns" c ON c."id" = s."campaignId"
+        GROUP BY s."campaignId", c."name", c."templateType", s."week"
+      `;
+
+      return rows.map((row: CohortQueryRow) => ({
+        campaignId: row.campaignId,
+        campaignName: row.campaignName,
+        templateType: row.templateType,
+        week: row.week,
+        leads: Number(row.leads),
+        windows: {
+          30: {
+            eligibleLeads: Number(row.eligible30),
+            purchasers: Number(row.purchasers30),
+            repeatPurchasers: Number(row.repeat30),
+            revenue: Number(row.revenue30),
+          },
+          60: {
+            eligibleLeads: Number(row.eligible60),
+            purchasers: Number(row.purchasers60),
+            repeatPurchasers: Number(row.repeat60),
+            revenue: Number(row.revenue60),
+          },
+          90: {
+            eligibleLeads: Number(row.eligible90),
+            purchasers: Number(row.purchasers90),
+            repeatPurchasers: Number(row.repeat90),
+            revenue: Number(row.revenue90),
+          },
+        },
+      }));
+    } catch (error) {
+      throw new ServiceError("LEAD_COHORTS_FAILED", "Failed to fetch lead cohorts", error);
+    }
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Lead Cohort Helpers
+ *
+ * Pure helpers for the lead cohort / lifetime-value report. A cohort is the
+ * leads one campaign captured in one signup week (Monday-based, store
+ * timezone); their orders in the 30 / 60 / 90 days after signing up are
+ * compared across sources:
+ * - purchase rate: share of leads with at least one order in the window
+ * - repeat purchase rate: share of leads with two or more orders
+ * - revenue per lead: net revenue (after refunds) of those orders per lead
+ *
+ * Only leads who signed up at least N days ago count towards the N-day
+ * figures, so recent cohorts don't look worse than they are.
+ *
+ * No database access here - LeadCohortService aggregates the cohorts.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const COHORT_WINDOWS = [30, 60, 90] as const;
+
+export type CohortWindow = (typeof COHORT_WINDOWS)[number];
+
+export const COHORT_GROUPINGS = ["campaign", "template", "week"] as const;
+
+export type CohortGrouping = (typeof COHORT_GROUPINGS)[number];
+
+export const COHORT_GROUPING_LABELS: Record<CohortGrouping, string> = {
+  campaign: "Campaign",
+  template: "Template type",
+  week: "Signup week",
+};
+
+/** Signup weeks covered when none are requested */
+export const DEFAULT_COHORT_WEEKS = 26;
+export const MAX_COHORT_WEEKS = 104;
+
+/**
+ * Order counts of one cohort for one window
+ */
+export interface CohortWindowCounts {
+  /** Leads who signed up at least `window` days ago */
+  eligibleLeads: number;
+  /** Eligible leads with 1+ orders in the window */
+  purchasers: number;
+  /** Eligible leads with 2+ orders in the window */
+  repeatPurchasers: number;
+  /** Net revenue of the eligible leads' orders in the window */
+  revenue: number;
+}
+
+/**
+ * Leads of one campaign in one signup week
+ */
+export interface LeadCohortRow {
+  campaignId: string;
+  campaignName: string;
+  templateType: string;
+  /** Monday of the signup week (YYYY-MM-DD, store timezone) */
+  week: string;
+  leads: number;
+  windows: Record<CohortWindow, CohortWindowCounts>;
+}
+
+export interface CohortWindowMetrics extends CohortWindowCounts {
+  /** null until a lead of the group is old enough */
+  purchaseRate: number | null;
+  repeatPurchaseRate: number | null;
+  revenuePerLead: number | null;
+}
+
+export interface CohortSummary {
+  key: string;
+  label: string;
+  leads: number;
+  windows: Record<CohortWindow, CohortWindowMetrics>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export const EMPTY_COHORT_WINDOW_COUNTS: CohortWindowCounts = {
+  eligibleLeads: 0,
+  purchasers: 0,
+  repeatPurchasers: 0,
+  revenue: 0,
+};
+
+function formatTemplateType(type: string): string {
+  return type
+    .split("_")
+    .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
+    .join(" ");
+}
+
+function getGroup(row: LeadCohortRow, grouping: CohortGrouping): { key: string; label: string } {
+  switch (grouping) {
+    case "campaign":
+      return { key: row.campaignId, label: row.campaignName };
+    case "template":
+      return { key: row.templateType, label: formatTemplateType(row.templateType) };
+    case "week":
+      return { key: row.week, label: `Week of ${row.week}` };
+  }
+}
+
+export function getCohortWindowMetrics(counts: CohortWindowCounts): CohortWindowMetrics {
+  const rate = (value: number) => (counts.eligibleLeads > 0 ? value / counts.eligibleLeads : null);
+  return {
+    ...counts,
+    purchaseRate: rate(counts.purchasers),
+    repeatPurchaseRate: rate(counts.repeatPurchasers),
+    revenuePerLead: rate(counts.revenue),
+  };
+}
+
+/**
+ * Combine cohort rows by campaign, template type or signup week.
+ * Weeks are listed newest first, other groups by lead count.
+ */
+export function groupCohorts(rows: LeadCohortRow[], grouping: CohortGrouping): CohortSummary[] {
+  const groups = new Map<
+    string,
+    { label: string; leads: number; windows: Record<CohortWindow, CohortWindowCounts> }
+  >();
+
+  for (const row of rows) {
+    const { key, label } = getGroup(row, grouping);
+    const group = groups.get(key) ?? {
+      label,
+      leads: 0,
+      windows: {
+        30: EMPTY_COHORT_WINDOW_COUNTS,
+        60: EMPTY_COHORT_WINDOW_COUNTS,
+        90: EMPTY_COHORT_WINDOW_COUNTS,
+      },
+    };
+
+    group.leads += row.leads;
+    for (const window of COHORT_WINDOWS) {
+      const total = group.windows[window];
+      const counts = row.windows[window];
+      group.windows[window] = {
+        eligibleLeads: total.eligibleLeads + counts.eligibleLeads,
+        purchasers: total.purchasers + counts.purchasers,
+        repeatPurchasers: total.repeatPurchasers + counts.repeatPurchasers,
+        revenue: total.revenue + counts.revenue,
+      };
+    }
+    groups.set(key, group);
+  }
+
+  const summaries = Array.from(groups, ([key, group]) => ({
+    key,
+    label: group.label,
+    leads: group.leads,
+    windows: {
+      30: getCohortWindowMetrics(group.windows[30]),
+      60: getCohortWindowMetrics(group.windows[60]),
+      90: getCohortWindowMetrics(group.windows[90]),
+    },
+  }));
+
+  return grouping === "week"
+    ? summaries.sort((a, b) => b.key.localeCompare(a.key))
+    : summaries.sort((a, b) => b.leads - a.leads || a.label.localeCompare(b.label));
+}
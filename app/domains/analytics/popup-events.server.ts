@@ -2,6 +2,10 @@ import { logger } from "~/lib/logger.server";
 import prisma from "~/db.server";
 import { ServiceError } from "~/lib/errors.server";
 import type { PopupEventType, VariantKey, Prisma } from "@prisma/client";
+import { AnalyticsRollupService, type RollupEventTotals } from "./analytics-rollup.server";
+import { EventRetentionService } from "./event-retention.server";
+import type { CampaignErrorKind } from "./anomaly-detection";
+import { OutboundWebhookService } from "~/domains/integrations/services/outbound-webhooks.server";
 
 export interface PopupEventInput {
   storeId: string;
@@ -26,6 +30,9 @@ export interface PopupEventInput {
  *
  * Responsible for recording and aggregating popup analytics events
  * (impressions, submissions, coupon issuance, etc.).
+ *
+ * Counts fall back to the daily rollups when the requested range reaches
+ * events already pruned by the retention job.
  */
 export class PopupEventService {
   /**
@@ -50,8 +57,9 @@ export class PopupEventService {
       await PlanGuardService.assertWithinMonthlyImpressionCap(input.storeId);
     }
 
+    let event: { id: string; createdAt: Date };
     try {
-      await prisma.popupEvent.create({
+      event = await prisma.popupEvent.create({
         data: {
           storeId: input.storeId,
           campaignId: input.campaignId,
@@ -69,11 +77,62 @@ export class PopupEventService {
           deviceType: input.deviceType ?? null,
           metadata: input.metadata,
         },
+        select: { id: true, createdAt: true },
       });
     } catch (error) {
       logger.error({ input, error }, "[Analytics] Failed to record popup event");
       throw new ServiceError("POPUP_EVENT_CREATE_FAILED", "Failed to record popup event", error);
     }
+
+    // Outbound webhooks (lead.created is deduped with the lead producers' own emit)
+    if (input.eventType === "SUBMIT" && input.leadId) {
+      await OutboundWebhookService.emitLeadCreated(input.leadId);
+    } else if (input.eventType === "COUPON_ISSUED") {
+      const metadata = (input.metadata ?? {}) as Record<string, unknown>;
+      await OutboundWebhookService.emit(input.storeId, "coupon.issued", event.id, {
+        campaignId: input.campaignId,
+        experimentId: input.experimentId ?? null,
+        variantKey: input.variantKey ?? null,
+        leadId: input.leadId ?? null,
+        sessionId: input.sessionId || input.visitorId || null,
+        discountCode: typeof metadata.discountCode === "string" ? metadata.discountCode : null,
+        source: typeof metadata.source === "string" ? metadata.source : null,
+        issuedAt: event.createdAt.toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Record a server-side failure (ERROR event) for the anomaly monitor.
+   *
+   * Never throws - callers are already handling a failure.
+   */
+  static async recordError(input: {
+    storeId: string;
+    campaignId: string;
+    sessionId?: string | null;
+    visitorId?: string | null;
+    kind: CampaignErrorKind;
+    message?: string;
+  }): Promise<void> {
+    try {
+      await PopupEventService.recordEvent({
+        storeId: input.storeId,
+        campaignId: input.campaignId,
+        sessionId: input.sessionId,
+        visitorId: input.visitorId,
+        eventType: "ERROR",
+        metadata: {
+          kind: input.kind,
+          ...(input.message && { message: input.message.slice(0, 500) }),
+        },
+      });
+    } catch (error) {
+      logger.warn(
+        { error, campaignId: input.campaignId },
+        "[Analytics] Failed to record error event"
+      );
+    }
   }
 
   /**
@@ -105,27 +164,46 @@ export class PopupEventService {
     return where;
   }
 
-  static async getImpressionCountsByCampaign(
+  /**
+   * Count events of one type per campaign, from the daily rollups when raw
+   * events of the range were archived
+   */
+  private static async countByCampaign(
     campaignIds: string[],
+    eventType: PopupEventType,
+    rollupField: keyof RollupEventTotals,
     options?: { storeId?: string; from?: Date; to?: Date }
   ): Promise<Map<string, number>> {
-    if (campaignIds.length === 0) return new Map();
+    const result = new Map<string, number>();
 
-    try {
-      const where = PopupEventService.buildWhere(campaignIds, "VIEW", options);
-
-      const rows = await prisma.popupEvent.groupBy({
-        by: ["campaignId"],
-        where,
-        _count: { id: true },
+    if (await EventRetentionService.hasArchivedEvents(campaignIds, options?.from)) {
+      const totals = await AnalyticsRollupService.getTotalsByCampaign(campaignIds, options);
+      totals.forEach((row, campaignId) => {
+        if (row[rollupField] > 0) result.set(campaignId, row[rollupField]);
       });
+      return result;
+    }
 
-      const result = new Map<string, number>();
-      rows.forEach((row) => {
-        result.set(row.campaignId, row._count.id);
-      });
+    const rows = await prisma.popupEvent.groupBy({
+      by: ["campaignId"],
+      where: PopupEventService.buildWhere(campaignIds, eventType, options),
+      _count: { id: true },
+    });
+    rows.forEach((row) => {
+      result.set(row.campaignId, row._count.id);
+    });
 
-      return result;
+    return result;
+  }
+
+  static async getImpressionCountsByCampaign(
+    campaignIds: string[],
+    options?: { storeId?: string; from?: Date; to?: Date }
+  ): Promise<Map<string, number>> {
+    if (campaignIds.length === 0) return new Map();
+
+    try {
+      return await PopupEventService.countByCampaign(campaignIds, "VIEW", "impressions", options);
     } catch (error) {
       throw new ServiceError(
         "POPUP_EVENT_IMPRESSIONS_FAILED",
@@ -145,20 +223,7 @@ export class PopupEventService {
     if (campaignIds.length === 0) return new Map();
 
     try {
-      const where = PopupEventService.buildWhere(campaignIds, "SUBMIT", options);
-
-      const rows = await prisma.popupEvent.groupBy({
-        by: ["campaignId"],
-        where,
-        _count: { id: true },
-      });
-
-      const result = new Map<string, number>();
-      rows.forEach((row) => {
-        result.set(row.campaignId, row._count.id);
-      });
-
-      return result;
+      return await PopupEventService.countByCampaign(campaignIds, "SUBMIT", "submits", options);
     } catch (error) {
       throw new ServiceError("POPUP_EVENT_SUBMITS_FAILED", "Failed to fetch submit counts", error);
     }
@@ -174,20 +239,12 @@ export class PopupEventService {
     if (campaignIds.length === 0) return new Map();
 
     try {
-      const where = PopupEventService.buildWhere(campaignIds, "COUPON_ISSUED", options);
-
-      const rows = await prisma.popupEvent.groupBy({
-        by: ["campaignId"],
-        where,
-        _count: { id: true },
-      });
-
-      const result = new Map<string, number>();
-      rows.forEach((row) => {
-        result.set(row.campaignId, row._count.id);
-      });
-
-      return result;
+      return await PopupEventService.countByCampaign(
+        campaignIds,
+        "COUPON_ISSUED",
+        "couponsIssued",
+        options
+      );
     } catch (error) {
       throw new ServiceError(
         "POPUP_EVENT_COUPONS_FAILED",
@@ -207,20 +264,7 @@ export class PopupEventService {
     if (campaignIds.length === 0) return new Map();
 
     try {
-      const where = PopupEventService.buildWhere(campaignIds, "CLICK", options);
-
-      const rows = await prisma.popupEvent.groupBy({
-        by: ["campaignId"],
-        where,
-        _count: { id: true },
-      });
-
-      const result = new Map<string, number>();
-      rows.forEach((row) => {
-        result.set(row.campaignId, row._count.id);
-      });
-
-      return result;
+      return await PopupEventService.countByCampaign(campaignIds, "CLICK", "clicks", options);
     } catch (error) {
       throw new ServiceError("POPUP_EVENT_CLICKS_FAILED", "Failed to fetch click counts", error);
     }
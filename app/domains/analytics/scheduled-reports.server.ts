@@ -0,0 +1,261 @@
+/**
+ * Scheduled Report Service
+ *
+ * Emails each store's analytics digest (impressions, leads, conversions,
+ * revenue and top campaigns, with a CSV attachment) after every completed
+ * week or month in the store's timezone:
+ * - POST /api/internal/analytics/reports (Cloud Scheduler / cron, e.g. hourly)
+ *   sends every report that is due; Store.reportSentThrough keeps runs idempotent
+ * - Settings → "Send test report" sends the last period right away
+ *
+ * Delivery goes through the configured mail transport (SMTP or .eml files).
+ */
+
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import { ServiceError } from "~/lib/errors.server";
+import { getStoreCurrency } from "~/lib/currency.server";
+import { getMailFrom, getMailTransport, type MailTransport } from "~/lib/mail-transport.server";
+import { unauthenticated } from "~/shopify.server";
+import { CampaignAnalyticsService } from "~/domains/campaigns/services/campaign-analytics.server";
+import { isValidTimezone } from "~/domains/campaigns/utils/schedule-helpers";
+import {
+  ScheduledReportSettingsSchema,
+  StoreSettingsSchema,
+  type ReportCadence,
+  type ScheduledReportSettings,
+} from "~/domains/store/types/settings";
+import { getLocalDateKey, getLocalMidnight, shiftDateKey } from "./analytics-rollup.server";
+import {
+  REPORT_TOP_CAMPAIGNS,
+  buildReportCsv,
+  buildReportHtml,
+  buildReportText,
+  getLastCompletedPeriod,
+  getPreviousPeriod,
+  getReportFilename,
+  getReportSubject,
+  type AnalyticsReport,
+  type ReportPeriod,
+} from "./scheduled-reports";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StoreReportResult {
+  storeId: string;
+  period: ReportPeriod;
+  recipients: number;
+  error?: boolean;
+}
+
+export interface ReportRunSummary {
+  sent: number;
+  errors: number;
+  results: StoreReportResult[];
+}
+
+interface ReportStore {
+  id: string;
+  shopifyDomain: string;
+  timezone: string;
+}
+
+// ============================================================================
+// SCHEDULED REPORT SERVICE
+// ============================================================================
+
+export class ScheduledReportService {
+  /**
+   * Store report settings with defaults applied
+   */
+  static getSettings(storeSettings: unknown): ScheduledReportSettings {
+    const parsed = StoreSettingsSchema.safeParse(storeSettings ?? {});
+    return ScheduledReportSettingsSchema.parse(
+      (parsed.success ? parsed.data.reports : undefined) ?? {}
+    );
+  }
+
+  /**
+   * Send every report whose period completed since the store's last one
+   */
+  static async sendDueReports(now: Date = new Date()): Promise<ReportRunSummary> {
+    const transport = getMailTransport();
+    if (!transport) {
+      logger.warn("[ScheduledReports] No mail transport configured, skipping run");
+      return { sent: 0, errors: 0, results: [] };
+    }
+
+    const stores = await prisma.store.findMany({
+      where: { isActive: true },
+      select: {
+        id: true,
+        shopifyDomain: true,
+        timezone: true,
+        settings: true,
+        reportSentThrough: true,
+      },
+    });
+
+    const results: StoreReportResult[] = [];
+    for (const store of stores) {
+      const settings = this.getSettings(store.settings);
+      if (!settings.enabled || settings.recipients.length === 0) continue;
+
+      const timezone = isValidTimezone(store.timezone) ? store.timezone : "UTC";
+      const period = getLastCompletedPeriod(settings.cadence, getLocalDateKey(now, timezone));
+      // DATE columns come back as UTC midnight of the day
+      const sentThrough = store.reportSentThrough?.toISOString().split("T")[0];
+      if (sentThrough && sentThrough >= period.to) continue;
+
+      try {
+        await this.deliver(transport, { ...store, timezone }, settings, period);
+        await prisma.store.update({
+          where: { id: store.id },
+          data: { reportSentThrough: new Date(`${period.to}T00:00:00.000Z`) },
+        });
+        results.push({ storeId: store.id, period, recipients: settings.recipients.length });
+      } catch (error) {
+        logger.error({ error, storeId: store.id }, "[ScheduledReports] Store report failed");
+        results.push({
+          storeId: store.id,
+          period,
+          recipients: settings.recipients.length,
+          error: true,
+        });
+      }
+    }
+
+    const summary: ReportRunSummary = {
+      sent: results.filter((r) => !r.error).length,
+      errors: results.filter((r) => r.error).length,
+      results,
+    };
+
+    logger.info(
+      { sent: summary.sent, errors: summary.errors },
+      "[ScheduledReports] Report run complete"
+    );
+
+    return summary;
+  }
+
+  /**
+   * Send the last completed period to the store's recipients now, without
+   * affecting the schedule
+   */
+  static async sendTestReport(storeId: string, now: Date = new Date()): Promise<StoreReportResult> {
+    const transport = getMailTransport();
+    if (!transport) {
+      throw new ServiceError("MAIL_NOT_CONFIGURED", "No mail transport is configured");
+    }
+
+    const store = await prisma.store.findUnique({
+      where: { id: storeId },
+      select: { id: true, shopifyDomain: true, timezone: true, settings: true },
+    });
+    if (!store) {
+      throw new ServiceError("STORE_NOT_FOUND", `Store ${storeId} not found`);
+    }
+
+    const settings = this.getSettings(store.settings);
+    if (settings.recipients.length === 0) {
+      throw new ServiceError("NO_REPORT_RECIPIENTS", "Add at least one report recipient first");
+    }
+
+    const timezone = isValidTimezone(store.timezone) ? store.timezone : "UTC";
+    const period = getLastCompletedPeriod(settings.cadence, getLocalDateKey(now, timezone));
+
+    try {
+      await this.deliver(transport, { ...store, timezone }, settings, period);
+    } catch (error) {
+      throw new ServiceError("REPORT_SEND_FAILED", "Failed to send the report", error);
+    }
+
+    return { storeId, period, recipients: settings.recipients.length };
+  }
+
+  /**
+   * Gather a store's figures for a period and the one before it
+   */
+  static async buildReport(
+    store: ReportStore,
+    cadence: ReportCadence,
+    period: ReportPeriod
+  ): Promise<AnalyticsReport> {
+    const previousPeriod = getPreviousPeriod(cadence, period);
+    // Last instant of the period's final local day
+    const toRange = (range: ReportPeriod) => ({
+      from: getLocalMidnight(range.from, store.timezone),
+      to: new Date(getLocalMidnight(shiftDateKey(range.to, 1), store.timezone).getTime() - 1),
+    });
+
+    const [metrics, rankings, currency] = await Promise.all([
+      CampaignAnalyticsService.getGlobalMetricsWithComparison(
+        store.id,
+        toRange(period),
+        toRange(previousPeriod)
+      ),
+      CampaignAnalyticsService.getCampaignRankings(
+        store.id,
+        toRange(period),
+        "revenue",
+        REPORT_TOP_CAMPAIGNS
+      ),
+      this.getCurrency(store.shopifyDomain),
+    ]);
+
+    return {
+      shopDomain: store.shopifyDomain,
+      cadence,
+      period,
+      previousPeriod,
+      currency,
+      metrics,
+      topCampaigns: rankings.filter((campaign) => campaign.impressions > 0 || campaign.orders > 0),
+    };
+  }
+
+  private static async deliver(
+    transport: MailTransport,
+    store: ReportStore,
+    settings: ScheduledReportSettings,
+    period: ReportPeriod
+  ): Promise<void> {
+    const report = await this.buildReport(store, settings.cadence, period);
+
+    const location = await transport.send({
+      from: getMailFrom(),
+      to: settings.recipients,
+      subject: getReportSubject(report),
+      text: buildReportText(report),
+      html: buildReportHtml(report),
+      attachments: [
+        {
+          filename: getReportFilename(report),
+          contentType: "text/csv",
+          content: buildReportCsv(report),
+        },
+      ],
+    });
+
+    logger.info(
+      { storeId: store.id, period, recipients: settings.recipients.length, location },
+      "[ScheduledReports] Report sent"
+    );
+  }
+
+  /**
+   * Shop currency through the offline session (USD when unavailable)
+   */
+  private static async getCurrency(shopDomain: string): Promise<string> {
+    try {
+      const { admin } = await unauthenticated.admin(shopDomain);
+      return await getStoreCurrency(admin);
+    } catch (error) {
+      logger.warn({ error, shopDomain }, "[ScheduledReports] Falling back to USD");
+      return "USD";
+    }
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * Scheduled Report Helpers
+ *
+ * Pure helpers for the weekly / monthly analytics digest:
+ * - report periods (completed Monday-Sunday weeks or calendar months, as local days)
+ * - CSV attachment and plain text / HTML email bodies
+ *
+ * No database or mail access here - ScheduledReportService gathers the data
+ * and sends it.
+ */
+
+import type {
+  CampaignRanking,
+  GlobalMetricsWithComparison,
+} from "~/domains/campaigns/services/campaign-analytics.server";
+import type { ReportCadence } from "~/domains/store/types/settings";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Inclusive range of local days (YYYY-MM-DD) in the store's timezone */
+export interface ReportPeriod {
+  from: string;
+  to: string;
+}
+
+export interface AnalyticsReport {
+  shopDomain: string;
+  cadence: ReportCadence;
+  period: ReportPeriod;
+  previousPeriod: ReportPeriod;
+  currency: string;
+  metrics: GlobalMetricsWithComparison;
+  topCampaigns: CampaignRanking[];
+}
+
+/** Campaigns listed in the digest, by revenue */
+export const REPORT_TOP_CAMPAIGNS = 5;
+
+// ============================================================================
+// PERIODS
+// ============================================================================
+
+function addDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+function firstOfMonth(dateKey: string): string {
+  return `${dateKey.slice(0, 7)}-01`;
+}
+
+/**
+ * Most recent period that ended before `today` (a local day, YYYY-MM-DD)
+ */
+export function getLastCompletedPeriod(cadence: ReportCadence, today: string): ReportPeriod {
+  if (cadence === "monthly") {
+    const to = addDays(firstOfMonth(today), -1);
+    return { from: firstOfMonth(to), to };
+  }
+
+  // getUTCDay: 0 = Sunday ... 6 = Saturday; weeks start on Monday
+  const weekday = new Date(`${today}T00:00:00.000Z`).getUTCDay();
+  const monday = addDays(today, -((weekday + 6) % 7));
+  return { from: addDays(monday, -7), to: addDays(monday, -1) };
+}
+
+/**
+ * Period right before another one of the same cadence (for comparisons)
+ */
+export function getPreviousPeriod(cadence: ReportCadence, period: ReportPeriod): ReportPeriod {
+  if (cadence === "monthly") {
+    const to = addDays(period.from, -1);
+    return { from: firstOfMonth(to), to };
+  }
+  return { from: addDays(period.from, -7), to: addDays(period.to, -7) };
+}
+
+/**
+ * e.g. "Oct 6 – Oct 12, 2025" or "September 2025"
+ */
+export function formatPeriodLabel(cadence: ReportCadence, period: ReportPeriod): string {
+  const format = (dateKey: string, options: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat("en-US", { timeZone: "UTC", ...options }).format(
+      new Date(`${dateKey}T00:00:00.000Z`)
+    );
+
+  if (cadence === "monthly") {
+    return format(period.from, { month: "long", year: "numeric" });
+  }
+  return `${format(period.from, { month: "short", day: "numeric" })} – ${format(period.to, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  })}`;
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+}
+
+function formatChange(change: number): string {
+  return `${change >= 0 ? "+" : ""}${change.toFixed(1)}%`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/** Quote a CSV cell when it contains separators, quotes or line breaks */
+export function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function summaryRows(report: AnalyticsReport): Array<[string, string, string, string]> {
+  const { current, previous, changes } = report.metrics;
+  const money = (amount: number) => formatMoney(amount, report.currency);
+
+  return [
+    [
+      "Impressions",
+      current.totalImpressions.toLocaleString("en-US"),
+      previous.totalImpressions.toLocaleString("en-US"),
+      formatChange(changes.impressions),
+    ],
+    [
+      "Leads",
+      current.totalLeads.toLocaleString("en-US"),
+      previous.totalLeads.toLocaleString("en-US"),
+      formatChange(changes.leads),
+    ],
+    [
+      "Conversion rate",
+      `${current.avgConversionRate.toFixed(2)}%`,
+      `${previous.avgConversionRate.toFixed(2)}%`,
+      formatChange(changes.conversionRate),
+    ],
+    [
+      "Orders",
+      current.totalOrders.toLocaleString("en-US"),
+      previous.totalOrders.toLocaleString("en-US"),
+      formatChange(changes.orders),
+    ],
+    [
+      "Revenue",
+      money(current.totalRevenue),
+      money(previous.totalRevenue),
+      formatChange(changes.revenue),
+    ],
+    [
+      "Average order value",
+      money(current.avgOrderValue),
+      money(previous.avgOrderValue),
+      formatChange(changes.aov),
+    ],
+  ];
+}
+
+export function getReportSubject(report: AnalyticsReport): string {
+  const cadence = report.cadence === "monthly" ? "Monthly" : "Weekly";
+  return `${cadence} Revenue Boost report for ${report.shopDomain}: ${formatPeriodLabel(
+    report.cadence,
+    report.period
+  )}`;
+}
+
+export function getReportFilename(report: AnalyticsReport): string {
+  return `revenue-boost-${report.cadence}-${report.period.from}-to-${report.period.to}.csv`;
+}
+
+/**
+ * CSV attachment: summary metrics (with the previous period) and top campaigns
+ */
+export function buildReportCsv(report: AnalyticsReport): string {
+  const rows: Array<Array<string | number>> = [
+    ["Metric", "Current period", "Previous period", "Change"],
+    ["Period", `${report.period.from} to ${report.period.to}`, "", ""],
+    ...summaryRows(report),
+    [],
+    [
+      "Campaign",
+      "Template",
+      "Status",
+      "Impressions",
+      "Leads",
+      "Conversion rate",
+      "Orders",
+      "Revenue",
+    ],
+    ...report.topCampaigns.map((campaign) => [
+      campaign.name,
+      campaign.templateType,
+      campaign.status,
+      campaign.impressions,
+      campaign.leads,
+      `${campaign.conversionRate.toFixed(2)}%`,
+      campaign.orders,
+      campaign.revenue.toFixed(2),
+    ]),
+  ];
+
+  return `${rows.map((row) => row.map(csvCell).join(",")).join("\r\n")}\r\n`;
+}
+
+export function buildReportText(report: AnalyticsReport): string {
+  const lines = [
+    getReportSubject(report),
+    "",
+    ...summaryRows(report).map(
+      ([label, current, previous, change]) =>
+        `${label}: ${current} (previous: ${previous}, ${change})`
+    ),
+    "",
+    "Top campaigns by revenue:",
+  ];
+
+  if (report.topCampaigns.length === 0) {
+    lines.push("No campaign activity in this period.");
+  } else {
+    report.topCampaigns.forEach((campaign, index) => {
+      lines.push(
+        `${index + 1}. ${campaign.name}: ${formatMoney(campaign.revenue, report.currency)} revenue, ${campaign.leads.toLocaleString("en-US")} leads, ${campaign.impressions.toLocaleString("en-US")} impressions`
+      );
+    });
+  }
+
+  lines.push("", "The attached CSV has the full figures.");
+  return lines.join("\n");
+}
+
+export function buildReportHtml(report: AnalyticsReport): string {
+  const cell = "padding:6px 12px;border-bottom:1px solid #e3e3e3;text-align:left";
+  const summary = summaryRows(report)
+    .map(
+      (row) =>
+        `<tr>${row.map((value) => `<td style="${cell}">${escapeHtml(value)}</td>`).join("")}</tr>`
+    )
+    .join("");
+  const campaigns =
+    report.topCampaigns.length === 0
+      ? `<p>No campaign activity in this period.</p>`
+      : `<table style="border-collapse:collapse"><tr><th style="${cell}">Campaign</th><th style="${cell}">Impressions</th><th style="${cell}">Leads</th><th style="${cell}">Orders</th><th style="${cell}">Revenue</th></tr>${report.topCampaigns
+          .map(
+            (campaign) =>
+              `<tr><td style="${cell}">${escapeHtml(campaign.name)}</td><td style="${cell}">${campaign.impressions.toLocaleString("en-US")}</td><td style="${cell}">${campaign.leads.toLocaleString("en-US")}</td><td style="${cell}">${campaign.orders.toLocaleString("en-US")}</td><td style="${cell}">${escapeHtml(formatMoney(campaign.revenue, report.currency))}</td></tr>`
+          )
+          .join("")}</table>`;
+
+  return [
+    `<div style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;color:#303030">`,
+    `<h2>${escapeHtml(getReportSubject(report))}</h2>`,
+    `<table style="border-collapse:collapse"><tr><th style="${cell}">Metric</th><th style="${cell}">This period</th><th style="${cell}">Previous period</th><th style="${cell}">Change</th></tr>${summary}</table>`,
+    `<h3>Top campaigns by revenue</h3>`,
+    campaigns,
+    `<p style="color:#616161">The attached CSV has the full figures.</p>`,
+    `</div>`,
+  ].join("\n");
+}
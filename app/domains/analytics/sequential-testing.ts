@@ -0,0 +1,176 @@
+/**
+ * Sequential Testing
+ *
+ * Statistics that stay valid when an experiment is checked repeatedly:
+ * - Always-valid p-values (mixture SPRT on the difference of two proportions)
+ * - O'Brien-Fleming style alpha-spending boundaries
+ * - Planned sample size from the minimum detectable effect
+ *
+ * Pure functions only - the experiment evaluator feeds in aggregated counts.
+ */
+
+import type { SequentialTestingMethod } from "~/domains/campaigns/types/experiment";
+import { criticalZ, normalCdf, normalQuantile } from "./experiment-statistics";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ProportionCounts {
+  successes: number;
+  trials: number;
+}
+
+export interface SequentialTestOptions {
+  method: SequentialTestingMethod;
+  /** Significance level for this comparison (already corrected for multiple comparisons) */
+  alpha: number;
+  /** Relative minimum detectable effect (0.05 = 5% lift) */
+  minimumDetectableEffect: number;
+  /** Planned visitors per variant, used as the information horizon for alpha spending */
+  plannedSampleSize: number;
+}
+
+export interface SequentialTestResult {
+  /** True when the stopping boundary has been crossed */
+  boundaryCrossed: boolean;
+  /** Always-valid p-value (always_valid) or nominal p-value (alpha_spending) */
+  pValue: number;
+  /** Fraction of the planned sample observed so far (0-1) */
+  informationFraction: number;
+  /** Critical |z| for the current look (alpha_spending only) */
+  criticalValue: number | null;
+}
+
+// ============================================================================
+// SAMPLE SIZE
+// ============================================================================
+
+/**
+ * Visitors needed per variant to detect a relative lift on a baseline rate
+ * with a two-sided test at the given alpha and power.
+ */
+export function plannedSampleSizePerVariant(
+  baselineRate: number,
+  minimumDetectableEffect: number,
+  alpha: number,
+  power: number
+): number {
+  const p1 = Math.min(Math.max(baselineRate, 0.001), 0.999);
+  const p2 = Math.min(p1 * (1 + minimumDetectableEffect), 0.999);
+  const delta = Math.abs(p2 - p1);
+  if (delta === 0) return Infinity;
+
+  const zAlpha = criticalZ(1 - alpha);
+  const zBeta = normalQuantile(power);
+  const variance = p1 * (1 - p1) + p2 * (1 - p2);
+
+  return Math.ceil(((zAlpha + zBeta) ** 2 * variance) / (delta * delta));
+}
+
+// ============================================================================
+// ALWAYS-VALID P-VALUES
+// ============================================================================
+
+/**
+ * Always-valid p-value for the difference of two proportions using a normal
+ * mixture SPRT (Johari et al.). The mixing variance is centred on the minimum
+ * detectable effect so the test is most powerful around the lift we care about.
+ *
+ * Stateless: returns 1/Λ for the current data, which is never smaller than the
+ * running minimum, so it is conservative when evaluated on every run.
+ */
+export function alwaysValidPValue(
+  control: ProportionCounts,
+  variant: ProportionCounts,
+  minimumDetectableEffect: number
+): number {
+  if (control.trials <= 0 || variant.trials <= 0) return 1;
+
+  const pA = control.successes / control.trials;
+  const pB = variant.successes / variant.trials;
+  const variance = (pA * (1 - pA)) / control.trials + (pB * (1 - pB)) / variant.trials;
+  if (variance <= 0) return 1;
+
+  const pooled = (control.successes + variant.successes) / (control.trials + variant.trials);
+  const tau = Math.max(minimumDetectableEffect * Math.max(pooled, 0.001), 1e-6);
+  const tau2 = tau * tau;
+  const theta = pB - pA;
+
+  const logLikelihoodRatio =
+    0.5 * Math.log(variance / (variance + tau2)) +
+    (tau2 * theta * theta) / (2 * variance * (variance + tau2));
+
+  return Math.min(1, Math.exp(-logLikelihoodRatio));
+}
+
+// ============================================================================
+// ALPHA SPENDING
+// ============================================================================
+
+/**
+ * O'Brien-Fleming (Lan-DeMets) spending function: alpha spent by information fraction t
+ */
+export function obrienFlemingAlphaSpent(alpha: number, informationFraction: number): number {
+  const t = Math.min(Math.max(informationFraction, 0), 1);
+  if (t === 0) return 0;
+  const z = criticalZ(1 - alpha);
+  return 2 * (1 - normalCdf(z / Math.sqrt(t)));
+}
+
+/**
+ * O'Brien-Fleming boundary: |z| must exceed z(alpha/2) / sqrt(t) to stop early
+ */
+export function obrienFlemingBoundary(alpha: number, informationFraction: number): number {
+  const t = Math.min(Math.max(informationFraction, 0), 1);
+  if (t === 0) return Infinity;
+  return criticalZ(1 - alpha) / Math.sqrt(t);
+}
+
+function proportionZ(control: ProportionCounts, variant: ProportionCounts): number {
+  if (control.trials <= 0 || variant.trials <= 0) return 0;
+  const pooled = (control.successes + variant.successes) / (control.trials + variant.trials);
+  const standardError = Math.sqrt(
+    pooled * (1 - pooled) * (1 / control.trials + 1 / variant.trials)
+  );
+  if (standardError === 0) return 0;
+  return (variant.successes / variant.trials - control.successes / control.trials) / standardError;
+}
+
+// ============================================================================
+// SEQUENTIAL TEST
+// ============================================================================
+
+/**
+ * Evaluate one variant against the control at the current look
+ */
+export function runSequentialTest(
+  control: ProportionCounts,
+  variant: ProportionCounts,
+  options: SequentialTestOptions
+): SequentialTestResult {
+  const observed = Math.min(control.trials, variant.trials);
+  const informationFraction =
+    options.plannedSampleSize > 0 && Number.isFinite(options.plannedSampleSize)
+      ? Math.min(1, observed / options.plannedSampleSize)
+      : 0;
+
+  if (options.method === "alpha_spending") {
+    const z = proportionZ(control, variant);
+    const criticalValue = obrienFlemingBoundary(options.alpha, informationFraction);
+    return {
+      boundaryCrossed: Math.abs(z) >= criticalValue,
+      pValue: 2 * (1 - normalCdf(Math.abs(z))),
+      informationFraction,
+      criticalValue,
+    };
+  }
+
+  const pValue = alwaysValidPValue(control, variant, options.minimumDetectableEffect);
+  return {
+    boundaryCrossed: pValue < options.alpha,
+    pValue,
+    informationFraction,
+    criticalValue: null,
+  };
+}
@@ -47,6 +47,7 @@ export const PlanDefinitionSchema = z.object({
   name: z.string(),
   price: z.number(),
   monthlyImpressionCap: z.number().nullable(),
+  rawEventRetentionDays: z.number().nullable(), // Raw popup events kept this long, null means forever
   overageStrategy: OverageStrategySchema,
   limits: PlanLimitsSchema,
   features: PlanFeaturesSchema,
@@ -59,6 +60,7 @@ export const PLAN_DEFINITIONS: Record<PlanTier, PlanDefinition> = {
     name: "Free",
     price: 0,
     monthlyImpressionCap: 3000,
+    rawEventRetentionDays: 45,
     overageStrategy: "HARD_BLOCK",
     isEnabled: true, // Enabled to help acquire reviews
     limits: {
@@ -87,6 +89,7 @@ export const PLAN_DEFINITIONS: Record<PlanTier, PlanDefinition> = {
     name: "Starter",
     price: 9,
     monthlyImpressionCap: 10000,
+    rawEventRetentionDays: 90,
     overageStrategy: "SOFT_BLOCK",
     isEnabled: true,
     limits: {
@@ -115,6 +118,7 @@ export const PLAN_DEFINITIONS: Record<PlanTier, PlanDefinition> = {
     name: "Growth",
     price: 29,
     monthlyImpressionCap: 50000,
+    rawEventRetentionDays: 180,
     overageStrategy: "SOFT_BLOCK",
     isEnabled: true,
     limits: {
@@ -143,6 +147,7 @@ export const PLAN_DEFINITIONS: Record<PlanTier, PlanDefinition> = {
     name: "Pro",
     price: 79,
     monthlyImpressionCap: 200000,
+    rawEventRetentionDays: 365,
     overageStrategy: "NOTIFY_ONLY",
     isEnabled: true,
     limits: {
@@ -171,6 +176,7 @@ export const PLAN_DEFINITIONS: Record<PlanTier, PlanDefinition> = {
     name: "Enterprise",
     price: 149,
     monthlyImpressionCap: 500000,
+    rawEventRetentionDays: null,
     overageStrategy: "NOTIFY_ONLY",
     isEnabled: false, // Disabled for launch
     limits: {
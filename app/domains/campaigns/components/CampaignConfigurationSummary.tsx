@@ -32,6 +32,7 @@ import {
 } from "@shopify/polaris-icons";
 
 import type { CampaignWithConfigs } from "~/domains/campaigns/types/campaign";
+import { formatDaypartingWindow } from "~/domains/campaigns/utils/schedule-helpers";
 
 // ============================================================================
 // TYPES
@@ -217,6 +218,86 @@ function buildAudienceSection(campaign: CampaignWithConfigs): ConfigSection {
     }
   }
 
+  // Visitor status
+  if (triggers?.visitor_status?.enabled) {
+    const { status, min_visits, max_visits } = triggers.visitor_status;
+    const parts: string[] = [];
+    if (status === "first_time") parts.push("First-time visitors");
+    if (status === "returning") parts.push("Returning visitors");
+    if (min_visits !== undefined && max_visits !== undefined) {
+      parts.push(`${min_visits}–${max_visits} visits`);
+    } else if (min_visits !== undefined) {
+      parts.push(`${min_visits}+ visits`);
+    } else if (max_visits !== undefined) {
+      parts.push(`Up to ${max_visits} visits`);
+    }
+    if (parts.length > 0) {
+      items.push({ label: "Visitor Status", value: parts.join(", ") });
+    }
+  }
+
+  // Traffic source
+  if (triggers?.traffic_source?.enabled) {
+    const { source_types, utm_sources, utm_mediums, utm_campaigns, referrer_domains } =
+      triggers.traffic_source;
+    const parts = [
+      source_types?.length ? source_types.join(", ") : null,
+      utm_sources?.length ? `source: ${utm_sources.join(", ")}` : null,
+      utm_mediums?.length ? `medium: ${utm_mediums.join(", ")}` : null,
+      utm_campaigns?.length ? `campaign: ${utm_campaigns.join(", ")}` : null,
+      referrer_domains?.length ? `referrer: ${referrer_domains.join(", ")}` : null,
+    ].filter(Boolean);
+    if (parts.length > 0) {
+      items.push({ label: "Traffic Source", value: parts.join(" · ") });
+    }
+  }
+
+  // Purchase history
+  if (triggers?.purchase_history?.enabled) {
+    const history = triggers.purchase_history;
+    const orders = formatRange(history.min_orders, history.max_orders);
+    const spent = formatRange(history.min_total_spent, history.max_total_spent);
+    const recency = formatRange(
+      history.min_days_since_last_order,
+      history.max_days_since_last_order,
+      " days"
+    );
+    const parts = [
+      history.has_purchased === true ? "Has purchased" : null,
+      history.has_purchased === false ? "Never purchased" : null,
+      orders ? `${orders} orders` : null,
+      spent ? `${spent} spent` : null,
+      recency ? `last order ${recency} ago` : null,
+    ].filter(Boolean);
+    if (parts.length > 0) {
+      items.push({ label: "Purchase History", value: parts.join(" · ") });
+    }
+  }
+
+  // Cart contents
+  if (triggers?.cart_contents?.enabled) {
+    const cart = triggers.cart_contents;
+    const subtotal = formatRange(cart.min_subtotal, cart.max_subtotal);
+    const itemCount = formatRange(cart.min_items, cart.max_items);
+    const products = [
+      cart.product_ids?.length ? `${cart.product_ids.length} product(s)` : null,
+      cart.collection_ids?.length ? `${cart.collection_ids.length} collection(s)` : null,
+      cart.product_tags?.length ? `tags: ${cart.product_tags.join(", ")}` : null,
+    ].filter(Boolean);
+    const parts = [
+      subtotal ? `${subtotal} subtotal` : null,
+      itemCount ? `${itemCount} items` : null,
+      products.length > 0
+        ? `${cart.product_match === "none" ? "excludes" : "contains"} ${products.join(", ")}`
+        : null,
+      cart.discount_applied === true ? "Discount applied" : null,
+      cart.discount_applied === false ? "No discount" : null,
+    ].filter(Boolean);
+    if (parts.length > 0) {
+      items.push({ label: "Cart Contents", value: parts.join(" · ") });
+    }
+  }
+
   // Shopify segments
   if (audience?.enabled && audience.shopifySegmentIds?.length > 0) {
     items.push({
@@ -232,6 +313,13 @@ function buildAudienceSection(campaign: CampaignWithConfigs): ConfigSection {
   return { title: "Audience", icon: PersonIcon, items };
 }
 
+function formatRange(min?: number, max?: number, unit = ""): string | null {
+  if (min !== undefined && max !== undefined) return `${min}–${max}${unit}`;
+  if (min !== undefined) return `${min}+${unit}`;
+  if (max !== undefined) return `up to ${max}${unit}`;
+  return null;
+}
+
 function buildPageTargetingSection(campaign: CampaignWithConfigs): ConfigSection {
   const pageTargeting = campaign.targetRules?.pageTargeting;
   const items: ConfigItem[] = [];
@@ -328,6 +416,24 @@ function buildScheduleSection(campaign: CampaignWithConfigs): ConfigSection {
     }
   }
 
+  const dayparting = campaign.targetRules?.dayparting;
+  if (dayparting?.enabled && dayparting.windows.length > 0) {
+    items.push({
+      label: "Dayparting",
+      value: (
+        <BlockStack gap="050">
+          {dayparting.windows.map((window, index) => (
+            <span key={index}>{formatDaypartingWindow(window)}</span>
+          ))}
+        </BlockStack>
+      ),
+    });
+    items.push({
+      label: "Dayparting Timezone",
+      value: dayparting.timezoneMode === "visitor" ? "Visitor's local time" : "Store timezone",
+    });
+  }
+
   return { title: "Schedule", icon: CalendarIcon, items };
 }
 
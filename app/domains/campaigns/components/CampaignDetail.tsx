@@ -548,9 +548,9 @@ export function CampaignDetail({
                 ["Total Views", metrics.views.toLocaleString(), "N/A"],
                 ["Total Conversions", metrics.conversions.toString(), "N/A"],
                 ["Conversion Rate", `${metrics.conversionRate.toFixed(2)}%`, "N/A"],
-                ["Total Revenue (gross)", formatCurrency(metrics.revenue), "N/A"],
+                ["Total Revenue (net of refunds)", formatCurrency(metrics.revenue), "N/A"],
                 ["Total Discount Given", formatCurrency(metrics.discountGiven), "N/A"],
-                ["Average Order Value (gross)", formatCurrency(metrics.aov), "N/A"],
+                ["Average Order Value (net)", formatCurrency(metrics.aov), "N/A"],
                 ["Click-through Rate", `${metrics.clickRate.toFixed(2)}%`, "N/A"],
                 ["Total Clicks", metrics.clicks.toString(), "N/A"],
               ]}
@@ -10,9 +10,11 @@
 
 import { Card, Text, BlockStack } from "@shopify/polaris";
 import { type CampaignStatus } from "../utils/schedule-helpers";
+import type { DaypartingConfig } from "../types/campaign";
 import { StatusSection } from "./schedule/StatusSection";
 import { PrioritySection } from "./schedule/PrioritySection";
 import { ScheduleDateSection } from "./schedule/ScheduleDateSection";
+import { DaypartingSection } from "./schedule/DaypartingSection";
 import { TagManager } from "./TagManager";
 
 interface ScheduleSettingsConfig {
@@ -20,6 +22,7 @@ interface ScheduleSettingsConfig {
   priority?: number;
   startDate?: string;
   endDate?: string;
+  dayparting?: DaypartingConfig;
   tags?: string[];
 }
 
@@ -76,6 +79,12 @@ export function ScheduleSettingsStep({ config, onConfigChange }: ScheduleSetting
         onEndDateChange={(endDate) => updateSettings({ endDate })}
       />
 
+      {/* Dayparting Settings */}
+      <DaypartingSection
+        dayparting={settings.dayparting}
+        onChange={(dayparting) => updateSettings({ dayparting })}
+      />
+
       {/* Tags Settings */}
       <Card>
         <BlockStack gap="400">
@@ -0,0 +1,223 @@
+/**
+ * DaypartingSection - Recurring day-of-week / time-of-day windows
+ *
+ * SOLID Compliance:
+ * - Single Responsibility: Only handles dayparting window configuration
+ * - Feature gated behind scheduledCampaigns plan feature
+ */
+
+import {
+  Card,
+  BlockStack,
+  Text,
+  Checkbox,
+  Select,
+  TextField,
+  Button,
+  ButtonGroup,
+  InlineStack,
+  Box,
+  Banner,
+} from "@shopify/polaris";
+import { DeleteIcon, PlusIcon } from "@shopify/polaris-icons";
+import type { DaypartingConfig, DaypartingWindow } from "../../types/campaign";
+import { DAY_LABELS, formatDaypartingWindow } from "../../utils/schedule-helpers";
+import { UpgradeBanner, useFeatureAccess } from "~/domains/billing/components/UpgradeBanner";
+
+interface DaypartingSectionProps {
+  dayparting?: DaypartingConfig;
+  timezone?: string; // Store IANA timezone (e.g., "America/New_York")
+  onChange: (dayparting: DaypartingConfig) => void;
+}
+
+const DEFAULT_WINDOW: DaypartingWindow = {
+  days: [1, 2, 3, 4, 5],
+  startTime: "09:00",
+  endTime: "17:00",
+};
+
+const PRESETS: Array<{ label: string; window: DaypartingWindow }> = [
+  { label: "Weekends", window: { days: [0, 6], startTime: "00:00", endTime: "00:00" } },
+  { label: "Business hours", window: DEFAULT_WINDOW },
+  {
+    label: "Happy hour (5–7pm)",
+    window: { days: [0, 1, 2, 3, 4, 5, 6], startTime: "17:00", endTime: "19:00" },
+  },
+];
+
+const TIMEZONE_OPTIONS = [
+  { label: "Store timezone", value: "store" },
+  { label: "Visitor's local timezone", value: "visitor" },
+];
+
+export function DaypartingSection({ dayparting, timezone, onChange }: DaypartingSectionProps) {
+  const { hasAccess } = useFeatureAccess("scheduledCampaigns");
+
+  const config: DaypartingConfig = {
+    enabled: dayparting?.enabled ?? false,
+    timezoneMode: dayparting?.timezoneMode ?? "store",
+    windows: dayparting?.windows ?? [],
+  };
+
+  const updateConfig = (updates: Partial<DaypartingConfig>) => {
+    onChange({ ...config, ...updates });
+  };
+
+  const updateWindow = (index: number, updates: Partial<DaypartingWindow>) => {
+    updateConfig({
+      windows: config.windows.map((w, i) => (i === index ? { ...w, ...updates } : w)),
+    });
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = config.windows[index].days;
+    const next = days.includes(day) ? days.filter((d) => d !== day) : [...days, day];
+    updateWindow(index, { days: next.sort((a, b) => a - b) });
+  };
+
+  const handleEnabledChange = (enabled: boolean) => {
+    updateConfig({
+      enabled,
+      windows: enabled && config.windows.length === 0 ? [DEFAULT_WINDOW] : config.windows,
+    });
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <Text as="h3" variant="headingMd">
+          Dayparting
+        </Text>
+        <Text as="p" variant="bodySm" tone="subdued">
+          Only show the campaign on certain days or at certain times, every week. Applies within the
+          start and end dates above.
+        </Text>
+
+        {!hasAccess && <UpgradeBanner feature="scheduledCampaigns" />}
+
+        {hasAccess && (
+          <BlockStack gap="400">
+            <Checkbox
+              label="Only run during specific days and times"
+              checked={config.enabled}
+              onChange={handleEnabledChange}
+            />
+
+            {config.enabled && (
+              <BlockStack gap="400">
+                <Select
+                  label="Evaluate times in"
+                  options={TIMEZONE_OPTIONS}
+                  value={config.timezoneMode}
+                  onChange={(value) =>
+                    updateConfig({ timezoneMode: value as DaypartingConfig["timezoneMode"] })
+                  }
+                  helpText={
+                    config.timezoneMode === "store"
+                      ? `Windows follow your shop's clock${timezone ? ` (${timezone})` : ""}.`
+                      : "Windows follow each visitor's clock. Falls back to your shop's timezone when unknown."
+                  }
+                />
+
+                <InlineStack gap="200">
+                  {PRESETS.map((preset) => (
+                    <Button
+                      key={preset.label}
+                      size="slim"
+                      onClick={() => updateConfig({ windows: [...config.windows, preset.window] })}
+                    >
+                      {`+ ${preset.label}`}
+                    </Button>
+                  ))}
+                </InlineStack>
+
+                {config.windows.map((window, index) => (
+                  <Box
+                    key={index}
+                    padding="300"
+                    borderWidth="025"
+                    borderColor="border"
+                    borderRadius="200"
+                  >
+                    <BlockStack gap="300">
+                      <InlineStack align="space-between" blockAlign="center">
+                        <Text as="span" variant="bodyMd" fontWeight="semibold">
+                          {formatDaypartingWindow(window)}
+                        </Text>
+                        <Button
+                          icon={DeleteIcon}
+                          variant="plain"
+                          tone="critical"
+                          accessibilityLabel="Remove window"
+                          onClick={() =>
+                            updateConfig({ windows: config.windows.filter((_, i) => i !== index) })
+                          }
+                        />
+                      </InlineStack>
+
+                      <ButtonGroup variant="segmented">
+                        {DAY_LABELS.map((label, day) => (
+                          <Button
+                            key={label}
+                            size="slim"
+                            pressed={window.days.includes(day)}
+                            onClick={() => toggleDay(index, day)}
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </ButtonGroup>
+
+                      <InlineStack gap="400">
+                        <Box minWidth="140px">
+                          <TextField
+                            label="From"
+                            type="time"
+                            value={window.startTime}
+                            onChange={(startTime) => updateWindow(index, { startTime })}
+                            autoComplete="off"
+                          />
+                        </Box>
+                        <Box minWidth="140px">
+                          <TextField
+                            label="Until"
+                            type="time"
+                            value={window.endTime}
+                            onChange={(endTime) => updateWindow(index, { endTime })}
+                            autoComplete="off"
+                            helpText="Earlier than From runs overnight"
+                          />
+                        </Box>
+                      </InlineStack>
+
+                      {window.days.length === 0 && (
+                        <Text as="p" variant="bodySm" tone="critical">
+                          Select at least one day
+                        </Text>
+                      )}
+                    </BlockStack>
+                  </Box>
+                ))}
+
+                <InlineStack>
+                  <Button
+                    icon={PlusIcon}
+                    onClick={() => updateConfig({ windows: [...config.windows, DEFAULT_WINDOW] })}
+                  >
+                    Add window
+                  </Button>
+                </InlineStack>
+
+                {config.windows.length === 0 && (
+                  <Banner tone="warning">
+                    <p>Add at least one window, otherwise the campaign runs at all times.</p>
+                  </Banner>
+                )}
+              </BlockStack>
+            )}
+          </BlockStack>
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
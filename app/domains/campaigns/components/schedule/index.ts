@@ -2,6 +2,7 @@
  * Schedule Components
  */
 
+export { DaypartingSection } from "./DaypartingSection";
 export { PrioritySection } from "./PrioritySection";
 export { ScheduleDateSection } from "./ScheduleDateSection";
 export { StatusSection } from "./StatusSection";
@@ -1,7 +1,8 @@
 /**
  * Lead Capture Form Section
  *
- * Admin form for configuring the LeadCaptureForm block (email, name, consent fields).
+ * Admin form for configuring the LeadCaptureForm block (email, name, consent fields)
+ * and the double opt-in confirmation of new subscribers.
  * Uses the shared LeadCaptureConfig interface as the single source of truth.
  *
  * This component maps 1:1 with the storefront LeadCaptureForm component.
@@ -31,6 +32,8 @@ export function LeadCaptureFormSection({
   consentFieldRequired,
   consentFieldText,
   privacyPolicyUrl,
+  doubleOptInEnabled = false,
+  revealDiscountAfterConfirmation,
   onChange,
   errors,
 }: LeadCaptureFormSectionProps) {
@@ -147,6 +150,24 @@ export function LeadCaptureFormSection({
           />
         </BlockStack>
       )}
+
+      <CheckboxField
+        label="Require Double Opt-In"
+        name="doubleOptInEnabled"
+        checked={doubleOptInEnabled}
+        helpText="Email subscribers a confirmation link; marketing consent is only recorded once they confirm (recommended for EU customers). Mention the email in your success message."
+        onChange={(checked) => updateField("doubleOptInEnabled", checked)}
+      />
+
+      {doubleOptInEnabled && (
+        <CheckboxField
+          label="Reveal Discount After Confirmation"
+          name="revealDiscountAfterConfirmation"
+          checked={revealDiscountAfterConfirmation || false}
+          helpText="Show the discount code on the confirmation page instead of in the popup"
+          onChange={(checked) => updateField("revealDiscountAfterConfirmation", checked)}
+        />
+      )}
     </BlockStack>
   );
 }
@@ -142,6 +142,8 @@ export function NewsletterContentSection({
                 consentFieldRequired={content.consentFieldRequired}
                 consentFieldText={content.consentFieldText}
                 privacyPolicyUrl={content.privacyPolicyUrl}
+                doubleOptInEnabled={content.doubleOptInEnabled}
+                revealDiscountAfterConfirmation={content.revealDiscountAfterConfirmation}
                 onChange={(updates) => onChange({ ...content, ...updates })}
                 errors={errors}
               />
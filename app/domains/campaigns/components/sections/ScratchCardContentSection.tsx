@@ -330,6 +330,8 @@ export function ScratchCardContentSection({
                   consentFieldRequired={content.consentFieldRequired}
                   consentFieldText={content.consentFieldText}
                   privacyPolicyUrl={content.privacyPolicyUrl}
+                  doubleOptInEnabled={content.doubleOptInEnabled}
+                  revealDiscountAfterConfirmation={content.revealDiscountAfterConfirmation}
                   onChange={(updates) => onChange({ ...content, ...updates })}
                   errors={errors}
                 />
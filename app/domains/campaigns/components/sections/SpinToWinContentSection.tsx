@@ -129,6 +129,8 @@ export function SpinToWinContentSection({
                 consentFieldRequired={content.consentFieldRequired}
                 consentFieldText={content.consentFieldText}
                 privacyPolicyUrl={content.privacyPolicyUrl}
+                doubleOptInEnabled={content.doubleOptInEnabled}
+                revealDiscountAfterConfirmation={content.revealDiscountAfterConfirmation}
                 onChange={(updates) => onChange({ ...content, ...updates })}
                 errors={errors}
               />
@@ -7,18 +7,21 @@
  */
 
 import { ScheduleSettingsStep } from "../ScheduleSettingsStep";
+import type { DaypartingConfig } from "../../types/campaign";
 
 interface ScheduleStepContentProps {
   status?: "DRAFT" | "ACTIVE" | "PAUSED" | "ARCHIVED";
   priority?: number;
   startDate?: string;
   endDate?: string;
+  dayparting?: DaypartingConfig;
   tags?: string[];
   onConfigChange: (config: {
     status?: "DRAFT" | "ACTIVE" | "PAUSED" | "ARCHIVED";
     priority?: number;
     startDate?: string;
     endDate?: string;
+    dayparting?: DaypartingConfig;
     tags?: string[];
   }) => void;
 }
@@ -28,6 +31,7 @@ export function ScheduleStepContent({
   priority,
   startDate,
   endDate,
+  dayparting,
   tags,
   onConfigChange,
 }: ScheduleStepContentProps) {
@@ -38,6 +42,7 @@ export function ScheduleStepContent({
         priority,
         startDate,
         endDate,
+        dayparting,
         tags,
       }}
       onConfigChange={onConfigChange}
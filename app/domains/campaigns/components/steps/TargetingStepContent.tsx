@@ -10,10 +10,12 @@ import { Card, BlockStack, Text } from "@shopify/polaris";
 import { AdvancedTriggersEditor } from "~/domains/targeting/components/AdvancedTriggersEditor";
 import { AudienceTargetingPanel } from "~/domains/targeting/components/AudienceTargetingPanel";
 import { GeoTargetingPanel } from "~/domains/targeting/components/GeoTargetingPanel";
+import { HoldoutPanel } from "~/domains/targeting/components/HoldoutPanel";
 import type { EnhancedTriggerConfig } from "~/domains/targeting/types/enhanced-triggers.types";
 import type {
   AudienceTargetingConfig,
   GeoTargetingConfig,
+  HoldoutConfig,
 } from "~/domains/campaigns/types/campaign";
 
 interface TargetingStepContentProps {
@@ -24,6 +26,9 @@ interface TargetingStepContentProps {
   onTriggersChange: (config: EnhancedTriggerConfig) => void;
   onAudienceChange: (config: AudienceTargetingConfig) => void;
   onGeoChange: (config: GeoTargetingConfig) => void;
+  holdout?: HoldoutConfig;
+  /** Renders the incrementality holdout card when provided */
+  onHoldoutChange?: (config: HoldoutConfig) => void;
   /** Whether advanced targeting (Shopify segments, session rules) is enabled for the current plan */
   advancedTargetingEnabled?: boolean;
 }
@@ -36,6 +41,8 @@ export function TargetingStepContent({
   onTriggersChange,
   onAudienceChange,
   onGeoChange,
+  holdout,
+  onHoldoutChange,
   advancedTargetingEnabled = false,
 }: TargetingStepContentProps) {
   return (
@@ -80,6 +87,20 @@ export function TargetingStepContent({
           <GeoTargetingPanel config={geoTargeting} onConfigChange={onGeoChange} />
         </BlockStack>
       </Card>
+
+      {onHoldoutChange && (
+        <Card>
+          <BlockStack gap="400">
+            <Text as="h3" variant="headingMd">
+              Measure Incrementality (Holdout)
+            </Text>
+            <Text as="p" variant="bodyMd" tone="subdued">
+              Compare orders of visitors who never see this campaign with visitors who do.
+            </Text>
+            <HoldoutPanel config={holdout} onConfigChange={onHoldoutChange} />
+          </BlockStack>
+        </Card>
+      )}
     </BlockStack>
   );
 }
@@ -25,6 +25,8 @@ import type {
   DesignConfig,
   AudienceTargetingConfig,
   GeoTargetingConfig,
+  DaypartingConfig,
+  HoldoutConfig,
   CampaignGoal,
   DiscountConfig,
 } from "../../types/campaign";
@@ -65,6 +67,7 @@ export interface TargetingConfig {
     productTags: string[];
     collections: string[];
   };
+  holdout?: HoldoutConfig;
 }
 
 // Schedule configuration structure
@@ -73,6 +76,7 @@ export interface ScheduleConfig {
   priority?: number;
   startDate?: string;
   endDate?: string;
+  dayparting?: DaypartingConfig;
   tags?: string[];
 }
 
@@ -738,6 +742,8 @@ function TargetingSectionWrapper({
         onTriggersChange={(triggers) => onChange({ ...targetingConfig, enhancedTriggers: triggers })}
         onAudienceChange={(audience) => onChange({ ...targetingConfig, audienceTargeting: audience })}
         onGeoChange={(geo) => onChange({ ...targetingConfig, geoTargeting: geo })}
+        holdout={targetingConfig.holdout}
+        onHoldoutChange={(holdout) => onChange({ ...targetingConfig, holdout })}
         advancedTargetingEnabled={advancedTargetingEnabled}
       />
       <Button variant="primary" onClick={onComplete}>
@@ -821,6 +827,7 @@ function ScheduleSectionWrapper({
         priority={scheduleConfig.priority || 50}
         startDate={scheduleConfig.startDate}
         endDate={scheduleConfig.endDate}
+        dayparting={scheduleConfig.dayparting}
         tags={scheduleConfig.tags || []}
         onConfigChange={onChange}
       />
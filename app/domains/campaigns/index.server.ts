@@ -27,8 +27,35 @@ export { buildStorefrontContext, validateStorefrontContext } from "./types/store
 export { CampaignService } from "./services/campaign.server.js";
 
 export { CampaignFilterService } from "./services/campaign-filter.server.js";
+export type { CampaignFilterOptions } from "./services/campaign-filter.server.js";
+
+export {
+  TargetingSimulatorService,
+  SimulationInputSchema,
+} from "./services/targeting-simulator.server.js";
+export type { SimulationInput, SimulationResult } from "./services/targeting-simulator.server.js";
+export { FilterTrace } from "./utils/filter-trace.js";
+export type { CampaignTrace, FilterStepName, FilterStepResult } from "./utils/filter-trace.js";
 
 export { ExperimentService } from "./services/experiment.server.js";
+export type {
+  SequentialAnalysis,
+  SequentialComparison,
+  SequentialDecision,
+} from "./services/experiment.server.js";
+
+export { ExperimentEvaluatorService } from "./services/experiment-evaluator.server.js";
+export type {
+  EvaluationRunSummary,
+  ExperimentEvaluationResult,
+} from "./services/experiment-evaluator.server.js";
+
+export { BanditAllocationService } from "./services/bandit-allocation.server.js";
+export type {
+  AllocationRecomputeResult,
+  AllocationRunSummary,
+  AllocationSnapshot,
+} from "./services/bandit-allocation.server.js";
 
 export { CampaignAnalyticsService } from "./services/campaign-analytics.server.js";
 export type {
@@ -0,0 +1,249 @@
+/**
+ * Bandit Allocation Service
+ *
+ * Recomputes multi-armed bandit traffic weights for RUNNING experiments that
+ * opted into a bandit mode, from PopupEvent impressions and the primary metric
+ * (including CampaignConversion orders for revenue metrics).
+ *
+ * - Weights are cached in Redis and read by CampaignFilterService on every request
+ * - Each recompute is stored as an allocation snapshot for the analytics history
+ * - Visitor assignments are sticky: once a visitor saw a variant they keep it
+ *
+ * Triggered by POST /api/internal/experiments/reallocate (Cloud Scheduler / cron).
+ */
+
+import type { Prisma } from "@prisma/client";
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import { redis, REDIS_PREFIXES, REDIS_TTL } from "~/lib/redis.server";
+import { getVariantPerformance } from "~/domains/analytics/experiment-analytics.server";
+import { getMetricSuccesses } from "~/domains/analytics/experiment-statistics";
+import {
+  computeBanditAllocation,
+  type AllocationWeights,
+  type BanditArm,
+} from "~/domains/analytics/bandit-allocation";
+import type { BanditAlgorithm, BanditConfig } from "../types/experiment.js";
+import { parseStatisticalConfig } from "../utils/json-helpers.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AllocationRecomputeResult {
+  experimentId: string;
+  storeId: string;
+  weights: AllocationWeights | null;
+  error?: boolean;
+}
+
+export interface AllocationRunSummary {
+  recomputed: number;
+  errors: number;
+  results: AllocationRecomputeResult[];
+}
+
+export interface AllocationSnapshot {
+  id: string;
+  algorithm: BanditAlgorithm;
+  weights: AllocationWeights;
+  impressions: Record<string, number>;
+  createdAt: Date;
+}
+
+/** Cached weights outlive a few missed runs, then fall back to the static split */
+const WEIGHTS_TTL = REDIS_TTL.DAY;
+
+// ============================================================================
+// BANDIT ALLOCATION SERVICE
+// ============================================================================
+
+export class BanditAllocationService {
+  /**
+   * Recompute weights for all running experiments in a bandit mode
+   */
+  static async recomputeRunningExperiments(): Promise<AllocationRunSummary> {
+    const experiments = await prisma.experiment.findMany({
+      where: { status: "RUNNING" },
+      select: { id: true, storeId: true, statisticalConfig: true },
+    });
+
+    const results: AllocationRecomputeResult[] = [];
+    for (const experiment of experiments) {
+      const bandit = parseStatisticalConfig(experiment.statisticalConfig).bandit;
+      if (!bandit) continue;
+      results.push(await this.recomputeExperiment(experiment.id, experiment.storeId, bandit));
+    }
+
+    const summary: AllocationRunSummary = {
+      recomputed: results.filter((r) => !r.error).length,
+      errors: results.filter((r) => r.error).length,
+      results,
+    };
+
+    logger.info(
+      { recomputed: summary.recomputed, errors: summary.errors },
+      "[BanditAllocation] Allocation run complete"
+    );
+
+    return summary;
+  }
+
+  /**
+   * Recompute, cache and snapshot the weights for a single experiment
+   */
+  static async recomputeExperiment(
+    experimentId: string,
+    storeId: string,
+    config: BanditConfig
+  ): Promise<AllocationRecomputeResult> {
+    try {
+      const performance = await getVariantPerformance(experimentId, storeId);
+      if (performance.variants.length === 0) {
+        return { experimentId, storeId, weights: null };
+      }
+
+      const arms: BanditArm[] = performance.variants.map((variant) => ({
+        variantKey: variant.variantKey,
+        successes: getMetricSuccesses(variant, performance.primaryMetric),
+        trials: variant.impressions,
+      }));
+      const weights = computeBanditAllocation(arms, config);
+      const impressions = Object.fromEntries(arms.map((arm) => [arm.variantKey, arm.trials]));
+
+      if (redis) {
+        await redis.setex(this.weightsKey(experimentId), WEIGHTS_TTL, JSON.stringify(weights));
+      }
+
+      await prisma.experimentAllocationSnapshot.create({
+        data: {
+          experimentId,
+          algorithm: config.algorithm,
+          weights: weights as Prisma.InputJsonValue,
+          impressions: impressions as Prisma.InputJsonValue,
+        },
+      });
+
+      logger.info(
+        { experimentId, algorithm: config.algorithm, weights },
+        "[BanditAllocation] Weights recomputed"
+      );
+
+      return { experimentId, storeId, weights };
+    } catch (error) {
+      logger.error({ error, experimentId }, "[BanditAllocation] Failed to recompute weights");
+      return { experimentId, storeId, weights: null, error: true };
+    }
+  }
+
+  /**
+   * Allocation history for the experiment analytics page (oldest first)
+   */
+  static async getAllocationHistory(
+    experimentId: string,
+    storeId: string,
+    limit: number = 100
+  ): Promise<AllocationSnapshot[]> {
+    const snapshots = await prisma.experimentAllocationSnapshot.findMany({
+      where: { experimentId, experiment: { storeId } },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+
+    return snapshots.reverse().map((snapshot) => ({
+      id: snapshot.id,
+      algorithm: snapshot.algorithm as BanditAlgorithm,
+      weights: snapshot.weights as AllocationWeights,
+      impressions: snapshot.impressions as Record<string, number>,
+      createdAt: snapshot.createdAt,
+    }));
+  }
+
+  // ==========================================================================
+  // STOREFRONT (read path)
+  // ==========================================================================
+
+  /**
+   * Which of these experiments run in a bandit mode. Only those read cached
+   * weights and keep visitor assignments in Redis; on errors every experiment
+   * falls back to the static split.
+   */
+  static async getBanditExperimentIds(experimentIds: string[]): Promise<Set<string>> {
+    if (experimentIds.length === 0) return new Set();
+
+    try {
+      const experiments = await prisma.experiment.findMany({
+        where: { id: { in: experimentIds } },
+        select: { id: true, statisticalConfig: true },
+      });
+      return new Set(
+        experiments
+          .filter((experiment) => parseStatisticalConfig(experiment.statisticalConfig).bandit)
+          .map((experiment) => experiment.id)
+      );
+    } catch (error) {
+      logger.warn({ error, experimentIds }, "[BanditAllocation] Failed to read allocation modes");
+      return new Set();
+    }
+  }
+
+  /**
+   * Cached bandit weights, or null when the experiment uses the static split
+   */
+  static async getCachedWeights(experimentId: string): Promise<AllocationWeights | null> {
+    if (!redis) return null;
+
+    try {
+      const cached = await redis.get(this.weightsKey(experimentId));
+      return cached ? (JSON.parse(cached) as AllocationWeights) : null;
+    } catch (error) {
+      logger.warn({ error, experimentId }, "[BanditAllocation] Failed to read cached weights");
+      return null;
+    }
+  }
+
+  /**
+   * Variant key a visitor was previously assigned to, if any
+   */
+  static async getAssignedVariant(experimentId: string, visitorId: string): Promise<string | null> {
+    if (!redis) return null;
+
+    try {
+      return await redis.get(this.assignmentKey(experimentId, visitorId));
+    } catch (error) {
+      logger.warn({ error, experimentId }, "[BanditAllocation] Failed to read assignment");
+      return null;
+    }
+  }
+
+  /**
+   * Remember a visitor's variant so later weight changes do not move them
+   */
+  static async recordAssignment(
+    experimentId: string,
+    visitorId: string,
+    variantKey: string
+  ): Promise<void> {
+    if (!redis) return;
+
+    try {
+      await redis.set(
+        this.assignmentKey(experimentId, visitorId),
+        variantKey,
+        "EX",
+        REDIS_TTL.VISITOR,
+        "NX"
+      );
+    } catch (error) {
+      logger.warn({ error, experimentId }, "[BanditAllocation] Failed to record assignment");
+    }
+  }
+
+  private static weightsKey(experimentId: string): string {
+    return `${REDIS_PREFIXES.BANDIT}:weights:${experimentId}`;
+  }
+
+  private static assignmentKey(experimentId: string, visitorId: string): string {
+    return `${REDIS_PREFIXES.BANDIT}:assignment:${experimentId}:${visitorId}`;
+  }
+}
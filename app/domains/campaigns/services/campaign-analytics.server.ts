@@ -3,12 +3,20 @@
  *
  * Optimized queries for campaign analytics and statistics
  * Eliminates N+1 queries by using aggregations and batch queries
+ *
+ * Impressions, clicks, leads and revenue are read from the daily rollup tables
+ * (AnalyticsRollupService) instead of scanning raw events.
  */
 
 import { logger } from "~/lib/logger.server";
 import prisma from "~/db.server";
 import { Prisma } from "@prisma/client";
-import { PopupEventService } from "~/domains/analytics/popup-events.server";
+import {
+  AnalyticsRollupService,
+  EMPTY_ROLLUP_TOTALS,
+} from "~/domains/analytics/analytics-rollup.server";
+import { AttributionService } from "~/domains/analytics/attribution.server";
+import type { AttributionModel } from "~/domains/store/types/settings";
 import { CampaignServiceError } from "~/lib/errors.server";
 
 export interface CampaignStats {
@@ -28,11 +36,25 @@ export interface CampaignWithStats {
   lastLeadAt: Date | null;
 }
 
+/** Double opt-in confirmations of the leads submitted in a range */
+export interface DoubleOptInStats {
+  /** Leads emailed a confirmation link */
+  sent: number;
+  confirmed: number;
+  /** Confirmed / sent, as a percentage */
+  confirmationRate: number;
+}
+
 export interface DateRangeOptions {
   from?: Date;
   to?: Date;
 }
 
+export interface RevenueReportOptions extends DateRangeOptions {
+  /** Split credit with this model; unset uses the recorded conversions (store's model) */
+  attributionModel?: AttributionModel;
+}
+
 // ============================================================================
 // Global Analytics Types
 // ============================================================================
@@ -174,6 +196,53 @@ export class CampaignAnalyticsService {
     }
   }
 
+  /**
+   * Get double opt-in confirmation stats for multiple campaigns
+   * Campaigns without confirmation emails are left out of the map.
+   */
+  static async getDoubleOptInStats(
+    campaignIds: string[],
+    options?: DateRangeOptions
+  ): Promise<Map<string, DoubleOptInStats>> {
+    if (campaignIds.length === 0) {
+      return new Map();
+    }
+
+    try {
+      const results = await prisma.$queryRaw<
+        Array<{ campaignId: string; sent: number; confirmed: number }>
+      >`
+        SELECT
+          "campaignId",
+          COUNT(*)::int AS "sent",
+          COUNT("confirmedAt")::int AS "confirmed"
+        FROM "leads"
+        WHERE "campaignId" = ANY(${campaignIds})
+          AND "confirmationSentAt" IS NOT NULL
+          AND "submittedAt" >= ${options?.from ?? new Date(0)}
+          AND "submittedAt" <= ${options?.to ?? new Date()}
+        GROUP BY "campaignId"
+      `;
+
+      const statsMap = new Map<string, DoubleOptInStats>();
+      results.forEach(({ campaignId, sent, confirmed }) => {
+        statsMap.set(campaignId, {
+          sent,
+          confirmed,
+          confirmationRate: sent > 0 ? (confirmed / sent) * 100 : 0,
+        });
+      });
+
+      return statsMap;
+    } catch (error) {
+      throw new CampaignServiceError(
+        "FETCH_DOUBLE_OPT_IN_STATS_FAILED",
+        "Failed to fetch double opt-in stats",
+        error
+      );
+    }
+  }
+
   /**
    * Get comprehensive stats for multiple campaigns
    * OPTIMIZED: Batch queries instead of N+1
@@ -188,21 +257,17 @@ export class CampaignAnalyticsService {
 
     try {
       // Fetch all stats in parallel
-      const [leadCounts, lastLeadTimes, impressionCounts] = await Promise.all([
-        this.getLeadCounts(campaignIds, options),
+      const [totals, lastLeadTimes] = await Promise.all([
+        AnalyticsRollupService.getTotalsByCampaign(campaignIds, options),
         this.getLastLeadTimes(campaignIds), // Last lead time is usually global, but could be ranged. Keeping global for "Last Updated" feel.
-        PopupEventService.getImpressionCountsByCampaign(campaignIds, {
-          from: options?.from,
-          to: options?.to,
-        }),
       ]);
 
       const statsMap = new Map<string, CampaignStats>();
 
       campaignIds.forEach((campaignId) => {
-        const leadCount = leadCounts.get(campaignId) || 0;
+        const leadCount = totals.get(campaignId)?.leads || 0;
         const lastLeadAt = lastLeadTimes.get(campaignId) || null;
-        const impressions = impressionCounts.get(campaignId) || 0;
+        const impressions = totals.get(campaignId)?.impressions || 0;
 
         const conversionRate = impressions > 0 ? (leadCount / impressions) * 100 : 0;
 
@@ -226,57 +291,53 @@ export class CampaignAnalyticsService {
   }
 
   /**
-   * Get attributed revenue stats per campaign from CampaignConversion.
+   * Get attributed revenue stats per campaign from the daily rollups
+   * (aggregated from CampaignConversion).
    *
    * Uses:
-   * - SUM(totalPrice) as gross "Total Revenue"
+   * - SUM(netRevenue) as "Total Revenue" (after refunds)
    * - SUM(discountAmount) as "Total Discount Given"
    * - COUNT(*) as order count
-   * - AOV (gross) = SUM(totalPrice) / COUNT(*)
+   * - AOV = SUM(netRevenue) / COUNT(*)
+   *
+   * Cancelled orders are left out of all of them.
+   *
+   * With `attributionModel`, reads each campaign's share of the orders it
+   * touched under that model instead (order counts can be fractional).
    */
   static async getRevenueBreakdownByCampaignIds(
     campaignIds: string[],
-    options?: DateRangeOptions
+    options?: RevenueReportOptions
   ): Promise<Map<string, { revenue: number; discount: number; orderCount: number; aov: number }>> {
     if (campaignIds.length === 0) {
       return new Map();
     }
 
     try {
-      const where: Prisma.CampaignConversionWhereInput = {
-        campaignId: { in: campaignIds },
-      };
-
-      if (options?.from || options?.to) {
-        where.createdAt = {};
-        if (options.from) where.createdAt.gte = options.from;
-        if (options.to) where.createdAt.lte = options.to;
+      if (options?.attributionModel) {
+        return await AttributionService.getRevenueByCampaign(
+          campaignIds,
+          options.attributionModel,
+          options
+        );
       }
 
-      const rows = await prisma.campaignConversion.groupBy({
-        by: ["campaignId"],
-        where,
-        _sum: {
-          totalPrice: true,
-          discountAmount: true,
-        },
-        _count: {
-          id: true,
-        },
-      });
+      const totals = await AnalyticsRollupService.getTotalsByCampaign(campaignIds, options);
 
       const result = new Map<
         string,
         { revenue: number; discount: number; orderCount: number; aov: number }
       >();
 
-      rows.forEach((row) => {
-        const revenue = row._sum.totalPrice ? Number(row._sum.totalPrice) : 0;
-        const discount = row._sum.discountAmount ? Number(row._sum.discountAmount) : 0;
-        const orderCount = row._count.id ?? 0;
-        const aov = orderCount > 0 ? revenue / orderCount : 0;
-
-        result.set(row.campaignId, { revenue, discount, orderCount, aov });
+      totals.forEach((row, campaignId) => {
+        if (row.orders === 0) return;
+        const aov = row.revenue / row.orders;
+        result.set(campaignId, {
+          revenue: row.revenue,
+          discount: row.discount,
+          orderCount: row.orders,
+          aov,
+        });
       });
 
       return result;
@@ -290,14 +351,14 @@ export class CampaignAnalyticsService {
   }
 
   /**
-   * Get attributed gross revenue per campaign from CampaignConversion.
+   * Get attributed net revenue per campaign from CampaignConversion.
    *
    * Convenience wrapper over getRevenueBreakdownByCampaignIds that only returns
    * revenue.
    */
   static async getRevenueByCampaignIds(
     campaignIds: string[],
-    options?: DateRangeOptions
+    options?: RevenueReportOptions
   ): Promise<Map<string, number>> {
     const breakdown = await this.getRevenueBreakdownByCampaignIds(campaignIds, options);
 
@@ -332,15 +393,15 @@ export class CampaignAnalyticsService {
 
       const campaignIds = campaigns.map((c) => c.id);
 
-      const [lastLeadTimes, impressionCounts] = await Promise.all([
+      const [lastLeadTimes, totals] = await Promise.all([
         this.getLastLeadTimes(campaignIds),
-        PopupEventService.getImpressionCountsByCampaign(campaignIds),
+        AnalyticsRollupService.getTotalsByCampaign(campaignIds),
       ]);
 
       return campaigns.map((campaign) => {
         const leadCount = campaign._count.leads;
         const lastLeadAt = lastLeadTimes.get(campaign.id) || null;
-        const impressions = impressionCounts.get(campaign.id) || 0;
+        const impressions = totals.get(campaign.id)?.impressions || 0;
 
         const conversionRate = impressions > 0 ? (leadCount / impressions) * 100 : 0;
 
@@ -365,7 +426,8 @@ export class CampaignAnalyticsService {
    * Get daily metrics for a campaign (impressions, leads, revenue)
    * for the last N days.
    *
-   * Merges data from popup_events (impressions, leads) and campaign_conversions (revenue).
+   * Days are local days in the store's timezone, read from the daily rollups.
+   * Leads here are SUBMIT events, matching the funnel charts.
    */
   static async getDailyMetrics(
     campaignId: string | string[],
@@ -375,75 +437,14 @@ export class CampaignAnalyticsService {
       const ids = Array.isArray(campaignId) ? campaignId : [campaignId];
       if (ids.length === 0) return [];
 
-      const whereClause = Prisma.sql`"campaignId" IN (${Prisma.join(ids)})`;
+      const daily = await AnalyticsRollupService.getDailyTotals(ids, days);
 
-      // 1. Get Impressions & Leads per day
-      const events = await prisma.$queryRaw<Array<{ date: Date; type: string; count: bigint }>>`
-        SELECT
-          DATE_TRUNC('day', "createdAt") as date,
-          "eventType" as type,
-          COUNT(*) as count
-        FROM "popup_events"
-        WHERE ${whereClause}
-          AND "eventType" IN ('VIEW', 'SUBMIT')
-          AND "createdAt" > NOW() - INTERVAL '1 day' * ${days}
-        GROUP BY DATE_TRUNC('day', "createdAt"), "eventType"
-        ORDER BY date ASC
-      `;
-
-      // 2. Get Revenue per day
-      const conversions = await prisma.$queryRaw<Array<{ date: Date; revenue: number }>>`
-        SELECT
-          DATE_TRUNC('day', "createdAt") as date,
-          SUM("totalPrice") as revenue
-        FROM "campaign_conversions"
-        WHERE ${whereClause}
-          AND "createdAt" > NOW() - INTERVAL '1 day' * ${days}
-        GROUP BY DATE_TRUNC('day', "createdAt")
-        ORDER BY date ASC
-      `;
-
-      // 3. Merge and format
-      const metricsMap = new Map<string, { impressions: number; leads: number; revenue: number }>();
-
-      // Initialize map with all days in range (fill gaps for better chart rendering)
-      const today = new Date();
-      for (let i = days - 1; i >= 0; i--) {
-        const date = new Date(today);
-        date.setDate(date.getDate() - i);
-        const dateKey = date.toISOString().split("T")[0];
-        metricsMap.set(dateKey, { impressions: 0, leads: 0, revenue: 0 });
-      }
-
-      events.forEach((row) => {
-        const dateKey = row.date.toISOString().split("T")[0];
-        const current = metricsMap.get(dateKey) || {
-          impressions: 0,
-          leads: 0,
-          revenue: 0,
-        };
-
-        if (row.type === "VIEW") current.impressions = Number(row.count);
-        if (row.type === "SUBMIT") current.leads = Number(row.count);
-
-        metricsMap.set(dateKey, current);
-      });
-
-      conversions.forEach((row) => {
-        const dateKey = row.date.toISOString().split("T")[0];
-        const current = metricsMap.get(dateKey) || {
-          impressions: 0,
-          leads: 0,
-          revenue: 0,
-        };
-        current.revenue = Number(row.revenue);
-        metricsMap.set(dateKey, current);
-      });
-
-      // Convert to array and sort
-      return Array.from(metricsMap.entries())
-        .map(([date, metrics]) => ({ date, ...metrics }))
-        .sort((a, b) => a.date.localeCompare(b.date));
+      return daily.map((day) => ({
+        date: day.date,
+        impressions: day.impressions,
+        leads: day.submits,
+        revenue: day.revenue,
+      }));
     } catch (error) {
       logger.error({ error }, "Failed to fetch daily metrics:");
       // Return empty array instead of throwing to avoid breaking the whole page
@@ -483,19 +484,8 @@ export class CampaignAnalyticsService {
         };
       }
 
-      // 2. Fetch all stats in parallel
-      const [leadCounts, impressionCounts, clickCounts, revenueBreakdown] = await Promise.all([
-        this.getLeadCounts(campaignIds, options),
-        PopupEventService.getImpressionCountsByCampaign(campaignIds, {
-          from: options?.from,
-          to: options?.to,
-        }),
-        PopupEventService.getClickCountsByCampaign(campaignIds, {
-          from: options?.from,
-          to: options?.to,
-        }),
-        this.getRevenueBreakdownByCampaignIds(campaignIds, options),
-      ]);
+      // 2. Fetch all stats from the rollups
+      const totals = await AnalyticsRollupService.getTotalsByCampaign(campaignIds, options);
 
       // 3. Aggregate totals
       let totalLeads = 0;
@@ -504,12 +494,12 @@ export class CampaignAnalyticsService {
       let totalRevenue = 0;
       let totalOrders = 0;
 
-      leadCounts.forEach((count) => (totalLeads += count));
-      impressionCounts.forEach((count) => (totalImpressions += count));
-      clickCounts.forEach((count) => (totalClicks += count));
-      revenueBreakdown.forEach((breakdown) => {
-        totalRevenue += breakdown.revenue;
-        totalOrders += breakdown.orderCount;
+      totals.forEach((row) => {
+        totalLeads += row.leads;
+        totalImpressions += row.impressions;
+        totalClicks += row.clicks;
+        totalRevenue += row.revenue;
+        totalOrders += row.orders;
       });
 
       return {
@@ -619,30 +609,13 @@ export class CampaignAnalyticsService {
 
       const campaignIds = campaigns.map((c) => c.id);
 
-      // 2. Fetch all stats in parallel
-      const [leadCounts, impressionCounts, clickCounts, revenueBreakdown] = await Promise.all([
-        this.getLeadCounts(campaignIds, options),
-        PopupEventService.getImpressionCountsByCampaign(campaignIds, {
-          from: options?.from,
-          to: options?.to,
-        }),
-        PopupEventService.getClickCountsByCampaign(campaignIds, {
-          from: options?.from,
-          to: options?.to,
-        }),
-        this.getRevenueBreakdownByCampaignIds(campaignIds, options),
-      ]);
+      // 2. Fetch all stats from the rollups
+      const totals = await AnalyticsRollupService.getTotalsByCampaign(campaignIds, options);
 
       // 3. Build rankings array
       const rankings: CampaignRanking[] = campaigns.map((campaign) => {
-        const leads = leadCounts.get(campaign.id) || 0;
-        const impressions = impressionCounts.get(campaign.id) || 0;
-        const clicks = clickCounts.get(campaign.id) || 0;
-        const revData = revenueBreakdown.get(campaign.id) || {
-          revenue: 0,
-          orderCount: 0,
-          aov: 0,
-        };
+        const { leads, impressions, clicks, revenue, orders } =
+          totals.get(campaign.id) || EMPTY_ROLLUP_TOTALS;
 
         return {
           id: campaign.id,
@@ -652,10 +625,10 @@ export class CampaignAnalyticsService {
           impressions,
           leads,
           clicks,
-          revenue: revData.revenue,
-          orders: revData.orderCount,
+          revenue,
+          orders,
           conversionRate: impressions > 0 ? (leads / impressions) * 100 : 0,
-          aov: revData.aov,
+          aov: orders > 0 ? revenue / orders : 0,
         };
       });
 
@@ -718,19 +691,8 @@ export class CampaignAnalyticsService {
 
       const campaignIds = campaigns.map((c) => c.id);
 
-      // 2. Fetch all stats in parallel
-      const [leadCounts, impressionCounts, clickCounts, revenueBreakdown] = await Promise.all([
-        this.getLeadCounts(campaignIds, options),
-        PopupEventService.getImpressionCountsByCampaign(campaignIds, {
-          from: options?.from,
-          to: options?.to,
-        }),
-        PopupEventService.getClickCountsByCampaign(campaignIds, {
-          from: options?.from,
-          to: options?.to,
-        }),
-        this.getRevenueBreakdownByCampaignIds(campaignIds, options),
-      ]);
+      // 2. Fetch all stats from the rollups
+      const totals = await AnalyticsRollupService.getTotalsByCampaign(campaignIds, options);
 
       // 3. Aggregate by template type
       const performances: TemplatePerformance[] = [];
@@ -743,14 +705,13 @@ export class CampaignAnalyticsService {
         let totalOrders = 0;
 
         ids.forEach((id) => {
-          totalLeads += leadCounts.get(id) || 0;
-          totalImpressions += impressionCounts.get(id) || 0;
-          totalClicks += clickCounts.get(id) || 0;
-          const revData = revenueBreakdown.get(id);
-          if (revData) {
-            totalRevenue += revData.revenue;
-            totalOrders += revData.orderCount;
-          }
+          const row = totals.get(id);
+          if (!row) return;
+          totalLeads += row.leads;
+          totalImpressions += row.impressions;
+          totalClicks += row.clicks;
+          totalRevenue += row.revenue;
+          totalOrders += row.orders;
         });
 
         performances.push({
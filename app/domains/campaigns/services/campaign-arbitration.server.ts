@@ -0,0 +1,112 @@
+/**
+ * Campaign Arbitration Service
+ *
+ * Applies the store's arbitration policy to the campaigns that matched a request:
+ * - Ranks them by the configured tiebreak (priority, conversion rate or random)
+ * - Drops all but the best-ranked campaign of each exclusive group
+ *
+ * Historical conversion rates are cached per campaign in Redis.
+ */
+
+import { logger } from "~/lib/logger.server";
+import { redis, REDIS_PREFIXES, REDIS_TTL } from "~/lib/redis.server";
+import type { CampaignArbitrationSettings } from "~/domains/store/types/settings";
+import { CampaignAnalyticsService } from "./campaign-analytics.server";
+import {
+  applyExclusiveGroups,
+  rankCampaigns,
+  type ArbitrationCandidate,
+} from "../utils/arbitration";
+
+const CONVERSION_RATE_TTL = REDIS_TTL.HOUR;
+
+// ============================================================================
+// CAMPAIGN ARBITRATION SERVICE
+// ============================================================================
+
+export class CampaignArbitrationService {
+  /**
+   * Rank campaigns and resolve exclusive groups
+   *
+   * @param seed - Visitor ID, so "random" picks the same winner for a visitor on every page
+   */
+  static async arbitrate<T extends ArbitrationCandidate>(
+    campaigns: T[],
+    policy: CampaignArbitrationSettings,
+    seed?: string
+  ): Promise<T[]> {
+    if (campaigns.length === 0) return campaigns;
+
+    const conversionRates =
+      policy.tiebreak === "conversion_rate"
+        ? await this.getConversionRates(campaigns.map((campaign) => campaign.id))
+        : undefined;
+
+    const ranked = rankCampaigns(campaigns, policy.tiebreak, { conversionRates, seed });
+    return applyExclusiveGroups(ranked, policy.exclusiveGroups);
+  }
+
+  /**
+   * All-time conversion rate (leads / impressions, percent) per campaign.
+   * Campaigns whose rate cannot be read are omitted and rank last.
+   */
+  static async getConversionRates(campaignIds: string[]): Promise<Map<string, number>> {
+    const rates = await this.readCache(campaignIds);
+
+    const missing = campaignIds.filter((id) => !rates.has(id));
+    if (missing.length === 0) return rates;
+
+    try {
+      const stats = await CampaignAnalyticsService.getCampaignStats(missing);
+      const fetched = new Map<string, number>();
+      for (const id of missing) {
+        fetched.set(id, stats.get(id)?.conversionRate ?? 0);
+      }
+
+      fetched.forEach((rate, id) => rates.set(id, rate));
+      await this.writeCache(fetched);
+    } catch (error) {
+      logger.warn({ error }, "[CampaignArbitration] Failed to load conversion rates");
+    }
+
+    return rates;
+  }
+
+  // ==========================================================================
+  // CACHE
+  // ==========================================================================
+
+  private static async readCache(campaignIds: string[]): Promise<Map<string, number>> {
+    const rates = new Map<string, number>();
+    if (!redis || campaignIds.length === 0) return rates;
+
+    try {
+      const cached = await redis.mget(...campaignIds.map((id) => this.cacheKey(id)));
+      cached.forEach((value, index) => {
+        if (value !== null) rates.set(campaignIds[index], Number(value));
+      });
+    } catch (error) {
+      logger.warn({ error }, "[CampaignArbitration] Failed to read cache");
+    }
+
+    return rates;
+  }
+
+  private static async writeCache(rates: Map<string, number>): Promise<void> {
+    if (!redis || rates.size === 0) return;
+
+    try {
+      const pipeline = redis.pipeline();
+      rates.forEach((rate, id) => {
+        pipeline.setex(this.cacheKey(id), CONVERSION_RATE_TTL, String(rate));
+      });
+      await pipeline.exec();
+    } catch (error) {
+      logger.warn({ error }, "[CampaignArbitration] Failed to write cache");
+    }
+  }
+
+  private static cacheKey(campaignId: string): string {
+    return `${REDIS_PREFIXES.CONVERSION_RATE}:${campaignId}`;
+  }
+}
@@ -7,15 +7,57 @@
 
 import type { CampaignWithConfigs } from "~/domains/campaigns/types/campaign";
 import type { StorefrontContext } from "~/domains/campaigns/types/storefront-context";
-import { FrequencyCapService } from "~/domains/targeting/services/frequency-cap.server";
+import {
+  FrequencyCapService,
+  type FrequencyCapState,
+} from "~/domains/targeting/services/frequency-cap.server";
+import { BanditAllocationService } from "~/domains/campaigns/services/bandit-allocation.server";
+import { CampaignArbitrationService } from "~/domains/campaigns/services/campaign-arbitration.server";
+import { PurchaseHistoryService } from "~/domains/targeting/services/purchase-history.server";
+import { CartTargetingService } from "~/domains/targeting/services/cart-targeting.server";
 import {
   hasSegmentMembershipData,
   isCustomerInAnyShopifySegment,
 } from "~/domains/targeting/services/segment-membership.server";
+import {
+  classifyTrafficSource,
+  matchesDomain,
+  matchesValue,
+} from "~/domains/targeting/utils/traffic-source";
+import {
+  EMPTY_PURCHASE_HISTORY,
+  matchesPurchaseHistory,
+} from "~/domains/targeting/utils/purchase-history";
+import {
+  matchesCartContents,
+  needsProductAttributes,
+  type ProductAttributesLookup,
+} from "~/domains/targeting/utils/cart-contents";
+import { selectByWeight } from "~/domains/analytics/bandit-allocation";
+import { HoldoutService, type HoldoutAssignment } from "~/domains/analytics/holdout.server";
+import { getHoldoutPolicy, isInHoldout } from "~/domains/campaigns/utils/holdout";
+import type { FilterStepName, FilterTrace } from "~/domains/campaigns/utils/filter-trace";
 import prisma from "~/db.server";
-import type { StoreSettings } from "~/domains/store/types/settings";
+import {
+  CampaignArbitrationSettingsSchema,
+  type StoreSettings,
+} from "~/domains/store/types/settings";
 import { logger } from "~/lib/logger.server";
 
+/**
+ * Options for filterCampaigns
+ */
+export interface CampaignFilterOptions {
+  /** Records which step passed or rejected each campaign, and why */
+  trace?: FilterTrace;
+  /** Targeting simulator: visitor state used instead of Redis / database lookups */
+  simulation?: {
+    frequencyCapState?: FrequencyCapState;
+    /** Shopify segment IDs the simulated customer belongs to */
+    customerSegmentIds?: string[];
+  };
+}
+
 /**
  * Campaign Filter Service
  * Filters campaigns based on various targeting rules
@@ -115,6 +157,106 @@ export class CampaignFilterService {
     });
   }
 
+  /**
+   * Filter campaigns by visitor status
+   *
+   * Uses the visit count tracked by the storefront (localStorage) to match
+   * first-time / returning visitors and an optional visit-count range.
+   */
+  static filterByVisitorStatus(
+    campaigns: CampaignWithConfigs[],
+    context: StorefrontContext
+  ): CampaignWithConfigs[] {
+    const visitCount = context.visitCount;
+
+    if (visitCount === undefined && context.isReturningVisitor === undefined) {
+      logger.debug("[CampaignFilter] No visit data in context, skipping visitor status filter");
+      return campaigns;
+    }
+
+    const isReturning = context.isReturningVisitor ?? (visitCount !== undefined && visitCount > 1);
+    logger.debug({ visitCount, isReturning }, "[CampaignFilter] Filtering by visitor status");
+
+    return campaigns.filter((campaign) => {
+      const visitorStatus = campaign.targetRules?.enhancedTriggers?.visitor_status;
+
+      // If no visitor status rule configured or disabled, include campaign
+      if (!visitorStatus || !visitorStatus.enabled) {
+        return true;
+      }
+
+      const status = visitorStatus.status ?? "any";
+      let matches =
+        status === "any" ||
+        (status === "first_time" && !isReturning) ||
+        (status === "returning" && isReturning);
+
+      // Visit-count range only applies when the storefront reported a count
+      if (matches && visitCount !== undefined) {
+        if (visitorStatus.min_visits !== undefined && visitCount < visitorStatus.min_visits) {
+          matches = false;
+        }
+        if (visitorStatus.max_visits !== undefined && visitCount > visitorStatus.max_visits) {
+          matches = false;
+        }
+      }
+
+      if (matches) {
+        logger.debug({ campaignId: campaign.id, status, visitCount }, "[CampaignFilter] Visitor status matched");
+      } else {
+        logger.debug({ campaignId: campaign.id, status, visitCount, minVisits: visitorStatus.min_visits, maxVisits: visitorStatus.max_visits }, "[CampaignFilter] Visitor status not matched");
+      }
+
+      return matches;
+    });
+  }
+
+  /**
+   * Filter campaigns by traffic source
+   *
+   * Uses the session's first-touch UTM params and referrer domain. Every configured
+   * criterion must match (values within one criterion are OR-ed).
+   */
+  static filterByTrafficSource(
+    campaigns: CampaignWithConfigs[],
+    context: StorefrontContext
+  ): CampaignWithConfigs[] {
+    const sourceType = classifyTrafficSource(context);
+    logger.debug({ sourceType, utmSource: context.utmSource, utmMedium: context.utmMedium, referrerDomain: context.referrerDomain }, "[CampaignFilter] Filtering by traffic source");
+
+    return campaigns.filter((campaign) => {
+      const trafficSource = campaign.targetRules?.enhancedTriggers?.traffic_source;
+
+      // If no traffic source rule configured or disabled, include campaign
+      if (!trafficSource || !trafficSource.enabled) {
+        return true;
+      }
+
+      const checks: Array<[string[] | undefined, (pattern: string) => boolean]> = [
+        [trafficSource.source_types, (type) => type === sourceType],
+        [trafficSource.utm_sources, (pattern) => matchesValue(context.utmSource, pattern)],
+        [trafficSource.utm_mediums, (pattern) => matchesValue(context.utmMedium, pattern)],
+        [trafficSource.utm_campaigns, (pattern) => matchesValue(context.utmCampaign, pattern)],
+        [
+          trafficSource.referrer_domains,
+          (domain) => !!context.referrerDomain && matchesDomain(context.referrerDomain, domain),
+        ],
+      ];
+
+      const matches = checks.every(
+        ([values, matcher]) => !values || values.length === 0 || values.some(matcher)
+      );
+
+      if (matches) {
+        logger.debug({ campaignId: campaign.id, sourceType }, "[CampaignFilter] Traffic source matched");
+      } else {
+        logger.debug({ campaignId: campaign.id, sourceType, trafficSource }, "[CampaignFilter] Traffic source not matched");
+      }
+
+      return matches;
+    });
+  }
+
   /**
    * Filter campaigns by page targeting
    */
@@ -209,13 +351,17 @@ export class CampaignFilterService {
    * - If NO membership data exists yet for the configured segments, we ignore
    *   the segment filter (fail-open).
    *
-   * Note: Cart-based targeting is now handled by the cart_value trigger in
-   * Enhanced Triggers (client-side) via polling /cart.js.
+   * Note: Cart-based targeting is handled by the cart_contents rule
+   * (filterByCartContents) and the client-side cart_value trigger.
+   *
+   * @param simulatedSegmentIds - Targeting simulator: segment membership to use
+   *   instead of SegmentMembership
    */
   static async filterByAudienceSegments(
     campaigns: CampaignWithConfigs[],
     context: StorefrontContext,
-    storeId: string
+    storeId: string,
+    simulatedSegmentIds?: string[]
   ): Promise<CampaignWithConfigs[]> {
     logger.debug({ campaignCount: campaigns.length }, "[CampaignFilter] Filtering by audience segments");
 
@@ -252,7 +398,9 @@ export class CampaignFilterService {
       const segmentIds = targeting.shopifySegmentIds ?? [];
       let segmentsMatch = true;
 
-      if (segmentIds.length > 0) {
+      if (segmentIds.length > 0 && simulatedSegmentIds) {
+        segmentsMatch = segmentIds.some((id) => simulatedSegmentIds.includes(id));
+      } else if (segmentIds.length > 0) {
         const key = segmentIds.slice().sort().join("|");
         let hasData = membershipDataCache.get(key);
 
@@ -297,6 +445,114 @@ export class CampaignFilterService {
     return result;
   }
 
+  /**
+   * Filter campaigns by customer purchase history
+   *
+   * - Logged-in customers are matched on their Shopify order stats (cached in Redis)
+   * - Guests are matched as customers without orders
+   * - If the history cannot be resolved, the rule is ignored (fail-open)
+   */
+  static async filterByPurchaseHistory(
+    campaigns: CampaignWithConfigs[],
+    context: StorefrontContext,
+    storeId: string
+  ): Promise<CampaignWithConfigs[]> {
+    const hasRules = campaigns.some(
+      (campaign) => campaign.targetRules?.enhancedTriggers?.purchase_history?.enabled
+    );
+    if (!hasRules) {
+      return campaigns;
+    }
+
+    const history = context.customerId
+      ? await PurchaseHistoryService.getPurchaseHistory(storeId, context.customerId)
+      : EMPTY_PURCHASE_HISTORY;
+
+    if (!history) {
+      logger.debug({ customerId: context.customerId }, "[CampaignFilter] No purchase history available, fail-open");
+      return campaigns;
+    }
+
+    logger.debug({ customerId: context.customerId, orderCount: history.orderCount, totalSpent: history.totalSpent }, "[CampaignFilter] Filtering by purchase history");
+
+    return campaigns.filter((campaign) => {
+      const rule = campaign.targetRules?.enhancedTriggers?.purchase_history;
+
+      // If no purchase history rule configured or disabled, include campaign
+      if (!rule || !rule.enabled) {
+        return true;
+      }
+
+      const matches = matchesPurchaseHistory(rule, history);
+
+      if (matches) {
+        logger.debug({ campaignId: campaign.id }, "[CampaignFilter] Purchase history matched");
+      } else {
+        logger.debug({ campaignId: campaign.id, rule }, "[CampaignFilter] Purchase history not matched");
+      }
+
+      return matches;
+    });
+  }
+
+  /**
+   * Filter campaigns by cart contents
+   *
+   * - Uses the /cart.js snapshot the storefront sends with the request
+   * - Product tags/collections are looked up only when a rule needs them
+   * - Without a cart snapshot (older storefront script), the rule is ignored (fail-open)
+   */
+  static async filterByCartContents(
+    campaigns: CampaignWithConfigs[],
+    context: StorefrontContext,
+    storeId: string
+  ): Promise<CampaignWithConfigs[]> {
+    const rules = campaigns
+      .map((campaign) => campaign.targetRules?.enhancedTriggers?.cart_contents)
+      .filter((rule) => rule?.enabled);
+    if (rules.length === 0) {
+      return campaigns;
+    }
+
+    if (context.cartItemCount === undefined) {
+      logger.debug("[CampaignFilter] No cart snapshot in context, fail-open");
+      return campaigns;
+    }
+
+    const cart = {
+      subtotal: context.cartValue ?? 0,
+      itemCount: context.cartItemCount,
+      productIds: context.cartProductIds ?? [],
+      discountApplied: context.cartDiscountApplied,
+    };
+
+    let attributes: ProductAttributesLookup | null = new Map();
+    if (cart.productIds.length > 0 && rules.some((rule) => rule && needsProductAttributes(rule))) {
+      attributes = await CartTargetingService.getProductAttributes(storeId, cart.productIds);
+    }
+
+    logger.debug({ subtotal: cart.subtotal, itemCount: cart.itemCount, products: cart.productIds.length }, "[CampaignFilter] Filtering by cart contents");
+
+    return campaigns.filter((campaign) => {
+      const rule = campaign.targetRules?.enhancedTriggers?.cart_contents;
+
+      // If no cart contents rule configured or disabled, include campaign
+      if (!rule || !rule.enabled) {
+        return true;
+      }
+
+      const matches = matchesCartContents(rule, cart, attributes);
+
+      if (matches) {
+        logger.debug({ campaignId: campaign.id }, "[CampaignFilter] Cart contents matched");
+      } else {
+        logger.debug({ campaignId: campaign.id, rule }, "[CampaignFilter] Cart contents not matched");
+      }
+
+      return matches;
+    });
+  }
+
   /**
    * Filter campaigns by frequency capping (Redis-based)
    *
@@ -306,7 +562,8 @@ export class CampaignFilterService {
   static async filterByFrequencyCapping(
     campaigns: CampaignWithConfigs[],
     context: StorefrontContext,
-    storeSettings?: StoreSettings
+    storeSettings?: StoreSettings,
+    options: CampaignFilterOptions = {}
   ): Promise<CampaignWithConfigs[]> {
     logger.debug({ campaignCount: campaigns.length }, "[FrequencyCap] Checking campaigns");
 
@@ -315,11 +572,16 @@ export class CampaignFilterService {
         const result = await FrequencyCapService.checkFrequencyCapping(
           campaign,
           context,
-          storeSettings
+          storeSettings,
+          options.simulation?.frequencyCapState
         );
 
         logger.debug({ campaignId: campaign.id, allowed: result.allowed, reason: result.reason }, "[FrequencyCap] Result");
 
+        if (!result.allowed && result.reason) {
+          options.trace?.setReason(campaign.id, result.reason);
+        }
+
         return result.allowed ? campaign : null;
       })
     );
@@ -330,16 +592,97 @@ export class CampaignFilterService {
     return filtered;
   }
 
+  /**
+   * Apply the store's arbitration policy (pre-filter)
+   *
+   * - Ranks the remaining campaigns by the policy's tiebreak, so the storefront
+   *   evaluates the winner first
+   * - Keeps only the best-ranked campaign of each exclusive group
+   * - Concurrent overlays are enforced by the storefront when triggers fire
+   */
+  static async filterByArbitration(
+    campaigns: CampaignWithConfigs[],
+    context: StorefrontContext,
+    storeSettings?: StoreSettings
+  ): Promise<CampaignWithConfigs[]> {
+    const parsed = CampaignArbitrationSettingsSchema.safeParse(storeSettings?.arbitration);
+    if (!parsed.success || !parsed.data.enabled || campaigns.length < 2) {
+      return campaigns;
+    }
+
+    const policy = parsed.data;
+    const seed = context.visitorId || context.sessionId;
+    const result = await CampaignArbitrationService.arbitrate(campaigns, policy, seed);
+
+    logger.debug({ tiebreak: policy.tiebreak, groups: policy.exclusiveGroups.length, kept: result.map((c) => c.id) }, "[CampaignFilter] Arbitration result");
+
+    return result;
+  }
+
+  /**
+   * Withhold campaigns from visitors in a holdout group (incrementality)
+   *
+   * - Runs last, so both arms are exactly the visitors the campaign would be shown to
+   * - Assignment is deterministic per visitor (see utils/holdout)
+   * - Each assignment logs a HOLDOUT or TREATMENT event (not for targeting simulations)
+   * - Requests without a visitor ID are never held out
+   */
+  static async filterByHoldout(
+    campaigns: CampaignWithConfigs[],
+    context: StorefrontContext,
+    storeId: string,
+    storeSettings?: StoreSettings,
+    options: CampaignFilterOptions = {}
+  ): Promise<CampaignWithConfigs[]> {
+    const visitorId = context.visitorId;
+    if (!visitorId) {
+      return campaigns;
+    }
+
+    const assignments: HoldoutAssignment[] = [];
+    const result = campaigns.filter((campaign) => {
+      const policy = getHoldoutPolicy(campaign, storeId, storeSettings);
+      if (!policy) {
+        return true;
+      }
+
+      const heldOut = isInHoldout(visitorId, policy);
+      assignments.push({ campaign, policy, heldOut });
+      if (!heldOut) {
+        return true;
+      }
+
+      options.trace?.setReason(
+        campaign.id,
+        `Visitor is in the ${policy.percentage}% ${policy.scope === "store" ? "store-wide" : "campaign"} holdout group`
+      );
+      return false;
+    });
+
+    const heldOutIds = assignments.filter((a) => a.heldOut).map(({ campaign }) => campaign.id);
+    if (heldOutIds.length > 0) {
+      logger.debug({ visitorId, campaignIds: heldOutIds }, "[CampaignFilter] Visitor held out");
+    }
+    if (assignments.length > 0 && !options.simulation) {
+      await HoldoutService.recordAssignments(storeId, assignments, context);
+    }
+
+    return result;
+  }
+
   /**
    * Filter campaigns by A/B test variant assignment
    *
    * For campaigns that are part of an experiment, only return ONE variant per visitor
    * Uses visitor ID to consistently assign the same variant to the same user
+   * Bandit experiments split by the cached bandit weights; assignments stay sticky
+   * (targeting simulations neither read nor record sticky assignments)
    */
-  static filterByVariantAssignment(
+  static async filterByVariantAssignment(
     campaigns: CampaignWithConfigs[],
-    context: StorefrontContext
-  ): CampaignWithConfigs[] {
+    context: StorefrontContext,
+    options: CampaignFilterOptions = {}
+  ): Promise<CampaignWithConfigs[]> {
     logger.debug({ campaignCount: campaigns.length }, "[CampaignFilter] Filtering by variant assignment");
 
     // Group campaigns by experimentId
@@ -358,18 +701,25 @@ export class CampaignFilterService {
 
     // For each experiment, select ONE variant based on visitor ID
     const selectedVariants: CampaignWithConfigs[] = [];
+    const banditExperimentIds = await BanditAllocationService.getBanditExperimentIds([
+      ...experimentGroups.keys(),
+    ]);
 
-    experimentGroups.forEach((variants, experimentId) => {
+    for (const [experimentId, variants] of experimentGroups) {
       logger.debug({ experimentId, variantCount: variants.length }, "[CampaignFilter] Experiment variants");
 
       const visitorId = context.visitorId || context.sessionId || "anonymous";
-      const hash = this.hashString(visitorId + experimentId);
-      const selectedIndex = hash % variants.length;
-      const selected = variants[selectedIndex];
+      const selected = await this.selectVariant(
+        experimentId,
+        variants,
+        visitorId,
+        banditExperimentIds.has(experimentId),
+        !!options.simulation
+      );
 
       logger.debug({ experimentId, selectedVariant: selected.variantKey, visitorId: visitorId.substring(0, 8) }, "[CampaignFilter] Selected variant");
       selectedVariants.push(selected);
-    });
+    }
 
     const result = [...standaloneCampaigns, ...selectedVariants];
     logger.debug({ total: result.length, standalone: standaloneCampaigns.length, variants: selectedVariants.length }, "[CampaignFilter] Variant assignment result");
@@ -377,6 +727,53 @@ export class CampaignFilterService {
     return result;
   }
 
+  /**
+   * Pick the variant for one experiment:
+   * 1. A previous assignment for this visitor (sticky, bandit mode only)
+   * 2. Bandit weights from Redis, when the experiment runs in a bandit mode
+   * 3. Static hash split, which is stable on its own and needs no Redis
+   *
+   * Simulations skip step 1 and never record an assignment, so they reflect the
+   * current weights and leave live storefront visitors untouched.
+   */
+  private static async selectVariant(
+    experimentId: string,
+    variants: CampaignWithConfigs[],
+    visitorId: string,
+    isBandit: boolean,
+    isSimulation: boolean
+  ): Promise<CampaignWithConfigs> {
+    const hash = this.hashString(visitorId + experimentId);
+    if (!isBandit) {
+      return variants[hash % variants.length];
+    }
+
+    const sticky = visitorId !== "anonymous" && !isSimulation;
+
+    if (sticky) {
+      const assignedKey = await BanditAllocationService.getAssignedVariant(experimentId, visitorId);
+      const assigned = variants.find((variant) => variant.variantKey === assignedKey);
+      if (assigned) return assigned;
+    }
+
+    const weights = await BanditAllocationService.getCachedWeights(experimentId);
+
+    const selected = weights
+      ? selectByWeight(
+          [...variants]
+            .sort((a, b) => (a.variantKey || "").localeCompare(b.variantKey || ""))
+            .map((variant) => ({ value: variant, weight: weights[variant.variantKey || ""] ?? 0 })),
+          (hash % 10000) / 10000
+        )
+      : variants[hash % variants.length];
+
+    if (sticky && selected.variantKey) {
+      await BanditAllocationService.recordAssignment(experimentId, visitorId, selected.variantKey);
+    }
+
+    return selected;
+  }
+
   /**
    * Simple string hash function for consistent variant assignment
    */
@@ -397,7 +794,8 @@ export class CampaignFilterService {
   static async filterCampaigns(
     campaigns: CampaignWithConfigs[],
     context: StorefrontContext,
-    storeId: string
+    storeId: string,
+    options: CampaignFilterOptions = {}
   ): Promise<CampaignWithConfigs[]> {
     logger.debug({ campaignCount: campaigns.length, campaignIds: campaigns.map((c) => c.id) }, "[CampaignFilter] Starting filtering");
 
@@ -410,12 +808,20 @@ export class CampaignFilterService {
     });
     const storeSettings = store?.settings as StoreSettings | undefined;
 
-    filtered = await this.runFilterStep("DEVICE_TYPE", (cs, ctx) => this.filterByDeviceType(cs, ctx), filtered, context);
-    filtered = await this.runFilterStep("GEO_TARGETING", (cs, ctx) => this.filterByGeoTargeting(cs, ctx), filtered, context);
-    filtered = await this.runFilterStep("PAGE_TARGETING", (cs, ctx) => this.filterByPageTargeting(cs, ctx), filtered, context);
-    filtered = await this.runFilterStep("AUDIENCE_SEGMENTS", (cs, ctx) => this.filterByAudienceSegments(cs, ctx, storeId), filtered, context);
-    filtered = await this.runFilterStep("VARIANT_ASSIGNMENT", (cs, ctx) => this.filterByVariantAssignment(cs, ctx), filtered, context);
-    filtered = await this.runFilterStep("FREQUENCY_CAPPING", (cs, ctx) => this.filterByFrequencyCapping(cs, ctx, storeSettings), filtered, context);
+    const { trace, simulation } = options;
+
+    filtered = await this.runFilterStep("DEVICE_TYPE", (cs, ctx) => this.filterByDeviceType(cs, ctx), filtered, context, trace);
+    filtered = await this.runFilterStep("GEO_TARGETING", (cs, ctx) => this.filterByGeoTargeting(cs, ctx), filtered, context, trace);
+    filtered = await this.runFilterStep("VISITOR_STATUS", (cs, ctx) => this.filterByVisitorStatus(cs, ctx), filtered, context, trace);
+    filtered = await this.runFilterStep("TRAFFIC_SOURCE", (cs, ctx) => this.filterByTrafficSource(cs, ctx), filtered, context, trace);
+    filtered = await this.runFilterStep("PAGE_TARGETING", (cs, ctx) => this.filterByPageTargeting(cs, ctx), filtered, context, trace);
+    filtered = await this.runFilterStep("AUDIENCE_SEGMENTS", (cs, ctx) => this.filterByAudienceSegments(cs, ctx, storeId, simulation?.customerSegmentIds), filtered, context, trace);
+    filtered = await this.runFilterStep("PURCHASE_HISTORY", (cs, ctx) => this.filterByPurchaseHistory(cs, ctx, storeId), filtered, context, trace);
+    filtered = await this.runFilterStep("CART_CONTENTS", (cs, ctx) => this.filterByCartContents(cs, ctx, storeId), filtered, context, trace);
+    filtered = await this.runFilterStep("VARIANT_ASSIGNMENT", (cs, ctx) => this.filterByVariantAssignment(cs, ctx, options), filtered, context, trace);
+    filtered = await this.runFilterStep("FREQUENCY_CAPPING", (cs, ctx) => this.filterByFrequencyCapping(cs, ctx, storeSettings, options), filtered, context, trace);
+    filtered = await this.runFilterStep("ARBITRATION", (cs, ctx) => this.filterByArbitration(cs, ctx, storeSettings), filtered, context, trace);
+    filtered = await this.runFilterStep("HOLDOUT", (cs, ctx) => this.filterByHoldout(cs, ctx, storeId, storeSettings, options), filtered, context, trace);
 
     logger.info({ finalCount: filtered.length, campaignIds: filtered.map((c) => c.id) }, "[CampaignFilter] Filtering complete");
 
@@ -426,15 +832,17 @@ export class CampaignFilterService {
    * Apply a single filter step with standardized logging.
    */
   private static async runFilterStep(
-    label: string,
+    label: FilterStepName,
     filter: (
       campaigns: CampaignWithConfigs[],
       context: StorefrontContext
     ) => CampaignWithConfigs[] | Promise<CampaignWithConfigs[]>,
     campaigns: CampaignWithConfigs[],
-    context: StorefrontContext
+    context: StorefrontContext,
+    trace?: FilterTrace
   ): Promise<CampaignWithConfigs[]> {
     const result = await filter(campaigns, context);
+    trace?.recordStep(label, campaigns, result, context);
 
     if (campaigns.length !== result.length) {
       const resultIds = new Set(result.map(c => c.id));
@@ -16,7 +16,16 @@ import {
   CAMPAIGN_TEMPLATE_INCLUDE_EXTENDED,
   CAMPAIGN_EXPERIMENT_INCLUDE_EXTENDED,
 } from "~/lib/service-helpers.server";
-import { isWithinSchedule } from "../utils/schedule-helpers.js";
+import {
+  isValidTimezone,
+  isWithinDayparting,
+  isWithinSchedule,
+} from "../utils/schedule-helpers.js";
+
+export interface ActiveCampaignQueryOptions {
+  /** Visitor's IANA timezone, used by dayparting windows in "visitor" mode */
+  visitorTimezone?: string;
+}
 
 /**
  * Campaign Query Service
@@ -91,9 +100,12 @@ export class CampaignQueryService {
 
   /**
    * Get active campaigns for a store
-   * Filters by status AND schedule (timezone-aware)
+   * Filters by status AND schedule (timezone-aware), including dayparting windows
    */
-  static async getActive(storeId: string): Promise<CampaignWithConfigs[]> {
+  static async getActive(
+    storeId: string,
+    options: ActiveCampaignQueryOptions = {}
+  ): Promise<CampaignWithConfigs[]> {
     try {
       // Fetch store timezone for schedule filtering
       const store = await prisma.store.findUnique({
@@ -135,7 +147,25 @@ export class CampaignQueryService {
           }, "[CampaignQuery] Campaign excluded: outside schedule window");
         }
 
-        return withinSchedule;
+        if (!withinSchedule) return false;
+
+        const dayparting = campaign.targetRules?.dayparting;
+        const daypartingTimezone =
+          dayparting?.timezoneMode === "visitor" && isValidTimezone(options.visitorTimezone)
+            ? options.visitorTimezone
+            : timezone;
+        const withinDayparting = isWithinDayparting(dayparting, daypartingTimezone);
+
+        if (!withinDayparting) {
+          logger.debug({
+            campaignId: campaign.id,
+            campaignName: campaign.name,
+            windows: dayparting?.windows,
+            timezone: daypartingTimezone,
+          }, "[CampaignQuery] Campaign excluded: outside dayparting windows");
+        }
+
+        return withinDayparting;
       });
 
       logger.debug({
@@ -15,7 +15,7 @@ import type {
   TemplateType,
 } from "../types/campaign.js";
 import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
-import { CampaignQueryService } from "./campaign-query.server.js";
+import { CampaignQueryService, type ActiveCampaignQueryOptions } from "./campaign-query.server.js";
 import { CampaignMutationService } from "./campaign-mutation.server.js";
 
 /**
@@ -56,8 +56,11 @@ export class CampaignService {
   /**
    * Get active campaigns for a store
    */
-  static async getActiveCampaigns(storeId: string): Promise<CampaignWithConfigs[]> {
-    return CampaignQueryService.getActive(storeId);
+  static async getActiveCampaigns(
+    storeId: string,
+    options?: ActiveCampaignQueryOptions
+  ): Promise<CampaignWithConfigs[]> {
+    return CampaignQueryService.getActive(storeId, options);
   }
 
   // ============================================================================
@@ -0,0 +1,129 @@
+/**
+ * Experiment Evaluator Service
+ *
+ * Background job that runs sequential analysis on every RUNNING experiment
+ * with auto-stop enabled and acts on the result:
+ * - Boundary crossed -> declare the winner (same flow as the declare-winner API)
+ * - Planned sample size or duration reached -> complete with "no detectable difference"
+ *
+ * Triggered by POST /api/internal/experiments/evaluate (Cloud Scheduler / cron).
+ */
+
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import { parseStatisticalConfig } from "../utils/json-helpers.js";
+import { ExperimentService, type SequentialDecision } from "./experiment.server.js";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ExperimentEvaluationResult {
+  experimentId: string;
+  storeId: string;
+  decision: SequentialDecision | "error";
+  winnerKey: string | null;
+}
+
+export interface EvaluationRunSummary {
+  evaluated: number;
+  winnersDeclared: number;
+  noDifference: number;
+  errors: number;
+  results: ExperimentEvaluationResult[];
+}
+
+// ============================================================================
+// EXPERIMENT EVALUATOR SERVICE
+// ============================================================================
+
+export class ExperimentEvaluatorService {
+  /**
+   * Evaluate all running experiments that opted into sequential auto-stop
+   */
+  static async evaluateRunningExperiments(now: Date = new Date()): Promise<EvaluationRunSummary> {
+    const experiments = await prisma.experiment.findMany({
+      where: { status: "RUNNING" },
+      select: { id: true, storeId: true, statisticalConfig: true },
+    });
+
+    const autoStopExperiments = experiments.filter(
+      (exp) => parseStatisticalConfig(exp.statisticalConfig).sequentialTesting?.autoStop
+    );
+
+    const results: ExperimentEvaluationResult[] = [];
+    for (const experiment of autoStopExperiments) {
+      results.push(await this.evaluateExperiment(experiment.id, experiment.storeId, now));
+    }
+
+    const summary: EvaluationRunSummary = {
+      evaluated: results.length,
+      winnersDeclared: results.filter((r) => r.decision === "winner").length,
+      noDifference: results.filter((r) => r.decision === "no_difference").length,
+      errors: results.filter((r) => r.decision === "error").length,
+      results,
+    };
+
+    logger.info(
+      {
+        evaluated: summary.evaluated,
+        winnersDeclared: summary.winnersDeclared,
+        noDifference: summary.noDifference,
+        errors: summary.errors,
+      },
+      "[ExperimentEvaluator] Evaluation run complete"
+    );
+
+    return summary;
+  }
+
+  /**
+   * Evaluate a single experiment and apply the stopping decision
+   */
+  static async evaluateExperiment(
+    experimentId: string,
+    storeId: string,
+    now: Date = new Date()
+  ): Promise<ExperimentEvaluationResult> {
+    try {
+      const analysis = await ExperimentService.getSequentialAnalysis(experimentId, storeId, now);
+
+      if (!analysis) {
+        return { experimentId, storeId, decision: "continue", winnerKey: null };
+      }
+
+      if (analysis.decision === "winner" && analysis.winnerKey) {
+        await ExperimentService.declareWinner(experimentId, storeId, analysis.winnerKey);
+        logger.info(
+          { experimentId, winnerKey: analysis.winnerKey, method: analysis.method },
+          "[ExperimentEvaluator] Sequential boundary crossed, winner declared"
+        );
+      } else if (analysis.decision === "no_difference") {
+        await ExperimentService.concludeExperiment(
+          experimentId,
+          storeId,
+          "NO_DETECTABLE_DIFFERENCE"
+        );
+        logger.info(
+          { experimentId, plannedSampleSize: analysis.plannedSampleSize },
+          "[ExperimentEvaluator] Planned sample reached with no detectable difference"
+        );
+      }
+
+      await prisma.experiment.update({
+        where: { id: experimentId },
+        data: { lastEvaluatedAt: now },
+      });
+
+      return {
+        experimentId,
+        storeId,
+        decision: analysis.decision,
+        winnerKey: analysis.winnerKey,
+      };
+    } catch (error) {
+      logger.error({ error, experimentId }, "[ExperimentEvaluator] Failed to evaluate experiment");
+      return { experimentId, storeId, decision: "error", winnerKey: null };
+    }
+  }
+}
@@ -7,15 +7,63 @@
 
 import type { Prisma } from "@prisma/client";
 import prisma from "~/db.server";
-import type { ExperimentCreateData, ExperimentUpdateData, ExperimentWithVariants } from "../types/experiment.js";
+import type {
+  ExperimentConclusion,
+  ExperimentCreateData,
+  ExperimentUpdateData,
+  ExperimentWithVariants,
+  SequentialTestingMethod,
+} from "../types/experiment.js";
 import { validateExperimentCreateData, validateExperimentUpdateData } from "../validation/campaign-validation.js";
-import { parseExperimentFields, prepareEntityJsonFields, prepareJsonField } from "../utils/json-helpers.js";
+import {
+  parseExperimentFields,
+  parseStatisticalConfig,
+  prepareEntityJsonFields,
+  prepareJsonField,
+} from "../utils/json-helpers.js";
 import { ExperimentServiceError } from "~/lib/errors.server";
 import {
   EXPERIMENT_CAMPAIGNS_INCLUDE,
   EXPERIMENT_CAMPAIGNS_INCLUDE_EXTENDED,
   mapCampaignsToVariants,
 } from "~/lib/service-helpers.server";
+import { getVariantPerformance } from "~/domains/analytics/experiment-analytics.server";
+import { OutboundWebhookService } from "~/domains/integrations/services/outbound-webhooks.server";
+import { getMetricSuccesses } from "~/domains/analytics/experiment-statistics";
+import {
+  plannedSampleSizePerVariant,
+  runSequentialTest,
+} from "~/domains/analytics/sequential-testing";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SequentialDecision = "continue" | "winner" | "no_difference";
+
+export interface SequentialComparison {
+  variantKey: string;
+  pValue: number;
+  boundaryCrossed: boolean;
+  criticalValue: number | null;
+  isBetterThanControl: boolean;
+}
+
+export interface SequentialAnalysis {
+  method: SequentialTestingMethod;
+  autoStop: boolean;
+  /** Per-comparison significance level (Bonferroni corrected) */
+  alpha: number;
+  plannedSampleSize: number;
+  informationFraction: number;
+  daysElapsed: number | null;
+  plannedDurationDays: number;
+  comparisons: SequentialComparison[];
+  decision: SequentialDecision;
+  winnerKey: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 // ============================================================================
 // EXPERIMENT SERVICE
@@ -312,4 +360,244 @@ export class ExperimentService {
       );
     }
   }
+
+  /**
+   * Mark an experiment as running (called when its variants are activated)
+   */
+  static async startExperiment(id: string, storeId: string): Promise<void> {
+    const existing = await prisma.experiment.findFirst({
+      where: { id, storeId },
+      select: { status: true, startDate: true },
+    });
+
+    if (!existing) {
+      throw new ExperimentServiceError("NOT_FOUND", "Experiment not found");
+    }
+
+    if (existing.status === "COMPLETED" || existing.status === "ARCHIVED") {
+      return;
+    }
+
+    await prisma.experiment.update({
+      where: { id },
+      data: {
+        status: "RUNNING",
+        startDate: existing.startDate ?? new Date(),
+      },
+    });
+  }
+
+  /**
+   * Declare a winning variant: the winner gets 100% of traffic,
+   * losing variants are paused and the experiment is completed.
+   */
+  static async declareWinner(
+    id: string,
+    storeId: string,
+    winningVariantKey: string
+  ): Promise<void> {
+    const campaigns = await prisma.campaign.findMany({
+      where: {
+        experimentId: id,
+        storeId,
+      },
+    });
+
+    if (campaigns.length === 0) {
+      throw new ExperimentServiceError("NOT_FOUND", "No campaigns found for this experiment");
+    }
+
+    const winningCampaign = campaigns.find((c) => c.variantKey === winningVariantKey);
+
+    if (!winningCampaign) {
+      throw new ExperimentServiceError("VARIANT_NOT_FOUND", "Winning variant not found");
+    }
+
+    const losingCampaigns = campaigns.filter((c) => c.variantKey !== winningVariantKey);
+    const now = new Date();
+
+    let experiment: { name: string } | undefined;
+    try {
+      [experiment] = await Promise.all([
+        // Record winner and route all traffic to it
+        prisma.experiment.update({
+          where: { id },
+          data: {
+            trafficAllocation: {
+              [winningVariantKey]: 100,
+              ...Object.fromEntries(losingCampaigns.map((c) => [c.variantKey || "UNKNOWN", 0])),
+            },
+            status: "COMPLETED",
+            winnerId: winningCampaign.id,
+            winnerDeclaredAt: now,
+            conclusion: "WINNER_DECLARED",
+            endDate: now,
+          },
+        }),
+
+        // Pause losing campaigns
+        ...losingCampaigns.map((campaign) =>
+          prisma.campaign.update({
+            where: { id: campaign.id },
+            data: { status: "PAUSED" },
+          })
+        ),
+      ]);
+    } catch (error) {
+      throw new ExperimentServiceError("DECLARE_WINNER_FAILED", "Failed to declare winner", error);
+    }
+
+    await OutboundWebhookService.emit(storeId, "experiment.winner_declared", id, {
+      experimentId: id,
+      experimentName: experiment?.name ?? null,
+      winningVariantKey,
+      winningCampaignId: winningCampaign.id,
+      winningCampaignName: winningCampaign.name,
+      losingCampaignIds: losingCampaigns.map((c) => c.id),
+      declaredAt: now.toISOString(),
+    });
+  }
+
+  /**
+   * Complete an experiment without a winner (e.g. no detectable difference)
+   */
+  static async concludeExperiment(
+    id: string,
+    storeId: string,
+    conclusion: ExperimentConclusion
+  ): Promise<void> {
+    const result = await prisma.experiment.updateMany({
+      where: { id, storeId },
+      data: {
+        status: "COMPLETED",
+        conclusion,
+        endDate: new Date(),
+      },
+    });
+
+    if (result.count === 0) {
+      throw new ExperimentServiceError("NOT_FOUND", "Experiment not found");
+    }
+  }
+
+  /**
+   * Sequential analysis of a running experiment.
+   *
+   * Uses always-valid p-values or an alpha-spending boundary (from
+   * statisticalConfig.sequentialTesting) so the experiment can be checked at
+   * any time without inflating false positives. Returns the stopping decision;
+   * acting on it is left to the caller (see ExperimentEvaluatorService).
+   */
+  static async getSequentialAnalysis(
+    id: string,
+    storeId: string,
+    now: Date = new Date()
+  ): Promise<SequentialAnalysis | null> {
+    const experiment = await prisma.experiment.findFirst({
+      where: { id, storeId },
+      select: { statisticalConfig: true, startDate: true, plannedDurationDays: true },
+    });
+
+    if (!experiment) return null;
+
+    const statisticalConfig = parseStatisticalConfig(experiment.statisticalConfig);
+    const sequential = statisticalConfig.sequentialTesting;
+    const method = sequential?.method ?? "always_valid";
+    const power = sequential?.power ?? 0.8;
+
+    const performance = await getVariantPerformance(id, storeId);
+    const control = performance.variants.find((v) => v.variantKey === performance.controlKey);
+    const challengers = performance.variants.filter((v) => v !== control);
+
+    const plannedDurationDays = experiment.plannedDurationDays ?? statisticalConfig.maxDurationDays;
+    const daysElapsed = experiment.startDate
+      ? (now.getTime() - experiment.startDate.getTime()) / DAY_MS
+      : null;
+
+    const alpha = (1 - statisticalConfig.confidenceLevel) / Math.max(challengers.length, 1);
+    const controlSuccesses = control ? getMetricSuccesses(control, performance.primaryMetric) : 0;
+    const baselineRate =
+      control && control.impressions > 0 ? controlSuccesses / control.impressions : 0;
+    const requiredSampleSize =
+      baselineRate > 0
+        ? plannedSampleSizePerVariant(
+            baselineRate,
+            statisticalConfig.minimumDetectableEffect,
+            alpha,
+            power
+          )
+        : statisticalConfig.minimumSampleSize;
+    const plannedSampleSize = Math.max(statisticalConfig.minimumSampleSize, requiredSampleSize);
+
+    const comparisons: SequentialComparison[] = control
+      ? challengers.map((variant) => {
+          const result = runSequentialTest(
+            { successes: controlSuccesses, trials: control.impressions },
+            {
+              successes: getMetricSuccesses(variant, performance.primaryMetric),
+              trials: variant.impressions,
+            },
+            {
+              method,
+              alpha,
+              minimumDetectableEffect: statisticalConfig.minimumDetectableEffect,
+              plannedSampleSize,
+            }
+          );
+          return {
+            variantKey: variant.variantKey,
+            pValue: result.pValue,
+            boundaryCrossed: result.boundaryCrossed,
+            criticalValue: result.criticalValue,
+            isBetterThanControl: variant.primaryMetricValue > control.primaryMetricValue,
+          };
+        })
+      : [];
+
+    const minImpressions = performance.variants.length
+      ? Math.min(...performance.variants.map((v) => v.impressions))
+      : 0;
+    const informationFraction = Math.min(1, minImpressions / plannedSampleSize);
+
+    // Decide: a better challenger crossing the boundary wins; the control wins
+    // when every challenger is significantly worse; otherwise stop with no
+    // detectable difference once the planned sample or duration is reached.
+    let decision: SequentialDecision = "continue";
+    let winnerKey: string | null = null;
+
+    const winningChallengers = comparisons
+      .filter((c) => c.boundaryCrossed && c.isBetterThanControl)
+      .map((c) => performance.variants.find((v) => v.variantKey === c.variantKey)!)
+      .sort((a, b) => b.primaryMetricValue - a.primaryMetricValue);
+
+    if (winningChallengers.length > 0) {
+      decision = "winner";
+      winnerKey = winningChallengers[0].variantKey;
+    } else if (
+      control &&
+      comparisons.length > 0 &&
+      comparisons.every((c) => c.boundaryCrossed && !c.isBetterThanControl)
+    ) {
+      decision = "winner";
+      winnerKey = control.variantKey;
+    } else if (
+      comparisons.length > 0 &&
+      (informationFraction >= 1 || (daysElapsed !== null && daysElapsed >= plannedDurationDays))
+    ) {
+      decision = "no_difference";
+    }
+
+    return {
+      method,
+      autoStop: sequential?.autoStop ?? false,
+      alpha,
+      plannedSampleSize,
+      informationFraction,
+      daysElapsed,
+      plannedDurationDays,
+      comparisons,
+      decision,
+      winnerKey,
+    };
+  }
 }
@@ -0,0 +1,107 @@
+/**
+ * Targeting Simulator Service
+ *
+ * Answers "why didn't my popup show?" for merchants:
+ * - Takes a simulated storefront context and visitor state (frequency caps, segments)
+ * - Runs it through the same steps as the storefront request
+ *   (schedule, CampaignFilterService.filterCampaigns, frequency capping)
+ * - Returns a per-campaign trace of which step passed or rejected it and why
+ */
+
+import { z } from "zod";
+import { StorefrontContextSchema } from "~/domains/campaigns/types/storefront-context";
+import { CampaignService } from "./campaign.server";
+import { CampaignFilterService } from "./campaign-filter.server";
+import { FilterTrace, type CampaignTrace } from "../utils/filter-trace";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+const CountSchema = z.number().int().nonnegative();
+
+export const SimulationInputSchema = z.object({
+  context: StorefrontContextSchema,
+  /** Times the visitor already saw each campaign (applied to every campaign) */
+  frequencyCapState: z
+    .object({
+      counts: z
+        .object({
+          session: CountSchema,
+          hour: CountSchema,
+          day: CountSchema,
+          week: CountSchema,
+          month: CountSchema,
+        })
+        .partial()
+        .optional(),
+      globalCounts: z.object({ session: CountSchema, day: CountSchema }).partial().optional(),
+      cooldownRemaining: CountSchema.optional(),
+    })
+    .optional(),
+  /** Shopify segment IDs the simulated customer belongs to */
+  customerSegmentIds: z.array(z.string()).optional(),
+});
+
+export type SimulationInput = z.infer<typeof SimulationInputSchema>;
+
+export interface SimulationResult {
+  traces: CampaignTrace[];
+  /** Campaigns the storefront would receive, in the order it evaluates them */
+  shownCampaignIds: string[];
+}
+
+/** Visitor ID used when the merchant doesn't simulate a specific visitor */
+const SIMULATED_VISITOR_ID = "rb-simulator";
+
+// ============================================================================
+// TARGETING SIMULATOR SERVICE
+// ============================================================================
+
+export class TargetingSimulatorService {
+  /**
+   * Simulate a storefront request for every non-archived campaign of a store
+   */
+  static async simulate(storeId: string, input: SimulationInput): Promise<SimulationResult> {
+    const context = {
+      ...input.context,
+      visitorId: input.context.visitorId || SIMULATED_VISITOR_ID,
+    };
+
+    const [allCampaigns, activeCampaigns] = await Promise.all([
+      CampaignService.getAllCampaigns(storeId),
+      CampaignService.getActiveCampaigns(storeId, { visitorTimezone: context.timezone }),
+    ]);
+
+    const candidates = allCampaigns.filter((campaign) => campaign.status !== "ARCHIVED");
+    const trace = new FilterTrace(candidates);
+
+    // Campaigns the active query dropped: not ACTIVE, outside dates or dayparting
+    const activeIds = new Set(activeCampaigns.map((campaign) => campaign.id));
+    candidates
+      .filter((campaign) => !activeIds.has(campaign.id))
+      .forEach((campaign) => {
+        trace.reject(
+          campaign.id,
+          "SCHEDULE",
+          campaign.status !== "ACTIVE"
+            ? `Campaign is ${campaign.status.toLowerCase()}`
+            : "Outside the campaign's start/end dates or dayparting schedule"
+        );
+      });
+
+    const shown = await CampaignFilterService.filterCampaigns(activeCampaigns, context, storeId, {
+      trace,
+      simulation: {
+        // Simulate a fresh visitor unless the merchant set counters
+        frequencyCapState: input.frequencyCapState ?? {},
+        customerSegmentIds: input.customerSegmentIds,
+      },
+    });
+
+    return {
+      traces: trace.getTraces(),
+      shownCampaignIds: shown.map((campaign) => campaign.id),
+    };
+  }
+}
@@ -24,6 +24,8 @@ export type {
   EnhancedTriggersConfig,
   AudienceTargetingConfig,
   PageTargetingConfig,
+  DaypartingWindow,
+  DaypartingConfig,
   TargetRulesConfig,
   DiscountConfig,
   BaseCampaign,
@@ -37,6 +39,11 @@ export type {
   ExperimentStatus,
   TrafficAllocation,
   StatisticalConfig,
+  SequentialTestingMethod,
+  SequentialTestingConfig,
+  ExperimentConclusion,
+  BanditAlgorithm,
+  BanditConfig,
   SuccessMetrics,
   BaseExperiment,
   ExperimentWithVariants,
@@ -63,6 +70,7 @@ export {
   EnhancedTriggersConfigSchema,
   AudienceTargetingConfigSchema,
   PageTargetingConfigSchema,
+  DaypartingConfigSchema,
   TargetRulesConfigSchema,
   DiscountConfigSchema,
   BaseCampaignSchema,
@@ -76,6 +84,10 @@ export {
   ExperimentStatusSchema,
   TrafficAllocationSchema,
   StatisticalConfigSchema,
+  SequentialTestingConfigSchema,
+  ExperimentConclusionSchema,
+  BanditAlgorithmSchema,
+  BanditConfigSchema,
   SuccessMetricsSchema,
   BaseExperimentSchema,
   ExperimentWithVariantsSchema,
@@ -32,6 +32,9 @@ export const LeadCaptureConfigSchema = z.object({
   consentFieldRequired: z.boolean().default(false),
   consentFieldText: z.string().optional(),
   privacyPolicyUrl: z.string().url().optional().or(z.literal("")),
+  // Double opt-in
+  doubleOptInEnabled: z.boolean().default(false),
+  revealDiscountAfterConfirmation: z.boolean().default(false),
 });
 
 /**
@@ -1349,6 +1352,61 @@ export const EnhancedTriggersConfigSchema = z.object({
     })
     .optional(),
 
+  // Visitor status: first-time vs returning visitors and visit-count range
+  visitor_status: z
+    .object({
+      enabled: z.boolean(),
+      status: z.enum(["first_time", "returning", "any"]).optional(),
+      min_visits: z.number().int().min(1).optional(),
+      max_visits: z.number().int().min(1).optional(),
+    })
+    .optional(),
+
+  // Traffic source: first-touch UTM params, referrer domain and derived channel
+  traffic_source: z
+    .object({
+      enabled: z.boolean(),
+      source_types: z
+        .array(z.enum(["direct", "organic", "paid", "social", "email", "referral"]))
+        .optional(),
+      utm_sources: z.array(z.string()).optional(), // Supports * wildcards
+      utm_mediums: z.array(z.string()).optional(),
+      utm_campaigns: z.array(z.string()).optional(),
+      referrer_domains: z.array(z.string()).optional(), // Also matches subdomains
+    })
+    .optional(),
+
+  // Purchase history of logged-in customers (Shopify Admin API + our conversions)
+  purchase_history: z
+    .object({
+      enabled: z.boolean(),
+      has_purchased: z.boolean().optional(),
+      min_orders: z.number().int().min(0).optional(),
+      max_orders: z.number().int().min(0).optional(),
+      min_total_spent: z.number().min(0).optional(), // Store currency
+      max_total_spent: z.number().min(0).optional(),
+      min_days_since_last_order: z.number().int().min(0).optional(),
+      max_days_since_last_order: z.number().int().min(0).optional(),
+    })
+    .optional(),
+
+  // Cart contents, evaluated server-side from the storefront's /cart.js snapshot
+  cart_contents: z
+    .object({
+      enabled: z.boolean(),
+      min_subtotal: z.number().min(0).optional(), // Store currency
+      max_subtotal: z.number().min(0).optional(),
+      min_items: z.number().int().min(0).optional(),
+      max_items: z.number().int().min(0).optional(),
+      product_ids: z.array(z.string()).optional(), // Product GIDs
+      collection_ids: z.array(z.string()).optional(), // Collection GIDs
+      product_tags: z.array(z.string()).optional(),
+      // "any" = cart must contain a matching product, "none" = cart must not
+      product_match: z.enum(["any", "none"]).optional(),
+      discount_applied: z.boolean().optional(),
+    })
+    .optional(),
+
   page_targeting: z
     .object({
       enabled: z.boolean(),
@@ -1389,7 +1447,7 @@ export const EnhancedTriggersConfigSchema = z.object({
  * Audience Targeting Configuration Schema
  *
  * Shopify-first: customer-level audiences are defined via Shopify customer segments.
- * Cart-based targeting is now handled by the cart_value trigger in Enhanced Triggers.
+ * Cart-based targeting is handled by the cart_contents rule and cart_value trigger in Enhanced Triggers.
  */
 export const AudienceTargetingConfigSchema = z.object({
   enabled: z.boolean().default(false),
@@ -1436,6 +1494,42 @@ export const GeoTargetingConfigSchema = z.object({
   countries: z.array(z.string().length(2).toUpperCase()).default([]),
 });
 
+/**
+ * Dayparting Window Schema
+ *
+ * A recurring weekly window, e.g. weekends all day or weekdays 17:00-19:00.
+ * Days use Date#getDay numbering (0 = Sunday). When endTime <= startTime the
+ * window runs overnight and ends on the following day.
+ */
+export const DaypartingWindowSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).min(1),
+  startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm (24h)"),
+  endTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:mm (24h)"),
+});
+
+/**
+ * Dayparting Configuration Schema
+ *
+ * Recurring windows on top of the campaign start/end dates. Evaluated in the
+ * store's timezone, or in the visitor's browser timezone when it is known.
+ */
+export const DaypartingConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  timezoneMode: z.enum(["store", "visitor"]).default("store"),
+  windows: z.array(DaypartingWindowSchema).default([]),
+});
+
+/**
+ * Holdout Configuration Schema
+ *
+ * Per-campaign incrementality holdout. When enabled it replaces the store-wide
+ * holdout for this campaign: `percentage` of visitors is never shown the campaign.
+ */
+export const HoldoutConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  percentage: z.number().int().min(1).max(50).default(10),
+});
+
 /**
  * Target Rules Configuration Schema
  * Note: frequencyCapping is now stored in enhancedTriggers.frequency_capping (server format)
@@ -1445,6 +1539,8 @@ export const TargetRulesConfigSchema = z.object({
   audienceTargeting: AudienceTargetingConfigSchema.optional(),
   pageTargeting: PageTargetingConfigSchema.optional(),
   geoTargeting: GeoTargetingConfigSchema.optional(),
+  dayparting: DaypartingConfigSchema.optional(),
+  holdout: HoldoutConfigSchema.optional(),
 });
 
 export type DesignConfig = z.infer<typeof DesignConfigSchema>;
@@ -1452,6 +1548,9 @@ export type EnhancedTriggersConfig = z.infer<typeof EnhancedTriggersConfigSchema
 export type AudienceTargetingConfig = z.infer<typeof AudienceTargetingConfigSchema>;
 export type PageTargetingConfig = z.infer<typeof PageTargetingConfigSchema>;
 export type GeoTargetingConfig = z.infer<typeof GeoTargetingConfigSchema>;
+export type DaypartingWindow = z.infer<typeof DaypartingWindowSchema>;
+export type DaypartingConfig = z.infer<typeof DaypartingConfigSchema>;
+export type HoldoutConfig = z.infer<typeof HoldoutConfigSchema>;
 export type TargetRulesConfig = z.infer<typeof TargetRulesConfigSchema>;
 
 // ============================================================================
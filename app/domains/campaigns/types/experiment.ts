@@ -45,6 +45,37 @@ export const TrafficAllocationSchema = z
     }
   );
 
+/**
+ * Sequential Testing Configuration
+ * Lets experiments be monitored continuously without inflating false positives
+ */
+export const SequentialTestingMethodSchema = z.enum([
+  "always_valid", // mSPRT always-valid p-values, safe to check at any time
+  "alpha_spending", // O'Brien-Fleming style alpha-spending boundary
+]);
+
+export const SequentialTestingConfigSchema = z.object({
+  method: SequentialTestingMethodSchema.default("always_valid"),
+  autoStop: z.boolean().default(true), // Let the background evaluator stop the experiment
+  power: z.number().min(0.5).max(0.99).default(0.8), // Used to plan the sample size
+});
+
+/**
+ * Bandit Allocation Configuration
+ * Shifts traffic toward better-converting variants instead of a static split
+ */
+export const BanditAlgorithmSchema = z.enum([
+  "thompson_sampling", // Allocate by posterior probability to be best
+  "epsilon_greedy", // Exploit the current leader, explore with probability epsilon
+]);
+
+export const BanditConfigSchema = z.object({
+  algorithm: BanditAlgorithmSchema.default("thompson_sampling"),
+  epsilon: z.number().min(0).max(1).default(0.1), // Exploration rate (epsilon_greedy only)
+  minimumAllocation: z.number().min(0).max(25).default(5), // Floor per variant, in percent
+  warmupImpressions: z.number().int().min(0).default(100), // Static split until every variant has this many
+});
+
 /**
  * Statistical Configuration
  */
@@ -53,6 +84,8 @@ export const StatisticalConfigSchema = z.object({
   minimumSampleSize: z.number().int().min(100).default(1000),
   minimumDetectableEffect: z.number().min(0.01).max(1).default(0.05), // 5% minimum effect
   maxDurationDays: z.number().int().min(1).max(90).default(30),
+  sequentialTesting: SequentialTestingConfigSchema.optional(), // Fixed-horizon analysis when absent
+  bandit: BanditConfigSchema.optional(), // Static traffic split when absent
 });
 
 /**
@@ -81,6 +114,11 @@ export const SuccessMetricsSchema = z.object({
     .optional(),
 });
 
+/**
+ * Outcome recorded when an experiment is stopped
+ */
+export const ExperimentConclusionSchema = z.enum(["WINNER_DECLARED", "NO_DETECTABLE_DIFFERENCE"]);
+
 // ============================================================================
 // EXPERIMENT SCHEMAS
 // ============================================================================
@@ -109,6 +147,8 @@ export const BaseExperimentSchema = z.object({
   // Results
   winnerId: z.string().cuid().nullable(), // Campaign ID of winning variant
   winnerDeclaredAt: z.date().nullable(),
+  conclusion: ExperimentConclusionSchema.nullable().optional(),
+  lastEvaluatedAt: z.date().nullable().optional(),
 
   // Timestamps
   createdAt: z.date().default(() => new Date()),
@@ -161,6 +201,11 @@ export const ExperimentUpdateDataSchema = ExperimentCreateDataSchema.partial().e
 
 export type TrafficAllocation = z.infer<typeof TrafficAllocationSchema>;
 export type StatisticalConfig = z.infer<typeof StatisticalConfigSchema>;
+export type SequentialTestingMethod = z.infer<typeof SequentialTestingMethodSchema>;
+export type SequentialTestingConfig = z.infer<typeof SequentialTestingConfigSchema>;
+export type ExperimentConclusion = z.infer<typeof ExperimentConclusionSchema>;
+export type BanditAlgorithm = z.infer<typeof BanditAlgorithmSchema>;
+export type BanditConfig = z.infer<typeof BanditConfigSchema>;
 export type SuccessMetrics = z.infer<typeof SuccessMetricsSchema>;
 export type BaseExperiment = z.infer<typeof BaseExperimentSchema>;
 export type ExperimentWithVariants = z.infer<typeof ExperimentWithVariantsSchema>;
@@ -26,6 +26,12 @@ export const StorefrontContextSchema = z.object({
   visitCount: z.number().int().positive().optional(),
   isReturningVisitor: z.boolean().optional(),
 
+  // Traffic Source Context (first touch of the session)
+  utmSource: z.string().optional(),
+  utmMedium: z.string().optional(),
+  utmCampaign: z.string().optional(),
+  referrerDomain: z.string().optional(),
+
   // Engagement Context
   timeOnSite: z.number().int().nonnegative().optional(),
   pageViews: z.number().int().nonnegative().optional(),
@@ -33,9 +39,13 @@ export const StorefrontContextSchema = z.object({
   productViewCount: z.number().int().nonnegative().optional(),
   addedToCartInSession: z.boolean().optional(),
 
-  // Note: Cart-based targeting (cartValue, cartItemCount) is handled CLIENT-SIDE only
-  // via the cart_value trigger in Enhanced Triggers, which polls /cart.js.
-  // We keep cartToken for potential future use (e.g., abandoned cart recovery).
+  // Cart Context (snapshot of /cart.js taken before fetching campaigns)
+  // Used by the server-side cart_contents rule. The cart_value trigger still
+  // polls /cart.js client-side to react to changes after page load.
+  cartValue: z.number().nonnegative().optional(), // Subtotal in store currency
+  cartItemCount: z.number().int().nonnegative().optional(),
+  cartProductIds: z.array(z.string()).optional(), // Numeric product IDs
+  cartDiscountApplied: z.boolean().optional(),
   cartToken: z.string().optional(),
 
   // Device Context
@@ -45,6 +55,7 @@ export const StorefrontContextSchema = z.object({
   // Location Context (optional)
   country: z.string().optional(),
   region: z.string().optional(),
+  timezone: z.string().optional(), // Browser IANA timezone, used by dayparting
 
   // Product Context (if on product page)
   productId: z.string().optional(),
@@ -95,6 +106,12 @@ export function buildStorefrontContext(
     visitCount: parseInt(searchParams.get("visitCount") || "0") || undefined,
     isReturningVisitor: searchParams.get("isReturningVisitor") === "true" || undefined,
 
+    // Traffic Source Context
+    utmSource: searchParams.get("utmSource") || undefined,
+    utmMedium: searchParams.get("utmMedium") || undefined,
+    utmCampaign: searchParams.get("utmCampaign") || undefined,
+    referrerDomain: searchParams.get("referrerDomain")?.toLowerCase() || undefined,
+
     // Engagement Context
     timeOnSite: parseInt(searchParams.get("timeOnSite") || "0") || undefined,
     pageViews: parseInt(searchParams.get("pageViews") || "0") || undefined,
@@ -102,8 +119,14 @@ export function buildStorefrontContext(
     productViewCount: parseInt(searchParams.get("productViewCount") || "0") || undefined,
     addedToCartInSession: searchParams.get("addedToCartInSession") === "true" || undefined,
 
-    // Cart Context (cartToken kept for potential abandoned cart recovery)
-    // Note: cartValue and cartItemCount are handled CLIENT-SIDE only via cart_value trigger
+    // Cart Context
+    cartValue: parseCartNumber(searchParams.get("cartValue")),
+    cartItemCount: parseCartNumber(searchParams.get("cartItemCount")),
+    cartProductIds: searchParams.get("cartProductIds")?.split(",").filter(Boolean) || undefined,
+    cartDiscountApplied:
+      searchParams.has("cartDiscountApplied")
+        ? searchParams.get("cartDiscountApplied") === "true"
+        : undefined,
     cartToken: searchParams.get("cartToken") || undefined,
 
     // Device Context
@@ -112,6 +135,7 @@ export function buildStorefrontContext(
 
     // Location Context (from Shopify CDN headers)
     country: countryCode,
+    timezone: searchParams.get("timezone") || undefined,
 
     // Product Context
     productId: searchParams.get("productId") || undefined,
@@ -129,6 +153,15 @@ export function buildStorefrontContext(
   };
 }
 
+/**
+ * Parse a cart number param, keeping 0 (an empty cart is meaningful)
+ */
+function parseCartNumber(value: string | null): number | undefined {
+  if (value === null || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
 /**
  * Detect device type from user agent
  */
@@ -0,0 +1,82 @@
+/**
+ * Arbitration Helpers - Pick winners among campaigns matching the same page
+ *
+ * Used by the server-side pre-filter (CampaignFilterService.filterByArbitration).
+ * The storefront enforces concurrent overlays when triggers fire.
+ */
+
+import type { ArbitrationTiebreak, ExclusiveCampaignGroup } from "~/domains/store/types/settings";
+
+export interface ArbitrationCandidate {
+  id: string;
+  priority?: number | null;
+}
+
+export interface RankOptions {
+  /** Historical conversion rate per campaign ID (percent) */
+  conversionRates?: Map<string, number>;
+  /** Stable seed (visitor ID) so "random" picks the same winner on every page */
+  seed?: string;
+}
+
+/**
+ * Deterministic 32-bit string hash
+ */
+function hashString(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    hash = (hash << 5) - hash + str.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return Math.abs(hash);
+}
+
+/**
+ * Order campaigns best-first according to the tiebreak.
+ * Priority (highest first) always breaks remaining ties; the sort is stable.
+ */
+export function rankCampaigns<T extends ArbitrationCandidate>(
+  campaigns: T[],
+  tiebreak: ArbitrationTiebreak,
+  options: RankOptions = {}
+): T[] {
+  const byPriority = (a: T, b: T) => (b.priority || 0) - (a.priority || 0);
+
+  if (tiebreak === "conversion_rate") {
+    const rates = options.conversionRates ?? new Map<string, number>();
+    return [...campaigns].sort(
+      (a, b) => (rates.get(b.id) ?? 0) - (rates.get(a.id) ?? 0) || byPriority(a, b)
+    );
+  }
+
+  if (tiebreak === "random") {
+    const keys = new Map(
+      campaigns.map((campaign) => [
+        campaign.id,
+        options.seed ? hashString(options.seed + campaign.id) : Math.random(),
+      ])
+    );
+    return [...campaigns].sort((a, b) => keys.get(a.id)! - keys.get(b.id)!);
+  }
+
+  return [...campaigns].sort(byPriority);
+}
+
+/**
+ * Keep at most one campaign per exclusive group, walking the ranked list in order.
+ * Campaigns outside every group are always kept.
+ */
+export function applyExclusiveGroups<T extends ArbitrationCandidate>(
+  ranked: T[],
+  groups: ExclusiveCampaignGroup[]
+): T[] {
+  const claimed = new Set<string>();
+
+  return ranked.filter((campaign) => {
+    const memberOf = groups.filter((group) => group.campaignIds.includes(campaign.id));
+    if (memberOf.some((group) => claimed.has(group.id))) return false;
+
+    memberOf.forEach((group) => claimed.add(group.id));
+    return true;
+  });
+}
@@ -0,0 +1,170 @@
+/**
+ * Filter Trace - Records why each campaign passed or was rejected
+ *
+ * Used by the targeting simulator (admin) and the storefront `?rb_debug=<token>` flag.
+ * CampaignFilterService records every filter step; reasons are derived from the
+ * campaign's rules and the storefront context, unless the step supplies its own
+ * (e.g. the frequency-cap reason).
+ */
+
+import type { CampaignWithConfigs } from "~/domains/campaigns/types/campaign";
+import type { StorefrontContext } from "~/domains/campaigns/types/storefront-context";
+import { classifyTrafficSource } from "~/domains/targeting/utils/traffic-source";
+
+export type FilterStepName =
+  | "SCHEDULE"
+  | "DEVICE_TYPE"
+  | "GEO_TARGETING"
+  | "VISITOR_STATUS"
+  | "TRAFFIC_SOURCE"
+  | "PAGE_TARGETING"
+  | "AUDIENCE_SEGMENTS"
+  | "PURCHASE_HISTORY"
+  | "CART_CONTENTS"
+  | "VARIANT_ASSIGNMENT"
+  | "FREQUENCY_CAPPING"
+  | "ARBITRATION"
+  | "HOLDOUT";
+
+export interface FilterStepResult {
+  step: FilterStepName;
+  passed: boolean;
+  reason?: string;
+}
+
+export interface CampaignTrace {
+  campaignId: string;
+  campaignName: string;
+  shown: boolean;
+  /** First step that rejected the campaign */
+  rejectedBy?: FilterStepName;
+  reason?: string;
+  steps: FilterStepResult[];
+}
+
+/**
+ * Collects a per-campaign trace while CampaignFilterService runs
+ */
+export class FilterTrace {
+  private traces = new Map<string, CampaignTrace>();
+  private pendingReasons = new Map<string, string>();
+
+  constructor(campaigns: Pick<CampaignWithConfigs, "id" | "name">[]) {
+    campaigns.forEach((campaign) => {
+      this.traces.set(campaign.id, {
+        campaignId: campaign.id,
+        campaignName: campaign.name,
+        shown: true,
+        steps: [],
+      });
+    });
+  }
+
+  /**
+   * Let a filter explain its own decision for the step being recorded
+   */
+  setReason(campaignId: string, reason: string): void {
+    this.pendingReasons.set(campaignId, reason);
+  }
+
+  /**
+   * Record one filter step: campaigns missing from `output` were rejected by it
+   */
+  recordStep(
+    step: FilterStepName,
+    input: CampaignWithConfigs[],
+    output: CampaignWithConfigs[],
+    context: StorefrontContext
+  ): void {
+    const kept = new Set(output.map((campaign) => campaign.id));
+
+    input.forEach((campaign) => {
+      const trace = this.traces.get(campaign.id);
+      if (!trace) return;
+
+      const passed = kept.has(campaign.id);
+      const reason = passed
+        ? undefined
+        : (this.pendingReasons.get(campaign.id) ?? describeRejection(step, campaign, context));
+
+      trace.steps.push({ step, passed, reason });
+      if (!passed) {
+        trace.shown = false;
+        trace.rejectedBy = step;
+        trace.reason = reason;
+      }
+    });
+
+    this.pendingReasons.clear();
+  }
+
+  /**
+   * Mark a campaign rejected before filtering started (status, schedule)
+   */
+  reject(campaignId: string, step: FilterStepName, reason: string): void {
+    const trace = this.traces.get(campaignId);
+    if (!trace) return;
+
+    trace.steps.push({ step, passed: false, reason });
+    trace.shown = false;
+    trace.rejectedBy = step;
+    trace.reason = reason;
+  }
+
+  getTraces(): CampaignTrace[] {
+    return Array.from(this.traces.values());
+  }
+}
+
+/**
+ * Human-readable reason a campaign was rejected by a filter step
+ */
+export function describeRejection(
+  step: FilterStepName,
+  campaign: CampaignWithConfigs,
+  context: StorefrontContext
+): string {
+  const triggers = campaign.targetRules?.enhancedTriggers;
+
+  switch (step) {
+    case "DEVICE_TYPE": {
+      const devices = triggers?.device_targeting?.device_types ?? [];
+      return `Device "${context.deviceType}" is not targeted (targets: ${devices.join(", ")})`;
+    }
+    case "GEO_TARGETING": {
+      const country = context.country?.toUpperCase();
+      return campaign.targetRules?.geoTargeting?.mode === "exclude"
+        ? `Country ${country} is excluded`
+        : `Country ${country} is not in the targeted countries`;
+    }
+    case "VISITOR_STATUS": {
+      const rule = triggers?.visitor_status;
+      const visits = context.visitCount !== undefined ? ` (visit #${context.visitCount})` : "";
+      return `Visitor does not match the "${rule?.status ?? "any"}" visitor rule${visits}`;
+    }
+    case "TRAFFIC_SOURCE":
+      return `Traffic source "${classifyTrafficSource(context)}" does not match the campaign's source rule`;
+    case "PAGE_TARGETING":
+      return `Page "${context.pageUrl}" is not targeted or is excluded`;
+    case "AUDIENCE_SEGMENTS":
+      return context.customerId
+        ? "Customer is not in any of the targeted segments"
+        : "Visitor is not logged in and the campaign targets customer segments";
+    case "PURCHASE_HISTORY":
+      return context.customerId
+        ? "Customer's purchase history does not match the rule"
+        : "Guest visitors count as customers without orders, which the rule excludes";
+    case "CART_CONTENTS":
+      return "Cart does not match the cart contents rule";
+    case "VARIANT_ASSIGNMENT":
+      return "Visitor is assigned to another variant of this experiment";
+    case "FREQUENCY_CAPPING":
+      return "Frequency cap reached";
+    case "ARBITRATION":
+      return "Another campaign in the same exclusive group won arbitration";
+    case "HOLDOUT":
+      return "Visitor is in the campaign's holdout group";
+    case "SCHEDULE":
+      return "Campaign is not active or outside its schedule";
+  }
+}
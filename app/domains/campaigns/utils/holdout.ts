@@ -0,0 +1,72 @@
+/**
+ * Holdout Helpers - Deterministic incrementality holdout groups
+ *
+ * Used by the server-side filter (CampaignFilterService.filterByHoldout).
+ * A visitor is held out when their bucket (0-9999) falls below the holdout share:
+ * - Store-wide holdout (StoreSettings.holdout): seeded with the store ID, so the
+ *   same visitors are held out of every campaign
+ * - Campaign holdout (targetRules.holdout): seeded with the campaign ID and
+ *   replaces the store-wide holdout for that campaign
+ */
+
+import type { CampaignWithConfigs } from "~/domains/campaigns/types/campaign";
+import { HoldoutSettingsSchema, type StoreSettings } from "~/domains/store/types/settings";
+
+export type HoldoutScope = "store" | "campaign";
+
+export interface HoldoutPolicy {
+  scope: HoldoutScope;
+  /** Share of visitors held out (1-50) */
+  percentage: number;
+  /** Campaign ID or store ID the visitor's bucket is derived from */
+  seed: string;
+}
+
+const HOLDOUT_BUCKETS = 10000;
+
+/**
+ * Deterministic 32-bit string hash
+ */
+function hashString(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    hash = (hash << 5) - hash + str.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return Math.abs(hash);
+}
+
+/**
+ * Holdout applying to a campaign, or null when it has none
+ */
+export function getHoldoutPolicy(
+  campaign: Pick<CampaignWithConfigs, "id" | "targetRules">,
+  storeId: string,
+  storeSettings?: StoreSettings
+): HoldoutPolicy | null {
+  const campaignHoldout = campaign.targetRules?.holdout;
+  if (campaignHoldout?.enabled) {
+    return { scope: "campaign", percentage: campaignHoldout.percentage, seed: campaign.id };
+  }
+
+  const parsed = HoldoutSettingsSchema.safeParse(storeSettings?.holdout);
+  if (parsed.success && parsed.data.enabled) {
+    return { scope: "store", percentage: parsed.data.percentage, seed: storeId };
+  }
+
+  return null;
+}
+
+/**
+ * Stable bucket (0-9999) of a visitor for a holdout seed
+ */
+export function getHoldoutBucket(visitorId: string, seed: string): number {
+  return hashString(`${visitorId}:holdout:${seed}`) % HOLDOUT_BUCKETS;
+}
+
+/**
+ * Whether the visitor belongs to the holdout group of a policy
+ */
+export function isInHoldout(visitorId: string, policy: HoldoutPolicy): boolean {
+  return getHoldoutBucket(visitorId, policy.seed) < (policy.percentage / 100) * HOLDOUT_BUCKETS;
+}
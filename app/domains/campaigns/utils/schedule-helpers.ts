@@ -7,6 +7,8 @@
  * - Extracted from ScheduleSettingsStep for better reusability
  */
 
+import type { DaypartingConfig, DaypartingWindow } from "../types/campaign.js";
+
 export type CampaignStatus = "DRAFT" | "ACTIVE" | "PAUSED" | "ARCHIVED";
 
 // ============================================================================
@@ -278,3 +280,143 @@ export function isWithinSchedule(
     return true;
   }
 }
+
+// ============================================================================
+// DAYPARTING HELPERS
+// ============================================================================
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0,
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+};
+
+export const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Check that a string is an IANA timezone the runtime understands
+ */
+export function isValidTimezone(timezone?: string | null): timezone is string {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert "HH:mm" to minutes since midnight
+ */
+export function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Day of week (0 = Sunday) and minutes since midnight for an instant in a timezone
+ */
+export function getZonedDayAndTime(
+  date: Date,
+  timezone: string
+): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  }).formatToParts(date);
+
+  const weekday = parts.find((p) => p.type === "weekday")?.value ?? "Sun";
+  // Some runtimes report midnight as "24" with hour12: false
+  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? 0) % 24;
+  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? 0);
+
+  return { day: WEEKDAY_INDEX[weekday] ?? 0, minutes: hour * 60 + minute };
+}
+
+/**
+ * Check if a local day/time falls inside a dayparting window
+ *
+ * Windows where endTime <= startTime run overnight: "Fri 22:00-02:00" also
+ * matches Saturday before 02:00. Equal times cover a full 24 hours.
+ */
+export function isWithinDaypartingWindow(
+  window: DaypartingWindow,
+  day: number,
+  minutes: number
+): boolean {
+  const start = parseTimeOfDay(window.startTime);
+  const end = parseTimeOfDay(window.endTime);
+
+  if (end > start) {
+    return window.days.includes(day) && minutes >= start && minutes < end;
+  }
+
+  const previousDay = (day + 6) % 7;
+  return (
+    (window.days.includes(day) && minutes >= start) ||
+    (window.days.includes(previousDay) && minutes < end)
+  );
+}
+
+/**
+ * Check if the current time is within any of the campaign's dayparting windows
+ *
+ * @param dayparting - Dayparting config from targetRules (optional)
+ * @param timezone - IANA timezone to evaluate the windows in
+ * @param now - Instant to check, defaults to the current time
+ * @returns true when dayparting is off, has no windows, or a window matches
+ */
+export function isWithinDayparting(
+  dayparting: DaypartingConfig | undefined | null,
+  timezone: string = "UTC",
+  now: Date = new Date()
+): boolean {
+  if (!dayparting?.enabled || !dayparting.windows?.length) {
+    return true;
+  }
+
+  try {
+    const { day, minutes } = getZonedDayAndTime(now, timezone);
+    return dayparting.windows.some((window) => isWithinDaypartingWindow(window, day, minutes));
+  } catch (error) {
+    console.error("[Schedule Helper] Error checking dayparting:", error);
+    // On error, default to allowing the campaign (fail open)
+    return true;
+  }
+}
+
+/**
+ * Describe the days of a window ("Every day", "Weekdays", "Weekends" or a list)
+ */
+export function formatDaypartingDays(days: number[]): string {
+  const sorted = [...new Set(days)].sort((a, b) => a - b);
+  const key = sorted.join(",");
+
+  if (key === "0,1,2,3,4,5,6") return "Every day";
+  if (key === "1,2,3,4,5") return "Weekdays";
+  if (key === "0,6") return "Weekends";
+
+  return sorted.map((day) => DAY_LABELS[day]).join(", ");
+}
+
+/**
+ * Format a dayparting window for display, e.g. "Weekdays, 17:00–19:00"
+ */
+export function formatDaypartingWindow(window: DaypartingWindow): string {
+  const days = formatDaypartingDays(window.days);
+
+  if (window.startTime === "00:00" && window.endTime === "00:00") {
+    return `${days}, all day`;
+  }
+
+  const overnight = parseTimeOfDay(window.endTime) <= parseTimeOfDay(window.startTime);
+  return `${days}, ${window.startTime}–${window.endTime}${overnight ? " (overnight)" : ""}`;
+}
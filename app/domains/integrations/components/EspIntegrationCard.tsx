@@ -0,0 +1,196 @@
+/**
+ * EspIntegrationCard - Connect one email service provider
+ *
+ * API key, default list / audience, a list per campaign and the custom
+ * property names lead fields are sent as. Saving checks the key with the
+ * provider first.
+ */
+
+import { useState } from "react";
+import {
+  Badge,
+  BlockStack,
+  Button,
+  Card,
+  Checkbox,
+  InlineGrid,
+  InlineStack,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import {
+  DEFAULT_PROPERTY_MAPPINGS,
+  ESP_LIST_LABELS,
+  ESP_PROVIDER_LABELS,
+  LEAD_PROPERTY_KEYS,
+  LEAD_PROPERTY_LABELS,
+  type EspIntegrationInput,
+  type EspIntegrationSummary,
+  type EspProvider,
+} from "../types";
+
+export interface EspIntegrationCardProps {
+  provider: EspProvider;
+  integration: EspIntegrationSummary | null;
+  campaigns: Array<{ id: string; name: string }>;
+  saving: boolean;
+  onSave: (input: EspIntegrationInput) => void;
+  onRemove: () => void;
+}
+
+const PROVIDER_HELP: Record<EspProvider, string> = {
+  klaviyo:
+    "Private API key with Profiles, Lists and Subscriptions write access. Leads who consented are subscribed to the list.",
+  mailchimp:
+    "API key including its data center (e.g. ...-us21). Custom properties are sent as merge fields, which must exist in the audience.",
+  omnisend:
+    "API key with Contacts access. Omnisend has no lists, so the list is added to the lead as a tag.",
+};
+
+export function EspIntegrationCard({
+  provider,
+  integration,
+  campaigns,
+  saving,
+  onSave,
+  onRemove,
+}: EspIntegrationCardProps) {
+  const listLabel = ESP_LIST_LABELS[provider];
+  const [apiKey, setApiKey] = useState("");
+  const [enabled, setEnabled] = useState(integration?.enabled ?? true);
+  const [defaultListId, setDefaultListId] = useState(integration?.defaultListId ?? "");
+  const [campaignLists, setCampaignLists] = useState<Record<string, string>>(
+    integration?.campaignLists ?? {}
+  );
+  const [propertyMapping, setPropertyMapping] = useState<Record<string, string>>(() => {
+    const mapping = integration?.propertyMapping ?? DEFAULT_PROPERTY_MAPPINGS[provider];
+    return Object.fromEntries(LEAD_PROPERTY_KEYS.map((key) => [key, mapping[key] ?? ""]));
+  });
+
+  const handleSave = () => {
+    onSave({
+      provider,
+      apiKey: apiKey.trim() || undefined,
+      enabled,
+      defaultListId: defaultListId.trim() || null,
+      campaignLists,
+      propertyMapping,
+    });
+    setApiKey("");
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <InlineStack align="space-between" blockAlign="center">
+          <InlineStack gap="200" blockAlign="center">
+            <Text as="h2" variant="headingMd">
+              {ESP_PROVIDER_LABELS[provider]}
+            </Text>
+            {!integration ? (
+              <Badge>Not connected</Badge>
+            ) : !integration.apiKeyHint ? (
+              <Badge tone="critical">Reconnect</Badge>
+            ) : integration.enabled ? (
+              <Badge tone="success">Connected</Badge>
+            ) : (
+              <Badge tone="attention">Paused</Badge>
+            )}
+          </InlineStack>
+          {integration && (
+            <Button variant="plain" tone="critical" onClick={onRemove} disabled={saving}>
+              Disconnect
+            </Button>
+          )}
+        </InlineStack>
+        <Text as="p" tone="subdued">
+          {PROVIDER_HELP[provider]}
+        </Text>
+
+        <TextField
+          label="API key"
+          type="password"
+          autoComplete="off"
+          value={apiKey}
+          onChange={setApiKey}
+          placeholder={
+            integration?.apiKeyHint ? `Stored key ending in ${integration.apiKeyHint}` : undefined
+          }
+          helpText={integration?.apiKeyHint ? "Leave blank to keep the stored key" : undefined}
+        />
+
+        {integration && (
+          <Checkbox
+            label="Send new leads"
+            helpText="Paused integrations keep their queued leads until they are enabled again"
+            checked={enabled}
+            onChange={setEnabled}
+          />
+        )}
+
+        <TextField
+          label={`Default ${listLabel.toLowerCase()}`}
+          autoComplete="off"
+          value={defaultListId}
+          onChange={setDefaultListId}
+          helpText={`${listLabel} ID used for campaigns without their own`}
+        />
+
+        {campaigns.length > 0 && (
+          <BlockStack gap="200">
+            <Text as="h3" variant="headingSm">
+              {listLabel} per campaign
+            </Text>
+            <InlineGrid columns={{ xs: 1, md: 2 }} gap="300">
+              {campaigns.map((campaign) => (
+                <TextField
+                  key={campaign.id}
+                  label={campaign.name}
+                  autoComplete="off"
+                  value={campaignLists[campaign.id] ?? ""}
+                  placeholder={defaultListId || undefined}
+                  onChange={(value) =>
+                    setCampaignLists((lists) => ({ ...lists, [campaign.id]: value.trim() }))
+                  }
+                />
+              ))}
+            </InlineGrid>
+          </BlockStack>
+        )}
+
+        <BlockStack gap="200">
+          <Text as="h3" variant="headingSm">
+            Custom properties
+          </Text>
+          <Text as="p" tone="subdued">
+            Property name each lead field is sent as. Leave blank to not send the field.
+          </Text>
+          <InlineGrid columns={{ xs: 1, md: 2 }} gap="300">
+            {LEAD_PROPERTY_KEYS.map((key) => (
+              <TextField
+                key={key}
+                label={LEAD_PROPERTY_LABELS[key]}
+                autoComplete="off"
+                value={propertyMapping[key]}
+                onChange={(value) =>
+                  setPropertyMapping((mapping) => ({ ...mapping, [key]: value.trim() }))
+                }
+              />
+            ))}
+          </InlineGrid>
+        </BlockStack>
+
+        <InlineStack align="end">
+          <Button
+            variant="primary"
+            onClick={handleSave}
+            loading={saving}
+            disabled={!integration?.apiKeyHint && !apiKey.trim()}
+          >
+            {integration ? "Save" : "Connect"}
+          </Button>
+        </InlineStack>
+      </BlockStack>
+    </Card>
+  );
+}
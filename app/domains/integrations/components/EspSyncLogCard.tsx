@@ -0,0 +1,104 @@
+/**
+ * EspSyncLogCard - Delivery status of each lead at each connected ESP
+ */
+
+import {
+  Badge,
+  BlockStack,
+  Button,
+  Card,
+  DataTable,
+  InlineStack,
+  Select,
+  Text,
+} from "@shopify/polaris";
+import { ESP_PROVIDER_LABELS, type EspSyncLogEntry, type EspSyncStatus } from "../types";
+
+export interface EspSyncLogCardProps {
+  entries: EspSyncLogEntry[];
+  status: EspSyncStatus | "all";
+  retryingJobId: string | null;
+  onStatusChange: (status: EspSyncStatus | "all") => void;
+  onRetry: (jobId: string) => void;
+}
+
+const STATUS_OPTIONS = [
+  { label: "All deliveries", value: "all" },
+  { label: "Queued / retrying", value: "pending" },
+  { label: "Delivered", value: "delivered" },
+  { label: "Failed", value: "failed" },
+];
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : "-");
+
+function StatusBadge({ entry }: { entry: EspSyncLogEntry }) {
+  if (entry.status === "delivered") return <Badge tone="success">Delivered</Badge>;
+  if (entry.status === "failed") return <Badge tone="critical">Failed</Badge>;
+  return entry.attempts > 0 ? (
+    <Badge tone="warning">Retrying</Badge>
+  ) : (
+    <Badge tone="info">Queued</Badge>
+  );
+}
+
+export function EspSyncLogCard({
+  entries,
+  status,
+  retryingJobId,
+  onStatusChange,
+  onRetry,
+}: EspSyncLogCardProps) {
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <InlineStack align="space-between" blockAlign="center">
+          <Text as="h2" variant="headingMd">
+            Sync log
+          </Text>
+          <Select
+            label="Status"
+            labelHidden
+            options={STATUS_OPTIONS}
+            value={status}
+            onChange={(value) => onStatusChange(value as EspSyncStatus | "all")}
+          />
+        </InlineStack>
+
+        {entries.length === 0 ? (
+          <Text as="p" tone="subdued">
+            No lead deliveries yet.
+          </Text>
+        ) : (
+          <DataTable
+            columnContentTypes={["text", "text", "text", "text", "numeric", "text", "text"]}
+            headings={["Lead", "Campaign", "Platform", "Status", "Attempts", "Details", ""]}
+            rows={entries.map((entry) => [
+              entry.email,
+              entry.campaignName,
+              ESP_PROVIDER_LABELS[entry.provider],
+              <StatusBadge key="status" entry={entry} />,
+              entry.attempts,
+              entry.status === "delivered"
+                ? formatTime(entry.deliveredAt)
+                : entry.status === "pending" && entry.lastError
+                  ? `${entry.lastError} (next try ${formatTime(entry.nextAttemptAt)})`
+                  : (entry.lastError ?? "-"),
+              entry.status === "failed" ? (
+                <Button
+                  key="retry"
+                  size="slim"
+                  onClick={() => onRetry(entry.id)}
+                  loading={retryingJobId === entry.id}
+                >
+                  Retry
+                </Button>
+              ) : (
+                ""
+              ),
+            ])}
+          />
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
@@ -0,0 +1,221 @@
+/**
+ * OutboundWebhooksCard - Endpoints Revenue Boost events are POSTed to
+ *
+ * Add an HTTPS endpoint with the events it receives, pause or change it,
+ * copy its signing secret and send it a test event.
+ */
+
+import { useState } from "react";
+import {
+  Badge,
+  BlockStack,
+  Box,
+  Button,
+  Card,
+  Checkbox,
+  Divider,
+  InlineStack,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import {
+  MAX_WEBHOOK_SUBSCRIPTIONS,
+  WEBHOOK_EVENTS,
+  WEBHOOK_EVENT_LABELS,
+  type WebhookEvent,
+  type WebhookSubscriptionInput,
+  type WebhookSubscriptionSummary,
+} from "../outbound-webhooks";
+
+export interface OutboundWebhooksCardProps {
+  subscriptions: WebhookSubscriptionSummary[];
+  /** Subscription being saved or tested, "new" while one is created */
+  pendingId: string | null;
+  onCreate: (input: WebhookSubscriptionInput) => void;
+  onUpdate: (subscriptionId: string, input: WebhookSubscriptionInput) => void;
+  onDelete: (subscriptionId: string) => void;
+  onSendTest: (subscriptionId: string) => void;
+}
+
+function EventCheckboxes({
+  events,
+  disabled,
+  onChange,
+}: {
+  events: WebhookEvent[];
+  disabled?: boolean;
+  onChange: (events: WebhookEvent[]) => void;
+}) {
+  return (
+    <InlineStack gap="400">
+      {WEBHOOK_EVENTS.map((event) => (
+        <Checkbox
+          key={event}
+          label={WEBHOOK_EVENT_LABELS[event]}
+          helpText={event}
+          checked={events.includes(event)}
+          disabled={disabled}
+          onChange={(checked) =>
+            onChange(checked ? [...events, event] : events.filter((e) => e !== event))
+          }
+        />
+      ))}
+    </InlineStack>
+  );
+}
+
+function WebhookEndpoint({
+  subscription,
+  pending,
+  onUpdate,
+  onDelete,
+  onSendTest,
+}: {
+  subscription: WebhookSubscriptionSummary;
+  pending: boolean;
+  onUpdate: (input: WebhookSubscriptionInput) => void;
+  onDelete: () => void;
+  onSendTest: () => void;
+}) {
+  const [showSecret, setShowSecret] = useState(false);
+
+  const update = (updates: Partial<WebhookSubscriptionInput>) =>
+    onUpdate({
+      url: subscription.url,
+      events: subscription.events,
+      enabled: subscription.enabled,
+      ...updates,
+    });
+
+  return (
+    <BlockStack gap="300">
+      <InlineStack align="space-between" blockAlign="center">
+        <InlineStack gap="200" blockAlign="center">
+          <Text as="span" fontWeight="semibold" breakWord>
+            {subscription.url}
+          </Text>
+          {subscription.enabled ? (
+            <Badge tone="success">Active</Badge>
+          ) : (
+            <Badge tone="attention">Paused</Badge>
+          )}
+        </InlineStack>
+        <InlineStack gap="200">
+          <Button size="slim" onClick={onSendTest} loading={pending}>
+            Send test event
+          </Button>
+          <Button size="slim" variant="plain" tone="critical" onClick={onDelete} disabled={pending}>
+            Delete
+          </Button>
+        </InlineStack>
+      </InlineStack>
+
+      <EventCheckboxes
+        events={subscription.events}
+        disabled={pending}
+        onChange={(events) => events.length > 0 && update({ events })}
+      />
+
+      <Checkbox
+        label="Send events to this endpoint"
+        checked={subscription.enabled}
+        disabled={pending}
+        onChange={(enabled) => update({ enabled })}
+      />
+
+      <TextField
+        label="Signing secret"
+        type={showSecret ? "text" : "password"}
+        autoComplete="off"
+        readOnly
+        value={subscription.secret ?? ""}
+        placeholder={
+          subscription.secret ? undefined : "Unavailable - delete and re-add this endpoint"
+        }
+        helpText="Verify the X-Revenue-Boost-Signature header: t=<timestamp>,v1=<HMAC-SHA256 of '<timestamp>.<body>'>"
+        connectedRight={
+          <Button onClick={() => setShowSecret(!showSecret)} disabled={!subscription.secret}>
+            {showSecret ? "Hide" : "Show"}
+          </Button>
+        }
+      />
+    </BlockStack>
+  );
+}
+
+export function OutboundWebhooksCard({
+  subscriptions,
+  pendingId,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onSendTest,
+}: OutboundWebhooksCardProps) {
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["lead.created"]);
+  const atLimit = subscriptions.length >= MAX_WEBHOOK_SUBSCRIPTIONS;
+
+  const handleCreate = () => {
+    onCreate({ url: url.trim(), events, enabled: true });
+    setUrl("");
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            Webhooks
+          </Text>
+          <Text as="p" tone="subdued">
+            Send leads, coupons, conversions and experiment results to your own endpoints (n8n,
+            Zapier, internal services). Failed deliveries are retried for about a day.
+          </Text>
+        </BlockStack>
+
+        {subscriptions.map((subscription) => (
+          <BlockStack key={subscription.id} gap="400">
+            <Divider />
+            <WebhookEndpoint
+              subscription={subscription}
+              pending={pendingId === subscription.id}
+              onUpdate={(input) => onUpdate(subscription.id, input)}
+              onDelete={() => onDelete(subscription.id)}
+              onSendTest={() => onSendTest(subscription.id)}
+            />
+          </BlockStack>
+        ))}
+
+        <Divider />
+        <Box>
+          <BlockStack gap="300">
+            <TextField
+              label="Endpoint URL"
+              type="url"
+              autoComplete="off"
+              value={url}
+              onChange={setUrl}
+              placeholder="https://example.com/webhooks/revenue-boost"
+              disabled={atLimit}
+              helpText={
+                atLimit
+                  ? `You can add up to ${MAX_WEBHOOK_SUBSCRIPTIONS} endpoints`
+                  : "Must use HTTPS"
+              }
+            />
+            <EventCheckboxes events={events} disabled={atLimit} onChange={setEvents} />
+            <InlineStack>
+              <Button
+                onClick={handleCreate}
+                loading={pendingId === "new"}
+                disabled={atLimit || !url.trim() || events.length === 0}
+              >
+                Add endpoint
+              </Button>
+            </InlineStack>
+          </BlockStack>
+        </Box>
+      </BlockStack>
+    </Card>
+  );
+}
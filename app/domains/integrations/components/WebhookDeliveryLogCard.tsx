@@ -0,0 +1,75 @@
+/**
+ * WebhookDeliveryLogCard - Recent outbound webhook deliveries, with replay
+ */
+
+import { Badge, BlockStack, Button, Card, DataTable, Text } from "@shopify/polaris";
+import type { WebhookDeliveryLogEntry } from "../outbound-webhooks";
+
+export interface WebhookDeliveryLogCardProps {
+  entries: WebhookDeliveryLogEntry[];
+  replayingDeliveryId: string | null;
+  onReplay: (deliveryId: string) => void;
+}
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : "-");
+
+function StatusBadge({ entry }: { entry: WebhookDeliveryLogEntry }) {
+  if (entry.status === "delivered") return <Badge tone="success">Delivered</Badge>;
+  if (entry.status === "failed") return <Badge tone="critical">Failed</Badge>;
+  return entry.attempts > 0 ? (
+    <Badge tone="warning">Retrying</Badge>
+  ) : (
+    <Badge tone="info">Queued</Badge>
+  );
+}
+
+export function WebhookDeliveryLogCard({
+  entries,
+  replayingDeliveryId,
+  onReplay,
+}: WebhookDeliveryLogCardProps) {
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <Text as="h2" variant="headingMd">
+          Webhook deliveries
+        </Text>
+
+        {entries.length === 0 ? (
+          <Text as="p" tone="subdued">
+            No webhook deliveries yet.
+          </Text>
+        ) : (
+          <DataTable
+            columnContentTypes={["text", "text", "text", "text", "numeric", "text", "text"]}
+            headings={["Sent", "Event", "Endpoint", "Status", "Attempts", "Details", ""]}
+            rows={entries.map((entry) => [
+              formatTime(entry.createdAt),
+              entry.event,
+              entry.url,
+              <StatusBadge key="status" entry={entry} />,
+              entry.attempts,
+              entry.status === "delivered"
+                ? `${entry.responseStatus ?? ""} at ${formatTime(entry.deliveredAt)}`
+                : entry.status === "pending" && entry.lastError
+                  ? `${entry.lastError} (next try ${formatTime(entry.nextAttemptAt)})`
+                  : (entry.lastError ?? "-"),
+              entry.status === "pending" ? (
+                ""
+              ) : (
+                <Button
+                  key="replay"
+                  size="slim"
+                  onClick={() => onReplay(entry.id)}
+                  loading={replayingDeliveryId === entry.id}
+                >
+                  Replay
+                </Button>
+              ),
+            ])}
+          />
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * Outbound Webhook Types
+ *
+ * Revenue Boost events POSTed to merchant endpoints (n8n, Zapier, internal
+ * services). Shared by the webhook service and the settings page.
+ *
+ * Each request is signed with the subscription's secret:
+ *   X-Revenue-Boost-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+ */
+
+import { z } from "zod";
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+export const WEBHOOK_EVENTS = [
+  "lead.created",
+  "coupon.issued",
+  "conversion.attributed",
+  "experiment.winner_declared",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  "lead.created": "Lead created",
+  "coupon.issued": "Coupon issued",
+  "conversion.attributed": "Conversion attributed",
+  "experiment.winner_declared": "Experiment winner declared",
+};
+
+/** Sent by "Send test event", whatever the subscription's events */
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+
+/**
+ * Request body. `id` is the same for every subscription receiving the event,
+ * so receivers can dedupe replays.
+ */
+export interface WebhookEnvelope {
+  id: string;
+  event: WebhookEvent | typeof WEBHOOK_TEST_EVENT;
+  createdAt: string;
+  shop: string;
+  data: Record<string, unknown>;
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "delivered", "failed"] as const;
+
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+/** Delay before retry N (1-based); a delivery fails for good after the last one */
+export const WEBHOOK_RETRY_DELAYS_MS = [
+  60_000,
+  5 * 60_000,
+  30 * 60_000,
+  2 * 3_600_000,
+  6 * 3_600_000,
+  24 * 3_600_000,
+];
+
+export const MAX_WEBHOOK_ATTEMPTS = WEBHOOK_RETRY_DELAYS_MS.length + 1;
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export const MAX_WEBHOOK_SUBSCRIPTIONS = 10;
+
+/** Hosts that resolve to the app's own network */
+const PRIVATE_HOST =
+  /^(localhost|.*\.local|.*\.internal|127\.\d+\.\d+\.\d+|10\.\d+\.\d+\.\d+|192\.168\.\d+\.\d+|172\.(1[6-9]|2\d|3[01])\.\d+\.\d+|169\.254\.\d+\.\d+|0\.0\.0\.0|\[.*\])$/i;
+
+export const WebhookUrlSchema = z
+  .string()
+  .trim()
+  .url()
+  .max(2000)
+  .startsWith("https://", "Webhook URL must use HTTPS")
+  .refine(
+    (url) => !PRIVATE_HOST.test(new URL(url).hostname),
+    "Webhook URL must be publicly reachable"
+  );
+
+export const WebhookSubscriptionInputSchema = z.object({
+  url: WebhookUrlSchema,
+  events: z
+    .array(z.enum(WEBHOOK_EVENTS))
+    .min(1, "Select at least one event")
+    .transform((events) => Array.from(new Set(events))),
+  enabled: z.boolean().default(true),
+});
+
+export type WebhookSubscriptionInput = z.input<typeof WebhookSubscriptionInputSchema>;
+
+/**
+ * Subscription as shown on the settings page
+ */
+export interface WebhookSubscriptionSummary {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+  /** Signing secret, null when it can't be decrypted */
+  secret: string | null;
+  createdAt: string;
+}
+
+export interface WebhookDeliveryLogEntry {
+  id: string;
+  subscriptionId: string;
+  url: string;
+  event: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
@@ -0,0 +1,82 @@
+/**
+ * JSON-over-HTTP helper shared by the ESP adapters
+ */
+
+import { ServiceError } from "~/lib/errors.server";
+
+export const ESP_REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Failed provider request. Rate limits, timeouts, network and server errors
+ * are retryable; other 4xx responses (bad key, invalid list...) are not.
+ */
+export class EspRequestError extends ServiceError {
+  constructor(
+    message: string,
+    public status: number | null,
+    public retryable: boolean
+  ) {
+    super("ESP_REQUEST_FAILED", message, { status }, "EspRequestError");
+  }
+}
+
+export interface EspRequest {
+  method: "GET" | "POST" | "PUT";
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/** First human-readable error message in a provider's error body */
+function extractErrorMessage(text: string): string {
+  try {
+    const body = JSON.parse(text);
+    const message =
+      body?.errors?.[0]?.detail ?? // Klaviyo
+      body?.detail ?? // Mailchimp
+      body?.error ?? // Omnisend
+      body?.message;
+    if (typeof message === "string" && message) return message;
+  } catch {
+    // Not JSON
+  }
+  return text.slice(0, 200);
+}
+
+export async function espRequest<T>(url: string, request: EspRequest): Promise<T | null> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: request.method,
+      headers: {
+        accept: "application/json",
+        ...(request.body !== undefined ? { "content-type": "application/json" } : {}),
+        ...request.headers,
+      },
+      body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+      signal: AbortSignal.timeout(ESP_REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new EspRequestError(
+      `Request failed: ${error instanceof Error ? error.message : String(error)}`,
+      null,
+      true
+    );
+  }
+
+  const text = await response.text().catch(() => "");
+  if (!response.ok) {
+    const retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+    throw new EspRequestError(
+      `${response.status}: ${extractErrorMessage(text)}`,
+      response.status,
+      retryable
+    );
+  }
+
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * ESP Adapters
+ *
+ * `baseUrl` replaces the provider's API root - tests point it at a local
+ * HTTP stand-in.
+ */
+
+import type { EspAdapter, EspProvider } from "../types";
+import { createKlaviyoAdapter } from "./klaviyo.server";
+import { createMailchimpAdapter } from "./mailchimp.server";
+import { createOmnisendAdapter } from "./omnisend.server";
+
+export { EspRequestError } from "./esp-http.server";
+
+export interface EspCredentials {
+  apiKey: string;
+}
+
+export function createEspAdapter(
+  provider: EspProvider,
+  credentials: EspCredentials,
+  baseUrl?: string
+): EspAdapter {
+  switch (provider) {
+    case "klaviyo":
+      return createKlaviyoAdapter(credentials.apiKey, baseUrl);
+    case "mailchimp":
+      return createMailchimpAdapter(credentials.apiKey, baseUrl);
+    case "omnisend":
+      return createOmnisendAdapter(credentials.apiKey, baseUrl);
+  }
+}
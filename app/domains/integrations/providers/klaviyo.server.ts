@@ -0,0 +1,97 @@
+/**
+ * Klaviyo Adapter
+ *
+ * Upserts the profile (custom properties included) through profile-import,
+ * then adds it to the list: as a subscription when the lead consented to
+ * marketing, as a plain list member otherwise.
+ */
+
+import type { EspAdapter } from "../types";
+import { espRequest } from "./esp-http.server";
+
+export const KLAVIYO_API_URL = "https://a.klaviyo.com";
+export const KLAVIYO_REVISION = "2024-10-15";
+
+/** Klaviyo rejects phone numbers that aren't E.164 */
+const E164_PHONE = /^\+[1-9]\d{6,14}$/;
+
+export function createKlaviyoAdapter(apiKey: string, baseUrl = KLAVIYO_API_URL): EspAdapter {
+  const root = baseUrl.replace(/\/$/, "");
+  const headers = {
+    authorization: `Klaviyo-API-Key ${apiKey}`,
+    revision: KLAVIYO_REVISION,
+  };
+
+  return {
+    provider: "klaviyo",
+
+    async verify() {
+      await espRequest(`${root}/api/lists/?page[size]=1`, { method: "GET", headers });
+    },
+
+    async upsertContact(contact, listId) {
+      const profile = await espRequest<{ data?: { id?: string } }>(`${root}/api/profile-import/`, {
+        method: "POST",
+        headers,
+        body: {
+          data: {
+            type: "profile",
+            attributes: {
+              email: contact.email,
+              first_name: contact.firstName ?? undefined,
+              last_name: contact.lastName ?? undefined,
+              phone_number:
+                contact.phone && E164_PHONE.test(contact.phone) ? contact.phone : undefined,
+              properties: contact.properties,
+            },
+          },
+        },
+      });
+      const profileId = profile?.data?.id ?? null;
+
+      if (listId && contact.marketingConsent) {
+        await espRequest(`${root}/api/profile-subscription-bulk-create-jobs/`, {
+          method: "POST",
+          headers,
+          body: {
+            data: {
+              type: "profile-subscription-bulk-create-job",
+              attributes: {
+                profiles: {
+                  data: [
+                    {
+                      type: "profile",
+                      attributes: {
+                        email: contact.email,
+                        subscriptions: {
+                          email: {
+                            marketing: {
+                              consent: "SUBSCRIBED",
+                              consented_at: contact.consentedAt?.toISOString(),
+                            },
+                          },
+                        },
+                      },
+                    },
+                  ],
+                },
+              },
+              relationships: { list: { data: { type: "list", id: listId } } },
+            },
+          },
+        });
+      } else if (listId && profileId) {
+        await espRequest(
+          `${root}/api/lists/${encodeURIComponent(listId)}/relationships/profiles/`,
+          {
+            method: "POST",
+            headers,
+            body: { data: [{ type: "profile", id: profileId }] },
+          }
+        );
+      }
+
+      return { externalId: profileId };
+    },
+  };
+}
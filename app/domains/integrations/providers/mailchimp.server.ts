@@ -0,0 +1,79 @@
+/**
+ * Mailchimp Adapter
+ *
+ * Upserts the audience member (custom properties as merge fields), then adds
+ * the tags. Leads without marketing consent are added as transactional
+ * members and existing members keep their status; consenting leads are
+ * subscribed either way, so a later opt-in reaches the audience.
+ */
+
+import { createHash } from "crypto";
+import type { EspAdapter } from "../types";
+import { EspRequestError, espRequest } from "./esp-http.server";
+
+/**
+ * API root for a key - keys end with their data center ("...-us21")
+ */
+export function getMailchimpApiUrl(apiKey: string): string {
+  const dataCenter = apiKey.match(/-([a-z]+\d+)$/)?.[1];
+  if (!dataCenter) {
+    throw new EspRequestError(
+      "Mailchimp API keys end with their data center, e.g. -us21",
+      null,
+      false
+    );
+  }
+  return `https://${dataCenter}.api.mailchimp.com`;
+}
+
+/** Members are addressed by the MD5 of their lowercased email */
+export function getSubscriberHash(email: string): string {
+  return createHash("md5").update(email.toLowerCase()).digest("hex");
+}
+
+export function createMailchimpAdapter(apiKey: string, baseUrl?: string): EspAdapter {
+  const headers = {
+    authorization: `Basic ${Buffer.from(`revenue-boost:${apiKey}`).toString("base64")}`,
+  };
+  const getRoot = () => (baseUrl ?? getMailchimpApiUrl(apiKey)).replace(/\/$/, "");
+
+  return {
+    provider: "mailchimp",
+
+    async verify() {
+      await espRequest(`${getRoot()}/3.0/ping`, { method: "GET", headers });
+    },
+
+    async upsertContact(contact, listId) {
+      if (!listId) {
+        throw new EspRequestError("No Mailchimp audience is set for this campaign", null, false);
+      }
+
+      const member = `${getRoot()}/3.0/lists/${encodeURIComponent(listId)}/members/${getSubscriberHash(contact.email)}`;
+      const result = await espRequest<{ id?: string }>(member, {
+        method: "PUT",
+        headers,
+        body: {
+          email_address: contact.email,
+          status_if_new: contact.marketingConsent ? "subscribed" : "transactional",
+          ...(contact.marketingConsent ? { status: "subscribed" } : {}),
+          merge_fields: {
+            ...(contact.firstName ? { FNAME: contact.firstName } : {}),
+            ...(contact.lastName ? { LNAME: contact.lastName } : {}),
+            ...contact.properties,
+          },
+        },
+      });
+
+      if (contact.tags.length > 0) {
+        await espRequest(`${member}/tags`, {
+          method: "POST",
+          headers,
+          body: { tags: contact.tags.map((name) => ({ name, status: "active" })) },
+        });
+      }
+
+      return { externalId: result?.id ?? null };
+    },
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Omnisend Adapter
+ *
+ * Omnisend has no lists: the campaign's "list" is sent as an extra tag next
+ * to the Revenue Boost tags, and custom properties as customProperties.
+ */
+
+import type { EspAdapter } from "../types";
+import { espRequest } from "./esp-http.server";
+
+export const OMNISEND_API_URL = "https://api.omnisend.com";
+
+export function createOmnisendAdapter(apiKey: string, baseUrl = OMNISEND_API_URL): EspAdapter {
+  const root = baseUrl.replace(/\/$/, "");
+  const headers = { "x-api-key": apiKey };
+
+  return {
+    provider: "omnisend",
+
+    async verify() {
+      await espRequest(`${root}/v5/contacts?limit=1`, { method: "GET", headers });
+    },
+
+    async upsertContact(contact, listId) {
+      const result = await espRequest<{ contactID?: string }>(`${root}/v5/contacts`, {
+        method: "POST",
+        headers,
+        body: {
+          identifiers: [
+            {
+              type: "email",
+              id: contact.email,
+              channels: {
+                email: {
+                  status: contact.marketingConsent ? "subscribed" : "nonSubscribed",
+                  statusDate: (contact.consentedAt ?? new Date()).toISOString(),
+                },
+              },
+            },
+          ],
+          firstName: contact.firstName ?? undefined,
+          lastName: contact.lastName ?? undefined,
+          tags: listId ? [...contact.tags, listId] : contact.tags,
+          customProperties: contact.properties,
+        },
+      });
+
+      return { externalId: result?.contactID ?? null };
+    },
+  };
+}
@@ -0,0 +1,460 @@
+/**
+ * ESP Sync Service
+ *
+ * Pushes captured leads to the store's email service providers:
+ * - saveIntegration / removeIntegration: per-store credentials (encrypted,
+ *   verified against the provider), list per campaign and property mapping
+ * - enqueueLead: queues one sync job per enabled integration when a lead is
+ *   captured or updated
+ * - processDueJobs (cron): delivers due jobs, retrying failures with backoff
+ *   up to MAX_SYNC_ATTEMPTS
+ * - getSyncLog / retryJob: each lead's delivery status on the integrations page
+ */
+
+import type { EspIntegration, Prisma } from "@prisma/client";
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import { ServiceError } from "~/lib/errors.server";
+import { decryptSecret, encryptSecret } from "~/lib/credential-cipher.server";
+import { buildCustomerTags } from "~/lib/shopify/customer.server";
+import { createEspAdapter, EspRequestError, type EspCredentials } from "../providers/index.server";
+import {
+  DEFAULT_PROPERTY_MAPPINGS,
+  ESP_PROVIDER_LABELS,
+  EspIntegrationInputSchema,
+  LEAD_PROPERTY_KEYS,
+  MAX_SYNC_ATTEMPTS,
+  SYNC_RETRY_DELAYS_MS,
+  type EspAdapter,
+  type EspContact,
+  type EspIntegrationSummary,
+  type EspProvider,
+  type EspSyncLogEntry,
+  type EspSyncStatus,
+  type PropertyMapping,
+} from "../types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Lead fields needed to build the contact */
+export interface LeadForSync {
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  phone: string | null;
+  marketingConsent: boolean;
+  consentedAt: Date | null;
+  discountCode: string | null;
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  campaign: { id: string; name: string; templateType: string };
+}
+
+export interface SyncRunSummary {
+  processed: number;
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+/** Jobs delivered per cron run */
+const SYNC_BATCH_SIZE = 200;
+/** A claimed job is left alone by other runs for this long */
+const SYNC_LEASE_MS = 5 * 60_000;
+
+/** Leads of game popups played without an email */
+const ANONYMOUS_EMAIL = /@anonymous\.local$/;
+
+const LEAD_SYNC_SELECT = {
+  email: true,
+  firstName: true,
+  lastName: true,
+  phone: true,
+  marketingConsent: true,
+  consentedAt: true,
+  discountCode: true,
+  utmSource: true,
+  utmMedium: true,
+  utmCampaign: true,
+  campaign: { select: { id: true, name: true, templateType: true } },
+} as const;
+
+const DUE_JOB_SELECT = {
+  id: true,
+  storeId: true,
+  attempts: true,
+  nextAttemptAt: true,
+  integration: true,
+  lead: { select: LEAD_SYNC_SELECT },
+} as const satisfies Prisma.EspSyncJobSelect;
+
+const SYNC_LOG_SELECT = {
+  id: true,
+  leadId: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  nextAttemptAt: true,
+  deliveredAt: true,
+  updatedAt: true,
+  integration: { select: { provider: true } },
+  lead: { select: { email: true, campaign: { select: { name: true } } } },
+} as const satisfies Prisma.EspSyncJobSelect;
+
+type DueJobRow = Prisma.EspSyncJobGetPayload<{ select: typeof DUE_JOB_SELECT }>;
+type SyncLogRow = Prisma.EspSyncJobGetPayload<{ select: typeof SYNC_LOG_SELECT }>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Provider columns only hold values that passed EspIntegrationInputSchema */
+function toProvider(provider: string): EspProvider {
+  return provider as EspProvider;
+}
+
+function toStringRecord(value: unknown): Record<string, string> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+  );
+}
+
+/** Stored mapping, or the provider's default until one is saved */
+export function getPropertyMapping(integration: {
+  provider: string;
+  propertyMapping: unknown;
+}): PropertyMapping {
+  const stored = toStringRecord(integration.propertyMapping);
+  return Object.keys(stored).length > 0
+    ? stored
+    : DEFAULT_PROPERTY_MAPPINGS[toProvider(integration.provider)];
+}
+
+/**
+ * Contact for a lead, with the mapped custom properties and Revenue Boost tags
+ */
+export function buildEspContact(lead: LeadForSync, mapping: PropertyMapping): EspContact {
+  const values: Record<(typeof LEAD_PROPERTY_KEYS)[number], string | null> = {
+    campaignId: lead.campaign.id,
+    campaignName: lead.campaign.name,
+    templateType: lead.campaign.templateType,
+    discountCode: lead.discountCode,
+    utmSource: lead.utmSource,
+    utmMedium: lead.utmMedium,
+    utmCampaign: lead.utmCampaign,
+  };
+
+  const properties: Record<string, string> = {};
+  for (const key of LEAD_PROPERTY_KEYS) {
+    const name = mapping[key];
+    const value = values[key];
+    if (name && value) properties[name] = value;
+  }
+
+  return {
+    email: lead.email,
+    firstName: lead.firstName,
+    lastName: lead.lastName,
+    phone: lead.phone,
+    marketingConsent: lead.marketingConsent,
+    consentedAt: lead.consentedAt,
+    properties,
+    tags: buildCustomerTags({
+      source: "revenue-boost-popup",
+      campaignName: lead.campaign.name,
+      templateType: lead.campaign.templateType,
+      discountCode: lead.discountCode ?? undefined,
+    }),
+  };
+}
+
+/** Campaign's own list, else the integration's default */
+export function resolveListId(
+  integration: { defaultListId: string | null; campaignLists: unknown },
+  campaignId: string
+): string | null {
+  return toStringRecord(integration.campaignLists)[campaignId] || integration.defaultListId || null;
+}
+
+export function getRetryDelayMs(attempts: number): number {
+  return SYNC_RETRY_DELAYS_MS[Math.min(attempts, SYNC_RETRY_DELAYS_MS.length) - 1];
+}
+
+function readCredentials(integration: { credentials: string }): EspCredentials {
+  return JSON.parse(decryptSecret(integration.credentials)) as EspCredentials;
+}
+
+function toSummary(integration: EspIntegration): EspIntegrationSummary {
+  let apiKeyHint: string | null = null;
+  try {
+    apiKeyHint = readCredentials(integration).apiKey.slice(-4);
+  } catch {
+    // Encrypted under another key - the merchant has to reconnect
+  }
+
+  return {
+    id: integration.id,
+    provider: toProvider(integration.provider),
+    enabled: integration.enabled,
+    apiKeyHint,
+    defaultListId: integration.defaultListId,
+    campaignLists: toStringRecord(integration.campaignLists),
+    propertyMapping: getPropertyMapping(integration),
+    verifiedAt: integration.verifiedAt?.toISOString() ?? null,
+  };
+}
+
+// ============================================================================
+// ESP SYNC SERVICE
+// ============================================================================
+
+export class EspSyncService {
+  static async getIntegrations(storeId: string): Promise<EspIntegrationSummary[]> {
+    const integrations = await prisma.espIntegration.findMany({
+      where: { storeId },
+      orderBy: { createdAt: "asc" },
+    });
+    return integrations.map((integration) => toSummary(integration));
+  }
+
+  /**
+   * Create or update the store's integration for a provider.
+   * Credentials are checked with the provider before they are stored.
+   */
+  static async saveIntegration(storeId: string, input: unknown): Promise<EspIntegrationSummary> {
+    const parsed = EspIntegrationInputSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new ServiceError("VALIDATION_FAILED", "Invalid integration settings", parsed.error);
+    }
+    const settings = parsed.data;
+    const label = ESP_PROVIDER_LABELS[settings.provider];
+
+    const existing = await prisma.espIntegration.findUnique({
+      where: { storeId_provider: { storeId, provider: settings.provider } },
+    });
+
+    let credentials: EspCredentials | null = settings.apiKey ? { apiKey: settings.apiKey } : null;
+    if (!credentials && existing) {
+      try {
+        credentials = readCredentials(existing);
+      } catch {
+        // Falls through to "API key is required"
+      }
+    }
+    if (!credentials) {
+      throw new ServiceError("VALIDATION_FAILED", `Enter your ${label} API key`);
+    }
+
+    try {
+      await createEspAdapter(settings.provider, credentials).verify();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new ServiceError(
+        "ESP_VERIFY_FAILED",
+        `${label} rejected the API key (${reason})`,
+        error
+      );
+    }
+
+    const data = {
+      credentials: encryptSecret(JSON.stringify(credentials)),
+      enabled: settings.enabled,
+      defaultListId: settings.defaultListId || null,
+      campaignLists: Object.fromEntries(
+        Object.entries(settings.campaignLists).filter(([, listId]) => listId)
+      ),
+      // Blank names stay, so unmapping every field doesn't bring the defaults back
+      propertyMapping: settings.propertyMapping,
+      verifiedAt: new Date(),
+    };
+
+    const integration = await prisma.espIntegration.upsert({
+      where: { storeId_provider: { storeId, provider: settings.provider } },
+      create: { storeId, provider: settings.provider, ...data },
+      update: data,
+    });
+    return toSummary(integration);
+  }
+
+  /**
+   * Disconnect a provider; its queued jobs and sync log go with it
+   */
+  static async removeIntegration(storeId: string, provider: EspProvider): Promise<boolean> {
+    const result = await prisma.espIntegration.deleteMany({ where: { storeId, provider } });
+    return result.count > 0;
+  }
+
+  /**
+   * Queue a lead for every enabled integration of its store, resetting jobs
+   * of a lead that was already synced. Returns the number of jobs queued;
+   * never throws so lead capture isn't affected.
+   */
+  static async enqueueLead(leadId: string): Promise<number> {
+    try {
+      const lead = await prisma.lead.findUnique({
+        where: { id: leadId },
+        select: { storeId: true, email: true },
+      });
+      if (!lead || ANONYMOUS_EMAIL.test(lead.email)) return 0;
+
+      const integrations = await prisma.espIntegration.findMany({
+        where: { storeId: lead.storeId, enabled: true },
+        select: { id: true },
+      });
+
+      const now = new Date();
+      for (const integration of integrations) {
+        await prisma.espSyncJob.upsert({
+          where: { integrationId_leadId: { integrationId: integration.id, leadId } },
+          create: {
+            storeId: lead.storeId,
+            integrationId: integration.id,
+            leadId,
+            nextAttemptAt: now,
+          },
+          update: { status: "pending", attempts: 0, nextAttemptAt: now, lastError: null },
+        });
+      }
+      return integrations.length;
+    } catch (error) {
+      logger.error({ error, leadId }, "[EspSync] Failed to queue lead");
+      return 0;
+    }
+  }
+
+  /**
+   * Deliver the jobs that are due (cron)
+   */
+  static async processDueJobs(now: Date = new Date()): Promise<SyncRunSummary> {
+    const jobs: DueJobRow[] = await prisma.espSyncJob.findMany({
+      where: {
+        status: "pending",
+        nextAttemptAt: { lte: now },
+        integration: { enabled: true },
+      },
+      orderBy: { nextAttemptAt: "asc" },
+      take: SYNC_BATCH_SIZE,
+      select: DUE_JOB_SELECT,
+    });
+
+    const summary: SyncRunSummary = { processed: 0, delivered: 0, retrying: 0, failed: 0 };
+    const adapters = new Map<string, EspAdapter>();
+
+    for (const job of jobs) {
+      // Another run may have picked the job up since it was read
+      const claimed = await prisma.espSyncJob.updateMany({
+        where: { id: job.id, status: "pending", nextAttemptAt: job.nextAttemptAt },
+        data: { nextAttemptAt: new Date(now.getTime() + SYNC_LEASE_MS) },
+      });
+      if (claimed.count === 0) continue;
+
+      summary.processed++;
+      const attempts = job.attempts + 1;
+
+      try {
+        let adapter = adapters.get(job.integration.id);
+        if (!adapter) {
+          adapter = createEspAdapter(
+            toProvider(job.integration.provider),
+            readCredentials(job.integration)
+          );
+          adapters.set(job.integration.id, adapter);
+        }
+
+        const result = await adapter.upsertContact(
+          buildEspContact(job.lead, getPropertyMapping(job.integration)),
+          resolveListId(job.integration, job.lead.campaign.id)
+        );
+
+        await prisma.espSyncJob.update({
+          where: { id: job.id },
+          data: {
+            status: "delivered",
+            attempts,
+            nextAttemptAt: null,
+            lastError: null,
+            externalId: result.externalId,
+            deliveredAt: now,
+          },
+        });
+        summary.delivered++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        // Credentials that can't be decrypted or a rejected request won't fix themselves
+        const retryable = error instanceof EspRequestError ? error.retryable : false;
+        const retry = retryable && attempts < MAX_SYNC_ATTEMPTS;
+
+        await prisma.espSyncJob.update({
+          where: { id: job.id },
+          data: {
+            status: retry ? "pending" : "failed",
+            attempts,
+            nextAttemptAt: retry ? new Date(now.getTime() + getRetryDelayMs(attempts)) : null,
+            lastError: message.slice(0, 500),
+          },
+        });
+
+        if (retry) {
+          summary.retrying++;
+        } else {
+          summary.failed++;
+          logger.warn(
+            {
+              storeId: job.storeId,
+              jobId: job.id,
+              provider: job.integration.provider,
+              error: message,
+            },
+            "[EspSync] Lead delivery failed"
+          );
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Queue a failed job again, with a fresh set of attempts
+   */
+  static async retryJob(storeId: string, jobId: string): Promise<boolean> {
+    const result = await prisma.espSyncJob.updateMany({
+      where: { id: jobId, storeId, status: "failed" },
+      data: { status: "pending", attempts: 0, nextAttemptAt: new Date(), lastError: null },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Most recently updated sync jobs, newest first
+   */
+  static async getSyncLog(
+    storeId: string,
+    options: { status?: EspSyncStatus; limit?: number } = {}
+  ): Promise<EspSyncLogEntry[]> {
+    const jobs: SyncLogRow[] = await prisma.espSyncJob.findMany({
+      where: { storeId, ...(options.status ? { status: options.status } : {}) },
+      orderBy: { updatedAt: "desc" },
+      take: options.limit ?? 50,
+      select: SYNC_LOG_SELECT,
+    });
+
+    return jobs.map((job) => ({
+      id: job.id,
+      provider: toProvider(job.integration.provider),
+      leadId: job.leadId,
+      email: job.lead.email,
+      campaignName: job.lead.campaign.name,
+      status: job.status as EspSyncStatus,
+      attempts: job.attempts,
+      lastError: job.lastError,
+      nextAttemptAt: job.nextAttemptAt?.toISOString() ?? null,
+      deliveredAt: job.deliveredAt?.toISOString() ?? null,
+      updatedAt: job.updatedAt.toISOString(),
+    }));
+  }
+}
@@ -0,0 +1,567 @@
+/**
+ * Outbound Webhook Service
+ *
+ * Sends Revenue Boost events to the store's own endpoints:
+ * - create / update / deleteSubscription: per-store endpoints with a
+ *   generated signing secret (stored encrypted) and the events they receive
+ * - emit: queues one delivery per subscribed endpoint; the event key makes
+ *   re-emitting the same event (webhook retries, duplicate hooks) a no-op
+ * - processDueDeliveries (cron): sends due deliveries, retrying failures with
+ *   backoff up to MAX_WEBHOOK_ATTEMPTS
+ * - replayDelivery / sendTestEvent: immediate sends from the settings page
+ */
+
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import type { Prisma, WebhookSubscription } from "@prisma/client";
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import { ServiceError } from "~/lib/errors.server";
+import { decryptSecret, encryptSecret } from "~/lib/credential-cipher.server";
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  MAX_WEBHOOK_SUBSCRIPTIONS,
+  WEBHOOK_RETRY_DELAYS_MS,
+  WEBHOOK_TEST_EVENT,
+  WebhookSubscriptionInputSchema,
+  type WebhookDeliveryLogEntry,
+  type WebhookDeliveryStatus,
+  type WebhookEnvelope,
+  type WebhookEvent,
+  type WebhookSubscriptionSummary,
+} from "../outbound-webhooks";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WebhookSendResult {
+  delivered: boolean;
+  responseStatus: number | null;
+  error: string | null;
+}
+
+export interface DeliveryRunSummary {
+  processed: number;
+  delivered: number;
+  retrying: number;
+  failed: number;
+  pruned: number;
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Revenue-Boost-Signature";
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** Deliveries sent per cron run */
+const DELIVERY_BATCH_SIZE = 200;
+/** A claimed delivery is left alone by other runs for this long */
+const DELIVERY_LEASE_MS = 5 * 60_000;
+/** Delivered and failed deliveries are kept in the log this long */
+const DELIVERY_LOG_RETENTION_DAYS = 30;
+
+/** Leads of game popups played without an email */
+const ANONYMOUS_EMAIL = /@anonymous\.local$/;
+
+const DUE_DELIVERY_SELECT = {
+  id: true,
+  storeId: true,
+  event: true,
+  payload: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  subscription: { select: { url: true, secret: true } },
+} as const satisfies Prisma.WebhookDeliverySelect;
+
+const DELIVERY_LOG_SELECT = {
+  id: true,
+  subscriptionId: true,
+  event: true,
+  status: true,
+  attempts: true,
+  responseStatus: true,
+  lastError: true,
+  nextAttemptAt: true,
+  deliveredAt: true,
+  createdAt: true,
+  subscription: { select: { url: true } },
+} as const satisfies Prisma.WebhookDeliverySelect;
+
+type DueDeliveryRow = Prisma.WebhookDeliveryGetPayload<{ select: typeof DUE_DELIVERY_SELECT }>;
+type DeliveryLogRow = Prisma.WebhookDeliveryGetPayload<{ select: typeof DELIVERY_LOG_SELECT }>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Signature header value for a request body
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Dedupe key of a delivery, e.g. 'lead.created:<leadId>'. Privacy deletions
+ * find a lead's deliveries by it.
+ */
+export function getWebhookEventKey(event: string, key: string): string {
+  return `${event}:${key}`;
+}
+
+export function getWebhookRetryDelayMs(attempts: number): number {
+  return WEBHOOK_RETRY_DELAYS_MS[Math.min(attempts, WEBHOOK_RETRY_DELAYS_MS.length) - 1];
+}
+
+/** Payloads are only written by emit and sendTestEvent */
+function toEnvelope(payload: Prisma.JsonValue): WebhookEnvelope {
+  return payload as unknown as WebhookEnvelope;
+}
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+function toSummary(subscription: WebhookSubscription): WebhookSubscriptionSummary {
+  let secret: string | null = null;
+  try {
+    secret = decryptSecret(subscription.secret);
+  } catch {
+    // Encrypted under another key - the endpoint has to be recreated
+  }
+
+  return {
+    id: subscription.id,
+    url: subscription.url,
+    // Only written through WebhookSubscriptionInputSchema
+    events: subscription.events as WebhookEvent[],
+    enabled: subscription.enabled,
+    secret,
+    createdAt: subscription.createdAt.toISOString(),
+  };
+}
+
+/**
+ * POST a payload to an endpoint. Any 2xx is a success; redirects are not
+ * followed so an endpoint can't bounce requests elsewhere.
+ */
+async function sendWebhook(
+  subscription: { url: string; secret: string },
+  deliveryId: string,
+  payload: WebhookEnvelope,
+  now: Date
+): Promise<WebhookSendResult> {
+  try {
+    const body = JSON.stringify(payload);
+    const response = await fetch(subscription.url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "user-agent": "RevenueBoost-Webhooks/1.0",
+        "X-Revenue-Boost-Event": payload.event,
+        "X-Revenue-Boost-Delivery": deliveryId,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+          decryptSecret(subscription.secret),
+          body,
+          Math.floor(now.getTime() / 1000)
+        ),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    if (response.status >= 200 && response.status < 300) {
+      return { delivered: true, responseStatus: response.status, error: null };
+    }
+    const text = await response.text().catch(() => "");
+    return {
+      delivered: false,
+      responseStatus: response.status,
+      error: `${response.status}: ${text.slice(0, 200) || response.statusText}`,
+    };
+  } catch (error) {
+    return {
+      delivered: false,
+      responseStatus: null,
+      error: `Request failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+function toLogEntry(delivery: DeliveryLogRow): WebhookDeliveryLogEntry {
+  return {
+    id: delivery.id,
+    subscriptionId: delivery.subscriptionId,
+    url: delivery.subscription.url,
+    event: delivery.event,
+    status: delivery.status as WebhookDeliveryStatus,
+    attempts: delivery.attempts,
+    responseStatus: delivery.responseStatus,
+    lastError: delivery.lastError,
+    nextAttemptAt: delivery.nextAttemptAt?.toISOString() ?? null,
+    deliveredAt: delivery.deliveredAt?.toISOString() ?? null,
+    createdAt: delivery.createdAt.toISOString(),
+  };
+}
+
+// ============================================================================
+// OUTBOUND WEBHOOK SERVICE
+// ============================================================================
+
+export class OutboundWebhookService {
+  static async getSubscriptions(storeId: string): Promise<WebhookSubscriptionSummary[]> {
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: { storeId },
+      orderBy: { createdAt: "asc" },
+    });
+    return subscriptions.map((subscription) => toSummary(subscription));
+  }
+
+  static async createSubscription(
+    storeId: string,
+    input: unknown
+  ): Promise<WebhookSubscriptionSummary> {
+    const parsed = WebhookSubscriptionInputSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new ServiceError(
+        "VALIDATION_FAILED",
+        parsed.error.issues[0]?.message ?? "Invalid webhook settings",
+        parsed.error
+      );
+    }
+
+    const count = await prisma.webhookSubscription.count({ where: { storeId } });
+    if (count >= MAX_WEBHOOK_SUBSCRIPTIONS) {
+      throw new ServiceError(
+        "VALIDATION_FAILED",
+        `A store can have at most ${MAX_WEBHOOK_SUBSCRIPTIONS} webhook endpoints`
+      );
+    }
+
+    const subscription = await prisma.webhookSubscription.create({
+      data: { storeId, ...parsed.data, secret: encryptSecret(generateSecret()) },
+    });
+    return toSummary(subscription);
+  }
+
+  static async updateSubscription(
+    storeId: string,
+    subscriptionId: string,
+    input: unknown
+  ): Promise<WebhookSubscriptionSummary> {
+    const parsed = WebhookSubscriptionInputSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new ServiceError(
+        "VALIDATION_FAILED",
+        parsed.error.issues[0]?.message ?? "Invalid webhook settings",
+        parsed.error
+      );
+    }
+
+    const result = await prisma.webhookSubscription.updateMany({
+      where: { id: subscriptionId, storeId },
+      data: parsed.data,
+    });
+    if (result.count === 0) {
+      throw new ServiceError("NOT_FOUND", "Webhook endpoint not found");
+    }
+
+    const subscription = await prisma.webhookSubscription.findUniqueOrThrow({
+      where: { id: subscriptionId },
+    });
+    return toSummary(subscription);
+  }
+
+  /**
+   * Remove an endpoint; its queued deliveries and log go with it
+   */
+  static async deleteSubscription(storeId: string, subscriptionId: string): Promise<boolean> {
+    const result = await prisma.webhookSubscription.deleteMany({
+      where: { id: subscriptionId, storeId },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Queue an event for every enabled endpoint subscribed to it. `key`
+   * identifies the event (lead, order...) so it's only sent once.
+   * Returns the number of deliveries queued; never throws so the caller
+   * isn't affected.
+   */
+  static async emit(
+    storeId: string,
+    event: WebhookEvent,
+    key: string,
+    data: Record<string, unknown>
+  ): Promise<number> {
+    try {
+      const subscriptions: Array<{ id: string; store: { shopifyDomain: string } }> =
+        await prisma.webhookSubscription.findMany({
+          where: { storeId, enabled: true, events: { has: event } },
+          select: { id: true, store: { select: { shopifyDomain: true } } },
+        });
+      if (subscriptions.length === 0) return 0;
+
+      const payload: WebhookEnvelope = {
+        id: `evt_${randomUUID()}`,
+        event,
+        createdAt: new Date().toISOString(),
+        shop: subscriptions[0].store.shopifyDomain,
+        data,
+      };
+
+      const result = await prisma.webhookDelivery.createMany({
+        data: subscriptions.map((subscription) => ({
+          storeId,
+          subscriptionId: subscription.id,
+          event,
+          eventKey: getWebhookEventKey(event, key),
+          payload: payload as unknown as Prisma.InputJsonValue,
+        })),
+        skipDuplicates: true,
+      });
+      return result.count;
+    } catch (error) {
+      logger.error({ error, storeId, event, key }, "[OutboundWebhooks] Failed to queue event");
+      return 0;
+    }
+  }
+
+  /**
+   * lead.created, built from the stored lead so every producer sends the same payload
+   */
+  static async emitLeadCreated(leadId: string): Promise<number> {
+    try {
+      const lead = await prisma.lead.findUnique({
+        where: { id: leadId },
+        select: {
+          id: true,
+          storeId: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+          phone: true,
+          marketingConsent: true,
+          discountCode: true,
+          sessionId: true,
+          visitorId: true,
+          pageUrl: true,
+          utmSource: true,
+          utmMedium: true,
+          utmCampaign: true,
+          createdAt: true,
+          campaign: { select: { id: true, name: true, templateType: true } },
+        },
+      });
+      if (!lead || ANONYMOUS_EMAIL.test(lead.email)) return 0;
+
+      const { storeId, campaign, createdAt, ...fields } = lead;
+      return await OutboundWebhookService.emit(storeId, "lead.created", lead.id, {
+        leadId: lead.id,
+        ...fields,
+        campaignId: campaign.id,
+        campaignName: campaign.name,
+        templateType: campaign.templateType,
+        createdAt: createdAt.toISOString(),
+      });
+    } catch (error) {
+      logger.error({ error, leadId }, "[OutboundWebhooks] Failed to queue lead.created");
+      return 0;
+    }
+  }
+
+  /**
+   * Send the deliveries that are due (cron) and prune old log entries
+   */
+  static async processDueDeliveries(now: Date = new Date()): Promise<DeliveryRunSummary> {
+    const deliveries: DueDeliveryRow[] = await prisma.webhookDelivery.findMany({
+      where: {
+        status: "pending",
+        nextAttemptAt: { lte: now },
+        subscription: { enabled: true },
+      },
+      orderBy: { nextAttemptAt: "asc" },
+      take: DELIVERY_BATCH_SIZE,
+      select: DUE_DELIVERY_SELECT,
+    });
+
+    const summary: DeliveryRunSummary = {
+      processed: 0,
+      delivered: 0,
+      retrying: 0,
+      failed: 0,
+      pruned: 0,
+    };
+
+    for (const delivery of deliveries) {
+      // Another run may have picked the delivery up since it was read
+      const claimed = await prisma.webhookDelivery.updateMany({
+        where: { id: delivery.id, status: "pending", nextAttemptAt: delivery.nextAttemptAt },
+        data: { nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) },
+      });
+      if (claimed.count === 0) continue;
+
+      summary.processed++;
+      const attempts = delivery.attempts + 1;
+      const result = await sendWebhook(
+        delivery.subscription,
+        delivery.id,
+        toEnvelope(delivery.payload),
+        now
+      );
+
+      if (result.delivered) {
+        await prisma.webhookDelivery.update({
+          where: { id: delivery.id },
+          data: {
+            status: "delivered",
+            attempts,
+            nextAttemptAt: null,
+            responseStatus: result.responseStatus,
+            lastError: null,
+            deliveredAt: now,
+          },
+        });
+        summary.delivered++;
+        continue;
+      }
+
+      const retry = attempts < MAX_WEBHOOK_ATTEMPTS;
+      await prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: retry ? "pending" : "failed",
+          attempts,
+          nextAttemptAt: retry ? new Date(now.getTime() + getWebhookRetryDelayMs(attempts)) : null,
+          responseStatus: result.responseStatus,
+          lastError: result.error?.slice(0, 500) ?? null,
+        },
+      });
+
+      if (retry) {
+        summary.retrying++;
+      } else {
+        summary.failed++;
+        logger.warn(
+          {
+            storeId: delivery.storeId,
+            deliveryId: delivery.id,
+            event: delivery.event,
+            error: result.error,
+          },
+          "[OutboundWebhooks] Delivery failed"
+        );
+      }
+    }
+
+    const pruned = await prisma.webhookDelivery.deleteMany({
+      where: {
+        status: { in: ["delivered", "failed"] },
+        createdAt: { lt: new Date(now.getTime() - DELIVERY_LOG_RETENTION_DAYS * 86_400_000) },
+      },
+    });
+    summary.pruned = pruned.count;
+
+    return summary;
+  }
+
+  /**
+   * Send a delivered or failed delivery again right away, with its original payload
+   */
+  static async replayDelivery(storeId: string, deliveryId: string): Promise<WebhookSendResult> {
+    const delivery: DueDeliveryRow | null = await prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, storeId },
+      select: DUE_DELIVERY_SELECT,
+    });
+    if (!delivery) {
+      throw new ServiceError("NOT_FOUND", "Webhook delivery not found");
+    }
+    if (delivery.status === "pending") {
+      throw new ServiceError("VALIDATION_FAILED", "This delivery is still being retried");
+    }
+
+    const now = new Date();
+    const result = await sendWebhook(
+      delivery.subscription,
+      delivery.id,
+      toEnvelope(delivery.payload),
+      now
+    );
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: result.delivered ? "delivered" : "failed",
+        attempts: delivery.attempts + 1,
+        nextAttemptAt: null,
+        responseStatus: result.responseStatus,
+        lastError: result.error?.slice(0, 500) ?? null,
+        ...(result.delivered ? { deliveredAt: now } : {}),
+      },
+    });
+    return result;
+  }
+
+  /**
+   * Send a webhook.test event to an endpoint right away; it shows in the log
+   */
+  static async sendTestEvent(storeId: string, subscriptionId: string): Promise<WebhookSendResult> {
+    const subscription = await prisma.webhookSubscription.findFirst({
+      where: { id: subscriptionId, storeId },
+      select: { id: true, url: true, secret: true, store: { select: { shopifyDomain: true } } },
+    });
+    if (!subscription) {
+      throw new ServiceError("NOT_FOUND", "Webhook endpoint not found");
+    }
+
+    const now = new Date();
+    const payload: WebhookEnvelope = {
+      id: `evt_${randomUUID()}`,
+      event: WEBHOOK_TEST_EVENT,
+      createdAt: now.toISOString(),
+      shop: subscription.store.shopifyDomain,
+      data: { message: "Test event from Revenue Boost", subscriptionId },
+    };
+
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        storeId,
+        subscriptionId,
+        event: WEBHOOK_TEST_EVENT,
+        eventKey: getWebhookEventKey(WEBHOOK_TEST_EVENT, payload.id),
+        payload: payload as unknown as Prisma.InputJsonValue,
+        nextAttemptAt: null,
+      },
+      select: { id: true },
+    });
+
+    const result = await sendWebhook(subscription, delivery.id, payload, now);
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: result.delivered ? "delivered" : "failed",
+        attempts: 1,
+        responseStatus: result.responseStatus,
+        lastError: result.error?.slice(0, 500) ?? null,
+        ...(result.delivered ? { deliveredAt: now } : {}),
+      },
+    });
+    return result;
+  }
+
+  /**
+   * Most recent deliveries, newest first
+   */
+  static async getDeliveryLog(
+    storeId: string,
+    options: { status?: WebhookDeliveryStatus; limit?: number } = {}
+  ): Promise<WebhookDeliveryLogEntry[]> {
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { storeId, ...(options.status ? { status: options.status } : {}) },
+      orderBy: { createdAt: "desc" },
+      take: options.limit ?? 50,
+      select: DELIVERY_LOG_SELECT,
+    });
+    return deliveries.map((delivery) => toLogEntry(delivery));
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * ESP Integration Types
+ *
+ * Email service providers (Klaviyo, Mailchimp, Omnisend) leads are pushed to
+ * directly, with campaign context, instead of through the ESP's own Shopify
+ * customer sync. Shared by the sync service, the provider adapters and the
+ * integrations page.
+ */
+
+import { z } from "zod";
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+export const ESP_PROVIDERS = ["klaviyo", "mailchimp", "omnisend"] as const;
+
+export type EspProvider = (typeof ESP_PROVIDERS)[number];
+
+export const ESP_PROVIDER_LABELS: Record<EspProvider, string> = {
+  klaviyo: "Klaviyo",
+  mailchimp: "Mailchimp",
+  omnisend: "Omnisend",
+};
+
+/** What leads are added to at each provider (Omnisend has no lists, only tags) */
+export const ESP_LIST_LABELS: Record<EspProvider, string> = {
+  klaviyo: "List",
+  mailchimp: "Audience",
+  omnisend: "Tag",
+};
+
+// ============================================================================
+// PROPERTY MAPPING
+// ============================================================================
+
+/** Lead fields that can be sent as custom properties */
+export const LEAD_PROPERTY_KEYS = [
+  "campaignId",
+  "campaignName",
+  "templateType",
+  "discountCode",
+  "utmSource",
+  "utmMedium",
+  "utmCampaign",
+] as const;
+
+export type LeadPropertyKey = (typeof LEAD_PROPERTY_KEYS)[number];
+
+export const LEAD_PROPERTY_LABELS: Record<LeadPropertyKey, string> = {
+  campaignId: "Campaign ID",
+  campaignName: "Campaign name",
+  templateType: "Template type",
+  discountCode: "Discount code",
+  utmSource: "UTM source",
+  utmMedium: "UTM medium",
+  utmCampaign: "UTM campaign",
+};
+
+/** Lead field -> custom property name at the ESP; unmapped fields are not sent */
+export type PropertyMapping = Partial<Record<LeadPropertyKey, string>>;
+
+const PREFIXED_PROPERTIES: PropertyMapping = {
+  campaignId: "rb_campaign_id",
+  campaignName: "rb_campaign_name",
+  templateType: "rb_template_type",
+  discountCode: "rb_discount_code",
+  utmSource: "rb_utm_source",
+  utmMedium: "rb_utm_medium",
+  utmCampaign: "rb_utm_campaign",
+};
+
+/**
+ * Mapping used until the merchant edits it. Mailchimp rejects merge fields
+ * that don't exist in the audience, so nothing is mapped there by default.
+ */
+export const DEFAULT_PROPERTY_MAPPINGS: Record<EspProvider, PropertyMapping> = {
+  klaviyo: PREFIXED_PROPERTIES,
+  mailchimp: {},
+  omnisend: PREFIXED_PROPERTIES,
+};
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+export const ESP_SYNC_STATUSES = ["pending", "delivered", "failed"] as const;
+
+export type EspSyncStatus = (typeof ESP_SYNC_STATUSES)[number];
+
+/** Delay before retry N (1-based); a job fails for good after the last one */
+export const SYNC_RETRY_DELAYS_MS = [
+  60_000,
+  5 * 60_000,
+  30 * 60_000,
+  2 * 3_600_000,
+  6 * 3_600_000,
+  24 * 3_600_000,
+];
+
+export const MAX_SYNC_ATTEMPTS = SYNC_RETRY_DELAYS_MS.length + 1;
+
+/**
+ * Contact as sent to a provider, custom properties already mapped
+ */
+export interface EspContact {
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  phone: string | null;
+  marketingConsent: boolean;
+  consentedAt: Date | null;
+  properties: Record<string, string>;
+  tags: string[];
+}
+
+export interface EspAdapter {
+  provider: EspProvider;
+  /** Throws when the credentials are rejected */
+  verify(): Promise<void>;
+  /** Create or update the contact and add it to the list; returns the ESP's ID for it */
+  upsertContact(contact: EspContact, listId: string | null): Promise<{ externalId: string | null }>;
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+const ListIdSchema = z.string().trim().max(100);
+
+export const EspIntegrationInputSchema = z.object({
+  provider: z.enum(ESP_PROVIDERS),
+  /** Blank keeps the stored key */
+  apiKey: z.string().trim().max(200).optional(),
+  enabled: z.boolean(),
+  defaultListId: ListIdSchema.nullable(),
+  /** campaignId -> list / audience ID, overriding the default */
+  campaignLists: z.record(z.string(), ListIdSchema),
+  propertyMapping: z.partialRecord(
+    z.enum(LEAD_PROPERTY_KEYS),
+    z
+      .string()
+      .trim()
+      .regex(/^([A-Za-z][A-Za-z0-9_]{0,49})?$/, "Use letters, digits and underscores")
+  ),
+});
+
+export type EspIntegrationInput = z.infer<typeof EspIntegrationInputSchema>;
+
+/**
+ * Integration as shown on the integrations page - never includes the key itself
+ */
+export interface EspIntegrationSummary {
+  id: string;
+  provider: EspProvider;
+  enabled: boolean;
+  /** Last 4 characters of the API key, null when it can't be decrypted */
+  apiKeyHint: string | null;
+  defaultListId: string | null;
+  campaignLists: Record<string, string>;
+  propertyMapping: PropertyMapping;
+  verifiedAt: string | null;
+}
+
+export interface EspSyncLogEntry {
+  id: string;
+  provider: EspProvider;
+  leadId: string;
+  email: string;
+  campaignName: string;
+  status: EspSyncStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  updatedAt: string;
+}
@@ -0,0 +1,175 @@
+/**
+ * LeadDetailModal - Everything known about one lead
+ *
+ * Contact details and consent, where the lead signed up (page, referrer,
+ * UTM), its popup events, the orders attributed through it and the state of
+ * its ESP syncs.
+ */
+
+import { Badge, BlockStack, DataTable, InlineGrid, Modal, Text } from "@shopify/polaris";
+import { ESP_PROVIDER_LABELS, type EspProvider } from "~/domains/integrations/types";
+import type { LeadDetail } from "../types";
+
+export interface LeadDetailModalProps {
+  lead: LeadDetail | null;
+  onClose: () => void;
+  formatMoney: (amount: number) => string;
+}
+
+const formatDate = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : "-");
+
+function Field({ label, value }: { label: string; value: string | null | undefined }) {
+  return (
+    <BlockStack gap="050">
+      <Text as="span" tone="subdued" variant="bodySm">
+        {label}
+      </Text>
+      <Text as="span" breakWord>
+        {value || "-"}
+      </Text>
+    </BlockStack>
+  );
+}
+
+export function LeadDetailModal({ lead, onClose, formatMoney }: LeadDetailModalProps) {
+  return (
+    <Modal open={lead !== null} onClose={onClose} title={lead?.email ?? "Lead"} size="large">
+      {lead && (
+        <>
+          <Modal.Section>
+            <BlockStack gap="400">
+              <InlineGrid columns={{ xs: 1, md: 3 }} gap="400">
+                <Field
+                  label="Name"
+                  value={[lead.firstName, lead.lastName].filter(Boolean).join(" ")}
+                />
+                <Field label="Phone" value={lead.phone} />
+                <Field label="Campaign" value={lead.campaignName} />
+                <Field label="Signed up" value={formatDate(lead.submittedAt)} />
+                <Field
+                  label="Marketing consent"
+                  value={lead.marketingConsent ? `Yes, ${formatDate(lead.consentedAt)}` : "No"}
+                />
+                {lead.confirmationSentAt && (
+                  <Field
+                    label="Double opt-in"
+                    value={
+                      lead.confirmedAt
+                        ? `Confirmed ${formatDate(lead.confirmedAt)}`
+                        : `Email sent ${formatDate(lead.confirmationSentAt)}, not confirmed`
+                    }
+                  />
+                )}
+                <Field
+                  label="Shopify customer"
+                  value={lead.shopifyCustomerId ? `#${lead.shopifyCustomerId}` : null}
+                />
+                <Field label="Discount code" value={lead.discountCode} />
+                <Field
+                  label="Code used"
+                  value={lead.discountCode ? formatDate(lead.discountUsedAt) : null}
+                />
+              </InlineGrid>
+              {lead.consentText && <Field label="Consent text" value={lead.consentText} />}
+            </BlockStack>
+          </Modal.Section>
+
+          <Modal.Section>
+            <BlockStack gap="300">
+              <Text as="h3" variant="headingSm">
+                Source
+              </Text>
+              <InlineGrid columns={{ xs: 1, md: 3 }} gap="400">
+                <Field label="Page" value={lead.pageTitle || lead.pageUrl} />
+                <Field label="Referrer" value={lead.referrer} />
+                <Field label="UTM source" value={lead.utmSource} />
+                <Field label="UTM medium" value={lead.utmMedium} />
+                <Field label="UTM campaign" value={lead.utmCampaign} />
+              </InlineGrid>
+            </BlockStack>
+          </Modal.Section>
+
+          <Modal.Section>
+            <BlockStack gap="300">
+              <Text as="h3" variant="headingSm">
+                Attributed orders
+              </Text>
+              {lead.orders.length === 0 ? (
+                <Text as="p" tone="subdued">
+                  No orders have been attributed to this lead yet.
+                </Text>
+              ) : (
+                <DataTable
+                  columnContentTypes={["text", "text", "numeric", "text", "text"]}
+                  headings={["Order", "Campaign", "Net revenue", "Codes", "Date"]}
+                  rows={lead.orders.map((order) => [
+                    order.cancelledAt ? `${order.orderNumber} (cancelled)` : order.orderNumber,
+                    order.campaignName,
+                    formatMoney(order.netRevenue),
+                    order.discountCodes.join(", ") || "-",
+                    formatDate(order.createdAt),
+                  ])}
+                />
+              )}
+            </BlockStack>
+          </Modal.Section>
+
+          <Modal.Section>
+            <BlockStack gap="300">
+              <Text as="h3" variant="headingSm">
+                Popup events
+              </Text>
+              {lead.events.length === 0 ? (
+                <Text as="p" tone="subdued">
+                  No popup events recorded.
+                </Text>
+              ) : (
+                <DataTable
+                  columnContentTypes={["text", "text", "text", "text"]}
+                  headings={["Event", "Page", "Device", "Date"]}
+                  rows={lead.events.map((event) => [
+                    event.eventType,
+                    event.pageUrl ?? "-",
+                    event.deviceType ?? "-",
+                    formatDate(event.createdAt),
+                  ])}
+                />
+              )}
+            </BlockStack>
+          </Modal.Section>
+
+          {lead.syncs.length > 0 && (
+            <Modal.Section>
+              <BlockStack gap="300">
+                <Text as="h3" variant="headingSm">
+                  Email platform sync
+                </Text>
+                {lead.syncs.map((sync) => (
+                  <BlockStack key={sync.provider} gap="100">
+                    <Text as="span" fontWeight="semibold">
+                      {ESP_PROVIDER_LABELS[sync.provider as EspProvider] ?? sync.provider}{" "}
+                      <Badge
+                        tone={
+                          sync.status === "delivered"
+                            ? "success"
+                            : sync.status === "failed"
+                              ? "critical"
+                              : "attention"
+                        }
+                      >
+                        {sync.status}
+                      </Badge>
+                    </Text>
+                    <Text as="span" tone="subdued" variant="bodySm">
+                      {sync.deliveredAt ? `Synced ${formatDate(sync.deliveredAt)}` : sync.lastError}
+                    </Text>
+                  </BlockStack>
+                ))}
+              </BlockStack>
+            </Modal.Section>
+          )}
+        </>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,317 @@
+/**
+ * LeadIndexTable - Searchable, filterable list of a store's leads
+ *
+ * Filters live in the URL (see LeadFiltersSchema); the table reports changes
+ * through onFiltersChange. Selected leads can be exported, re-synced to
+ * Shopify and the ESPs, or deleted for GDPR requests.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  Badge,
+  Banner,
+  BlockStack,
+  Box,
+  Card,
+  EmptyState,
+  IndexTable,
+  InlineStack,
+  Modal,
+  Pagination,
+  Select,
+  Text,
+  TextField,
+  useIndexResourceState,
+} from "@shopify/polaris";
+import {
+  LEAD_CONSENT_FILTERS,
+  LEAD_CONSENT_FILTER_LABELS,
+  LEAD_DISCOUNT_FILTERS,
+  LEAD_DISCOUNT_FILTER_LABELS,
+  type LeadFilters,
+  type LeadListItem,
+} from "../types";
+
+export type LeadBulkAction = "export" | "resync" | "delete";
+
+export interface LeadIndexTableProps {
+  leads: LeadListItem[];
+  total: number;
+  page: number;
+  pageCount: number;
+  filters: LeadFilters;
+  campaigns: Array<{ id: string; name: string }>;
+  /** Bulk action in progress */
+  pendingAction: LeadBulkAction | null;
+  error?: string | null;
+  onFiltersChange: (filters: Partial<LeadFilters>) => void;
+  onPageChange: (page: number) => void;
+  onOpenLead: (leadId: string) => void;
+  onBulkAction: (action: LeadBulkAction, leadIds: string[]) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+const resourceName = { singular: "lead", plural: "leads" };
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+function fullName(lead: LeadListItem): string {
+  return [lead.firstName, lead.lastName].filter(Boolean).join(" ");
+}
+
+export function LeadIndexTable({
+  leads,
+  total,
+  page,
+  pageCount,
+  filters,
+  campaigns,
+  pendingAction,
+  error,
+  onFiltersChange,
+  onPageChange,
+  onOpenLead,
+  onBulkAction,
+}: LeadIndexTableProps) {
+  const [search, setSearch] = useState(filters.q ?? "");
+  const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
+  const [deleteConfirmText, setDeleteConfirmText] = useState("");
+  const resources = useMemo(() => leads.map(({ id }) => ({ id })), [leads]);
+  const { selectedResources, allResourcesSelected, handleSelectionChange, clearSelection } =
+    useIndexResourceState(resources);
+
+  // A new page or filter replaces the rows the selection referred to
+  useEffect(() => clearSelection(), [leads, clearSelection]);
+
+  useEffect(() => {
+    if (search === (filters.q ?? "")) return;
+    const timer = setTimeout(() => onFiltersChange({ q: search || undefined }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search, filters.q, onFiltersChange]);
+
+  const closeDeleteConfirm = () => {
+    setDeleteConfirmOpen(false);
+    setDeleteConfirmText("");
+  };
+
+  const promotedBulkActions = [
+    {
+      content: "Export CSV",
+      onAction: () => onBulkAction("export", selectedResources),
+      disabled: pendingAction !== null,
+    },
+    {
+      content: "Re-sync to Shopify and ESPs",
+      onAction: () => onBulkAction("resync", selectedResources),
+      disabled: pendingAction !== null,
+    },
+    {
+      content: "Delete (GDPR)",
+      destructive: true,
+      onAction: () => setDeleteConfirmOpen(true),
+      disabled: pendingAction !== null,
+    },
+  ];
+
+  const campaignOptions = [
+    { label: "All campaigns", value: "" },
+    ...campaigns.map((campaign) => ({ label: campaign.name, value: campaign.id })),
+  ];
+
+  return (
+    <>
+      <Card padding="0">
+        <Box padding="400">
+          <BlockStack gap="300">
+            <TextField
+              label="Search leads"
+              labelHidden
+              autoComplete="off"
+              placeholder="Search by email or name"
+              value={search}
+              onChange={setSearch}
+              clearButton
+              onClearButtonClick={() => setSearch("")}
+            />
+            <InlineStack gap="300" wrap>
+              <Select
+                label="Campaign"
+                labelInline
+                options={campaignOptions}
+                value={filters.campaignId ?? ""}
+                onChange={(value) => onFiltersChange({ campaignId: value || undefined })}
+              />
+              <Select
+                label="Consent"
+                labelHidden
+                options={LEAD_CONSENT_FILTERS.map((value) => ({
+                  label: LEAD_CONSENT_FILTER_LABELS[value],
+                  value,
+                }))}
+                value={filters.consent}
+                onChange={(value) => onFiltersChange({ consent: value as LeadFilters["consent"] })}
+              />
+              <Select
+                label="Discount"
+                labelHidden
+                options={LEAD_DISCOUNT_FILTERS.map((value) => ({
+                  label: LEAD_DISCOUNT_FILTER_LABELS[value],
+                  value,
+                }))}
+                value={filters.discount}
+                onChange={(value) =>
+                  onFiltersChange({ discount: value as LeadFilters["discount"] })
+                }
+              />
+              <TextField
+                label="From"
+                labelHidden
+                type="date"
+                autoComplete="off"
+                prefix="From"
+                value={filters.from ?? ""}
+                onChange={(value) => onFiltersChange({ from: value || undefined })}
+              />
+              <TextField
+                label="To"
+                labelHidden
+                type="date"
+                autoComplete="off"
+                prefix="To"
+                value={filters.to ?? ""}
+                onChange={(value) => onFiltersChange({ to: value || undefined })}
+              />
+            </InlineStack>
+            <Text as="p" tone="subdued" variant="bodySm">
+              {total.toLocaleString()} lead{total === 1 ? "" : "s"}
+            </Text>
+          </BlockStack>
+        </Box>
+
+        {error && (
+          <Box padding="400" paddingBlockStart="0">
+            <Banner tone="critical">{error}</Banner>
+          </Box>
+        )}
+
+        <IndexTable
+          resourceName={resourceName}
+          itemCount={leads.length}
+          selectedItemsCount={allResourcesSelected ? "All" : selectedResources.length}
+          onSelectionChange={handleSelectionChange}
+          promotedBulkActions={promotedBulkActions}
+          loading={pendingAction !== null}
+          emptyState={
+            <EmptyState heading="No leads found" image="">
+              <p>Leads appear here once shoppers sign up through a campaign.</p>
+            </EmptyState>
+          }
+          headings={[
+            { title: "Email" },
+            { title: "Campaign" },
+            { title: "Consent" },
+            { title: "Discount" },
+            { title: "Shopify customer" },
+            { title: "Signed up" },
+          ]}
+        >
+          {leads.map((lead, index) => (
+            <IndexTable.Row
+              id={lead.id}
+              key={lead.id}
+              position={index}
+              selected={selectedResources.includes(lead.id)}
+              onClick={() => onOpenLead(lead.id)}
+            >
+              <IndexTable.Cell>
+                <BlockStack gap="050">
+                  <Text as="span" fontWeight="semibold">
+                    {lead.email}
+                  </Text>
+                  {fullName(lead) && (
+                    <Text as="span" tone="subdued" variant="bodySm">
+                      {fullName(lead)}
+                    </Text>
+                  )}
+                </BlockStack>
+              </IndexTable.Cell>
+              <IndexTable.Cell>{lead.campaignName}</IndexTable.Cell>
+              <IndexTable.Cell>
+                {lead.marketingConsent ? (
+                  <Badge tone="success">Consented</Badge>
+                ) : lead.awaitingConfirmation ? (
+                  <Badge tone="attention">Awaiting confirmation</Badge>
+                ) : (
+                  <Badge>No</Badge>
+                )}
+              </IndexTable.Cell>
+              <IndexTable.Cell>
+                {lead.discountCode ? (
+                  <InlineStack gap="100" blockAlign="center">
+                    <Text as="span">{lead.discountCode}</Text>
+                    {lead.discountUsedAt && <Badge tone="info">Used</Badge>}
+                  </InlineStack>
+                ) : (
+                  "-"
+                )}
+              </IndexTable.Cell>
+              <IndexTable.Cell>{lead.shopifyCustomerId ? "Linked" : "-"}</IndexTable.Cell>
+              <IndexTable.Cell>{formatDate(lead.submittedAt)}</IndexTable.Cell>
+            </IndexTable.Row>
+          ))}
+        </IndexTable>
+
+        {pageCount > 1 && (
+          <Box padding="400">
+            <InlineStack align="center">
+              <Pagination
+                hasPrevious={page > 1}
+                onPrevious={() => onPageChange(page - 1)}
+                hasNext={page < pageCount}
+                onNext={() => onPageChange(page + 1)}
+                label={`Page ${page} of ${pageCount}`}
+              />
+            </InlineStack>
+          </Box>
+        )}
+      </Card>
+
+      <Modal
+        open={deleteConfirmOpen}
+        onClose={closeDeleteConfirm}
+        title="Delete leads"
+        primaryAction={{
+          content: "Delete",
+          destructive: true,
+          disabled: deleteConfirmText !== "DELETE",
+          onAction: () => {
+            onBulkAction("delete", selectedResources);
+            closeDeleteConfirm();
+          },
+        }}
+        secondaryActions={[{ content: "Cancel", onAction: closeDeleteConfirm }]}
+      >
+        <Modal.Section>
+          <BlockStack gap="400">
+            <Text as="p">
+              You are about to permanently delete <strong>{selectedResources.length}</strong> lead
+              {selectedResources.length !== 1 ? "s" : ""} and their personal data. Popup events and
+              orders stay in your reports without anything identifying the shopper.
+            </Text>
+            <Text as="p" tone="subdued">
+              Customers already created in Shopify or your email platforms are not deleted there.
+            </Text>
+            <TextField
+              label="Type DELETE to confirm"
+              value={deleteConfirmText}
+              onChange={setDeleteConfirmText}
+              autoComplete="off"
+              placeholder="DELETE"
+            />
+          </BlockStack>
+        </Modal.Section>
+      </Modal>
+    </>
+  );
+}
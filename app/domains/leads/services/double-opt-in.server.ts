@@ -0,0 +1,309 @@
+/**
+ * Double Opt-In Service
+ *
+ * For campaigns with double opt-in (LeadCaptureConfig.doubleOptInEnabled),
+ * a new lead is stored without marketing consent and emailed a confirmation
+ * link through the mail transport. Following the link (/leads/confirm) records
+ * the consent, subscribes the Shopify customer with a confirmed opt-in and
+ * queues the lead for the ESPs, which aren't sent emailed leads before then.
+ *
+ * Only leads that ticked the consent checkbox are emailed; their consentText
+ * is kept as the record of what they agreed to. Resubmitting the form resends
+ * the email at most every CONFIRMATION_RESEND_INTERVAL_MINUTES and
+ * MAX_CONFIRMATION_SENDS times per lead.
+ *
+ * Links carry a signed token: <leadId>.<expiry (unix seconds)>.<HMAC-SHA256>
+ * under a key derived from SESSION_SECRET.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import { ServiceError } from "~/lib/errors.server";
+import { createAdminApiContext } from "~/lib/auth-helpers.server";
+import { getMailFrom, getMailTransport, type MailMessage } from "~/lib/mail-transport.server";
+import {
+  extractCustomerId,
+  sanitizeCustomerData,
+  updateCustomer,
+  upsertCustomer,
+} from "~/lib/shopify/customer.server";
+import { EspSyncService } from "~/domains/integrations/services/esp-sync.server";
+import type { LeadCaptureConfig } from "~/shared/types/lead-capture-config";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DoubleOptInSettings {
+  enabled: boolean;
+  /** Withhold the discount code until the lead confirms */
+  revealDiscountAfterConfirmation: boolean;
+}
+
+export interface ConfirmationResult {
+  /** False when the lead had already confirmed */
+  newlyConfirmed: boolean;
+  email: string;
+  shopDomain: string;
+  discountCode: string | null;
+}
+
+export const CONFIRMATION_TOKEN_TTL_DAYS = 7;
+export const CONFIRMATION_RESEND_INTERVAL_MINUTES = 10;
+export const MAX_CONFIRMATION_SENDS = 5;
+
+const INVALID_LINK_MESSAGE = "This confirmation link is invalid or has expired";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Double opt-in settings of a campaign's contentConfig */
+export function getDoubleOptInSettings(contentConfig: unknown): DoubleOptInSettings {
+  const config = (contentConfig ?? {}) as Partial<LeadCaptureConfig>;
+  const enabled = config.doubleOptInEnabled === true;
+
+  return {
+    enabled,
+    revealDiscountAfterConfirmation: enabled && config.revealDiscountAfterConfirmation === true,
+  };
+}
+
+/** Storefront message after a signup that still needs confirming */
+export function getConfirmationPendingMessage(discountHeld: boolean): string {
+  return discountHeld
+    ? "Almost there! Confirm your subscription from the email we just sent you to get your discount code."
+    : "Almost there! Confirm your subscription from the email we just sent you.";
+}
+
+/**
+ * Whether a lead that is still unconfirmed may be emailed again: its last
+ * email is older than the resend interval and it's under the send cap.
+ */
+export function canResendConfirmation(
+  lead: { confirmationSentAt: Date | null; confirmationSendCount: number },
+  now = new Date()
+): boolean {
+  if (lead.confirmationSendCount >= MAX_CONFIRMATION_SENDS) return false;
+  if (!lead.confirmationSentAt) return true;
+
+  return (
+    now.getTime() - lead.confirmationSentAt.getTime() >=
+    CONFIRMATION_RESEND_INTERVAL_MINUTES * 60 * 1000
+  );
+}
+
+function sign(payload: string): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("SESSION_SECRET is required to sign confirmation links");
+  }
+  const key = createHash("sha256").update(`lead-confirmation:${secret}`).digest();
+  return createHmac("sha256", key).update(payload).digest("base64url");
+}
+
+export function createConfirmationToken(leadId: string, now = new Date()): string {
+  const expiresAt = Math.floor(now.getTime() / 1000) + CONFIRMATION_TOKEN_TTL_DAYS * 24 * 60 * 60;
+  const payload = `${leadId}.${expiresAt}`;
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Lead ID of a confirmation token, or null when it was tampered with or
+ * has expired.
+ */
+export function verifyConfirmationToken(token: string, now = new Date()): string | null {
+  const [leadId, expiresAt, signature, ...rest] = token.split(".");
+  if (!leadId || !/^\d+$/.test(expiresAt ?? "") || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(`${leadId}.${expiresAt}`));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  return Number(expiresAt) * 1000 >= now.getTime() ? leadId : null;
+}
+
+export function buildConfirmationEmail(options: {
+  to: string;
+  firstName: string | null;
+  shopDomain: string;
+  confirmUrl: string;
+}): MailMessage {
+  const greeting = options.firstName ? `Hi ${options.firstName},` : "Hi,";
+
+  return {
+    from: getMailFrom(),
+    to: [options.to],
+    subject: `Confirm your subscription to ${options.shopDomain}`,
+    text: [
+      greeting,
+      "",
+      `Please confirm that you want to receive emails from ${options.shopDomain}:`,
+      options.confirmUrl,
+      "",
+      `The link expires in ${CONFIRMATION_TOKEN_TTL_DAYS} days. If you didn't sign up, ignore this email and you won't be subscribed.`,
+    ].join("\n"),
+  };
+}
+
+// ============================================================================
+// DOUBLE OPT-IN SERVICE
+// ============================================================================
+
+export class DoubleOptInService {
+  /**
+   * Email a lead its confirmation link, stamp confirmationSentAt and count
+   * the send. Never throws: returns false when nothing was sent (no mail
+   * transport or app URL, delivery failed); the lead then stays without
+   * consent.
+   */
+  static async sendConfirmation(leadId: string): Promise<boolean> {
+    try {
+      const transport = getMailTransport();
+      const appUrl = process.env.SHOPIFY_APP_URL;
+      if (!transport || !appUrl) {
+        logger.warn(
+          { leadId },
+          "[DoubleOptIn] No mail transport or app URL for confirmation emails"
+        );
+        return false;
+      }
+
+      const lead = await prisma.lead.findUnique({
+        where: { id: leadId },
+        select: { email: true, firstName: true, store: { select: { shopifyDomain: true } } },
+      });
+      if (!lead) return false;
+
+      const confirmUrl = new URL("/leads/confirm", appUrl);
+      confirmUrl.searchParams.set("token", createConfirmationToken(leadId));
+
+      await transport.send(
+        buildConfirmationEmail({
+          to: lead.email,
+          firstName: lead.firstName,
+          shopDomain: lead.store.shopifyDomain,
+          confirmUrl: confirmUrl.toString(),
+        })
+      );
+      await prisma.lead.update({
+        where: { id: leadId },
+        data: { confirmationSentAt: new Date(), confirmationSendCount: { increment: 1 } },
+      });
+      return true;
+    } catch (error) {
+      // Includes a misconfigured transport (e.g. MAIL_DRIVER=smtp without SMTP_HOST)
+      logger.warn({ error, leadId }, "[DoubleOptIn] Confirmation email failed");
+      return false;
+    }
+  }
+
+  /**
+   * Confirm the lead of a token: record its marketing consent, subscribe the
+   * Shopify customer and queue the ESP syncs. The consentText stored with
+   * the signup is left as is. Following a link again is a no-op.
+   */
+  static async confirm(token: string): Promise<ConfirmationResult> {
+    const leadId = verifyConfirmationToken(token);
+    if (!leadId) {
+      throw new ServiceError("VALIDATION_FAILED", INVALID_LINK_MESSAGE);
+    }
+
+    const lead = await prisma.lead.findUnique({
+      where: { id: leadId },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        campaignId: true,
+        discountCode: true,
+        shopifyCustomerId: true,
+        confirmedAt: true,
+        campaign: { select: { name: true, templateType: true } },
+        store: { select: { shopifyDomain: true, accessToken: true } },
+      },
+    });
+    // Deleted since the email was sent (e.g. GDPR request)
+    if (!lead) {
+      throw new ServiceError("VALIDATION_FAILED", INVALID_LINK_MESSAGE);
+    }
+
+    const result = {
+      email: lead.email,
+      shopDomain: lead.store.shopifyDomain,
+      discountCode: lead.discountCode,
+    };
+    if (lead.confirmedAt) {
+      return { ...result, newlyConfirmed: false };
+    }
+
+    // Only the first of concurrent confirmations updates the lead
+    const now = new Date();
+    const { count } = await prisma.lead.updateMany({
+      where: { id: lead.id, confirmedAt: null },
+      data: { confirmedAt: now, marketingConsent: true, consentedAt: now },
+    });
+    if (count === 0) {
+      return { ...result, newlyConfirmed: false };
+    }
+
+    if (lead.store.accessToken) {
+      const admin = createAdminApiContext(lead.store.shopifyDomain, lead.store.accessToken);
+
+      if (lead.shopifyCustomerId) {
+        const updateResult = await updateCustomer(
+          admin,
+          `gid://shopify/Customer/${lead.shopifyCustomerId}`,
+          { acceptsMarketing: true, marketingOptInLevel: "CONFIRMED_OPT_IN" }
+        );
+        if (updateResult.errors) {
+          logger.warn(
+            { errors: updateResult.errors, leadId },
+            "[DoubleOptIn] Failed to subscribe customer"
+          );
+        }
+      } else {
+        const customerResult = await upsertCustomer(
+          admin,
+          sanitizeCustomerData({
+            email: lead.email,
+            firstName: lead.firstName ?? undefined,
+            lastName: lead.lastName ?? undefined,
+            marketingConsent: true,
+            marketingOptInLevel: "CONFIRMED_OPT_IN",
+            source: "revenue-boost-popup",
+            campaignId: lead.campaignId,
+            campaignName: lead.campaign.name,
+            templateType: lead.campaign.templateType,
+            discountCode: lead.discountCode ?? undefined,
+          })
+        );
+        if (customerResult.shopifyCustomerId) {
+          await prisma.lead.update({
+            where: { id: lead.id },
+            data: {
+              shopifyCustomerId: BigInt(extractCustomerId(customerResult.shopifyCustomerId)),
+            },
+          });
+        } else {
+          logger.warn(
+            { errors: customerResult.errors, leadId },
+            "[DoubleOptIn] Failed to create customer"
+          );
+        }
+      }
+    }
+
+    // Emailed leads reach the ESPs only now, already subscribed
+    await EspSyncService.enqueueLead(lead.id);
+
+    logger.info({ leadId }, "[DoubleOptIn] Lead confirmed");
+    return { ...result, newlyConfirmed: true };
+  }
+}
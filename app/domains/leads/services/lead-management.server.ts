@@ -0,0 +1,461 @@
+/**
+ * Lead Management Service
+ *
+ * Backs the leads screen (/app/leads):
+ * - listLeads: search and filter a store's leads, newest first
+ * - getLead: a lead with its popup events, attributed orders and ESP syncs
+ * - resyncLeads: upsert selected leads as Shopify customers again and queue
+ *   them for every ESP integration
+ * - deleteLeads: GDPR deletion of selected leads; their events and orders
+ *   stay in reports without anything identifying the shopper
+ *
+ * Bulk export goes through the export API (/api/export/leads?ids=...).
+ */
+
+import { Prisma } from "@prisma/client";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import { ServiceError } from "~/lib/errors.server";
+import {
+  extractCustomerId,
+  sanitizeCustomerData,
+  upsertCustomer,
+} from "~/lib/shopify/customer.server";
+import { EspSyncService } from "~/domains/integrations/services/esp-sync.server";
+import { getWebhookEventKey } from "~/domains/integrations/services/outbound-webhooks.server";
+import {
+  LEADS_PAGE_SIZE,
+  LeadSelectionSchema,
+  type LeadDetail,
+  type LeadFilters,
+  type LeadListItem,
+  type LeadListPage,
+  type LeadResyncResult,
+} from "../types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+const LIST_SELECT = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  campaignId: true,
+  marketingConsent: true,
+  confirmationSentAt: true,
+  confirmedAt: true,
+  discountCode: true,
+  discountUsedAt: true,
+  shopifyCustomerId: true,
+  submittedAt: true,
+  campaign: { select: { name: true } },
+} as const;
+
+interface LeadListRow {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  campaignId: string;
+  marketingConsent: boolean;
+  confirmationSentAt: Date | null;
+  confirmedAt: Date | null;
+  discountCode: string | null;
+  discountUsedAt: Date | null;
+  shopifyCustomerId: bigint | null;
+  submittedAt: Date;
+  campaign: { name: string };
+}
+
+/** Events and orders shown in the detail drawer */
+const DETAIL_HISTORY_LIMIT = 50;
+
+/** Placeholder addresses of game popups without an email and of redacted leads */
+const NON_CONTACT_EMAIL = /@(anonymous|privacy)\.local$/;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Prisma filter for the leads screen filters. Every search term has to match
+ * the email, first or last name.
+ */
+export function buildLeadWhere(storeId: string, filters: LeadFilters): Prisma.LeadWhereInput {
+  const terms = (filters.q ?? "").split(/\s+/).filter(Boolean);
+  const and: Prisma.LeadWhereInput[] = terms.map((term) => ({
+    OR: [
+      { email: { contains: term, mode: "insensitive" } },
+      { firstName: { contains: term, mode: "insensitive" } },
+      { lastName: { contains: term, mode: "insensitive" } },
+    ],
+  }));
+
+  switch (filters.discount) {
+    case "issued":
+      and.push({ discountCode: { not: null } });
+      break;
+    case "used":
+      and.push({ discountCode: { not: null }, discountUsedAt: { not: null } });
+      break;
+    case "unused":
+      and.push({ discountCode: { not: null }, discountUsedAt: null });
+      break;
+    case "none":
+      and.push({ discountCode: null });
+      break;
+  }
+
+  const submittedAt = {
+    ...(filters.from && { gte: new Date(`${filters.from}T00:00:00.000Z`) }),
+    ...(filters.to && { lte: new Date(`${filters.to}T23:59:59.999Z`) }),
+  };
+
+  return {
+    storeId,
+    ...(filters.campaignId && { campaignId: filters.campaignId }),
+    ...(filters.consent === "consented" && { marketingConsent: true }),
+    ...(filters.consent === "not_consented" && { marketingConsent: false }),
+    ...(filters.consent === "awaiting_confirmation" && {
+      confirmationSentAt: { not: null },
+      confirmedAt: null,
+    }),
+    ...(Object.keys(submittedAt).length > 0 && { submittedAt }),
+    ...(and.length > 0 && { AND: and }),
+  };
+}
+
+function toListItem(lead: LeadListRow): LeadListItem {
+  return {
+    id: lead.id,
+    email: lead.email,
+    firstName: lead.firstName,
+    lastName: lead.lastName,
+    campaignId: lead.campaignId,
+    campaignName: lead.campaign.name,
+    marketingConsent: lead.marketingConsent,
+    awaitingConfirmation: lead.confirmationSentAt !== null && lead.confirmedAt === null,
+    discountCode: lead.discountCode,
+    discountUsedAt: lead.discountUsedAt?.toISOString() ?? null,
+    shopifyCustomerId: lead.shopifyCustomerId?.toString() ?? null,
+    submittedAt: lead.submittedAt.toISOString(),
+  };
+}
+
+function parseSelection(leadIds: unknown): string[] {
+  const parsed = LeadSelectionSchema.safeParse(leadIds);
+  if (!parsed.success) {
+    throw new ServiceError(
+      "VALIDATION_FAILED",
+      parsed.error.issues[0]?.message ?? "Invalid lead selection",
+      parsed.error
+    );
+  }
+  return Array.from(new Set(parsed.data));
+}
+
+// ============================================================================
+// LEAD MANAGEMENT SERVICE
+// ============================================================================
+
+export class LeadManagementService {
+  static async listLeads(storeId: string, filters: LeadFilters): Promise<LeadListPage> {
+    const where = buildLeadWhere(storeId, filters);
+
+    try {
+      const [total, leads] = await Promise.all([
+        prisma.lead.count({ where }),
+        prisma.lead.findMany({
+          where,
+          select: LIST_SELECT,
+          orderBy: [{ submittedAt: "desc" }, { id: "desc" }],
+          skip: (filters.page - 1) * LEADS_PAGE_SIZE,
+          take: LEADS_PAGE_SIZE,
+        }),
+      ]);
+
+      return {
+        leads: leads.map((lead: LeadListRow) => toListItem(lead)),
+        total,
+        page: filters.page,
+        pageCount: Math.max(1, Math.ceil(total / LEADS_PAGE_SIZE)),
+      };
+    } catch (error) {
+      throw new ServiceError("LEADS_FETCH_FAILED", "Failed to load leads", error);
+    }
+  }
+
+  /**
+   * A lead with its history, null when it isn't one of the store's leads
+   */
+  static async getLead(storeId: string, leadId: string): Promise<LeadDetail | null> {
+    const lead = await prisma.lead.findFirst({
+      where: { id: leadId, storeId },
+      select: {
+        ...LIST_SELECT,
+        phone: true,
+        consentedAt: true,
+        consentText: true,
+        sessionId: true,
+        visitorId: true,
+        pageUrl: true,
+        pageTitle: true,
+        referrer: true,
+        utmSource: true,
+        utmMedium: true,
+        utmCampaign: true,
+      },
+    });
+    if (!lead) return null;
+
+    // Events of the lead itself and of the visit it signed up in
+    const eventScopes: Prisma.PopupEventWhereInput[] = [
+      { leadId: lead.id },
+      { sessionId: lead.sessionId },
+    ];
+    if (lead.visitorId) eventScopes.push({ visitorId: lead.visitorId });
+
+    // Orders credited to a campaign through the lead's code or customer
+    const orderScopes: Prisma.CampaignConversionWhereInput[] = [];
+    if (lead.discountCode) orderScopes.push({ discountCodes: { has: lead.discountCode } });
+    if (lead.shopifyCustomerId) orderScopes.push({ customerId: String(lead.shopifyCustomerId) });
+
+    const [events, orders, syncs] = await Promise.all([
+      prisma.popupEvent.findMany({
+        where: { storeId, OR: eventScopes },
+        select: {
+          id: true,
+          eventType: true,
+          campaignId: true,
+          pageUrl: true,
+          deviceType: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: "desc" },
+        take: DETAIL_HISTORY_LIMIT,
+      }),
+      orderScopes.length > 0
+        ? prisma.campaignConversion.findMany({
+            where: { campaign: { storeId }, OR: orderScopes },
+            select: {
+              orderId: true,
+              orderNumber: true,
+              campaignId: true,
+              totalPrice: true,
+              netRevenue: true,
+              discountCodes: true,
+              source: true,
+              cancelledAt: true,
+              createdAt: true,
+              campaign: { select: { name: true } },
+            },
+            orderBy: { createdAt: "desc" },
+            take: DETAIL_HISTORY_LIMIT,
+          })
+        : Promise.resolve([]),
+      prisma.espSyncJob.findMany({
+        where: { leadId: lead.id },
+        select: {
+          status: true,
+          lastError: true,
+          deliveredAt: true,
+          integration: { select: { provider: true } },
+        },
+      }),
+    ]);
+
+    return {
+      ...toListItem(lead),
+      phone: lead.phone,
+      consentedAt: lead.consentedAt?.toISOString() ?? null,
+      consentText: lead.consentText,
+      confirmationSentAt: lead.confirmationSentAt?.toISOString() ?? null,
+      confirmedAt: lead.confirmedAt?.toISOString() ?? null,
+      pageUrl: lead.pageUrl,
+      pageTitle: lead.pageTitle,
+      referrer: lead.referrer,
+      utmSource: lead.utmSource,
+      utmMedium: lead.utmMedium,
+      utmCampaign: lead.utmCampaign,
+      events: events.map(
+        (event: {
+          id: string;
+          eventType: string;
+          campaignId: string;
+          pageUrl: string | null;
+          deviceType: string | null;
+          createdAt: Date;
+        }) => ({ ...event, createdAt: event.createdAt.toISOString() })
+      ),
+      orders: orders.map(
+        (order: {
+          orderId: string;
+          orderNumber: string;
+          campaignId: string;
+          totalPrice: Prisma.Decimal;
+          netRevenue: Prisma.Decimal;
+          discountCodes: string[];
+          source: string;
+          cancelledAt: Date | null;
+          createdAt: Date;
+          campaign: { name: string };
+        }) => ({
+          orderId: order.orderId,
+          orderNumber: order.orderNumber,
+          campaignId: order.campaignId,
+          campaignName: order.campaign.name,
+          totalPrice: Number(order.totalPrice),
+          netRevenue: Number(order.netRevenue),
+          discountCodes: order.discountCodes,
+          source: order.source,
+          cancelledAt: order.cancelledAt?.toISOString() ?? null,
+          createdAt: order.createdAt.toISOString(),
+        })
+      ),
+      syncs: syncs.map(
+        (sync: {
+          status: string;
+          lastError: string | null;
+          deliveredAt: Date | null;
+          integration: { provider: string };
+        }) => ({
+          provider: sync.integration.provider,
+          status: sync.status,
+          lastError: sync.lastError,
+          deliveredAt: sync.deliveredAt?.toISOString() ?? null,
+        })
+      ),
+    };
+  }
+
+  /**
+   * Upsert leads as Shopify customers (consent and campaign tags) and queue
+   * them for every enabled ESP integration
+   */
+  static async resyncLeads(
+    storeId: string,
+    leadIds: unknown,
+    admin: AdminApiContext
+  ): Promise<LeadResyncResult> {
+    const ids = parseSelection(leadIds);
+    const leads = await prisma.lead.findMany({
+      where: { storeId, id: { in: ids } },
+      select: {
+        id: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        phone: true,
+        marketingConsent: true,
+        campaignId: true,
+        discountCode: true,
+        campaign: { select: { name: true, templateType: true } },
+      },
+    });
+
+    const result: LeadResyncResult = { shopify: 0, shopifyFailed: 0, espJobs: 0 };
+    for (const lead of leads) {
+      if (NON_CONTACT_EMAIL.test(lead.email)) continue;
+
+      const customer = await upsertCustomer(
+        admin,
+        sanitizeCustomerData({
+          email: lead.email,
+          firstName: lead.firstName ?? undefined,
+          lastName: lead.lastName ?? undefined,
+          phone: lead.phone ?? undefined,
+          marketingConsent: lead.marketingConsent,
+          source: "revenue-boost-popup",
+          campaignId: lead.campaignId,
+          campaignName: lead.campaign.name,
+          templateType: lead.campaign.templateType,
+          discountCode: lead.discountCode ?? undefined,
+        })
+      );
+
+      if (customer.success && customer.shopifyCustomerId) {
+        await prisma.lead.update({
+          where: { id: lead.id },
+          data: { shopifyCustomerId: BigInt(extractCustomerId(customer.shopifyCustomerId)) },
+        });
+        result.shopify++;
+      } else {
+        logger.warn(
+          { storeId, leadId: lead.id, errors: customer.errors },
+          "[LeadManagement] Shopify customer re-sync failed"
+        );
+        result.shopifyFailed++;
+      }
+
+      result.espJobs += await EspSyncService.enqueueLead(lead.id);
+    }
+
+    logger.info({ storeId, leads: leads.length, ...result }, "[LeadManagement] Leads re-synced");
+    return result;
+  }
+
+  /**
+   * Delete leads for a GDPR erasure request. Popup events, conversions and
+   * lead orders are kept for reporting but unlinked from the shopper, like
+   * the customers/redact webhook does. The Shopify customer is not touched.
+   */
+  static async deleteLeads(storeId: string, leadIds: unknown): Promise<number> {
+    const ids = parseSelection(leadIds);
+    const leads = await prisma.lead.findMany({
+      where: { storeId, id: { in: ids } },
+      select: { id: true, email: true, shopifyCustomerId: true },
+    });
+    if (leads.length === 0) return 0;
+
+    const found = leads.map((lead) => lead.id);
+    const emails = Array.from(new Set(leads.map((lead) => lead.email.toLowerCase())));
+    const customerIds = leads.flatMap((lead) =>
+      lead.shopifyCustomerId !== null ? [String(lead.shopifyCustomerId)] : []
+    );
+
+    await prisma.$transaction(async (tx) => {
+      await tx.popupEvent.updateMany({
+        where: { storeId, leadId: { in: found } },
+        data: {
+          ipAddress: null,
+          userAgent: null,
+          referrer: null,
+          visitorId: null,
+          metadata: Prisma.JsonNull,
+        },
+      });
+
+      if (customerIds.length > 0) {
+        await tx.campaignConversion.updateMany({
+          where: { customerId: { in: customerIds }, campaign: { storeId } },
+          data: { customerId: null },
+        });
+      }
+
+      await tx.leadOrder.updateMany({
+        where: {
+          storeId,
+          OR: [{ customerId: { in: customerIds } }, { email: { in: emails } }],
+        },
+        data: { customerId: null, email: null },
+      });
+
+      // lead.created deliveries carry the lead's details in their payload
+      await tx.webhookDelivery.deleteMany({
+        where: {
+          storeId,
+          eventKey: { in: found.map((id) => getWebhookEventKey("lead.created", id)) },
+        },
+      });
+
+      // Sync jobs cascade, popup events keep their row with leadId cleared
+      await tx.lead.deleteMany({ where: { storeId, id: { in: found } } });
+    });
+
+    logger.info({ storeId, count: found.length }, "[LeadManagement] Leads deleted (GDPR)");
+    return found.length;
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Lead Management Types
+ *
+ * Filters, rows and bulk actions of the leads screen (/app/leads). Shared by
+ * LeadManagementService, the route and its components.
+ */
+
+import { z } from "zod";
+
+// ============================================================================
+// FILTERS
+// ============================================================================
+
+/** awaiting_confirmation: double opt-in email sent, link not followed yet */
+export const LEAD_CONSENT_FILTERS = [
+  "all",
+  "consented",
+  "not_consented",
+  "awaiting_confirmation",
+] as const;
+export type LeadConsentFilter = (typeof LEAD_CONSENT_FILTERS)[number];
+
+/** issued: got a code; used / unused: the code was / wasn't used in an order */
+export const LEAD_DISCOUNT_FILTERS = ["all", "issued", "used", "unused", "none"] as const;
+export type LeadDiscountFilter = (typeof LEAD_DISCOUNT_FILTERS)[number];
+
+export const LEAD_CONSENT_FILTER_LABELS: Record<LeadConsentFilter, string> = {
+  all: "Any consent",
+  consented: "Marketing consent",
+  not_consented: "No consent",
+  awaiting_confirmation: "Awaiting confirmation",
+};
+
+export const LEAD_DISCOUNT_FILTER_LABELS: Record<LeadDiscountFilter, string> = {
+  all: "Any discount",
+  issued: "Code issued",
+  used: "Code used",
+  unused: "Code not used",
+  none: "No code",
+};
+
+export const LEADS_PAGE_SIZE = 50;
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Leads screen filters from the URL. Dates are YYYY-MM-DD, whole UTC days.
+ */
+export const LeadFiltersSchema = z
+  .object({
+    q: z.string().trim().max(200).optional(),
+    campaignId: z.string().min(1).optional(),
+    consent: z.enum(LEAD_CONSENT_FILTERS).default("all"),
+    discount: z.enum(LEAD_DISCOUNT_FILTERS).default("all"),
+    from: z.string().regex(DATE_KEY, "Use YYYY-MM-DD").optional(),
+    to: z.string().regex(DATE_KEY, "Use YYYY-MM-DD").optional(),
+    page: z.coerce.number().int().min(1).default(1),
+  })
+  .refine((filters) => !filters.from || !filters.to || filters.from <= filters.to, {
+    message: "from must be on or before to",
+  });
+
+export type LeadFilters = z.output<typeof LeadFiltersSchema>;
+
+// ============================================================================
+// BULK ACTIONS
+// ============================================================================
+
+/** Leads per bulk action; matches MAX_EXPORT_IDS of the export API */
+export const MAX_BULK_LEADS = 250;
+
+export const LeadSelectionSchema = z
+  .array(z.string().min(1))
+  .min(1, "Select at least one lead")
+  .max(MAX_BULK_LEADS, `Select at most ${MAX_BULK_LEADS} leads`);
+
+export interface LeadResyncResult {
+  /** Leads upserted as Shopify customers */
+  shopify: number;
+  /** Leads the Admin API rejected */
+  shopifyFailed: number;
+  /** ESP sync jobs queued */
+  espJobs: number;
+}
+
+// ============================================================================
+// ROWS
+// ============================================================================
+
+export interface LeadListItem {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  campaignId: string;
+  campaignName: string;
+  marketingConsent: boolean;
+  /** Double opt-in email sent, link not followed yet */
+  awaitingConfirmation: boolean;
+  discountCode: string | null;
+  discountUsedAt: string | null;
+  shopifyCustomerId: string | null;
+  submittedAt: string;
+}
+
+export interface LeadListPage {
+  leads: LeadListItem[];
+  total: number;
+  page: number;
+  pageCount: number;
+}
+
+export interface LeadEventEntry {
+  id: string;
+  eventType: string;
+  campaignId: string;
+  pageUrl: string | null;
+  deviceType: string | null;
+  createdAt: string;
+}
+
+export interface LeadOrderEntry {
+  orderId: string;
+  orderNumber: string;
+  campaignId: string;
+  campaignName: string;
+  totalPrice: number;
+  netRevenue: number;
+  discountCodes: string[];
+  source: string;
+  cancelledAt: string | null;
+  createdAt: string;
+}
+
+export interface LeadSyncEntry {
+  provider: string;
+  status: string;
+  lastError: string | null;
+  deliveredAt: string | null;
+}
+
+/** Everything the detail drawer shows about a lead */
+export interface LeadDetail extends LeadListItem {
+  phone: string | null;
+  consentedAt: string | null;
+  consentText: string | null;
+  confirmationSentAt: string | null;
+  confirmedAt: string | null;
+  pageUrl: string | null;
+  pageTitle: string | null;
+  referrer: string | null;
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  events: LeadEventEntry[];
+  orders: LeadOrderEntry[];
+  syncs: LeadSyncEntry[];
+}
@@ -318,6 +318,8 @@ export const TEMPLATE_PREVIEW_REGISTRY: Record<string, TemplatePreviewEntry<any>
         consentFieldEnabled: mergedConfig.consentFieldEnabled ?? false,
         consentFieldRequired: mergedConfig.consentFieldRequired ?? false,
         consentFieldText: mergedConfig.consentFieldText || "I agree to receive marketing emails",
+        doubleOptInEnabled: mergedConfig.doubleOptInEnabled ?? false,
+        revealDiscountAfterConfirmation: mergedConfig.revealDiscountAfterConfirmation ?? false,
 
         // Spa Serenity features (Phase C)
         tagText: mergedConfig.tagText,
@@ -587,6 +589,8 @@ export const TEMPLATE_PREVIEW_REGISTRY: Record<string, TemplatePreviewEntry<any>
       consentFieldEnabled: mergedConfig.consentFieldEnabled ?? false,
       consentFieldRequired: mergedConfig.consentFieldRequired ?? false,
       consentFieldText: mergedConfig.consentFieldText,
+      doubleOptInEnabled: mergedConfig.doubleOptInEnabled ?? false,
+      revealDiscountAfterConfirmation: mergedConfig.revealDiscountAfterConfirmation ?? false,
 
       // All common config (colors, typography, layout, image settings)
       ...buildCommonConfig(mergedConfig, designConfig),
@@ -636,6 +640,8 @@ export const TEMPLATE_PREVIEW_REGISTRY: Record<string, TemplatePreviewEntry<any>
       consentFieldEnabled: mergedConfig.consentFieldEnabled ?? false,
       consentFieldRequired: mergedConfig.consentFieldRequired ?? false,
       consentFieldText: mergedConfig.consentFieldText,
+      doubleOptInEnabled: mergedConfig.doubleOptInEnabled ?? false,
+      revealDiscountAfterConfirmation: mergedConfig.revealDiscountAfterConfirmation ?? false,
 
       // All common config (colors, typography, layout, image settings)
       ...buildCommonConfig(mergedConfig, designConfig),
@@ -22,6 +22,8 @@ import prisma from "~/db.server";
 import { getCampaignDiscountCode } from "~/domains/commerce/services/discount.server";
 import { formatZodErrors } from "~/lib/validation-helpers";
 import { PopupEventService } from "~/domains/analytics/popup-events.server";
+import { EspSyncService } from "~/domains/integrations/services/esp-sync.server";
+import { OutboundWebhookService } from "~/domains/integrations/services/outbound-webhooks.server";
 
 // ============================================================================
 // TYPES
@@ -536,6 +538,9 @@ export async function storeLead(
         },
         select: { id: true },
       });
+      // Queue delivery to the store's connected email platforms and webhooks
+      await EspSyncService.enqueueLead(lead.id);
+      await OutboundWebhookService.emitLeadCreated(lead.id);
       return lead;
     } else {
       // If no email, create anonymous lead record for this session
@@ -0,0 +1,59 @@
+/**
+ * Campaign writes through the public API, with the same checks as the
+ * admin's campaign routes: plan gates, custom CSS sanitizing and segment
+ * membership sync.
+ */
+
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type {
+  CampaignCreateData,
+  CampaignUpdateData,
+  TargetRulesConfig,
+} from "~/domains/campaigns";
+import { PlanGuardService } from "~/domains/billing/services/plan-guard.server";
+import { triggerCampaignSegmentSync } from "~/domains/targeting/services/campaign-segment-sync.server";
+import { validateCustomCss } from "~/lib/css-guards";
+import { ValidationError } from "~/lib/validation-helpers";
+
+/**
+ * Enforce plan gates and sanitize custom CSS before a create / update
+ */
+export async function prepareCampaignWrite(
+  storeId: string,
+  input: CampaignCreateData | CampaignUpdateData
+): Promise<void> {
+  // Scheduling and dayparting build on the scheduledCampaigns plan feature
+  if (input.startDate || input.endDate || input.targetRules?.dayparting?.enabled) {
+    await PlanGuardService.assertCanUseScheduledCampaigns(storeId);
+  }
+
+  const designConfig = input.designConfig as { customCSS?: unknown } | undefined;
+  if (!designConfig) return;
+
+  try {
+    const safeCss = validateCustomCss(designConfig.customCSS, "designConfig.customCSS");
+    if (safeCss !== undefined) {
+      designConfig.customCSS = safeCss;
+    } else if ("customCSS" in designConfig) {
+      delete designConfig.customCSS;
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Invalid custom CSS";
+    throw new ValidationError(message, [message], "designConfig.customCSS");
+  }
+}
+
+/**
+ * Refresh Shopify segment memberships when the campaign targets segments
+ */
+export function syncCampaignSegments(
+  storeId: string,
+  input: CampaignCreateData | CampaignUpdateData,
+  admin: AdminApiContext
+): void {
+  triggerCampaignSegmentSync({
+    storeId,
+    targetRules: input.targetRules as TargetRulesConfig | undefined,
+    admin,
+  });
+}
@@ -0,0 +1,177 @@
+/**
+ * ApiKeysCard - Keys for the public REST API
+ *
+ * Create a key with its scopes, rotate or revoke it. A key is only shown
+ * right after it was created or rotated.
+ */
+
+import { useEffect, useState } from "react";
+import {
+  Badge,
+  Banner,
+  BlockStack,
+  Button,
+  Card,
+  Checkbox,
+  DataTable,
+  InlineStack,
+  Link,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import {
+  API_KEY_SCOPES,
+  API_KEY_SCOPE_LABELS,
+  MAX_API_KEYS,
+  type ApiKeyInput,
+  type ApiKeyScope,
+  type ApiKeySummary,
+} from "../types";
+
+export interface ApiKeysCardProps {
+  apiKeys: ApiKeySummary[];
+  /** Key just created or rotated */
+  issuedKey: { name: string; secret: string } | null;
+  /** Key being rotated or revoked, "new" while one is created */
+  pendingId: string | null;
+  onCreate: (input: ApiKeyInput) => void;
+  onRotate: (keyId: string) => void;
+  onRevoke: (keyId: string) => void;
+}
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString() : "Never");
+
+export function ApiKeysCard({
+  apiKeys,
+  issuedKey,
+  pendingId,
+  onCreate,
+  onRotate,
+  onRevoke,
+}: ApiKeysCardProps) {
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["analytics:read"]);
+  const [showIssued, setShowIssued] = useState(true);
+  const activeCount = apiKeys.filter((key) => !key.revokedAt).length;
+  const atLimit = activeCount >= MAX_API_KEYS;
+
+  useEffect(() => setShowIssued(true), [issuedKey]);
+
+  const handleCreate = () => {
+    onCreate({ name: name.trim(), scopes });
+    setName("");
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            API keys
+          </Text>
+          <Text as="p" tone="subdued">
+            Automate campaigns and reporting from CI or scripts with the REST API. Send the key as{" "}
+            <code>Authorization: Bearer &lt;key&gt;</code>. See the{" "}
+            <Link url="/api/v1/openapi.json" target="_blank">
+              OpenAPI document
+            </Link>
+            .
+          </Text>
+        </BlockStack>
+
+        {issuedKey && showIssued && (
+          <Banner
+            tone="warning"
+            title={`Copy the key for "${issuedKey.name}" now - it won't be shown again`}
+            onDismiss={() => setShowIssued(false)}
+          >
+            <TextField
+              label="API key"
+              labelHidden
+              readOnly
+              autoComplete="off"
+              value={issuedKey.secret}
+              selectTextOnFocus
+            />
+          </Banner>
+        )}
+
+        {apiKeys.length > 0 && (
+          <DataTable
+            columnContentTypes={["text", "text", "text", "text", "text"]}
+            headings={["Name", "Key", "Scopes", "Last used", ""]}
+            rows={apiKeys.map((key) => [
+              key.name,
+              `${key.keyHint}…`,
+              <InlineStack key="scopes" gap="100">
+                {key.scopes.map((scope) => (
+                  <Badge key={scope}>{scope}</Badge>
+                ))}
+              </InlineStack>,
+              formatTime(key.lastUsedAt),
+              key.revokedAt ? (
+                <Badge key="revoked" tone="critical">
+                  Revoked
+                </Badge>
+              ) : (
+                <InlineStack key="actions" gap="200">
+                  <Button
+                    size="slim"
+                    onClick={() => onRotate(key.id)}
+                    loading={pendingId === key.id}
+                  >
+                    Rotate
+                  </Button>
+                  <Button
+                    size="slim"
+                    variant="plain"
+                    tone="critical"
+                    onClick={() => onRevoke(key.id)}
+                    disabled={pendingId === key.id}
+                  >
+                    Revoke
+                  </Button>
+                </InlineStack>
+              ),
+            ])}
+          />
+        )}
+
+        <BlockStack gap="300">
+          <TextField
+            label="Key name"
+            autoComplete="off"
+            value={name}
+            onChange={setName}
+            placeholder="e.g. CI deploys"
+            disabled={atLimit}
+            helpText={atLimit ? `You can have up to ${MAX_API_KEYS} active keys` : undefined}
+          />
+          <InlineStack gap="400">
+            {API_KEY_SCOPES.map((scope) => (
+              <Checkbox
+                key={scope}
+                label={API_KEY_SCOPE_LABELS[scope]}
+                helpText={scope}
+                checked={scopes.includes(scope)}
+                disabled={atLimit}
+                onChange={(checked) =>
+                  setScopes(checked ? [...scopes, scope] : scopes.filter((s) => s !== scope))
+                }
+              />
+            ))}
+          </InlineStack>
+          <InlineStack>
+            <Button
+              onClick={handleCreate}
+              loading={pendingId === "new"}
+              disabled={atLimit || !name.trim() || scopes.length === 0}
+            >
+              Create API key
+            </Button>
+          </InlineStack>
+        </BlockStack>
+      </BlockStack>
+    </Card>
+  );
+}
@@ -0,0 +1,379 @@
+/**
+ * OpenAPI Document
+ *
+ * Describes the public REST API (/api/v1), served at /api/v1/openapi.json.
+ * Request bodies are generated from the same zod schemas the routes
+ * validate with, so the document can't drift from them.
+ */
+
+import { z } from "zod";
+import {
+  CampaignCreateDataSchema,
+  CampaignUpdateDataSchema,
+  ExperimentCreateDataSchema,
+  ExperimentUpdateDataSchema,
+} from "~/domains/campaigns/types.shared";
+import { API_KEY_SCOPE_LABELS, PUBLIC_API_VERSION, type ApiKeyScope } from "./types";
+
+type JsonObject = Record<string, unknown>;
+
+function toJsonSchema(schema: z.ZodType): JsonObject {
+  return z.toJSONSchema(schema, { io: "input", unrepresentable: "any" }) as JsonObject;
+}
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+function envelope(data: JsonObject): JsonObject {
+  return {
+    type: "object",
+    required: ["success", "data", "timestamp"],
+    properties: {
+      success: { type: "boolean", const: true },
+      data,
+      timestamp: { type: "string", format: "date-time" },
+    },
+  };
+}
+
+const jsonBody = (schema: JsonObject) => ({
+  required: true,
+  content: { "application/json": { schema } },
+});
+
+const ok = (description: string, data: JsonObject, status = "200") => ({
+  [status]: { description, content: { "application/json": { schema: envelope(data) } } },
+});
+
+const errorResponses = {
+  "400": { $ref: "#/components/responses/BadRequest" },
+  "401": { $ref: "#/components/responses/Unauthorized" },
+  "403": { $ref: "#/components/responses/Forbidden" },
+  "429": { $ref: "#/components/responses/RateLimited" },
+};
+
+const withNotFound = { ...errorResponses, "404": { $ref: "#/components/responses/NotFound" } };
+
+function operation(
+  scope: ApiKeyScope,
+  summary: string,
+  details: JsonObject & { responses: JsonObject }
+): JsonObject {
+  return {
+    summary,
+    description: `Requires the \`${scope}\` scope (${API_KEY_SCOPE_LABELS[scope]}).`,
+    security: [{ apiKey: [] }],
+    "x-scope": scope,
+    ...details,
+  };
+}
+
+const idParam = (name: string) => ({
+  name,
+  in: "path",
+  required: true,
+  schema: { type: "string" },
+});
+
+const timeRangeParam = {
+  name: "timeRange",
+  in: "query",
+  schema: { type: "string", enum: ["7d", "30d", "90d", "all"], default: "30d" },
+};
+
+/**
+ * OpenAPI 3.1 document for a deployment
+ */
+export function buildOpenApiDocument(appUrl: string): JsonObject {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Revenue Boost API",
+      version: `${PUBLIC_API_VERSION}`,
+      description:
+        "Manage campaigns and experiments, read leads and analytics of a store. " +
+        "Create API keys in the app's Settings; each key belongs to one store and has scopes. " +
+        "Requests are rate limited per key (120 reads and 30 writes per minute); " +
+        "X-RateLimit-* headers report the remaining budget.",
+    },
+    servers: [{ url: `${appUrl.replace(/\/$/, "")}/api/${PUBLIC_API_VERSION}` }],
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: "http",
+          scheme: "bearer",
+          description: "Authorization: Bearer rbk_...",
+        },
+      },
+      schemas: {
+        Campaign: {
+          type: "object",
+          description: "Campaign with its parsed content, design, targeting and discount configs",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            status: { type: "string" },
+            templateType: { type: "string" },
+          },
+          additionalProperties: true,
+        },
+        CampaignCreate: toJsonSchema(CampaignCreateDataSchema),
+        CampaignUpdate: toJsonSchema(CampaignUpdateDataSchema),
+        Experiment: {
+          type: "object",
+          description: "Experiment with its variants",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            status: { type: "string" },
+          },
+          additionalProperties: true,
+        },
+        ExperimentCreate: toJsonSchema(ExperimentCreateDataSchema),
+        ExperimentUpdate: toJsonSchema(ExperimentUpdateDataSchema),
+        Lead: {
+          type: "object",
+          properties: {
+            ...Object.fromEntries(
+              [
+                "id",
+                "email",
+                "firstName",
+                "lastName",
+                "phone",
+                "campaignId",
+                "discountCode",
+                "shopifyCustomerId",
+                "pageUrl",
+                "utmSource",
+                "utmMedium",
+                "utmCampaign",
+              ].map((key) => [key, { type: ["string", "null"] }])
+            ),
+            marketingConsent: { type: "boolean" },
+            consentedAt: { type: ["string", "null"], format: "date-time" },
+            submittedAt: { type: "string", format: "date-time" },
+            createdAt: { type: "string", format: "date-time" },
+          },
+        },
+        Error: {
+          type: "object",
+          required: ["success", "error"],
+          properties: {
+            success: { type: "boolean", const: false },
+            error: { type: "string" },
+            errors: { type: "array", items: { type: "string" } },
+            timestamp: { type: "string", format: "date-time" },
+          },
+        },
+      },
+      responses: Object.fromEntries(
+        [
+          ["BadRequest", "Invalid request"],
+          ["Unauthorized", "Missing, invalid or revoked API key"],
+          ["Forbidden", "The API key lacks the required scope"],
+          ["NotFound", "Not found in the key's store"],
+          ["RateLimited", "Rate limit exceeded; retry after the Retry-After header"],
+        ].map(([name, description]) => [
+          name,
+          { description, content: { "application/json": { schema: ref("Error") } } },
+        ])
+      ),
+    },
+    paths: {
+      "/campaigns": {
+        get: operation("campaigns:write", "List campaigns", {
+          parameters: [
+            { name: "status", in: "query", schema: { type: "string", enum: ["active"] } },
+            { name: "templateType", in: "query", schema: { type: "string" } },
+          ],
+          responses: {
+            ...ok("Campaigns", {
+              type: "object",
+              properties: { campaigns: { type: "array", items: ref("Campaign") } },
+            }),
+            ...errorResponses,
+          },
+        }),
+        post: operation("campaigns:write", "Create a campaign", {
+          requestBody: jsonBody(ref("CampaignCreate")),
+          responses: {
+            ...ok(
+              "Created campaign",
+              { type: "object", properties: { campaign: ref("Campaign") } },
+              "201"
+            ),
+            ...errorResponses,
+          },
+        }),
+      },
+      "/campaigns/{campaignId}": {
+        parameters: [idParam("campaignId")],
+        get: operation("campaigns:write", "Get a campaign", {
+          responses: {
+            ...ok("Campaign", { type: "object", properties: { campaign: ref("Campaign") } }),
+            ...withNotFound,
+          },
+        }),
+        put: operation("campaigns:write", "Update a campaign", {
+          requestBody: jsonBody(ref("CampaignUpdate")),
+          responses: {
+            ...ok("Updated campaign", {
+              type: "object",
+              properties: { campaign: ref("Campaign") },
+            }),
+            ...withNotFound,
+          },
+        }),
+        delete: operation("campaigns:write", "Delete a campaign", {
+          responses: {
+            ...ok("Deleted", { type: "object", properties: { deleted: { type: "boolean" } } }),
+            ...withNotFound,
+          },
+        }),
+      },
+      "/experiments": {
+        get: operation("campaigns:write", "List experiments", {
+          parameters: [
+            { name: "status", in: "query", schema: { type: "string", enum: ["running"] } },
+          ],
+          responses: {
+            ...ok("Experiments", {
+              type: "object",
+              properties: { experiments: { type: "array", items: ref("Experiment") } },
+            }),
+            ...errorResponses,
+          },
+        }),
+        post: operation("campaigns:write", "Create an experiment", {
+          requestBody: jsonBody(ref("ExperimentCreate")),
+          responses: {
+            ...ok(
+              "Created experiment",
+              { type: "object", properties: { experiment: ref("Experiment") } },
+              "201"
+            ),
+            ...errorResponses,
+          },
+        }),
+      },
+      "/experiments/{experimentId}": {
+        parameters: [idParam("experimentId")],
+        get: operation("campaigns:write", "Get an experiment", {
+          responses: {
+            ...ok("Experiment", { type: "object", properties: { experiment: ref("Experiment") } }),
+            ...withNotFound,
+          },
+        }),
+        put: operation("campaigns:write", "Update an experiment", {
+          requestBody: jsonBody(ref("ExperimentUpdate")),
+          responses: {
+            ...ok("Updated experiment", {
+              type: "object",
+              properties: { experiment: ref("Experiment") },
+            }),
+            ...withNotFound,
+          },
+        }),
+      },
+      "/experiments/{experimentId}/declare-winner": {
+        parameters: [idParam("experimentId")],
+        post: operation("campaigns:write", "Declare the winning variant", {
+          requestBody: jsonBody({
+            type: "object",
+            required: ["winningVariantKey"],
+            properties: { winningVariantKey: { type: "string", examples: ["B"] } },
+          }),
+          responses: {
+            ...ok("Winner declared", {
+              type: "object",
+              properties: {
+                experimentId: { type: "string" },
+                winningVariantKey: { type: "string" },
+              },
+            }),
+            ...withNotFound,
+          },
+        }),
+      },
+      "/leads": {
+        get: operation("leads:read", "List leads, oldest first", {
+          parameters: [
+            { name: "campaignId", in: "query", schema: { type: "string" } },
+            { name: "from", in: "query", schema: { type: "string", format: "date-time" } },
+            { name: "to", in: "query", schema: { type: "string", format: "date-time" } },
+            {
+              name: "limit",
+              in: "query",
+              schema: { type: "integer", minimum: 1, maximum: 500, default: 100 },
+            },
+            {
+              name: "cursor",
+              in: "query",
+              description: "nextCursor of the previous page",
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            ...ok("One page of leads", {
+              type: "object",
+              properties: {
+                leads: { type: "array", items: ref("Lead") },
+                nextCursor: { type: ["string", "null"] },
+              },
+            }),
+            ...errorResponses,
+          },
+        }),
+      },
+      "/analytics/summary": {
+        get: operation("analytics:read", "Store-wide metrics", {
+          parameters: [timeRangeParam],
+          responses: {
+            ...ok("Metrics for the period and the one before it", {
+              type: "object",
+              properties: {
+                timeRange: { type: "string" },
+                current: { type: "object" },
+                previous: { type: "object" },
+                changes: { type: "object" },
+              },
+            }),
+            ...errorResponses,
+          },
+        }),
+      },
+      "/analytics/campaigns": {
+        get: operation("analytics:read", "Campaign performance rankings", {
+          parameters: [
+            timeRangeParam,
+            {
+              name: "sortBy",
+              in: "query",
+              schema: {
+                type: "string",
+                enum: ["revenue", "leads", "conversionRate", "impressions"],
+                default: "revenue",
+              },
+            },
+            {
+              name: "limit",
+              in: "query",
+              schema: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+            },
+          ],
+          responses: {
+            ...ok("Rankings", {
+              type: "object",
+              properties: {
+                timeRange: { type: "string" },
+                sortBy: { type: "string" },
+                rankings: { type: "array", items: { type: "object" } },
+              },
+            }),
+            ...errorResponses,
+          },
+        }),
+      },
+    },
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Public API Request Handling
+ *
+ * Every /api/v1 route runs through withPublicApi:
+ * 1. Authorization: Bearer <API key> -> store and scopes (401 / 403)
+ * 2. Per-key rate limit through RateLimiter, writes in their own bucket (429)
+ * 3. The handler's result in the standard API envelope, errors through
+ *    handleApiError
+ */
+
+import { data } from "react-router";
+import { unauthenticated } from "~/shopify.server";
+import { createApiResponse } from "~/lib/api-types";
+import { handleApiError } from "~/lib/api-error-handler.server";
+import { ServiceError } from "~/lib/errors.server";
+import { RATE_LIMIT_CONFIGS, RateLimiter } from "~/lib/rate-limiter.server";
+import { rateLimitResponse } from "~/lib/rate-limit-middleware.server";
+import { ApiKeyService } from "./services/api-key.server";
+import { PUBLIC_API_VERSION, type ApiKeyContext, type ApiKeyScope } from "./types";
+
+export interface PublicApiArgs {
+  request: Request;
+  params: Record<string, string | undefined>;
+  apiKey: ApiKeyContext;
+}
+
+export interface PublicApiOptions {
+  scope: ApiKeyScope;
+  /** Route for logs, e.g. "GET /api/v1/campaigns" */
+  context: string;
+  /** Counted against the key's write limit instead of its read limit */
+  write?: boolean;
+  /** Status of successful responses (201 for creations) */
+  status?: number;
+}
+
+/** Service error codes that mean the resource isn't in the key's store */
+const NOT_FOUND_CODES = new Set(["NOT_FOUND", "VARIANT_NOT_FOUND"]);
+
+function errorResponse(message: string, status: number, headers?: Record<string, string>) {
+  return data(createApiResponse(false, undefined, message), { status, headers });
+}
+
+function getBearerToken(request: Request): string | null {
+  const header = request.headers.get("authorization") || "";
+  return header.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : null;
+}
+
+export async function withPublicApi<T>(
+  args: { request: Request; params: Record<string, string | undefined> },
+  options: PublicApiOptions,
+  handler: (args: PublicApiArgs) => Promise<T>
+) {
+  const token = getBearerToken(args.request);
+  const apiKey = token ? await ApiKeyService.authenticate(token) : null;
+  if (!apiKey) {
+    return errorResponse("Missing or invalid API key", 401, {
+      "WWW-Authenticate": 'Bearer realm="revenue-boost"',
+    });
+  }
+  if (!apiKey.scopes.includes(options.scope)) {
+    return errorResponse(`This API key is missing the ${options.scope} scope`, 403);
+  }
+
+  const limit = options.write
+    ? RateLimiter.check(`apikey:${apiKey.keyId}:write`, RATE_LIMIT_CONFIGS.WRITE)
+    : RateLimiter.check(`apikey:${apiKey.keyId}`, RATE_LIMIT_CONFIGS.AUTHENTICATED);
+  if (!limit.allowed) {
+    return rateLimitResponse(limit.limit, limit.remaining, limit.resetAt);
+  }
+
+  try {
+    const payload = await handler({ ...args, apiKey });
+    return data(createApiResponse(true, payload), {
+      status: options.status ?? 200,
+      headers: {
+        "X-RateLimit-Limit": String(limit.limit),
+        "X-RateLimit-Remaining": String(limit.remaining),
+        "X-RateLimit-Reset": String(Math.floor(limit.resetAt / 1000)),
+        "X-Revenue-Boost-Api-Version": PUBLIC_API_VERSION,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ServiceError && NOT_FOUND_CODES.has(error.code)) {
+      return errorResponse(error.message, 404);
+    }
+    return handleApiError(error, options.context);
+  }
+}
+
+/**
+ * Admin API client of the key's store, through its offline session
+ */
+export async function getApiAdmin(apiKey: ApiKeyContext) {
+  const { admin } = await unauthenticated.admin(apiKey.shopDomain);
+  return admin;
+}
+
+/**
+ * JSON request body, a 400 when it doesn't parse
+ */
+export async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ServiceError("VALIDATION_FAILED", "Request body must be valid JSON");
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * API Key Service
+ *
+ * Store-scoped keys for the public REST API:
+ * - createKey / rotateKey: return the key once; only its SHA-256 is stored
+ * - revokeKey: the key stops working right away and stays listed
+ * - authenticate: resolves a bearer key to its store and scopes
+ */
+
+import { createHash, randomBytes } from "crypto";
+import type { ApiKey } from "@prisma/client";
+import prisma from "~/db.server";
+import { ServiceError } from "~/lib/errors.server";
+import {
+  API_KEY_PREFIX,
+  API_KEY_SCOPES,
+  ApiKeyInputSchema,
+  MAX_API_KEYS,
+  type ApiKeyContext,
+  type ApiKeyScope,
+  type ApiKeySummary,
+} from "../types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface IssuedApiKey {
+  apiKey: ApiKeySummary;
+  /** The key itself - shown once, never stored */
+  secret: string;
+}
+
+/** lastUsedAt is only written when older than this */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+const KEY_PATTERN = new RegExp(`^${API_KEY_PREFIX}[A-Za-z0-9_-]{48}$`);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function hashApiKey(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+function generateKey(): { secret: string; keyHash: string; keyHint: string } {
+  const secret = `${API_KEY_PREFIX}${randomBytes(36).toString("base64url")}`;
+  return {
+    secret,
+    keyHash: hashApiKey(secret),
+    keyHint: secret.slice(0, API_KEY_PREFIX.length + 6),
+  };
+}
+
+/**
+ * Scopes of a stored key. Values that are no longer known scopes grant
+ * nothing and are dropped.
+ */
+export function parseScopes(scopes: string[]): ApiKeyScope[] {
+  return scopes.filter((scope): scope is ApiKeyScope =>
+    (API_KEY_SCOPES as readonly string[]).includes(scope)
+  );
+}
+
+function toSummary(key: ApiKey): ApiKeySummary {
+  return {
+    id: key.id,
+    name: key.name,
+    keyHint: key.keyHint,
+    scopes: parseScopes(key.scopes),
+    lastUsedAt: key.lastUsedAt?.toISOString() ?? null,
+    rotatedAt: key.rotatedAt?.toISOString() ?? null,
+    revokedAt: key.revokedAt?.toISOString() ?? null,
+    createdAt: key.createdAt.toISOString(),
+  };
+}
+
+// ============================================================================
+// API KEY SERVICE
+// ============================================================================
+
+export class ApiKeyService {
+  static async listKeys(storeId: string): Promise<ApiKeySummary[]> {
+    const keys = await prisma.apiKey.findMany({
+      where: { storeId },
+      orderBy: [{ revokedAt: { sort: "desc", nulls: "first" } }, { createdAt: "desc" }],
+    });
+    return keys.map((key) => toSummary(key));
+  }
+
+  static async createKey(storeId: string, input: unknown): Promise<IssuedApiKey> {
+    const parsed = ApiKeyInputSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new ServiceError(
+        "VALIDATION_FAILED",
+        parsed.error.issues[0]?.message ?? "Invalid API key settings",
+        parsed.error
+      );
+    }
+
+    const active = await prisma.apiKey.count({ where: { storeId, revokedAt: null } });
+    if (active >= MAX_API_KEYS) {
+      throw new ServiceError(
+        "VALIDATION_FAILED",
+        `A store can have at most ${MAX_API_KEYS} active API keys`
+      );
+    }
+
+    const { secret, keyHash, keyHint } = generateKey();
+    const key = await prisma.apiKey.create({
+      data: { storeId, ...parsed.data, keyHash, keyHint },
+    });
+    return { apiKey: toSummary(key), secret };
+  }
+
+  /**
+   * Replace a key's secret; the old one stops working right away
+   */
+  static async rotateKey(storeId: string, keyId: string): Promise<IssuedApiKey> {
+    const { secret, keyHash, keyHint } = generateKey();
+    const result = await prisma.apiKey.updateMany({
+      where: { id: keyId, storeId, revokedAt: null },
+      data: { keyHash, keyHint, rotatedAt: new Date() },
+    });
+    if (result.count === 0) {
+      throw new ServiceError("NOT_FOUND", "API key not found or already revoked");
+    }
+
+    const key = await prisma.apiKey.findUniqueOrThrow({ where: { id: keyId } });
+    return { apiKey: toSummary(key), secret };
+  }
+
+  static async revokeKey(storeId: string, keyId: string): Promise<boolean> {
+    const result = await prisma.apiKey.updateMany({
+      where: { id: keyId, storeId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Store and scopes of an active key, null when it is unknown or revoked
+   * or its store uninstalled the app
+   */
+  static async authenticate(secret: string, now = new Date()): Promise<ApiKeyContext | null> {
+    if (!KEY_PATTERN.test(secret)) return null;
+
+    const key = await prisma.apiKey.findUnique({
+      where: { keyHash: hashApiKey(secret) },
+      select: {
+        id: true,
+        storeId: true,
+        scopes: true,
+        lastUsedAt: true,
+        revokedAt: true,
+        store: { select: { shopifyDomain: true, isActive: true } },
+      },
+    });
+    if (!key || key.revokedAt || !key.store.isActive) return null;
+
+    if (!key.lastUsedAt || now.getTime() - key.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await prisma.apiKey.update({ where: { id: key.id }, data: { lastUsedAt: now } });
+    }
+
+    return {
+      keyId: key.id,
+      storeId: key.storeId,
+      shopDomain: key.store.shopifyDomain,
+      scopes: parseScopes(key.scopes),
+    };
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Public API Types
+ *
+ * Store-scoped API keys for the versioned REST API (/api/v1), used to
+ * automate campaign management and reporting from CI or scripts without an
+ * embedded admin session. Shared by the key service, the API routes and the
+ * settings page.
+ */
+
+import { z } from "zod";
+
+export const PUBLIC_API_VERSION = "v1";
+
+// ============================================================================
+// SCOPES
+// ============================================================================
+
+export const API_KEY_SCOPES = ["analytics:read", "campaigns:write", "leads:read"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  "analytics:read": "Read analytics",
+  "campaigns:write": "Manage campaigns and experiments",
+  "leads:read": "Read leads (includes personal data)",
+};
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/** Keys look like rbk_<48 base64url characters> */
+export const API_KEY_PREFIX = "rbk_";
+
+export const MAX_API_KEYS = 20;
+
+export const ApiKeyInputSchema = z.object({
+  name: z.string().trim().min(1, "Name the key").max(60),
+  scopes: z
+    .array(z.enum(API_KEY_SCOPES))
+    .min(1, "Select at least one scope")
+    .transform((scopes) => Array.from(new Set(scopes))),
+});
+
+export type ApiKeyInput = z.input<typeof ApiKeyInputSchema>;
+
+/**
+ * Key as shown in settings - the key itself is only returned on creation
+ * and rotation
+ */
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  keyHint: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt: string | null;
+  rotatedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+/** Authenticated caller of the public API */
+export interface ApiKeyContext {
+  keyId: string;
+  storeId: string;
+  shopDomain: string;
+  scopes: ApiKeyScope[];
+}
@@ -0,0 +1,106 @@
+import { BlockStack, Card, InlineGrid, Select, Text, TextField } from "@shopify/polaris";
+import { useState } from "react";
+import {
+  AttributionSettingsSchema,
+  MAX_CLICK_WINDOW_DAYS,
+  type AttributionModel,
+  type AttributionSettings as AttributionSettingsValue,
+  type StoreSettings,
+} from "~/domains/store/types/settings";
+import {
+  ATTRIBUTION_MODELS,
+  ATTRIBUTION_MODEL_LABELS,
+} from "~/domains/analytics/attribution-models";
+
+interface AttributionSettingsProps {
+  settings: StoreSettings;
+  onChange: (newSettings: Partial<StoreSettings>) => void;
+}
+
+const MODEL_OPTIONS = ATTRIBUTION_MODELS.map((model) => ({
+  label: ATTRIBUTION_MODEL_LABELS[model],
+  value: model,
+}));
+
+const MODEL_HELP: Record<AttributionModel, string> = {
+  last_touch: "The last campaign before the order gets all the credit",
+  first_touch: "The first campaign the shopper interacted with gets all the credit",
+  linear: "Every campaign in the journey gets an equal share",
+  position_based: "40% to the first and last campaigns, 20% shared by the ones in between",
+};
+
+export function AttributionSettings({ settings, onChange }: AttributionSettingsProps) {
+  const [attribution, setAttribution] = useState<AttributionSettingsValue>(() =>
+    AttributionSettingsSchema.parse(settings.attribution ?? {})
+  );
+  const [clickWindow, setClickWindow] = useState(String(attribution.clickWindowDays));
+  const [viewWindow, setViewWindow] = useState(String(attribution.viewWindowDays));
+
+  const update = (updates: Partial<AttributionSettingsValue>) => {
+    const next = { ...attribution, ...updates };
+    setAttribution(next);
+    onChange({ attribution: next });
+  };
+
+  const handleWindowChange = (
+    field: "clickWindowDays" | "viewWindowDays",
+    value: string,
+    min: number,
+    max: number
+  ) => {
+    (field === "clickWindowDays" ? setClickWindow : setViewWindow)(value);
+    const days = parseInt(value, 10);
+    if (!Number.isNaN(days) && days >= min && days <= max) {
+      update({ [field]: days });
+    }
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            Revenue Attribution
+          </Text>
+          <Text as="p" tone="subdued">
+            Decide how an order is credited when a shopper interacted with several campaigns before
+            buying. Discount codes used at checkout always count as the last touch.
+          </Text>
+        </BlockStack>
+
+        <Select
+          label="Attribution model"
+          options={MODEL_OPTIONS}
+          value={attribution.model}
+          onChange={(value) => update({ model: value as AttributionModel })}
+          helpText={`${MODEL_HELP[attribution.model]}. Reports can switch models at any time.`}
+        />
+
+        <InlineGrid columns={2} gap="400">
+          <TextField
+            label="Click window (days)"
+            type="number"
+            min={1}
+            max={MAX_CLICK_WINDOW_DAYS}
+            value={clickWindow}
+            onChange={(value) =>
+              handleWindowChange("clickWindowDays", value, 1, MAX_CLICK_WINDOW_DAYS)
+            }
+            autoComplete="off"
+            helpText={`Clicks, sign-ups and issued coupons count this long before the order (up to ${MAX_CLICK_WINDOW_DAYS} days, the shortest time popup events are kept)`}
+          />
+          <TextField
+            label="View window (days)"
+            type="number"
+            min={0}
+            max={30}
+            value={viewWindow}
+            onChange={(value) => handleWindowChange("viewWindowDays", value, 0, 30)}
+            autoComplete="off"
+            helpText="Popups that were only seen count this long. 0 turns view-through off."
+          />
+        </InlineGrid>
+      </BlockStack>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+import {
+  BlockStack,
+  Box,
+  Button,
+  Card,
+  Checkbox,
+  ChoiceList,
+  InlineGrid,
+  InlineStack,
+  Select,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import { DeleteIcon, PlusIcon } from "@shopify/polaris-icons";
+import { useState } from "react";
+import {
+  CampaignArbitrationSettingsSchema,
+  type CampaignArbitrationSettings as ArbitrationSettings,
+  type ExclusiveCampaignGroup,
+  type StoreSettings,
+} from "~/domains/store/types/settings";
+
+export interface ArbitrationCampaignOption {
+  id: string;
+  name: string;
+  status: string;
+}
+
+interface CampaignArbitrationSettingsProps {
+  settings: StoreSettings;
+  campaigns: ArbitrationCampaignOption[];
+  onChange: (newSettings: Partial<StoreSettings>) => void;
+}
+
+const TIEBREAK_OPTIONS = [
+  { label: "Highest priority", value: "priority" },
+  { label: "Best historical conversion rate", value: "conversion_rate" },
+  { label: "Random (consistent per visitor)", value: "random" },
+];
+
+const MAX_OVERLAY_OPTIONS = ["1", "2", "3"].map((value) => ({
+  label: value === "1" ? "1 (one popup per page)" : value,
+  value,
+}));
+
+export function CampaignArbitrationSettings({
+  settings,
+  campaigns,
+  onChange,
+}: CampaignArbitrationSettingsProps) {
+  const [policy, setPolicy] = useState<ArbitrationSettings>(() =>
+    CampaignArbitrationSettingsSchema.parse(settings.arbitration ?? {})
+  );
+
+  const update = (updates: Partial<ArbitrationSettings>) => {
+    const next = { ...policy, ...updates };
+    setPolicy(next);
+    onChange({ arbitration: next });
+  };
+
+  const updateGroup = (index: number, updates: Partial<ExclusiveCampaignGroup>) => {
+    update({
+      exclusiveGroups: policy.exclusiveGroups.map((group, i) =>
+        i === index ? { ...group, ...updates } : group
+      ),
+    });
+  };
+
+  const addGroup = () => {
+    update({
+      exclusiveGroups: [
+        ...policy.exclusiveGroups,
+        {
+          id: `group_${Date.now().toString(36)}`,
+          name: `Group ${policy.exclusiveGroups.length + 1}`,
+          campaignIds: [],
+        },
+      ],
+    });
+  };
+
+  const campaignChoices = campaigns
+    .filter((campaign) => campaign.status !== "ARCHIVED")
+    .map((campaign) => ({
+      label:
+        campaign.status === "ACTIVE"
+          ? campaign.name
+          : `${campaign.name} (${campaign.status.toLowerCase()})`,
+      value: campaign.id,
+    }));
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            Campaign Conflicts
+          </Text>
+          <Text as="p" tone="subdued">
+            Decide what happens when several active campaigns match the same page, e.g. a newsletter
+            and a spin-to-win both targeting the homepage.
+          </Text>
+        </BlockStack>
+
+        <Checkbox
+          label="Resolve conflicts between campaigns"
+          checked={policy.enabled}
+          onChange={(enabled) => update({ enabled })}
+        />
+
+        {policy.enabled && (
+          <BlockStack gap="400">
+            <InlineGrid columns={2} gap="400">
+              <Select
+                label="Popups open at the same time"
+                options={MAX_OVERLAY_OPTIONS}
+                value={String(policy.maxConcurrentOverlays)}
+                onChange={(value) => update({ maxConcurrentOverlays: parseInt(value, 10) })}
+                helpText="Banners and social proof notifications don't count"
+              />
+              <Select
+                label="When campaigns conflict, show"
+                options={TIEBREAK_OPTIONS}
+                value={policy.tiebreak}
+                onChange={(value) => update({ tiebreak: value as ArbitrationSettings["tiebreak"] })}
+              />
+            </InlineGrid>
+
+            <BlockStack gap="200">
+              <Text as="h3" variant="headingSm">
+                Mutually exclusive groups
+              </Text>
+              <Text as="p" variant="bodySm" tone="subdued">
+                Only one campaign from each group is shown on a page, whichever wins the rule above.
+              </Text>
+            </BlockStack>
+
+            {policy.exclusiveGroups.map((group, index) => (
+              <Box
+                key={group.id}
+                padding="300"
+                borderWidth="025"
+                borderColor="border"
+                borderRadius="200"
+              >
+                <BlockStack gap="300">
+                  <InlineStack align="space-between" blockAlign="end" wrap={false}>
+                    <Box width="100%">
+                      <TextField
+                        label="Group name"
+                        value={group.name}
+                        onChange={(name) => updateGroup(index, { name })}
+                        autoComplete="off"
+                      />
+                    </Box>
+                    <Button
+                      icon={DeleteIcon}
+                      variant="plain"
+                      tone="critical"
+                      accessibilityLabel="Remove group"
+                      onClick={() =>
+                        update({
+                          exclusiveGroups: policy.exclusiveGroups.filter((_, i) => i !== index),
+                        })
+                      }
+                    />
+                  </InlineStack>
+
+                  {campaignChoices.length > 0 ? (
+                    <ChoiceList
+                      title="Campaigns"
+                      allowMultiple
+                      choices={campaignChoices}
+                      selected={group.campaignIds}
+                      onChange={(campaignIds) => updateGroup(index, { campaignIds })}
+                    />
+                  ) : (
+                    <Text as="p" variant="bodySm" tone="subdued">
+                      Create campaigns to add them to this group.
+                    </Text>
+                  )}
+                </BlockStack>
+              </Box>
+            ))}
+
+            <InlineStack>
+              <Button icon={PlusIcon} onClick={addGroup}>
+                Add group
+              </Button>
+            </InlineStack>
+          </BlockStack>
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
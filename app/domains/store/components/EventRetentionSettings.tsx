@@ -0,0 +1,90 @@
+import { BlockStack, Card, ChoiceList, Select, Text } from "@shopify/polaris";
+import { useState } from "react";
+import {
+  EventRetentionSettingsSchema,
+  MIN_EVENT_RETENTION_DAYS,
+  type EventRetentionMode,
+  type EventRetentionSettings as RetentionSettings,
+  type StoreSettings,
+} from "~/domains/store/types/settings";
+
+interface EventRetentionSettingsProps {
+  settings: StoreSettings;
+  /** Retention included in the current plan, null when raw events are kept forever */
+  planRetentionDays: number | null;
+  onChange: (newSettings: Partial<StoreSettings>) => void;
+}
+
+const RETENTION_DAY_CHOICES = [45, 90, 180, 365, 730];
+
+const MODE_CHOICES = [
+  {
+    label: "Archive, then delete",
+    value: "archive",
+    helpText: "Events are exported to compressed files before they are removed from the database",
+  },
+  {
+    label: "Delete",
+    value: "delete",
+    helpText: "Events are removed permanently",
+  },
+];
+
+export function EventRetentionSettings({
+  settings,
+  planRetentionDays,
+  onChange,
+}: EventRetentionSettingsProps) {
+  const [retention, setRetention] = useState<RetentionSettings>(() =>
+    EventRetentionSettingsSchema.parse(settings.eventRetention ?? {})
+  );
+
+  const update = (updates: Partial<RetentionSettings>) => {
+    const next = { ...retention, ...updates };
+    setRetention(next);
+    onChange({ eventRetention: next });
+  };
+
+  const planLabel =
+    planRetentionDays === null
+      ? "Plan default (forever)"
+      : `Plan default (${planRetentionDays} days)`;
+  const dayOptions = [
+    { label: planLabel, value: "" },
+    ...RETENTION_DAY_CHOICES.filter(
+      (days) =>
+        days >= MIN_EVENT_RETENTION_DAYS && (planRetentionDays === null || days < planRetentionDays)
+    ).map((days) => ({ label: `${days} days`, value: String(days) })),
+  ];
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            Event Data Retention
+          </Text>
+          <Text as="p" tone="subdued">
+            Individual popup events (views, clicks, submissions) are kept for a limited time. Daily
+            analytics totals are kept forever, so your dashboards are not affected.
+          </Text>
+        </BlockStack>
+
+        <Select
+          label="Keep individual events for"
+          options={dayOptions}
+          value={retention.retentionDays ? String(retention.retentionDays) : ""}
+          onChange={(value) => update({ retentionDays: value ? parseInt(value, 10) : undefined })}
+          helpText="You can keep events for less time than your plan allows, not longer"
+        />
+
+        <ChoiceList
+          title="When events expire"
+          choices={MODE_CHOICES}
+          selected={[retention.mode]}
+          onChange={([mode]) => update({ mode: mode as EventRetentionMode })}
+        />
+      </BlockStack>
+    </Card>
+  );
+}
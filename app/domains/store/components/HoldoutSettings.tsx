@@ -0,0 +1,70 @@
+import { BlockStack, Card, Checkbox, Text, TextField } from "@shopify/polaris";
+import { useState } from "react";
+import {
+  HoldoutSettingsSchema,
+  MAX_HOLDOUT_PERCENTAGE,
+  type HoldoutSettings as HoldoutSettingsValue,
+  type StoreSettings,
+} from "~/domains/store/types/settings";
+
+interface HoldoutSettingsProps {
+  settings: StoreSettings;
+  onChange: (newSettings: Partial<StoreSettings>) => void;
+}
+
+export function HoldoutSettings({ settings, onChange }: HoldoutSettingsProps) {
+  const [holdout, setHoldout] = useState<HoldoutSettingsValue>(() =>
+    HoldoutSettingsSchema.parse(settings.holdout ?? {})
+  );
+  const [percentage, setPercentage] = useState(String(holdout.percentage));
+
+  const update = (updates: Partial<HoldoutSettingsValue>) => {
+    const next = { ...holdout, ...updates };
+    setHoldout(next);
+    onChange({ holdout: next });
+  };
+
+  const handlePercentageChange = (value: string) => {
+    setPercentage(value);
+    const parsed = parseInt(value, 10);
+    if (!Number.isNaN(parsed) && parsed >= 1 && parsed <= MAX_HOLDOUT_PERCENTAGE) {
+      update({ percentage: parsed });
+    }
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            Incrementality Holdout
+          </Text>
+          <Text as="p" tone="subdued">
+            Hold a share of visitors out of every campaign and compare their orders with visitors
+            your popups were shown to, to measure the revenue your campaigns actually add. Campaigns
+            with their own holdout use that instead.
+          </Text>
+        </BlockStack>
+
+        <Checkbox
+          label="Enable store-wide holdout"
+          checked={holdout.enabled}
+          onChange={(enabled) => update({ enabled })}
+        />
+
+        {holdout.enabled && (
+          <TextField
+            label="Visitors held out (%)"
+            type="number"
+            min={1}
+            max={MAX_HOLDOUT_PERCENTAGE}
+            value={percentage}
+            onChange={handlePercentageChange}
+            autoComplete="off"
+            helpText={`Held-out visitors never see a popup. Between 1% and ${MAX_HOLDOUT_PERCENTAGE}%.`}
+          />
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
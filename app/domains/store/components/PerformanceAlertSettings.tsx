@@ -0,0 +1,155 @@
+import { Banner, BlockStack, Card, Checkbox, Select, Text, TextField } from "@shopify/polaris";
+import { useState } from "react";
+import { z } from "zod";
+import {
+  AlertGranularitySchema,
+  MAX_ALERT_RECIPIENTS,
+  PerformanceAlertSettingsSchema,
+  type PerformanceAlertSettings as AlertSettings,
+  type StoreSettings,
+} from "~/domains/store/types/settings";
+
+interface PerformanceAlertSettingsProps {
+  settings: StoreSettings;
+  /** Whether a mail transport is configured for this deployment */
+  mailConfigured: boolean;
+  onChange: (newSettings: Partial<StoreSettings>) => void;
+}
+
+const GRANULARITY_OPTIONS = [
+  { label: "Daily (last 24 hours vs. the previous 7 days)", value: "daily" },
+  { label: "Hourly (last hour vs. the same hour on the previous 7 days)", value: "hourly" },
+];
+
+const WebhookUrlSchema = PerformanceAlertSettingsSchema.shape.webhookUrl.unwrap();
+const EmailSchema = z.string().email();
+
+function parseEmails(value: string): { emails: string[]; error?: string } {
+  const emails = Array.from(
+    new Set(
+      value
+        .split(/[\s,;]+/)
+        .map((entry) => entry.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+
+  const invalid = emails.find((email) => !EmailSchema.safeParse(email).success);
+  if (invalid) {
+    return { emails, error: `"${invalid}" is not a valid email address` };
+  }
+  if (emails.length > MAX_ALERT_RECIPIENTS) {
+    return { emails, error: `Add at most ${MAX_ALERT_RECIPIENTS} recipients` };
+  }
+  return { emails };
+}
+
+export function PerformanceAlertSettings({
+  settings,
+  mailConfigured,
+  onChange,
+}: PerformanceAlertSettingsProps) {
+  const [alerts, setAlerts] = useState<AlertSettings>(() =>
+    PerformanceAlertSettingsSchema.parse(settings.alerts ?? {})
+  );
+  const [webhookInput, setWebhookInput] = useState(alerts.webhookUrl ?? "");
+  const [webhookError, setWebhookError] = useState<string | undefined>();
+  const [emailsInput, setEmailsInput] = useState(alerts.emails.join(", "));
+  const [emailsError, setEmailsError] = useState<string | undefined>();
+
+  const update = (updates: Partial<AlertSettings>) => {
+    const next = { ...alerts, ...updates };
+    setAlerts(next);
+    onChange({ alerts: next });
+  };
+
+  const handleWebhookBlur = () => {
+    const value = webhookInput.trim();
+    if (!value) {
+      setWebhookError(undefined);
+      if (alerts.webhookUrl) update({ webhookUrl: undefined });
+      return;
+    }
+
+    const parsed = WebhookUrlSchema.safeParse(value);
+    if (!parsed.success) {
+      setWebhookError(parsed.error.issues[0]?.message ?? "Invalid URL");
+      return;
+    }
+
+    setWebhookError(undefined);
+    if (parsed.data !== alerts.webhookUrl) update({ webhookUrl: parsed.data });
+  };
+
+  const handleEmailsBlur = () => {
+    const { emails, error } = parseEmails(emailsInput);
+    setEmailsError(error);
+    if (error) return;
+
+    setEmailsInput(emails.join(", "));
+    if (emails.join(",") !== alerts.emails.join(",")) {
+      update({ emails });
+    }
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            Performance Alerts
+          </Text>
+          <Text as="p" tone="subdued">
+            Get warned when an active campaign&apos;s impressions drop sharply, its submit rate
+            collapses, or discount codes and signups start failing, compared with its own recent
+            performance. Alerts appear on the dashboard and can also be sent to a webhook or by
+            email.
+          </Text>
+        </BlockStack>
+
+        <Checkbox
+          label="Monitor campaign performance"
+          checked={alerts.enabled}
+          onChange={(enabled) => update({ enabled })}
+        />
+
+        <Select
+          label="Check"
+          options={GRANULARITY_OPTIONS}
+          value={alerts.granularity}
+          onChange={(value) => update({ granularity: AlertGranularitySchema.parse(value) })}
+          disabled={!alerts.enabled}
+        />
+
+        <TextField
+          label="Webhook URL"
+          value={webhookInput}
+          onChange={setWebhookInput}
+          onBlur={handleWebhookBlur}
+          placeholder="https://hooks.slack.com/services/..."
+          autoComplete="off"
+          error={webhookError}
+          helpText="New alerts are POSTed as JSON. Leave empty to skip."
+          disabled={!alerts.enabled}
+        />
+
+        <TextField
+          label="Email recipients"
+          value={emailsInput}
+          onChange={setEmailsInput}
+          onBlur={handleEmailsBlur}
+          autoComplete="off"
+          error={emailsError}
+          helpText={`Separate addresses with commas. Up to ${MAX_ALERT_RECIPIENTS} recipients.`}
+          disabled={!alerts.enabled}
+        />
+
+        {!mailConfigured && alerts.emails.length > 0 && (
+          <Banner tone="warning">
+            <p>Email delivery is not configured for this app, so alert emails will not be sent.</p>
+          </Banner>
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
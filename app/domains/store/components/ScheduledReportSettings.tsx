@@ -0,0 +1,143 @@
+import {
+  Banner,
+  BlockStack,
+  Button,
+  Card,
+  Checkbox,
+  Select,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import { useState } from "react";
+import { z } from "zod";
+import {
+  MAX_REPORT_RECIPIENTS,
+  ReportCadenceSchema,
+  ScheduledReportSettingsSchema,
+  type ScheduledReportSettings as ReportSettings,
+  type StoreSettings,
+} from "~/domains/store/types/settings";
+
+interface ScheduledReportSettingsProps {
+  settings: StoreSettings;
+  /** Whether a mail transport is configured for this deployment */
+  mailConfigured: boolean;
+  sendingTest: boolean;
+  onChange: (newSettings: Partial<StoreSettings>) => void;
+  onSendTest: () => void;
+}
+
+const CADENCE_OPTIONS = [
+  { label: "Weekly (every Monday, for the previous week)", value: "weekly" },
+  { label: "Monthly (on the 1st, for the previous month)", value: "monthly" },
+];
+
+const EmailSchema = z.string().email();
+
+function parseRecipients(value: string): { recipients: string[]; error?: string } {
+  const recipients = Array.from(
+    new Set(
+      value
+        .split(/[\s,;]+/)
+        .map((entry) => entry.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+
+  const invalid = recipients.find((email) => !EmailSchema.safeParse(email).success);
+  if (invalid) {
+    return { recipients, error: `"${invalid}" is not a valid email address` };
+  }
+  if (recipients.length > MAX_REPORT_RECIPIENTS) {
+    return { recipients, error: `Add at most ${MAX_REPORT_RECIPIENTS} recipients` };
+  }
+  return { recipients };
+}
+
+export function ScheduledReportSettings({
+  settings,
+  mailConfigured,
+  sendingTest,
+  onChange,
+  onSendTest,
+}: ScheduledReportSettingsProps) {
+  const [reports, setReports] = useState<ReportSettings>(() =>
+    ScheduledReportSettingsSchema.parse(settings.reports ?? {})
+  );
+  const [recipientsInput, setRecipientsInput] = useState(reports.recipients.join(", "));
+  const [recipientsError, setRecipientsError] = useState<string | undefined>();
+
+  const update = (updates: Partial<ReportSettings>) => {
+    const next = { ...reports, ...updates };
+    setReports(next);
+    onChange({ reports: next });
+  };
+
+  const handleRecipientsBlur = () => {
+    const { recipients, error } = parseRecipients(recipientsInput);
+    setRecipientsError(error);
+    if (error) return;
+
+    setRecipientsInput(recipients.join(", "));
+    if (recipients.join(",") !== reports.recipients.join(",")) {
+      update({ recipients });
+    }
+  };
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            Scheduled Reports
+          </Text>
+          <Text as="p" tone="subdued">
+            Email a digest of impressions, leads, conversions, revenue and your top campaigns, with
+            the figures attached as a CSV file. Periods follow your store&apos;s timezone.
+          </Text>
+        </BlockStack>
+
+        {!mailConfigured && (
+          <Banner tone="warning">
+            <p>Email delivery is not configured for this app, so reports will not be sent.</p>
+          </Banner>
+        )}
+
+        <Checkbox
+          label="Email analytics reports"
+          checked={reports.enabled}
+          onChange={(enabled) => update({ enabled })}
+        />
+
+        <Select
+          label="Frequency"
+          options={CADENCE_OPTIONS}
+          value={reports.cadence}
+          onChange={(value) => update({ cadence: ReportCadenceSchema.parse(value) })}
+          disabled={!reports.enabled}
+        />
+
+        <TextField
+          label="Recipients"
+          value={recipientsInput}
+          onChange={setRecipientsInput}
+          onBlur={handleRecipientsBlur}
+          multiline={2}
+          autoComplete="off"
+          error={recipientsError}
+          helpText={`Separate addresses with commas. Up to ${MAX_REPORT_RECIPIENTS} recipients.`}
+        />
+
+        <div>
+          <Button
+            onClick={onSendTest}
+            loading={sendingTest}
+            disabled={!mailConfigured || reports.recipients.length === 0}
+          >
+            Send last report now
+          </Button>
+        </div>
+      </BlockStack>
+    </Card>
+  );
+}
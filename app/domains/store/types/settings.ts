@@ -49,6 +49,150 @@ export type GlobalFrequencyCappingSettings = z.infer<typeof GlobalFrequencyCappi
  */
 export type FrequencyCapGroup = "popup" | "social_proof" | "banner";
 
+/**
+ * Campaign Arbitration
+ *
+ * Decides which campaigns may show when several match the same page:
+ * - maxConcurrentOverlays: modal popups open at once (banners and notifications don't count)
+ * - exclusiveGroups: at most one campaign of each group is shown per page
+ * - tiebreak: how the winner is picked among conflicting campaigns
+ */
+export const ArbitrationTiebreakSchema = z.enum(["priority", "conversion_rate", "random"]);
+
+export type ArbitrationTiebreak = z.infer<typeof ArbitrationTiebreakSchema>;
+
+export const ExclusiveCampaignGroupSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(100),
+  campaignIds: z.array(z.string()).default([]),
+});
+
+export type ExclusiveCampaignGroup = z.infer<typeof ExclusiveCampaignGroupSchema>;
+
+export const CampaignArbitrationSettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  maxConcurrentOverlays: z.number().int().min(1).max(5).default(1),
+  exclusiveGroups: z.array(ExclusiveCampaignGroupSchema).default([]),
+  tiebreak: ArbitrationTiebreakSchema.default("priority"),
+});
+
+export type CampaignArbitrationSettings = z.infer<typeof CampaignArbitrationSettingsSchema>;
+
+/**
+ * Event Retention Settings
+ *
+ * How long raw popup events are kept before they are archived or deleted.
+ * Daily rollups are kept forever, so dashboards are unaffected.
+ * - retentionDays: shorter than the plan's retention only (privacy); unset uses the plan's
+ * - mode: "archive" writes events to compressed NDJSON before deleting them
+ */
+export const MIN_EVENT_RETENTION_DAYS = 45;
+
+export const EventRetentionModeSchema = z.enum(["archive", "delete"]);
+
+export type EventRetentionMode = z.infer<typeof EventRetentionModeSchema>;
+
+export const EventRetentionSettingsSchema = z.object({
+  retentionDays: z.number().int().min(MIN_EVENT_RETENTION_DAYS).max(3650).optional(),
+  mode: EventRetentionModeSchema.default("archive"),
+});
+
+export type EventRetentionSettings = z.infer<typeof EventRetentionSettingsSchema>;
+
+/**
+ * Attribution Settings
+ *
+ * How order revenue is credited to the campaigns a shopper interacted with.
+ * - model: decides the campaign recorded as the order's conversion (and therefore
+ *   the rollups); credits for every model are stored, so reports can switch
+ * - clickWindowDays: clicks, submissions and issued coupons count this long before the order.
+ *   Touchpoints are read from raw events, so the window is capped at the shortest raw event
+ *   retention (MIN_EVENT_RETENTION_DAYS); longer stored windows are read as the cap
+ * - viewWindowDays: plain impressions count this long (0 = impressions never earn credit)
+ */
+export const MAX_CLICK_WINDOW_DAYS = MIN_EVENT_RETENTION_DAYS;
+
+export const AttributionModelSchema = z.enum([
+  "last_touch",
+  "first_touch",
+  "linear",
+  "position_based",
+]);
+
+export type AttributionModel = z.infer<typeof AttributionModelSchema>;
+
+export const AttributionSettingsSchema = z.object({
+  model: AttributionModelSchema.default("last_touch"),
+  clickWindowDays: z
+    .number()
+    .int()
+    .min(1)
+    .max(90)
+    .transform((days) => Math.min(days, MAX_CLICK_WINDOW_DAYS))
+    .default(7),
+  viewWindowDays: z.number().int().min(0).max(30).default(0),
+});
+
+export type AttributionSettings = z.infer<typeof AttributionSettingsSchema>;
+
+/**
+ * Holdout Settings
+ *
+ * Store-wide incrementality holdout: a fixed share of visitors never sees any
+ * campaign, so their orders show what would have happened anyway.
+ * Campaigns can use their own percentage instead (targetRules.holdout).
+ */
+export const MAX_HOLDOUT_PERCENTAGE = 50;
+
+export const HoldoutSettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  percentage: z.number().int().min(1).max(MAX_HOLDOUT_PERCENTAGE).default(10),
+});
+
+export type HoldoutSettings = z.infer<typeof HoldoutSettingsSchema>;
+
+/**
+ * Scheduled Report Settings
+ *
+ * Analytics digest (with a CSV attachment) emailed after every completed week
+ * (Monday to Sunday) or calendar month in the store's timezone.
+ */
+export const MAX_REPORT_RECIPIENTS = 10;
+
+export const ReportCadenceSchema = z.enum(["weekly", "monthly"]);
+
+export type ReportCadence = z.infer<typeof ReportCadenceSchema>;
+
+export const ScheduledReportSettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  cadence: ReportCadenceSchema.default("weekly"),
+  recipients: z.array(z.string().email()).max(MAX_REPORT_RECIPIENTS).default([]),
+});
+
+export type ScheduledReportSettings = z.infer<typeof ScheduledReportSettingsSchema>;
+
+/**
+ * Performance Alert Settings
+ *
+ * Active campaigns are compared with their own recent baseline (the same hour
+ * or the same 24 hours on each of the previous 7 days). Alerts always show on
+ * the dashboard and can also go to a webhook and / or email recipients.
+ */
+export const MAX_ALERT_RECIPIENTS = 10;
+
+export const AlertGranularitySchema = z.enum(["hourly", "daily"]);
+
+export type AlertGranularity = z.infer<typeof AlertGranularitySchema>;
+
+export const PerformanceAlertSettingsSchema = z.object({
+  enabled: z.boolean().default(true),
+  granularity: AlertGranularitySchema.default("daily"),
+  webhookUrl: z.string().url().startsWith("https://", "Webhook URL must use HTTPS").optional(),
+  emails: z.array(z.string().email()).max(MAX_ALERT_RECIPIENTS).default([]),
+});
+
+export type PerformanceAlertSettings = z.infer<typeof PerformanceAlertSettingsSchema>;
+
 /**
  * Store Settings Schema
  * Container for all store-wide configuration
@@ -58,6 +202,12 @@ export const StoreSettingsSchema = z.object({
   socialProofFrequencyCapping: GlobalFrequencyCappingSettingsSchema.optional(), // Specific for Social Proof
   bannerFrequencyCapping: GlobalFrequencyCappingSettingsSchema.optional(),
   globalCustomCSS: CustomCssSchema.optional(),
+  arbitration: CampaignArbitrationSettingsSchema.optional(),
+  eventRetention: EventRetentionSettingsSchema.optional(),
+  attribution: AttributionSettingsSchema.optional(),
+  holdout: HoldoutSettingsSchema.optional(),
+  reports: ScheduledReportSettingsSchema.optional(),
+  alerts: PerformanceAlertSettingsSchema.optional(),
 
   /** Custom theme presets created by the merchant */
   customThemePresets: ThemePresetsArraySchema.optional(),
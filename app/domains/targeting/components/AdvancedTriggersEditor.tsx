@@ -25,6 +25,10 @@ import {
   ScrollDepthTrigger,
   IdleTimerTrigger,
   DeviceTargetingTrigger,
+  VisitorStatusTrigger,
+  TrafficSourceTrigger,
+  PurchaseHistoryTrigger,
+  CartContentsTrigger,
   AddToCartTrigger,
   CartDrawerOpenTrigger,
   ProductViewTrigger,
@@ -60,6 +64,10 @@ export function AdvancedTriggersEditor({ config, onChange }: AdvancedTriggersEdi
       <ScrollDepthTrigger config={config} onChange={onChange} />
       <IdleTimerTrigger config={config} onChange={onChange} />
       <DeviceTargetingTrigger config={config} onChange={onChange} />
+      <VisitorStatusTrigger config={config} onChange={onChange} />
+      <TrafficSourceTrigger config={config} onChange={onChange} />
+      <PurchaseHistoryTrigger config={config} onChange={onChange} />
+      <CartContentsTrigger config={config} onChange={onChange} />
       <AddToCartTrigger config={config} onChange={onChange} />
       <CartDrawerOpenTrigger config={config} onChange={onChange} />
       <ProductViewTrigger config={config} onChange={onChange} />
@@ -4,8 +4,8 @@
  * Shopify-first audience model:
  * - Shopify customer segments define customer-level "who" for known customers.
  *
- * Note: Cart-based targeting is now handled by the cart_value trigger in
- * Enhanced Triggers (client-side) via polling /cart.js.
+ * Note: Cart-based targeting is handled by the cart_contents rule and the
+ * cart_value trigger in Enhanced Triggers.
  */
 
 import { useCallback, useEffect, useMemo, useState } from "react";
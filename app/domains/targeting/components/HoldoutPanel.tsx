@@ -0,0 +1,59 @@
+/**
+ * HoldoutPanel - Configure a per-campaign incrementality holdout
+ *
+ * Held-out visitors never see the campaign; their orders are compared with
+ * visitors who did on the campaign analytics page. Replaces the store-wide
+ * holdout (Settings) for this campaign.
+ */
+
+import { useState } from "react";
+import { BlockStack, Checkbox, Text, TextField } from "@shopify/polaris";
+import type { HoldoutConfig } from "~/domains/campaigns/types/campaign";
+
+const MAX_PERCENTAGE = 50;
+const DEFAULT_HOLDOUT: HoldoutConfig = { enabled: false, percentage: 10 };
+
+export interface HoldoutPanelProps {
+  config?: HoldoutConfig;
+  onConfigChange: (config: HoldoutConfig) => void;
+}
+
+export function HoldoutPanel({ config = DEFAULT_HOLDOUT, onConfigChange }: HoldoutPanelProps) {
+  const [percentage, setPercentage] = useState(String(config.percentage));
+
+  const handlePercentageChange = (value: string) => {
+    setPercentage(value);
+    const parsed = parseInt(value, 10);
+    if (!Number.isNaN(parsed) && parsed >= 1 && parsed <= MAX_PERCENTAGE) {
+      onConfigChange({ ...config, percentage: parsed });
+    }
+  };
+
+  return (
+    <BlockStack gap="300">
+      <Checkbox
+        label="Hold out a share of visitors from this campaign"
+        checked={config.enabled}
+        onChange={(enabled) => onConfigChange({ ...config, enabled })}
+      />
+      {config.enabled && (
+        <>
+          <TextField
+            label="Visitors held out (%)"
+            type="number"
+            min={1}
+            max={MAX_PERCENTAGE}
+            value={percentage}
+            onChange={handlePercentageChange}
+            autoComplete="off"
+            helpText={`Between 1% and ${MAX_PERCENTAGE}%. The same visitors stay held out for the life of the campaign.`}
+          />
+          <Text as="p" variant="bodySm" tone="subdued">
+            Incremental conversion rate and revenue appear on the campaign analytics page once both
+            groups have enough visitors.
+          </Text>
+        </>
+      )}
+    </BlockStack>
+  );
+}
@@ -9,6 +9,7 @@ import {
   InlineStack,
   Badge,
   Banner,
+  ChoiceList,
 } from "@shopify/polaris";
 import type { EnhancedTriggerConfig } from "~/domains/targeting/types/enhanced-triggers.types";
 
@@ -60,6 +61,7 @@ const DEFAULT_ENHANCED_TRIGGERS: EnhancedTriggerConfig = {
     browsers: [],
     connection_type: [],
   },
+  visitor_status: { enabled: false, status: "any" },
   add_to_cart: { enabled: false, delay: 500, immediate: false },
   cart_drawer_open: {
     enabled: false,
@@ -77,6 +79,12 @@ const DEFAULT_ENHANCED_TRIGGERS: EnhancedTriggerConfig = {
   },
 };
 
+const VISITOR_STATUS_OPTIONS = [
+  { label: "All visitors", value: "any" },
+  { label: "First-time visitors only", value: "first_time" },
+  { label: "Returning visitors only", value: "returning" },
+];
+
 const QUICK_TEMPLATES = [
   {
     id: "page-load",
@@ -246,7 +254,11 @@ export const QuickTriggerSetup: React.FC<QuickTriggerSetupProps> = ({
     const template = QUICK_TEMPLATES.find((t) => t.id === templateId);
     if (template) {
       setSelectedTemplate(templateId);
-      onChange(template.config as EnhancedTriggerConfig);
+      // Keep the audience choice when switching trigger patterns
+      onChange({
+        ...(template.config as EnhancedTriggerConfig),
+        visitor_status: config.visitor_status ?? DEFAULT_ENHANCED_TRIGGERS.visitor_status,
+      });
     }
   };
 
@@ -260,6 +272,19 @@ export const QuickTriggerSetup: React.FC<QuickTriggerSetupProps> = ({
     });
   };
 
+  const updateVisitorStatus = (updates: Record<string, unknown>) => {
+    const visitorStatus = { ...config.visitor_status, ...updates };
+    const isTargeted =
+      (visitorStatus.status ?? "any") !== "any" ||
+      visitorStatus.min_visits !== undefined ||
+      visitorStatus.max_visits !== undefined;
+
+    onChange({
+      ...config,
+      visitor_status: { ...visitorStatus, enabled: isTargeted },
+    });
+  };
+
   const updatePageLoadDelay = (delay: number | undefined) => {
     onChange({
       ...config,
@@ -364,6 +389,58 @@ export const QuickTriggerSetup: React.FC<QuickTriggerSetupProps> = ({
         </Card>
       )}
 
+      {/* Visitor Status */}
+      {selectedTemplate && (
+        <Card>
+          <Box padding="600">
+            <BlockStack gap="400">
+              <Text as="span" variant="bodyMd" fontWeight="semibold">
+                Who Should See It
+              </Text>
+
+              <ChoiceList
+                title="Visitor type"
+                titleHidden
+                choices={VISITOR_STATUS_OPTIONS}
+                selected={[
+                  config.visitor_status?.enabled ? config.visitor_status.status || "any" : "any",
+                ]}
+                onChange={(selected) => updateVisitorStatus({ status: selected[0] })}
+                disabled={disabled}
+              />
+
+              <InlineStack gap="400" wrap={false}>
+                <TextField
+                  autoComplete="off"
+                  label="Minimum visits"
+                  type="number"
+                  value={config.visitor_status?.min_visits?.toString() ?? ""}
+                  onChange={(value) =>
+                    updateVisitorStatus({ min_visits: value === "" ? undefined : parseInt(value) })
+                  }
+                  disabled={disabled}
+                  helpText="Optional, e.g. 3 for loyal visitors"
+                  min={1}
+                />
+
+                <TextField
+                  autoComplete="off"
+                  label="Maximum visits"
+                  type="number"
+                  value={config.visitor_status?.max_visits?.toString() ?? ""}
+                  onChange={(value) =>
+                    updateVisitorStatus({ max_visits: value === "" ? undefined : parseInt(value) })
+                  }
+                  disabled={disabled}
+                  helpText="Optional, leave empty for no limit"
+                  min={1}
+                />
+              </InlineStack>
+            </BlockStack>
+          </Box>
+        </Card>
+      )}
+
       {/* Frequency Settings */}
       {selectedTemplate && (
         <Card>
@@ -434,6 +511,15 @@ export const QuickTriggerSetup: React.FC<QuickTriggerSetupProps> = ({
                 {config.scroll_depth?.enabled && <Badge tone="success">Scroll Depth</Badge>}
                 {config.idle_timer?.enabled && <Badge tone="success">Time Delay</Badge>}
                 {config.device_targeting?.enabled && <Badge tone="success">Device Targeting</Badge>}
+                {config.visitor_status?.enabled && (
+                  <Badge tone="success">
+                    {config.visitor_status.status === "first_time"
+                      ? "First-time Visitors"
+                      : config.visitor_status.status === "returning"
+                        ? "Returning Visitors"
+                        : "Visit Count"}
+                  </Badge>
+                )}
               </InlineStack>
             </BlockStack>
           </Box>
@@ -0,0 +1,370 @@
+/**
+ * TargetingSimulator - "Why didn't my popup show?"
+ *
+ * Lets merchants describe a visitor (page, device, country, customer, segments,
+ * visits, traffic source, frequency-cap state) and shows, per campaign, which
+ * targeting step passed or rejected it and why.
+ */
+
+import { useCallback, useState } from "react";
+import {
+  Badge,
+  Banner,
+  BlockStack,
+  Box,
+  Button,
+  Card,
+  Collapsible,
+  FormLayout,
+  InlineStack,
+  Select,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+
+interface StepResult {
+  step: string;
+  passed: boolean;
+  reason?: string;
+}
+
+interface CampaignTrace {
+  campaignId: string;
+  campaignName: string;
+  shown: boolean;
+  rejectedBy?: string;
+  reason?: string;
+  steps: StepResult[];
+}
+
+interface SimulationResult {
+  traces: CampaignTrace[];
+  shownCampaignIds: string[];
+}
+
+const DEVICE_OPTIONS = [
+  { label: "Desktop", value: "desktop" },
+  { label: "Tablet", value: "tablet" },
+  { label: "Mobile", value: "mobile" },
+];
+
+const STEP_LABELS: Record<string, string> = {
+  SCHEDULE: "Status & schedule",
+  DEVICE_TYPE: "Device",
+  GEO_TARGETING: "Country",
+  VISITOR_STATUS: "Visitor status",
+  TRAFFIC_SOURCE: "Traffic source",
+  PAGE_TARGETING: "Page",
+  AUDIENCE_SEGMENTS: "Customer segments",
+  PURCHASE_HISTORY: "Purchase history",
+  CART_CONTENTS: "Cart contents",
+  VARIANT_ASSIGNMENT: "A/B test variant",
+  FREQUENCY_CAPPING: "Frequency capping",
+  ARBITRATION: "Campaign conflicts",
+  HOLDOUT: "Holdout group",
+};
+
+/** Parse an optional non-negative integer field */
+function toCount(value: string): number | undefined {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 0 ? undefined : parsed;
+}
+
+function splitList(value: string): string[] | undefined {
+  const items = value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+interface TargetingSimulatorProps {
+  /** Signed token for the storefront trace (?rb_debug=...) */
+  debugToken: string;
+}
+
+export function TargetingSimulator({ debugToken }: TargetingSimulatorProps) {
+  const [pageUrl, setPageUrl] = useState("/");
+  const [deviceType, setDeviceType] = useState("desktop");
+  const [country, setCountry] = useState("");
+  const [customerId, setCustomerId] = useState("");
+  const [segmentIds, setSegmentIds] = useState("");
+  const [visitCount, setVisitCount] = useState("1");
+  const [utmSource, setUtmSource] = useState("");
+  const [utmMedium, setUtmMedium] = useState("");
+  const [referrerDomain, setReferrerDomain] = useState("");
+  const [sessionViews, setSessionViews] = useState("0");
+  const [dayViews, setDayViews] = useState("0");
+  const [cooldownRemaining, setCooldownRemaining] = useState("0");
+
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const runSimulation = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const visits = toCount(visitCount);
+    const sessionCount = toCount(sessionViews) ?? 0;
+
+    try {
+      const response = await fetch("/api/targeting/simulate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          context: {
+            pageUrl: pageUrl || undefined,
+            deviceType,
+            country: country.trim().toUpperCase() || undefined,
+            customerId: customerId.trim() || undefined,
+            visitCount: visits && visits > 0 ? visits : undefined,
+            isReturningVisitor: visits !== undefined ? visits > 1 : undefined,
+            utmSource: utmSource.trim() || undefined,
+            utmMedium: utmMedium.trim() || undefined,
+            referrerDomain: referrerDomain.trim().toLowerCase() || undefined,
+          },
+          frequencyCapState: {
+            counts: {
+              session: sessionCount,
+              hour: sessionCount,
+              day: Math.max(toCount(dayViews) ?? 0, sessionCount),
+            },
+            globalCounts: { session: sessionCount, day: toCount(dayViews) ?? 0 },
+            cooldownRemaining: toCount(cooldownRemaining),
+          },
+          customerSegmentIds: splitList(segmentIds),
+        }),
+      });
+
+      const json = await response.json();
+
+      if (!response.ok || json.success === false) {
+        throw new Error(json.error || "Failed to run simulation");
+      }
+
+      setResult(json.data as SimulationResult);
+    } catch (err) {
+      console.error("Failed to run targeting simulation:", err);
+      setResult(null);
+      setError(err instanceof Error ? err.message : "Failed to run simulation");
+    } finally {
+      setLoading(false);
+    }
+  }, [
+    pageUrl,
+    deviceType,
+    country,
+    customerId,
+    segmentIds,
+    visitCount,
+    utmSource,
+    utmMedium,
+    referrerDomain,
+    sessionViews,
+    dayViews,
+    cooldownRemaining,
+  ]);
+
+  return (
+    <BlockStack gap="400">
+      <Card>
+        <BlockStack gap="400">
+          <BlockStack gap="200">
+            <Text as="h2" variant="headingMd">
+              Simulated visitor
+            </Text>
+            <Text as="p" tone="subdued">
+              Describe a visitor and see which campaigns would be sent to your storefront. On your
+              store, add <code>?rb_debug={debugToken}</code> to any URL to print the same trace in
+              the browser console. The token expires after a day; reload this page for a new one.
+            </Text>
+          </BlockStack>
+
+          <FormLayout>
+            <FormLayout.Group>
+              <TextField
+                label="Page URL"
+                value={pageUrl}
+                onChange={setPageUrl}
+                helpText="Path only, e.g. /products/t-shirt"
+                autoComplete="off"
+              />
+              <Select
+                label="Device"
+                options={DEVICE_OPTIONS}
+                value={deviceType}
+                onChange={setDeviceType}
+              />
+              <TextField
+                label="Country code"
+                value={country}
+                onChange={setCountry}
+                placeholder="US"
+                autoComplete="off"
+              />
+            </FormLayout.Group>
+
+            <FormLayout.Group>
+              <TextField
+                label="Customer ID"
+                value={customerId}
+                onChange={setCustomerId}
+                helpText="Leave empty for a guest"
+                autoComplete="off"
+              />
+              <TextField
+                label="Customer segment IDs"
+                value={segmentIds}
+                onChange={setSegmentIds}
+                helpText="Comma-separated. Leave empty to use synced membership"
+                autoComplete="off"
+              />
+              <TextField
+                label="Visit number"
+                type="number"
+                min={1}
+                value={visitCount}
+                onChange={setVisitCount}
+                autoComplete="off"
+              />
+            </FormLayout.Group>
+
+            <FormLayout.Group>
+              <TextField
+                label="utm_source"
+                value={utmSource}
+                onChange={setUtmSource}
+                autoComplete="off"
+              />
+              <TextField
+                label="utm_medium"
+                value={utmMedium}
+                onChange={setUtmMedium}
+                autoComplete="off"
+              />
+              <TextField
+                label="Referrer domain"
+                value={referrerDomain}
+                onChange={setReferrerDomain}
+                placeholder="instagram.com"
+                autoComplete="off"
+              />
+            </FormLayout.Group>
+
+            <FormLayout.Group>
+              <TextField
+                label="Popups seen this session"
+                type="number"
+                min={0}
+                value={sessionViews}
+                onChange={setSessionViews}
+                autoComplete="off"
+              />
+              <TextField
+                label="Popups seen today"
+                type="number"
+                min={0}
+                value={dayViews}
+                onChange={setDayViews}
+                autoComplete="off"
+              />
+              <TextField
+                label="Cooldown remaining (seconds)"
+                type="number"
+                min={0}
+                value={cooldownRemaining}
+                onChange={setCooldownRemaining}
+                autoComplete="off"
+              />
+            </FormLayout.Group>
+          </FormLayout>
+
+          <InlineStack>
+            <Button variant="primary" onClick={runSimulation} loading={loading}>
+              Run simulation
+            </Button>
+          </InlineStack>
+        </BlockStack>
+      </Card>
+
+      {error && (
+        <Banner tone="critical" title="Simulation failed">
+          <p>{error}</p>
+        </Banner>
+      )}
+
+      {result && (
+        <Card>
+          <BlockStack gap="300">
+            <Text as="h2" variant="headingMd">
+              Result
+            </Text>
+            <Text as="p" tone="subdued">
+              {result.shownCampaignIds.length === 0
+                ? "No campaign would be sent to this visitor."
+                : `${result.shownCampaignIds.length} campaign(s) would be sent to the storefront. They still need their triggers (delay, scroll, exit intent...) to fire.`}
+            </Text>
+
+            {result.traces.map((trace) => (
+              <Box
+                key={trace.campaignId}
+                padding="300"
+                borderWidth="025"
+                borderColor="border"
+                borderRadius="200"
+              >
+                <BlockStack gap="200">
+                  <InlineStack align="space-between" blockAlign="center">
+                    <InlineStack gap="200" blockAlign="center">
+                      <Text as="span" variant="headingSm">
+                        {trace.campaignName}
+                      </Text>
+                      {trace.shown ? (
+                        <Badge tone="success">Shown</Badge>
+                      ) : (
+                        <Badge tone="critical">
+                          {`Blocked: ${STEP_LABELS[trace.rejectedBy ?? ""] ?? trace.rejectedBy}`}
+                        </Badge>
+                      )}
+                    </InlineStack>
+                    <Button
+                      variant="plain"
+                      onClick={() =>
+                        setExpanded(expanded === trace.campaignId ? null : trace.campaignId)
+                      }
+                    >
+                      {expanded === trace.campaignId ? "Hide steps" : "Show steps"}
+                    </Button>
+                  </InlineStack>
+
+                  {trace.reason && (
+                    <Text as="p" variant="bodySm" tone="subdued">
+                      {trace.reason}
+                    </Text>
+                  )}
+
+                  <Collapsible id={`trace-${trace.campaignId}`} open={expanded === trace.campaignId}>
+                    <BlockStack gap="100">
+                      {trace.steps.map((step) => (
+                        <Text
+                          key={step.step}
+                          as="p"
+                          variant="bodySm"
+                          tone={step.passed ? "success" : "critical"}
+                        >
+                          {`${step.passed ? "✓" : "✗"} ${STEP_LABELS[step.step] ?? step.step}${step.reason ? ` - ${step.reason}` : ""}`}
+                        </Text>
+                      ))}
+                    </BlockStack>
+                  </Collapsible>
+                </BlockStack>
+              </Box>
+            ))}
+          </BlockStack>
+        </Card>
+      )}
+    </BlockStack>
+  );
+}
@@ -6,6 +6,7 @@ export { AudienceTargetingPanel } from "./AudienceTargetingPanel";
 export { FrequencyCappingPanel } from "./FrequencyCappingPanel";
 export { AdvancedTriggersEditor } from "./AdvancedTriggersEditor";
 export { QuickTriggerSetup } from "./QuickTriggerSetup";
+export { TargetingSimulator } from "./TargetingSimulator";
 
 // Re-export types
 export type { EnhancedTriggersConfig } from "~/domains/campaigns/types/campaign";
@@ -0,0 +1,163 @@
+/**
+ * CartContentsTrigger - Cart contents targeting configuration
+ *
+ * Single Responsibility: Configure subtotal, item count, product and discount cart rules
+ */
+
+import { useState } from "react";
+import { Text, FormLayout, ChoiceList, TextField, InlineStack } from "@shopify/polaris";
+import type { EnhancedTriggerConfig } from "~/domains/targeting/types/enhanced-triggers.types";
+import { TriggerCard } from "./TriggerCard";
+import {
+  ProductPicker,
+  type ProductPickerSelection,
+} from "~/domains/campaigns/components/form/ProductPicker";
+
+interface CartContentsTriggerProps {
+  config: EnhancedTriggerConfig;
+  onChange: (config: EnhancedTriggerConfig) => void;
+}
+
+const PRODUCT_MATCH_OPTIONS = [
+  { label: "Cart contains at least one of them", value: "any" },
+  { label: "Cart contains none of them", value: "none" },
+];
+
+const DISCOUNT_OPTIONS = [
+  { label: "Any cart", value: "any" },
+  { label: "A discount is already applied", value: "yes" },
+  { label: "No discount applied", value: "no", helpText: "e.g. avoid stacking offers" },
+];
+
+const toNumber = (value: string) => (value ? Number(value) : undefined);
+
+export function CartContentsTrigger({ config, onChange }: CartContentsTriggerProps) {
+  const cart = config.cart_contents;
+  // Raw text so trailing commas survive while typing
+  const [tagsInput, setTagsInput] = useState(cart?.product_tags?.join(", ") || "");
+
+  const updateConfig = (updates: Record<string, unknown>) => {
+    onChange({
+      ...config,
+      cart_contents: {
+        enabled: false,
+        ...(typeof cart === "object" && cart !== null ? cart : {}),
+        ...updates,
+      },
+    });
+  };
+
+  const discountApplied =
+    cart?.discount_applied === undefined ? "any" : cart.discount_applied ? "yes" : "no";
+
+  return (
+    <TriggerCard
+      title="Cart Contents"
+      enabled={cart?.enabled || false}
+      onEnabledChange={(enabled) => updateConfig({ enabled })}
+    >
+      <Text as="p" variant="bodySm" tone="subdued">
+        Target visitors by what is in their cart when the page loads, e.g. cross-sell when a cart
+        holds a specific collection. Leave a field empty to ignore it.
+      </Text>
+
+      <FormLayout>
+        <InlineStack gap="400" wrap={false}>
+          <TextField
+            autoComplete="off"
+            label="Minimum subtotal"
+            type="number"
+            min={0}
+            value={cart?.min_subtotal?.toString() || ""}
+            onChange={(value) => updateConfig({ min_subtotal: toNumber(value) })}
+            helpText="In your store currency"
+          />
+          <TextField
+            autoComplete="off"
+            label="Maximum subtotal"
+            type="number"
+            min={0}
+            value={cart?.max_subtotal?.toString() || ""}
+            onChange={(value) => updateConfig({ max_subtotal: toNumber(value) })}
+          />
+        </InlineStack>
+
+        <InlineStack gap="400" wrap={false}>
+          <TextField
+            autoComplete="off"
+            label="Minimum items"
+            type="number"
+            min={0}
+            value={cart?.min_items?.toString() || ""}
+            onChange={(value) => updateConfig({ min_items: toNumber(value) })}
+          />
+          <TextField
+            autoComplete="off"
+            label="Maximum items"
+            type="number"
+            min={0}
+            value={cart?.max_items?.toString() || ""}
+            onChange={(value) => updateConfig({ max_items: toNumber(value) })}
+            helpText="Use 0 to target empty carts"
+          />
+        </InlineStack>
+
+        <ProductPicker
+          mode="product"
+          selectionType="multiple"
+          selectedIds={cart?.product_ids || []}
+          onSelect={(selections: ProductPickerSelection[]) =>
+            updateConfig({ product_ids: selections.map((s) => s.id) })
+          }
+          buttonLabel="Select products (optional)"
+          showSelected={true}
+        />
+
+        <ProductPicker
+          mode="collection"
+          selectionType="multiple"
+          selectedIds={cart?.collection_ids || []}
+          onSelect={(selections: ProductPickerSelection[]) =>
+            updateConfig({ collection_ids: selections.map((s) => s.id) })
+          }
+          buttonLabel="Select collections (optional)"
+          showSelected={true}
+        />
+
+        <TextField
+          autoComplete="off"
+          label="Product tags"
+          value={tagsInput}
+          onChange={(value) => {
+            setTagsInput(value);
+            updateConfig({
+              product_tags: value
+                .split(",")
+                .map((tag) => tag.trim())
+                .filter(Boolean),
+            });
+          }}
+          helpText="Comma-separated, e.g. gift, bundle"
+        />
+
+        <ChoiceList
+          title="Products, collections and tags"
+          choices={PRODUCT_MATCH_OPTIONS}
+          selected={[cart?.product_match || "any"]}
+          onChange={(selected) => updateConfig({ product_match: selected[0] as "any" | "none" })}
+        />
+
+        <ChoiceList
+          title="Discounts"
+          choices={DISCOUNT_OPTIONS}
+          selected={[discountApplied]}
+          onChange={(selected) =>
+            updateConfig({
+              discount_applied: selected[0] === "any" ? undefined : selected[0] === "yes",
+            })
+          }
+        />
+      </FormLayout>
+    </TriggerCard>
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * PurchaseHistoryTrigger - Purchase history targeting configuration
+ *
+ * Single Responsibility: Configure order count, total spent and recency targeting
+ */
+
+import { Text, FormLayout, ChoiceList, TextField, InlineStack } from "@shopify/polaris";
+import type { EnhancedTriggerConfig } from "~/domains/targeting/types/enhanced-triggers.types";
+import { TriggerCard } from "./TriggerCard";
+
+interface PurchaseHistoryTriggerProps {
+  config: EnhancedTriggerConfig;
+  onChange: (config: EnhancedTriggerConfig) => void;
+}
+
+const HAS_PURCHASED_OPTIONS = [
+  { label: "Any customer", value: "any" },
+  { label: "Has purchased before", value: "yes" },
+  { label: "Has never purchased", value: "no", helpText: "Includes guests" },
+];
+
+const toNumber = (value: string) => (value ? Number(value) : undefined);
+
+export function PurchaseHistoryTrigger({ config, onChange }: PurchaseHistoryTriggerProps) {
+  const history = config.purchase_history;
+
+  const updateConfig = (updates: Record<string, unknown>) => {
+    onChange({
+      ...config,
+      purchase_history: {
+        enabled: false,
+        ...(typeof history === "object" && history !== null ? history : {}),
+        ...updates,
+      },
+    });
+  };
+
+  const hasPurchased =
+    history?.has_purchased === undefined ? "any" : history.has_purchased ? "yes" : "no";
+
+  return (
+    <TriggerCard
+      title="Purchase History"
+      enabled={history?.enabled || false}
+      onEnabledChange={(enabled) => updateConfig({ enabled })}
+    >
+      <Text as="p" variant="bodySm" tone="subdued">
+        Target logged-in customers by their order history, e.g. win back customers who have not
+        ordered in 60 days or reward VIPs. Leave a field empty to ignore it.
+      </Text>
+
+      <FormLayout>
+        <ChoiceList
+          title="Purchase status"
+          choices={HAS_PURCHASED_OPTIONS}
+          selected={[hasPurchased]}
+          onChange={(selected) =>
+            updateConfig({
+              has_purchased: selected[0] === "any" ? undefined : selected[0] === "yes",
+            })
+          }
+        />
+
+        <InlineStack gap="400" wrap={false}>
+          <TextField
+            autoComplete="off"
+            label="Minimum orders"
+            type="number"
+            min={0}
+            value={history?.min_orders?.toString() || ""}
+            onChange={(value) => updateConfig({ min_orders: toNumber(value) })}
+          />
+          <TextField
+            autoComplete="off"
+            label="Maximum orders"
+            type="number"
+            min={0}
+            value={history?.max_orders?.toString() || ""}
+            onChange={(value) => updateConfig({ max_orders: toNumber(value) })}
+          />
+        </InlineStack>
+
+        <InlineStack gap="400" wrap={false}>
+          <TextField
+            autoComplete="off"
+            label="Minimum total spent"
+            type="number"
+            min={0}
+            value={history?.min_total_spent?.toString() || ""}
+            onChange={(value) => updateConfig({ min_total_spent: toNumber(value) })}
+            helpText="In your store currency"
+          />
+          <TextField
+            autoComplete="off"
+            label="Maximum total spent"
+            type="number"
+            min={0}
+            value={history?.max_total_spent?.toString() || ""}
+            onChange={(value) => updateConfig({ max_total_spent: toNumber(value) })}
+          />
+        </InlineStack>
+
+        <InlineStack gap="400" wrap={false}>
+          <TextField
+            autoComplete="off"
+            label="Last order at least (days ago)"
+            type="number"
+            min={0}
+            value={history?.min_days_since_last_order?.toString() || ""}
+            onChange={(value) => updateConfig({ min_days_since_last_order: toNumber(value) })}
+            helpText="e.g. 60 for win-back campaigns"
+          />
+          <TextField
+            autoComplete="off"
+            label="Last order at most (days ago)"
+            type="number"
+            min={0}
+            value={history?.max_days_since_last_order?.toString() || ""}
+            onChange={(value) => updateConfig({ max_days_since_last_order: toNumber(value) })}
+          />
+        </InlineStack>
+      </FormLayout>
+    </TriggerCard>
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * TrafficSourceTrigger - Traffic source targeting configuration
+ *
+ * Single Responsibility: Configure UTM, referrer and channel based targeting
+ */
+
+import { Text, FormLayout, ChoiceList, TextField } from "@shopify/polaris";
+import type { EnhancedTriggerConfig } from "~/domains/targeting/types/enhanced-triggers.types";
+import { TriggerCard } from "./TriggerCard";
+
+interface TrafficSourceTriggerProps {
+  config: EnhancedTriggerConfig;
+  onChange: (config: EnhancedTriggerConfig) => void;
+}
+
+const SOURCE_TYPE_OPTIONS = [
+  { label: "Direct", value: "direct", helpText: "Typed URL, bookmarks, no referrer" },
+  { label: "Organic search", value: "organic", helpText: "Google, Bing, DuckDuckGo…" },
+  { label: "Paid", value: "paid", helpText: "utm_medium such as cpc, paid_social, display" },
+  { label: "Social", value: "social", helpText: "Facebook, Instagram, TikTok… (unpaid)" },
+  { label: "Email", value: "email", helpText: "Newsletters and email flows" },
+  { label: "Referral", value: "referral", helpText: "Links from other websites" },
+];
+
+const toList = (value: string) =>
+  value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+export function TrafficSourceTrigger({ config, onChange }: TrafficSourceTriggerProps) {
+  const updateConfig = (updates: Record<string, unknown>) => {
+    onChange({
+      ...config,
+      traffic_source: {
+        enabled: false,
+        ...(typeof config.traffic_source === "object" && config.traffic_source !== null
+          ? config.traffic_source
+          : {}),
+        ...updates,
+      },
+    });
+  };
+
+  return (
+    <TriggerCard
+      title="Traffic Source"
+      enabled={config.traffic_source?.enabled || false}
+      onEnabledChange={(enabled) => updateConfig({ enabled })}
+    >
+      <Text as="p" variant="bodySm" tone="subdued">
+        Target visitors by where they came from at the start of their session. All filled-in fields
+        must match; leave a field empty to ignore it.
+      </Text>
+
+      <FormLayout>
+        <ChoiceList
+          title="Channels"
+          allowMultiple
+          choices={SOURCE_TYPE_OPTIONS}
+          selected={config.traffic_source?.source_types || []}
+          onChange={(selected) => updateConfig({ source_types: selected })}
+        />
+
+        <TextField
+          autoComplete="off"
+          label="utm_source (comma-separated)"
+          value={config.traffic_source?.utm_sources?.join(", ") || ""}
+          onChange={(value) => updateConfig({ utm_sources: toList(value) })}
+          placeholder="facebook, instagram"
+          helpText="Use * as a wildcard"
+        />
+
+        <TextField
+          autoComplete="off"
+          label="utm_medium (comma-separated)"
+          value={config.traffic_source?.utm_mediums?.join(", ") || ""}
+          onChange={(value) => updateConfig({ utm_mediums: toList(value) })}
+          placeholder="paid_social, cpc"
+        />
+
+        <TextField
+          autoComplete="off"
+          label="utm_campaign (comma-separated)"
+          value={config.traffic_source?.utm_campaigns?.join(", ") || ""}
+          onChange={(value) => updateConfig({ utm_campaigns: toList(value) })}
+          placeholder="summer_sale_*"
+        />
+
+        <TextField
+          autoComplete="off"
+          label="Referrer domains (comma-separated)"
+          value={config.traffic_source?.referrer_domains?.join(", ") || ""}
+          onChange={(value) => updateConfig({ referrer_domains: toList(value) })}
+          placeholder="facebook.com, pinterest.com"
+          helpText="Subdomains match too (l.facebook.com matches facebook.com)"
+        />
+      </FormLayout>
+    </TriggerCard>
+  );
+}
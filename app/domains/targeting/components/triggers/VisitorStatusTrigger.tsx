@@ -0,0 +1,79 @@
+/**
+ * VisitorStatusTrigger - Visitor status targeting configuration
+ *
+ * Single Responsibility: Configure first-time / returning visitor and visit-count targeting
+ */
+
+import { Text, FormLayout, ChoiceList, TextField, InlineStack } from "@shopify/polaris";
+import type { EnhancedTriggerConfig } from "~/domains/targeting/types/enhanced-triggers.types";
+import { TriggerCard } from "./TriggerCard";
+
+interface VisitorStatusTriggerProps {
+  config: EnhancedTriggerConfig;
+  onChange: (config: EnhancedTriggerConfig) => void;
+}
+
+const VISITOR_STATUS_OPTIONS = [
+  { label: "Any visitor", value: "any" },
+  { label: "First-time visitors", value: "first_time" },
+  { label: "Returning visitors", value: "returning" },
+];
+
+export function VisitorStatusTrigger({ config, onChange }: VisitorStatusTriggerProps) {
+  const updateConfig = (updates: Record<string, unknown>) => {
+    onChange({
+      ...config,
+      visitor_status: {
+        enabled: false,
+        ...(typeof config.visitor_status === "object" && config.visitor_status !== null
+          ? config.visitor_status
+          : {}),
+        ...updates,
+      },
+    });
+  };
+
+  return (
+    <TriggerCard
+      title="Visitor Status"
+      enabled={config.visitor_status?.enabled || false}
+      onEnabledChange={(enabled) => updateConfig({ enabled })}
+    >
+      <Text as="p" variant="bodySm" tone="subdued">
+        Show this campaign only to new or returning visitors. Great for first-purchase offers and
+        &quot;welcome back&quot; messages.
+      </Text>
+
+      <FormLayout>
+        <ChoiceList
+          title="Visitor type"
+          choices={VISITOR_STATUS_OPTIONS}
+          selected={[config.visitor_status?.status || "any"]}
+          onChange={(selected) => updateConfig({ status: selected[0] })}
+        />
+
+        <InlineStack gap="400" wrap={false}>
+          <TextField
+            autoComplete="off"
+            label="Minimum visits (optional)"
+            type="number"
+            min={1}
+            value={config.visitor_status?.min_visits?.toString() || ""}
+            onChange={(value) => updateConfig({ min_visits: value ? parseInt(value) : undefined })}
+            helpText="e.g. 3 to target loyal visitors"
+          />
+
+          <TextField
+            autoComplete="off"
+            label="Maximum visits (optional)"
+            type="number"
+            min={1}
+            value={config.visitor_status?.max_visits?.toString() || ""}
+            onChange={(value) => updateConfig({ max_visits: value ? parseInt(value) : undefined })}
+            helpText="Leave empty for no limit"
+          />
+        </InlineStack>
+      </FormLayout>
+    </TriggerCard>
+  );
+}
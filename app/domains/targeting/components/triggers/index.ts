@@ -11,6 +11,10 @@ export { ExitIntentTrigger } from "./ExitIntentTrigger";
 export { ScrollDepthTrigger } from "./ScrollDepthTrigger";
 export { IdleTimerTrigger } from "./IdleTimerTrigger";
 export { DeviceTargetingTrigger } from "./DeviceTargetingTrigger";
+export { VisitorStatusTrigger } from "./VisitorStatusTrigger";
+export { TrafficSourceTrigger } from "./TrafficSourceTrigger";
+export { PurchaseHistoryTrigger } from "./PurchaseHistoryTrigger";
+export { CartContentsTrigger } from "./CartContentsTrigger";
 export { AddToCartTrigger } from "./AddToCartTrigger";
 export { CartDrawerOpenTrigger } from "./CartDrawerOpenTrigger";
 export { ProductViewTrigger } from "./ProductViewTrigger";
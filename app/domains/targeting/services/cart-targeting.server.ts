@@ -0,0 +1,135 @@
+/**
+ * Cart Targeting Service
+ *
+ * Resolves product tags and collections for the products in a visitor's cart,
+ * which /cart.js does not include:
+ * - Shopify Admin API via the store's offline token
+ * - Cached per product in Redis
+ */
+
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import { redis, REDIS_PREFIXES, REDIS_TTL } from "~/lib/redis.server";
+import { createAdminApiContext } from "~/lib/auth-helpers.server";
+import { fetchProductAttributes } from "~/lib/shopify/product-tags.server";
+import {
+  toNumericId,
+  type ProductAttributes,
+  type ProductAttributesLookup,
+} from "../utils/cart-contents";
+
+const CACHE_TTL = REDIS_TTL.HOUR;
+
+// ============================================================================
+// CART TARGETING SERVICE
+// ============================================================================
+
+export class CartTargetingService {
+  /**
+   * Tags and collections for the given products, or null when they could not be read
+   *
+   * @param productIds - Numeric IDs or Product GIDs
+   */
+  static async getProductAttributes(
+    storeId: string,
+    productIds: string[]
+  ): Promise<ProductAttributesLookup | null> {
+    const ids = [...new Set(productIds.map(toNumericId))];
+    const lookup: ProductAttributesLookup = await this.readCache(storeId, ids);
+
+    const missing = ids.filter((id) => !lookup.has(id));
+    if (missing.length === 0) return lookup;
+
+    const fetched = await this.fetchFromShopify(storeId, missing);
+    if (!fetched) return null;
+
+    for (const [id, attributes] of fetched) {
+      lookup.set(id, attributes);
+    }
+    await this.writeCache(storeId, fetched);
+
+    return lookup;
+  }
+
+  // ==========================================================================
+  // SOURCES
+  // ==========================================================================
+
+  private static async fetchFromShopify(
+    storeId: string,
+    productIds: string[]
+  ): Promise<ProductAttributesLookup | null> {
+    try {
+      const store = await prisma.store.findUnique({
+        where: { id: storeId },
+        select: { shopifyDomain: true, accessToken: true },
+      });
+      if (!store?.accessToken) return null;
+
+      const admin = createAdminApiContext(store.shopifyDomain, store.accessToken);
+      const products = await fetchProductAttributes(admin, productIds);
+
+      const result: ProductAttributesLookup = new Map();
+      for (const [gid, attributes] of products) {
+        result.set(toNumericId(gid), {
+          tags: attributes.tags,
+          collectionIds: attributes.collectionIds.map(toNumericId),
+        });
+      }
+
+      // Deleted products have no attributes; cache them as empty so we don't refetch
+      for (const id of productIds) {
+        if (!result.has(id)) result.set(id, { tags: [], collectionIds: [] });
+      }
+
+      return result;
+    } catch (error) {
+      logger.warn({ error, storeId }, "[CartTargeting] Failed to fetch product attributes");
+      return null;
+    }
+  }
+
+  // ==========================================================================
+  // CACHE
+  // ==========================================================================
+
+  private static async readCache(
+    storeId: string,
+    productIds: string[]
+  ): Promise<ProductAttributesLookup> {
+    const lookup: ProductAttributesLookup = new Map();
+    if (!redis || productIds.length === 0) return lookup;
+
+    try {
+      const cached = await redis.mget(...productIds.map((id) => this.cacheKey(storeId, id)));
+      cached.forEach((value, index) => {
+        if (value) lookup.set(productIds[index], JSON.parse(value) as ProductAttributes);
+      });
+    } catch (error) {
+      logger.warn({ error, storeId }, "[CartTargeting] Failed to read cache");
+    }
+
+    return lookup;
+  }
+
+  private static async writeCache(
+    storeId: string,
+    products: ProductAttributesLookup
+  ): Promise<void> {
+    if (!redis) return;
+
+    try {
+      const pipeline = redis.pipeline();
+      for (const [id, attributes] of products) {
+        pipeline.setex(this.cacheKey(storeId, id), CACHE_TTL, JSON.stringify(attributes));
+      }
+      await pipeline.exec();
+    } catch (error) {
+      logger.warn({ error, storeId }, "[CartTargeting] Failed to write cache");
+    }
+  }
+
+  private static cacheKey(storeId: string, productId: string): string {
+    return `${REDIS_PREFIXES.PRODUCT_ATTRIBUTES}:${storeId}:${productId}`;
+  }
+}
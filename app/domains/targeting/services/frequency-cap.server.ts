@@ -60,6 +60,17 @@ export interface FrequencyCapResult {
   cooldownUntil?: number;
 }
 
+/**
+ * Simulated frequency-cap counters (targeting simulator)
+ * Replaces the Redis lookups so merchants can ask "what if this visitor already saw it?"
+ */
+export interface FrequencyCapState {
+  counts?: Partial<FrequencyCapResult["currentCounts"]>;
+  globalCounts?: Partial<{ session: number; day: number }>;
+  /** Seconds left on the campaign's cooldown */
+  cooldownRemaining?: number;
+}
+
 /**
  * Frequency Capping Service
  * Tracks campaign views and enforces frequency limits using Redis
@@ -70,12 +81,14 @@ export class FrequencyCapService {
    *
    * @param campaign - Campaign to check
    * @param context - Storefront context with visitor/session info
+   * @param simulatedState - Counters to use instead of Redis (targeting simulator)
    * @returns Promise<FrequencyCapResult> - Whether campaign can be shown
    */
   static async checkFrequencyCapping(
     campaign: CampaignWithConfigs,
     context: StorefrontContext,
-    storeSettings?: StoreSettings
+    storeSettings?: StoreSettings,
+    simulatedState?: FrequencyCapState
   ): Promise<FrequencyCapResult> {
     try {
       const rules = campaign.targetRules?.enhancedTriggers?.frequency_capping as
@@ -95,13 +108,17 @@ export class FrequencyCapService {
 
       // Check cooldown first
       const group = this.getFrequencyGroup(campaign.templateType);
-      const cooldownResult = await this.checkCooldown(identifier, trackingKey, now, group);
+      const cooldownResult = simulatedState
+        ? this.checkSimulatedCooldown(simulatedState, now)
+        : await this.checkCooldown(identifier, trackingKey, now, group);
       if (!cooldownResult.allowed) {
         return cooldownResult;
       }
 
       // Get current counts
-      const currentCounts = await this.getCurrentCounts(identifier, trackingKey);
+      const currentCounts = simulatedState
+        ? { ...this.getEmptyCounts(), ...simulatedState.counts }
+        : await this.getCurrentCounts(identifier, trackingKey);
 
       // Check individual campaign limits
       const campaignResult = this.checkCampaignLimits(currentCounts, rules);
@@ -124,7 +141,8 @@ export class FrequencyCapService {
           trackingKey,
           rules.cross_campaign_limits,
           globalSettings,
-          group
+          group,
+          simulatedState
         );
         if (!globalResult.allowed) {
           return { ...globalResult, currentCounts };
@@ -135,7 +153,7 @@ export class FrequencyCapService {
         allowed: true,
         currentCounts,
         globalCounts: rules.respect_global_limits
-          ? await this.getGlobalCounts(identifier)
+          ? await this.getGlobalCounts(identifier, "popup", simulatedState)
           : undefined,
       };
     } catch (error) {
@@ -238,6 +256,27 @@ export class FrequencyCapService {
     return { allowed: true, currentCounts: this.getEmptyCounts() };
   }
 
+  /**
+   * Check a simulated cooldown
+   */
+  private static checkSimulatedCooldown(
+    state: FrequencyCapState,
+    now: number
+  ): FrequencyCapResult {
+    if (!state.cooldownRemaining || state.cooldownRemaining <= 0) {
+      return { allowed: true, currentCounts: this.getEmptyCounts() };
+    }
+
+    const cooldownUntil = now + state.cooldownRemaining * 1000;
+    return {
+      allowed: false,
+      reason: "In cooldown period",
+      nextAllowedTime: cooldownUntil,
+      cooldownUntil,
+      currentCounts: this.getEmptyCounts(),
+    };
+  }
+
   /**
    * Set cooldown period
    */
@@ -296,11 +335,16 @@ export class FrequencyCapService {
    */
   private static async getGlobalCounts(
     identifier: string,
-    group: FrequencyCapGroup = "popup"
+    group: FrequencyCapGroup = "popup",
+    simulatedState?: FrequencyCapState
   ): Promise<{
     session: number;
     day: number;
   }> {
+    if (simulatedState) {
+      return { session: 0, day: 0, ...simulatedState.globalCounts };
+    }
+
     const now = Date.now();
     const baseKey = `${REDIS_PREFIXES.GLOBAL_FREQUENCY}:${identifier}:${group}`;
 
@@ -375,11 +419,12 @@ export class FrequencyCapService {
     trackingKey: string,
     crossCampaignLimits?: FrequencyCappingRule["cross_campaign_limits"],
     globalSettings?: GlobalFrequencyCappingSettings,
-    group: FrequencyCapGroup = "popup"
+    group: FrequencyCapGroup = "popup",
+    simulatedState?: FrequencyCapState
   ): Promise<Pick<FrequencyCapResult, "allowed" | "reason" | "globalCounts">> {
     // If global settings are provided and enabled, they take precedence
     if (globalSettings?.enabled) {
-      const globalCounts = await this.getGlobalCounts(identifier, group);
+      const globalCounts = await this.getGlobalCounts(identifier, group, simulatedState);
 
       if (
         globalSettings.max_per_session &&
@@ -408,7 +453,7 @@ export class FrequencyCapService {
       return { allowed: true };
     }
 
-    const globalCounts = await this.getGlobalCounts(identifier);
+    const globalCounts = await this.getGlobalCounts(identifier, "popup", simulatedState);
 
     if (
       crossCampaignLimits.max_per_session &&
@@ -0,0 +1,180 @@
+/**
+ * Purchase History Service
+ *
+ * Resolves lifetime order stats for logged-in customers for purchase-history
+ * targeting:
+ * - Shopify Admin API (numberOfOrders, amountSpent, lastOrder) via the store's offline token
+ * - Enriched with our own CampaignConversion records
+ * - Cached per customer in Redis, invalidated when the customer places an order
+ */
+
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import { redis, REDIS_PREFIXES, REDIS_TTL } from "~/lib/redis.server";
+import { createAdminApiContext } from "~/lib/auth-helpers.server";
+import { extractCustomerId, getCustomerPurchaseHistory } from "~/lib/shopify/customer.server";
+import { mergePurchaseHistory, type PurchaseHistory } from "../utils/purchase-history";
+
+interface CachedPurchaseHistory {
+  orderCount: number;
+  totalSpent: number;
+  lastOrderAt: string | null;
+}
+
+const CACHE_TTL = REDIS_TTL.HOUR;
+
+// ============================================================================
+// PURCHASE HISTORY SERVICE
+// ============================================================================
+
+export class PurchaseHistoryService {
+  /**
+   * Purchase history for a customer, or null when no source could be read
+   *
+   * @param customerId - Numeric ID or Customer GID
+   */
+  static async getPurchaseHistory(
+    storeId: string,
+    customerId: string
+  ): Promise<PurchaseHistory | null> {
+    const id = extractCustomerId(customerId);
+
+    const cached = await this.readCache(storeId, id);
+    if (cached) return cached;
+
+    const [shopify, conversions] = await Promise.all([
+      this.fetchFromShopify(storeId, id),
+      this.fetchFromConversions(storeId, id),
+    ]);
+    const history = mergePurchaseHistory(shopify, conversions);
+
+    if (history) {
+      await this.writeCache(storeId, id, history);
+    }
+
+    return history;
+  }
+
+  /**
+   * Drop the cached history, e.g. after the customer placed an order
+   */
+  static async invalidate(storeId: string, customerId: string): Promise<void> {
+    if (!redis) return;
+
+    try {
+      await redis.del(this.cacheKey(storeId, extractCustomerId(customerId)));
+    } catch (error) {
+      logger.warn({ error, storeId }, "[PurchaseHistory] Failed to invalidate cache");
+    }
+  }
+
+  // ==========================================================================
+  // SOURCES
+  // ==========================================================================
+
+  private static async fetchFromShopify(
+    storeId: string,
+    customerId: string
+  ): Promise<PurchaseHistory | null> {
+    try {
+      const store = await prisma.store.findUnique({
+        where: { id: storeId },
+        select: { shopifyDomain: true, accessToken: true },
+      });
+      if (!store?.accessToken) return null;
+
+      const admin = createAdminApiContext(store.shopifyDomain, store.accessToken);
+      const { history, errors } = await getCustomerPurchaseHistory(admin, customerId);
+
+      if (!history) {
+        logger.debug({ storeId, customerId, errors }, "[PurchaseHistory] No Shopify history");
+        return null;
+      }
+
+      return {
+        orderCount: history.numberOfOrders,
+        totalSpent: history.amountSpent,
+        lastOrderAt: history.lastOrderAt ? new Date(history.lastOrderAt) : null,
+      };
+    } catch (error) {
+      logger.warn({ error, storeId }, "[PurchaseHistory] Failed to fetch Shopify history");
+      return null;
+    }
+  }
+
+  private static async fetchFromConversions(
+    storeId: string,
+    customerId: string
+  ): Promise<PurchaseHistory | null> {
+    try {
+      const result = await prisma.campaignConversion.aggregate({
+        where: { customerId, campaign: { storeId } },
+        _count: { _all: true },
+        _sum: { totalPrice: true },
+        _max: { createdAt: true },
+      });
+
+      // No conversions tells us nothing about orders placed outside our campaigns
+      if (result._count._all === 0) return null;
+
+      return {
+        orderCount: result._count._all,
+        totalSpent: Number(result._sum.totalPrice ?? 0),
+        lastOrderAt: result._max.createdAt ?? null,
+      };
+    } catch (error) {
+      logger.warn({ error, storeId }, "[PurchaseHistory] Failed to read conversions");
+      return null;
+    }
+  }
+
+  // ==========================================================================
+  // CACHE
+  // ==========================================================================
+
+  private static async readCache(
+    storeId: string,
+    customerId: string
+  ): Promise<PurchaseHistory | null> {
+    if (!redis) return null;
+
+    try {
+      const cached = await redis.get(this.cacheKey(storeId, customerId));
+      if (!cached) return null;
+
+      const parsed = JSON.parse(cached) as CachedPurchaseHistory;
+      return {
+        orderCount: parsed.orderCount,
+        totalSpent: parsed.totalSpent,
+        lastOrderAt: parsed.lastOrderAt ? new Date(parsed.lastOrderAt) : null,
+      };
+    } catch (error) {
+      logger.warn({ error, storeId }, "[PurchaseHistory] Failed to read cache");
+      return null;
+    }
+  }
+
+  private static async writeCache(
+    storeId: string,
+    customerId: string,
+    history: PurchaseHistory
+  ): Promise<void> {
+    if (!redis) return;
+
+    const value: CachedPurchaseHistory = {
+      orderCount: history.orderCount,
+      totalSpent: history.totalSpent,
+      lastOrderAt: history.lastOrderAt ? history.lastOrderAt.toISOString() : null,
+    };
+
+    try {
+      await redis.setex(this.cacheKey(storeId, customerId), CACHE_TTL, JSON.stringify(value));
+    } catch (error) {
+      logger.warn({ error, storeId }, "[PurchaseHistory] Failed to write cache");
+    }
+  }
+
+  private static cacheKey(storeId: string, customerId: string): string {
+    return `${REDIS_PREFIXES.PURCHASE_HISTORY}:${storeId}:${customerId}`;
+  }
+}
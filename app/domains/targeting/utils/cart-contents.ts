@@ -0,0 +1,97 @@
+/**
+ * Cart contents matching for cart-contents targeting
+ *
+ * Evaluates a campaign's cart_contents rule against the cart snapshot the
+ * storefront takes from /cart.js before fetching campaigns.
+ */
+
+import type { EnhancedTriggersConfig } from "~/domains/campaigns/types/campaign";
+
+export type CartContentsRule = NonNullable<EnhancedTriggersConfig["cart_contents"]>;
+
+export interface CartSnapshot {
+  subtotal: number;
+  itemCount: number;
+  productIds: string[]; // Numeric product IDs
+  discountApplied?: boolean;
+}
+
+export interface ProductAttributes {
+  tags: string[];
+  collectionIds: string[]; // Numeric collection IDs
+}
+
+/** Product attributes keyed by numeric product ID */
+export type ProductAttributesLookup = Map<string, ProductAttributes>;
+
+/**
+ * Numeric ID from a Shopify GID ("gid://shopify/Product/123" -> "123")
+ */
+export function toNumericId(id: string): string {
+  return id.split("/").pop()?.trim() || id;
+}
+
+/**
+ * True when the rule needs product tags or collections, which are not part of /cart.js
+ */
+export function needsProductAttributes(rule: CartContentsRule): boolean {
+  return Boolean(rule.collection_ids?.length || rule.product_tags?.length);
+}
+
+/**
+ * Check a cart snapshot against a rule. Every configured condition must match.
+ *
+ * When tags/collections are configured but could not be looked up (attributes is null),
+ * only the product IDs are checked and a "none" rule is ignored (fail-open).
+ */
+export function matchesCartContents(
+  rule: CartContentsRule,
+  cart: CartSnapshot,
+  attributes: ProductAttributesLookup | null
+): boolean {
+  if (rule.min_subtotal !== undefined && cart.subtotal < rule.min_subtotal) return false;
+  if (rule.max_subtotal !== undefined && cart.subtotal > rule.max_subtotal) return false;
+  if (rule.min_items !== undefined && cart.itemCount < rule.min_items) return false;
+  if (rule.max_items !== undefined && cart.itemCount > rule.max_items) return false;
+
+  if (rule.discount_applied !== undefined && cart.discountApplied !== undefined) {
+    if (rule.discount_applied !== cart.discountApplied) return false;
+  }
+
+  const productIds = (rule.product_ids ?? []).map(toNumericId);
+  const hasProductConditions = productIds.length > 0 || needsProductAttributes(rule);
+  if (!hasProductConditions) return true;
+
+  const attributesUnknown = needsProductAttributes(rule) && attributes === null;
+  const contains = cartContainsMatch(rule, cart, productIds, attributes);
+
+  if (rule.product_match === "none") {
+    return attributesUnknown ? true : !contains;
+  }
+
+  // Without attributes, a product-ID-only check can still pass; otherwise fail open
+  return contains || (attributesUnknown && productIds.length === 0);
+}
+
+function cartContainsMatch(
+  rule: CartContentsRule,
+  cart: CartSnapshot,
+  productIds: string[],
+  attributes: ProductAttributesLookup | null
+): boolean {
+  const collectionIds = (rule.collection_ids ?? []).map(toNumericId);
+  const tags = (rule.product_tags ?? []).map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+
+  return cart.productIds.some((cartProductId) => {
+    const id = toNumericId(cartProductId);
+    if (productIds.includes(id)) return true;
+
+    const product = attributes?.get(id);
+    if (!product) return false;
+
+    if (product.collectionIds.some((collectionId) => collectionIds.includes(collectionId))) {
+      return true;
+    }
+    return product.tags.some((tag) => tags.includes(tag.trim().toLowerCase()));
+  });
+}
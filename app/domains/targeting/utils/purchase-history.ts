@@ -0,0 +1,90 @@
+/**
+ * Purchase history matching for purchase-history targeting
+ *
+ * Evaluates a campaign's purchase_history rule against a customer's lifetime
+ * order count, total spent and last order date.
+ */
+
+import type { EnhancedTriggersConfig } from "~/domains/campaigns/types/campaign";
+
+export type PurchaseHistoryRule = NonNullable<EnhancedTriggersConfig["purchase_history"]>;
+
+export interface PurchaseHistory {
+  orderCount: number;
+  totalSpent: number;
+  lastOrderAt: Date | null;
+}
+
+/** Guests and customers without orders */
+export const EMPTY_PURCHASE_HISTORY: PurchaseHistory = {
+  orderCount: 0,
+  totalSpent: 0,
+  lastOrderAt: null,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whole days elapsed since a date
+ */
+export function daysSince(date: Date, now: Date = new Date()): number {
+  return Math.floor((now.getTime() - date.getTime()) / DAY_MS);
+}
+
+/**
+ * Combine two sources for the same customer, keeping the most complete figures
+ * (our conversions are a subset of Shopify's orders but may be fresher)
+ */
+export function mergePurchaseHistory(
+  a: PurchaseHistory | null,
+  b: PurchaseHistory | null
+): PurchaseHistory | null {
+  if (!a) return b;
+  if (!b) return a;
+
+  const lastOrderAt =
+    a.lastOrderAt && b.lastOrderAt
+      ? new Date(Math.max(a.lastOrderAt.getTime(), b.lastOrderAt.getTime()))
+      : a.lastOrderAt || b.lastOrderAt;
+
+  return {
+    orderCount: Math.max(a.orderCount, b.orderCount),
+    totalSpent: Math.max(a.totalSpent, b.totalSpent),
+    lastOrderAt,
+  };
+}
+
+/**
+ * Check a purchase history against a rule. Every configured bound must match.
+ * Days-since-last-order bounds never match customers who have not ordered yet.
+ */
+export function matchesPurchaseHistory(
+  rule: PurchaseHistoryRule,
+  history: PurchaseHistory,
+  now: Date = new Date()
+): boolean {
+  const hasPurchased = history.orderCount > 0;
+
+  if (rule.has_purchased !== undefined && rule.has_purchased !== hasPurchased) return false;
+  if (rule.min_orders !== undefined && history.orderCount < rule.min_orders) return false;
+  if (rule.max_orders !== undefined && history.orderCount > rule.max_orders) return false;
+  if (rule.min_total_spent !== undefined && history.totalSpent < rule.min_total_spent) return false;
+  if (rule.max_total_spent !== undefined && history.totalSpent > rule.max_total_spent) return false;
+
+  if (
+    rule.min_days_since_last_order !== undefined ||
+    rule.max_days_since_last_order !== undefined
+  ) {
+    if (!history.lastOrderAt) return false;
+
+    const days = daysSince(history.lastOrderAt, now);
+    if (rule.min_days_since_last_order !== undefined && days < rule.min_days_since_last_order) {
+      return false;
+    }
+    if (rule.max_days_since_last_order !== undefined && days > rule.max_days_since_last_order) {
+      return false;
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,156 @@
+/**
+ * Traffic source classification for traffic-source targeting
+ *
+ * Derives a channel (direct / organic / paid / social / email / referral) from the
+ * first-touch UTM params and referrer domain the storefront sends with each request.
+ */
+
+export type TrafficSourceType = "direct" | "organic" | "paid" | "social" | "email" | "referral";
+
+export interface TrafficSourceInput {
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+  referrerDomain?: string;
+}
+
+const PAID_MEDIUMS = [
+  "cpc",
+  "ppc",
+  "cpm",
+  "cpa",
+  "cpv",
+  "paid",
+  "paidsearch",
+  "paid_search",
+  "paidsocial",
+  "paid_social",
+  "paid-social",
+  "display",
+  "ads",
+  "ad",
+  "banner",
+  "retargeting",
+];
+const EMAIL_MEDIUMS = ["email", "e-mail", "e_mail", "newsletter", "sms"];
+const SOCIAL_MEDIUMS = [
+  "social",
+  "social-network",
+  "social-media",
+  "social_media",
+  "sm",
+  "organic_social",
+  "organic-social",
+];
+const ORGANIC_MEDIUMS = ["organic", "seo"];
+
+const SEARCH_ENGINE_DOMAINS = [
+  "google.",
+  "bing.com",
+  "yahoo.",
+  "duckduckgo.com",
+  "baidu.com",
+  "yandex.",
+  "ecosia.org",
+  "search.brave.com",
+];
+const SOCIAL_DOMAINS = [
+  "facebook.com",
+  "fb.com",
+  "instagram.com",
+  "t.co",
+  "twitter.com",
+  "x.com",
+  "pinterest.",
+  "linkedin.com",
+  "lnkd.in",
+  "tiktok.com",
+  "youtube.com",
+  "reddit.com",
+  "snapchat.com",
+  "threads.net",
+];
+const SOCIAL_SOURCES = [
+  "facebook",
+  "fb",
+  "instagram",
+  "ig",
+  "twitter",
+  "x",
+  "pinterest",
+  "linkedin",
+  "tiktok",
+  "youtube",
+  "reddit",
+  "snapchat",
+  "threads",
+  "meta",
+];
+const EMAIL_DOMAINS = [
+  "mail.google.com",
+  "outlook.live.com",
+  "outlook.office.com",
+  "mail.yahoo.com",
+  "mail.aol.com",
+];
+const EMAIL_SOURCES = ["klaviyo", "mailchimp", "omnisend", "newsletter", "shopify_email"];
+
+/**
+ * True when the domain equals the pattern, is a subdomain of it, or (for patterns
+ * ending in ".") shares its prefix, e.g. "google." matches google.co.uk
+ */
+export function matchesDomain(domain: string, pattern: string): boolean {
+  const d = domain.toLowerCase().replace(/^www\./, "");
+  const p = pattern.toLowerCase().replace(/^www\./, "");
+  if (!d || !p) return false;
+
+  if (p.endsWith(".")) {
+    return d.startsWith(p) || d.includes(`.${p}`);
+  }
+  return d === p || d.endsWith(`.${p}`);
+}
+
+/**
+ * Case-insensitive match with * wildcards ("summer_*" matches "summer_sale")
+ */
+export function matchesValue(value: string | undefined, pattern: string): boolean {
+  if (!value) return false;
+  const escaped = pattern
+    .trim()
+    .toLowerCase()
+    .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*");
+  return new RegExp(`^${escaped}$`).test(value.trim().toLowerCase());
+}
+
+/**
+ * Classify the visitor's traffic source. UTM params win over the referrer,
+ * and a paid medium wins over the platform (Facebook ads are "paid", not "social").
+ */
+export function classifyTrafficSource(input: TrafficSourceInput): TrafficSourceType {
+  const medium = input.utmMedium?.trim().toLowerCase();
+  const source = input.utmSource?.trim().toLowerCase();
+
+  if (medium) {
+    if (PAID_MEDIUMS.includes(medium)) return "paid";
+    if (EMAIL_MEDIUMS.includes(medium)) return "email";
+    if (SOCIAL_MEDIUMS.includes(medium)) return "social";
+    if (ORGANIC_MEDIUMS.includes(medium)) return "organic";
+  }
+
+  if (source) {
+    if (EMAIL_SOURCES.includes(source)) return "email";
+    if (SOCIAL_SOURCES.includes(source)) return "social";
+  }
+
+  const referrer = input.referrerDomain;
+  if (referrer) {
+    if (EMAIL_DOMAINS.some((domain) => matchesDomain(referrer, domain))) return "email";
+    if (SEARCH_ENGINE_DOMAINS.some((domain) => matchesDomain(referrer, domain))) return "organic";
+    if (SOCIAL_DOMAINS.some((domain) => matchesDomain(referrer, domain))) return "social";
+    return "referral";
+  }
+
+  // Tagged links without a recognised medium or referrer still came from somewhere
+  return source ? "referral" : "direct";
+}
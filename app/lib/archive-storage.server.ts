@@ -0,0 +1,269 @@
+/**
+ * Archive Storage Module
+ *
+ * Writes archive files (e.g. compressed NDJSON of pruned popup events) to:
+ * - local: a directory on disk (EVENT_ARCHIVE_LOCAL_DIR)
+ * - s3: any S3-compatible bucket (AWS, R2, MinIO...) via SigV4-signed requests
+ *
+ * Files are deleted by key prefix when a shop is redacted.
+ *
+ * Returns null when no driver is configured, so callers can keep data instead
+ * of deleting it.
+ */
+
+import { createHash, createHmac } from "crypto";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { getEnv } from "./env.server";
+
+export interface ArchiveStorage {
+  driver: "local" | "s3";
+  /** Store a file and return where it was written */
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+  /** Delete every file under a key prefix (e.g. "popup-events/<storeId>/") */
+  deletePrefix(prefix: string): Promise<void>;
+}
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// ============================================================================
+// LOCAL DRIVER
+// ============================================================================
+
+export function createLocalArchiveStorage(baseDir: string): ArchiveStorage {
+  const root = path.resolve(baseDir);
+
+  const resolve = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Archive key escapes the archive directory: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    driver: "local",
+    async put(key, body) {
+      const filePath = resolve(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, body);
+      return filePath;
+    },
+    async deletePrefix(prefix) {
+      // Prefixes name a directory, e.g. popup-events/<storeId>/
+      await rm(resolve(prefix), { recursive: true, force: true });
+    },
+  };
+}
+
+// ============================================================================
+// S3 DRIVER
+// ============================================================================
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+/** Percent-encode the way SigV4 expects (RFC 3986 unreserved characters only) */
+function encodeSigV4(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function encodeKey(key: string): string {
+  return key.split("/").map(encodeSigV4).join("/");
+}
+
+/**
+ * Build a signed path-style request (AWS Signature Version 4). An empty key
+ * addresses the bucket itself (e.g. to list objects).
+ */
+export function signS3Request(
+  config: S3StorageConfig,
+  request: {
+    method: "GET" | "PUT" | "DELETE";
+    key: string;
+    query?: Record<string, string>;
+    body?: Buffer;
+    contentType?: string;
+  },
+  now: Date = new Date()
+): { url: string; headers: Record<string, string> } {
+  const url = new URL(
+    `${config.endpoint.replace(/\/$/, "")}/${encodeURIComponent(config.bucket)}${
+      request.key ? `/${encodeKey(request.key)}` : ""
+    }`
+  );
+  const canonicalQuery = Object.entries(request.query ?? {})
+    .map(([name, value]) => `${encodeSigV4(name)}=${encodeSigV4(value)}`)
+    .sort()
+    .join("&");
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(request.body ?? "");
+
+  const headers: Record<string, string> = {
+    ...(request.contentType ? { "content-type": request.contentType } : {}),
+    host: url.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+  };
+  const signedHeaders = Object.keys(headers).sort().join(";");
+  const canonicalHeaders = Object.keys(headers)
+    .sort()
+    .map((name) => `${name}:${headers[name]}\n`)
+    .join("");
+
+  const canonicalRequest = [
+    request.method,
+    url.pathname,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), "s3"),
+    "aws4_request"
+  );
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  return {
+    url: canonicalQuery ? `${url.toString()}?${canonicalQuery}` : url.toString(),
+    headers: {
+      ...headers,
+      authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    },
+  };
+}
+
+export function signS3PutRequest(
+  config: S3StorageConfig,
+  key: string,
+  body: Buffer,
+  contentType: string,
+  now: Date = new Date()
+): { url: string; headers: Record<string, string> } {
+  return signS3Request(config, { method: "PUT", key, body, contentType }, now);
+}
+
+/** Keys and continuation token of a ListObjectsV2 response */
+export function parseS3ListResponse(xml: string): { keys: string[]; nextToken: string | null } {
+  const decode = (value: string) =>
+    value
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, "&");
+  const keys = Array.from(xml.matchAll(/<Key>([^<]*)<\/Key>/g), (match) => decode(match[1]));
+  const token = xml.match(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/);
+
+  return { keys, nextToken: token ? decode(token[1]) : null };
+}
+
+export function createS3ArchiveStorage(config: S3StorageConfig): ArchiveStorage {
+  return {
+    driver: "s3",
+    async put(key, body, contentType) {
+      const { url, headers } = signS3PutRequest(config, key, body, contentType);
+      // "host" is set by fetch itself
+      const { host: _host, ...requestHeaders } = headers;
+
+      const response = await fetch(url, {
+        method: "PUT",
+        headers: requestHeaders,
+        body: new Uint8Array(body),
+      });
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => "");
+        throw new Error(`S3 upload failed (${response.status}): ${text.slice(0, 200)}`);
+      }
+
+      return `s3://${config.bucket}/${key}`;
+    },
+    async deletePrefix(prefix) {
+      let continuationToken: string | null = null;
+      do {
+        const query: Record<string, string> = { "list-type": "2", prefix };
+        if (continuationToken) query["continuation-token"] = continuationToken;
+        const list = signS3Request(config, { method: "GET", key: "", query });
+        const { host: _host, ...listHeaders } = list.headers;
+
+        const response = await fetch(list.url, { headers: listHeaders });
+        if (!response.ok) {
+          const text = await response.text().catch(() => "");
+          throw new Error(`S3 list failed (${response.status}): ${text.slice(0, 200)}`);
+        }
+        const { keys, nextToken } = parseS3ListResponse(await response.text());
+
+        for (const key of keys) {
+          const request = signS3Request(config, { method: "DELETE", key });
+          const { host: _deleteHost, ...deleteHeaders } = request.headers;
+          const deleted = await fetch(request.url, { method: "DELETE", headers: deleteHeaders });
+          // 404: already gone, e.g. a retried redaction
+          if (!deleted.ok && deleted.status !== 404) {
+            throw new Error(`S3 delete failed (${deleted.status}) for ${key}`);
+          }
+        }
+
+        continuationToken = nextToken;
+      } while (continuationToken);
+    },
+  };
+}
+
+// ============================================================================
+// CONFIGURED STORAGE
+// ============================================================================
+
+/**
+ * Archive storage configured through EVENT_ARCHIVE_* environment variables
+ */
+export function getArchiveStorage(): ArchiveStorage | null {
+  const env = getEnv();
+
+  if (env.EVENT_ARCHIVE_DRIVER === "local") {
+    return createLocalArchiveStorage(env.EVENT_ARCHIVE_LOCAL_DIR || "./archives");
+  }
+
+  if (env.EVENT_ARCHIVE_DRIVER === "s3") {
+    if (
+      !env.EVENT_ARCHIVE_S3_BUCKET ||
+      !env.EVENT_ARCHIVE_S3_ACCESS_KEY_ID ||
+      !env.EVENT_ARCHIVE_S3_SECRET_ACCESS_KEY
+    ) {
+      throw new Error(
+        "EVENT_ARCHIVE_S3_BUCKET, EVENT_ARCHIVE_S3_ACCESS_KEY_ID and EVENT_ARCHIVE_S3_SECRET_ACCESS_KEY are required for the s3 archive driver"
+      );
+    }
+
+    const region = env.EVENT_ARCHIVE_S3_REGION || "us-east-1";
+    return createS3ArchiveStorage({
+      bucket: env.EVENT_ARCHIVE_S3_BUCKET,
+      region,
+      endpoint: env.EVENT_ARCHIVE_S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      accessKeyId: env.EVENT_ARCHIVE_S3_ACCESS_KEY_ID,
+      secretAccessKey: env.EVENT_ARCHIVE_S3_SECRET_ACCESS_KEY,
+    });
+  }
+
+  return null;
+}
@@ -0,0 +1,51 @@
+/**
+ * Credential Cipher
+ *
+ * Encrypts third-party credentials (ESP API keys...) before they are stored,
+ * with AES-256-GCM under a key derived from CREDENTIALS_ENCRYPTION_KEY
+ * (falls back to SESSION_SECRET).
+ *
+ * Encrypted values look like: v1.<iv>.<auth tag>.<ciphertext> (base64url)
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const VERSION = "v1";
+
+function getKey(): Buffer {
+  const secret = process.env.CREDENTIALS_ENCRYPTION_KEY || process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error(
+      "CREDENTIALS_ENCRYPTION_KEY or SESSION_SECRET is required to store credentials"
+    );
+  }
+  return createHash("sha256").update(secret).digest();
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return [VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64url")))
+    .join(".");
+}
+
+/**
+ * Decrypt a value from encryptSecret.
+ * Throws when it was tampered with or encrypted under another key.
+ */
+export function decryptSecret(value: string): string {
+  const [version, iv, tag, ciphertext] = value.split(".");
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Unsupported encrypted value");
+  }
+
+  const decipher = createDecipheriv("aes-256-gcm", getKey(), Buffer.from(iv, "base64url"));
+  decipher.setAuthTag(Buffer.from(tag, "base64url"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64url")),
+    decipher.final(),
+  ]).toString("utf8");
+}
@@ -0,0 +1,44 @@
+/**
+ * Storefront Debug Tokens
+ *
+ * The storefront only gets the targeting filter trace (?rb_debug=<token>)
+ * with a token issued to the store's admin on the targeting debugger page.
+ * Tokens are <expiry (unix seconds)>.<HMAC-SHA256 of storeId.expiry> under a
+ * key derived from SESSION_SECRET, so they can't be used on another store.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+
+export const DEBUG_TOKEN_TTL_HOURS = 24;
+
+function sign(payload: string): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("SESSION_SECRET is required to sign debug tokens");
+  }
+  const key = createHash("sha256").update(`storefront-debug:${secret}`).digest();
+  return createHmac("sha256", key).update(payload).digest("base64url");
+}
+
+export function createDebugToken(storeId: string, now = new Date()): string {
+  const expiresAt = Math.floor(now.getTime() / 1000) + DEBUG_TOKEN_TTL_HOURS * 60 * 60;
+  return `${expiresAt}.${sign(`${storeId}.${expiresAt}`)}`;
+}
+
+/**
+ * Whether a token was issued for the store and has not expired
+ */
+export function verifyDebugToken(token: string, storeId: string, now = new Date()): boolean {
+  const [expiresAt, signature, ...rest] = token.split(".");
+  if (!/^\d+$/.test(expiresAt ?? "") || !signature || rest.length > 0) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(`${storeId}.${expiresAt}`));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return false;
+  }
+
+  return Number(expiresAt) * 1000 >= now.getTime();
+}
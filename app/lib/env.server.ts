@@ -39,6 +39,13 @@ const envSchema = z.object({
     .string()
     .min(32, "INTERNAL_API_SECRET must be at least 32 characters for security"),
 
+  // Encryption key for stored third-party credentials (ESP API keys).
+  // Falls back to SESSION_SECRET; changing it invalidates stored credentials.
+  CREDENTIALS_ENCRYPTION_KEY: z
+    .string()
+    .min(32, "CREDENTIALS_ENCRYPTION_KEY must be at least 32 characters for security")
+    .optional(),
+
   // Optional Configuration
   SHOP_CUSTOM_DOMAIN: z.string().optional(),
 
@@ -60,6 +67,36 @@ const envSchema = z.object({
     .optional()
     .transform((val) => val === "true"),
 
+  // Raw Event Archive Storage (Optional)
+  // Where the retention job writes archived popup events (compressed NDJSON).
+  // Without a driver, stores in "archive" mode keep their raw events.
+  EVENT_ARCHIVE_DRIVER: z.enum(["local", "s3"]).optional(),
+  EVENT_ARCHIVE_LOCAL_DIR: z.string().optional(), // local driver, defaults to ./archives
+  EVENT_ARCHIVE_S3_BUCKET: z.string().optional(),
+  EVENT_ARCHIVE_S3_REGION: z.string().optional(), // defaults to us-east-1 ("auto" for R2)
+  EVENT_ARCHIVE_S3_ENDPOINT: z
+    .string()
+    .url("EVENT_ARCHIVE_S3_ENDPOINT must be a valid URL")
+    .optional(), // S3-compatible endpoint (MinIO, R2...), defaults to AWS
+  EVENT_ARCHIVE_S3_ACCESS_KEY_ID: z.string().optional(),
+  EVENT_ARCHIVE_S3_SECRET_ACCESS_KEY: z.string().optional(),
+
+  // Mail Transport (Optional)
+  // How scheduled analytics reports and double opt-in confirmations are
+  // delivered: "smtp" relays through a mail server, "file" writes .eml files
+  // (local development). Without a driver, neither is sent.
+  MAIL_DRIVER: z.enum(["smtp", "file"]).optional(),
+  MAIL_FROM: z.string().optional(), // e.g. "Revenue Boost <reports@example.com>"
+  MAIL_FILE_DIR: z.string().optional(), // file driver, defaults to ./mail
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().int().positive().optional(), // defaults to 587 (465 when secure)
+  SMTP_SECURE: z
+    .string()
+    .optional()
+    .transform((val) => val === "true"), // implicit TLS (port 465), otherwise STARTTLS (required with SMTP_USER)
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+
   // Feature Flags
   // Set to "true" to enable recommendation analytics tracking
   ENABLE_RECOMMENDATION_ANALYTICS: z
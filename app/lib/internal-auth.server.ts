@@ -0,0 +1,35 @@
+/**
+ * Internal Request Authentication
+ *
+ * Guards internal endpoints (background jobs triggered by Cloud Scheduler,
+ * cron, or CLI scripts) with the shared INTERNAL_API_SECRET.
+ *
+ * Callers send: Authorization: Bearer <INTERNAL_API_SECRET>
+ */
+
+import { timingSafeEqual } from "crypto";
+
+/**
+ * Check whether a request carries the internal API secret
+ */
+export function isInternalRequest(request: Request): boolean {
+  const secret = process.env.INTERNAL_API_SECRET;
+  if (!secret) return false;
+
+  const header = request.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+  if (!token) return false;
+
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(token);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Throw a 401 response unless the request is internal
+ */
+export function requireInternalRequest(request: Request): void {
+  if (!isInternalRequest(request)) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+}
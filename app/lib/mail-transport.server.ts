@@ -0,0 +1,239 @@
+/**
+ * Mail Transport Module
+ *
+ * Sends emails (e.g. scheduled analytics reports, double opt-in confirmations) through:
+ * - smtp: any SMTP relay, through nodemailer (implicit TLS or STARTTLS; credentials
+ *   are only sent over TLS)
+ * - file: writes .eml files to a directory (MAIL_FILE_DIR) for local development
+ *
+ * Returns null when no driver is configured, so callers can skip sending.
+ */
+
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import nodemailer from "nodemailer";
+import { getEnv } from "./env.server";
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: string | Buffer;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  driver: "smtp" | "file";
+  /** Deliver a message and return where it went (message ID or file path) */
+  send(message: MailMessage): Promise<string>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /**
+   * Implicit TLS from the first byte (port 465); otherwise STARTTLS when offered,
+   * and required when there are credentials
+   */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** Socket inactivity timeout in milliseconds */
+  timeoutMs?: number;
+}
+
+const DEFAULT_SMTP_TIMEOUT_MS = 30_000;
+
+// ============================================================================
+// MIME
+// ============================================================================
+
+/** Base64 wrapped at 76 characters per line (RFC 2045) */
+function toBase64Lines(content: string | Buffer): string {
+  const encoded = Buffer.from(content).toString("base64");
+  return encoded.match(/.{1,76}/g)?.join("\r\n") ?? "";
+}
+
+/** RFC 2047 encoded-word for non-ASCII header values */
+function encodeHeader(value: string): string {
+  // eslint-disable-next-line no-control-regex
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+/** Bare address from "Name <address>" */
+export function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+/**
+ * Serialize a message as multipart/mixed MIME with CRLF line endings
+ */
+export function buildMimeMessage(
+  message: MailMessage,
+  options: { messageId: string; date?: Date }
+): string {
+  const mixed = `mixed-${randomUUID()}`;
+  const alternative = `alt-${randomUUID()}`;
+
+  const lines = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${(options.date ?? new Date()).toUTCString()}`,
+    `Message-ID: <${options.messageId}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/mixed; boundary="${mixed}"`,
+    "",
+    `--${mixed}`,
+    `Content-Type: multipart/alternative; boundary="${alternative}"`,
+    "",
+    `--${alternative}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    toBase64Lines(message.text),
+  ];
+
+  if (message.html) {
+    lines.push(
+      `--${alternative}`,
+      "Content-Type: text/html; charset=utf-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      toBase64Lines(message.html)
+    );
+  }
+  lines.push(`--${alternative}--`);
+
+  for (const attachment of message.attachments ?? []) {
+    const filename = attachment.filename.replace(/["\r\n]/g, "");
+    lines.push(
+      `--${mixed}`,
+      `Content-Type: ${attachment.contentType}; name="${filename}"`,
+      `Content-Disposition: attachment; filename="${filename}"`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      toBase64Lines(attachment.content)
+    );
+  }
+  lines.push(`--${mixed}--`, "");
+
+  return lines.join("\r\n");
+}
+
+function createMessageId(from: string): string {
+  const domain = extractAddress(from).split("@")[1] || "localhost";
+  return `${randomUUID()}@${domain}`;
+}
+
+// ============================================================================
+// FILE DRIVER
+// ============================================================================
+
+export function createFileMailTransport(baseDir: string): MailTransport {
+  const root = path.resolve(baseDir);
+
+  return {
+    driver: "file",
+    async send(message) {
+      const messageId = createMessageId(message.from);
+      const filePath = path.join(
+        root,
+        `${new Date().toISOString().replace(/[:.]/g, "-")}-${messageId.split("@")[0]}.eml`
+      );
+      await mkdir(root, { recursive: true });
+      await writeFile(filePath, buildMimeMessage(message, { messageId }));
+      return filePath;
+    },
+  };
+}
+
+// ============================================================================
+// SMTP DRIVER
+// ============================================================================
+
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS;
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    // Credentials only go over TLS: implicit, or a STARTTLS upgrade that must succeed
+    requireTLS: !config.secure && Boolean(config.user),
+    auth: config.user ? { user: config.user, pass: config.password ?? "" } : undefined,
+    name: "revenue-boost",
+    connectionTimeout: timeoutMs,
+    greetingTimeout: timeoutMs,
+    socketTimeout: timeoutMs,
+  });
+
+  return {
+    driver: "smtp",
+    async send(message) {
+      const messageId = createMessageId(message.from);
+      await transporter.sendMail({
+        messageId: `<${messageId}>`,
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        attachments: message.attachments?.map((attachment) => ({
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          content: attachment.content,
+        })),
+      });
+      return messageId;
+    },
+  };
+}
+
+// ============================================================================
+// CONFIGURED TRANSPORT
+// ============================================================================
+
+/**
+ * Mail transport configured through MAIL_* / SMTP_* environment variables
+ */
+export function getMailTransport(): MailTransport | null {
+  const env = getEnv();
+
+  if (env.MAIL_DRIVER === "file") {
+    return createFileMailTransport(env.MAIL_FILE_DIR || "./mail");
+  }
+
+  if (env.MAIL_DRIVER === "smtp") {
+    if (!env.SMTP_HOST) {
+      throw new Error("SMTP_HOST is required for the smtp mail driver");
+    }
+
+    return createSmtpTransport({
+      host: env.SMTP_HOST,
+      port: env.SMTP_PORT ?? (env.SMTP_SECURE ? 465 : 587),
+      secure: env.SMTP_SECURE === true,
+      user: env.SMTP_USER,
+      password: env.SMTP_PASSWORD,
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Sender address for outgoing mail (MAIL_FROM)
+ */
+export function getMailFrom(): string {
+  return getEnv().MAIL_FROM || "Revenue Boost <no-reply@localhost>";
+}
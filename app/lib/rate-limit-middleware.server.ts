@@ -69,7 +69,7 @@ function getStoreId(request: Request): string | null {
 /**
  * Rate limit response with headers
  */
-function rateLimitResponse(limit: number, remaining: number, resetAt: number) {
+export function rateLimitResponse(limit: number, remaining: number, resetAt: number) {
   const resetInSeconds = Math.ceil((resetAt - Date.now()) / 1000);
 
   return json(
@@ -140,6 +140,11 @@ export const REDIS_PREFIXES = {
   STATS: "stats",
   SESSION: "session",
   RECOMMENDATIONS: "recs", // Smart product recommendations cache
+  BANDIT: "bandit", // Experiment bandit weights and sticky variant assignments
+  PURCHASE_HISTORY: "purchase_history", // Customer order stats for purchase-history targeting
+  PRODUCT_ATTRIBUTES: "product_attributes", // Product tags/collections for cart-contents targeting
+  CONVERSION_RATE: "conversion_rate", // Historical campaign conversion rates for arbitration
+  HOLDOUT: "holdout", // Daily dedupe of holdout assignment events (both arms)
 } as const;
 
 /**
@@ -19,12 +19,16 @@ export interface ShopifyCustomer {
   updatedAt: string;
 }
 
+/** CONFIRMED_OPT_IN once the subscriber confirmed by email (double opt-in) */
+export type MarketingOptInLevel = "SINGLE_OPT_IN" | "CONFIRMED_OPT_IN";
+
 export interface CustomerUpsertData {
   email: string;
   firstName?: string;
   lastName?: string;
   phone?: string;
   marketingConsent?: boolean;
+  marketingOptInLevel?: MarketingOptInLevel;
   tags?: string[];
   source?: string;
   campaignId?: string;
@@ -41,6 +45,13 @@ export interface CustomerUpsertResult {
   errors?: string[];
 }
 
+export interface ShopifyCustomerPurchaseHistory {
+  numberOfOrders: number;
+  amountSpent: number;
+  currencyCode?: string;
+  lastOrderAt?: string;
+}
+
 /**
  * GraphQL query to find customer by email
  */
@@ -64,6 +75,20 @@ const CUSTOMER_SEARCH_QUERY = `
   }
 `;
 
+/**
+ * GraphQL query for a customer's lifetime order stats
+ */
+const CUSTOMER_PURCHASE_HISTORY_QUERY = `
+  query customerPurchaseHistory($id: ID!) {
+    customer(id: $id) {
+      id
+      numberOfOrders
+      amountSpent { amount currencyCode }
+      lastOrder { createdAt }
+    }
+  }
+`;
+
 /**
  * GraphQL mutation to create a customer
  */
@@ -159,6 +184,48 @@ export async function findCustomerByEmail(
   }
 }
 
+/**
+ * Get lifetime order count, total spent and last order date for a customer
+ *
+ * @param customerId - Numeric ID or Customer GID
+ */
+export async function getCustomerPurchaseHistory(
+  admin: AdminApiContext,
+  customerId: string
+): Promise<{ history?: ShopifyCustomerPurchaseHistory; errors?: string[] }> {
+  try {
+    const id = customerId.startsWith("gid://")
+      ? customerId
+      : `gid://shopify/Customer/${customerId}`;
+    const response = await admin.graphql(CUSTOMER_PURCHASE_HISTORY_QUERY, {
+      variables: { id },
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- GraphQL response is dynamically typed
+    const data: any = await response.json();
+    const node = data.data?.customer;
+
+    if (!node) {
+      const errors = data.errors?.map((e: { message: string }) => e.message);
+      return { errors: errors ?? ["Customer not found"] };
+    }
+
+    return {
+      history: {
+        numberOfOrders: Number(node.numberOfOrders ?? 0),
+        amountSpent: Number(node.amountSpent?.amount ?? 0),
+        currencyCode: node.amountSpent?.currencyCode || undefined,
+        lastOrderAt: node.lastOrder?.createdAt || undefined,
+      },
+    };
+  } catch (error) {
+    logger.error({ error }, "[Shopify Customer] Error fetching purchase history:");
+    return {
+      errors: [error instanceof Error ? error.message : "Failed to fetch purchase history"],
+    };
+  }
+}
+
 /**
  * Create a new customer
  */
@@ -170,6 +237,7 @@ export async function createCustomer(
     lastName?: string;
     phone?: string;
     acceptsMarketing?: boolean;
+    marketingOptInLevel?: MarketingOptInLevel;
     tags?: string[];
   }
 ): Promise<{ customer?: ShopifyCustomer; errors?: string[] }> {
@@ -182,7 +250,7 @@ export async function createCustomer(
       emailMarketingConsent: data.acceptsMarketing
         ? {
             marketingState: "SUBSCRIBED",
-            marketingOptInLevel: "SINGLE_OPT_IN",
+            marketingOptInLevel: data.marketingOptInLevel ?? "SINGLE_OPT_IN",
           }
         : undefined,
       tags: data.tags || [],
@@ -255,6 +323,7 @@ export async function updateCustomer(
     lastName?: string;
     phone?: string;
     acceptsMarketing?: boolean;
+    marketingOptInLevel?: MarketingOptInLevel;
     tags?: string[];
   }
 ): Promise<{ customer?: ShopifyCustomer; errors?: string[] }> {
@@ -267,7 +336,7 @@ export async function updateCustomer(
       emailMarketingConsent: data.acceptsMarketing
         ? {
             marketingState: "SUBSCRIBED",
-            marketingOptInLevel: "SINGLE_OPT_IN",
+            marketingOptInLevel: data.marketingOptInLevel ?? "SINGLE_OPT_IN",
           }
         : undefined,
       tags: data.tags,
@@ -357,6 +426,7 @@ export async function upsertCustomer(
           lastName: data.lastName || existingCustomer.lastName,
           phone: data.phone || existingCustomer.phone,
           acceptsMarketing: data.marketingConsent ?? existingCustomer.acceptsMarketing,
+          marketingOptInLevel: data.marketingOptInLevel,
           tags,
         });
 
@@ -390,6 +460,7 @@ export async function upsertCustomer(
         lastName: data.lastName,
         phone: data.phone,
         acceptsMarketing: data.marketingConsent || false,
+        marketingOptInLevel: data.marketingOptInLevel,
         tags,
       });
 
@@ -425,6 +496,7 @@ export function sanitizeCustomerData(data: CustomerUpsertData): CustomerUpsertDa
     lastName: data.lastName?.trim() || undefined,
     phone: data.phone?.trim() || undefined,
     marketingConsent: data.marketingConsent || false,
+    marketingOptInLevel: data.marketingOptInLevel,
     tags: data.tags || [],
     source: data.source,
     campaignId: data.campaignId,
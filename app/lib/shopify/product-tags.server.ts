@@ -1,7 +1,8 @@
 /**
  * Shopify Product Tags helpers
  *
- * Uses the Admin GraphQL API to fetch product tags for the current shop.
+ * Uses the Admin GraphQL API to fetch product tags for the current shop,
+ * and the tags/collections of specific products for cart targeting.
  */
 
 import { logger } from "~/lib/logger.server";
@@ -81,3 +82,69 @@ export async function listProductTags(
     endCursor: pageInfo.endCursor ?? null,
   };
 }
+
+interface ProductAttributesQueryResponse {
+  data?: {
+    nodes?: Array<{
+      id?: string;
+      tags?: string[];
+      collections?: { nodes: Array<{ id: string }> };
+    } | null>;
+  };
+  errors?: Array<{ message: string }>;
+}
+
+const PRODUCT_ATTRIBUTES_QUERY = `
+  query ProductTargetingAttributes($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Product {
+        id
+        tags
+        collections(first: 100) {
+          nodes { id }
+        }
+      }
+    }
+  }
+`;
+
+export interface ShopifyProductAttributes {
+  tags: string[];
+  collectionIds: string[];
+}
+
+/**
+ * Fetch tags and collection GIDs for a set of products, keyed by product GID.
+ * Products that no longer exist are omitted.
+ */
+export async function fetchProductAttributes(
+  admin: AdminApiContext,
+  productIds: string[]
+): Promise<Map<string, ShopifyProductAttributes>> {
+  const result = new Map<string, ShopifyProductAttributes>();
+  if (productIds.length === 0) return result;
+
+  const ids = productIds.map((id) =>
+    id.startsWith("gid://") ? id : `gid://shopify/Product/${id}`
+  );
+  const response = await admin.graphql(PRODUCT_ATTRIBUTES_QUERY, {
+    variables: { ids },
+  });
+
+  const json = (await response.json()) as ProductAttributesQueryResponse;
+
+  if (json.errors && json.errors.length > 0) {
+    logger.error({ errors: json.errors }, "[ShopifyProductTags] GraphQL errors");
+    throw new Error(json.errors.map((e) => e.message).join("; "));
+  }
+
+  for (const node of json.data?.nodes ?? []) {
+    if (!node?.id) continue;
+    result.set(node.id, {
+      tags: node.tags ?? [],
+      collectionIds: node.collections?.nodes.map((collection) => collection.id) ?? [],
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,57 @@
+/**
+ * Lead Cohort API
+ *
+ * GET /api/analytics/cohorts?groupBy=campaign|template|week&weeks=26
+ *
+ * Leads captured in the last `weeks` signup weeks, grouped by campaign,
+ * template type or signup week, with their 30 / 60 / 90-day purchase rate,
+ * repeat purchase rate and revenue per lead.
+ */
+
+import { data, type LoaderFunctionArgs } from "react-router";
+import { z } from "zod";
+import { authenticate } from "~/shopify.server";
+import { getStoreId } from "~/lib/auth-helpers.server";
+import { handleApiError } from "~/lib/api-error-handler.server";
+import { validateData } from "~/lib/validation-helpers";
+import { LeadCohortService } from "~/domains/analytics/lead-cohorts.server";
+import {
+  COHORT_GROUPINGS,
+  DEFAULT_COHORT_WEEKS,
+  MAX_COHORT_WEEKS,
+  groupCohorts,
+} from "~/domains/analytics/lead-cohorts";
+
+const CohortQuerySchema = z.object({
+  groupBy: z.enum(COHORT_GROUPINGS).default("campaign"),
+  weeks: z.coerce.number().int().min(1).max(MAX_COHORT_WEEKS).default(DEFAULT_COHORT_WEEKS),
+});
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    await authenticate.admin(request);
+    const storeId = await getStoreId(request);
+    const url = new URL(request.url);
+
+    const query = validateData(
+      CohortQuerySchema,
+      Object.fromEntries(
+        Array.from(url.searchParams.entries()).filter(([, value]) => value !== "")
+      ),
+      "Lead cohorts"
+    );
+
+    const rows = await LeadCohortService.getCohorts(storeId, { weeks: query.weeks });
+
+    return data({
+      success: true,
+      data: {
+        groupBy: query.groupBy,
+        weeks: query.weeks,
+        cohorts: groupCohorts(rows, query.groupBy),
+      },
+    });
+  } catch (error) {
+    return handleApiError(error, "GET /api/analytics/cohorts");
+  }
+}
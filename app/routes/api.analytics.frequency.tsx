@@ -35,6 +35,7 @@ export async function action({ request }: ActionFunctionArgs) {
       visitorId: bodyVisitorId, // Use visitorId from client (localStorage-based)
       pageUrl: bodyPageUrl,
       referrer: bodyReferrer,
+      triggerType,
     } = body;
 
     const trackingKey = rawTrackingKey || campaignId;
@@ -124,6 +125,8 @@ export async function action({ request }: ActionFunctionArgs) {
         metadata: {
           trackingKey,
           source: "frequency_endpoint",
+          // Trigger that opened the popup, used by funnel breakdowns
+          ...(typeof triggerType === "string" && { triggerType: triggerType.slice(0, 50) }),
         },
       });
     } catch (eventError) {
@@ -0,0 +1,71 @@
+/**
+ * Funnel Analytics API
+ *
+ * GET /api/analytics/funnel?campaignId=...&breakdown=device&timeRange=30d
+ * GET /api/analytics/funnel?experimentId=...&timeRange=30d
+ *
+ * Impression → interaction → submit → coupon → order funnel for a campaign
+ * (optionally split by device, page type or trigger), or per variant for an
+ * experiment.
+ */
+
+import { data, type LoaderFunctionArgs } from "react-router";
+import { z } from "zod";
+import { authenticate } from "~/shopify.server";
+import { getStoreId } from "~/lib/auth-helpers.server";
+import { FunnelAnalyticsService } from "~/domains/analytics/funnel-analytics.server";
+import { FUNNEL_BREAKDOWNS } from "~/domains/analytics/funnel";
+import { getDateRanges, getTimeRangeFromRequest } from "~/lib/date-range.server";
+import { handleApiError } from "~/lib/api-error-handler.server";
+
+const FunnelQuerySchema = z
+  .object({
+    campaignId: z.string().min(1).optional(),
+    experimentId: z.string().min(1).optional(),
+    breakdown: z.enum(FUNNEL_BREAKDOWNS).default("none"),
+  })
+  .refine((query) => Boolean(query.campaignId) !== Boolean(query.experimentId), {
+    message: "Provide either campaignId or experimentId",
+  });
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    await authenticate.admin(request);
+    const storeId = await getStoreId(request);
+    const url = new URL(request.url);
+
+    const query = FunnelQuerySchema.parse({
+      campaignId: url.searchParams.get("campaignId") || undefined,
+      experimentId: url.searchParams.get("experimentId") || undefined,
+      breakdown: url.searchParams.get("breakdown") || undefined,
+    });
+    const timeRange = getTimeRangeFromRequest(request);
+    const { current } = getDateRanges(timeRange);
+    const range = { from: current.from!, to: current.to! };
+
+    const funnel = query.experimentId
+      ? await FunnelAnalyticsService.getExperimentFunnel(storeId, query.experimentId, range)
+      : await FunnelAnalyticsService.getCampaignFunnel(storeId, query.campaignId!, {
+          ...range,
+          breakdown: query.breakdown,
+        });
+
+    if (!funnel) {
+      return data(
+        {
+          success: false,
+          error: query.experimentId ? "Experiment not found" : "Campaign not found",
+        },
+        { status: 404 }
+      );
+    }
+
+    return data({
+      success: true,
+      data: { funnel },
+      timeRange,
+    });
+  } catch (error) {
+    return handleApiError(error, "GET /api/analytics/funnel");
+  }
+}
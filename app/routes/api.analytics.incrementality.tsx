@@ -0,0 +1,42 @@
+/**
+ * Holdout Incrementality API
+ *
+ * GET /api/analytics/incrementality?timeRange=30d&campaignId=...
+ *
+ * Compares orders of visitors held out of a campaign (or out of every campaign,
+ * without campaignId) with the visitors it was shown to. Returns incremental conversion
+ * rate and incremental revenue with confidence intervals.
+ */
+
+import { data, type LoaderFunctionArgs } from "react-router";
+import { authenticate } from "~/shopify.server";
+import { getStoreId } from "~/lib/auth-helpers.server";
+import { HoldoutService } from "~/domains/analytics/holdout.server";
+import { getDateRanges, getTimeRangeFromRequest } from "~/lib/date-range.server";
+import { handleApiError } from "~/lib/api-error-handler.server";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  try {
+    await authenticate.admin(request);
+    const storeId = await getStoreId(request);
+    const url = new URL(request.url);
+
+    const timeRange = getTimeRangeFromRequest(request);
+    const campaignId = url.searchParams.get("campaignId") || undefined;
+    const { current } = getDateRanges(timeRange);
+
+    const report = await HoldoutService.getIncrementality(storeId, {
+      campaignId,
+      from: current.from!,
+      to: current.to!,
+    });
+
+    return data({
+      success: true,
+      data: { report },
+      timeRange,
+    });
+  } catch (error) {
+    return handleApiError(error, "GET /api/analytics/incrementality");
+  }
+}
@@ -23,6 +23,7 @@ import {
 import { getStoreId } from "~/lib/auth-helpers.server";
 import { authenticate } from "~/shopify.server";
 import { triggerCampaignSegmentSync } from "~/domains/targeting/services/campaign-segment-sync.server";
+import { PlanGuardService } from "~/domains/billing/services/plan-guard.server";
 
 // ============================================================================
 // LOADER (GET /api/campaigns/:campaignId)
@@ -49,6 +50,11 @@ export const action = createMethodRouter({
       const rawData = await request.json();
       const validatedData = validateData(CampaignUpdateDataSchema, rawData, "Campaign Update Data");
 
+      // Dayparting builds on the scheduledCampaigns plan feature
+      if (validatedData.targetRules?.dayparting?.enabled) {
+        await PlanGuardService.assertCanUseScheduledCampaigns(storeId);
+      }
+
       // Sanitize Custom CSS to prevent XSS
       try {
         const designConfig = validatedData.designConfig as { customCSS?: unknown } | undefined;
@@ -15,7 +15,9 @@ import { withPublicRateLimit } from "~/lib/rate-limit-middleware.server";
 import {
   CampaignService,
   CampaignFilterService,
+  FilterTrace,
   buildStorefrontContext,
+  type CampaignTrace,
 } from "~/domains/campaigns/index.server";
 import type { ApiCampaignData } from "~/lib/api-types";
 import { handleApiError } from "~/lib/api-error-handler.server";
@@ -25,7 +27,11 @@ import { getOrCreateVisitorId, createVisitorIdHeaders } from "~/lib/visitor-id.s
 import { getRedis, REDIS_PREFIXES } from "~/lib/redis.server";
 import prisma from "~/db.server";
 import { validateCustomCss } from "~/lib/css-guards";
-import { StoreSettingsSchema, type StoreSettings } from "~/domains/store/types/settings";
+import {
+  CampaignArbitrationSettingsSchema,
+  StoreSettingsSchema,
+  type StoreSettings,
+} from "~/domains/store/types/settings";
 import { PLAN_DEFINITIONS, type PlanTier } from "~/domains/billing/types/plan";
 import { parseContentConfig, parseDesignConfig } from "~/domains/campaigns/utils/json-helpers";
 import type { TemplateType } from "~/domains/campaigns/types/campaign";
@@ -34,6 +40,8 @@ import {
   tokensToCSSString,
   type DesignTokens,
 } from "~/domains/campaigns/types/design-tokens";
+import { getHoldoutPolicy } from "~/domains/campaigns/utils/holdout";
+import { verifyDebugToken } from "~/lib/debug-token.server";
 import { logger } from "~/lib/logger.server";
 
 // ============================================================================
@@ -49,6 +57,21 @@ interface ActiveCampaignsResponse {
   globalCustomCSS?: string;
   /** Whether to show "Powered by Revenue Boost" branding (true for free tier) */
   showBranding?: boolean;
+  /** Store arbitration policy enforced by the storefront (only when enabled) */
+  arbitration?: StorefrontArbitrationPolicy;
+  /** Per-campaign filter trace, only when the storefront sends a valid rb_debug token */
+  debugTrace?: CampaignTrace[];
+  /** A holdout applies to an active campaign: the storefront tags the cart with the visitor ID */
+  tagCartWithVisitor?: boolean;
+}
+
+/**
+ * Subset of the arbitration settings the storefront needs.
+ * Campaigns are already ranked and pruned to one per exclusive group.
+ */
+interface StorefrontArbitrationPolicy {
+  maxConcurrentOverlays: number;
+  exclusiveGroups: string[][];
 }
 
 // ============================================================================
@@ -107,6 +130,22 @@ function mergeTokensIntoDesignConfig(
   };
 }
 
+function extractArbitrationPolicy(settings: unknown): StorefrontArbitrationPolicy | undefined {
+  if (!settings || typeof settings !== "object") return undefined;
+
+  const parsed = CampaignArbitrationSettingsSchema.safeParse(
+    (settings as StoreSettings).arbitration
+  );
+  if (!parsed.success || !parsed.data.enabled) return undefined;
+
+  return {
+    maxConcurrentOverlays: parsed.data.maxConcurrentOverlays,
+    exclusiveGroups: parsed.data.exclusiveGroups
+      .map((group) => group.campaignIds)
+      .filter((ids) => ids.length > 1),
+  };
+}
+
 function extractGlobalCustomCss(settings: unknown): string | undefined {
   if (!settings || typeof settings !== "object") return undefined;
 
@@ -361,7 +400,9 @@ export async function loader(args: LoaderFunctionArgs) {
       }
 
       // Get all active campaigns
-      const allCampaigns = await CampaignService.getActiveCampaigns(storeId);
+      const allCampaigns = await CampaignService.getActiveCampaigns(storeId, {
+        visitorTimezone: context.timezone,
+      });
       logger.debug({ count: allCampaigns.length, storeId }, "[Active Campaigns API] Found active campaigns");
 
       // DIAGNOSTIC: Log ALL campaigns with their frequency capping config
@@ -381,11 +422,17 @@ export async function loader(args: LoaderFunctionArgs) {
         });
       }
 
+      // "Why didn't my popup show?" - storefront loaded with ?rb_debug=<token from the targeting debugger>
+      const debugToken = url.searchParams.get("rb_debug");
+      const trace =
+        debugToken && verifyDebugToken(debugToken, storeId) ? new FilterTrace(allCampaigns) : undefined;
+
       // Filter campaigns based on context (server-side filtering with Redis)
       const filteredCampaigns = await CampaignFilterService.filterCampaigns(
         allCampaigns,
         context,
-        storeId
+        storeId,
+        { trace }
       );
       logger.debug({
         count: filteredCampaigns.length,
@@ -483,6 +530,11 @@ export async function loader(args: LoaderFunctionArgs) {
         timestamp: new Date().toISOString(),
         globalCustomCSS,
         showBranding,
+        arbitration: extractArbitrationPolicy(store?.settings),
+        debugTrace: trace?.getTraces(),
+        tagCartWithVisitor: allCampaigns.some((campaign) =>
+          getHoldoutPolicy(campaign, storeId, store?.settings as StoreSettings | undefined)
+        ),
       };
 
       logger.debug({ count: formattedCampaigns.length }, "[Active Campaigns API] Returning campaigns to storefront");
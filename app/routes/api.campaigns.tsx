@@ -85,8 +85,12 @@ export async function action(args: { request: Request; params: Record<string, st
           "Campaign Create Data"
         );
 
-        // Enforce scheduledCampaigns feature gate if dates are provided
-        if (validatedData.startDate || validatedData.endDate) {
+        // Enforce scheduledCampaigns feature gate if dates or dayparting are provided
+        if (
+          validatedData.startDate ||
+          validatedData.endDate ||
+          validatedData.targetRules?.dayparting?.enabled
+        ) {
           await PlanGuardService.assertCanUseScheduledCampaigns(storeId);
         }
 
@@ -126,8 +130,12 @@ export async function action(args: { request: Request; params: Record<string, st
           "Campaign Update Data"
         );
 
-        // Enforce scheduledCampaigns feature gate if dates are provided
-        if (validatedData.startDate || validatedData.endDate) {
+        // Enforce scheduledCampaigns feature gate if dates or dayparting are provided
+        if (
+          validatedData.startDate ||
+          validatedData.endDate ||
+          validatedData.targetRules?.dayparting?.enabled
+        ) {
           await PlanGuardService.assertCanUseScheduledCampaigns(storeId);
         }
 
@@ -1,7 +1,7 @@
 /**
  * Dashboard Campaigns API
  *
- * GET /api/dashboard/campaigns?timeRange=30d
+ * GET /api/dashboard/campaigns?timeRange=30d&attribution=linear
  *
  * Returns campaigns list with stats and experiments data.
  * Used for lazy loading the dashboard campaigns table.
@@ -12,6 +12,7 @@ import { authenticate } from "~/shopify.server";
 import { getStoreId } from "~/lib/auth-helpers.server";
 import { CampaignService, ExperimentService } from "~/domains/campaigns";
 import { CampaignAnalyticsService } from "~/domains/campaigns/services/campaign-analytics.server";
+import { AttributionModelSchema } from "~/domains/store/types/settings";
 import { handleApiError } from "~/lib/api-error-handler.server";
 import { PlanGuardService } from "~/domains/billing/services/plan-guard.server";
 import {
@@ -43,6 +44,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
 
     const url = new URL(request.url);
     const timeRange = url.searchParams.get("timeRange") || "30d";
+    const attribution = AttributionModelSchema.safeParse(url.searchParams.get("attribution"));
+    const attributionModel = attribution.success ? attribution.data : undefined;
 
     // Fetch all campaigns
     const allCampaigns = await CampaignService.getAllCampaigns(storeId);
@@ -81,7 +84,10 @@ export async function loader({ request }: LoaderFunctionArgs) {
     // Fetch analytics data
     const [statsMap, revenueMap] = await Promise.all([
       CampaignAnalyticsService.getCampaignStats(campaignIds, { from: dateFrom }),
-      CampaignAnalyticsService.getRevenueBreakdownByCampaignIds(campaignIds, { from: dateFrom }),
+      CampaignAnalyticsService.getRevenueBreakdownByCampaignIds(campaignIds, {
+        from: dateFrom,
+        attributionModel,
+      }),
     ]);
 
     // Build campaign rows
@@ -1,10 +1,12 @@
 /**
  * Dashboard Metrics API
  *
- * GET /api/dashboard/metrics?timeRange=30d
+ * GET /api/dashboard/metrics?timeRange=30d&attribution=linear
  *
  * Returns global metrics for the dashboard (revenue, leads, active campaigns, conversion rate).
  * Used for lazy loading the dashboard metrics cards.
+ * `attribution` (optional) splits revenue with that attribution model instead of
+ * the recorded conversions.
  */
 
 import { data, type LoaderFunctionArgs } from "react-router";
@@ -12,6 +14,7 @@ import { authenticate } from "~/shopify.server";
 import { getStoreId } from "~/lib/auth-helpers.server";
 import { CampaignService } from "~/domains/campaigns";
 import { CampaignAnalyticsService } from "~/domains/campaigns/services/campaign-analytics.server";
+import { AttributionModelSchema } from "~/domains/store/types/settings";
 import { handleApiError } from "~/lib/api-error-handler.server";
 
 export async function loader({ request }: LoaderFunctionArgs) {
@@ -21,6 +24,8 @@ export async function loader({ request }: LoaderFunctionArgs) {
 
     const url = new URL(request.url);
     const timeRange = url.searchParams.get("timeRange") || "30d";
+    const attribution = AttributionModelSchema.safeParse(url.searchParams.get("attribution"));
+    const attributionModel = attribution.success ? attribution.data : undefined;
 
     // Fetch all campaigns
     const allCampaigns = await CampaignService.getAllCampaigns(storeId);
@@ -54,7 +59,10 @@ export async function loader({ request }: LoaderFunctionArgs) {
     // Fetch analytics data
     const [statsMap, revenueMap] = await Promise.all([
       CampaignAnalyticsService.getCampaignStats(campaignIds, { from: dateFrom }),
-      CampaignAnalyticsService.getRevenueBreakdownByCampaignIds(campaignIds, { from: dateFrom }),
+      CampaignAnalyticsService.getRevenueBreakdownByCampaignIds(campaignIds, {
+        from: dateFrom,
+        attributionModel,
+      }),
     ]);
 
     // Aggregate metrics
@@ -358,6 +358,15 @@ export async function action({ request }: ActionFunctionArgs) {
     );
 
     if (!result.success || !result.discountCode) {
+      // Feeds the "discount issuance failing" campaign alert
+      await PopupEventService.recordError({
+        storeId: campaign.storeId,
+        campaignId: campaign.id,
+        sessionId,
+        visitorId,
+        kind: "discount_issue",
+        message: result.errors?.[0],
+      });
       return data(
         {
           success: false,
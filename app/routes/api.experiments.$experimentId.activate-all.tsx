@@ -43,6 +43,9 @@ export async function action({ request, params }: ActionFunctionArgs) {
 
     await Promise.all(updatePromises);
 
+    // Start the experiment clock (used by sequential analysis and planned duration)
+    await ExperimentService.startExperiment(experimentId, storeId);
+
     return data({
       success: true,
       message: `Activated ${experiment.variants.length} campaign(s)`,
@@ -7,7 +7,7 @@
 import { data, type ActionFunctionArgs } from "react-router";
 import { authenticate } from "~/shopify.server";
 import { getStoreId } from "~/lib/auth-helpers.server";
-import prisma from "~/db.server";
+import { ExperimentService, ExperimentServiceError } from "~/domains/campaigns";
 import { logger } from "~/lib/logger.server";
 
 interface DeclareWinnerRequest {
@@ -31,56 +31,22 @@ export async function action({ request, params }: ActionFunctionArgs) {
       return data({ success: false, error: "Winning variant key is required" }, { status: 400 });
     }
 
-    // 1. Get all campaigns in this experiment
-    const campaigns = await prisma.campaign.findMany({
-      where: {
-        experimentId,
-        storeId,
-      },
-    });
+    // Winner gets 100% of traffic, losers get paused, experiment is completed
+    await ExperimentService.declareWinner(experimentId, storeId, winningVariantKey);
 
-    if (campaigns.length === 0) {
+    logger.info({ winningVariantKey, experimentId }, "[Declare Winner] Set winner for experiment");
+
+    return data({ success: true });
+  } catch (error) {
+    if (error instanceof ExperimentServiceError && error.code === "NOT_FOUND") {
       return data(
         { success: false, error: "No campaigns found for this experiment" },
         { status: 404 }
       );
     }
-
-    const winningCampaign = campaigns.find((c) => c.variantKey === winningVariantKey);
-
-    if (!winningCampaign) {
+    if (error instanceof ExperimentServiceError && error.code === "VARIANT_NOT_FOUND") {
       return data({ success: false, error: "Winning variant not found" }, { status: 404 });
     }
-
-    const losingCampaigns = campaigns.filter((c) => c.variantKey !== winningVariantKey);
-
-    // 2. Update traffic allocation: winner gets 100%, losers get paused
-    await Promise.all([
-      // Update experiment to record winner
-      prisma.experiment.update({
-        where: { id: experimentId },
-        data: {
-          trafficAllocation: {
-            [winningVariantKey]: 100,
-            ...Object.fromEntries(losingCampaigns.map((c) => [c.variantKey || "UNKNOWN", 0])),
-          },
-          status: "COMPLETED",
-        },
-      }),
-
-      // Pause losing campaigns
-      ...losingCampaigns.map((campaign) =>
-        prisma.campaign.update({
-          where: { id: campaign.id },
-          data: { status: "PAUSED" },
-        })
-      ),
-    ]);
-
-    logger.info({ winningVariantKey, experimentId }, "[Declare Winner] Set winner for experiment");
-
-    return data({ success: true });
-  } catch (error) {
     logger.error({ error }, "[Declare Winner] Error");
     return data({ success: false, error: "Failed to declare winner" }, { status: 500 });
   }
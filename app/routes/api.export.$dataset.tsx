@@ -0,0 +1,147 @@
+/**
+ * Analytics Export API
+ *
+ * GET /api/export/events|leads|conversions
+ *
+ * Query parameters:
+ * - format: csv (default) | ndjson
+ * - from, to: YYYY-MM-DD (whole UTC days, inclusive) or ISO timestamps;
+ *   or timeRange=7d|30d|90d|all. Everything when omitted.
+ * - campaignId, experimentId: only rows of that campaign / experiment
+ * - ids: comma-separated row IDs, only those rows (e.g. leads selected in the admin)
+ * - columns: comma-separated column keys. Personal columns (email, phone,
+ *   ipAddress, ...) are only included when listed here; IPs are always truncated.
+ * - limit, cursor: page through the rows instead of downloading them all.
+ *   The X-Next-Cursor response header holds the cursor of the next page and
+ *   is absent on the last one.
+ */
+
+import type { LoaderFunctionArgs } from "react-router";
+import { z } from "zod";
+import { authenticate } from "~/shopify.server";
+import { getStoreId } from "~/lib/auth-helpers.server";
+import { getDateRanges } from "~/lib/date-range.server";
+import { handleApiError } from "~/lib/api-error-handler.server";
+import { validateData } from "~/lib/validation-helpers";
+import { DataExportService } from "~/domains/analytics/data-export.server";
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  MAX_EXPORT_IDS,
+  MAX_EXPORT_PAGE_SIZE,
+  formatCsvHeader,
+  formatExportRecords,
+  getExportFilename,
+} from "~/domains/analytics/data-export";
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Date-only values cover the whole UTC day */
+const dateParam = (endOfDay: boolean) =>
+  z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), { message: "Invalid date" })
+    .transform((value) =>
+      DATE_ONLY.test(value) && endOfDay
+        ? new Date(`${value}T23:59:59.999Z`)
+        : new Date(DATE_ONLY.test(value) ? `${value}T00:00:00.000Z` : value)
+    );
+
+const commaList = z.string().transform((value) =>
+  value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+);
+
+const ExportQuerySchema = z
+  .object({
+    dataset: z.enum(EXPORT_DATASETS),
+    format: z.enum(EXPORT_FORMATS).default("csv"),
+    from: dateParam(false).optional(),
+    to: dateParam(true).optional(),
+    timeRange: z.enum(["7d", "30d", "90d", "all"]).optional(),
+    campaignId: z.string().min(1).optional(),
+    experimentId: z.string().min(1).optional(),
+    ids: commaList
+      .refine((ids) => ids.length <= MAX_EXPORT_IDS, {
+        message: `At most ${MAX_EXPORT_IDS} ids per export`,
+      })
+      .optional(),
+    columns: commaList.optional(),
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_EXPORT_PAGE_SIZE).optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be on or before to",
+  });
+
+// ============================================================================
+// LOADER (GET /api/export/:dataset)
+// ============================================================================
+
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  try {
+    await authenticate.admin(request);
+    const storeId = await getStoreId(request);
+    const url = new URL(request.url);
+
+    const query = validateData(
+      ExportQuerySchema,
+      {
+        dataset: params.dataset,
+        ...Object.fromEntries(
+          Array.from(url.searchParams.entries()).filter(([, value]) => value !== "")
+        ),
+      },
+      "Analytics export"
+    );
+
+    let { from, to } = query;
+    if (!from && !to && query.timeRange && query.timeRange !== "all") {
+      const { current } = getDateRanges(query.timeRange);
+      from = current.from;
+      to = current.to;
+    }
+
+    const filters = {
+      from,
+      to,
+      campaignId: query.campaignId,
+      experimentId: query.experimentId,
+      ids: query.ids,
+      columns: query.columns,
+    };
+    const headers = new Headers({
+      "Content-Type": EXPORT_CONTENT_TYPES[query.format],
+      "Cache-Control": "no-store",
+    });
+
+    // Paged API access
+    if (query.cursor || query.limit) {
+      const page = await DataExportService.getPage(storeId, query.dataset, {
+        ...filters,
+        cursor: query.cursor,
+        limit: query.limit,
+      });
+      if (page.nextCursor) headers.set("X-Next-Cursor", page.nextCursor);
+
+      const body =
+        (query.format === "csv" ? formatCsvHeader(page.columns) : "") +
+        formatExportRecords(page.records, page.columns, query.format);
+      return new Response(body, { headers });
+    }
+
+    // Full download
+    headers.set(
+      "Content-Disposition",
+      `attachment; filename="${getExportFilename(query.dataset, query.format)}"`
+    );
+    return new Response(DataExportService.stream(storeId, query.dataset, query.format, filters), {
+      headers,
+    });
+  } catch (error) {
+    return handleApiError(error, "GET /api/export");
+  }
+}
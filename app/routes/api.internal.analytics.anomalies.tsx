@@ -0,0 +1,34 @@
+/**
+ * Campaign Anomaly Monitor Job
+ *
+ * POST /api/internal/analytics/anomalies
+ * Compares every active campaign's latest hour / day with its own baseline,
+ * opens or resolves campaign alerts and notifies each store's alert webhook
+ * and email recipients about new ones. Schedule hourly.
+ *
+ * Called by Cloud Scheduler / cron with: Authorization: Bearer <INTERNAL_API_SECRET>
+ */
+
+import { data, type ActionFunctionArgs } from "react-router";
+import { AnomalyMonitorService } from "~/domains/analytics/anomaly-monitor.server";
+import { requireInternalRequest } from "~/lib/internal-auth.server";
+import { handleApiError } from "~/lib/api-error-handler.server";
+
+// ============================================================================
+// ACTION (POST /api/internal/analytics/anomalies)
+// ============================================================================
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return data({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  requireInternalRequest(request);
+
+  try {
+    const summary = await AnomalyMonitorService.runAll();
+    return data({ success: true, ...summary });
+  } catch (error) {
+    return handleApiError(error, "POST /api/internal/analytics/anomalies");
+  }
+}
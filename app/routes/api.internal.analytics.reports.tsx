@@ -0,0 +1,49 @@
+/**
+ * Scheduled Analytics Reports Job
+ *
+ * POST /api/internal/analytics/reports
+ * - No body: emails every weekly / monthly report that is due (schedule hourly;
+ *   each store's period is only sent once)
+ * - { storeId }: resend a store's last completed period now, without touching
+ *   the schedule
+ *
+ * Called by Cloud Scheduler / cron with: Authorization: Bearer <INTERNAL_API_SECRET>
+ */
+
+import { data, type ActionFunctionArgs } from "react-router";
+import { z } from "zod";
+import { ScheduledReportService } from "~/domains/analytics/scheduled-reports.server";
+import { requireInternalRequest } from "~/lib/internal-auth.server";
+import { handleApiError } from "~/lib/api-error-handler.server";
+import { validateData } from "~/lib/validation-helpers";
+
+const SendReportRequestSchema = z.object({
+  storeId: z.string().min(1),
+});
+
+// ============================================================================
+// ACTION (POST /api/internal/analytics/reports)
+// ============================================================================
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return data({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  requireInternalRequest(request);
+
+  try {
+    const raw = await request.json().catch(() => null);
+
+    if (!raw || Object.keys(raw).length === 0) {
+      const summary = await ScheduledReportService.sendDueReports();
+      return data({ success: true, ...summary });
+    }
+
+    const { storeId } = validateData(SendReportRequestSchema, raw, "Scheduled report send");
+    const result = await ScheduledReportService.sendTestReport(storeId);
+    return data({ success: true, result });
+  } catch (error) {
+    return handleApiError(error, "POST /api/internal/analytics/reports");
+  }
+}
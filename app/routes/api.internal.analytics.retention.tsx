@@ -0,0 +1,34 @@
+/**
+ * Raw Event Retention Job
+ *
+ * POST /api/internal/analytics/retention
+ * Archives (or deletes) raw popup events older than each store's retention
+ * period, once the daily rollups cover them, and prunes old rate limit logs.
+ * Schedule daily, after the analytics rollup job.
+ *
+ * Called by Cloud Scheduler / cron with: Authorization: Bearer <INTERNAL_API_SECRET>
+ */
+
+import { data, type ActionFunctionArgs } from "react-router";
+import { EventRetentionService } from "~/domains/analytics/event-retention.server";
+import { requireInternalRequest } from "~/lib/internal-auth.server";
+import { handleApiError } from "~/lib/api-error-handler.server";
+
+// ============================================================================
+// ACTION (POST /api/internal/analytics/retention)
+// ============================================================================
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return data({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  requireInternalRequest(request);
+
+  try {
+    const summary = await EventRetentionService.runRetention();
+    return data({ success: true, ...summary });
+  } catch (error) {
+    return handleApiError(error, "POST /api/internal/analytics/retention");
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Analytics Rollup Job
+ *
+ * POST /api/internal/analytics/rollup
+ * - No body: incremental run, rebuilds every active store from the day of its
+ *   last run up to today (schedule every few minutes)
+ * - { storeId, from, to }: backfill / recompute a store for a range of local
+ *   days (YYYY-MM-DD, inclusive), e.g. after a timezone change
+ *
+ * Called by Cloud Scheduler / cron with: Authorization: Bearer <INTERNAL_API_SECRET>
+ */
+
+import { data, type ActionFunctionArgs } from "react-router";
+import { z } from "zod";
+import { AnalyticsRollupService } from "~/domains/analytics/analytics-rollup.server";
+import { requireInternalRequest } from "~/lib/internal-auth.server";
+import { handleApiError } from "~/lib/api-error-handler.server";
+import { validateData } from "~/lib/validation-helpers";
+
+const DateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+const RecomputeRequestSchema = z
+  .object({
+    storeId: z.string().min(1),
+    from: DateKeySchema,
+    to: DateKeySchema,
+  })
+  .refine((value) => value.from <= value.to, { message: "from must be on or before to" });
+
+// ============================================================================
+// ACTION (POST /api/internal/analytics/rollup)
+// ============================================================================
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return data({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  requireInternalRequest(request);
+
+  try {
+    const raw = await request.json().catch(() => null);
+
+    if (!raw || Object.keys(raw).length === 0) {
+      const summary = await AnalyticsRollupService.rollupAllStores();
+      return data({ success: true, ...summary });
+    }
+
+    const { storeId, from, to } = validateData(
+      RecomputeRequestSchema,
+      raw,
+      "Analytics rollup recompute"
+    );
+    const result = await AnalyticsRollupService.recomputeStore(storeId, { from, to });
+    return data({ success: true, result });
+  } catch (error) {
+    return handleApiError(error, "POST /api/internal/analytics/rollup");
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Experiment Evaluation Job
+ *
+ * POST /api/internal/experiments/evaluate
+ * Runs sequential analysis on running experiments and auto-stops them when a
+ * boundary is crossed or the planned sample size is reached.
+ *
+ * Called by Cloud Scheduler / cron with: Authorization: Bearer <INTERNAL_API_SECRET>
+ */
+
+import { data, type ActionFunctionArgs } from "react-router";
+import { ExperimentEvaluatorService } from "~/domains/campaigns";
+import { requireInternalRequest } from "~/lib/internal-auth.server";
+import { handleApiError } from "~/lib/api-error-handler.server";
+
+// ============================================================================
+// ACTION (POST /api/internal/experiments/evaluate)
+// ============================================================================
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return data({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  requireInternalRequest(request);
+
+  try {
+    const summary = await ExperimentEvaluatorService.evaluateRunningExperiments();
+    return data({ success: true, ...summary });
+  } catch (error) {
+    return handleApiError(error, "POST /api/internal/experiments/evaluate");
+  }
+}
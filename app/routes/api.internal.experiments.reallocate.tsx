@@ -0,0 +1,33 @@
+/**
+ * Bandit Reallocation Job
+ *
+ * POST /api/internal/experiments/reallocate
+ * Recomputes bandit traffic weights for running experiments in a bandit mode,
+ * caches them in Redis and records an allocation snapshot.
+ *
+ * Called by Cloud Scheduler / cron with: Authorization: Bearer <INTERNAL_API_SECRET>
+ */
+
+import { data, type ActionFunctionArgs } from "react-router";
+import { BanditAllocationService } from "~/domains/campaigns";
+import { requireInternalRequest } from "~/lib/internal-auth.server";
+import { handleApiError } from "~/lib/api-error-handler.server";
+
+// ============================================================================
+// ACTION (POST /api/internal/experiments/reallocate)
+// ============================================================================
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return data({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  requireInternalRequest(request);
+
+  try {
+    const summary = await BanditAllocationService.recomputeRunningExperiments();
+    return data({ success: true, ...summary });
+  } catch (error) {
+    return handleApiError(error, "POST /api/internal/experiments/reallocate");
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * ESP Lead Sync Job
+ *
+ * POST /api/internal/integrations/sync
+ * Delivers queued leads to the stores' email service providers (Klaviyo,
+ * Mailchimp, Omnisend) and retries failed deliveries with backoff.
+ * Schedule every minute.
+ *
+ * Called by Cloud Scheduler / cron with: Authorization: Bearer <INTERNAL_API_SECRET>
+ */
+
+import { data, type ActionFunctionArgs } from "react-router";
+import { EspSyncService } from "~/domains/integrations/services/esp-sync.server";
+import { requireInternalRequest } from "~/lib/internal-auth.server";
+import { handleApiError } from "~/lib/api-error-handler.server";
+
+// ============================================================================
+// ACTION (POST /api/internal/integrations/sync)
+// ============================================================================
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return data({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  requireInternalRequest(request);
+
+  try {
+    const summary = await EspSyncService.processDueJobs();
+    return data({ success: true, ...summary });
+  } catch (error) {
+    return handleApiError(error, "POST /api/internal/integrations/sync");
+  }
+}
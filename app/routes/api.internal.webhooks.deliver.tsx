@@ -0,0 +1,34 @@
+/**
+ * Outbound Webhook Delivery Job
+ *
+ * POST /api/internal/webhooks/deliver
+ * Sends queued Revenue Boost events (lead.created, coupon.issued...) to the
+ * stores' webhook endpoints, retries failed deliveries with backoff and
+ * prunes the delivery log. Schedule every minute.
+ *
+ * Called by Cloud Scheduler / cron with: Authorization: Bearer <INTERNAL_API_SECRET>
+ */
+
+import { data, type ActionFunctionArgs } from "react-router";
+import { OutboundWebhookService } from "~/domains/integrations/services/outbound-webhooks.server";
+import { requireInternalRequest } from "~/lib/internal-auth.server";
+import { handleApiError } from "~/lib/api-error-handler.server";
+
+// ============================================================================
+// ACTION (POST /api/internal/webhooks/deliver)
+// ============================================================================
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return data({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  requireInternalRequest(request);
+
+  try {
+    const summary = await OutboundWebhookService.processDueDeliveries();
+    return data({ success: true, ...summary });
+  } catch (error) {
+    return handleApiError(error, "POST /api/internal/webhooks/deliver");
+  }
+}
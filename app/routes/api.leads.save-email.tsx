@@ -22,6 +22,7 @@ import {
   RATE_LIMITS,
 } from "~/domains/security/services/rate-limit.server";
 import { logger } from "~/lib/logger.server";
+import { EspSyncService } from "~/domains/integrations/services/esp-sync.server";
 
 const SaveEmailSchema = z.object({
   email: z.string().email(),
@@ -238,6 +239,9 @@ export async function action({ request }: ActionFunctionArgs) {
 
     logger.info({ leadId: lead.id }, "[Save Email] Lead updated successfully");
 
+    // Queue delivery to the store's connected email platforms
+    await EspSyncService.enqueueLead(lead.id);
+
     return data(
       {
         success: true,
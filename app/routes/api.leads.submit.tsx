@@ -13,6 +13,13 @@ import { storefrontCors } from "~/lib/cors.server";
 import { formatZodErrors } from "~/lib/validation-helpers";
 import { getStoreIdFromShop, createAdminApiContext } from "~/lib/auth-helpers.server";
 import { PopupEventService } from "~/domains/analytics/popup-events.server";
+import { EspSyncService } from "~/domains/integrations/services/esp-sync.server";
+import {
+  DoubleOptInService,
+  canResendConfirmation,
+  getConfirmationPendingMessage,
+  getDoubleOptInSettings,
+} from "~/domains/leads/services/double-opt-in.server";
 import {
   getCampaignDiscountCode,
   normalizeDiscountConfig,
@@ -69,6 +76,14 @@ export async function action({ request }: ActionFunctionArgs) {
     );
   }
 
+  // Set once the campaign is known, so failures count towards its error rate
+  let errorContext: {
+    storeId: string;
+    campaignId: string;
+    sessionId: string;
+    visitorId?: string;
+  } | null = null;
+
   try {
     // Get shop domain from headers
     const shop = new URL(request.url).searchParams.get("shop");
@@ -101,6 +116,7 @@ export async function action({ request }: ActionFunctionArgs) {
           id: true,
           name: true,
           templateType: true, // For email marketing platform tags
+          contentConfig: true, // Double opt-in settings
           discountConfig: true,
           store: {
             select: {
@@ -118,6 +134,13 @@ export async function action({ request }: ActionFunctionArgs) {
           { status: 404, headers: storefrontCors() }
         );
       }
+
+      errorContext = {
+        storeId,
+        campaignId: campaign.id,
+        sessionId: validatedData.sessionId,
+        visitorId: validatedData.visitorId,
+      };
     }
 
     // SECURITY: Generic storefront request validation
@@ -243,6 +266,9 @@ export async function action({ request }: ActionFunctionArgs) {
       select: {
         id: true,
         discountCode: true,
+        confirmationSentAt: true,
+        confirmationSendCount: true,
+        confirmedAt: true,
         createdAt: true,
       },
     });
@@ -262,6 +288,32 @@ export async function action({ request }: ActionFunctionArgs) {
         );
       }
 
+      // Double opt-in: send the link again while the lead hasn't confirmed.
+      // Throttled or capped resends stay pending on the email already sent.
+      const doubleOptIn = getDoubleOptInSettings(campaign.contentConfig);
+      if (
+        doubleOptIn.enabled &&
+        validatedData.consent === true &&
+        existingLead.confirmationSentAt &&
+        !existingLead.confirmedAt
+      ) {
+        const pending =
+          !canResendConfirmation(existingLead) ||
+          (await DoubleOptInService.sendConfirmation(existingLead.id));
+        if (pending && doubleOptIn.revealDiscountAfterConfirmation) {
+          return data(
+            {
+              success: true,
+              leadId: existingLead.id,
+              discountCode: null,
+              confirmationRequired: true,
+              message: getConfirmationPendingMessage(true),
+            },
+            { status: 200, headers: storefrontCors() }
+          );
+        }
+      }
+
       // Parse discount config to determine behavior
       const discountConfig = normalizeDiscountConfig(campaign.discountConfig);
       const behavior = discountConfig.behavior || "SHOW_CODE_AND_AUTO_APPLY";
@@ -393,8 +445,22 @@ export async function action({ request }: ActionFunctionArgs) {
     if (!discountResult.success) {
       logger.warn({ errors: discountResult.errors }, "[Lead Submission] Failed to create discount code");
       // Continue without discount code - don't fail the entire process
+      if (discountConfig.enabled !== false) {
+        await PopupEventService.recordError({
+          storeId,
+          campaignId: campaign.id,
+          sessionId: validatedData.sessionId,
+          visitorId: validatedData.visitorId,
+          kind: "discount_issue",
+          message: discountResult.errors?.[0],
+        });
+      }
     }
 
+    // GDPR: With double opt-in, consent is only recorded once the lead confirms by email
+    const doubleOptIn = getDoubleOptInSettings(campaign.contentConfig);
+    const consentGiven = validatedData.consent === true && !doubleOptIn.enabled;
+
     // Sanitize customer data with enhanced fields for email marketing integration
     // These fields generate tags that sync to Klaviyo, Mailchimp, etc.
     const customerData: CustomerUpsertData = sanitizeCustomerData({
@@ -402,7 +468,7 @@ export async function action({ request }: ActionFunctionArgs) {
       firstName: validatedData.firstName,
       lastName: validatedData.lastName,
       phone: validatedData.phone,
-      marketingConsent: validatedData.consent,
+      marketingConsent: consentGiven,
       source: "revenue-boost-popup",
       campaignId: validatedData.campaignId,
       // Enhanced fields for email marketing platform tags
@@ -436,7 +502,6 @@ export async function action({ request }: ActionFunctionArgs) {
 
     // Create lead record
     // GDPR: Record consent timestamp and text when consent is given
-    const consentGiven = validatedData.consent === true;
     const lead = await prisma.lead.create({
       data: {
         storeId,
@@ -447,7 +512,7 @@ export async function action({ request }: ActionFunctionArgs) {
         phone: validatedData.phone || null,
         marketingConsent: consentGiven,
         consentedAt: consentGiven ? new Date() : null,
-        consentText: consentGiven ? (validatedData.consentText || null) : null,
+        consentText: validatedData.consent === true ? (validatedData.consentText || null) : null,
         sessionId: validatedData.sessionId,
         visitorId: validatedData.visitorId || null,
         shopifyCustomerId: customerResult.shopifyCustomerId
@@ -481,9 +546,25 @@ export async function action({ request }: ActionFunctionArgs) {
       ipAddress
     );
 
+    // Only shoppers who ticked the consent box are asked to confirm it
+    const confirmationSent =
+      doubleOptIn.enabled &&
+      validatedData.consent === true &&
+      (await DoubleOptInService.sendConfirmation(lead.id));
+
+    // Queue delivery to the store's connected email platforms. Leads waiting
+    // on their confirmation email are queued by DoubleOptInService.confirm,
+    // so they reach the ESPs once, already subscribed.
+    if (!confirmationSent) {
+      await EspSyncService.enqueueLead(lead.id);
+    }
+
     // Determine what to return based on behavior
     const behavior = discountConfig.behavior || "SHOW_CODE_AND_AUTO_APPLY";
-    const showCode = shouldShowDiscountCode(behavior);
+    // Codes held for confirmation are shown on the confirmation page; if the
+    // email couldn't be sent, the lead gets its code right away
+    const holdCode = confirmationSent && doubleOptIn.revealDiscountAfterConfirmation;
+    const showCode = shouldShowDiscountCode(behavior) && !holdCode;
 
     // Check if this is a free gift campaign and include product details
     const freeGift = discountConfig.freeGift;
@@ -513,7 +594,10 @@ export async function action({ request }: ActionFunctionArgs) {
         discountId: discountResult.discountId,
         isNewCustomer: customerResult.isNewCustomer,
         behavior,
-        message: getSuccessMessage(behavior),
+        confirmationRequired: confirmationSent || undefined,
+        message: confirmationSent
+          ? getConfirmationPendingMessage(holdCode)
+          : getSuccessMessage(behavior),
         freeGift: freeGiftData, // Include free gift details for cart addition
       },
       {
@@ -535,6 +619,14 @@ export async function action({ request }: ActionFunctionArgs) {
       );
     }
 
+    if (errorContext) {
+      await PopupEventService.recordError({
+        ...errorContext,
+        kind: "lead_submit",
+        message: error instanceof Error ? error.message : undefined,
+      });
+    }
+
     return data(
       {
         success: false,
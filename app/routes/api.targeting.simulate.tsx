@@ -0,0 +1,37 @@
+/**
+ * Targeting Simulator API
+ *
+ * POST /api/targeting/simulate
+ *
+ * Runs a simulated storefront context through every campaign filter step and
+ * returns a per-campaign trace ("why didn't my popup show?").
+ */
+
+import { data, type ActionFunctionArgs } from "react-router";
+import { SimulationInputSchema, TargetingSimulatorService } from "~/domains/campaigns/index.server";
+import { validateData } from "~/lib/validation-helpers";
+import { createSuccessResponse } from "~/lib/api-helpers.server";
+import { handleApiError } from "~/lib/api-error-handler.server";
+import { getStoreId } from "~/lib/auth-helpers.server";
+
+export async function action({ request }: ActionFunctionArgs) {
+  try {
+    if (request.method !== "POST") {
+      throw new Error(`Method ${request.method} not allowed`);
+    }
+
+    const storeId = await getStoreId(request);
+    const rawData = await request.json();
+    const input = validateData(SimulationInputSchema, rawData, "Targeting Simulation");
+
+    const result = await TargetingSimulatorService.simulate(storeId, input);
+    return createSuccessResponse(result);
+  } catch (error) {
+    return handleApiError(error, "POST /api/targeting/simulate");
+  }
+}
+
+// Disallow GET for this endpoint
+export async function loader() {
+  return data({ error: "Method not allowed" }, { status: 405 });
+}
@@ -0,0 +1,48 @@
+/**
+ * Public API - Campaign Performance
+ *
+ * GET /api/v1/analytics/campaigns?timeRange=30d&sortBy=revenue&limit=20
+ *
+ * Campaign rankings by revenue, leads, conversion rate or impressions.
+ * Authorization: Bearer <API key> with the analytics:read scope.
+ */
+
+import type { LoaderFunctionArgs } from "react-router";
+import { z } from "zod";
+import { CampaignAnalyticsService } from "~/domains/campaigns/services/campaign-analytics.server";
+import { withPublicApi } from "~/domains/public-api/public-api.server";
+import { getDateRanges, getTimeRangeFromRequest } from "~/lib/date-range.server";
+import { validateData } from "~/lib/validation-helpers";
+
+const RankingsQuerySchema = z.object({
+  sortBy: z.enum(["revenue", "leads", "conversionRate", "impressions"]).default("revenue"),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export async function loader(args: LoaderFunctionArgs) {
+  return withPublicApi(
+    args,
+    { scope: "analytics:read", context: "GET /api/v1/analytics/campaigns" },
+    async ({ request, apiKey }) => {
+      const url = new URL(request.url);
+      const { sortBy, limit } = validateData(
+        RankingsQuerySchema,
+        {
+          sortBy: url.searchParams.get("sortBy") || undefined,
+          limit: url.searchParams.get("limit") || undefined,
+        },
+        "Campaign rankings query"
+      );
+      const timeRange = getTimeRangeFromRequest(request);
+      const { current } = getDateRanges(timeRange);
+
+      const rankings = await CampaignAnalyticsService.getCampaignRankings(
+        apiKey.storeId,
+        current,
+        sortBy,
+        limit
+      );
+      return { timeRange, sortBy, rankings };
+    }
+  );
+}
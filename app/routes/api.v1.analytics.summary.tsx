@@ -0,0 +1,31 @@
+/**
+ * Public API - Analytics Summary
+ *
+ * GET /api/v1/analytics/summary?timeRange=30d
+ *
+ * Store-wide metrics with period-over-period comparison.
+ * Authorization: Bearer <API key> with the analytics:read scope.
+ */
+
+import type { LoaderFunctionArgs } from "react-router";
+import { CampaignAnalyticsService } from "~/domains/campaigns/services/campaign-analytics.server";
+import { withPublicApi } from "~/domains/public-api/public-api.server";
+import { getDateRanges, getTimeRangeFromRequest } from "~/lib/date-range.server";
+
+export async function loader(args: LoaderFunctionArgs) {
+  return withPublicApi(
+    args,
+    { scope: "analytics:read", context: "GET /api/v1/analytics/summary" },
+    async ({ request, apiKey }) => {
+      const timeRange = getTimeRangeFromRequest(request);
+      const { current, previous } = getDateRanges(timeRange);
+
+      const metrics = await CampaignAnalyticsService.getGlobalMetricsWithComparison(
+        apiKey.storeId,
+        current,
+        previous
+      );
+      return { timeRange, ...metrics };
+    }
+  );
+}
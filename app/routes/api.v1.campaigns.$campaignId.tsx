@@ -0,0 +1,94 @@
+/**
+ * Public API - Campaign
+ *
+ * GET    /api/v1/campaigns/:campaignId
+ * PUT    /api/v1/campaigns/:campaignId
+ * DELETE /api/v1/campaigns/:campaignId
+ *
+ * Authorization: Bearer <API key> with the campaigns:write scope.
+ */
+
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { CampaignService, CampaignUpdateDataSchema } from "~/domains/campaigns";
+import { getApiAdmin, readJsonBody, withPublicApi } from "~/domains/public-api/public-api.server";
+import {
+  prepareCampaignWrite,
+  syncCampaignSegments,
+} from "~/domains/public-api/campaign-writes.server";
+import { validateRequiredId, validateResourceExists } from "~/lib/api-helpers.server";
+import { validateData } from "~/lib/validation-helpers";
+
+// ============================================================================
+// LOADER (GET /api/v1/campaigns/:campaignId)
+// ============================================================================
+
+export async function loader(args: LoaderFunctionArgs) {
+  return withPublicApi(
+    args,
+    { scope: "campaigns:write", context: "GET /api/v1/campaigns/:campaignId" },
+    async ({ params, apiKey }) => {
+      validateRequiredId(params.campaignId, "Campaign");
+      const campaign = await CampaignService.getCampaignById(params.campaignId, apiKey.storeId);
+      validateResourceExists(campaign, "Campaign");
+      return { campaign };
+    }
+  );
+}
+
+// ============================================================================
+// ACTION (PUT/DELETE /api/v1/campaigns/:campaignId)
+// ============================================================================
+
+export async function action(args: ActionFunctionArgs) {
+  const method = args.request.method;
+
+  if (method === "PUT") {
+    return withPublicApi(
+      args,
+      { scope: "campaigns:write", context: "PUT /api/v1/campaigns/:campaignId", write: true },
+      async ({ request, params, apiKey }) => {
+        validateRequiredId(params.campaignId, "Campaign");
+        const input = validateData(
+          CampaignUpdateDataSchema,
+          await readJsonBody(request),
+          "Campaign Update Data"
+        );
+        await prepareCampaignWrite(apiKey.storeId, input);
+
+        const admin = await getApiAdmin(apiKey);
+        const campaign = await CampaignService.updateCampaign(
+          params.campaignId,
+          apiKey.storeId,
+          input,
+          admin
+        );
+        validateResourceExists(campaign, "Campaign");
+        syncCampaignSegments(apiKey.storeId, input, admin);
+
+        return { campaign };
+      }
+    );
+  }
+
+  if (method === "DELETE") {
+    return withPublicApi(
+      args,
+      { scope: "campaigns:write", context: "DELETE /api/v1/campaigns/:campaignId", write: true },
+      async ({ params, apiKey }) => {
+        validateRequiredId(params.campaignId, "Campaign");
+        const deleted = await CampaignService.deleteCampaign(
+          params.campaignId,
+          apiKey.storeId,
+          await getApiAdmin(apiKey)
+        );
+        validateResourceExists(deleted, "Campaign");
+        return { deleted: true };
+      }
+    );
+  }
+
+  return new Response("Method not allowed", {
+    status: 405,
+    headers: { Allow: "GET, PUT, DELETE" },
+  });
+}
@@ -0,0 +1,78 @@
+/**
+ * Public API - Campaigns
+ *
+ * GET  /api/v1/campaigns?status=active&templateType=NEWSLETTER
+ * POST /api/v1/campaigns
+ *
+ * Authorization: Bearer <API key> with the campaigns:write scope.
+ * See /api/v1/openapi.json.
+ */
+
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { CampaignCreateDataSchema, CampaignService, TemplateTypeSchema } from "~/domains/campaigns";
+import { getApiAdmin, readJsonBody, withPublicApi } from "~/domains/public-api/public-api.server";
+import {
+  prepareCampaignWrite,
+  syncCampaignSegments,
+} from "~/domains/public-api/campaign-writes.server";
+import { validateData } from "~/lib/validation-helpers";
+
+// ============================================================================
+// LOADER (GET /api/v1/campaigns)
+// ============================================================================
+
+export async function loader(args: LoaderFunctionArgs) {
+  return withPublicApi(
+    args,
+    { scope: "campaigns:write", context: "GET /api/v1/campaigns" },
+    async ({ request, apiKey }) => {
+      const url = new URL(request.url);
+      const templateType = url.searchParams.get("templateType");
+
+      if (templateType) {
+        const type = validateData(TemplateTypeSchema, templateType, "templateType");
+        return {
+          campaigns: await CampaignService.getCampaignsByTemplateType(apiKey.storeId, type),
+        };
+      }
+      if (url.searchParams.get("status") === "active") {
+        return { campaigns: await CampaignService.getActiveCampaigns(apiKey.storeId) };
+      }
+      return { campaigns: await CampaignService.getAllCampaigns(apiKey.storeId) };
+    }
+  );
+}
+
+// ============================================================================
+// ACTION (POST /api/v1/campaigns)
+// ============================================================================
+
+export async function action(args: ActionFunctionArgs) {
+  if (args.request.method !== "POST") {
+    return new Response("Method not allowed", { status: 405, headers: { Allow: "GET, POST" } });
+  }
+
+  return withPublicApi(
+    args,
+    { scope: "campaigns:write", context: "POST /api/v1/campaigns", write: true, status: 201 },
+    async ({ request, apiKey }) => {
+      const input = validateData(
+        CampaignCreateDataSchema,
+        await readJsonBody(request),
+        "Campaign Create Data"
+      );
+      await prepareCampaignWrite(apiKey.storeId, input);
+
+      const admin = await getApiAdmin(apiKey);
+      const campaign = await CampaignService.createCampaign(
+        apiKey.storeId,
+        input,
+        admin,
+        process.env.SHOPIFY_APP_URL
+      );
+      syncCampaignSegments(apiKey.storeId, input, admin);
+
+      return { campaign };
+    }
+  );
+}
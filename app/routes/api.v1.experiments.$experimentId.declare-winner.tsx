@@ -0,0 +1,47 @@
+/**
+ * Public API - Declare Experiment Winner
+ *
+ * POST /api/v1/experiments/:experimentId/declare-winner
+ * Body: { "winningVariantKey": "B" }
+ *
+ * The winner gets all traffic, the other variants are paused and the
+ * experiment is completed. Authorization: Bearer <API key> with the
+ * campaigns:write scope.
+ */
+
+import type { ActionFunctionArgs } from "react-router";
+import { z } from "zod";
+import { ExperimentService } from "~/domains/campaigns";
+import { readJsonBody, withPublicApi } from "~/domains/public-api/public-api.server";
+import { validateRequiredId } from "~/lib/api-helpers.server";
+import { validateData } from "~/lib/validation-helpers";
+
+const DeclareWinnerSchema = z.object({
+  winningVariantKey: z.string().trim().min(1),
+});
+
+export async function action(args: ActionFunctionArgs) {
+  if (args.request.method !== "POST") {
+    return new Response("Method not allowed", { status: 405, headers: { Allow: "POST" } });
+  }
+
+  return withPublicApi(
+    args,
+    {
+      scope: "campaigns:write",
+      context: "POST /api/v1/experiments/:experimentId/declare-winner",
+      write: true,
+    },
+    async ({ request, params, apiKey }) => {
+      validateRequiredId(params.experimentId, "Experiment");
+      const { winningVariantKey } = validateData(
+        DeclareWinnerSchema,
+        await readJsonBody(request),
+        "Declare Winner"
+      );
+
+      await ExperimentService.declareWinner(params.experimentId, apiKey.storeId, winningVariantKey);
+      return { experimentId: params.experimentId, winningVariantKey };
+    }
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * Public API - Experiment
+ *
+ * GET /api/v1/experiments/:experimentId
+ * PUT /api/v1/experiments/:experimentId
+ *
+ * Authorization: Bearer <API key> with the campaigns:write scope.
+ */
+
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { ExperimentService, ExperimentUpdateDataSchema } from "~/domains/campaigns";
+import { readJsonBody, withPublicApi } from "~/domains/public-api/public-api.server";
+import { validateRequiredId, validateResourceExists } from "~/lib/api-helpers.server";
+import { validateData, ValidationError } from "~/lib/validation-helpers";
+
+// ============================================================================
+// LOADER (GET /api/v1/experiments/:experimentId)
+// ============================================================================
+
+export async function loader(args: LoaderFunctionArgs) {
+  return withPublicApi(
+    args,
+    { scope: "campaigns:write", context: "GET /api/v1/experiments/:experimentId" },
+    async ({ params, apiKey }) => {
+      validateRequiredId(params.experimentId, "Experiment");
+      const experiment = await ExperimentService.getExperimentById(
+        params.experimentId,
+        apiKey.storeId
+      );
+      validateResourceExists(experiment, "Experiment");
+      return { experiment };
+    }
+  );
+}
+
+// ============================================================================
+// ACTION (PUT /api/v1/experiments/:experimentId)
+// ============================================================================
+
+export async function action(args: ActionFunctionArgs) {
+  if (args.request.method !== "PUT") {
+    return new Response("Method not allowed", { status: 405, headers: { Allow: "GET, PUT" } });
+  }
+
+  return withPublicApi(
+    args,
+    { scope: "campaigns:write", context: "PUT /api/v1/experiments/:experimentId", write: true },
+    async ({ request, params, apiKey }) => {
+      validateRequiredId(params.experimentId, "Experiment");
+      const input = validateData(
+        ExperimentUpdateDataSchema,
+        await readJsonBody(request),
+        "Experiment Update Data"
+      );
+      if (input.id && input.id !== params.experimentId) {
+        throw new ValidationError(
+          "Experiment ID mismatch",
+          ["id: must match experimentId in the route"],
+          "Experiment Update Data"
+        );
+      }
+
+      const experiment = await ExperimentService.updateExperiment(
+        params.experimentId,
+        apiKey.storeId,
+        input
+      );
+      validateResourceExists(experiment, "Experiment");
+      return { experiment };
+    }
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * Public API - Experiments
+ *
+ * GET  /api/v1/experiments?status=running
+ * POST /api/v1/experiments
+ *
+ * Authorization: Bearer <API key> with the campaigns:write scope.
+ */
+
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { ExperimentCreateDataSchema, ExperimentService } from "~/domains/campaigns";
+import { readJsonBody, withPublicApi } from "~/domains/public-api/public-api.server";
+import { validateData } from "~/lib/validation-helpers";
+
+// ============================================================================
+// LOADER (GET /api/v1/experiments)
+// ============================================================================
+
+export async function loader(args: LoaderFunctionArgs) {
+  return withPublicApi(
+    args,
+    { scope: "campaigns:write", context: "GET /api/v1/experiments" },
+    async ({ request, apiKey }) => {
+      const status = new URL(request.url).searchParams.get("status");
+      const experiments =
+        status === "running"
+          ? await ExperimentService.getRunningExperiments(apiKey.storeId)
+          : await ExperimentService.getAllExperiments(apiKey.storeId);
+      return { experiments };
+    }
+  );
+}
+
+// ============================================================================
+// ACTION (POST /api/v1/experiments)
+// ============================================================================
+
+export async function action(args: ActionFunctionArgs) {
+  if (args.request.method !== "POST") {
+    return new Response("Method not allowed", { status: 405, headers: { Allow: "GET, POST" } });
+  }
+
+  return withPublicApi(
+    args,
+    { scope: "campaigns:write", context: "POST /api/v1/experiments", write: true, status: 201 },
+    async ({ request, apiKey }) => {
+      const input = validateData(
+        ExperimentCreateDataSchema,
+        await readJsonBody(request),
+        "Experiment Create Data"
+      );
+      // Plan limits are enforced by the service
+      const experiment = await ExperimentService.createExperiment(apiKey.storeId, input);
+      return { experiment };
+    }
+  );
+}
@@ -0,0 +1,71 @@
+/**
+ * Public API - Leads
+ *
+ * GET /api/v1/leads?campaignId=&from=&to=&limit=100&cursor=
+ *
+ * Captured leads, oldest first. `from` / `to` are ISO timestamps; pass
+ * `nextCursor` back as `cursor` for the next page (null on the last page).
+ * Authorization: Bearer <API key> with the leads:read scope.
+ */
+
+import type { LoaderFunctionArgs } from "react-router";
+import { z } from "zod";
+import { DataExportService } from "~/domains/analytics/data-export.server";
+import { withPublicApi } from "~/domains/public-api/public-api.server";
+import { validateData } from "~/lib/validation-helpers";
+
+/** Lead fields returned by the API (user agents and IPs stay in the admin export) */
+const LEAD_FIELDS = [
+  "id",
+  "email",
+  "firstName",
+  "lastName",
+  "phone",
+  "marketingConsent",
+  "consentedAt",
+  "campaignId",
+  "discountCode",
+  "shopifyCustomerId",
+  "pageUrl",
+  "utmSource",
+  "utmMedium",
+  "utmCampaign",
+  "submittedAt",
+  "createdAt",
+];
+
+const dateParam = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), { message: "Invalid date" })
+  .transform((value) => new Date(value));
+
+const LeadsQuerySchema = z.object({
+  campaignId: z.string().min(1).optional(),
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export async function loader(args: LoaderFunctionArgs) {
+  return withPublicApi(
+    args,
+    { scope: "leads:read", context: "GET /api/v1/leads" },
+    async ({ request, apiKey }) => {
+      const url = new URL(request.url);
+      const query = validateData(
+        LeadsQuerySchema,
+        Object.fromEntries(
+          Array.from(url.searchParams.entries()).filter(([, value]) => value !== "")
+        ),
+        "Leads query"
+      );
+
+      const page = await DataExportService.getPage(apiKey.storeId, "leads", {
+        ...query,
+        columns: LEAD_FIELDS,
+      });
+      return { leads: page.records, nextCursor: page.nextCursor };
+    }
+  );
+}
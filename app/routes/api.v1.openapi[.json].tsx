@@ -0,0 +1,17 @@
+/**
+ * Public API - OpenAPI Document
+ *
+ * GET /api/v1/openapi.json
+ * Describes every /api/v1 endpoint, its scope and its request bodies.
+ * No API key needed.
+ */
+
+import { buildOpenApiDocument } from "~/domains/public-api/openapi";
+
+export async function loader({ request }: { request: Request }) {
+  const appUrl = process.env.SHOPIFY_APP_URL || new URL(request.url).origin;
+
+  return Response.json(buildOpenApiDocument(appUrl), {
+    headers: { "Cache-Control": "public, max-age=3600" },
+  });
+}
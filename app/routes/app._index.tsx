@@ -31,6 +31,23 @@ import { SetupStatus, type SetupStatusData } from "~/domains/setup/components/Se
 import { logger } from "~/lib/logger.server";
 import { PostBillingReviewTrigger } from "~/domains/reviews";
 import { BillingService } from "~/domains/billing/index.server";
+import {
+  ATTRIBUTION_MODELS,
+  ATTRIBUTION_MODEL_LABELS,
+} from "~/domains/analytics/attribution-models";
+import { CAMPAIGN_ALERT_LABELS } from "~/domains/analytics/anomaly-detection";
+import {
+  AnomalyMonitorService,
+  type CampaignAlertSummary,
+} from "~/domains/analytics/anomaly-monitor.server";
+
+const ATTRIBUTION_OPTIONS = [
+  { label: "Attribution: recorded orders", value: "" },
+  ...ATTRIBUTION_MODELS.map((model) => ({
+    label: `Attribution: ${ATTRIBUTION_MODEL_LABELS[model]}`,
+    value: model,
+  })),
+];
 
 // --- Types ---
 
@@ -63,6 +80,8 @@ interface LoaderData {
   // SSR setup status to prevent CLS from conditional banner rendering
   initialSetupStatus: SetupStatusData | null;
   initialSetupComplete: boolean | null;
+  // Open campaign performance alerts from the anomaly monitor
+  alerts: CampaignAlertSummary[];
 }
 
 // Setup status API response type
@@ -139,12 +158,18 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
   // Fetch currency and setup status in parallel to prevent CLS
   // Setup status is cached (5 min TTL) so subsequent navigations are fast
-  const [currency, setupResult] = await Promise.all([
+  const [currency, setupResult, alerts] = await Promise.all([
     getStoreCurrency(admin),
     getSetupStatus(session.shop, session.accessToken || "", admin).catch((error) => {
       logger.error({ error }, "[Dashboard] Error fetching setup status");
       return null;
     }),
+    getStoreId(request)
+      .then((storeId) => AnomalyMonitorService.getOpenAlerts(storeId))
+      .catch((error) => {
+        logger.error({ error }, "[Dashboard] Error fetching campaign alerts");
+        return [];
+      }),
   ]);
 
   // Use deep link URL with activateAppId for auto-activation when merchant clicks
@@ -158,6 +183,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     // Include setup status in SSR to prevent CLS from conditional banner rendering
     initialSetupStatus: setupResult?.status ?? null,
     initialSetupComplete: setupResult?.setupComplete ?? null,
+    alerts,
   });
 };
 
@@ -256,6 +282,16 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     });
   }
 
+  if (intent === "dismiss_alert") {
+    const alertId = formData.get("alertId") as string;
+    if (!alertId) {
+      return data({ success: false, message: "Alert ID is required" }, { status: 400 });
+    }
+
+    await AnomalyMonitorService.dismissAlert(storeId, alertId);
+    return data({ success: true });
+  }
+
   // Single campaign duplicate action
   if (intent === "duplicate") {
     const campaignId = formData.get("campaignId") as string;
@@ -355,12 +391,14 @@ function GlobalMetricCard({
 }
 
 export default function Dashboard() {
-  const { currency, themeEditorUrl, chargeId, recentUpgrade, initialSetupStatus, initialSetupComplete } =
+  const { currency, themeEditorUrl, chargeId, recentUpgrade, initialSetupStatus, initialSetupComplete, alerts } =
     useLoaderData<typeof loader>();
 
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
   const timeRange = searchParams.get("timeRange") || "30d";
+  const attribution = searchParams.get("attribution") || "";
+  const analyticsParams = `?timeRange=${timeRange}${attribution ? `&attribution=${attribution}` : ""}`;
 
   // Fetchers for lazy loading
   const actionFetcher = useFetcher();
@@ -371,14 +409,16 @@ export default function Dashboard() {
   // Track which campaign is being toggled
   const [togglingCampaignId, setTogglingCampaignId] = useState<string | null>(null);
 
+  // Hide dismissed alerts before the loader revalidates
+  const [dismissedAlertIds, setDismissedAlertIds] = useState<string[]>([]);
+
   // Trigger metrics and campaigns fetches on mount (setup status comes from SSR)
   useEffect(() => {
-    const params = `?timeRange=${timeRange}`;
-    metricsFetcher.load(`/api/dashboard/metrics${params}`);
-    campaignsFetcher.load(`/api/dashboard/campaigns${params}`);
+    metricsFetcher.load(`/api/dashboard/metrics${analyticsParams}`);
+    campaignsFetcher.load(`/api/dashboard/campaigns${analyticsParams}`);
     // Note: Setup status is now SSR'd, only refetch on explicit user action
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [timeRange]);
+  }, [analyticsParams]);
 
   // Use SSR data first, then fetcher data after refresh (prevents CLS from conditional banners)
   const currentSetupStatus = setupFetcher.data?.status ?? initialSetupStatus;
@@ -396,12 +436,11 @@ export default function Dashboard() {
     if (actionFetcher.state === "idle" && togglingCampaignId !== null) {
       setTogglingCampaignId(null);
       // Refetch campaigns after action completes
-      const params = `?timeRange=${timeRange}`;
-      metricsFetcher.load(`/api/dashboard/metrics${params}`);
-      campaignsFetcher.load(`/api/dashboard/campaigns${params}`);
+      metricsFetcher.load(`/api/dashboard/metrics${analyticsParams}`);
+      campaignsFetcher.load(`/api/dashboard/campaigns${analyticsParams}`);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [actionFetcher.state, togglingCampaignId, timeRange]);
+  }, [actionFetcher.state, togglingCampaignId, analyticsParams]);
 
   const handleRefreshSetupStatus = () => {
     // Force refresh bypasses the cache
@@ -422,7 +461,11 @@ export default function Dashboard() {
   };
 
   const handleTimeRangeChange = (value: string) => {
-    setSearchParams({ timeRange: value });
+    setSearchParams(attribution ? { timeRange: value, attribution } : { timeRange: value });
+  };
+
+  const handleAttributionChange = (value: string) => {
+    setSearchParams(value ? { timeRange, attribution: value } : { timeRange });
   };
 
   const handleToggleStatus = (id: string, currentStatus: string) => {
@@ -495,6 +538,11 @@ export default function Dashboard() {
     actionFetcher.submit(formData, { method: "post" });
   };
 
+  const handleDismissAlert = (alertId: string) => {
+    setDismissedAlertIds((ids) => [...ids, alertId]);
+    actionFetcher.submit({ intent: "dismiss_alert", alertId }, { method: "post" });
+  };
+
   // --- Zero State (only show after data loads and confirms no campaigns) ---
   if (metricsData && !metricsData.hasCampaigns) {
     return (
@@ -563,17 +611,26 @@ export default function Dashboard() {
         icon: PlusIcon,
       }}
       secondaryActions={
-        <Select
-          label="Time range"
-          labelHidden
-          options={[
-            { label: "Last 7 days", value: "7d" },
-            { label: "Last 30 days", value: "30d" },
-            { label: "All time", value: "all" },
-          ]}
-          value={timeRange}
-          onChange={handleTimeRangeChange}
-        />
+        <InlineStack gap="200">
+          <Select
+            label="Revenue attribution"
+            labelHidden
+            options={ATTRIBUTION_OPTIONS}
+            value={attribution}
+            onChange={handleAttributionChange}
+          />
+          <Select
+            label="Time range"
+            labelHidden
+            options={[
+              { label: "Last 7 days", value: "7d" },
+              { label: "Last 30 days", value: "30d" },
+              { label: "All time", value: "all" },
+            ]}
+            value={timeRange}
+            onChange={handleTimeRangeChange}
+          />
+        </InlineStack>
       }
     >
       {/* Post-billing review trigger (invisible component) */}
@@ -597,6 +654,24 @@ export default function Dashboard() {
             </Layout.Section>
           )}
 
+        {/* Campaign Performance Alerts - Open anomalies until they resolve or are dismissed */}
+        {alerts
+          .filter((alert) => !dismissedAlertIds.includes(alert.id))
+          .map((alert) => (
+            <Layout.Section key={alert.id}>
+              <Banner
+                tone={alert.severity === "critical" ? "critical" : "warning"}
+                title={`${alert.campaignName}: ${CAMPAIGN_ALERT_LABELS[alert.type]}`}
+                action={{ content: "View analytics", url: `/app/campaigns/${alert.campaignId}/analytics` }}
+                onDismiss={() => handleDismissAlert(alert.id)}
+              >
+                <Text as="p" variant="bodyMd">
+                  {alert.message}
+                </Text>
+              </Banner>
+            </Layout.Section>
+          ))}
+
         {/* Campaign Limit Exceeded Banner - Show when user has more active campaigns than plan allows */}
         {campaignLimitStatus?.isOverLimit && campaignLimitStatus.max !== null && (
           <Layout.Section>
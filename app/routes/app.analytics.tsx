@@ -19,6 +19,7 @@ import {
   Select,
   Box,
   Badge,
+  Banner,
   SkeletonBodyText,
   SkeletonDisplayText,
   DataTable,
@@ -34,6 +35,9 @@ import type {
   CampaignRanking,
   TemplatePerformance,
 } from "~/domains/campaigns/services/campaign-analytics.server";
+import type { IncrementalityReport } from "~/domains/analytics/holdout.server";
+import { ExportDataCard } from "~/domains/analytics/components/ExportDataCard";
+import { LeadCohortCard } from "~/domains/analytics/components/LeadCohortCard";
 
 // ============================================================================
 // LOADER - Minimal, just auth + currency for instant navigation
@@ -71,6 +75,11 @@ interface TemplatesData {
   data: { templatePerformance: TemplatePerformance[] };
 }
 
+interface IncrementalityData {
+  success: boolean;
+  data: { report: IncrementalityReport };
+}
+
 // ============================================================================
 // HELPERS
 // ============================================================================
@@ -421,6 +430,70 @@ function TemplatePerformanceTable({
   );
 }
 
+function StoreHoldoutCard({
+  data,
+  currency,
+}: {
+  data: IncrementalityData | undefined;
+  currency: string;
+}) {
+  const report = data?.data?.report;
+  // Only stores running the store-wide holdout have held-out visitors to compare
+  if (!report || report.holdout.visitors === 0) return null;
+
+  const confidencePercent = Math.round(report.confidenceLevel * 100);
+  const { incrementalConversionRate: rate, incrementalRevenue: revenue } = report;
+  const formatPoints = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(2)} pts`;
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <InlineStack align="space-between" blockAlign="center">
+          <Text as="h2" variant="headingMd">
+            Store-wide Incrementality
+          </Text>
+          {!report.hasSufficientSample ? (
+            <Badge>Not enough data</Badge>
+          ) : report.isSignificant ? (
+            <Badge tone="success">Significant</Badge>
+          ) : (
+            <Badge tone="info">Not significant</Badge>
+          )}
+        </InlineStack>
+        {report.hasArchivedEvents && (
+          <Banner tone="info">
+            <p>
+              Raw events from the start of this period were archived, so only visitors assigned
+              since {new Date(report.from).toLocaleDateString()} are compared.
+            </p>
+          </Banner>
+        )}
+        <DataTable
+          columnContentTypes={["text", "numeric", "numeric", "numeric"]}
+          headings={["Group", "Visitors", "Conv. Rate", "Revenue / Visitor"]}
+          rows={[
+            [
+              "Saw campaigns",
+              formatNumber(report.exposed.visitors),
+              formatPercent(report.exposed.conversionRate),
+              formatMoney(report.exposed.revenuePerVisitor, currency),
+            ],
+            [
+              "Held out",
+              formatNumber(report.holdout.visitors),
+              formatPercent(report.holdout.conversionRate),
+              formatMoney(report.holdout.revenuePerVisitor, currency),
+            ],
+          ]}
+        />
+        <Text as="p" tone="subdued">
+          {`Incremental conversion rate ${formatPoints(rate.value)} (${formatPoints(rate.lower)} to ${formatPoints(rate.upper)}), incremental revenue ${formatMoney(revenue.value, currency)} (${formatMoney(revenue.lower, currency)} to ${formatMoney(revenue.upper, currency)}) at ${confidencePercent}% confidence.`}
+        </Text>
+      </BlockStack>
+    </Card>
+  );
+}
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -436,6 +509,7 @@ export default function AnalyticsPage() {
   const dailyFetcher = useFetcher<DailyData>();
   const campaignsFetcher = useFetcher<CampaignsData>();
   const templatesFetcher = useFetcher<TemplatesData>();
+  const incrementalityFetcher = useFetcher<IncrementalityData>();
 
   // Trigger all fetches on mount and when timeRange changes
   useEffect(() => {
@@ -444,6 +518,7 @@ export default function AnalyticsPage() {
     dailyFetcher.load(`/api/analytics/daily${params}`);
     campaignsFetcher.load(`/api/analytics/campaigns${params}`);
     templatesFetcher.load(`/api/analytics/templates${params}`);
+    incrementalityFetcher.load(`/api/analytics/incrementality${params}`);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [timeRange]);
 
@@ -504,6 +579,21 @@ export default function AnalyticsPage() {
         <Layout.Section>
           <TemplatePerformanceTable data={templatesFetcher.data} currency={currency} />
         </Layout.Section>
+
+        {/* Store-wide Holdout */}
+        <Layout.Section>
+          <StoreHoldoutCard data={incrementalityFetcher.data} currency={currency} />
+        </Layout.Section>
+
+        {/* Lead Cohorts - own signup-week range, independent of the time range */}
+        <Layout.Section>
+          <LeadCohortCard currency={currency} />
+        </Layout.Section>
+
+        {/* Raw Data Export */}
+        <Layout.Section>
+          <ExportDataCard timeRange={timeRange} />
+        </Layout.Section>
       </Layout>
     </Page>
   );
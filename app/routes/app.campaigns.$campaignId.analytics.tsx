@@ -8,20 +8,31 @@ import {
   InlineGrid,
   Divider,
   DataTable,
+  Banner,
 } from "@shopify/polaris";
 import { PolarisVizProvider, BarChart } from "@shopify/polaris-viz";
 import "@shopify/polaris-viz/build/esm/styles.css";
 import { authenticate } from "~/shopify.server";
-import { CampaignAnalyticsService } from "~/domains/campaigns/services/campaign-analytics.server";
+import {
+  CampaignAnalyticsService,
+  type DoubleOptInStats,
+} from "~/domains/campaigns/services/campaign-analytics.server";
 import { CampaignService } from "~/domains/campaigns";
 import { getStoreId } from "~/lib/auth-helpers.server";
 import { getStoreCurrency } from "~/lib/currency.server";
 import { PopupEventService } from "~/domains/analytics/popup-events.server";
+import { HoldoutService, type IncrementalityReport } from "~/domains/analytics/holdout.server";
+import { getHoldoutPolicy, type HoldoutPolicy } from "~/domains/campaigns/utils/holdout";
+import { getDoubleOptInSettings } from "~/domains/leads/services/double-opt-in.server";
+import type { StoreSettings } from "~/domains/store/types/settings";
 import prisma from "~/db.server";
 import { logger } from "~/lib/logger.server";
+import { FunnelCard } from "~/domains/analytics/components/FunnelCard";
+import { ExportDataCard } from "~/domains/analytics/components/ExportDataCard";
 
 // --- Types ---
 interface LoaderData {
+  campaignId: string;
   campaignName: string;
   summary: {
     impressions: number;
@@ -43,10 +54,41 @@ interface LoaderData {
     id: string;
     orderNumber: string;
     totalPrice: number;
+    netRevenue: number;
+    refundedAmount: number;
+    cancelled: boolean;
     discountAmount: number;
     createdAt: string;
   }>;
   currency: string;
+  holdout: {
+    policy: HoldoutPolicy | null;
+    report: IncrementalityReport | null;
+  };
+  /** Null when the campaign never used double opt-in */
+  doubleOptIn: (DoubleOptInStats & { enabled: boolean }) | null;
+}
+
+const INCREMENTALITY_WINDOW_DAYS = 30;
+const RECENT_WINDOW_DAYS = 30;
+
+/**
+ * Holdout vs. exposed comparison for the last 30 days.
+ * A failed report must not break the analytics page.
+ */
+async function loadIncrementality(
+  storeId: string,
+  campaignId: string
+): Promise<IncrementalityReport | null> {
+  const to = new Date();
+  const from = new Date(to.getTime() - INCREMENTALITY_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  try {
+    return await HoldoutService.getIncrementality(storeId, { campaignId, from, to });
+  } catch (error) {
+    logger.warn({ error, campaignId }, "[CampaignAnalytics] Failed to load incrementality");
+    return null;
+  }
 }
 
 // --- Loader ---
@@ -61,20 +103,35 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
   }
 
   // 1. Get Campaign Details & other data in parallel
-  const [campaign, _statsMap, revenueMap, dailyMetrics, currency, conversions, clicksMap] =
-    await Promise.all([
-      CampaignService.getCampaignById(campaignId, storeId),
-      CampaignAnalyticsService.getCampaignStats([campaignId]),
-      CampaignAnalyticsService.getRevenueBreakdownByCampaignIds([campaignId]),
-      CampaignAnalyticsService.getDailyMetrics(campaignId, 30), // Last 30 days
-      getStoreCurrency(admin),
-      prisma.campaignConversion.findMany({
-        where: { campaignId },
-        orderBy: { createdAt: "desc" },
-        take: 50,
-      }),
-      PopupEventService.getClickCountsByCampaign([campaignId]),
-    ]);
+  const [
+    campaign,
+    _statsMap,
+    revenueMap,
+    dailyMetrics,
+    currency,
+    conversions,
+    clicksMap,
+    store,
+    incrementality,
+    doubleOptInMap,
+  ] = await Promise.all([
+    CampaignService.getCampaignById(campaignId, storeId),
+    CampaignAnalyticsService.getCampaignStats([campaignId]),
+    CampaignAnalyticsService.getRevenueBreakdownByCampaignIds([campaignId]),
+    CampaignAnalyticsService.getDailyMetrics(campaignId, 30), // Last 30 days
+    getStoreCurrency(admin),
+    prisma.campaignConversion.findMany({
+      where: { campaignId },
+      orderBy: { createdAt: "desc" },
+      take: 50,
+    }),
+    PopupEventService.getClickCountsByCampaign([campaignId]),
+    prisma.store.findUnique({ where: { id: storeId }, select: { settings: true } }),
+    loadIncrementality(storeId, campaignId),
+    CampaignAnalyticsService.getDoubleOptInStats([campaignId], {
+      from: new Date(Date.now() - RECENT_WINDOW_DAYS * 24 * 60 * 60 * 1000),
+    }),
+  ]);
 
   if (!campaign) throw new Response("Campaign not found", { status: 404 });
 
@@ -90,7 +147,17 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
   const totalRevenue = revenueStats?.revenue || 0;
   const totalOrders = revenueStats?.orderCount || 0;
 
+  const doubleOptInEnabled = getDoubleOptInSettings(campaign.contentConfig).enabled;
+  const doubleOptInStats = doubleOptInMap.get(campaignId);
+
+  const holdoutPolicy = getHoldoutPolicy(
+    campaign,
+    storeId,
+    store?.settings as StoreSettings | undefined
+  );
+
   return data<LoaderData>({
+    campaignId,
     campaignName: campaign.name,
     summary: {
       impressions: recentImpressions,
@@ -107,10 +174,24 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
       id: conversion.id,
       orderNumber: conversion.orderNumber,
       totalPrice: Number(conversion.totalPrice),
+      netRevenue: Number(conversion.netRevenue),
+      refundedAmount: Number(conversion.refundedAmount),
+      cancelled: conversion.cancelledAt !== null,
       discountAmount: Number(conversion.discountAmount),
       createdAt: conversion.createdAt.toISOString(),
     })),
     currency: currency,
+    holdout: {
+      policy: holdoutPolicy,
+      report: incrementality,
+    },
+    doubleOptIn:
+      doubleOptInEnabled || doubleOptInStats
+        ? {
+            enabled: doubleOptInEnabled,
+            ...(doubleOptInStats ?? { sent: 0, confirmed: 0, confirmationRate: 0 }),
+          }
+        : null,
   });
 }
 
@@ -122,10 +203,26 @@ const formatMoney = (amount: number, currency: string = "USD") => {
   }).format(amount);
 };
 
+const getConversionStatus = (conversion: LoaderData["conversions"][number]) => {
+  if (conversion.cancelled) return "Cancelled";
+  if (conversion.refundedAmount <= 0) return "Paid";
+  return conversion.netRevenue > 0 ? "Partially refunded" : "Refunded";
+};
+
 // --- Component ---
 export default function CampaignAnalyticsPage() {
-  const { campaignName, summary, dailyMetrics, conversions, currency } =
-    useLoaderData<typeof loader>();
+  const {
+    campaignId,
+    campaignName,
+    summary,
+    dailyMetrics,
+    conversions,
+    currency,
+    holdout,
+    doubleOptIn,
+  } = useLoaderData<typeof loader>();
+  const showIncrementality =
+    holdout.report !== null && (holdout.policy !== null || holdout.report.holdout.visitors > 0);
 
   return (
     <Page
@@ -193,8 +290,47 @@ export default function CampaignAnalyticsPage() {
           </Card>
         </InlineGrid>
 
+        {/* Double Opt-In Confirmations */}
+        {doubleOptIn && (
+          <Card>
+            <BlockStack gap="200">
+              <Text as="h3" variant="headingSm" tone="subdued">
+                Double Opt-In Confirmation Rate
+              </Text>
+              {doubleOptIn.sent > 0 ? (
+                <>
+                  <Text as="p" variant="headingLg">
+                    {doubleOptIn.confirmationRate.toFixed(1)}%
+                  </Text>
+                  <Text as="span" tone="subdued">
+                    {doubleOptIn.confirmed.toLocaleString()} of{" "}
+                    {doubleOptIn.sent.toLocaleString()} confirmation emails confirmed
+                    {doubleOptIn.enabled ? "" : " (double opt-in is now off)"}
+                  </Text>
+                </>
+              ) : (
+                <Text as="p" tone="subdued">
+                  No confirmation emails sent yet. They need outgoing email to be configured for
+                  the app.
+                </Text>
+              )}
+            </BlockStack>
+          </Card>
+        )}
+
         <Divider />
 
+        {/* Holdout Incrementality */}
+        {showIncrementality && holdout.report && (
+          <IncrementalityCard report={holdout.report} policy={holdout.policy} currency={currency} />
+        )}
+
+        {/* Conversion Funnel */}
+        <FunnelCard campaignId={campaignId} />
+
+        {/* Raw Data Export */}
+        <ExportDataCard campaignId={campaignId} />
+
         {/* Charts Section */}
         <Card>
           <BlockStack gap="400">
@@ -244,14 +380,16 @@ export default function CampaignAnalyticsPage() {
               </Text>
             ) : (
               <DataTable
-                columnContentTypes={["text", "numeric", "numeric", "text"]}
-                headings={["Order", "Revenue", "Discount", "Date"]}
+                columnContentTypes={["text", "numeric", "numeric", "numeric", "text", "text"]}
+                headings={["Order", "Revenue", "Net revenue", "Discount", "Status", "Date"]}
                 rows={conversions.map((conversion) => [
                   conversion.orderNumber,
                   formatMoney(conversion.totalPrice, currency),
+                  formatMoney(conversion.netRevenue, currency),
                   conversion.discountAmount > 0
                     ? `-${formatMoney(conversion.discountAmount, currency)}`
                     : formatMoney(0, currency),
+                  getConversionStatus(conversion),
                   new Date(conversion.createdAt).toLocaleString(),
                 ])}
               />
@@ -284,3 +422,115 @@ export default function CampaignAnalyticsPage() {
     </Page>
   );
 }
+
+// --- Incrementality ---
+const formatPoints = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(2)} pts`;
+
+const formatPValue = (value: number) => (value < 0.001 ? "< 0.001" : value.toFixed(3));
+
+function IncrementalityCard({
+  report,
+  policy,
+  currency,
+}: {
+  report: IncrementalityReport;
+  policy: HoldoutPolicy | null;
+  currency: string;
+}) {
+  const confidencePercent = Math.round(report.confidenceLevel * 100);
+  const { incrementalConversionRate: rate, incrementalRevenue: revenue } = report;
+
+  const groupRow = (label: string, group: IncrementalityReport["holdout"]) => [
+    label,
+    group.visitors.toLocaleString(),
+    group.orders.toLocaleString(),
+    `${group.conversionRate.toFixed(2)}%`,
+    formatMoney(group.revenuePerVisitor, currency),
+  ];
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <Text as="h2" variant="headingMd">
+          Incrementality
+        </Text>
+        <Text as="p" tone="subdued">
+          {policy
+            ? `${policy.percentage}% of visitors are held out ${
+                policy.scope === "store" ? "by the store-wide holdout" : "of this campaign"
+              }. Intervals are ${confidencePercent}% confidence intervals.`
+            : `The holdout is no longer active. Intervals are ${confidencePercent}% confidence intervals.`}
+        </Text>
+
+        {!report.hasSufficientSample ? (
+          <Banner tone="info">
+            <p>Not enough visitors in both groups yet to measure incrementality reliably.</p>
+          </Banner>
+        ) : report.isSignificant ? (
+          <Banner tone="success">
+            <p>
+              {`The campaign changes the conversion rate by ${formatPoints(rate.value)} at ${confidencePercent}% confidence.`}
+            </p>
+          </Banner>
+        ) : (
+          <Banner tone="info">
+            <p>No significant difference between exposed and held-out visitors yet.</p>
+          </Banner>
+        )}
+
+        {report.hasArchivedEvents && (
+          <Banner tone="info">
+            <p>
+              Raw events from the start of this period were archived, so only visitors assigned
+              since {new Date(report.from).toLocaleDateString()} are compared.
+            </p>
+          </Banner>
+        )}
+
+        <DataTable
+          columnContentTypes={["text", "numeric", "numeric", "numeric", "numeric"]}
+          headings={["Group", "Visitors", "Orders", "Conv. Rate", "Revenue / Visitor"]}
+          rows={[groupRow("Exposed", report.exposed), groupRow("Holdout", report.holdout)]}
+        />
+
+        <InlineGrid columns={{ xs: 1, sm: 3 }} gap="400">
+          <BlockStack gap="100">
+            <Text as="h3" variant="headingSm" tone="subdued">
+              Incremental Conversion Rate
+            </Text>
+            <Text as="p" variant="headingLg">
+              {formatPoints(rate.value)}
+            </Text>
+            <Text as="span" tone="subdued">
+              {`${formatPoints(rate.lower)} to ${formatPoints(rate.upper)} · p = ${formatPValue(report.conversionPValue)}`}
+            </Text>
+          </BlockStack>
+          <BlockStack gap="100">
+            <Text as="h3" variant="headingSm" tone="subdued">
+              Incremental Revenue
+            </Text>
+            <Text as="p" variant="headingLg">
+              {formatMoney(revenue.value, currency)}
+            </Text>
+            <Text as="span" tone="subdued">
+              {`${formatMoney(revenue.lower, currency)} to ${formatMoney(revenue.upper, currency)} · p = ${formatPValue(report.revenuePValue)}`}
+            </Text>
+          </BlockStack>
+          <BlockStack gap="100">
+            <Text as="h3" variant="headingSm" tone="subdued">
+              Relative Lift
+            </Text>
+            <Text as="p" variant="headingLg">
+              {report.relativeLift != null
+                ? `${report.relativeLift > 0 ? "+" : ""}${report.relativeLift.toFixed(1)}%`
+                : "-"}
+            </Text>
+            <Text as="span" tone="subdued">
+              {`${Math.round(report.incrementalConversions.value).toLocaleString()} incremental buyers`}
+            </Text>
+          </BlockStack>
+        </InlineGrid>
+      </BlockStack>
+    </Card>
+  );
+}
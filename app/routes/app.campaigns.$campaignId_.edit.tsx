@@ -286,11 +286,13 @@ function campaignToCampaignData(
         mode: "include" as const,
         countries: [],
       },
+      holdout: campaign.targetRules?.holdout,
     },
     frequencyConfig,
     scheduleConfig: {
       startDate: campaign.startDate ? campaign.startDate.toISOString() : undefined,
       endDate: campaign.endDate ? campaign.endDate.toISOString() : undefined,
+      dayparting: campaign.targetRules?.dayparting,
     },
   };
 }
@@ -407,6 +409,8 @@ export default function CampaignEditPage() {
             audienceTargeting: campaignData.targetingConfig?.audienceTargeting,
             geoTargeting: campaignData.targetingConfig?.geoTargeting,
             pageTargeting: campaignData.targetingConfig?.pageTargeting,
+            holdout: campaignData.targetingConfig?.holdout,
+            dayparting: campaignData.scheduleConfig?.dayparting,
           },
           discountConfig: campaignData.discountConfig,
           startDate: campaignData.scheduleConfig?.startDate,
@@ -471,6 +475,8 @@ export default function CampaignEditPage() {
             audienceTargeting: campaignData.targetingConfig?.audienceTargeting,
             geoTargeting: campaignData.targetingConfig?.geoTargeting,
             pageTargeting: campaignData.targetingConfig?.pageTargeting,
+            holdout: campaignData.targetingConfig?.holdout,
+            dayparting: campaignData.scheduleConfig?.dayparting,
           },
           discountConfig: campaignData.discountConfig,
           startDate: campaignData.scheduleConfig?.startDate,
@@ -144,8 +144,11 @@ export async function action({ request }: ActionFunctionArgs) {
         contentConfig: rawData.contentConfig,
         designConfig,
         discountConfig: rawData.discountConfig,
-        // Target rules from targeting config (rename for API)
-        targetRules: rawData.targetingConfig,
+        // Target rules from targeting config (rename for API), plus schedule dayparting
+        targetRules: {
+          ...rawData.targetingConfig,
+          dayparting: rawData.scheduleConfig?.dayparting,
+        },
         // Dates from schedule config
         startDate: rawData.scheduleConfig?.startDate,
         endDate: rawData.scheduleConfig?.endDate,
@@ -280,7 +283,10 @@ export async function action({ request }: ActionFunctionArgs) {
           contentConfig: campaignData.contentConfig,
           designConfig,
           discountConfig: campaignData.discountConfig,
-          targetRules: campaignData.targetingConfig,
+          targetRules: {
+            ...campaignData.targetingConfig,
+            dayparting: campaignData.scheduleConfig?.dayparting,
+          },
           startDate: campaignData.scheduleConfig?.startDate,
           endDate: campaignData.scheduleConfig?.endDate,
           // Link to experiment
@@ -8,16 +8,25 @@ import {
   InlineGrid,
   Box,
   DataTable,
+  Badge,
+  Banner,
+  InlineStack,
 } from "@shopify/polaris";
 import { PolarisVizProvider, BarChart } from "@shopify/polaris-viz";
 import "@shopify/polaris-viz/build/esm/styles.css";
 import { authenticate } from "~/shopify.server";
 import { CampaignAnalyticsService } from "~/domains/campaigns/services/campaign-analytics.server";
-import { ExperimentService } from "~/domains/campaigns";
+import { BanditAllocationService, ExperimentService } from "~/domains/campaigns";
 import { getStoreId } from "~/lib/auth-helpers.server";
-import { PopupEventService } from "~/domains/analytics/popup-events.server";
+import {
+  getVariantPerformance,
+  type VariantComparison,
+} from "~/domains/analytics/experiment-analytics.server";
+import { getPrimaryMetricLabel, isRevenueMetric } from "~/domains/analytics/experiment-statistics";
 import { getStoreCurrency } from "~/lib/currency.server";
 import { logger } from "~/lib/logger.server";
+import { FunnelCard } from "~/domains/analytics/components/FunnelCard";
+import { ExportDataCard } from "~/domains/analytics/components/ExportDataCard";
 
 // Helper for currency formatting
 const formatMoney = (amount: number, currency: string = "USD") => {
@@ -34,7 +43,16 @@ interface DailyMetric {
   revenue: number;
 }
 
+interface AllocationHistoryEntry {
+  id: string;
+  algorithm: string;
+  weights: Record<string, number>;
+  impressions: Record<string, number>;
+  createdAt: string;
+}
+
 interface LoaderData {
+  experimentId: string;
   experimentName: string;
   summary: {
     impressions: number;
@@ -45,6 +63,8 @@ interface LoaderData {
     aov: number;
   };
   dailyMetrics: DailyMetric[];
+  statistics: VariantComparison | null;
+  allocationHistory: AllocationHistoryEntry[];
   currency: string;
 }
 
@@ -73,6 +93,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
   if (variantIds.length === 0) {
     const currency = await getStoreCurrency(admin);
     return data<LoaderData>({
+      experimentId,
       experimentName: experiment.name,
       summary: {
         impressions: 0,
@@ -83,16 +104,26 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
         aov: 0,
       },
       dailyMetrics: [],
+      statistics: null,
+      allocationHistory: [],
       currency,
     });
   }
 
   // Fetch aggregated stats
-  const [dailyMetrics, revenueMap, impressionCounts, leadCounts, currency] = await Promise.all([
+  const [
+    dailyMetrics,
+    revenueMap,
+    statsMap,
+    statistics,
+    allocationSnapshots,
+    currency,
+  ] = await Promise.all([
     CampaignAnalyticsService.getDailyMetrics(variantIds, 30),
     CampaignAnalyticsService.getRevenueBreakdownByCampaignIds(variantIds),
-    PopupEventService.getImpressionCountsByCampaign(variantIds),
-    CampaignAnalyticsService.getLeadCounts(variantIds),
+    CampaignAnalyticsService.getCampaignStats(variantIds),
+    getVariantPerformance(experimentId, storeId),
+    BanditAllocationService.getAllocationHistory(experimentId, storeId),
     getStoreCurrency(admin),
   ]);
 
@@ -105,15 +136,17 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
   });
 
   let totalImpressions = 0;
-  impressionCounts.forEach((count) => (totalImpressions += count));
-
   let totalLeads = 0;
-  leadCounts.forEach((count) => (totalLeads += count));
+  statsMap.forEach((stats) => {
+    totalImpressions += stats.impressions;
+    totalLeads += stats.leadCount;
+  });
 
   const conversionRate = totalImpressions > 0 ? (totalLeads / totalImpressions) * 100 : 0;
   const aov = totalOrders > 0 ? totalRevenue / totalOrders : 0;
 
   return data<LoaderData>({
+    experimentId,
     experimentName: experiment.name,
     summary: {
       impressions: totalImpressions,
@@ -124,12 +157,25 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
       aov,
     },
     dailyMetrics,
+    statistics,
+    allocationHistory: allocationSnapshots.map((snapshot) => ({
+      ...snapshot,
+      createdAt: snapshot.createdAt.toISOString(),
+    })),
     currency,
   });
 }
 
 export default function ExperimentAnalyticsPage() {
-  const { experimentName, summary, dailyMetrics, currency } = useLoaderData<typeof loader>();
+  const {
+    experimentId,
+    experimentName,
+    summary,
+    dailyMetrics,
+    statistics,
+    allocationHistory,
+    currency,
+  } = useLoaderData<typeof loader>();
 
   return (
     <Page
@@ -181,6 +227,20 @@ export default function ExperimentAnalyticsPage() {
           </Card>
         </InlineGrid>
 
+        {/* Variant Statistics */}
+        {statistics && statistics.variants.length > 0 && (
+          <VariantStatisticsCard statistics={statistics} currency={currency} />
+        )}
+
+        {/* Funnel per Variant */}
+        <FunnelCard experimentId={experimentId} />
+
+        {/* Raw Data Export */}
+        <ExportDataCard experimentId={experimentId} />
+
+        {/* Bandit Allocation History */}
+        {allocationHistory.length > 0 && <AllocationHistoryCard history={allocationHistory} />}
+
         {/* Daily Revenue Chart */}
         <Card>
           <Box padding="400">
@@ -242,3 +302,183 @@ export default function ExperimentAnalyticsPage() {
     </Page>
   );
 }
+
+// ============================================================================
+// VARIANT STATISTICS
+// ============================================================================
+
+const formatPercent = (value: number) => `${value.toFixed(2)}%`;
+
+const formatPValue = (value: number) => (value < 0.001 ? "< 0.001" : value.toFixed(3));
+
+function VariantStatisticsCard({
+  statistics,
+  currency,
+}: {
+  statistics: VariantComparison;
+  currency: string;
+}) {
+  const confidencePercent = Math.round(statistics.confidenceLevel * 100);
+  const metricLabel = getPrimaryMetricLabel(statistics.primaryMetric);
+  const formatPrimary = (value: number) =>
+    isRevenueMetric(statistics.primaryMetric) ? formatMoney(value, currency) : formatPercent(value);
+
+  const rows = statistics.variants.map((variant) => {
+    const comparison = statistics.comparisons.find((c) => c.variantKey === variant.variantKey);
+
+    return [
+      <InlineStack gap="200" key={variant.variantKey}>
+        <Text as="span" fontWeight={variant.isControl ? "semibold" : "regular"}>
+          {variant.variantKey}
+        </Text>
+        {variant.variantKey === statistics.controlKey && <Badge tone="info">Control</Badge>}
+        {statistics.winner === variant.variantKey && <Badge tone="success">Winner</Badge>}
+      </InlineStack>,
+      formatPrimary(variant.primaryMetricValue),
+      `${formatPercent(variant.conversionRate)} (${formatPercent(
+        variant.conversionRateInterval.lower
+      )} – ${formatPercent(variant.conversionRateInterval.upper)})`,
+      `${formatMoney(variant.revenuePerVisitor, currency)} (${formatMoney(
+        variant.revenuePerVisitorInterval.lower,
+        currency
+      )} – ${formatMoney(variant.revenuePerVisitorInterval.upper, currency)})`,
+      `${formatMoney(variant.averageOrderValue, currency)} (${formatMoney(
+        variant.averageOrderValueInterval.lower,
+        currency
+      )} – ${formatMoney(variant.averageOrderValueInterval.upper, currency)})`,
+      formatPercent(variant.probabilityToBeBest * 100),
+      comparison?.lift != null
+        ? `${comparison.lift > 0 ? "+" : ""}${comparison.lift.toFixed(1)}%`
+        : "-",
+      comparison
+        ? comparison.hasSufficientSample
+          ? formatPValue(comparison.adjustedPValue)
+          : "Not enough data"
+        : "-",
+    ];
+  });
+
+  return (
+    <Card>
+      <Box padding="400">
+        <BlockStack gap="400">
+          <Text as="h3" variant="headingMd">
+            Variant Statistics
+          </Text>
+          <Text as="p" tone="subdued">
+            {`Primary metric: ${metricLabel}. Intervals are ${confidencePercent}% confidence intervals; p-values are Holm-Bonferroni adjusted for multiple comparisons against the control.`}
+          </Text>
+
+          {statistics.winner ? (
+            <Banner tone="success">
+              <p>
+                {`Variant ${statistics.winner} is the winner on ${metricLabel.toLowerCase()} at ${confidencePercent}% confidence.`}
+              </p>
+            </Banner>
+          ) : (
+            <Banner tone="info">
+              <p>
+                No variant is significantly different from the control yet. Keep the test running.
+              </p>
+            </Banner>
+          )}
+
+          <DataTable
+            columnContentTypes={[
+              "text",
+              "numeric",
+              "text",
+              "text",
+              "text",
+              "numeric",
+              "numeric",
+              "numeric",
+            ]}
+            headings={[
+              "Variant",
+              metricLabel,
+              "Conv. Rate (CI)",
+              "Revenue / Visitor (CI)",
+              "AOV (CI)",
+              "Prob. to Be Best",
+              "Lift vs Control",
+              "Adj. p-value",
+            ]}
+            rows={rows}
+          />
+        </BlockStack>
+      </Box>
+    </Card>
+  );
+}
+
+// ============================================================================
+// ALLOCATION HISTORY
+// ============================================================================
+
+const ALGORITHM_LABELS: Record<string, string> = {
+  thompson_sampling: "Thompson sampling",
+  epsilon_greedy: "Epsilon-greedy",
+};
+
+function AllocationHistoryCard({ history }: { history: AllocationHistoryEntry[] }) {
+  const variantKeys = Array.from(
+    new Set(history.flatMap((entry) => Object.keys(entry.weights)))
+  ).sort();
+  const latest = history[history.length - 1];
+
+  const rows = [...history].reverse().map((entry) => [
+    new Date(entry.createdAt).toLocaleString(),
+    ...variantKeys.map((key) =>
+      entry.weights[key] != null
+        ? `${formatPercent(entry.weights[key])} (${(entry.impressions[key] ?? 0).toLocaleString()} views)`
+        : "-"
+    ),
+  ]);
+
+  return (
+    <Card>
+      <Box padding="400">
+        <BlockStack gap="400">
+          <Text as="h3" variant="headingMd">
+            Traffic Allocation History
+          </Text>
+          <Text as="p" tone="subdued">
+            {`${ALGORITHM_LABELS[latest.algorithm] ?? latest.algorithm} shifts new visitors toward better-performing variants. Visitors who already saw a variant keep seeing it.`}
+          </Text>
+
+          <PolarisVizProvider>
+            <div style={{ height: "250px" }}>
+              <BarChart
+                type="stacked"
+                data={variantKeys.map((key) => ({
+                  name: `Variant ${key}`,
+                  data: history.map((entry) => ({
+                    key: entry.createdAt,
+                    value: entry.weights[key] ?? 0,
+                  })),
+                }))}
+                xAxisOptions={{
+                  labelFormatter: (value) => {
+                    if (value === null || value === undefined) return "";
+                    const date = new Date(value);
+                    return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+                  },
+                }}
+                yAxisOptions={{
+                  labelFormatter: (value) => `${Number(value)}%`,
+                }}
+              />
+            </div>
+          </PolarisVizProvider>
+
+          <DataTable
+            columnContentTypes={["text", ...variantKeys.map(() => "numeric" as const)]}
+            headings={["Computed At", ...variantKeys.map((key) => `Variant ${key}`)]}
+            rows={rows}
+          />
+        </BlockStack>
+      </Box>
+    </Card>
+  );
+}
@@ -27,7 +27,7 @@ import { useState, useCallback } from "react";
 import { authenticate } from "~/shopify.server";
 import { getStoreId } from "~/lib/auth-helpers.server";
 import { ExperimentService } from "~/domains/campaigns";
-import type { ExperimentWithVariants } from "~/domains/campaigns";
+import type { ExperimentWithVariants, SequentialAnalysis } from "~/domains/campaigns";
 import { logger } from "~/lib/logger.server";
 import { apiClient, getErrorMessage } from "~/lib/api-client";
 import {
@@ -44,6 +44,7 @@ interface LoaderData {
   experiment: ExperimentWithVariants | null;
   storeId: string;
   analytics: VariantComparison | null;
+  sequential: SequentialAnalysis | null;
   currency: string;
 }
 
@@ -71,6 +72,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
 
     // Get analytics if experiment exists
     let analytics: VariantComparison | null = null;
+    let sequential: SequentialAnalysis | null = null;
     let currency = "USD";
 
     if (experiment) {
@@ -78,12 +80,18 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
         getVariantPerformance(experimentId, storeId),
         getStoreCurrency(admin),
       ]);
+
+      // Sequential monitoring status for experiments that opted in
+      if (experiment.statisticalConfig.sequentialTesting && experiment.status === "RUNNING") {
+        sequential = await ExperimentService.getSequentialAnalysis(experimentId, storeId);
+      }
     }
 
     return data<LoaderData>({
       experiment,
       storeId,
       analytics,
+      sequential,
       currency,
     });
   } catch (error) {
@@ -94,6 +102,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
         experiment: null,
         storeId: "",
         analytics: null,
+        sequential: null,
         currency: "USD",
       },
       { status: 404 }
@@ -106,7 +115,7 @@ export async function loader({ request, params }: LoaderFunctionArgs) {
 // ============================================================================
 
 export default function ExperimentDetailPage() {
-  const { experiment, analytics, currency } = useLoaderData<typeof loader>();
+  const { experiment, analytics, sequential, currency } = useLoaderData<typeof loader>();
   const navigate = useNavigate();
   const revalidator = useRevalidator();
   const location = useLocation();
@@ -258,6 +267,24 @@ export default function ExperimentDetailPage() {
   // Overview Tab Content
   const overviewContent = (
     <BlockStack gap="400">
+      {/* Conclusion Banner */}
+      {experiment.conclusion === "NO_DETECTABLE_DIFFERENCE" && (
+        <Banner tone="warning" title="No detectable difference">
+          <p>
+            This experiment reached its planned sample size without a significant difference
+            between variants. You can keep the control or declare any variant as the winner.
+          </p>
+        </Banner>
+      )}
+
+      {experiment.conclusion === "WINNER_DECLARED" && experiment.winnerDeclaredAt && (
+        <Banner tone="success">
+          <p>
+            {`A winner was declared on ${new Date(experiment.winnerDeclaredAt).toLocaleDateString()}.`}
+          </p>
+        </Banner>
+      )}
+
       {/* Status Banner */}
       {!isExperimentActive && experiment.variants.length > 0 && (
         <Banner tone="info">
@@ -361,7 +388,11 @@ export default function ExperimentDetailPage() {
 
               {analytics.isSignificant && (
                 <Banner tone="success">
-                  <p>Statistical significance detected (p &lt; 0.05). Results are reliable!</p>
+                  <p>
+                    {`Statistical significance detected at ${Math.round(
+                      analytics.confidenceLevel * 100
+                    )}% confidence (adjusted p = ${analytics.pValue?.toFixed(3) ?? "-"}). Results are reliable!`}
+                  </p>
                 </Banner>
               )}
 
@@ -439,6 +470,50 @@ export default function ExperimentDetailPage() {
     </BlockStack>
   );
 
+  // Sequential monitoring card (shown in Metrics tab)
+  const sequentialContent = sequential ? (
+    <Card>
+      <Box padding="400">
+        <BlockStack gap="400">
+          <InlineStack align="space-between" blockAlign="center">
+            <Text as="h2" variant="headingMd">
+              Sequential Monitoring
+            </Text>
+            <Badge tone={sequential.autoStop ? "success" : "info"}>
+              {sequential.autoStop ? "Auto-stop on" : "Auto-stop off"}
+            </Badge>
+          </InlineStack>
+          <Divider />
+          <Text as="p" tone="subdued">
+            {`${
+              sequential.method === "alpha_spending"
+                ? "O'Brien-Fleming alpha-spending boundary"
+                : "Always-valid p-values"
+            } — results can be checked at any time without inflating false positives. ${Math.round(
+              sequential.informationFraction * 100
+            )}% of the planned ${sequential.plannedSampleSize.toLocaleString()} visitors per variant collected.`}
+          </Text>
+          <DataTable
+            columnContentTypes={["text", "numeric", "numeric", "text"]}
+            headings={["Variant", "p-value", "Boundary (|z|)", "Status"]}
+            rows={sequential.comparisons.map((comparison) => [
+              comparison.variantKey,
+              comparison.pValue < 0.001 ? "< 0.001" : comparison.pValue.toFixed(3),
+              comparison.criticalValue !== null && Number.isFinite(comparison.criticalValue)
+                ? comparison.criticalValue.toFixed(2)
+                : "-",
+              comparison.boundaryCrossed
+                ? comparison.isBetterThanControl
+                  ? "Better than control"
+                  : "Worse than control"
+                : "Keep running",
+            ])}
+          />
+        </BlockStack>
+      </Box>
+    </Card>
+  ) : null;
+
   // History Tab Content
   const historyContent = (
     <BlockStack gap="400">
@@ -505,7 +580,12 @@ export default function ExperimentDetailPage() {
           <Tabs tabs={tabs} selected={selectedTab} onSelect={handleTabChange}>
             <Box padding="400">
               {selectedTab === 0 && overviewContent}
-              {selectedTab === 1 && metricsContent}
+              {selectedTab === 1 && (
+                <BlockStack gap="400">
+                  {metricsContent}
+                  {sequentialContent}
+                </BlockStack>
+              )}
               {selectedTab === 2 && historyContent}
             </Box>
           </Tabs>
@@ -209,6 +209,7 @@ function campaignToCampaignData(campaign: CampaignWithConfigs): CampaignData {
       priority: campaign.priority,
       startDate: campaign.startDate?.toISOString(),
       endDate: campaign.endDate?.toISOString(),
+      dayparting: campaign.targetRules?.dayparting,
     },
   };
 }
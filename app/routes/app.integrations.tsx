@@ -0,0 +1,189 @@
+/**
+ * Integrations Page
+ *
+ * Connects the store's email service providers (Klaviyo, Mailchimp, Omnisend)
+ * so captured leads are pushed with their campaign context, and shows each
+ * lead's delivery status. Deliveries run in POST /api/internal/integrations/sync.
+ */
+
+import { useEffect } from "react";
+import {
+  data,
+  useLoaderData,
+  useNavigation,
+  useSearchParams,
+  useSubmit,
+  useActionData,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+} from "react-router";
+import { BlockStack, Layout, Page } from "@shopify/polaris";
+import prisma from "~/db.server";
+import { getStoreId } from "~/lib/auth-helpers.server";
+import { ServiceError } from "~/lib/errors.server";
+import { logger } from "~/lib/logger.server";
+import { EspSyncService } from "~/domains/integrations/services/esp-sync.server";
+import { EspIntegrationCard } from "~/domains/integrations/components/EspIntegrationCard";
+import { EspSyncLogCard } from "~/domains/integrations/components/EspSyncLogCard";
+import {
+  ESP_PROVIDERS,
+  ESP_SYNC_STATUSES,
+  type EspIntegrationInput,
+  type EspProvider,
+  type EspSyncStatus,
+} from "~/domains/integrations/types";
+
+const isSyncStatus = (value: string | null): value is EspSyncStatus =>
+  ESP_SYNC_STATUSES.includes(value as EspSyncStatus);
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const storeId = await getStoreId(request);
+  const status = new URL(request.url).searchParams.get("status");
+
+  const [integrations, campaigns, syncLog] = await Promise.all([
+    EspSyncService.getIntegrations(storeId),
+    prisma.campaign.findMany({
+      where: { storeId, status: { not: "ARCHIVED" } },
+      select: { id: true, name: true },
+      orderBy: { name: "asc" },
+    }),
+    EspSyncService.getSyncLog(storeId, { status: isSyncStatus(status) ? status : undefined }),
+  ]);
+
+  return { integrations, campaigns, syncLog };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const storeId = await getStoreId(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "save") {
+    let input: unknown;
+    try {
+      input = JSON.parse(String(formData.get("integration")));
+    } catch {
+      return data({ success: false, error: "Invalid integration payload" }, { status: 400 });
+    }
+
+    try {
+      await EspSyncService.saveIntegration(storeId, input);
+      return { success: true, message: "Integration saved" };
+    } catch (error) {
+      logger.warn({ error, storeId }, "[Integrations] Failed to save integration");
+      const message = error instanceof ServiceError ? error.message : "Failed to save integration";
+      return data({ success: false, error: message }, { status: 400 });
+    }
+  }
+
+  if (intent === "remove") {
+    const provider = formData.get("provider");
+    if (!ESP_PROVIDERS.includes(provider as EspProvider)) {
+      return data({ success: false, error: "Unknown provider" }, { status: 400 });
+    }
+
+    await EspSyncService.removeIntegration(storeId, provider as EspProvider);
+    return { success: true, message: "Integration disconnected" };
+  }
+
+  if (intent === "retry") {
+    const jobId = formData.get("jobId");
+    if (typeof jobId !== "string" || !jobId) {
+      return data({ success: false, error: "Job ID is required" }, { status: 400 });
+    }
+
+    const queued = await EspSyncService.retryJob(storeId, jobId);
+    return queued
+      ? { success: true, message: "Lead queued for another delivery" }
+      : data({ success: false, error: "Only failed deliveries can be retried" }, { status: 400 });
+  }
+
+  return data({ success: false, error: "Invalid action" }, { status: 400 });
+};
+
+export default function IntegrationsPage() {
+  const { integrations, campaigns, syncLog } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const pendingIntent =
+    navigation.state === "submitting" ? navigation.formData?.get("intent") : null;
+  const pendingProvider = pendingIntent ? navigation.formData?.get("provider") : null;
+  const retryingJobId =
+    pendingIntent === "retry" ? String(navigation.formData?.get("jobId")) : null;
+
+  const statusParam = searchParams.get("status");
+  const status = isSyncStatus(statusParam) ? statusParam : "all";
+
+  useEffect(() => {
+    if (!actionData) return;
+
+    if ("error" in actionData && actionData.error) {
+      shopify.toast.show(actionData.error, { isError: true });
+    } else if ("message" in actionData && actionData.message) {
+      shopify.toast.show(actionData.message);
+    }
+  }, [actionData]);
+
+  const handleSave = (input: EspIntegrationInput) => {
+    submit(
+      { intent: "save", provider: input.provider, integration: JSON.stringify(input) },
+      { method: "post" }
+    );
+  };
+
+  const handleRemove = (provider: EspProvider) => {
+    submit({ intent: "remove", provider }, { method: "post" });
+  };
+
+  const handleRetry = (jobId: string) => {
+    submit({ intent: "retry", jobId }, { method: "post" });
+  };
+
+  const handleStatusChange = (value: EspSyncStatus | "all") => {
+    setSearchParams(value === "all" ? {} : { status: value });
+  };
+
+  return (
+    <Page
+      title="Integrations"
+      subtitle="Send captured leads straight to your email marketing platform"
+      backAction={{ content: "Dashboard", url: "/app" }}
+    >
+      <Layout>
+        <Layout.Section>
+          <BlockStack gap="400">
+            {ESP_PROVIDERS.map((provider) => {
+              const integration =
+                integrations.find((candidate) => candidate.provider === provider) ?? null;
+              return (
+                <EspIntegrationCard
+                  // Remount once connected, so the form picks up the stored settings
+                  key={`${provider}-${integration?.id ?? "new"}`}
+                  provider={provider}
+                  integration={integration}
+                  campaigns={campaigns}
+                  saving={pendingProvider === provider}
+                  onSave={handleSave}
+                  onRemove={() => handleRemove(provider)}
+                />
+              );
+            })}
+          </BlockStack>
+        </Layout.Section>
+
+        <Layout.Section>
+          <EspSyncLogCard
+            entries={syncLog}
+            status={status}
+            retryingJobId={retryingJobId}
+            onStatusChange={handleStatusChange}
+            onRetry={handleRetry}
+          />
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,218 @@
+/**
+ * Leads Page
+ *
+ * Browse the leads captured by the store's campaigns: search by email or
+ * name, filter by campaign, consent, signup date and discount code use, and
+ * open a lead for its popup events, source and attributed orders. Selected
+ * leads can be exported, re-synced to Shopify and the ESPs, or deleted for
+ * GDPR requests.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  data,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+  useSearchParams,
+  useSubmit,
+  type ActionFunctionArgs,
+  type LoaderFunctionArgs,
+} from "react-router";
+import { Layout, Page } from "@shopify/polaris";
+import prisma from "~/db.server";
+import { authenticate } from "~/shopify.server";
+import { getStoreId } from "~/lib/auth-helpers.server";
+import { getStoreCurrency } from "~/lib/currency.server";
+import { ServiceError } from "~/lib/errors.server";
+import { logger } from "~/lib/logger.server";
+import { EXPORT_COLUMNS, getExportFilename } from "~/domains/analytics/data-export";
+import { LeadManagementService } from "~/domains/leads/services/lead-management.server";
+import { LeadIndexTable, type LeadBulkAction } from "~/domains/leads/components/LeadIndexTable";
+import { LeadDetailModal } from "~/domains/leads/components/LeadDetailModal";
+import { LeadFiltersSchema, type LeadFilters } from "~/domains/leads/types";
+
+function parseFilters(searchParams: URLSearchParams): LeadFilters {
+  const parsed = LeadFiltersSchema.safeParse(
+    Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ""))
+  );
+  return parsed.success ? parsed.data : LeadFiltersSchema.parse({});
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin } = await authenticate.admin(request);
+  const storeId = await getStoreId(request);
+  const searchParams = new URL(request.url).searchParams;
+  const filters = parseFilters(searchParams);
+  const leadId = searchParams.get("lead");
+
+  const [page, campaigns, selectedLead, currency] = await Promise.all([
+    LeadManagementService.listLeads(storeId, filters),
+    prisma.campaign.findMany({
+      where: { storeId },
+      select: { id: true, name: true },
+      orderBy: { name: "asc" },
+    }),
+    leadId ? LeadManagementService.getLead(storeId, leadId) : Promise.resolve(null),
+    leadId ? getStoreCurrency(admin) : Promise.resolve("USD"),
+  ]);
+
+  return { ...page, filters, campaigns, selectedLead, currency };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin } = await authenticate.admin(request);
+  const storeId = await getStoreId(request);
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  let leadIds: unknown;
+  try {
+    leadIds = JSON.parse(String(formData.get("leadIds")));
+  } catch {
+    return data({ success: false, error: "Invalid lead selection" }, { status: 400 });
+  }
+
+  try {
+    if (intent === "resync") {
+      const result = await LeadManagementService.resyncLeads(storeId, leadIds, admin);
+      const failed = result.shopifyFailed > 0 ? ` (${result.shopifyFailed} failed)` : "";
+      return {
+        success: true,
+        message: `${result.shopify} synced to Shopify${failed}, ${result.espJobs} email platform deliveries queued`,
+      };
+    }
+
+    if (intent === "delete") {
+      const deleted = await LeadManagementService.deleteLeads(storeId, leadIds);
+      return { success: true, message: `${deleted} lead${deleted === 1 ? "" : "s"} deleted` };
+    }
+  } catch (error) {
+    logger.warn({ error, storeId, intent }, "[Leads] Bulk action failed");
+    const message = error instanceof ServiceError ? error.message : "Bulk action failed";
+    return data({ success: false, error: message }, { status: 400 });
+  }
+
+  return data({ success: false, error: "Invalid action" }, { status: 400 });
+};
+
+export default function LeadsPage() {
+  const { leads, total, page, pageCount, filters, campaigns, selectedLead, currency } =
+    useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const [, setSearchParams] = useSearchParams();
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const pendingIntent =
+    navigation.state === "submitting" ? navigation.formData?.get("intent") : null;
+  const pendingAction: LeadBulkAction | null = exporting
+    ? "export"
+    : pendingIntent === "resync" || pendingIntent === "delete"
+      ? pendingIntent
+      : null;
+
+  useEffect(() => {
+    if (!actionData) return;
+
+    if ("error" in actionData && actionData.error) {
+      shopify.toast.show(actionData.error, { isError: true });
+    } else if ("message" in actionData && actionData.message) {
+      shopify.toast.show(actionData.message);
+    }
+  }, [actionData]);
+
+  const updateParams = useCallback(
+    (changes: Record<string, string | number | undefined>) => {
+      setSearchParams(
+        (params) => {
+          const next = new URLSearchParams(params);
+          for (const [key, value] of Object.entries(changes)) {
+            if (value === undefined || value === "" || value === "all") next.delete(key);
+            else next.set(key, String(value));
+          }
+          return next;
+        },
+        { preventScrollReset: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  const handleFiltersChange = useCallback(
+    (changes: Partial<LeadFilters>) => updateParams({ ...changes, page: undefined }),
+    [updateParams]
+  );
+
+  const formatMoney = (amount: number) =>
+    new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+
+  const handleExport = async (leadIds: string[]) => {
+    const params = new URLSearchParams({
+      format: "csv",
+      ids: leadIds.join(","),
+      columns: EXPORT_COLUMNS.leads.map((column) => column.key).join(","),
+    });
+
+    setExporting(true);
+    setExportError(null);
+    try {
+      const response = await fetch(`/api/export/leads?${params}`);
+      if (!response.ok) throw new Error(`Export failed (${response.status})`);
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = getExportFilename("leads", "csv");
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setExportError("The export could not be downloaded. Please try again.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleBulkAction = (action: LeadBulkAction, leadIds: string[]) => {
+    if (action === "export") {
+      void handleExport(leadIds);
+      return;
+    }
+    submit({ intent: action, leadIds: JSON.stringify(leadIds) }, { method: "post" });
+  };
+
+  return (
+    <Page
+      title="Leads"
+      subtitle="Everyone who signed up through your campaigns"
+      backAction={{ content: "Dashboard", url: "/app" }}
+    >
+      <Layout>
+        <Layout.Section>
+          <LeadIndexTable
+            leads={leads}
+            total={total}
+            page={page}
+            pageCount={pageCount}
+            filters={filters}
+            campaigns={campaigns}
+            pendingAction={pendingAction}
+            error={exportError}
+            onFiltersChange={handleFiltersChange}
+            onPageChange={(next) => updateParams({ page: next })}
+            onOpenLead={(leadId) => updateParams({ lead: leadId })}
+            onBulkAction={handleBulkAction}
+          />
+        </Layout.Section>
+      </Layout>
+
+      <LeadDetailModal
+        lead={selectedLead}
+        onClose={() => updateParams({ lead: undefined })}
+        formatMoney={formatMoney}
+      />
+    </Page>
+  );
+}
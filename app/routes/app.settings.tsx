@@ -1,5 +1,5 @@
 import { type LoaderFunctionArgs, type ActionFunctionArgs, data } from "react-router";
-import { useLoaderData, useSubmit, useActionData } from "react-router";
+import { useLoaderData, useSubmit, useActionData, useNavigation } from "react-router";
 import { useEffect } from "react";
 import {
   Page,
@@ -18,12 +18,28 @@ import prisma from "../db.server";
 import { PLAN_DEFINITIONS } from "../domains/billing/types/plan";
 import { PlanGuardService } from "../domains/billing/services/plan-guard.server";
 import { GlobalCappingSettings } from "../domains/store/components/GlobalCappingSettings";
+import { CampaignArbitrationSettings } from "../domains/store/components/CampaignArbitrationSettings";
+import { EventRetentionSettings } from "../domains/store/components/EventRetentionSettings";
+import { AttributionSettings } from "../domains/store/components/AttributionSettings";
+import { HoldoutSettings } from "../domains/store/components/HoldoutSettings";
+import { ScheduledReportSettings } from "../domains/store/components/ScheduledReportSettings";
+import { PerformanceAlertSettings } from "../domains/store/components/PerformanceAlertSettings";
+import { OutboundWebhooksCard } from "../domains/integrations/components/OutboundWebhooksCard";
+import { WebhookDeliveryLogCard } from "../domains/integrations/components/WebhookDeliveryLogCard";
+import { OutboundWebhookService } from "../domains/integrations/services/outbound-webhooks.server";
+import type { WebhookSubscriptionInput } from "../domains/integrations/outbound-webhooks";
+import { ApiKeysCard } from "../domains/public-api/components/ApiKeysCard";
+import { ApiKeyService } from "../domains/public-api/services/api-key.server";
+import type { ApiKeyInput } from "../domains/public-api/types";
 import { GlobalCSSSettings } from "../domains/store/components/GlobalCSSSettings";
 import { ThemePresetsSettings } from "../domains/store/components/ThemePresetsSettings";
 import { StoreSettingsSchema, type StoreSettings } from "../domains/store/types/settings";
 import { SetupStatus } from "../domains/setup/components/SetupStatus";
 import { getSetupStatus } from "../lib/setup-status.server";
 import { buildThemeEditorDeepLink } from "../lib/app-setup.server";
+import { getEnv } from "../lib/env.server";
+import { ServiceError } from "../lib/errors.server";
+import { ScheduledReportService } from "../domains/analytics/scheduled-reports.server";
 import { logger } from "~/lib/logger.server";
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session, admin } = await authenticate.admin(request);
@@ -61,6 +77,13 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     },
   });
 
+  // Campaigns selectable in exclusive arbitration groups
+  const campaigns = await prisma.campaign.findMany({
+    where: { storeId: store.id, status: { not: "ARCHIVED" } },
+    select: { id: true, name: true, status: true },
+    orderBy: [{ status: "asc" }, { name: "asc" }],
+  });
+
   // Calculate monthly impressions
   const now = new Date();
   const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
@@ -75,6 +98,12 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     },
   });
 
+  const [webhooks, webhookDeliveries, apiKeys] = await Promise.all([
+    OutboundWebhookService.getSubscriptions(store.id),
+    OutboundWebhookService.getDeliveryLog(store.id, { limit: 25 }),
+    ApiKeyService.listKeys(store.id),
+  ]);
+
   return {
     planContext,
     usage: {
@@ -83,10 +112,15 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       monthlyImpressions: monthlyImpressionsCount,
     },
     storeSettings: (store.settings as StoreSettings) || {},
+    campaigns,
     PLAN_DEFINITIONS,
     setupStatus,
     setupComplete,
     themeEditorUrl,
+    mailConfigured: Boolean(getEnv().MAIL_DRIVER),
+    webhooks,
+    webhookDeliveries,
+    apiKeys,
   };
 };
 
@@ -152,6 +186,138 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return data({ success: false, error: "Invalid settings payload" }, { status: 400 });
   }
 
+  // Send the last completed report period right away
+  if (actionType === "sendTestReport") {
+    const store = await prisma.store.findUnique({
+      where: { shopifyDomain: session.shop },
+      select: { id: true },
+    });
+    if (!store) {
+      return data({ success: false, error: "Store not found" }, { status: 404 });
+    }
+
+    try {
+      const result = await ScheduledReportService.sendTestReport(store.id);
+      return {
+        success: true,
+        message: `Report for ${result.period.from} to ${result.period.to} sent`,
+      };
+    } catch (error) {
+      logger.error({ error, storeId: store.id }, "[Settings] Failed to send test report");
+      const message = error instanceof ServiceError ? error.message : "Failed to send the report";
+      return data({ success: false, error: message }, { status: 400 });
+    }
+  }
+
+  // Outbound webhook endpoints, test events and replays
+  if (
+    actionType === "createWebhook" ||
+    actionType === "updateWebhook" ||
+    actionType === "deleteWebhook" ||
+    actionType === "sendTestWebhook" ||
+    actionType === "replayWebhookDelivery"
+  ) {
+    const store = await prisma.store.findUnique({
+      where: { shopifyDomain: session.shop },
+      select: { id: true },
+    });
+    if (!store) {
+      return data({ success: false, error: "Store not found" }, { status: 404 });
+    }
+
+    const subscriptionId = String(formData.get("subscriptionId") ?? "");
+    try {
+      if (actionType === "createWebhook" || actionType === "updateWebhook") {
+        let input: unknown;
+        try {
+          input = JSON.parse(String(formData.get("webhook") ?? ""));
+        } catch {
+          return data({ success: false, error: "Invalid webhook payload" }, { status: 400 });
+        }
+
+        if (actionType === "createWebhook") {
+          await OutboundWebhookService.createSubscription(store.id, input);
+          return { success: true, message: "Webhook endpoint added" };
+        }
+        await OutboundWebhookService.updateSubscription(store.id, subscriptionId, input);
+        return { success: true, message: "Webhook endpoint updated" };
+      }
+
+      if (actionType === "deleteWebhook") {
+        await OutboundWebhookService.deleteSubscription(store.id, subscriptionId);
+        return { success: true, message: "Webhook endpoint deleted" };
+      }
+
+      const result =
+        actionType === "sendTestWebhook"
+          ? await OutboundWebhookService.sendTestEvent(store.id, subscriptionId)
+          : await OutboundWebhookService.replayDelivery(
+              store.id,
+              String(formData.get("deliveryId") ?? "")
+            );
+      if (!result.delivered) {
+        return data(
+          { success: false, error: `Delivery failed (${result.error})` },
+          { status: 400 }
+        );
+      }
+      return { success: true, message: `Delivered (HTTP ${result.responseStatus})` };
+    } catch (error) {
+      logger.error({ error, storeId: store.id, actionType }, "[Settings] Webhook action failed");
+      const message = error instanceof ServiceError ? error.message : "Webhook action failed";
+      return data({ success: false, error: message }, { status: 400 });
+    }
+  }
+
+  // Public API keys; the key itself is only returned on creation and rotation
+  if (
+    actionType === "createApiKey" ||
+    actionType === "rotateApiKey" ||
+    actionType === "revokeApiKey"
+  ) {
+    const store = await prisma.store.findUnique({
+      where: { shopifyDomain: session.shop },
+      select: { id: true },
+    });
+    if (!store) {
+      return data({ success: false, error: "Store not found" }, { status: 404 });
+    }
+
+    const keyId = String(formData.get("keyId") ?? "");
+    try {
+      if (actionType === "revokeApiKey") {
+        await ApiKeyService.revokeKey(store.id, keyId);
+        return { success: true, message: "API key revoked" };
+      }
+
+      if (actionType === "rotateApiKey") {
+        const { apiKey, secret } = await ApiKeyService.rotateKey(store.id, keyId);
+        return {
+          success: true,
+          message: "API key rotated",
+          issuedKey: { name: apiKey.name, secret },
+        };
+      }
+
+      let input: unknown;
+      try {
+        input = JSON.parse(String(formData.get("apiKey") ?? ""));
+      } catch {
+        return data({ success: false, error: "Invalid API key payload" }, { status: 400 });
+      }
+      const { apiKey, secret } = await ApiKeyService.createKey(store.id, input);
+      return {
+        success: true,
+        message: "API key created",
+        issuedKey: { name: apiKey.name, secret },
+      };
+    } catch (error) {
+      logger.error({ error, storeId: store.id, actionType }, "[Settings] API key action failed");
+      const message = error instanceof ServiceError ? error.message : "API key action failed";
+      return data({ success: false, error: message }, { status: 400 });
+    }
+  }
+
   return data({ error: "Invalid action" }, { status: 400 });
 };
 
@@ -160,13 +326,45 @@ export default function SettingsPage() {
     planContext,
     usage,
     storeSettings,
+    campaigns,
     PLAN_DEFINITIONS,
     setupStatus,
     setupComplete,
     themeEditorUrl,
+    mailConfigured,
+    webhooks,
+    webhookDeliveries,
+    apiKeys,
   } = useLoaderData<typeof loader>();
   const submit = useSubmit();
   const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const sendingTestReport =
+    navigation.state === "submitting" &&
+    navigation.formData?.get("actionType") === "sendTestReport";
+
+  const submittingAction =
+    navigation.state === "submitting" ? navigation.formData?.get("actionType") : null;
+  const pendingWebhookId =
+    submittingAction === "createWebhook"
+      ? "new"
+      : submittingAction === "updateWebhook" ||
+          submittingAction === "deleteWebhook" ||
+          submittingAction === "sendTestWebhook"
+        ? String(navigation.formData?.get("subscriptionId"))
+        : null;
+  const pendingApiKeyId =
+    submittingAction === "createApiKey"
+      ? "new"
+      : submittingAction === "rotateApiKey" || submittingAction === "revokeApiKey"
+        ? String(navigation.formData?.get("keyId"))
+        : null;
+  const issuedApiKey =
+    actionData && "issuedKey" in actionData && actionData.issuedKey ? actionData.issuedKey : null;
+  const replayingDeliveryId =
+    submittingAction === "replayWebhookDelivery"
+      ? String(navigation.formData?.get("deliveryId"))
+      : null;
 
   const currentPlan = planContext.planTier;
   const currentDefinition = PLAN_DEFINITIONS[currentPlan];
@@ -178,13 +376,44 @@ export default function SettingsPage() {
     submit(formData, { method: "post" });
   };
 
+  const handleSendTestReport = () => {
+    const formData = new FormData();
+    formData.append("actionType", "sendTestReport");
+    submit(formData, { method: "post" });
+  };
+
+  const submitWebhookAction = (
+    actionType: string,
+    fields: { subscriptionId?: string; deliveryId?: string; webhook?: WebhookSubscriptionInput }
+  ) => {
+    const formData = new FormData();
+    formData.append("actionType", actionType);
+    if (fields.subscriptionId) formData.append("subscriptionId", fields.subscriptionId);
+    if (fields.deliveryId) formData.append("deliveryId", fields.deliveryId);
+    if (fields.webhook) formData.append("webhook", JSON.stringify(fields.webhook));
+    submit(formData, { method: "post" });
+  };
+
+  const submitApiKeyAction = (
+    actionType: string,
+    fields: { keyId?: string; apiKey?: ApiKeyInput }
+  ) => {
+    const formData = new FormData();
+    formData.append("actionType", actionType);
+    if (fields.keyId) formData.append("keyId", fields.keyId);
+    if (fields.apiKey) formData.append("apiKey", JSON.stringify(fields.apiKey));
+    submit(formData, { method: "post" });
+  };
+
   useEffect(() => {
     if (!actionData) return;
 
     if ("error" in actionData) {
       shopify.toast.show(actionData.error, { isError: true });
     } else if ("success" in actionData) {
-      shopify.toast.show("Settings updated successfully");
+      shopify.toast.show(
+        ("message" in actionData && actionData.message) || "Settings updated successfully"
+      );
     }
   }, [actionData]);
 
@@ -313,6 +542,86 @@ export default function SettingsPage() {
             <GlobalCappingSettings settings={storeSettings} onChange={handleSettingsChange} />
           </Layout.Section>
 
+          <Layout.Section>
+            <CampaignArbitrationSettings
+              settings={storeSettings}
+              campaigns={campaigns}
+              onChange={handleSettingsChange}
+            />
+          </Layout.Section>
+
+          <Layout.Section>
+            <AttributionSettings settings={storeSettings} onChange={handleSettingsChange} />
+          </Layout.Section>
+
+          <Layout.Section>
+            <HoldoutSettings settings={storeSettings} onChange={handleSettingsChange} />
+          </Layout.Section>
+
+          <Layout.Section>
+            <ScheduledReportSettings
+              settings={storeSettings}
+              mailConfigured={mailConfigured}
+              sendingTest={sendingTestReport}
+              onChange={handleSettingsChange}
+              onSendTest={handleSendTestReport}
+            />
+          </Layout.Section>
+
+          <Layout.Section>
+            <PerformanceAlertSettings
+              settings={storeSettings}
+              mailConfigured={mailConfigured}
+              onChange={handleSettingsChange}
+            />
+          </Layout.Section>
+
+          <Layout.Section>
+            <OutboundWebhooksCard
+              subscriptions={webhooks}
+              pendingId={pendingWebhookId}
+              onCreate={(webhook) => submitWebhookAction("createWebhook", { webhook })}
+              onUpdate={(subscriptionId, webhook) =>
+                submitWebhookAction("updateWebhook", { subscriptionId, webhook })
+              }
+              onDelete={(subscriptionId) =>
+                submitWebhookAction("deleteWebhook", { subscriptionId })
+              }
+              onSendTest={(subscriptionId) =>
+                submitWebhookAction("sendTestWebhook", { subscriptionId })
+              }
+            />
+          </Layout.Section>
+
+          <Layout.Section>
+            <WebhookDeliveryLogCard
+              entries={webhookDeliveries}
+              replayingDeliveryId={replayingDeliveryId}
+              onReplay={(deliveryId) =>
+                submitWebhookAction("replayWebhookDelivery", { deliveryId })
+              }
+            />
+          </Layout.Section>
+
+          <Layout.Section>
+            <ApiKeysCard
+              apiKeys={apiKeys}
+              issuedKey={issuedApiKey}
+              pendingId={pendingApiKeyId}
+              onCreate={(apiKey) => submitApiKeyAction("createApiKey", { apiKey })}
+              onRotate={(keyId) => submitApiKeyAction("rotateApiKey", { keyId })}
+              onRevoke={(keyId) => submitApiKeyAction("revokeApiKey", { keyId })}
+            />
+          </Layout.Section>
+
+          <Layout.Section>
+            <EventRetentionSettings
+              settings={storeSettings}
+              planRetentionDays={currentDefinition.rawEventRetentionDays}
+              onChange={handleSettingsChange}
+            />
+          </Layout.Section>
+
           <Layout.Section>
             <GlobalCSSSettings settings={storeSettings} onChange={handleSettingsChange} />
           </Layout.Section>
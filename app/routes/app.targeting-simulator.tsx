@@ -0,0 +1,37 @@
+/**
+ * Targeting Simulator Page
+ *
+ * "Why didn't my popup show?" - runs a simulated visitor through every
+ * campaign targeting step. See POST /api/targeting/simulate.
+ */
+
+import type { LoaderFunctionArgs } from "react-router";
+import { useLoaderData } from "react-router";
+import { Layout, Page } from "@shopify/polaris";
+import { getStoreId } from "~/lib/auth-helpers.server";
+import { createDebugToken } from "~/lib/debug-token.server";
+import { TargetingSimulator } from "~/domains/targeting/components/TargetingSimulator";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const storeId = await getStoreId(request);
+  // Unlocks the storefront trace (?rb_debug=<token>) for this store
+  return { debugToken: createDebugToken(storeId) };
+};
+
+export default function TargetingSimulatorPage() {
+  const { debugToken } = useLoaderData<typeof loader>();
+
+  return (
+    <Page
+      title="Targeting debugger"
+      subtitle="Find out why a popup does or doesn't show for a visitor"
+      backAction={{ content: "Dashboard", url: "/app" }}
+    >
+      <Layout>
+        <Layout.Section>
+          <TargetingSimulator debugToken={debugToken} />
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -113,8 +113,11 @@ export default function App() {
           <s-app-nav>
             <s-link href="/app">Dashboard</s-link>
             <s-link href="/app/analytics">Analytics</s-link>
+            <s-link href="/app/leads">Leads</s-link>
             <s-link href="/app/campaigns/create">New campaign</s-link>
             <s-link href="/app/billing">Plans</s-link>
+            <s-link href="/app/integrations">Integrations</s-link>
+            <s-link href="/app/targeting-simulator">Targeting debugger</s-link>
             <s-link href="/app/settings">Settings</s-link>
           </s-app-nav>
           <Outlet />
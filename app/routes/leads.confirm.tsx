@@ -0,0 +1,145 @@
+/**
+ * Subscription Confirmation Page
+ *
+ * Public page behind the double opt-in email link: /leads/confirm?token=...
+ * Confirming takes a button press (POST), so link scanners that open the
+ * email link don't confirm on the shopper's behalf.
+ */
+
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { Form, data, useActionData, useLoaderData, useNavigation } from "react-router";
+import { ServiceError } from "~/lib/errors.server";
+import { logger } from "~/lib/logger.server";
+import {
+  DoubleOptInService,
+  verifyConfirmationToken,
+} from "~/domains/leads/services/double-opt-in.server";
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const token = new URL(request.url).searchParams.get("token") ?? "";
+  return { token, valid: verifyConfirmationToken(token) !== null };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const formData = await request.formData();
+
+  try {
+    const result = await DoubleOptInService.confirm(String(formData.get("token") ?? ""));
+    return { success: true as const, ...result };
+  } catch (error) {
+    if (error instanceof ServiceError) {
+      return data({ success: false as const, error: error.message }, { status: 400 });
+    }
+    logger.error({ error }, "[LeadConfirm] Confirmation failed");
+    return data(
+      { success: false as const, error: "Something went wrong. Please try again." },
+      { status: 500 }
+    );
+  }
+};
+
+export default function LeadConfirmPage() {
+  const { token, valid } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const submitting = useNavigation().state === "submitting";
+
+  if (actionData?.success) {
+    return (
+      <div style={styles.container}>
+        <div style={styles.content}>
+          <h1 style={styles.heading}>You&apos;re subscribed</h1>
+          <p style={styles.text}>
+            {actionData.newlyConfirmed ? "Thanks for confirming! " : ""}
+            {actionData.email} will receive emails from {actionData.shopDomain}.
+          </p>
+          {actionData.discountCode && (
+            <>
+              <p style={styles.text}>Your discount code:</p>
+              <p style={styles.code}>{actionData.discountCode}</p>
+            </>
+          )}
+          <a style={styles.button} href={`https://${actionData.shopDomain}`}>
+            Continue shopping
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.content}>
+        <h1 style={styles.heading}>Confirm your subscription</h1>
+        {valid ? (
+          <Form method="post">
+            <input type="hidden" name="token" value={token} />
+            <p style={styles.text}>Press the button below to start receiving our emails.</p>
+            {actionData?.error && <p style={styles.error}>{actionData.error}</p>}
+            <button type="submit" style={styles.button} disabled={submitting}>
+              {submitting ? "Confirming..." : "Confirm subscription"}
+            </button>
+          </Form>
+        ) : (
+          <p style={styles.error}>
+            This confirmation link is invalid or has expired. Sign up again to get a new one.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    minHeight: "100vh",
+    backgroundColor: "#f9fafb",
+    padding: "2rem 1rem",
+  },
+  content: {
+    maxWidth: "480px",
+    margin: "0 auto",
+    backgroundColor: "#ffffff",
+    padding: "2rem",
+    borderRadius: "8px",
+    boxShadow: "0 1px 3px rgba(0, 0, 0, 0.1)",
+    textAlign: "center",
+  },
+  heading: {
+    fontSize: "1.5rem",
+    fontWeight: "700",
+    color: "#111827",
+    marginBottom: "1rem",
+  },
+  text: {
+    color: "#4b5563",
+    lineHeight: "1.6",
+    marginBottom: "1rem",
+  },
+  code: {
+    display: "inline-block",
+    fontFamily: "monospace",
+    fontSize: "1.25rem",
+    fontWeight: "700",
+    color: "#111827",
+    border: "2px dashed #d1d5db",
+    borderRadius: "6px",
+    padding: "0.5rem 1rem",
+    marginBottom: "1.5rem",
+  },
+  error: {
+    color: "#b91c1c",
+    lineHeight: "1.6",
+    marginBottom: "1rem",
+  },
+  button: {
+    display: "inline-block",
+    backgroundColor: "#111827",
+    color: "#ffffff",
+    border: "none",
+    borderRadius: "6px",
+    padding: "0.75rem 1.5rem",
+    fontSize: "1rem",
+    cursor: "pointer",
+    textDecoration: "none",
+  },
+};
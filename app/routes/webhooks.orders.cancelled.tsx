@@ -0,0 +1,17 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "~/shopify.server";
+import { handleOrderCancelled } from "~/webhooks/order-adjustments";
+import type { OrderCancelledPayload } from "~/webhooks/order-adjustments";
+import { logger } from "~/lib/logger.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  logger.info({ topic, shop }, "[Webhook Route] Received webhook");
+
+  if (topic === "ORDERS_CANCELLED") {
+    await handleOrderCancelled(shop, payload as OrderCancelledPayload);
+  }
+
+  return new Response();
+};
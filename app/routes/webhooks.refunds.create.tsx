@@ -0,0 +1,17 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "~/shopify.server";
+import { handleRefundCreate } from "~/webhooks/order-adjustments";
+import type { RefundPayload } from "~/webhooks/order-adjustments";
+import { logger } from "~/lib/logger.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  logger.info({ topic, shop }, "[Webhook Route] Received webhook");
+
+  if (topic === "REFUNDS_CREATE") {
+    await handleRefundCreate(shop, payload as RefundPayload);
+  }
+
+  return new Response();
+};
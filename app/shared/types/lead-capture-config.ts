@@ -65,6 +65,14 @@ export interface LeadCaptureConfig {
   consentFieldText?: string;
   /** URL to privacy policy (for GDPR compliance) */
   privacyPolicyUrl?: string;
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // Double Opt-In (server-side, not rendered by the form)
+  // ─────────────────────────────────────────────────────────────────────────
+  /** Email a confirmation link; consent is only recorded once it is followed */
+  doubleOptInEnabled?: boolean;
+  /** Withhold the discount code until the subscription is confirmed */
+  revealDiscountAfterConfirmation?: boolean;
 }
 
 // =============================================================================
@@ -91,6 +99,9 @@ export const LEAD_CAPTURE_CONFIG_KEYS: (keyof LeadCaptureConfig)[] = [
   "consentFieldRequired",
   "consentFieldText",
   "privacyPolicyUrl",
+  // Double opt-in
+  "doubleOptInEnabled",
+  "revealDiscountAfterConfirmation",
 ];
 
 // =============================================================================
@@ -117,6 +128,9 @@ export const LEAD_CAPTURE_DEFAULTS: Required<LeadCaptureConfig> = {
   consentFieldRequired: false,
   consentFieldText: "I agree to receive marketing emails and accept the privacy policy",
   privacyPolicyUrl: "",
+  // Double opt-in
+  doubleOptInEnabled: false,
+  revealDiscountAfterConfirmation: false,
 };
 
 // =============================================================================
@@ -0,0 +1,119 @@
+import prisma from "~/db.server";
+import { logger } from "~/lib/logger.server";
+import {
+  ConversionAdjustmentService,
+  type OrderRefund,
+} from "~/domains/analytics/conversion-adjustment.server";
+import { LeadCohortService } from "~/domains/analytics/lead-cohorts.server";
+
+export interface RefundPayload {
+  id: number;
+  order_id: number;
+  created_at?: string;
+  transactions?: Array<{
+    kind: string;
+    status: string;
+    amount: string;
+  }>;
+}
+
+export interface OrderUpdatedPayload {
+  id: number;
+  name?: string;
+  cancelled_at?: string | null;
+  refunds?: RefundPayload[];
+}
+
+export type OrderCancelledPayload = OrderUpdatedPayload;
+
+/**
+ * Money actually returned by a refund (successful refund transactions only;
+ * restock-only refunds return nothing)
+ */
+export function getRefundAmount(refund: RefundPayload): number {
+  return (refund.transactions ?? [])
+    .filter((transaction) => transaction.kind === "refund" && transaction.status === "success")
+    .reduce((sum, transaction) => sum + (parseFloat(transaction.amount) || 0), 0);
+}
+
+function toOrderRefund(refund: RefundPayload): OrderRefund {
+  return { id: String(refund.id), amount: getRefundAmount(refund) };
+}
+
+async function findStoreId(shop: string): Promise<string | null> {
+  const store = await prisma.store.findUnique({
+    where: { shopifyDomain: shop },
+    select: { id: true },
+  });
+
+  if (!store) {
+    logger.error({ shop }, "[Webhook] Store not found");
+    return null;
+  }
+
+  return store.id;
+}
+
+export async function handleRefundCreate(shop: string, payload: RefundPayload) {
+  logger.info(
+    { shop, orderId: payload.order_id, refundId: payload.id },
+    "[Webhook] Processing REFUNDS_CREATE"
+  );
+
+  const storeId = await findStoreId(shop);
+  if (!storeId) return;
+
+  const adjustment = await ConversionAdjustmentService.applyRefund(
+    storeId,
+    String(payload.order_id),
+    toOrderRefund(payload)
+  );
+
+  if (!adjustment) {
+    logger.debug({ orderId: payload.order_id }, "[Webhook] No conversion to adjust");
+  }
+}
+
+export async function handleOrderUpdated(shop: string, payload: OrderUpdatedPayload) {
+  logger.info({ shop, orderId: payload.id }, "[Webhook] Processing ORDERS_UPDATED");
+
+  const storeId = await findStoreId(shop);
+  if (!storeId) return;
+
+  const refunds = (payload.refunds ?? []).map(toOrderRefund);
+  const cancelledAt = payload.cancelled_at ? new Date(payload.cancelled_at) : null;
+
+  const adjustment = await ConversionAdjustmentService.reconcileOrder(storeId, String(payload.id), {
+    refunds,
+    cancelledAt,
+  });
+
+  // Lead orders only need the totals; refunds/create is followed by orders/updated
+  await LeadCohortService.reconcileOrder(storeId, String(payload.id), {
+    refundedAmount: refunds.reduce((sum, refund) => sum + refund.amount, 0),
+    cancelledAt,
+  });
+
+  if (!adjustment) {
+    logger.debug({ orderId: payload.id }, "[Webhook] No conversion to adjust");
+  }
+}
+
+export async function handleOrderCancelled(shop: string, payload: OrderCancelledPayload) {
+  logger.info({ shop, orderId: payload.id }, "[Webhook] Processing ORDERS_CANCELLED");
+
+  const storeId = await findStoreId(shop);
+  if (!storeId) return;
+
+  const cancelledAt = payload.cancelled_at ? new Date(payload.cancelled_at) : new Date();
+  const adjustment = await ConversionAdjustmentService.cancelOrder(
+    storeId,
+    String(payload.id),
+    cancelledAt
+  );
+  await LeadCohortService.cancelOrder(storeId, String(payload.id), cancelledAt);
+
+  if (!adjustment) {
+    logger.debug({ orderId: payload.id }, "[Webhook] No conversion to void");
+  }
+}
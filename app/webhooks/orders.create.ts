@@ -2,17 +2,26 @@ import { Prisma } from "@prisma/client";
 import prisma from "~/db.server";
 import { normalizeDiscountConfig } from "~/domains/commerce/services/discount.server";
 import { logger } from "~/lib/logger.server";
-
-// Attribution window for view-through conversions (7 days in milliseconds)
-const VIEW_THROUGH_ATTRIBUTION_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+import { PurchaseHistoryService } from "~/domains/targeting/services/purchase-history.server";
+import {
+  AttributionService,
+  type DiscountCodeMatch,
+} from "~/domains/analytics/attribution.server";
+import { HoldoutService, ORDER_VISITOR_ATTRIBUTE } from "~/domains/analytics/holdout.server";
+import { LeadCohortService } from "~/domains/analytics/lead-cohorts.server";
+import { OutboundWebhookService } from "~/domains/integrations/services/outbound-webhooks.server";
 
 export interface OrderPayload {
   id: number;
   name: string;
   total_price: string;
+  total_discounts?: string;
   currency: string;
+  created_at?: string;
+  email?: string | null;
   customer?: {
     id: number;
+    email?: string | null;
   };
   discount_codes: Array<{
     code: string;
@@ -22,6 +31,15 @@ export interface OrderPayload {
   source_name: string;
   landing_site?: string;
   referring_site?: string;
+  note_attributes?: Array<{
+    name: string;
+    value: string;
+  }>;
+}
+
+interface OrderDiscountMatch extends DiscountCodeMatch {
+  amount: string;
+  customerId?: string;
 }
 
 export async function handleOrderCreate(shop: string, payload: OrderPayload) {
@@ -43,139 +61,152 @@ export async function handleOrderCreate(shop: string, payload: OrderPayload) {
     return;
   }
 
-  // Track if we've already attributed this order to prevent double-counting
-  let attributed = false;
-
-  // 2. First, try discount code attribution (highest confidence)
-  if (payload.discount_codes && payload.discount_codes.length > 0) {
-    for (const discount of payload.discount_codes) {
-      const code = discount.code;
-
-      // Try to find a campaign that generated this code
-      // Check Lead table first (for unique codes from Spin To Win, Scratch Card, etc.)
-      const lead = await prisma.lead.findFirst({
-        where: {
-          storeId: store.id,
-          discountCode: code,
-        },
-        include: {
-          campaign: true,
-        },
-      });
+  // New order changes the customer's purchase history used for targeting
+  if (payload.customer?.id) {
+    await PurchaseHistoryService.invalidate(store.id, String(payload.customer.id));
+  }
 
-      if (lead) {
-        logger.info({
-          code,
-          leadId: lead.id,
-          campaignId: lead.campaignId,
-        }, "[Webhook] Found lead attribution for code");
-
-        await recordConversion({
-          storeId: store.id,
-          campaignId: lead.campaignId,
-          orderPayload: payload,
-          discountCode: code,
-          discountAmount: discount.amount,
-          customerId: lead.shopifyCustomerId ? String(lead.shopifyCustomerId) : undefined,
-          source: "discount_code",
-        });
-        attributed = true;
-        continue;
-      }
-
-      // If not found in leads, attempt static/prefix matching from campaign.discountConfig
-      const campaign = await findCampaignByDiscountCode(store.id, code);
-      if (campaign) {
-        logger.info({
-          code,
-          campaignId: campaign.id,
-        }, "[Webhook] Found campaign attribution for code");
-
-        await recordConversion({
-          storeId: store.id,
-          campaignId: campaign.id,
-          orderPayload: payload,
-          discountCode: code,
-          discountAmount: discount.amount,
-          customerId: payload.customer ? String(payload.customer.id) : undefined,
-          source: "discount_code",
-        });
-        attributed = true;
-      }
-    }
+  const orderedAt = payload.created_at ? new Date(payload.created_at) : new Date();
+  const totalPrice = parseFloat(payload.total_price) || 0;
+
+  // Storefront visitor (cart attribute) links the order to holdout / exposed groups
+  const visitorId = payload.note_attributes?.find(
+    (attribute) => attribute.name === ORDER_VISITOR_ATTRIBUTE
+  )?.value;
+  if (visitorId) {
+    await HoldoutService.recordOrderVisitor(store.id, {
+      orderId: String(payload.id),
+      visitorId,
+      customerId: payload.customer?.id ? String(payload.customer.id) : undefined,
+      totalPrice,
+      orderedAt,
+    });
+  }
+
+  // Orders of captured leads feed the lead cohort report, attributed or not
+  await LeadCohortService.recordOrder(store.id, {
+    orderId: String(payload.id),
+    customerId: payload.customer?.id ? String(payload.customer.id) : undefined,
+    email: payload.email || payload.customer?.email || undefined,
+    totalPrice,
+    orderedAt,
+  });
+
+  // 2. Campaign discount codes used at checkout (highest confidence touchpoints)
+  const discountMatches = await findDiscountCodeMatches(store.id, payload.discount_codes ?? []);
+
+  // First use of a lead's own code (leads screen "discount used" filter)
+  const usedLeadIds = discountMatches
+    .map((match) => match.leadId)
+    .filter((id): id is string => Boolean(id));
+  if (usedLeadIds.length > 0) {
+    await prisma.lead.updateMany({
+      where: { id: { in: usedLeadIds }, discountUsedAt: null },
+      data: { discountUsedAt: orderedAt },
+    });
   }
 
-  // 3. If no discount code attribution, try view-through attribution
-  // This captures conversions where user saw/interacted with popup but didn't use code
-  if (!attributed && payload.customer?.id) {
-    await tryViewThroughAttribution(store.id, payload);
+  // 3. Split credit across every campaign the shopper interacted with
+  const discountAmount = payload.total_discounts
+    ? parseFloat(payload.total_discounts) || 0
+    : (payload.discount_codes ?? []).reduce((sum, d) => sum + (parseFloat(d.amount) || 0), 0);
+  const attribution = await AttributionService.attributeOrder(
+    store.id,
+    {
+      orderId: String(payload.id),
+      orderedAt,
+      totalPrice,
+      discountAmount,
+      customerId: payload.customer?.id ? String(payload.customer.id) : undefined,
+      email: payload.email || payload.customer?.email || undefined,
+    },
+    AttributionService.getSettings(store.settings),
+    discountMatches
+  );
+
+  if (!attribution.primary) {
+    logger.debug({ orderId: payload.id }, "[Webhook] No attribution found");
+    return;
+  }
+
+  // 4. The campaign with the most credit under the store's model owns the conversion
+  const { primary, primaryLead } = attribution;
+  const codeMatch = discountMatches.find((match) => match.campaignId === primary.campaignId);
+
+  let source = "view_through";
+  if (codeMatch) {
+    source = "discount_code";
+  } else if (primaryLead?.discountCode) {
+    // Had a code but didn't use it
+    source = "view_through_with_code";
   }
+
+  await recordConversion({
+    storeId: store.id,
+    campaignId: primary.campaignId,
+    orderPayload: payload,
+    discountCode: codeMatch?.code ?? null,
+    discountAmount: codeMatch?.amount ?? "0",
+    customerId: codeMatch?.customerId,
+    source,
+  });
 }
 
 /**
- * Attempt view-through attribution for orders without discount codes.
- *
- * Requires actual user interaction (SUBMIT, CLICK, COUPON_ISSUED) - passive VIEW
- * events are excluded to prevent attribution inflation from banners and popups
- * that users may not have consciously engaged with.
+ * Match discount codes on the order to the campaigns that issued them.
  *
- * This captures:
- * - User submitted email but forgot to use the discount code
- * - User clicked CTA but didn't complete the action
- * - Newsletter signups that led to purchase without using discount
+ * Unique codes (Spin To Win, Scratch Card, etc.) are looked up on the Lead they
+ * were issued to, other codes by the campaign's static code or prefix.
  */
-async function tryViewThroughAttribution(storeId: string, payload: OrderPayload): Promise<void> {
-  const customerId = payload.customer?.id;
-  if (!customerId) return;
+async function findDiscountCodeMatches(
+  storeId: string,
+  discountCodes: OrderPayload["discount_codes"]
+): Promise<OrderDiscountMatch[]> {
+  const matches: OrderDiscountMatch[] = [];
 
-  const attributionWindowStart = new Date(Date.now() - VIEW_THROUGH_ATTRIBUTION_WINDOW_MS);
+  for (const discount of discountCodes) {
+    const code = discount.code;
 
-  logger.debug({ customerId }, "[Webhook] Attempting view-through attribution");
-
-  // Find leads by Shopify customer ID
-  // This is the primary attribution strategy - leads represent actual user engagement
-  // (form submission, game play, etc.) which is a strong signal of influence
-  const leadByCustomer = await prisma.lead.findFirst({
-    where: {
-      storeId,
-      shopifyCustomerId: BigInt(customerId),
-      createdAt: { gte: attributionWindowStart },
-    },
-    include: {
-      campaign: {
-        select: { id: true, status: true },
+    const lead = await prisma.lead.findFirst({
+      where: {
+        storeId,
+        discountCode: code,
       },
-    },
-    orderBy: { createdAt: "desc" },
-  });
+      include: {
+        campaign: true,
+      },
+    });
 
-  if (leadByCustomer) {
-    logger.info({
-      customerId,
-      leadId: leadByCustomer.id,
-      campaignId: leadByCustomer.campaignId,
-      hadDiscountCode: !!leadByCustomer.discountCode,
-    }, "[Webhook] View-through: Found lead for customer");
+    if (lead) {
+      logger.info({
+        code,
+        leadId: lead.id,
+        campaignId: lead.campaignId,
+      }, "[Webhook] Found lead attribution for code");
 
-    await recordConversion({
-      storeId,
-      campaignId: leadByCustomer.campaignId,
-      orderPayload: payload,
-      discountCode: null,
-      discountAmount: "0",
-      customerId: String(customerId),
-      source: leadByCustomer.discountCode ? "view_through_with_code" : "view_through",
-    });
-    return;
-  }
+      matches.push({
+        campaignId: lead.campaignId,
+        code,
+        leadId: lead.id,
+        amount: discount.amount,
+        customerId: lead.shopifyCustomerId ? String(lead.shopifyCustomerId) : undefined,
+      });
+      continue;
+    }
 
-  // Note: We previously had a Strategy 2 that looked for PopupEvents by customerId
-  // in metadata, but this was removed because:
-  // 1. customerId is not available at popup interaction time (only at checkout)
-  // 2. The Lead-based lookup above covers all SUBMIT interactions
-  // 3. VIEW-only attribution was deemed too weak a signal for revenue attribution
+    // If not found in leads, attempt static/prefix matching from campaign.discountConfig
+    const campaign = await findCampaignByDiscountCode(storeId, code);
+    if (campaign) {
+      logger.info({
+        code,
+        campaignId: campaign.id,
+      }, "[Webhook] Found campaign attribution for code");
 
-  logger.debug({ customerId }, "[Webhook] No view-through attribution found");
+      matches.push({ campaignId: campaign.id, code, amount: discount.amount });
+    }
+  }
+
+  return matches;
 }
 
 async function recordConversion(params: {
@@ -187,7 +218,8 @@ async function recordConversion(params: {
   customerId?: string;
   source: string;
 }) {
-  const { campaignId, orderPayload, discountCode, discountAmount, customerId, source } = params;
+  const { storeId, campaignId, orderPayload, discountCode, discountAmount, customerId, source } =
+    params;
 
   try {
     await prisma.campaignConversion.create({
@@ -196,6 +228,7 @@ async function recordConversion(params: {
         orderId: String(orderPayload.id),
         orderNumber: orderPayload.name,
         totalPrice: orderPayload.total_price,
+        netRevenue: orderPayload.total_price,
         discountAmount: discountAmount,
         discountCodes: discountCode ? [discountCode] : [],
         customerId:
@@ -204,6 +237,21 @@ async function recordConversion(params: {
       },
     });
     logger.info({ campaignId, source }, "[Webhook] Recorded conversion");
+
+    const orderId = String(orderPayload.id);
+    await OutboundWebhookService.emit(storeId, "conversion.attributed", orderId, {
+      orderId,
+      orderNumber: orderPayload.name,
+      campaignId,
+      totalPrice: orderPayload.total_price,
+      currency: orderPayload.currency,
+      discountAmount,
+      discountCode,
+      customerId:
+        customerId || (orderPayload.customer ? String(orderPayload.customer.id) : null),
+      source,
+      orderedAt: orderPayload.created_at ?? null,
+    });
   } catch (error) {
     // Ignore unique constraint violations (idempotency)
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
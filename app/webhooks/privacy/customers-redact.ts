@@ -4,6 +4,10 @@
  * Deletes or anonymizes all customer PII when Shopify instructs us to redact customer data.
  * This webhook is triggered when a customer requests data deletion or after account deletion.
  *
+ * Archived popup events need no redaction: they are written without visitor,
+ * network or device identifiers and without lead event metadata (see
+ * EventRetentionService), and the leads they point to are anonymized here.
+ *
  * IMPORTANT: This handler is idempotent - multiple calls for the same customer will not cause errors.
  */
 
@@ -11,6 +15,7 @@ import prisma from "~/db.server";
 import { Prisma } from "@prisma/client";
 import type { CustomersRedactPayload } from "./types";
 import { logger } from "~/lib/logger.server";
+import { getWebhookEventKey } from "~/domains/integrations/services/outbound-webhooks.server";
 
 export async function handleCustomersRedact(
   shop: string,
@@ -116,6 +121,48 @@ export async function handleCustomersRedact(
       });
       logger.info({ count: conversionsToAnonymize.length }, "[Privacy Webhook] Anonymized conversions");
     }
+
+    // 4. Unlink LeadOrders (kept without identifiers for cohort revenue)
+    const leadOrders = await tx.leadOrder.updateMany({
+      where: {
+        storeId: store.id,
+        OR: [{ customerId: String(payload.customer.id) }, { email: customerEmail.toLowerCase() }],
+      },
+      data: {
+        customerId: null,
+        email: null,
+      },
+    });
+    if (leadOrders.count > 0) {
+      logger.info({ count: leadOrders.count }, "[Privacy Webhook] Anonymized lead orders");
+    }
+
+    // 5. Delete OrderVisitors, which tie the customer's orders to their storefront visitor ID
+    const orderVisitors = await tx.orderVisitor.deleteMany({
+      where: {
+        storeId: store.id,
+        OR: [
+          { customerId: String(payload.customer.id) },
+          { orderId: { in: payload.orders_to_redact.map(String) } },
+        ],
+      },
+    });
+    if (orderVisitors.count > 0) {
+      logger.info({ count: orderVisitors.count }, "[Privacy Webhook] Deleted order visitors");
+    }
+
+    // 6. Delete lead.created webhook deliveries, whose payload holds the lead's details
+    const webhookDeliveries = await tx.webhookDelivery.deleteMany({
+      where: {
+        storeId: store.id,
+        eventKey: {
+          in: leadsToAnonymize.map((l) => getWebhookEventKey("lead.created", l.id)),
+        },
+      },
+    });
+    if (webhookDeliveries.count > 0) {
+      logger.info({ count: webhookDeliveries.count }, "[Privacy Webhook] Deleted webhook deliveries");
+    }
   });
 
   logger.info({ customerId: payload.customer.id }, "[Privacy Webhook] Successfully redacted customer data");
@@ -10,6 +10,7 @@
 import prisma from "~/db.server";
 import type { ShopRedactPayload } from "./types";
 import { logger } from "~/lib/logger.server";
+import { EventRetentionService } from "~/domains/analytics/event-retention.server";
 
 export async function handleShopRedact(shop: string, payload: ShopRedactPayload): Promise<void> {
   logger.info({
@@ -29,6 +30,10 @@ export async function handleShopRedact(shop: string, payload: ShopRedactPayload)
     return;
   }
 
+  // Delete archived popup events first: once the store row is gone a retried
+  // webhook returns early and could not find them anymore
+  await EventRetentionService.deleteArchives(store.id);
+
   // Delete all shop data in a transaction
   // Note: Prisma cascade deletes will handle related records automatically
   // based on the schema's onDelete: Cascade settings
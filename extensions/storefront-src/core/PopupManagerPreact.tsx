@@ -55,6 +55,74 @@ export interface PopupManagerProps {
 // Exit animation duration in ms - should match PopupPortal's animation timing
 const EXIT_ANIMATION_DURATION_MS = 1600; // Max of backdrop + content animation
 
+/**
+ * Store arbitration policy sent with the active campaigns response
+ */
+export interface ArbitrationPolicy {
+  maxConcurrentOverlays: number;
+  /** Campaign IDs that must not show on the same page */
+  exclusiveGroups: string[][];
+}
+
+/**
+ * PopupArbiter - enforces "one popup per page" style limits
+ *
+ * Campaigns acquire a slot before rendering and release it when closed.
+ * Without a policy every campaign is allowed (legacy behavior).
+ */
+export class PopupArbiter {
+  private policy: ArbitrationPolicy | null = null;
+  private openOverlays = new Set<string>();
+  private shown = new Set<string>();
+
+  configure(policy: ArbitrationPolicy | null | undefined): void {
+    this.policy = policy ?? null;
+  }
+
+  isEnabled(): boolean {
+    return this.policy !== null;
+  }
+
+  /**
+   * Reserve a slot for a campaign. Returns false when the policy blocks it.
+   *
+   * @param isOverlay - Modal popups count towards maxConcurrentOverlays; banners
+   *   and notifications only take part in exclusive groups
+   */
+  tryAcquire(campaignId: string, isOverlay: boolean): boolean {
+    if (!this.policy) return true;
+
+    const conflict = this.policy.exclusiveGroups.some(
+      (group) =>
+        group.includes(campaignId) &&
+        group.some((id) => id !== campaignId && this.shown.has(id))
+    );
+    if (conflict) return false;
+
+    if (isOverlay && this.openOverlays.size >= this.policy.maxConcurrentOverlays) {
+      return false;
+    }
+
+    if (isOverlay) this.openOverlays.add(campaignId);
+    this.shown.add(campaignId);
+    return true;
+  }
+
+  /**
+   * Free the overlay slot. The campaign still counts as shown for exclusive groups.
+   */
+  release(campaignId: string): void {
+    this.openOverlays.delete(campaignId);
+  }
+
+  reset(): void {
+    this.openOverlays.clear();
+    this.shown.clear();
+  }
+}
+
+export const popupArbiter = new PopupArbiter();
+
 export function PopupManagerPreact({ campaign, onClose, onShow, loader, api, triggerContext }: PopupManagerProps) {
   const [Component, setComponent] = useState<ComponentType<Record<string, unknown>> | null>(null);
   const [loading, setLoading] = useState(true);
@@ -64,6 +132,9 @@ export function PopupManagerPreact({ campaign, onClose, onShow, loader, api, tri
   // Track visibility for exit animation
   const [isVisible, setIsVisible] = useState(true);
 
+  // Double opt-in: shown instead of the success message while the lead confirms
+  const [confirmationMessage, setConfirmationMessage] = useState<string | null>(null);
+
   // Track when popup was shown (for bot detection timing validation)
   const popupShownAtRef = useRef<number>(Date.now());
 
@@ -119,6 +190,7 @@ export function PopupManagerPreact({ campaign, onClose, onShow, loader, api, tri
           );
           setError("Failed to load required resources");
           setLoading(false);
+          popupArbiter.release(campaign.id);
           return;
         }
 
@@ -136,6 +208,7 @@ export function PopupManagerPreact({ campaign, onClose, onShow, loader, api, tri
           setError(err instanceof Error ? err.message : "Failed to load popup");
           setLoading(false);
         }
+        popupArbiter.release(campaign.id);
       }
     }
 
@@ -206,6 +279,10 @@ export function PopupManagerPreact({ campaign, onClose, onShow, loader, api, tri
 
       console.log("[PopupManager] Lead submitted successfully:", result);
 
+      if (result.confirmationRequired && result.message) {
+        setConfirmationMessage(result.message);
+      }
+
       // If there's a free gift, add it to the cart
       if (result.freeGift) {
         try {
@@ -650,6 +727,8 @@ export function PopupManagerPreact({ campaign, onClose, onShow, loader, api, tri
       } : undefined,
       // Inject preloaded products if available
       ...(preloadedResources.products ? { products: preloadedResources.products } : {}),
+      // The discount is held until the lead confirms, so don't fall back to the static code
+      ...(confirmationMessage ? { successMessage: confirmationMessage, discount: undefined } : {}),
     },
     isVisible,
     onClose: handleCloseWithAnimation,
@@ -712,6 +791,7 @@ export function renderPopup(
   function cleanup() {
     render(null, container);
     container.remove();
+    popupArbiter.release(campaign.id);
   }
 
   return cleanup;
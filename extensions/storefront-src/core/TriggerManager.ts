@@ -136,7 +136,7 @@ export interface TriggerCombinationConfig {
 export class TriggerManager {
   private cleanupFunctions: Array<() => void> = [];
   private exitIntentDetector: ExitIntentDetector | null = null;
-  private triggerContext: { productId?: string; [key: string]: unknown } = {};
+  private triggerContext: { productId?: string; triggerType?: string; [key: string]: unknown } = {};
   private scrollDepthTracker: ScrollDepthTracker | null = null;
   private idleTimer: IdleTimer | null = null;
   private cartEventListener: CartEventListener | null = null;
@@ -154,6 +154,7 @@ export class TriggerManager {
     // If no triggers defined, show immediately
     if (!triggers || Object.keys(triggers).length === 0) {
       console.log("[Revenue Boost] ✅ No triggers defined, showing campaign immediately");
+      this.triggerContext.triggerType = "immediate";
       return true;
     }
 
@@ -260,6 +261,7 @@ export class TriggerManager {
     // If no enabled triggers, show immediately
     if (triggerTasks.length === 0) {
       console.log("[Revenue Boost] ⚠️ No enabled triggers found, showing campaign immediately");
+      this.triggerContext.triggerType = "immediate";
       return true;
     }
 
@@ -280,6 +282,7 @@ export class TriggerManager {
           )
         );
         console.log(`[Revenue Boost] ✅ OR logic satisfied by: ${anySuccess.name}`);
+        this.triggerContext.triggerType = anySuccess.name;
         triggersPassed = true;
       } catch (e) {
         console.log("[Revenue Boost] ❌ OR logic failed: No triggers passed (or all failed)", e);
@@ -293,6 +296,8 @@ export class TriggerManager {
 
       if (triggersPassed) {
         console.log("[Revenue Boost] ✅ AND logic satisfied: All triggers passed");
+        // Funnel analytics: several required triggers are reported as one combination
+        this.triggerContext.triggerType = results.length === 1 ? results[0].name : "combined";
       } else {
         const failed = results.filter((r) => !r.result).map((r) => r.name);
         console.log(`[Revenue Boost] ❌ AND logic failed. Failed triggers: ${failed.join(", ")}`);
@@ -1066,7 +1071,7 @@ export class TriggerManager {
   /**
    * Get trigger context (e.g., product ID from add_to_cart trigger)
    */
-  getTriggerContext(): { productId?: string; [key: string]: unknown } {
+  getTriggerContext(): { productId?: string; triggerType?: string; [key: string]: unknown } {
     return this.triggerContext;
   }
 
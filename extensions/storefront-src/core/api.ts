@@ -2,6 +2,9 @@
  * API Client for storefront
  */
 
+import { getDebugToken, type TrafficSource } from "../utils/url";
+import type { ArbitrationPolicy } from "./PopupManagerPreact";
+
 export interface ApiConfig {
   apiUrl: string;
   shopDomain: string;
@@ -19,6 +22,24 @@ export interface FetchCampaignsResponse {
   timestamp?: string;
   /** Whether to show "Powered by Revenue Boost" branding (true for free tier) */
   showBranding?: boolean;
+  /** Store arbitration policy (max concurrent popups, exclusive groups) */
+  arbitration?: ArbitrationPolicy;
+  /** Server-side filter trace, returned when the page has a valid ?rb_debug token */
+  debugTrace?: TargetingTrace[];
+  /** A holdout test is running: tag the cart with the visitor ID so orders can be matched */
+  tagCartWithVisitor?: boolean;
+}
+
+/**
+ * Why a campaign was kept or rejected by the server-side filters
+ */
+export interface TargetingTrace {
+  campaignId: string;
+  campaignName: string;
+  shown: boolean;
+  rejectedBy?: string;
+  reason?: string;
+  steps: Array<{ step: string; passed: boolean; reason?: string }>;
 }
 
 type IssueDiscountResponse = {
@@ -40,8 +61,17 @@ const PAGE_VIEWS_KEY = "revenue_boost_page_views";
 const PRODUCT_VIEWS_KEY = "revenue_boost_product_view_count";
 const ADDED_TO_CART_SESSION_KEY = "revenue_boost_added_to_cart";
 
+/** Cart state sent with the campaigns request for server-side cart_contents rules */
+interface CartSnapshot {
+  value: number; // Store currency (not cents)
+  itemCount: number;
+  productIds: string[];
+  discountApplied: boolean;
+}
+
 export class ApiClient {
   private config: ApiConfig;
+  private cartSnapshot: CartSnapshot | null = null;
 
   constructor(config: ApiConfig) {
     this.config = config;
@@ -71,13 +101,14 @@ export class ApiClient {
 
   async fetchActiveCampaigns(
     sessionId: string,
-    visitorId?: string
+    visitorId?: string,
+    trafficSource?: TrafficSource
   ): Promise<FetchCampaignsResponse> {
     // Ensure we have an up-to-date cart snapshot before building context
     await this.ensureCartSnapshot();
 
     // Build storefront context
-    const context = this.buildStorefrontContext(sessionId, visitorId);
+    const context = this.buildStorefrontContext(sessionId, visitorId, trafficSource);
 
     // Build URL with context params
     const params = new URLSearchParams({
@@ -92,6 +123,12 @@ export class ApiClient {
       params.set("previewToken", this.config.previewToken);
     }
 
+    // Ask the server for a per-campaign filter trace
+    const debugToken = getDebugToken(window.location.search);
+    if (debugToken) {
+      params.set("rb_debug", debugToken);
+    }
+
     const url = `${this.getApiUrl("/api/campaigns/active")}?${params.toString()}`;
 
     this.log("Fetching campaigns from:", url);
@@ -120,7 +157,11 @@ export class ApiClient {
     }
   }
 
-  private buildStorefrontContext(sessionId: string, visitorId?: string): Record<string, string> {
+  private buildStorefrontContext(
+    sessionId: string,
+    visitorId?: string,
+    trafficSource?: TrafficSource
+  ): Record<string, string> {
     const pageType = this.detectPageType();
 
     const context: Record<string, string> = {
@@ -142,6 +183,7 @@ export class ApiClient {
           collectionId?: string;
           collectionHandle?: string;
           countryCode?: string;
+          customerId?: string | number | null;
         };
       };
       const w = window as unknown as W;
@@ -160,6 +202,9 @@ export class ApiClient {
 
       // Geographic targeting: country code from Shopify Liquid
       if (cfg.countryCode) context.countryCode = String(cfg.countryCode);
+
+      // Logged-in customer (segment and purchase-history targeting)
+      if (cfg.customerId) context.customerId = String(cfg.customerId);
     } catch {
       // Ignore errors reading REVENUE_BOOST_CONFIG
     }
@@ -169,6 +214,20 @@ export class ApiClient {
       context.visitorId = visitorId;
     }
 
+    // First-touch traffic source for the session (UTM params + referrer)
+    if (trafficSource?.utmSource) context.utmSource = trafficSource.utmSource;
+    if (trafficSource?.utmMedium) context.utmMedium = trafficSource.utmMedium;
+    if (trafficSource?.utmCampaign) context.utmCampaign = trafficSource.utmCampaign;
+    if (trafficSource?.referrerDomain) context.referrerDomain = trafficSource.referrerDomain;
+
+    // Browser timezone for dayparting windows evaluated in the visitor's local time
+    try {
+      const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      if (timezone) context.timezone = timezone;
+    } catch {
+      // Ignore - the server falls back to the store timezone
+    }
+
     // Add visit and engagement metrics
     try {
       const ls = window.localStorage;
@@ -224,38 +283,60 @@ export class ApiClient {
       // Ignore storage errors (e.g. disabled cookies)
     }
 
-    // Note: Cart-based targeting (cartValue, cartItemCount) is handled CLIENT-SIDE only
-    // via the cart_value trigger in Enhanced Triggers, which polls /cart.js.
-    // We no longer send cart data to the server as it's not used for filtering.
+    // Cart snapshot for server-side cart_contents rules
+    if (this.cartSnapshot) {
+      context.cartValue = String(this.cartSnapshot.value);
+      context.cartItemCount = String(this.cartSnapshot.itemCount);
+      context.cartDiscountApplied = String(this.cartSnapshot.discountApplied);
+      if (this.cartSnapshot.productIds.length > 0) {
+        context.cartProductIds = this.cartSnapshot.productIds.join(",");
+      }
+    }
 
     return context;
   }
 
   /**
-   * Ensure Shopify.cart snapshot is populated so cart-based triggers work
-   * even on themes/pages that do not expose window.Shopify.cart.
-   * This is used by the cart_value trigger in TriggerManager.
+   * Take a fresh /cart.js snapshot before fetching campaigns.
+   * - Sent to the server for cart_contents rules (subtotal, items, products, discounts)
+   * - Mirrored into Shopify.cart so the cart_value trigger in TriggerManager works
+   *   even on themes/pages that do not expose window.Shopify.cart
    */
   private async ensureCartSnapshot(): Promise<void> {
     try {
       type ShopifyGlobal = { Shopify?: { cart?: { total_price: number; item_count: number } } };
       const w = window as unknown as ShopifyGlobal;
 
-      // If cart info is already available, do not fetch again
-      if (w.Shopify && w.Shopify.cart && typeof w.Shopify.cart.item_count === "number") {
-        return;
-      }
-
       const response = await fetch("/cart.js", { credentials: "same-origin" });
       if (!response.ok) {
         return;
       }
 
-      const cart = (await response.json()) as { total_price?: number; item_count?: number };
+      const cart = (await response.json()) as {
+        total_price?: number;
+        item_count?: number;
+        total_discount?: number;
+        cart_level_discount_applications?: unknown[];
+        items?: Array<{ product_id?: number | string }>;
+      };
       if (!cart || typeof cart.item_count !== "number") {
         return;
       }
 
+      const productIds = (cart.items || [])
+        .map((item) => (item.product_id !== undefined ? String(item.product_id) : ""))
+        .filter(Boolean);
+
+      this.cartSnapshot = {
+        value: typeof cart.total_price === "number" ? cart.total_price / 100 : 0,
+        itemCount: cart.item_count,
+        productIds: Array.from(new Set(productIds)),
+        discountApplied:
+          (typeof cart.total_discount === "number" && cart.total_discount > 0) ||
+          (Array.isArray(cart.cart_level_discount_applications) &&
+            cart.cart_level_discount_applications.length > 0),
+      };
+
       if (!w.Shopify) {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         w.Shopify = {} as any;
@@ -320,6 +401,9 @@ export class ApiClient {
       productId: string;
       quantity: number;
     };
+    /** Double opt-in: the lead still has to confirm from the email it was sent */
+    confirmationRequired?: boolean;
+    message?: string;
     error?: string;
   }> {
     const params = new URLSearchParams({
@@ -354,6 +438,8 @@ export class ApiClient {
         leadId: result.leadId,
         discountCode: result.discountCode,
         freeGift: result.freeGift,
+        confirmationRequired: result.confirmationRequired,
+        message: result.message,
       };
     } catch (error) {
       console.error("[Revenue Boost API] Failed to submit lead:", error);
@@ -491,6 +577,8 @@ export class ApiClient {
     experimentId?: string | null;
     pageUrl?: string;
     referrer?: string;
+    /** Trigger that opened the popup (funnel breakdowns) */
+    triggerType?: string;
   }): Promise<void> {
     // Skip analytics writes entirely when running in storefront preview mode.
     // Preview sessions should not contribute to frequency caps or analytics.
@@ -515,6 +603,7 @@ export class ApiClient {
       experimentId: input.experimentId,
       pageUrl: input.pageUrl,
       referrer: input.referrer,
+      triggerType: input.triggerType,
       timestamp: Date.now(),
     });
 
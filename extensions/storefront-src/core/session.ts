@@ -7,11 +7,17 @@
  *
  * Frequency capping (max views per session/day) is handled server-side via Redis.
  * Client only tracks explicit user dismissals (close button clicks).
+ *
+ * Traffic source (UTM params + referrer) is captured on the session's landing page
+ * and kept for the rest of the session (first touch), since later pages lose the UTM query.
  */
 
+import { buildTrafficSource, type TrafficSource } from "../utils/url";
+
 const SESSION_KEY = "revenue_boost_session";
 const DISMISSED_KEY = "revenue_boost_dismissed";
 const VISITOR_KEY = "revenue_boost_visitor"; // Client-side backup
+const TRAFFIC_SOURCE_KEY = "revenue_boost_traffic_source";
 
 export interface SessionData {
   sessionId: string;
@@ -19,17 +25,20 @@ export interface SessionData {
   visitCount: number;
   isReturningVisitor: boolean;
   dismissedCampaigns: string[];
+  trafficSource: TrafficSource;
 }
 
 class SessionManager {
   private sessionId: string;
   private visitorId: string;
   private dismissedCampaigns: Set<string>;
+  private trafficSource: TrafficSource;
 
   constructor() {
     this.sessionId = this.initSessionId();
     this.visitorId = this.initVisitorId();
     this.dismissedCampaigns = this.loadDismissedCampaigns();
+    this.trafficSource = this.initTrafficSource();
     this.incrementVisitCount();
   }
 
@@ -59,6 +68,28 @@ class SessionManager {
     return visitorId;
   }
 
+  /**
+   * First-touch attribution: the landing page of the session wins
+   */
+  private initTrafficSource(): TrafficSource {
+    const stored = sessionStorage.getItem(TRAFFIC_SOURCE_KEY);
+    if (stored) {
+      try {
+        return JSON.parse(stored) as TrafficSource;
+      } catch {
+        // Fall through and capture again
+      }
+    }
+
+    const trafficSource = buildTrafficSource(
+      window.location.search,
+      document.referrer,
+      window.location.hostname
+    );
+    sessionStorage.setItem(TRAFFIC_SOURCE_KEY, JSON.stringify(trafficSource));
+    return trafficSource;
+  }
+
   private loadDismissedCampaigns(): Set<string> {
     const stored = localStorage.getItem(DISMISSED_KEY);
     if (stored) {
@@ -99,6 +130,10 @@ class SessionManager {
     return this.getVisitCount() > 1;
   }
 
+  getTrafficSource(): TrafficSource {
+    return this.trafficSource;
+  }
+
   /**
    * Check if campaign was dismissed by user
    * Server handles frequency capping via Redis
@@ -122,14 +157,17 @@ class SessionManager {
       visitCount: this.getVisitCount(),
       isReturningVisitor: this.isReturningVisitor(),
       dismissedCampaigns: Array.from(this.dismissedCampaigns),
+      trafficSource: this.trafficSource,
     };
   }
 
   clear(): void {
     sessionStorage.removeItem(SESSION_KEY);
+    sessionStorage.removeItem(TRAFFIC_SOURCE_KEY);
     localStorage.removeItem(DISMISSED_KEY);
     this.dismissedCampaigns.clear();
     this.sessionId = this.initSessionId();
+    this.trafficSource = this.initTrafficSource();
   }
 }
 
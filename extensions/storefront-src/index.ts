@@ -6,12 +6,14 @@
 import * as preact from "preact";
 import * as hooks from "preact/hooks";
 import { createPortal, memo } from "preact/compat";
-import { ApiClient } from "./core/api";
+import { ApiClient, type TargetingTrace } from "./core/api";
 import { session } from "./core/session";
 import { ComponentLoader } from "./core/component-loader";
-import { renderPopup, type StorefrontCampaign } from "./core/PopupManagerPreact";
+import { renderPopup, popupArbiter, type StorefrontCampaign } from "./core/PopupManagerPreact";
 import { TriggerManager, type EnhancedTriggers } from "./core/TriggerManager";
 import { initCartTracking } from "./utils/cart-tracking";
+import { tagCartWithVisitor } from "./utils/cart";
+import { getDebugToken } from "./utils/url";
 
 // Initialize hook registry (configures all pre-display hooks)
 import "./core/hooks";
@@ -78,7 +80,8 @@ function getConfig(): Config {
   return {
     apiUrl: cfg.apiUrl || "",
     shopDomain: cfg.shopDomain || "",
-    debug: cfg.debug || false,
+    // ?rb_debug also turns on client-side logs (dismissals, triggers, arbitration)
+    debug: cfg.debug || getDebugToken(window.location.search) !== null,
     previewMode: cfg.previewMode || false,
     previewToken: cfg.previewToken,
     previewBehavior: cfg.previewBehavior || 'instant',
@@ -160,11 +163,24 @@ class RevenueBoostApp {
       console.log("[Revenue Boost] 📡 Fetching campaigns from API...");
       const response = await this.api.fetchActiveCampaigns(
         session.getSessionId(),
-        session.getVisitorId()
+        session.getVisitorId(),
+        session.getTrafficSource()
       );
-      const { campaigns, globalCustomCSS, showBranding } = response;
+      const { campaigns, globalCustomCSS, showBranding, arbitration, debugTrace } = response;
       this.globalCustomCSS = globalCustomCSS || undefined;
 
+      // Holdout test running: link this visitor's order to the holdout / exposed group
+      if (response.tagCartWithVisitor && !this.config.previewMode) {
+        void tagCartWithVisitor(session.getVisitorId());
+      }
+
+      if (debugTrace) {
+        this.logTargetingTrace(debugTrace);
+      }
+
+      // Store arbitration policy (max concurrent popups, exclusive groups)
+      popupArbiter.configure(this.config.previewMode ? null : arbitration);
+
       // NOTE: Do NOT set designConfig.previewMode here.
       // The previewMode flag is reserved for admin previews and changes
       // how popups render (e.g. inline vs modal). Storefront previews
@@ -206,6 +222,33 @@ class RevenueBoostApp {
     }
   }
 
+  /**
+   * Print the server-side filter trace (?rb_debug=<token>)
+   */
+  private logTargetingTrace(trace: TargetingTrace[]): void {
+    console.group("[Revenue Boost] 🔍 Targeting trace");
+    console.table(
+      trace.map((t) => ({
+        campaign: t.campaignName,
+        id: t.campaignId,
+        result: t.shown ? "✅ sent to storefront" : "❌ rejected",
+        step: t.rejectedBy ?? "",
+        reason: t.reason ?? "",
+      }))
+    );
+    trace.forEach((t) => {
+      console.groupCollapsed(`${t.shown ? "✅" : "❌"} ${t.campaignName}`);
+      t.steps.forEach((s) => {
+        console.log(`${s.passed ? "✓" : "✗"} ${s.step}${s.reason ? ` - ${s.reason}` : ""}`);
+      });
+      console.groupEnd();
+    });
+    console.log(
+      "[Revenue Boost] Campaigns sent to the storefront still need their client triggers (delay, scroll, exit intent...) to fire."
+    );
+    console.groupEnd();
+  }
+
   /**
    * Preload popup components with smart prioritization
    *
@@ -310,8 +353,11 @@ class RevenueBoostApp {
   }
 
   private setupCampaigns(campaigns: ClientCampaign[]): void {
-    // Sort by priority (highest first)
-    const sorted = campaigns.sort((a, b) => (b.priority || 0) - (a.priority || 0));
+    // Sort by priority (highest first). With an arbitration policy the server
+    // already ranked campaigns by the store's tiebreak, so keep its order.
+    const sorted = popupArbiter.isEnabled()
+      ? campaigns
+      : campaigns.sort((a, b) => (b.priority || 0) - (a.priority || 0));
 
     // Filter dismissed campaigns (except preview mode or when frequency capping is enabled)
     // Server handles frequency capping via Redis - if frequency capping is enabled,
@@ -404,7 +450,13 @@ class RevenueBoostApp {
       if (candidates.length > 0) {
         // candidates are already in priority order because `available`
         // was sorted before we grouped.
-        selected.push(candidates[0]);
+        // With an arbitration policy, every modal candidate evaluates its triggers
+        // and popupArbiter limits how many are open at once.
+        if (surface === "modal" && popupArbiter.isEnabled()) {
+          selected.push(...candidates);
+        } else {
+          selected.push(candidates[0]);
+        }
       }
     });
 
@@ -508,6 +560,16 @@ class RevenueBoostApp {
     console.log("[Revenue Boost] 🎨 renderCampaign called for:", campaign.name);
     const isPreview = this.config.previewMode && !!this.config.previewToken;
 
+    // Store arbitration policy: another popup may already hold the slot
+    if (!popupArbiter.tryAcquire(campaign.id, this.getSurface(campaign) === "modal")) {
+      this.log("Campaign blocked by arbitration policy:", campaign.id);
+      triggerManager?.cleanup();
+      return;
+    }
+
+    // Get trigger context from trigger manager
+    const triggerContext = triggerManager ? triggerManager.getTriggerContext() : undefined;
+
     // Record frequency for server-side tracking (Redis + analytics)
     if (!isPreview) {
       // Use experimentId for tracking if campaign is part of an experiment
@@ -521,12 +583,10 @@ class RevenueBoostApp {
         trackingKey,
         pageUrl: typeof window !== "undefined" ? window.location.href : undefined,
         referrer: typeof document !== "undefined" ? document.referrer : undefined,
+        triggerType: triggerContext?.triggerType,
       });
     }
 
-    // Get trigger context from trigger manager
-    const triggerContext = triggerManager ? triggerManager.getTriggerContext() : undefined;
-
     // Render popup
     renderPopup(
       campaign,
@@ -201,3 +201,29 @@ export async function getCart(): Promise<{
     return { success: false, error: error instanceof Error ? error.message : String(error) };
   }
 }
+
+/** Cart attribute carrying the visitor ID to the order (holdout measurement) */
+export const VISITOR_CART_ATTRIBUTE = "_rb_visitor_id";
+
+/**
+ * Tag the cart with the visitor ID, so the order can be matched to the visitor.
+ * Attributes starting with "_" are hidden from shoppers at checkout.
+ */
+export async function tagCartWithVisitor(visitorId: string): Promise<void> {
+  const result = await getCart();
+  if (!result.success || !result.cart) return;
+
+  const attributes = (result.cart.attributes as Record<string, string> | undefined) || {};
+  if (attributes[VISITOR_CART_ATTRIBUTE] === visitorId) return;
+
+  try {
+    const root = getShopifyRoot();
+    await fetch(`${root}cart/update.js`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ attributes: { [VISITOR_CART_ATTRIBUTE]: visitorId } }),
+    });
+  } catch {
+    // The order just won't count towards holdout reports
+  }
+}
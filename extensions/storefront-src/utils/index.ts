@@ -22,6 +22,7 @@ export {
   refreshCartDrawer,
   addToCart,
   getCart,
+  tagCartWithVisitor,
 } from "./cart";
 
 // URL utilities
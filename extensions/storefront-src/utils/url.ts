@@ -3,6 +3,7 @@
  *
  * Centralized URL manipulation including:
  * - UTM parameter handling
+ * - Traffic source (first-touch UTM + referrer) parsing
  * - URL decoration
  */
 
@@ -12,6 +13,72 @@ export interface UTMParams {
   utmMedium?: string | null;
 }
 
+/**
+ * First-touch traffic source for the session (sent to the server for targeting)
+ */
+export interface TrafficSource {
+  utmSource?: string;
+  utmMedium?: string;
+  utmCampaign?: string;
+  referrerDomain?: string;
+}
+
+/**
+ * Token of ?rb_debug=<token> ("why didn't my popup show?" trace), issued on the
+ * admin targeting debugger page. Null when the page has no debug flag.
+ */
+export function getDebugToken(search: string): string | null {
+  return new URLSearchParams(search).get("rb_debug") || null;
+}
+
+/**
+ * Read utm_source / utm_medium / utm_campaign from a query string
+ */
+export function parseUTMParams(search: string): UTMParams {
+  const params = new URLSearchParams(search);
+  return {
+    utmSource: params.get("utm_source"),
+    utmMedium: params.get("utm_medium"),
+    utmCampaign: params.get("utm_campaign"),
+  };
+}
+
+/**
+ * Hostname of an external referrer, without "www." (null for internal or missing referrers)
+ */
+export function getReferrerDomain(referrer: string, currentHost: string): string | null {
+  if (!referrer) return null;
+
+  try {
+    const host = new URL(referrer).hostname.toLowerCase().replace(/^www\./, "");
+    const current = currentHost.toLowerCase().replace(/^www\./, "");
+    return host && host !== current ? host : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the traffic source for a landing page
+ */
+export function buildTrafficSource(
+  search: string,
+  referrer: string,
+  currentHost: string
+): TrafficSource {
+  const utm = parseUTMParams(search);
+  const source: TrafficSource = {};
+
+  if (utm.utmSource) source.utmSource = utm.utmSource;
+  if (utm.utmMedium) source.utmMedium = utm.utmMedium;
+  if (utm.utmCampaign) source.utmCampaign = utm.utmCampaign;
+
+  const referrerDomain = getReferrerDomain(referrer, currentHost);
+  if (referrerDomain) source.referrerDomain = referrerDomain;
+
+  return source;
+}
+
 /**
  * Add UTM parameters to a URL
  */
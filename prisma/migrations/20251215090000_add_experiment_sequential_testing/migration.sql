@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "experiments" ADD COLUMN     "conclusion" TEXT,
+ADD COLUMN     "lastEvaluatedAt" TIMESTAMP(3);
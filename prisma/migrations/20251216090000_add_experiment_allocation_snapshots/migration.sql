@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "experiment_allocation_snapshots" (
+    "id" TEXT NOT NULL,
+    "experimentId" TEXT NOT NULL,
+    "algorithm" TEXT NOT NULL,
+    "weights" JSONB NOT NULL,
+    "impressions" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "experiment_allocation_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "experiment_allocation_snapshots_experimentId_createdAt_idx" ON "experiment_allocation_snapshots"("experimentId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "experiment_allocation_snapshots" ADD CONSTRAINT "experiment_allocation_snapshots_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "experiments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
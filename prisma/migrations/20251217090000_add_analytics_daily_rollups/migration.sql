@@ -0,0 +1,57 @@
+-- AlterTable
+ALTER TABLE "stores" ADD COLUMN "analyticsRolledUpAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "campaign_daily_rollups" (
+    "campaignId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "experimentId" TEXT,
+    "variantKey" "VariantKey",
+    "impressions" INTEGER NOT NULL DEFAULT 0,
+    "clicks" INTEGER NOT NULL DEFAULT 0,
+    "submits" INTEGER NOT NULL DEFAULT 0,
+    "closes" INTEGER NOT NULL DEFAULT 0,
+    "couponsIssued" INTEGER NOT NULL DEFAULT 0,
+    "leads" INTEGER NOT NULL DEFAULT 0,
+    "orders" INTEGER NOT NULL DEFAULT 0,
+    "revenue" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "discount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "campaign_daily_rollups_pkey" PRIMARY KEY ("campaignId","date")
+);
+
+-- CreateTable
+CREATE TABLE "campaign_device_daily_rollups" (
+    "campaignId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "deviceType" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "impressions" INTEGER NOT NULL DEFAULT 0,
+    "clicks" INTEGER NOT NULL DEFAULT 0,
+    "submits" INTEGER NOT NULL DEFAULT 0,
+    "closes" INTEGER NOT NULL DEFAULT 0,
+    "couponsIssued" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "campaign_device_daily_rollups_pkey" PRIMARY KEY ("campaignId","date","deviceType")
+);
+
+-- CreateIndex
+CREATE INDEX "campaign_daily_rollups_storeId_date_idx" ON "campaign_daily_rollups"("storeId", "date");
+
+-- CreateIndex
+CREATE INDEX "campaign_device_daily_rollups_storeId_date_idx" ON "campaign_device_daily_rollups"("storeId", "date");
+
+-- AddForeignKey
+ALTER TABLE "campaign_daily_rollups" ADD CONSTRAINT "campaign_daily_rollups_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_daily_rollups" ADD CONSTRAINT "campaign_daily_rollups_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_device_daily_rollups" ADD CONSTRAINT "campaign_device_daily_rollups_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_device_daily_rollups" ADD CONSTRAINT "campaign_device_daily_rollups_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
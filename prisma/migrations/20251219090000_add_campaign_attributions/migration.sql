@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "campaign_attributions" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "credit" DECIMAL(7,6) NOT NULL,
+    "revenue" DECIMAL(65,30) NOT NULL,
+    "discount" DECIMAL(65,30) NOT NULL,
+    "touchpoints" INTEGER NOT NULL,
+    "orderedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "campaign_attributions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "campaign_attributions_orderId_model_campaignId_key" ON "campaign_attributions"("orderId", "model", "campaignId");
+
+-- CreateIndex
+CREATE INDEX "campaign_attributions_campaignId_model_orderedAt_idx" ON "campaign_attributions"("campaignId", "model", "orderedAt");
+
+-- CreateIndex
+CREATE INDEX "campaign_attributions_storeId_orderedAt_idx" ON "campaign_attributions"("storeId", "orderedAt");
+
+-- CreateIndex
+CREATE INDEX "popup_events_storeId_visitorId_createdAt_idx" ON "popup_events"("storeId", "visitorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "popup_events_sessionId_idx" ON "popup_events"("sessionId");
+
+-- AddForeignKey
+ALTER TABLE "campaign_attributions" ADD CONSTRAINT "campaign_attributions_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_attributions" ADD CONSTRAINT "campaign_attributions_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterEnum
+ALTER TYPE "PopupEventType" ADD VALUE 'HOLDOUT';
+
+-- CreateTable
+CREATE TABLE "order_visitors" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "visitorId" TEXT NOT NULL,
+    "customerId" TEXT,
+    "totalPrice" DECIMAL(65,30) NOT NULL,
+    "orderedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_visitors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "order_visitors_storeId_orderId_key" ON "order_visitors"("storeId", "orderId");
+
+-- CreateIndex
+CREATE INDEX "order_visitors_storeId_visitorId_orderedAt_idx" ON "order_visitors"("storeId", "visitorId", "orderedAt");
+
+-- AddForeignKey
+ALTER TABLE "order_visitors" ADD CONSTRAINT "order_visitors_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
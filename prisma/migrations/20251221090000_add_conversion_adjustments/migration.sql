@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "campaign_conversions" ADD COLUMN     "netRevenue" DECIMAL(65,30),
+ADD COLUMN     "refundedAmount" DECIMAL(65,30) NOT NULL DEFAULT 0,
+ADD COLUMN     "refundIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "cancelledAt" TIMESTAMP(3),
+ADD COLUMN     "adjustedAt" TIMESTAMP(3);
+
+-- Existing conversions were never refunded
+UPDATE "campaign_conversions" SET "netRevenue" = "totalPrice";
+ALTER TABLE "campaign_conversions" ALTER COLUMN "netRevenue" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "campaign_attributions" ADD COLUMN     "netRevenue" DECIMAL(65,30),
+ADD COLUMN     "cancelledAt" TIMESTAMP(3);
+
+UPDATE "campaign_attributions" SET "netRevenue" = "revenue";
+ALTER TABLE "campaign_attributions" ALTER COLUMN "netRevenue" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "campaign_daily_rollups" ADD COLUMN     "grossRevenue" DECIMAL(65,30) NOT NULL DEFAULT 0;
+
+-- Rolled up revenue was gross until now, and gross equals net without refunds
+UPDATE "campaign_daily_rollups" SET "grossRevenue" = "revenue";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "stores" ADD COLUMN "reportSentThrough" DATE;
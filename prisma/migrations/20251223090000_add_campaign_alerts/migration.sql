@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "PopupEventType" ADD VALUE 'ERROR';
+
+-- CreateTable
+CREATE TABLE "campaign_alerts" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "campaignId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "current" DOUBLE PRECISION NOT NULL,
+    "baseline" DOUBLE PRECISION NOT NULL,
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "notifiedAt" TIMESTAMP(3),
+    "dismissedAt" TIMESTAMP(3),
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "campaign_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "campaign_alerts_storeId_resolvedAt_idx" ON "campaign_alerts"("storeId", "resolvedAt");
+
+-- CreateIndex
+CREATE INDEX "campaign_alerts_campaignId_type_resolvedAt_idx" ON "campaign_alerts"("campaignId", "type", "resolvedAt");
+
+-- AddForeignKey
+ALTER TABLE "campaign_alerts" ADD CONSTRAINT "campaign_alerts_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "campaign_alerts" ADD CONSTRAINT "campaign_alerts_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "campaigns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "lead_orders" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "customerId" TEXT,
+    "email" TEXT,
+    "totalPrice" DECIMAL(65,30) NOT NULL,
+    "netRevenue" DECIMAL(65,30) NOT NULL,
+    "orderedAt" TIMESTAMP(3) NOT NULL,
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "lead_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "lead_orders_storeId_orderId_key" ON "lead_orders"("storeId", "orderId");
+
+-- CreateIndex
+CREATE INDEX "lead_orders_storeId_customerId_idx" ON "lead_orders"("storeId", "customerId");
+
+-- CreateIndex
+CREATE INDEX "lead_orders_storeId_email_idx" ON "lead_orders"("storeId", "email");
+
+-- AddForeignKey
+ALTER TABLE "lead_orders" ADD CONSTRAINT "lead_orders_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "esp_integrations" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "credentials" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "defaultListId" TEXT,
+    "campaignLists" JSONB NOT NULL DEFAULT '{}',
+    "propertyMapping" JSONB NOT NULL DEFAULT '{}',
+    "verifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "esp_integrations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "esp_sync_jobs" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "integrationId" TEXT NOT NULL,
+    "leadId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3) DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT,
+    "externalId" TEXT,
+    "deliveredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "esp_sync_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "esp_integrations_storeId_provider_key" ON "esp_integrations"("storeId", "provider");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "esp_sync_jobs_integrationId_leadId_key" ON "esp_sync_jobs"("integrationId", "leadId");
+
+-- CreateIndex
+CREATE INDEX "esp_sync_jobs_status_nextAttemptAt_idx" ON "esp_sync_jobs"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "esp_sync_jobs_storeId_createdAt_idx" ON "esp_sync_jobs"("storeId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "esp_integrations" ADD CONSTRAINT "esp_integrations_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "esp_sync_jobs" ADD CONSTRAINT "esp_sync_jobs_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "stores"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "esp_sync_jobs" ADD CONSTRAINT "esp_sync_jobs_integrationId_fkey" FOREIGN KEY ("integrationId") REFERENCES "esp_integrations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "esp_sync_jobs" ADD CONSTRAINT "esp_sync_jobs_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "leads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "leads" ADD COLUMN "discountUsedAt" TIMESTAMP(3);
+
+-- Backfill from orders already credited to a lead's code
+UPDATE "leads" AS l
+SET "discountUsedAt" = used."usedAt"
+FROM (
+    SELECT l2."id", MIN(c."createdAt") AS "usedAt"
+    FROM "leads" AS l2
+    JOIN "campaign_conversions" AS c
+      ON c."campaignId" = l2."campaignId"
+     AND l2."discountCode" = ANY(c."discountCodes")
+    WHERE l2."discountCode" IS NOT NULL
+    GROUP BY l2."id"
+) AS used
+WHERE l."id" = used."id";
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "leads" ADD COLUMN "confirmationSentAt" TIMESTAMP(3),
+ADD COLUMN "confirmedAt" TIMESTAMP(3);
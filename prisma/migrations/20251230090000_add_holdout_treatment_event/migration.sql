@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "PopupEventType" ADD VALUE 'TREATMENT';
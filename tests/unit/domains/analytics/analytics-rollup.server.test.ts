@@ -0,0 +1,321 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import prisma from "~/db.server";
+import {
+  AnalyticsRollupService,
+  getLocalDateKey,
+  getLocalMidnight,
+  shiftDateKey,
+} from "~/domains/analytics/analytics-rollup.server";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    store: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+    campaign: {
+      findFirst: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
+    $executeRaw: vi.fn(),
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("~/lib/logger.server", () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+const mockPrisma = prisma as unknown as {
+  store: {
+    findMany: ReturnType<typeof vi.fn>;
+    findUnique: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+  };
+  campaign: {
+    findFirst: ReturnType<typeof vi.fn>;
+  };
+  $queryRaw: ReturnType<typeof vi.fn>;
+  $executeRaw: ReturnType<typeof vi.fn>;
+  $transaction: ReturnType<typeof vi.fn>;
+};
+
+describe("AnalyticsRollupService", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  describe("date helpers", () => {
+    it("buckets an instant into the local day of a timezone", () => {
+      const instant = new Date("2025-03-10T03:30:00.000Z");
+
+      expect(getLocalDateKey(instant, "UTC")).toBe("2025-03-10");
+      expect(getLocalDateKey(instant, "America/New_York")).toBe("2025-03-09");
+      expect(getLocalDateKey(instant, "Asia/Tokyo")).toBe("2025-03-10");
+    });
+
+    it("shifts date keys across month and year boundaries", () => {
+      expect(shiftDateKey("2025-01-31", 1)).toBe("2025-02-01");
+      expect(shiftDateKey("2025-01-01", -1)).toBe("2024-12-31");
+      expect(shiftDateKey("2024-02-28", 1)).toBe("2024-02-29");
+    });
+
+    it("finds the instant a local day starts, including DST change days", () => {
+      expect(getLocalMidnight("2025-03-10", "UTC").toISOString()).toBe("2025-03-10T00:00:00.000Z");
+      expect(getLocalMidnight("2025-03-10", "Asia/Tokyo").toISOString()).toBe(
+        "2025-03-09T15:00:00.000Z"
+      );
+      // Clocks moved forward at 02:00 that day, midnight is still EST
+      expect(getLocalMidnight("2025-03-09", "America/New_York").toISOString()).toBe(
+        "2025-03-09T05:00:00.000Z"
+      );
+      expect(getLocalMidnight("2025-03-10", "America/New_York").toISOString()).toBe(
+        "2025-03-10T04:00:00.000Z"
+      );
+    });
+  });
+
+  describe("rollupAllStores", () => {
+    it("rebuilds from the local day of the last run and advances the watermark", async () => {
+      const now = new Date("2025-03-10T03:30:00.000Z");
+      mockPrisma.store.findMany.mockResolvedValueOnce([
+        {
+          id: "store-1",
+          timezone: "America/New_York",
+          analyticsRolledUpAt: new Date("2025-03-08T23:00:00.000Z"),
+          eventsArchivedBefore: null,
+        },
+      ]);
+      const recompute = vi
+        .spyOn(AnalyticsRollupService, "recomputeStore")
+        .mockResolvedValue({ storeId: "store-1", from: "2025-03-08", to: "2025-03-09", days: 2 });
+
+      const summary = await AnalyticsRollupService.rollupAllStores(now);
+
+      expect(recompute).toHaveBeenCalledWith(
+        "store-1",
+        { from: "2025-03-08", to: "2025-03-09" },
+        { timezone: "America/New_York", eventsArchivedBefore: null }
+      );
+      expect(mockPrisma.store.update).toHaveBeenCalledWith({
+        where: { id: "store-1" },
+        data: { analyticsRolledUpAt: now },
+      });
+      expect(summary).toMatchObject({ rolledUp: 1, errors: 0 });
+      expect(summary.results[0].days).toBe(2);
+    });
+
+    it("backfills 90 days for stores never rolled up and falls back to UTC", async () => {
+      mockPrisma.store.findMany.mockResolvedValueOnce([
+        {
+          id: "store-1",
+          timezone: "Not/AZone",
+          analyticsRolledUpAt: null,
+          eventsArchivedBefore: null,
+        },
+      ]);
+      const recompute = vi
+        .spyOn(AnalyticsRollupService, "recomputeStore")
+        .mockResolvedValue({ storeId: "store-1", from: "", to: "", days: 0 });
+
+      await AnalyticsRollupService.rollupAllStores(new Date("2025-03-31T12:00:00.000Z"));
+
+      expect(recompute).toHaveBeenCalledWith(
+        "store-1",
+        { from: "2025-01-01", to: "2025-03-31" },
+        { timezone: "UTC", eventsArchivedBefore: null }
+      );
+    });
+
+    it("keeps the watermark of a failed store and continues with the others", async () => {
+      mockPrisma.store.findMany.mockResolvedValueOnce([
+        { id: "store-1", timezone: "UTC", analyticsRolledUpAt: new Date() },
+        { id: "store-2", timezone: "UTC", analyticsRolledUpAt: new Date() },
+      ]);
+      vi.spyOn(AnalyticsRollupService, "recomputeStore")
+        .mockRejectedValueOnce(new Error("deadlock"))
+        .mockResolvedValueOnce({ storeId: "store-2", from: "", to: "", days: 1 });
+
+      const summary = await AnalyticsRollupService.rollupAllStores();
+
+      expect(summary).toMatchObject({ rolledUp: 1, errors: 1 });
+      expect(mockPrisma.store.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.store.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: "store-2" } })
+      );
+    });
+  });
+
+  describe("recomputeStore", () => {
+    it("rejects malformed or inverted ranges", async () => {
+      await expect(
+        AnalyticsRollupService.recomputeStore(
+          "store-1",
+          { from: "2025-3-1", to: "2025-03-02" },
+          { timezone: "UTC", eventsArchivedBefore: null }
+        )
+      ).rejects.toMatchObject({ code: "INVALID_ROLLUP_RANGE" });
+      await expect(
+        AnalyticsRollupService.recomputeStore(
+          "store-1",
+          { from: "2025-03-02", to: "2025-03-01" },
+          { timezone: "UTC", eventsArchivedBefore: null }
+        )
+      ).rejects.toMatchObject({ code: "INVALID_ROLLUP_RANGE" });
+    });
+
+    it("throws when the store does not exist", async () => {
+      mockPrisma.store.findUnique.mockResolvedValueOnce(null);
+
+      await expect(
+        AnalyticsRollupService.recomputeStore("missing", { from: "2025-03-01", to: "2025-03-01" })
+      ).rejects.toMatchObject({ code: "STORE_NOT_FOUND" });
+    });
+
+    it("rebuilds long ranges in 31-day chunks using the store timezone", async () => {
+      mockPrisma.store.findUnique.mockResolvedValueOnce({
+        timezone: "Europe/Paris",
+        eventsArchivedBefore: null,
+      });
+      const rebuildDays = vi
+        .spyOn(AnalyticsRollupService as any, "rebuildDays")
+        .mockResolvedValue(undefined);
+
+      const result = await AnalyticsRollupService.recomputeStore("store-1", {
+        from: "2025-01-01",
+        to: "2025-03-05",
+      });
+
+      expect(rebuildDays).toHaveBeenCalledTimes(3);
+      expect(rebuildDays).toHaveBeenNthCalledWith(
+        1,
+        "store-1",
+        { from: "2025-01-01", to: "2025-01-31" },
+        "Europe/Paris"
+      );
+      expect(rebuildDays).toHaveBeenNthCalledWith(
+        2,
+        "store-1",
+        { from: "2025-02-01", to: "2025-03-03" },
+        "Europe/Paris"
+      );
+      expect(rebuildDays).toHaveBeenNthCalledWith(
+        3,
+        "store-1",
+        { from: "2025-03-04", to: "2025-03-05" },
+        "Europe/Paris"
+      );
+      expect(result).toEqual({
+        storeId: "store-1",
+        from: "2025-01-01",
+        to: "2025-03-05",
+        days: 64,
+      });
+    });
+
+    it("never rebuilds days whose raw events were archived", async () => {
+      const rebuildDays = vi
+        .spyOn(AnalyticsRollupService as any, "rebuildDays")
+        .mockResolvedValue(undefined);
+      const context = {
+        timezone: "America/New_York",
+        // Local midnight of March 1st in New York
+        eventsArchivedBefore: new Date("2025-03-01T05:00:00.000Z"),
+      };
+
+      const partial = await AnalyticsRollupService.recomputeStore(
+        "store-1",
+        { from: "2025-02-20", to: "2025-03-02" },
+        context
+      );
+      const archived = await AnalyticsRollupService.recomputeStore(
+        "store-1",
+        { from: "2025-02-01", to: "2025-02-28" },
+        context
+      );
+
+      expect(rebuildDays).toHaveBeenCalledTimes(1);
+      expect(rebuildDays).toHaveBeenCalledWith(
+        "store-1",
+        { from: "2025-03-01", to: "2025-03-02" },
+        "America/New_York"
+      );
+      expect(partial).toMatchObject({ from: "2025-03-01", days: 2 });
+      expect(archived.days).toBe(0);
+    });
+  });
+
+  describe("getTotalsByCampaign", () => {
+    it("returns an empty map without querying for no campaigns", async () => {
+      const result = await AnalyticsRollupService.getTotalsByCampaign([]);
+
+      expect(result.size).toBe(0);
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it("converts summed rows to numbers", async () => {
+      mockPrisma.$queryRaw.mockResolvedValueOnce([
+        {
+          campaignId: "camp-1",
+          impressions: BigInt(120),
+          clicks: BigInt(12),
+          submits: BigInt(9),
+          closes: BigInt(30),
+          couponsIssued: BigInt(8),
+          leads: BigInt(9),
+          orders: BigInt(3),
+          revenue: "149.97",
+          grossRevenue: "179.96",
+          discount: "15.00",
+        },
+      ]);
+
+      const result = await AnalyticsRollupService.getTotalsByCampaign(["camp-1", "camp-2"], {
+        from: new Date("2025-03-01T00:00:00.000Z"),
+      });
+
+      expect(result.get("camp-1")).toEqual({
+        impressions: 120,
+        clicks: 12,
+        submits: 9,
+        closes: 30,
+        couponsIssued: 8,
+        leads: 9,
+        orders: 3,
+        revenue: 149.97,
+        grossRevenue: 179.96,
+        discount: 15,
+      });
+      expect(result.has("camp-2")).toBe(false);
+    });
+  });
+
+  describe("getDailyTotals", () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2025-03-10T03:30:00.000Z"));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("fills missing local days up to today in the store timezone", async () => {
+      mockPrisma.campaign.findFirst.mockResolvedValueOnce({
+        store: { timezone: "America/New_York" },
+      });
+      mockPrisma.$queryRaw.mockResolvedValueOnce([
+        { date: new Date("2025-03-08T00:00:00.000Z"), impressions: BigInt(10), submits: BigInt(2) },
+      ]);
+
+      const result = await AnalyticsRollupService.getDailyTotals(["camp-1"], 3);
+
+      // 03:30 UTC on the 10th is still the 9th in New York
+      expect(result.map((day) => day.date)).toEqual(["2025-03-07", "2025-03-08", "2025-03-09"]);
+      expect(result[1]).toMatchObject({ impressions: 10, submits: 2, revenue: 0 });
+      expect(result[0].impressions).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import {
+  BASELINE_DAYS,
+  EMPTY_PERFORMANCE_COUNTS,
+  detectAnomalies,
+  getComparisonWindows,
+  sumCounts,
+  type PerformanceCounts,
+} from "~/domains/analytics/anomaly-detection";
+
+const counts = (overrides: Partial<PerformanceCounts>): PerformanceCounts => ({
+  ...EMPTY_PERFORMANCE_COUNTS,
+  ...overrides,
+});
+
+const week = (window: Partial<PerformanceCounts>) =>
+  Array.from({ length: BASELINE_DAYS }, () => counts(window));
+
+describe("getComparisonWindows", () => {
+  const now = new Date("2025-06-18T10:25:00.000Z");
+
+  it("compares the last complete hour with the same hour on previous days", () => {
+    const { current, baseline } = getComparisonWindows("hourly", now);
+
+    expect(current).toEqual({
+      from: new Date("2025-06-18T09:00:00.000Z"),
+      to: new Date("2025-06-18T10:00:00.000Z"),
+    });
+    expect(baseline).toHaveLength(BASELINE_DAYS);
+    expect(baseline[0]).toEqual({
+      from: new Date("2025-06-17T09:00:00.000Z"),
+      to: new Date("2025-06-17T10:00:00.000Z"),
+    });
+    expect(baseline[6].from).toEqual(new Date("2025-06-11T09:00:00.000Z"));
+  });
+
+  it("compares the last 24 hours with the 24 hours before on previous days", () => {
+    const { current, baseline } = getComparisonWindows("daily", now);
+
+    expect(current).toEqual({
+      from: new Date("2025-06-17T10:00:00.000Z"),
+      to: new Date("2025-06-18T10:00:00.000Z"),
+    });
+    expect(baseline[0]).toEqual({
+      from: new Date("2025-06-16T10:00:00.000Z"),
+      to: new Date("2025-06-17T10:00:00.000Z"),
+    });
+  });
+});
+
+describe("sumCounts", () => {
+  it("adds up the hours inside the window only", () => {
+    const window = {
+      from: new Date("2025-06-18T09:00:00.000Z"),
+      to: new Date("2025-06-18T11:00:00.000Z"),
+    };
+    const hours = [
+      { ...counts({ impressions: 5, submits: 1 }), hour: new Date("2025-06-18T08:00:00.000Z") },
+      { ...counts({ impressions: 10, submits: 2 }), hour: new Date("2025-06-18T09:00:00.000Z") },
+      { ...counts({ impressions: 20, leadErrors: 1 }), hour: new Date("2025-06-18T10:00:00.000Z") },
+      { ...counts({ impressions: 40 }), hour: new Date("2025-06-18T11:00:00.000Z") },
+    ];
+
+    expect(sumCounts(hours, window)).toEqual(
+      counts({ impressions: 30, submits: 2, leadErrors: 1 })
+    );
+  });
+});
+
+describe("detectAnomalies", () => {
+  it("returns nothing for normal performance", () => {
+    const anomalies = detectAnomalies(
+      counts({ impressions: 95, submits: 9, couponsIssued: 9 }),
+      week({ impressions: 100, submits: 10, couponsIssued: 10 })
+    );
+
+    expect(anomalies).toEqual([]);
+  });
+
+  it("flags impressions dropping to zero as critical", () => {
+    const [anomaly] = detectAnomalies(counts({}), week({ impressions: 100 }));
+
+    expect(anomaly).toMatchObject({
+      type: "impressions_drop",
+      severity: "critical",
+      message: "Impressions dropped to zero (usually 100)",
+      current: 0,
+      baseline: 100,
+    });
+  });
+
+  it("flags a large impression drop as a warning", () => {
+    const [anomaly] = detectAnomalies(counts({ impressions: 10 }), week({ impressions: 100 }));
+
+    expect(anomaly).toMatchObject({
+      type: "impressions_drop",
+      severity: "warning",
+      message: "Impressions dropped 90% (10 vs 100 usually)",
+    });
+  });
+
+  it("ignores impression drops of low-traffic campaigns", () => {
+    expect(detectAnomalies(counts({}), week({ impressions: 10 }))).toEqual([]);
+  });
+
+  it("flags a collapsed submit rate", () => {
+    const anomalies = detectAnomalies(
+      counts({ impressions: 100, submits: 2 }),
+      week({ impressions: 100, submits: 10 })
+    );
+
+    expect(anomalies).toEqual([
+      expect.objectContaining({
+        type: "submit_rate_drop",
+        severity: "warning",
+        message: "Submit rate collapsed from 10.0% to 2.0%",
+        current: 0.02,
+        baseline: 0.1,
+      }),
+    ]);
+  });
+
+  it("does not check the submit rate when too few submits are expected", () => {
+    const anomalies = detectAnomalies(
+      counts({ impressions: 30, submits: 0 }),
+      week({ impressions: 30, submits: 1 })
+    );
+
+    expect(anomalies).toEqual([]);
+  });
+
+  it("flags failing discount issuance", () => {
+    const anomalies = detectAnomalies(
+      counts({ impressions: 100, submits: 10, couponsIssued: 4, discountErrors: 6 }),
+      week({ impressions: 100, submits: 10, couponsIssued: 10 })
+    );
+
+    expect(anomalies).toEqual([
+      expect.objectContaining({
+        type: "discount_failures",
+        severity: "critical",
+        message: "Discount issuance failing: 6 of 10 attempts failed (60.0%)",
+        current: 0.6,
+        baseline: 0,
+      }),
+    ]);
+  });
+
+  it("ignores failure rates no worse than usual", () => {
+    const anomalies = detectAnomalies(
+      counts({ impressions: 100, submits: 20, leadErrors: 6 }),
+      week({ impressions: 100, submits: 20, leadErrors: 5 })
+    );
+
+    expect(anomalies).toEqual([]);
+  });
+
+  it("flags failing lead submissions", () => {
+    const anomalies = detectAnomalies(
+      counts({ impressions: 100, submits: 15, leadErrors: 5 }),
+      week({ impressions: 100, submits: 20 })
+    );
+
+    expect(anomalies).toEqual([
+      expect.objectContaining({ type: "lead_submit_failures", severity: "warning" }),
+    ]);
+  });
+});
@@ -0,0 +1,278 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    store: { findMany: vi.fn() },
+    campaign: { findMany: vi.fn() },
+    campaignAlert: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
+  },
+}));
+
+vi.mock("~/lib/mail-transport.server", () => ({
+  getMailTransport: vi.fn(),
+  getMailFrom: vi.fn(() => "Revenue Boost <alerts@example.com>"),
+}));
+
+vi.mock("~/lib/logger.server", () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from "~/db.server";
+import { getMailTransport } from "~/lib/mail-transport.server";
+import { AnomalyMonitorService } from "~/domains/analytics/anomaly-monitor.server";
+
+const mockPrisma = prisma as unknown as {
+  store: { findMany: ReturnType<typeof vi.fn> };
+  campaign: { findMany: ReturnType<typeof vi.fn> };
+  campaignAlert: {
+    findMany: ReturnType<typeof vi.fn>;
+    create: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
+  };
+  $queryRaw: ReturnType<typeof vi.fn>;
+};
+
+const send = vi.fn();
+const fetchMock = vi.fn();
+
+const NOW = new Date("2025-06-18T10:05:00.000Z");
+const STORE = { id: "store-1", shopifyDomain: "shop.myshopify.com" };
+const SETTINGS = AnomalyMonitorService.getSettings({});
+
+/** The same hour (09:00 UTC) on each of the previous 7 days */
+function baselineRows(impressions: number, submits: number) {
+  return Array.from({ length: 7 }, (_, index) => ({
+    campaignId: "camp-1",
+    hour: new Date(Date.UTC(2025, 5, 17 - index, 9)),
+    impressions,
+    submits,
+    couponsIssued: 0,
+    discountErrors: 0,
+    leadErrors: 0,
+  }));
+}
+
+describe("AnomalyMonitorService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal("fetch", fetchMock);
+    fetchMock.mockResolvedValue(new Response(null, { status: 200 }));
+    vi.mocked(getMailTransport).mockReturnValue({ driver: "file", send });
+    send.mockResolvedValue("message-id");
+
+    mockPrisma.campaign.findMany.mockResolvedValue([{ id: "camp-1", name: "Spring Sale" }]);
+    mockPrisma.campaignAlert.findMany.mockResolvedValue([]);
+    mockPrisma.campaignAlert.create.mockResolvedValue({ id: "alert-1" });
+    mockPrisma.campaignAlert.updateMany.mockResolvedValue({ count: 0 });
+  });
+
+  describe("getSettings", () => {
+    it("applies defaults", () => {
+      expect(AnomalyMonitorService.getSettings(null)).toEqual({
+        enabled: true,
+        granularity: "daily",
+        emails: [],
+      });
+    });
+
+    it("reads the alerts settings", () => {
+      expect(
+        AnomalyMonitorService.getSettings({
+          alerts: { granularity: "hourly", emails: ["ops@example.com"] },
+        })
+      ).toMatchObject({ granularity: "hourly", emails: ["ops@example.com"] });
+    });
+  });
+
+  describe("checkStore", () => {
+    it("opens an alert for a new anomaly and notifies once", async () => {
+      // Hourly: no impressions at 09:00 today, 100 at 09:00 on previous days
+      mockPrisma.$queryRaw.mockResolvedValue(baselineRows(100, 10));
+      const settings = {
+        ...SETTINGS,
+        granularity: "hourly" as const,
+        webhookUrl: "https://hooks.example.com/alerts",
+        emails: ["ops@example.com"],
+      };
+
+      const result = await AnomalyMonitorService.checkStore(STORE, settings, NOW);
+
+      expect(result).toEqual({ campaigns: 1, opened: 1, resolved: 0 });
+      expect(mockPrisma.campaignAlert.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            storeId: "store-1",
+            campaignId: "camp-1",
+            type: "impressions_drop",
+            severity: "critical",
+            current: 0,
+            baseline: 100,
+          }),
+        })
+      );
+
+      expect(fetchMock).toHaveBeenCalledWith(
+        "https://hooks.example.com/alerts",
+        expect.objectContaining({ method: "POST" })
+      );
+      const payload = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(payload).toMatchObject({
+        event: "campaign_alerts.opened",
+        shop: "shop.myshopify.com",
+        alerts: [{ id: "alert-1", campaignName: "Spring Sale", type: "impressions_drop" }],
+      });
+
+      expect(send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: ["ops@example.com"],
+          text: expect.stringContaining("Spring Sale: Impressions dropped to zero"),
+        })
+      );
+      expect(mockPrisma.campaignAlert.updateMany).toHaveBeenLastCalledWith({
+        where: { id: { in: ["alert-1"] } },
+        data: { notifiedAt: NOW },
+      });
+    });
+
+    it("refreshes an alert that is still open without notifying again", async () => {
+      mockPrisma.$queryRaw.mockResolvedValue(baselineRows(100, 10));
+      mockPrisma.campaignAlert.findMany.mockResolvedValue([
+        { id: "alert-1", campaignId: "camp-1", type: "impressions_drop" },
+      ]);
+
+      const result = await AnomalyMonitorService.checkStore(
+        STORE,
+        { ...SETTINGS, granularity: "hourly", webhookUrl: "https://hooks.example.com/alerts" },
+        NOW
+      );
+
+      expect(result.opened).toBe(0);
+      expect(mockPrisma.campaignAlert.create).not.toHaveBeenCalled();
+      expect(mockPrisma.campaignAlert.update).toHaveBeenCalledWith({
+        where: { id: "alert-1" },
+        data: expect.objectContaining({ lastSeenAt: NOW }),
+      });
+      expect(mockPrisma.campaignAlert.updateMany).toHaveBeenCalledWith({
+        where: { storeId: "store-1", resolvedAt: null, id: { notIn: ["alert-1"] } },
+        data: { resolvedAt: NOW },
+      });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("resolves alerts once performance recovers", async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([
+        ...baselineRows(100, 10),
+        { ...baselineRows(100, 10)[0], hour: new Date("2025-06-18T09:00:00.000Z") },
+      ]);
+      mockPrisma.campaignAlert.findMany.mockResolvedValue([
+        { id: "alert-1", campaignId: "camp-1", type: "impressions_drop" },
+      ]);
+      mockPrisma.campaignAlert.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await AnomalyMonitorService.checkStore(
+        STORE,
+        { ...SETTINGS, granularity: "hourly" },
+        NOW
+      );
+
+      expect(result).toEqual({ campaigns: 1, opened: 0, resolved: 1 });
+      expect(mockPrisma.campaignAlert.updateMany).toHaveBeenCalledWith({
+        where: { storeId: "store-1", resolvedAt: null },
+        data: { resolvedAt: NOW },
+      });
+    });
+
+    it("keeps the alert unnotified when every channel fails", async () => {
+      mockPrisma.$queryRaw.mockResolvedValue(baselineRows(100, 10));
+      fetchMock.mockResolvedValueOnce(new Response(null, { status: 500 }));
+
+      const result = await AnomalyMonitorService.checkStore(
+        STORE,
+        { ...SETTINGS, granularity: "hourly", webhookUrl: "https://hooks.example.com/alerts" },
+        NOW
+      );
+
+      expect(result.opened).toBe(1);
+      expect(mockPrisma.campaignAlert.updateMany).not.toHaveBeenCalledWith(
+        expect.objectContaining({ data: { notifiedAt: NOW } })
+      );
+    });
+  });
+
+  describe("runAll", () => {
+    it("resolves open alerts of stores with alerts disabled and isolates failures", async () => {
+      mockPrisma.store.findMany.mockResolvedValue([
+        { ...STORE, settings: { alerts: { enabled: false } } },
+        { id: "store-2", shopifyDomain: "other.myshopify.com", settings: {} },
+      ]);
+      mockPrisma.campaignAlert.updateMany.mockResolvedValueOnce({ count: 2 });
+      mockPrisma.$queryRaw.mockRejectedValueOnce(new Error("db down"));
+
+      const summary = await AnomalyMonitorService.runAll(NOW);
+
+      expect(summary).toMatchObject({ processed: 1, errors: 1, opened: 0, resolved: 2 });
+      expect(summary.results).toEqual([
+        { storeId: "store-1", campaigns: 0, opened: 0, resolved: 2 },
+        { storeId: "store-2", campaigns: 0, opened: 0, resolved: 0, error: true },
+      ]);
+    });
+  });
+
+  describe("getOpenAlerts", () => {
+    it("lists critical alerts first", async () => {
+      const detectedAt = new Date("2025-06-18T10:00:00.000Z");
+      mockPrisma.campaignAlert.findMany.mockResolvedValue([
+        {
+          id: "a1",
+          campaignId: "camp-1",
+          type: "submit_rate_drop",
+          severity: "warning",
+          message: "Submit rate collapsed from 10.0% to 2.0%",
+          detectedAt,
+          campaign: { name: "Spring Sale" },
+        },
+        {
+          id: "a2",
+          campaignId: "camp-2",
+          type: "discount_failures",
+          severity: "critical",
+          message: "Discount issuance failing: 6 of 10 attempts failed (60.0%)",
+          detectedAt,
+          campaign: { name: "Welcome" },
+        },
+      ]);
+
+      const alerts = await AnomalyMonitorService.getOpenAlerts("store-1");
+
+      expect(alerts.map((alert) => alert.id)).toEqual(["a2", "a1"]);
+      expect(alerts[1]).toMatchObject({
+        campaignName: "Spring Sale",
+        detectedAt: "2025-06-18T10:00:00.000Z",
+      });
+      expect(mockPrisma.campaignAlert.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { storeId: "store-1", resolvedAt: null, dismissedAt: null },
+        })
+      );
+    });
+  });
+
+  describe("dismissAlert", () => {
+    it("only dismisses alerts of the store", async () => {
+      mockPrisma.campaignAlert.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(AnomalyMonitorService.dismissAlert("store-1", "a1")).resolves.toBe(true);
+      expect(mockPrisma.campaignAlert.updateMany).toHaveBeenCalledWith({
+        where: { id: "a1", storeId: "store-1", dismissedAt: null },
+        data: { dismissedAt: expect.any(Date) },
+      });
+    });
+  });
+});
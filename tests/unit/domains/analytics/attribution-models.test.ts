@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for Attribution Models
+ *
+ * Tests the pure credit split used for multi-touch attribution:
+ * - Last touch, first touch, linear and position-based weights
+ * - Collapsing consecutive touches of a campaign
+ * - Ordering and tie-breaking
+ */
+
+import { describe, it, expect } from "vitest";
+import { computeAttributionCredits, type Touchpoint } from "~/domains/analytics/attribution-models";
+
+const START = new Date("2025-06-01T00:00:00.000Z").getTime();
+const HOUR = 60 * 60 * 1000;
+
+function touch(campaignId: string, hours: number, type: Touchpoint["type"] = "CLICK"): Touchpoint {
+  return { campaignId, type, occurredAt: new Date(START + hours * HOUR) };
+}
+
+function creditsOf(
+  touchpoints: Touchpoint[],
+  model: Parameters<typeof computeAttributionCredits>[1]
+) {
+  return Object.fromEntries(
+    computeAttributionCredits(touchpoints, model).map((entry) => [entry.campaignId, entry.credit])
+  );
+}
+
+describe("computeAttributionCredits", () => {
+  const journey = [touch("a", 0), touch("b", 1), touch("c", 2), touch("d", 3)];
+
+  it("should return nothing without touchpoints", () => {
+    expect(computeAttributionCredits([], "linear")).toEqual([]);
+  });
+
+  it("should give a single campaign all the credit under every model", () => {
+    for (const model of ["last_touch", "first_touch", "linear", "position_based"] as const) {
+      expect(creditsOf([touch("a", 0)], model)).toEqual({ a: 1 });
+    }
+  });
+
+  it("should credit the last and first campaign", () => {
+    expect(creditsOf(journey, "last_touch")).toEqual({ d: 1 });
+    expect(creditsOf(journey, "first_touch")).toEqual({ a: 1 });
+  });
+
+  it("should split linear credit evenly", () => {
+    expect(creditsOf(journey, "linear")).toEqual({ a: 0.25, b: 0.25, c: 0.25, d: 0.25 });
+  });
+
+  it("should give 40% to each end and share 20% in between for position based", () => {
+    const credits = creditsOf(journey, "position_based");
+    expect(credits.a).toBeCloseTo(0.4);
+    expect(credits.b).toBeCloseTo(0.1);
+    expect(credits.c).toBeCloseTo(0.1);
+    expect(credits.d).toBeCloseTo(0.4);
+  });
+
+  it("should split two touches evenly for position based", () => {
+    expect(creditsOf([touch("a", 0), touch("b", 1)], "position_based")).toEqual({
+      a: 0.5,
+      b: 0.5,
+    });
+  });
+
+  it("should count consecutive touches of a campaign once", () => {
+    const touchpoints = [
+      touch("a", 0, "VIEW"),
+      touch("a", 1, "CLICK"),
+      touch("a", 2, "SUBMIT"),
+      touch("b", 3, "DISCOUNT_CODE"),
+    ];
+
+    const credits = computeAttributionCredits(touchpoints, "linear");
+
+    expect(credits).toEqual([
+      expect.objectContaining({ campaignId: "b", credit: 0.5, touchpoints: 1 }),
+      expect.objectContaining({ campaignId: "a", credit: 0.5, touchpoints: 3 }),
+    ]);
+  });
+
+  it("should add up the credit of a campaign seen again later in the journey", () => {
+    const touchpoints = [touch("a", 0), touch("b", 1), touch("a", 2)];
+
+    const credits = computeAttributionCredits(touchpoints, "linear");
+
+    expect(credits[0]).toMatchObject({ campaignId: "a", touchpoints: 2 });
+    expect(credits[0].credit).toBeCloseTo(2 / 3);
+    expect(credits[0].lastTouchAt).toEqual(new Date(START + 2 * HOUR));
+  });
+
+  it("should sort touchpoints chronologically regardless of input order", () => {
+    expect(creditsOf([touch("b", 5), touch("a", 1)], "last_touch")).toEqual({ b: 1 });
+  });
+
+  it("should break ties by the most recent touch", () => {
+    const credits = computeAttributionCredits([touch("a", 0), touch("b", 1)], "linear");
+
+    expect(credits.map((entry) => entry.campaignId)).toEqual(["b", "a"]);
+  });
+});
@@ -0,0 +1,297 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import prisma from "~/db.server";
+import { AttributionService } from "~/domains/analytics/attribution.server";
+import {
+  AttributionSettingsSchema,
+  MIN_EVENT_RETENTION_DAYS,
+} from "~/domains/store/types/settings";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    lead: {
+      findMany: vi.fn(),
+    },
+    popupEvent: {
+      findMany: vi.fn(),
+    },
+    campaignAttribution: {
+      createMany: vi.fn(),
+      groupBy: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("~/lib/logger.server", () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+const mockPrisma = prisma as unknown as {
+  lead: { findMany: ReturnType<typeof vi.fn> };
+  popupEvent: { findMany: ReturnType<typeof vi.fn> };
+  campaignAttribution: {
+    createMany: ReturnType<typeof vi.fn>;
+    groupBy: ReturnType<typeof vi.fn>;
+  };
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+const ORDERED_AT = new Date("2025-06-15T12:00:00.000Z");
+
+function daysBefore(days: number): Date {
+  return new Date(ORDERED_AT.getTime() - days * DAY);
+}
+
+function createOrder(overrides: Record<string, unknown> = {}) {
+  return {
+    orderId: "1001",
+    orderedAt: ORDERED_AT,
+    totalPrice: 200,
+    discountAmount: 20,
+    customerId: "12345",
+    ...overrides,
+  };
+}
+
+function createLead(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "lead-1",
+    campaignId: "campaign-a",
+    visitorId: "visitor-1",
+    sessionId: "session-1",
+    discountCode: null,
+    submittedAt: daysBefore(2),
+    ...overrides,
+  };
+}
+
+function createEvent(campaignId: string, eventType: string, createdAt: Date, leadId?: string) {
+  return { campaignId, eventType, createdAt, leadId: leadId ?? null };
+}
+
+const settings = (overrides: Record<string, unknown> = {}) =>
+  AttributionSettingsSchema.parse(overrides);
+
+describe("AttributionService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.lead.findMany.mockResolvedValue([]);
+    mockPrisma.popupEvent.findMany.mockResolvedValue([]);
+    mockPrisma.campaignAttribution.createMany.mockResolvedValue({ count: 0 });
+  });
+
+  describe("getSettings", () => {
+    it("should apply defaults", () => {
+      expect(AttributionService.getSettings(null)).toEqual({
+        model: "last_touch",
+        clickWindowDays: 7,
+        viewWindowDays: 0,
+      });
+    });
+
+    it("should read the store's attribution settings", () => {
+      expect(
+        AttributionService.getSettings({ attribution: { model: "linear", viewWindowDays: 1 } })
+      ).toEqual({ model: "linear", clickWindowDays: 7, viewWindowDays: 1 });
+    });
+
+    it("should cap the click window at the minimum event retention", () => {
+      expect(
+        AttributionService.getSettings({ attribution: { clickWindowDays: 90 } }).clickWindowDays
+      ).toBe(MIN_EVENT_RETENTION_DAYS);
+    });
+  });
+
+  describe("collectTouchpoints", () => {
+    it("should not query events when the shopper can't be identified", async () => {
+      const result = await AttributionService.collectTouchpoints(
+        "store-1",
+        createOrder({ customerId: undefined }),
+        settings()
+      );
+
+      expect(result).toEqual({ touchpoints: [], leads: [] });
+      expect(mockPrisma.lead.findMany).not.toHaveBeenCalled();
+      expect(mockPrisma.popupEvent.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should only load impressions when a view window is set", async () => {
+      mockPrisma.lead.findMany.mockResolvedValue([createLead()]);
+
+      await AttributionService.collectTouchpoints("store-1", createOrder(), settings());
+      expect(mockPrisma.popupEvent.findMany.mock.calls[0][0].where.eventType).toEqual({
+        in: ["CLICK", "SUBMIT", "COUPON_ISSUED"],
+      });
+
+      await AttributionService.collectTouchpoints(
+        "store-1",
+        createOrder(),
+        settings({ viewWindowDays: 1 })
+      );
+      expect(mockPrisma.popupEvent.findMany.mock.calls[1][0].where.eventType).toEqual({
+        in: ["CLICK", "SUBMIT", "COUPON_ISSUED", "VIEW"],
+      });
+    });
+
+    it("should apply the view window to impressions and the click window to the rest", async () => {
+      mockPrisma.lead.findMany.mockResolvedValue([createLead()]);
+      mockPrisma.popupEvent.findMany.mockResolvedValue([
+        createEvent("campaign-old", "CLICK", daysBefore(10)),
+        createEvent("campaign-view-old", "VIEW", daysBefore(3)),
+        createEvent("campaign-a", "SUBMIT", daysBefore(2), "lead-1"),
+        createEvent("campaign-view", "VIEW", daysBefore(0.5)),
+      ]);
+
+      const { touchpoints } = await AttributionService.collectTouchpoints(
+        "store-1",
+        createOrder(),
+        settings({ viewWindowDays: 1 })
+      );
+
+      expect(touchpoints.map((t) => t.campaignId)).toEqual(["campaign-a", "campaign-view"]);
+    });
+
+    it("should fall back to the lead submission when its events are missing", async () => {
+      mockPrisma.lead.findMany.mockResolvedValue([
+        createLead(),
+        createLead({ id: "lead-2", campaignId: "campaign-b", submittedAt: daysBefore(1) }),
+      ]);
+      mockPrisma.popupEvent.findMany.mockResolvedValue([
+        createEvent("campaign-a", "SUBMIT", daysBefore(2), "lead-1"),
+      ]);
+
+      const { touchpoints } = await AttributionService.collectTouchpoints(
+        "store-1",
+        createOrder(),
+        settings()
+      );
+
+      expect(touchpoints).toEqual([
+        { campaignId: "campaign-a", type: "SUBMIT", occurredAt: daysBefore(2) },
+        { campaignId: "campaign-b", type: "SUBMIT", occurredAt: daysBefore(1) },
+      ]);
+    });
+
+    it("should add discount codes as the last touch", async () => {
+      mockPrisma.lead.findMany.mockResolvedValue([createLead({ id: "lead-code" })]);
+
+      const { touchpoints } = await AttributionService.collectTouchpoints(
+        "store-1",
+        createOrder({ customerId: undefined }),
+        settings(),
+        [{ campaignId: "campaign-code", code: "SAVE10", leadId: "lead-code" }]
+      );
+
+      expect(mockPrisma.lead.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { storeId: "store-1", OR: [{ id: { in: ["lead-code"] } }] },
+        })
+      );
+      expect(touchpoints[touchpoints.length - 1]).toEqual({
+        campaignId: "campaign-code",
+        type: "DISCOUNT_CODE",
+        occurredAt: ORDERED_AT,
+      });
+    });
+  });
+
+  describe("attributeOrder", () => {
+    beforeEach(() => {
+      mockPrisma.lead.findMany.mockResolvedValue([createLead()]);
+      mockPrisma.popupEvent.findMany.mockResolvedValue([
+        createEvent("campaign-a", "SUBMIT", daysBefore(2), "lead-1"),
+        createEvent("campaign-b", "CLICK", daysBefore(1)),
+      ]);
+    });
+
+    it("should store revenue and discount shares for every model", async () => {
+      await AttributionService.attributeOrder("store-1", createOrder(), settings());
+
+      const { data, skipDuplicates } = mockPrisma.campaignAttribution.createMany.mock.calls[0][0];
+      expect(skipDuplicates).toBe(true);
+      expect(data).toHaveLength(6);
+      expect(data).toContainEqual(
+        expect.objectContaining({
+          model: "linear",
+          campaignId: "campaign-a",
+          credit: 0.5,
+          revenue: 100,
+          netRevenue: 100,
+          discount: 10,
+          orderId: "1001",
+          orderedAt: ORDERED_AT,
+        })
+      );
+    });
+
+    it("should pick the primary campaign and its lead from the store's model", async () => {
+      const result = await AttributionService.attributeOrder(
+        "store-1",
+        createOrder(),
+        settings({ model: "first_touch" })
+      );
+
+      expect(result.primary?.campaignId).toBe("campaign-a");
+      expect(result.primaryLead?.id).toBe("lead-1");
+      expect(result.credits.last_touch[0].campaignId).toBe("campaign-b");
+    });
+
+    it("should still return the attribution when storing credits fails", async () => {
+      mockPrisma.campaignAttribution.createMany.mockRejectedValue(new Error("db down"));
+
+      const result = await AttributionService.attributeOrder("store-1", createOrder(), settings());
+
+      expect(result.primary?.campaignId).toBe("campaign-b");
+    });
+
+    it("should not write anything without touchpoints", async () => {
+      mockPrisma.lead.findMany.mockResolvedValue([]);
+
+      const result = await AttributionService.attributeOrder("store-1", createOrder(), settings());
+
+      expect(result.primary).toBeNull();
+      expect(mockPrisma.campaignAttribution.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getRevenueByCampaign", () => {
+    it("should sum credited net revenue per campaign", async () => {
+      mockPrisma.campaignAttribution.groupBy.mockResolvedValue([
+        { campaignId: "campaign-a", _sum: { credit: 1.5, netRevenue: 300, discount: 30 } },
+        { campaignId: "campaign-b", _sum: { credit: 0, netRevenue: 0, discount: 0 } },
+      ]);
+      const from = new Date("2025-06-01T00:00:00.000Z");
+
+      const result = await AttributionService.getRevenueByCampaign(
+        ["campaign-a", "campaign-b"],
+        "linear",
+        { from }
+      );
+
+      expect(mockPrisma.campaignAttribution.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            campaignId: { in: ["campaign-a", "campaign-b"] },
+            model: "linear",
+            cancelledAt: null,
+            orderedAt: { gte: from },
+          },
+        })
+      );
+      expect(result.get("campaign-a")).toEqual({
+        revenue: 300,
+        discount: 30,
+        orderCount: 1.5,
+        aov: 200,
+      });
+      expect(result.has("campaign-b")).toBe(false);
+    });
+
+    it("should throw a ServiceError when the query fails", async () => {
+      mockPrisma.campaignAttribution.groupBy.mockRejectedValue(new Error("db down"));
+
+      await expect(
+        AttributionService.getRevenueByCampaign(["campaign-a"], "linear")
+      ).rejects.toMatchObject({ code: "ATTRIBUTION_REVENUE_FAILED" });
+    });
+  });
+});
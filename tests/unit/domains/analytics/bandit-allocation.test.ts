@@ -0,0 +1,145 @@
+/**
+ * Unit Tests for Bandit Allocation
+ *
+ * Tests the pure bandit helpers used for experiment traffic allocation:
+ * - Thompson sampling and epsilon-greedy shares
+ * - Minimum allocation floor
+ * - Warm-up even split
+ * - Weighted selection
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  applyMinimumAllocation,
+  computeBanditAllocation,
+  epsilonGreedyShares,
+  selectByWeight,
+  thompsonSamplingShares,
+} from "~/domains/analytics/bandit-allocation";
+import type { BanditConfig } from "~/domains/campaigns/types/experiment";
+
+// ==========================================================================
+// TEST HELPERS
+// ==========================================================================
+
+function createConfig(overrides: Partial<BanditConfig> = {}): BanditConfig {
+  return {
+    algorithm: "thompson_sampling",
+    epsilon: 0.1,
+    minimumAllocation: 5,
+    warmupImpressions: 100,
+    ...overrides,
+  };
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+// ==========================================================================
+// TESTS
+// ==========================================================================
+
+describe("thompsonSamplingShares", () => {
+  it("should send most traffic to the clearly better variant", () => {
+    const shares = thompsonSamplingShares([
+      { variantKey: "A", successes: 50, trials: 1000 },
+      { variantKey: "B", successes: 90, trials: 1000 },
+    ]);
+
+    expect(sum(shares)).toBeCloseTo(1, 6);
+    expect(shares[1]).toBeGreaterThan(0.95);
+  });
+});
+
+describe("epsilonGreedyShares", () => {
+  it("should give the leader 1 - epsilon plus its exploration share", () => {
+    const shares = epsilonGreedyShares(
+      [
+        { variantKey: "A", successes: 50, trials: 1000 },
+        { variantKey: "B", successes: 80, trials: 1000 },
+      ],
+      0.2
+    );
+
+    expect(shares[0]).toBeCloseTo(0.1);
+    expect(shares[1]).toBeCloseTo(0.9);
+  });
+
+  it("should split the exploitation share between tied leaders", () => {
+    const shares = epsilonGreedyShares(
+      [
+        { variantKey: "A", successes: 10, trials: 100 },
+        { variantKey: "B", successes: 10, trials: 100 },
+      ],
+      0.1
+    );
+
+    expect(shares).toEqual([0.5, 0.5]);
+  });
+});
+
+describe("applyMinimumAllocation", () => {
+  it("should guarantee the floor and keep the total at 100%", () => {
+    const percents = applyMinimumAllocation([1, 0, 0], 5);
+
+    expect(percents[1]).toBeCloseTo(5);
+    expect(percents[2]).toBeCloseTo(5);
+    expect(sum(percents)).toBeCloseTo(100);
+  });
+
+  it("should cap the floor at an even split", () => {
+    expect(applyMinimumAllocation([1, 0], 60)).toEqual([50, 50]);
+  });
+});
+
+describe("computeBanditAllocation", () => {
+  it("should split evenly while any variant is still warming up", () => {
+    const weights = computeBanditAllocation(
+      [
+        { variantKey: "A", successes: 50, trials: 1000 },
+        { variantKey: "B", successes: 1, trials: 20 },
+      ],
+      createConfig()
+    );
+
+    expect(weights).toEqual({ A: 50, B: 50 });
+  });
+
+  it("should shift traffic toward the leader after warm-up", () => {
+    const weights = computeBanditAllocation(
+      [
+        { variantKey: "A", successes: 50, trials: 1000 },
+        { variantKey: "B", successes: 90, trials: 1000 },
+      ],
+      createConfig({ algorithm: "epsilon_greedy" })
+    );
+
+    expect(weights.B).toBeGreaterThan(weights.A);
+    expect(weights.A).toBeGreaterThanOrEqual(5);
+    expect(weights.A + weights.B).toBeCloseTo(100, 1);
+  });
+
+  it("should return no weights without variants", () => {
+    expect(computeBanditAllocation([], createConfig())).toEqual({});
+  });
+});
+
+describe("selectByWeight", () => {
+  const options = [
+    { value: "A", weight: 20 },
+    { value: "B", weight: 80 },
+  ];
+
+  it("should map the point onto cumulative weights", () => {
+    expect(selectByWeight(options, 0.1)).toBe("A");
+    expect(selectByWeight(options, 0.2)).toBe("B");
+    expect(selectByWeight(options, 0.999)).toBe("B");
+  });
+
+  it("should fall back to an even split when all weights are zero", () => {
+    const zero = options.map((option) => ({ ...option, weight: 0 }));
+
+    expect(selectByWeight(zero, 0.25)).toBe("A");
+    expect(selectByWeight(zero, 0.75)).toBe("B");
+  });
+});
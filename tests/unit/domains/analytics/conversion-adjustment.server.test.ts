@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    campaignConversion: {
+      findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("~/domains/analytics/attribution.server", () => ({
+  AttributionService: { adjustOrder: vi.fn() },
+}));
+
+vi.mock("~/domains/analytics/analytics-rollup.server", () => ({
+  AnalyticsRollupService: { refreshConversionDay: vi.fn() },
+}));
+
+vi.mock("~/lib/logger.server", () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from "~/db.server";
+import { AttributionService } from "~/domains/analytics/attribution.server";
+import { AnalyticsRollupService } from "~/domains/analytics/analytics-rollup.server";
+import {
+  ConversionAdjustmentService,
+  computeNetRevenue,
+} from "~/domains/analytics/conversion-adjustment.server";
+
+const mockPrisma = prisma as unknown as {
+  campaignConversion: {
+    findFirst: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+  };
+};
+
+const CREATED_AT = new Date("2025-06-15T12:00:00.000Z");
+const CANCELLED_AT = new Date("2025-06-16T09:00:00.000Z");
+
+function createConversion(overrides = {}) {
+  return {
+    id: "conversion-1",
+    campaignId: "campaign-1",
+    orderId: "1001",
+    totalPrice: 100,
+    refundedAmount: 0,
+    refundIds: [] as string[],
+    cancelledAt: null as Date | null,
+    createdAt: CREATED_AT,
+    ...overrides,
+  };
+}
+
+describe("computeNetRevenue", () => {
+  it("should subtract refunds without going below zero", () => {
+    expect(computeNetRevenue(100, 30.25, false)).toBe(69.75);
+    expect(computeNetRevenue(100, 120, false)).toBe(0);
+  });
+
+  it("should be zero once cancelled", () => {
+    expect(computeNetRevenue(100, 0, true)).toBe(0);
+  });
+});
+
+describe("ConversionAdjustmentService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.campaignConversion.findFirst.mockResolvedValue(createConversion());
+  });
+
+  describe("applyRefund", () => {
+    it("should subtract the refund and spread it over attributions and rollups", async () => {
+      const result = await ConversionAdjustmentService.applyRefund("store-1", "1001", {
+        id: "refund-1",
+        amount: 25,
+      });
+
+      expect(mockPrisma.campaignConversion.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { orderId: "1001", campaign: { storeId: "store-1" } } })
+      );
+      expect(mockPrisma.campaignConversion.update).toHaveBeenCalledWith({
+        where: { id: "conversion-1" },
+        data: expect.objectContaining({
+          netRevenue: 75,
+          refundedAmount: 25,
+          refundIds: ["refund-1"],
+          cancelledAt: null,
+        }),
+      });
+      expect(AttributionService.adjustOrder).toHaveBeenCalledWith("1001", {
+        netRevenue: 75,
+        cancelledAt: null,
+      });
+      expect(AnalyticsRollupService.refreshConversionDay).toHaveBeenCalledWith(
+        "campaign-1",
+        CREATED_AT
+      );
+      expect(result).toEqual({
+        orderId: "1001",
+        campaignId: "campaign-1",
+        netRevenue: 75,
+        refundedAmount: 25,
+        cancelled: false,
+      });
+    });
+
+    it("should apply each refund only once", async () => {
+      mockPrisma.campaignConversion.findFirst.mockResolvedValue(
+        createConversion({ refundedAmount: 25, refundIds: ["refund-1"] })
+      );
+
+      const result = await ConversionAdjustmentService.applyRefund("store-1", "1001", {
+        id: "refund-1",
+        amount: 25,
+      });
+
+      expect(result).toBeNull();
+      expect(mockPrisma.campaignConversion.update).not.toHaveBeenCalled();
+    });
+
+    it("should ignore orders without a conversion", async () => {
+      mockPrisma.campaignConversion.findFirst.mockResolvedValue(null);
+
+      const result = await ConversionAdjustmentService.applyRefund("store-1", "1001", {
+        id: "refund-1",
+        amount: 25,
+      });
+
+      expect(result).toBeNull();
+      expect(AttributionService.adjustOrder).not.toHaveBeenCalled();
+    });
+
+    it("should keep the adjustment when refreshing the rollup fails", async () => {
+      vi.mocked(AnalyticsRollupService.refreshConversionDay).mockRejectedValueOnce(
+        new Error("db down")
+      );
+
+      const result = await ConversionAdjustmentService.applyRefund("store-1", "1001", {
+        id: "refund-1",
+        amount: 25,
+      });
+
+      expect(result?.netRevenue).toBe(75);
+    });
+
+    it("should leave the conversion untouched when adjusting attributions fails", async () => {
+      vi.mocked(AttributionService.adjustOrder).mockRejectedValueOnce(new Error("db down"));
+
+      await expect(
+        ConversionAdjustmentService.applyRefund("store-1", "1001", { id: "refund-1", amount: 25 })
+      ).rejects.toThrow("db down");
+      expect(mockPrisma.campaignConversion.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("reconcileOrder", () => {
+    it("should replace refunds with the order's full list", async () => {
+      mockPrisma.campaignConversion.findFirst.mockResolvedValue(
+        createConversion({ refundedAmount: 10, refundIds: ["refund-1"] })
+      );
+
+      const result = await ConversionAdjustmentService.reconcileOrder("store-1", "1001", {
+        refunds: [
+          { id: "refund-1", amount: 10 },
+          { id: "refund-2", amount: 15 },
+        ],
+        cancelledAt: null,
+      });
+
+      expect(result?.netRevenue).toBe(75);
+      expect(mockPrisma.campaignConversion.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            refundIds: ["refund-1", "refund-2"],
+            refundedAmount: 25,
+          }),
+        })
+      );
+    });
+
+    it("should skip orders that did not change", async () => {
+      mockPrisma.campaignConversion.findFirst.mockResolvedValue(
+        createConversion({ refundedAmount: 10, refundIds: ["refund-1"] })
+      );
+
+      const result = await ConversionAdjustmentService.reconcileOrder("store-1", "1001", {
+        refunds: [{ id: "refund-1", amount: 10 }],
+        cancelledAt: null,
+      });
+
+      expect(result).toBeNull();
+      expect(mockPrisma.campaignConversion.update).not.toHaveBeenCalled();
+    });
+
+    it("should void cancelled orders", async () => {
+      const result = await ConversionAdjustmentService.reconcileOrder("store-1", "1001", {
+        refunds: [],
+        cancelledAt: CANCELLED_AT,
+      });
+
+      expect(result).toMatchObject({ netRevenue: 0, cancelled: true });
+    });
+  });
+
+  describe("cancelOrder", () => {
+    it("should void the conversion and its attributions", async () => {
+      const result = await ConversionAdjustmentService.cancelOrder("store-1", "1001", CANCELLED_AT);
+
+      expect(result).toMatchObject({ netRevenue: 0, cancelled: true });
+      expect(AttributionService.adjustOrder).toHaveBeenCalledWith("1001", {
+        netRevenue: 0,
+        cancelledAt: CANCELLED_AT,
+      });
+    });
+
+    it("should skip conversions that were already voided", async () => {
+      mockPrisma.campaignConversion.findFirst.mockResolvedValue(
+        createConversion({ cancelledAt: CANCELLED_AT })
+      );
+
+      const result = await ConversionAdjustmentService.cancelOrder("store-1", "1001", CANCELLED_AT);
+
+      expect(result).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    popupEvent: { findMany: vi.fn() },
+    lead: { findMany: vi.fn() },
+    campaignConversion: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock("~/lib/logger.server", () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from "~/db.server";
+import {
+  DataExportService,
+  decodeExportCursor,
+  encodeExportCursor,
+} from "~/domains/analytics/data-export.server";
+import { DEFAULT_EXPORT_PAGE_SIZE } from "~/domains/analytics/data-export";
+
+const mockPrisma = prisma as unknown as {
+  popupEvent: { findMany: ReturnType<typeof vi.fn> };
+  lead: { findMany: ReturnType<typeof vi.fn> };
+  campaignConversion: { findMany: ReturnType<typeof vi.fn> };
+};
+
+function createEvent(index: number) {
+  return {
+    id: `event-${index}`,
+    createdAt: new Date(Date.UTC(2025, 5, 15, 0, 0, index)),
+    eventType: "VIEW",
+    campaignId: "campaign-1",
+    ipAddress: "203.0.113.42",
+  };
+}
+
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text();
+}
+
+describe("export cursors", () => {
+  it("should round-trip", () => {
+    const cursor = { createdAt: new Date("2025-06-15T12:00:00.000Z"), id: "event-1" };
+    expect(decodeExportCursor(encodeExportCursor(cursor))).toEqual(cursor);
+  });
+
+  it("should reject malformed cursors", () => {
+    expect(decodeExportCursor("not-a-cursor")).toBeNull();
+    expect(decodeExportCursor(Buffer.from('["nope","x"]').toString("base64url"))).toBeNull();
+  });
+});
+
+describe("DataExportService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("getPage", () => {
+    it("should return a page and the cursor of the next one", async () => {
+      mockPrisma.popupEvent.findMany.mockResolvedValue([1, 2, 3].map(createEvent));
+
+      const page = await DataExportService.getPage("store-1", "events", {
+        campaignId: "campaign-1",
+        columns: ["id", "ipAddress"],
+        limit: 2,
+      });
+
+      expect(mockPrisma.popupEvent.findMany).toHaveBeenCalledWith({
+        where: { storeId: "store-1", campaignId: "campaign-1", createdAt: {}, AND: [{}] },
+        select: { id: true, createdAt: true, ipAddress: true },
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+        take: 3,
+      });
+      expect(page.records).toEqual([
+        { id: "event-1", ipAddress: "203.0.113.0" },
+        { id: "event-2", ipAddress: "203.0.113.0" },
+      ]);
+      expect(decodeExportCursor(page.nextCursor!)).toEqual({
+        createdAt: createEvent(2).createdAt,
+        id: "event-2",
+      });
+    });
+
+    it("should continue after the cursor", async () => {
+      mockPrisma.popupEvent.findMany.mockResolvedValue([createEvent(3)]);
+      const cursor = encodeExportCursor({ createdAt: createEvent(2).createdAt, id: "event-2" });
+
+      const page = await DataExportService.getPage("store-1", "events", { cursor, limit: 2 });
+
+      expect(mockPrisma.popupEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            AND: [
+              {
+                OR: [
+                  { createdAt: { gt: createEvent(2).createdAt } },
+                  { createdAt: createEvent(2).createdAt, id: { gt: "event-2" } },
+                ],
+              },
+            ],
+          }),
+        })
+      );
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it("should scope leads and conversions to the experiment's campaigns", async () => {
+      mockPrisma.lead.findMany.mockResolvedValue([]);
+      mockPrisma.campaignConversion.findMany.mockResolvedValue([]);
+      const from = new Date("2025-06-01T00:00:00.000Z");
+
+      await DataExportService.getPage("store-1", "leads", { experimentId: "exp-1", from });
+      await DataExportService.getPage("store-1", "conversions", { experimentId: "exp-1" });
+
+      expect(mockPrisma.lead.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            storeId: "store-1",
+            campaign: { experimentId: "exp-1" },
+            createdAt: { gte: from },
+          }),
+        })
+      );
+      expect(mockPrisma.campaignConversion.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            campaign: { storeId: "store-1", experimentId: "exp-1" },
+          }),
+        })
+      );
+    });
+
+    it("should limit the export to the given ids", async () => {
+      mockPrisma.lead.findMany.mockResolvedValue([]);
+
+      await DataExportService.getPage("store-1", "leads", { ids: ["lead-1", "lead-2"] });
+
+      expect(mockPrisma.lead.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            storeId: "store-1",
+            id: { in: ["lead-1", "lead-2"] },
+          }),
+        })
+      );
+    });
+
+    it("should reject unknown columns and bad cursors", async () => {
+      await expect(
+        DataExportService.getPage("store-1", "leads", { columns: ["password"] })
+      ).rejects.toThrow("Unknown leads columns: password");
+      await expect(
+        DataExportService.getPage("store-1", "leads", { cursor: "garbage" })
+      ).rejects.toThrow("Invalid export cursor");
+    });
+  });
+
+  describe("stream", () => {
+    it("should stream every page as CSV", async () => {
+      const firstPage = Array.from({ length: DEFAULT_EXPORT_PAGE_SIZE }, (_, i) =>
+        createEvent(i + 1)
+      );
+      mockPrisma.popupEvent.findMany
+        .mockResolvedValueOnce(firstPage)
+        .mockResolvedValueOnce([createEvent(DEFAULT_EXPORT_PAGE_SIZE + 1)]);
+
+      const csv = await readStream(
+        DataExportService.stream("store-1", "events", "csv", { columns: ["id", "eventType"] })
+      );
+      const lines = csv.trimEnd().split("\r\n");
+
+      expect(lines[0]).toBe("id,eventType");
+      expect(lines).toHaveLength(DEFAULT_EXPORT_PAGE_SIZE + 2);
+      expect(lines[lines.length - 1]).toBe(`event-${DEFAULT_EXPORT_PAGE_SIZE + 1},VIEW`);
+      expect(mockPrisma.popupEvent.findMany).toHaveBeenCalledTimes(2);
+    });
+
+    it("should stream NDJSON without a header", async () => {
+      mockPrisma.popupEvent.findMany.mockResolvedValueOnce([createEvent(1)]);
+
+      const ndjson = await readStream(
+        DataExportService.stream("store-1", "events", "ndjson", { columns: ["id"] })
+      );
+
+      expect(ndjson).toBe('{"id":"event-1"}\n');
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import {
+  EXPORT_COLUMNS,
+  formatCsvHeader,
+  formatExportRecords,
+  getExportFilename,
+  maskIpAddress,
+  resolveExportColumns,
+  toExportRecord,
+  toExportValue,
+} from "~/domains/analytics/data-export";
+
+describe("maskIpAddress", () => {
+  it("should truncate IPv4 addresses to /24", () => {
+    expect(maskIpAddress("203.0.113.42")).toBe("203.0.113.0");
+    expect(maskIpAddress("::ffff:203.0.113.42")).toBe("203.0.113.0");
+  });
+
+  it("should truncate IPv6 addresses to /48", () => {
+    expect(maskIpAddress("2001:0db8:85a3:0000:0000:8a2e:0370:7334")).toBe("2001:db8:85a3::");
+    expect(maskIpAddress("2001:db8::1")).toBe("2001:db8:0::");
+    expect(maskIpAddress("::1")).toBe("0:0:0::");
+  });
+
+  it("should drop values that are not IP addresses", () => {
+    expect(maskIpAddress(null)).toBeNull();
+    expect(maskIpAddress("")).toBeNull();
+    expect(maskIpAddress("unknown")).toBeNull();
+    expect(maskIpAddress("1:2:3")).toBeNull();
+    expect(maskIpAddress("1::2::3")).toBeNull();
+  });
+});
+
+describe("resolveExportColumns", () => {
+  it("should leave out personal columns by default", () => {
+    const { columns } = resolveExportColumns("leads");
+    const keys = columns.map((column) => column.key);
+
+    expect(keys).toContain("campaignId");
+    expect(keys).not.toContain("email");
+    expect(keys).not.toContain("ipAddress");
+  });
+
+  it("should keep requested columns in order", () => {
+    const { columns, unknown } = resolveExportColumns("leads", ["email", "id", "email"]);
+
+    expect(unknown).toEqual([]);
+    expect(columns.map((column) => column.key)).toEqual(["email", "id"]);
+  });
+
+  it("should report unknown columns", () => {
+    expect(resolveExportColumns("events", ["id", "password"]).unknown).toEqual(["password"]);
+  });
+});
+
+describe("export values", () => {
+  it("should convert database values to JSON-safe values", () => {
+    expect(toExportValue(new Date("2025-06-15T12:00:00.000Z"))).toBe("2025-06-15T12:00:00.000Z");
+    expect(toExportValue(BigInt("9007199254740993"))).toBe("9007199254740993");
+    expect(toExportValue({ toNumber: () => 12.5 })).toBe(12.5);
+    expect(toExportValue(undefined)).toBeNull();
+  });
+
+  it("should always mask IP columns", () => {
+    const columns = EXPORT_COLUMNS.events.filter((column) =>
+      ["id", "ipAddress"].includes(column.key)
+    );
+
+    expect(toExportRecord({ id: "e1", ipAddress: "198.51.100.7", extra: "x" }, columns)).toEqual({
+      id: "e1",
+      ipAddress: "198.51.100.0",
+    });
+  });
+});
+
+describe("export serialization", () => {
+  const columns = [{ key: "id" }, { key: "discountCodes" }, { key: "metadata" }, { key: "note" }];
+  const records = [
+    {
+      id: "c1",
+      discountCodes: ["SAVE10", "VIP"],
+      metadata: { device: "mobile" },
+      note: 'said "hi", left',
+    },
+    { id: "c2", discountCodes: [], metadata: null, note: null },
+  ];
+
+  it("should write CSV rows", () => {
+    expect(formatCsvHeader(columns)).toBe("id,discountCodes,metadata,note\r\n");
+    expect(formatExportRecords(records, columns, "csv")).toBe(
+      'c1,SAVE10;VIP,"{""device"":""mobile""}","said ""hi"", left"\r\nc2,,,\r\n'
+    );
+  });
+
+  it("should write one JSON object per line", () => {
+    const lines = formatExportRecords(records, columns, "ndjson").trimEnd().split("\n");
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toEqual(records[0]);
+  });
+
+  it("should name files after the dataset and day", () => {
+    expect(getExportFilename("leads", "ndjson", new Date("2025-06-15T12:00:00.000Z"))).toBe(
+      "revenue-boost-leads-2025-06-15.ndjson"
+    );
+  });
+});
@@ -0,0 +1,269 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { gunzipSync } from "zlib";
+import prisma from "~/db.server";
+import { EventRetentionService } from "~/domains/analytics/event-retention.server";
+import { getArchiveStorage } from "~/lib/archive-storage.server";
+import { cleanupOldRateLimitLogs } from "~/domains/security/services/rate-limit.server";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    store: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+      count: vi.fn(),
+    },
+    popupEvent: {
+      findMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("~/lib/archive-storage.server", () => ({
+  getArchiveStorage: vi.fn(),
+}));
+
+vi.mock("~/domains/security/services/rate-limit.server", () => ({
+  cleanupOldRateLimitLogs: vi.fn(),
+}));
+
+vi.mock("~/lib/logger.server", () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+const mockPrisma = prisma as unknown as {
+  store: {
+    findMany: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+    count: ReturnType<typeof vi.fn>;
+  };
+  popupEvent: {
+    findMany: ReturnType<typeof vi.fn>;
+    deleteMany: ReturnType<typeof vi.fn>;
+  };
+};
+
+const NOW = new Date("2025-06-15T12:00:00.000Z");
+
+function createStore(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "store-1",
+    planTier: "STARTER",
+    settings: {},
+    timezone: "UTC",
+    analyticsRolledUpAt: new Date("2025-06-15T11:55:00.000Z"),
+    eventsArchivedBefore: null,
+    ...overrides,
+  };
+}
+
+describe("EventRetentionService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getArchiveStorage).mockReturnValue(null);
+    vi.mocked(cleanupOldRateLimitLogs).mockResolvedValue(0);
+    mockPrisma.popupEvent.findMany.mockResolvedValue([]);
+  });
+
+  describe("resolvePolicy", () => {
+    it("uses the plan retention and archives by default", () => {
+      expect(EventRetentionService.resolvePolicy("GROWTH", {})).toEqual({
+        retentionDays: 180,
+        mode: "archive",
+      });
+      expect(EventRetentionService.resolvePolicy("ENTERPRISE", null).retentionDays).toBeNull();
+    });
+
+    it("lets a store shorten but never extend the plan retention", () => {
+      const shorter = { eventRetention: { retentionDays: 60, mode: "delete" } };
+      const longer = { eventRetention: { retentionDays: 365 } };
+
+      expect(EventRetentionService.resolvePolicy("GROWTH", shorter)).toEqual({
+        retentionDays: 60,
+        mode: "delete",
+      });
+      expect(EventRetentionService.resolvePolicy("GROWTH", longer).retentionDays).toBe(180);
+      expect(EventRetentionService.resolvePolicy("ENTERPRISE", longer).retentionDays).toBe(365);
+    });
+  });
+
+  describe("runRetention", () => {
+    it("archives events before the cutoff as gzipped NDJSON, then deletes them", async () => {
+      const put = vi.fn().mockResolvedValue("/archives/file.ndjson.gz");
+      vi.mocked(getArchiveStorage).mockReturnValue({ driver: "local", put, deletePrefix: vi.fn() });
+      mockPrisma.store.findMany.mockResolvedValueOnce([createStore()]);
+      mockPrisma.popupEvent.findMany.mockResolvedValueOnce([
+        { id: "evt-1", eventType: "VIEW", createdAt: new Date("2025-03-01T10:00:00.000Z") },
+        {
+          id: "evt-2",
+          eventType: "SUBMIT",
+          leadId: "lead-1",
+          visitorId: "visitor-1",
+          ipAddress: "203.0.113.7",
+          userAgent: "Mozilla/5.0",
+          referrer: "https://mail.example.com/?u=jane",
+          metadata: { email: "jane@example.com" },
+          createdAt: new Date("2025-03-01T10:01:00.000Z"),
+        },
+      ]);
+      mockPrisma.popupEvent.deleteMany.mockResolvedValueOnce({ count: 2 });
+      vi.mocked(cleanupOldRateLimitLogs).mockResolvedValueOnce(12);
+
+      const summary = await EventRetentionService.runRetention(NOW);
+
+      // STARTER keeps 90 days
+      const cutoff = new Date("2025-03-17T00:00:00.000Z");
+      expect(mockPrisma.store.update).toHaveBeenCalledWith({
+        where: { id: "store-1" },
+        data: { eventsArchivedBefore: cutoff },
+      });
+      expect(mockPrisma.popupEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { storeId: "store-1", createdAt: { lt: cutoff } } })
+      );
+
+      const [key, body, contentType] = put.mock.calls[0];
+      expect(key).toMatch(/^popup-events\/store-1\/.+\/part-0001\.ndjson\.gz$/);
+      expect(contentType).toBe("application/x-ndjson");
+      const lines = gunzipSync(body).toString().trim().split("\n");
+      expect(lines.map((line) => JSON.parse(line).id)).toEqual(["evt-1", "evt-2"]);
+      // Archives identify no shopper
+      expect(JSON.parse(lines[1])).toEqual({
+        id: "evt-2",
+        eventType: "SUBMIT",
+        leadId: "lead-1",
+        metadata: null,
+        createdAt: "2025-03-01T10:01:00.000Z",
+      });
+
+      expect(mockPrisma.popupEvent.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ["evt-1", "evt-2"] } },
+      });
+      expect(summary).toMatchObject({
+        processed: 1,
+        errors: 0,
+        archivedEvents: 2,
+        deletedEvents: 2,
+        rateLimitLogsDeleted: 12,
+      });
+    });
+
+    it("keeps events the rollup job has not finished and cuts on local days", async () => {
+      mockPrisma.store.findMany.mockResolvedValueOnce([
+        createStore({
+          settings: { eventRetention: { retentionDays: 45, mode: "delete" } },
+          timezone: "America/New_York",
+          // Last rollup ran on May 20th (local), so only earlier days are final
+          analyticsRolledUpAt: new Date("2025-05-20T15:00:00.000Z"),
+        }),
+      ]);
+
+      const summary = await EventRetentionService.runRetention(NOW);
+
+      expect(summary.results[0].cutoff).toBe("2025-05-01T04:00:00.000Z");
+
+      mockPrisma.store.findMany.mockResolvedValueOnce([
+        createStore({
+          settings: { eventRetention: { retentionDays: 45, mode: "delete" } },
+          timezone: "America/New_York",
+          analyticsRolledUpAt: new Date("2025-04-10T15:00:00.000Z"),
+        }),
+      ]);
+
+      const lagging = await EventRetentionService.runRetention(NOW);
+
+      expect(lagging.results[0].cutoff).toBe("2025-04-10T04:00:00.000Z");
+    });
+
+    it("skips stores that keep events forever, were never rolled up or lack archive storage", async () => {
+      mockPrisma.store.findMany.mockResolvedValueOnce([
+        createStore({ id: "enterprise", planTier: "ENTERPRISE" }),
+        createStore({ id: "fresh", analyticsRolledUpAt: null }),
+        createStore({ id: "archive" }),
+      ]);
+
+      const summary = await EventRetentionService.runRetention(NOW);
+
+      expect(summary.results.map((r) => [r.storeId, r.skipped])).toEqual([
+        ["enterprise", "KEEP_FOREVER"],
+        ["fresh", "NOT_ROLLED_UP"],
+        ["archive", "NO_ARCHIVE_STORAGE"],
+      ]);
+      expect(summary.processed).toBe(0);
+      expect(mockPrisma.store.update).not.toHaveBeenCalled();
+      expect(mockPrisma.popupEvent.deleteMany).not.toHaveBeenCalled();
+      expect(cleanupOldRateLimitLogs).toHaveBeenCalled();
+    });
+
+    it("does not delete a batch whose archive upload failed", async () => {
+      const put = vi.fn().mockRejectedValue(new Error("S3 upload failed (503)"));
+      vi.mocked(getArchiveStorage).mockReturnValue({ driver: "s3", put, deletePrefix: vi.fn() });
+      mockPrisma.store.findMany.mockResolvedValueOnce([
+        createStore({ id: "store-1" }),
+        createStore({ id: "store-2", settings: { eventRetention: { mode: "delete" } } }),
+      ]);
+      mockPrisma.popupEvent.findMany
+        .mockResolvedValueOnce([{ id: "evt-1" }])
+        .mockResolvedValueOnce([{ id: "evt-2" }]);
+      mockPrisma.popupEvent.deleteMany.mockResolvedValueOnce({ count: 1 });
+
+      const summary = await EventRetentionService.runRetention(NOW);
+
+      expect(mockPrisma.popupEvent.deleteMany).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.popupEvent.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ["evt-2"] } },
+      });
+      expect(summary).toMatchObject({ processed: 1, errors: 1, deletedEvents: 1 });
+    });
+
+    it("does not move the boundary backwards", async () => {
+      mockPrisma.store.findMany.mockResolvedValueOnce([
+        createStore({
+          settings: { eventRetention: { mode: "delete" } },
+          eventsArchivedBefore: new Date("2025-04-01T00:00:00.000Z"),
+        }),
+      ]);
+
+      await EventRetentionService.runRetention(NOW);
+
+      expect(mockPrisma.store.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deleteArchives", () => {
+    it("deletes the store's archive files", async () => {
+      const deletePrefix = vi.fn().mockResolvedValue(undefined);
+      vi.mocked(getArchiveStorage).mockReturnValue({ driver: "s3", put: vi.fn(), deletePrefix });
+
+      await EventRetentionService.deleteArchives("store-1");
+
+      expect(deletePrefix).toHaveBeenCalledWith("popup-events/store-1/");
+    });
+
+    it("does nothing without archive storage", async () => {
+      await expect(EventRetentionService.deleteArchives("store-1")).resolves.toBeUndefined();
+    });
+  });
+
+  describe("hasArchivedEvents", () => {
+    it("skips the lookup for ranges inside the minimum retention", async () => {
+      const recent = new Date(Date.now() - 7 * 86_400_000);
+
+      expect(await EventRetentionService.hasArchivedEvents(["camp-1"], recent)).toBe(false);
+      expect(await EventRetentionService.hasArchivedEvents([])).toBe(false);
+      expect(mockPrisma.store.count).not.toHaveBeenCalled();
+    });
+
+    it("checks the archive boundary of the campaigns' stores", async () => {
+      const from = new Date("2024-01-01T00:00:00.000Z");
+      mockPrisma.store.count.mockResolvedValueOnce(1);
+
+      expect(await EventRetentionService.hasArchivedEvents(["camp-1"], from)).toBe(true);
+      expect(mockPrisma.store.count).toHaveBeenCalledWith({
+        where: {
+          eventsArchivedBefore: { gt: from },
+          campaigns: { some: { id: { in: ["camp-1"] } } },
+        },
+      });
+    });
+  });
+});
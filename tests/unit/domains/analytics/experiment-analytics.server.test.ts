@@ -4,6 +4,7 @@
  * Tests A/B testing analytics functions:
  * - getVariantPerformance
  * - Statistical significance calculation
+ * - Multi-variant comparisons and primary metric selection
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
@@ -11,6 +12,9 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 // Mock Prisma
 vi.mock("~/db.server", () => ({
   default: {
+    experiment: {
+      findFirst: vi.fn(),
+    },
     campaign: {
       findMany: vi.fn(),
     },
@@ -19,10 +23,24 @@ vi.mock("~/db.server", () => ({
     },
     campaignConversion: {
       groupBy: vi.fn(),
+      findMany: vi.fn(),
     },
   },
 }));
 
+const mockRetention = vi.hoisted(() => ({
+  hasArchivedEvents: vi.fn(),
+  getTotalsByCampaign: vi.fn(),
+}));
+
+vi.mock("~/domains/analytics/event-retention.server", () => ({
+  EventRetentionService: { hasArchivedEvents: mockRetention.hasArchivedEvents },
+}));
+
+vi.mock("~/domains/analytics/analytics-rollup.server", () => ({
+  AnalyticsRollupService: { getTotalsByCampaign: mockRetention.getTotalsByCampaign },
+}));
+
 import { getVariantPerformance } from "~/domains/analytics/experiment-analytics.server";
 import prisma from "~/db.server";
 
@@ -56,6 +74,9 @@ function createMockEventCounts(campaignId: string, views: number, clicks: number
 describe("getVariantPerformance", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(prisma.experiment.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.campaignConversion.findMany).mockResolvedValue([]);
+    mockRetention.hasArchivedEvents.mockResolvedValue(false);
   });
 
   it("should return empty variants when no campaigns found", async () => {
@@ -68,6 +89,10 @@ describe("getVariantPerformance", () => {
       winner: null,
       pValue: null,
       isSignificant: false,
+      primaryMetric: "conversion_rate",
+      confidenceLevel: 0.95,
+      controlKey: null,
+      comparisons: [],
     });
   });
 
@@ -83,8 +108,8 @@ describe("getVariantPerformance", () => {
 
     // Mock revenue data
     vi.mocked(prisma.campaignConversion.groupBy).mockResolvedValue([
-      { campaignId: "campaign-A", _sum: { totalPrice: 500 }, _count: { id: 5 } },
-      { campaignId: "campaign-B", _sum: { totalPrice: 750 }, _count: { id: 6 } },
+      { campaignId: "campaign-A", _sum: { netRevenue: 500 }, _count: { id: 5 } },
+      { campaignId: "campaign-B", _sum: { netRevenue: 750 }, _count: { id: 6 } },
     ] as any);
 
     const result = await getVariantPerformance(mockExperimentId, mockStoreId);
@@ -106,6 +131,48 @@ describe("getVariantPerformance", () => {
     expect(variantB?.conversionRate).toBe(15); // 15/100 * 100
   });
 
+  it("should report net revenue and leave cancelled orders out", async () => {
+    vi.mocked(prisma.campaign.findMany).mockResolvedValue(createMockCampaigns() as any);
+    vi.mocked(prisma.popupEvent.groupBy).mockResolvedValue([
+      ...createMockEventCounts("campaign-A", 100, 50, 10),
+      ...createMockEventCounts("campaign-B", 100, 60, 15),
+    ] as any);
+    vi.mocked(prisma.campaignConversion.groupBy).mockResolvedValue([
+      { campaignId: "campaign-A", _sum: { netRevenue: 400 }, _count: { id: 4 } },
+    ] as any);
+
+    const result = await getVariantPerformance(mockExperimentId, mockStoreId);
+
+    expect(prisma.campaignConversion.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { campaignId: { in: ["campaign-A", "campaign-B"] }, cancelledAt: null },
+        _sum: { netRevenue: true },
+      })
+    );
+    const variantA = result.variants.find((v) => v.variantKey === "A");
+    expect(variantA?.revenue).toBe(400);
+    expect(variantA?.averageOrderValue).toBe(100);
+  });
+
+  it("should read event counts from the daily rollups once raw events were archived", async () => {
+    vi.mocked(prisma.campaign.findMany).mockResolvedValue(createMockCampaigns() as any);
+    vi.mocked(prisma.campaignConversion.groupBy).mockResolvedValue([]);
+    mockRetention.hasArchivedEvents.mockResolvedValueOnce(true);
+    mockRetention.getTotalsByCampaign.mockResolvedValueOnce(
+      new Map([
+        ["campaign-A", { impressions: 400, clicks: 80, submits: 40, couponsIssued: 35 }],
+        ["campaign-B", { impressions: 380, clicks: 90, submits: 57, couponsIssued: 50 }],
+      ])
+    );
+
+    const result = await getVariantPerformance(mockExperimentId, mockStoreId);
+
+    expect(prisma.popupEvent.groupBy).not.toHaveBeenCalled();
+    expect(mockRetention.getTotalsByCampaign).toHaveBeenCalledWith(["campaign-A", "campaign-B"]);
+    const variantB = result.variants.find((v) => v.variantKey === "B");
+    expect(variantB).toMatchObject({ impressions: 380, clicks: 90, submissions: 57, couponsIssued: 50 });
+  });
+
   it("should handle missing event data gracefully", async () => {
     vi.mocked(prisma.campaign.findMany).mockResolvedValue(createMockCampaigns() as any);
     vi.mocked(prisma.popupEvent.groupBy).mockResolvedValue([]);
@@ -157,5 +224,78 @@ describe("getVariantPerformance", () => {
     expect(result.isSignificant).toBe(true);
     expect(result.winner).toBe("B");
   });
-});
 
+  it("should compare every variant against the control with Holm correction", async () => {
+    vi.mocked(prisma.campaign.findMany).mockResolvedValue([
+      ...createMockCampaigns(),
+      { id: "campaign-C", name: "Variant C", variantKey: "C", isControl: false },
+      { id: "campaign-D", name: "Variant D", variantKey: "D", isControl: false },
+    ] as any);
+    vi.mocked(prisma.popupEvent.groupBy).mockResolvedValue([
+      { campaignId: "campaign-A", eventType: "VIEW", _count: { id: 2000 } },
+      { campaignId: "campaign-A", eventType: "SUBMIT", _count: { id: 100 } },
+      { campaignId: "campaign-B", eventType: "VIEW", _count: { id: 2000 } },
+      { campaignId: "campaign-B", eventType: "SUBMIT", _count: { id: 104 } },
+      { campaignId: "campaign-C", eventType: "VIEW", _count: { id: 2000 } },
+      { campaignId: "campaign-C", eventType: "SUBMIT", _count: { id: 180 } },
+      { campaignId: "campaign-D", eventType: "VIEW", _count: { id: 2000 } },
+      { campaignId: "campaign-D", eventType: "SUBMIT", _count: { id: 95 } },
+    ] as any);
+    vi.mocked(prisma.campaignConversion.groupBy).mockResolvedValue([]);
+
+    const result = await getVariantPerformance(mockExperimentId, mockStoreId);
+
+    expect(result.controlKey).toBe("A");
+    expect(result.comparisons.map((c) => c.variantKey)).toEqual(["B", "C", "D"]);
+    result.comparisons.forEach((comparison) => {
+      expect(comparison.adjustedPValue).toBeGreaterThanOrEqual(comparison.pValue);
+    });
+    expect(result.winner).toBe("C");
+    expect(result.isSignificant).toBe(true);
+
+    const totalProbability = result.variants.reduce((sum, v) => sum + v.probabilityToBeBest, 0);
+    expect(totalProbability).toBeCloseTo(1, 5);
+    expect(result.variants.find((v) => v.variantKey === "C")?.probabilityToBeBest).toBeGreaterThan(
+      0.95
+    );
+  });
+
+  it("should use the experiment primary metric and confidence level", async () => {
+    vi.mocked(prisma.experiment.findFirst).mockResolvedValue({
+      statisticalConfig: {
+        confidenceLevel: 0.9,
+        minimumSampleSize: 1000,
+        minimumDetectableEffect: 0.05,
+        maxDurationDays: 30,
+      },
+      successMetrics: { primaryMetric: "revenue_per_visitor" },
+    } as any);
+    vi.mocked(prisma.campaign.findMany).mockResolvedValue(createMockCampaigns() as any);
+    // Same submission rate, very different revenue
+    vi.mocked(prisma.popupEvent.groupBy).mockResolvedValue([
+      ...createMockEventCounts("campaign-A", 500, 100, 50),
+      ...createMockEventCounts("campaign-B", 500, 100, 50),
+    ] as any);
+    vi.mocked(prisma.campaignConversion.groupBy).mockResolvedValue([
+      { campaignId: "campaign-A", _sum: { netRevenue: 200 }, _count: { id: 10 } },
+      { campaignId: "campaign-B", _sum: { netRevenue: 2000 }, _count: { id: 40 } },
+    ] as any);
+    vi.mocked(prisma.campaignConversion.findMany).mockResolvedValue([
+      ...Array.from({ length: 10 }, () => ({ campaignId: "campaign-A", netRevenue: 20 })),
+      ...Array.from({ length: 40 }, () => ({ campaignId: "campaign-B", netRevenue: 50 })),
+    ] as any);
+
+    const result = await getVariantPerformance(mockExperimentId, mockStoreId);
+
+    expect(result.primaryMetric).toBe("revenue_per_visitor");
+    expect(result.confidenceLevel).toBe(0.9);
+    expect(result.winner).toBe("B");
+
+    const variantB = result.variants.find((v) => v.variantKey === "B");
+    expect(variantB?.primaryMetricValue).toBeCloseTo(4); // 2000 / 500
+    expect(variantB?.averageOrderValueInterval.lower).toBeCloseTo(50);
+    expect(variantB?.averageOrderValueInterval.upper).toBeCloseTo(50);
+    expect(variantB?.revenuePerVisitorInterval.lower).toBeLessThan(4);
+    expect(variantB?.revenuePerVisitorInterval.upper).toBeGreaterThan(4);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Unit Tests for Experiment Statistics
+ *
+ * Tests the pure statistics helpers used by experiment analytics:
+ * - Distribution helpers and confidence intervals
+ * - Hypothesis tests and Holm-Bonferroni correction
+ * - Bayesian probability to be best
+ * - analyzeExperiment winner selection
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  analyzeExperiment,
+  criticalZ,
+  holmBonferroni,
+  meanInterval,
+  normalCdf,
+  probabilityToBeBestForMeans,
+  probabilityToBeBestForRates,
+  twoProportionTest,
+  wilsonInterval,
+  type VariantSample,
+} from "~/domains/analytics/experiment-statistics";
+
+// ==========================================================================
+// TEST HELPERS
+// ==========================================================================
+
+function createSample(overrides: Partial<VariantSample> = {}): VariantSample {
+  return {
+    variantKey: "A",
+    isControl: false,
+    impressions: 0,
+    clicks: 0,
+    submissions: 0,
+    orders: 0,
+    revenue: 0,
+    revenueSumOfSquares: 0,
+    ...overrides,
+  };
+}
+
+// ==========================================================================
+// TESTS
+// ==========================================================================
+
+describe("distribution helpers", () => {
+  it("should approximate the standard normal CDF", () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+    expect(normalCdf(-1.96)).toBeCloseTo(0.025, 3);
+  });
+
+  it("should return critical z values for common confidence levels", () => {
+    expect(criticalZ(0.95)).toBeCloseTo(1.96, 2);
+    expect(criticalZ(0.9)).toBeCloseTo(1.645, 2);
+    expect(criticalZ(0.99)).toBeCloseTo(2.576, 2);
+  });
+});
+
+describe("confidence intervals", () => {
+  it("should compute a Wilson interval around the observed rate", () => {
+    const interval = wilsonInterval(50, 1000);
+
+    expect(interval.lower).toBeLessThan(0.05);
+    expect(interval.upper).toBeGreaterThan(0.05);
+    expect(interval.lower).toBeCloseTo(0.0381, 3);
+    expect(interval.upper).toBeCloseTo(0.0653, 3);
+  });
+
+  it("should return a zero interval without trials", () => {
+    expect(wilsonInterval(0, 0)).toEqual({ lower: 0, upper: 0 });
+    expect(meanInterval(10, 4, 0)).toEqual({ lower: 0, upper: 0 });
+  });
+
+  it("should never produce a negative lower bound for means", () => {
+    const interval = meanInterval(1, 100, 10);
+    expect(interval.lower).toBe(0);
+    expect(interval.upper).toBeGreaterThan(1);
+  });
+});
+
+describe("hypothesis tests", () => {
+  it("should detect a clear difference between proportions", () => {
+    expect(twoProportionTest(50, 1000, 150, 1000)).toBeLessThan(0.001);
+  });
+
+  it("should not detect a difference between identical proportions", () => {
+    expect(twoProportionTest(50, 1000, 50, 1000)).toBeCloseTo(1, 6);
+  });
+
+  it("should apply the Holm-Bonferroni step-down adjustment", () => {
+    const adjusted = holmBonferroni([0.01, 0.04, 0.03]);
+
+    expect(adjusted[0]).toBeCloseTo(0.03);
+    expect(adjusted[2]).toBeCloseTo(0.06);
+    expect(adjusted[1]).toBeCloseTo(0.06); // monotone: max(0.04, 0.06)
+  });
+});
+
+describe("probability to be best", () => {
+  it("should favour the variant with the higher rate", () => {
+    const probabilities = probabilityToBeBestForRates([
+      { successes: 50, trials: 1000 },
+      { successes: 80, trials: 1000 },
+    ]);
+
+    expect(probabilities[0] + probabilities[1]).toBeCloseTo(1, 6);
+    expect(probabilities[1]).toBeGreaterThan(0.99);
+  });
+
+  it("should be deterministic for a given seed", () => {
+    const samples = [
+      { mean: 1, variance: 4, n: 100 },
+      { mean: 1.1, variance: 4, n: 100 },
+    ];
+
+    expect(probabilityToBeBestForMeans(samples, 2000, 42)).toEqual(
+      probabilityToBeBestForMeans(samples, 2000, 42)
+    );
+  });
+
+  it("should split ties evenly", () => {
+    const probabilities = probabilityToBeBestForMeans([
+      { mean: 0, variance: 0, n: 0 },
+      { mean: 0, variance: 0, n: 0 },
+    ]);
+
+    expect(probabilities).toEqual([0.5, 0.5]);
+  });
+});
+
+describe("analyzeExperiment", () => {
+  it("should return an empty analysis when there are no variants", () => {
+    const analysis = analyzeExperiment([]);
+
+    expect(analysis.variants).toEqual([]);
+    expect(analysis.comparisons).toEqual([]);
+    expect(analysis.winner).toBeNull();
+    expect(analysis.pValue).toBeNull();
+  });
+
+  it("should fall back to variant A as control when none is flagged", () => {
+    const analysis = analyzeExperiment([
+      createSample({ variantKey: "B", impressions: 100, submissions: 5 }),
+      createSample({ variantKey: "A", impressions: 100, submissions: 5 }),
+    ]);
+
+    expect(analysis.controlKey).toBe("A");
+    expect(analysis.comparisons.map((c) => c.variantKey)).toEqual(["B"]);
+  });
+
+  it("should skip comparisons below the minimum sample size", () => {
+    const analysis = analyzeExperiment([
+      createSample({ variantKey: "A", isControl: true, impressions: 20, submissions: 1 }),
+      createSample({ variantKey: "B", impressions: 20, submissions: 10 }),
+    ]);
+
+    expect(analysis.comparisons[0].hasSufficientSample).toBe(false);
+    expect(analysis.comparisons[0].pValue).toBe(1);
+    expect(analysis.winner).toBeNull();
+  });
+
+  it("should declare the control winner when it beats every challenger", () => {
+    const analysis = analyzeExperiment([
+      createSample({ variantKey: "A", isControl: true, impressions: 2000, submissions: 200 }),
+      createSample({ variantKey: "B", impressions: 2000, submissions: 100 }),
+      createSample({ variantKey: "C", impressions: 2000, submissions: 90 }),
+    ]);
+
+    expect(analysis.winner).toBe("A");
+    expect(analysis.isSignificant).toBe(true);
+  });
+
+  it("should report lift relative to the control", () => {
+    const analysis = analyzeExperiment([
+      createSample({ variantKey: "A", isControl: true, impressions: 1000, submissions: 50 }),
+      createSample({ variantKey: "B", impressions: 1000, submissions: 75 }),
+    ]);
+
+    expect(analysis.comparisons[0].lift).toBeCloseTo(50);
+  });
+
+  it("should use click-through rate when selected as primary metric", () => {
+    const analysis = analyzeExperiment(
+      [
+        createSample({ variantKey: "A", isControl: true, impressions: 1000, clicks: 100 }),
+        createSample({ variantKey: "B", impressions: 1000, clicks: 200 }),
+      ],
+      { primaryMetric: "click_through_rate" }
+    );
+
+    expect(analysis.variants[1].primaryMetricValue).toBeCloseTo(20);
+    expect(analysis.winner).toBe("B");
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import prisma from "~/db.server";
+import { FunnelAnalyticsService } from "~/domains/analytics/funnel-analytics.server";
+import { EventRetentionService } from "~/domains/analytics/event-retention.server";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    campaign: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
+  },
+}));
+
+vi.mock("~/domains/analytics/event-retention.server", () => ({
+  EventRetentionService: { hasArchivedEvents: vi.fn() },
+}));
+
+vi.mock("~/lib/logger.server", () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+const mockPrisma = prisma as unknown as {
+  campaign: {
+    findFirst: ReturnType<typeof vi.fn>;
+    findMany: ReturnType<typeof vi.fn>;
+  };
+  $queryRaw: ReturnType<typeof vi.fn>;
+};
+const mockHasArchivedEvents = EventRetentionService.hasArchivedEvents as ReturnType<typeof vi.fn>;
+
+const range = {
+  from: new Date("2025-06-01T00:00:00.000Z"),
+  to: new Date("2025-06-30T23:59:59.999Z"),
+};
+
+function createRow(segment: string | null, impressions: number, orders: number) {
+  return {
+    segment,
+    impressions: BigInt(impressions),
+    interactions: BigInt(Math.round(impressions / 2)),
+    submits: BigInt(Math.round(impressions / 4)),
+    coupons: BigInt(Math.round(impressions / 4)),
+    orders: BigInt(orders),
+    avgToInteraction: 10,
+    avgToSubmit: 20,
+    avgToCoupon: 1,
+    avgToOrder: 3600,
+    medianToInteraction: 8,
+    medianToSubmit: 15,
+    medianToCoupon: 1,
+    medianToOrder: null,
+    closedAfterImpression: BigInt(impressions / 2),
+    closedAfterInteraction: BigInt(1),
+    closedAfterSubmit: BigInt(0),
+    closedAfterCoupon: BigInt(0),
+  };
+}
+
+describe("FunnelAnalyticsService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockHasArchivedEvents.mockResolvedValue(false);
+  });
+
+  describe("getCampaignFunnel", () => {
+    it("should return null for campaigns of another store", async () => {
+      mockPrisma.campaign.findFirst.mockResolvedValue(null);
+
+      const funnel = await FunnelAnalyticsService.getCampaignFunnel("store-1", "campaign-x", range);
+
+      expect(funnel).toBeNull();
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it("should convert the rollup rows into a total and sorted segments", async () => {
+      mockPrisma.campaign.findFirst.mockResolvedValue({ id: "campaign-1" });
+      mockPrisma.$queryRaw.mockResolvedValue([
+        createRow("desktop", 40, 1),
+        createRow("mobile", 60, 3),
+        createRow(null, 100, 4),
+      ]);
+
+      const funnel = await FunnelAnalyticsService.getCampaignFunnel("store-1", "campaign-1", {
+        ...range,
+        breakdown: "device",
+      });
+
+      expect(funnel?.breakdown).toBe("device");
+      expect(funnel?.total.steps[0].sessions).toBe(100);
+      expect(funnel?.total.steps[4].sessions).toBe(4);
+      expect(funnel?.total.steps[4].medianSecondsFromPrevious).toBeNull();
+      expect(funnel?.segments.map((segment) => segment.key)).toEqual(["mobile", "desktop"]);
+      expect(funnel?.segments[0].label).toBe("Mobile");
+      expect(funnel?.hasArchivedEvents).toBe(false);
+    });
+
+    it("should flag archived raw events in the range", async () => {
+      mockPrisma.campaign.findFirst.mockResolvedValue({ id: "campaign-1" });
+      mockPrisma.$queryRaw.mockResolvedValue([createRow(null, 10, 0)]);
+      mockHasArchivedEvents.mockResolvedValue(true);
+
+      const funnel = await FunnelAnalyticsService.getCampaignFunnel("store-1", "campaign-1", range);
+
+      expect(mockHasArchivedEvents).toHaveBeenCalledWith(["campaign-1"], range.from);
+      expect(funnel?.hasArchivedEvents).toBe(true);
+      expect(funnel?.segments).toEqual([]);
+    });
+  });
+
+  describe("getExperimentFunnel", () => {
+    it("should label segments by variant and include variants without impressions", async () => {
+      mockPrisma.campaign.findMany.mockResolvedValue([
+        { id: "variant-a", name: "Control", variantKey: "A" },
+        { id: "variant-b", name: "Challenger", variantKey: "B" },
+      ]);
+      mockPrisma.$queryRaw.mockResolvedValue([
+        createRow("variant-a", 50, 2),
+        createRow(null, 50, 2),
+      ]);
+
+      const funnel = await FunnelAnalyticsService.getExperimentFunnel("store-1", "exp-1", range);
+
+      expect(funnel?.breakdown).toBe("variant");
+      expect(funnel?.segments.map((segment) => segment.label)).toEqual(["Variant A", "Variant B"]);
+      expect(funnel?.segments[1].steps[0].sessions).toBe(0);
+    });
+
+    it("should return null for unknown experiments", async () => {
+      mockPrisma.campaign.findMany.mockResolvedValue([]);
+
+      expect(
+        await FunnelAnalyticsService.getExperimentFunnel("store-1", "exp-x", range)
+      ).toBeNull();
+    });
+  });
+});
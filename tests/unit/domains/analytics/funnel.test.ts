@@ -0,0 +1,106 @@
+/**
+ * Unit Tests for Funnel Analytics Helpers
+ *
+ * Tests how per-segment session counts become funnel steps:
+ * - Rates from impression and from the previous step
+ * - Drop-off, time between steps and close summaries
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  FUNNEL_STEPS,
+  buildFunnelSegment,
+  formatSegmentLabel,
+  type FunnelCounts,
+} from "~/domains/analytics/funnel";
+
+// ==========================================================================
+// TEST HELPERS
+// ==========================================================================
+
+function createCounts(overrides: Partial<FunnelCounts> = {}): FunnelCounts {
+  return {
+    sessions: { impression: 1000, interaction: 200, submit: 100, coupon: 80, order: 20 },
+    averageSeconds: { interaction: 12, submit: 30, coupon: 1, order: 3600 },
+    medianSeconds: { interaction: 8, submit: 25, coupon: 1, order: 1800 },
+    closedAfter: { impression: 500, interaction: 50, submit: 10, coupon: 40 },
+    ...overrides,
+  };
+}
+
+// ==========================================================================
+// TESTS
+// ==========================================================================
+
+describe("buildFunnelSegment", () => {
+  it("should return every step in funnel order", () => {
+    const segment = buildFunnelSegment("all", createCounts());
+
+    expect(segment.steps.map((step) => step.step)).toEqual([...FUNNEL_STEPS]);
+    expect(segment.label).toBe("All sessions");
+  });
+
+  it("should compute rates from impression and from the previous step", () => {
+    const segment = buildFunnelSegment("all", createCounts());
+    const [impression, interaction, submit, , order] = segment.steps;
+
+    expect(impression.rateFromImpression).toBe(100);
+    expect(interaction.rateFromImpression).toBe(20);
+    expect(submit.rateFromPrevious).toBe(50);
+    expect(submit.dropOffRate).toBe(50);
+    expect(order.rateFromImpression).toBe(2);
+    expect(order.rateFromPrevious).toBe(25);
+  });
+
+  it("should not report negative drop-off when a step exceeds the previous one", () => {
+    const segment = buildFunnelSegment(
+      "all",
+      createCounts({
+        sessions: { impression: 100, interaction: 10, submit: 10, coupon: 0, order: 2 },
+      })
+    );
+    const order = segment.steps[4];
+
+    expect(order.rateFromPrevious).toBe(0);
+    expect(segment.steps[3].dropOffRate).toBe(100);
+    expect(segment.steps.every((step) => step.dropOffRate >= 0)).toBe(true);
+  });
+
+  it("should carry the time from the previous step", () => {
+    const segment = buildFunnelSegment("all", createCounts());
+
+    expect(segment.steps[0].medianSecondsFromPrevious).toBeNull();
+    expect(segment.steps[1].medianSecondsFromPrevious).toBe(8);
+    expect(segment.steps[4].averageSecondsFromPrevious).toBe(3600);
+  });
+
+  it("should summarize closes by the last step reached", () => {
+    const segment = buildFunnelSegment("all", createCounts());
+
+    expect(segment.closes.total).toBe(600);
+    expect(segment.closes.closeRate).toBe(60);
+    expect(segment.closes.byLastStep.impression).toBe(500);
+  });
+
+  it("should handle segments without impressions", () => {
+    const segment = buildFunnelSegment(
+      "mobile",
+      createCounts({
+        sessions: { impression: 0, interaction: 0, submit: 0, coupon: 0, order: 0 },
+        closedAfter: { impression: 0, interaction: 0, submit: 0, coupon: 0 },
+      })
+    );
+
+    expect(segment.steps.every((step) => step.rateFromImpression === 0)).toBe(true);
+    expect(segment.closes.closeRate).toBe(0);
+  });
+});
+
+describe("formatSegmentLabel", () => {
+  it("should humanize segment values", () => {
+    expect(formatSegmentLabel("exit_intent")).toBe("Exit intent");
+    expect(formatSegmentLabel("mobile")).toBe("Mobile");
+    expect(formatSegmentLabel("pageType")).toBe("Page type");
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import prisma from "~/db.server";
+import { redis } from "~/lib/redis.server";
+import { HoldoutService } from "~/domains/analytics/holdout.server";
+import { PopupEventService } from "~/domains/analytics/popup-events.server";
+import { ServiceError } from "~/lib/errors.server";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    orderVisitor: {
+      createMany: vi.fn(),
+    },
+    store: {
+      findUnique: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
+  },
+}));
+
+vi.mock("~/lib/redis.server", () => ({
+  redis: { pipeline: vi.fn() },
+  REDIS_PREFIXES: { HOLDOUT: "holdout" },
+  REDIS_TTL: { DAY: 86400 },
+}));
+
+vi.mock("~/domains/analytics/popup-events.server", () => ({
+  PopupEventService: { recordEvent: vi.fn() },
+}));
+
+vi.mock("~/lib/logger.server", () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+const mockPrisma = prisma as unknown as {
+  orderVisitor: { createMany: ReturnType<typeof vi.fn> };
+  store: { findUnique: ReturnType<typeof vi.fn> };
+  $queryRaw: ReturnType<typeof vi.fn>;
+};
+const mockRedis = redis as unknown as { pipeline: ReturnType<typeof vi.fn> };
+const mockRecordEvent = PopupEventService.recordEvent as ReturnType<typeof vi.fn>;
+
+const policy = { scope: "campaign" as const, percentage: 10, seed: "campaign-a" };
+
+function assignment(id: string, heldOut = true) {
+  return { campaign: { id, experimentId: null, variantKey: null }, policy, heldOut };
+}
+
+/**
+ * Pipeline whose SET NX replies are given in order ("OK" = claimed, null = already logged)
+ */
+function mockPipeline(replies: Array<string | null>) {
+  const pipeline = {
+    set: vi.fn(() => pipeline),
+    exec: vi.fn(async () => replies.map((reply) => [null, reply])),
+  };
+  mockRedis.pipeline.mockReturnValue(pipeline);
+  return pipeline;
+}
+
+describe("HoldoutService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRecordEvent.mockResolvedValue(undefined);
+  });
+
+  describe("recordAssignments", () => {
+    const context = { visitorId: "visitor-1", sessionId: "session-1", pageUrl: "/" };
+
+    it("should log a HOLDOUT event for each withheld campaign", async () => {
+      const pipeline = mockPipeline(["OK"]);
+
+      await HoldoutService.recordAssignments("store-1", [assignment("campaign-a")], context);
+
+      expect(pipeline.set).toHaveBeenCalledWith(
+        "holdout:campaign-a:visitor-1",
+        "1",
+        "EX",
+        86400,
+        "NX"
+      );
+      expect(mockRecordEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          storeId: "store-1",
+          campaignId: "campaign-a",
+          visitorId: "visitor-1",
+          sessionId: "session-1",
+          eventType: "HOLDOUT",
+          metadata: { scope: "campaign", percentage: 10 },
+        })
+      );
+    });
+
+    it("should log a TREATMENT event for campaigns shown to the treatment arm", async () => {
+      mockPipeline(["OK"]);
+
+      await HoldoutService.recordAssignments("store-1", [assignment("campaign-a", false)], context);
+
+      expect(mockRecordEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          campaignId: "campaign-a",
+          visitorId: "visitor-1",
+          eventType: "TREATMENT",
+          metadata: { scope: "campaign", percentage: 10 },
+        })
+      );
+    });
+
+    it("should log a visitor at most once per campaign and day", async () => {
+      mockPipeline([null, "OK"]);
+
+      await HoldoutService.recordAssignments(
+        "store-1",
+        [assignment("campaign-a"), assignment("campaign-b")],
+        context
+      );
+
+      expect(mockRecordEvent).toHaveBeenCalledTimes(1);
+      expect(mockRecordEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ campaignId: "campaign-b" })
+      );
+    });
+
+    it("should log every campaign when deduplication fails", async () => {
+      mockRedis.pipeline.mockImplementation(() => {
+        throw new Error("Redis down");
+      });
+
+      await HoldoutService.recordAssignments(
+        "store-1",
+        [assignment("campaign-a"), assignment("campaign-b")],
+        context
+      );
+
+      expect(mockRecordEvent).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not throw when the event cannot be recorded", async () => {
+      mockPipeline(["OK"]);
+      mockRecordEvent.mockRejectedValue(new Error("DB down"));
+
+      await expect(
+        HoldoutService.recordAssignments("store-1", [assignment("campaign-a")], context)
+      ).resolves.toBeUndefined();
+    });
+
+    it("should skip visitors without an ID", async () => {
+      await HoldoutService.recordAssignments("store-1", [assignment("campaign-a")], {});
+
+      expect(mockRedis.pipeline).not.toHaveBeenCalled();
+      expect(mockRecordEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("recordOrderVisitor", () => {
+    const order = {
+      orderId: "1001",
+      visitorId: "visitor-1",
+      totalPrice: 120,
+      orderedAt: new Date("2025-06-15T12:00:00.000Z"),
+    };
+
+    it("should store the order visitor and skip webhook retries", async () => {
+      mockPrisma.orderVisitor.createMany.mockResolvedValue({ count: 1 });
+
+      await HoldoutService.recordOrderVisitor("store-1", order);
+
+      expect(mockPrisma.orderVisitor.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            storeId: "store-1",
+            orderId: "1001",
+            visitorId: "visitor-1",
+            customerId: null,
+            totalPrice: 120,
+            orderedAt: order.orderedAt,
+          },
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it("should not throw when the insert fails", async () => {
+      mockPrisma.orderVisitor.createMany.mockRejectedValue(new Error("DB down"));
+
+      await expect(HoldoutService.recordOrderVisitor("store-1", order)).resolves.toBeUndefined();
+    });
+  });
+
+  describe("getIncrementality", () => {
+    it("should compare the holdout arm with the treatment arm, not with viewers", async () => {
+      mockPrisma.$queryRaw.mockResolvedValue([
+        { visitors: 10, converters: 1, orders: 1, revenue: 50, revenueSumOfSquares: 2500 },
+      ]);
+
+      await HoldoutService.getIncrementality("store-1", {
+        campaignId: "campaign-a",
+        from: new Date("2025-06-01T00:00:00.000Z"),
+        to: new Date("2025-06-30T00:00:00.000Z"),
+      });
+
+      const queries = mockPrisma.$queryRaw.mock.calls.map((call) => JSON.stringify(call));
+      expect(queries[0]).toContain(`'HOLDOUT'`);
+      expect(queries[1]).toContain(`'TREATMENT'`);
+      expect(queries.join()).not.toContain(`'VIEW'`);
+    });
+
+    it("should start the range at the archive boundary when raw events were pruned", async () => {
+      const archivedBefore = new Date("2025-06-10T00:00:00.000Z");
+      mockPrisma.store.findUnique.mockResolvedValue({ eventsArchivedBefore: archivedBefore });
+      mockPrisma.$queryRaw.mockResolvedValue([
+        { visitors: 10, converters: 1, orders: 1, revenue: 50, revenueSumOfSquares: 2500 },
+      ]);
+
+      const report = await HoldoutService.getIncrementality("store-1", {
+        campaignId: "campaign-a",
+        from: new Date("2025-06-01T00:00:00.000Z"),
+        to: new Date("2025-06-30T00:00:00.000Z"),
+      });
+
+      expect(report).toMatchObject({ hasArchivedEvents: true, from: archivedBefore });
+      expect(mockPrisma.$queryRaw.mock.calls[0]).toContain(archivedBefore);
+    });
+
+    it("should keep the requested range when nothing in it was archived", async () => {
+      mockPrisma.store.findUnique.mockResolvedValue({
+        eventsArchivedBefore: new Date("2025-05-01T00:00:00.000Z"),
+      });
+      mockPrisma.$queryRaw.mockResolvedValue([]);
+      const from = new Date("2025-06-01T00:00:00.000Z");
+
+      const report = await HoldoutService.getIncrementality("store-1", {
+        from,
+        to: new Date("2025-06-30T00:00:00.000Z"),
+      });
+
+      expect(report).toMatchObject({ hasArchivedEvents: false, from });
+      expect(mockPrisma.$queryRaw.mock.calls[0]).toContain(from);
+    });
+
+    it("should wrap query failures in a ServiceError", async () => {
+      mockPrisma.$queryRaw.mockRejectedValue(new Error("DB down"));
+
+      await expect(
+        HoldoutService.getIncrementality("store-1", {
+          from: new Date("2025-06-01T00:00:00.000Z"),
+          to: new Date("2025-06-30T00:00:00.000Z"),
+        })
+      ).rejects.toBeInstanceOf(ServiceError);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Unit Tests for Incrementality Statistics
+ *
+ * Tests the holdout vs. exposed comparison:
+ * - Incremental conversion rate and revenue with confidence intervals
+ * - Relative lift, significance and sample size checks
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { analyzeIncrementality, type HoldoutGroupSample } from "~/domains/analytics/incrementality";
+
+// ==========================================================================
+// TEST HELPERS
+// ==========================================================================
+
+/**
+ * Group where every converter placed a single order of `orderValue`
+ */
+function createSample(
+  visitors: number,
+  converters: number,
+  orderValue: number = 50
+): HoldoutGroupSample {
+  return {
+    visitors,
+    converters,
+    orders: converters,
+    revenue: converters * orderValue,
+    revenueSumOfSquares: converters * orderValue * orderValue,
+  };
+}
+
+// ==========================================================================
+// TESTS
+// ==========================================================================
+
+describe("analyzeIncrementality", () => {
+  it("should summarize both groups", () => {
+    const analysis = analyzeIncrementality(createSample(1000, 20), createSample(9000, 270));
+
+    expect(analysis.holdout.conversionRate).toBeCloseTo(2);
+    expect(analysis.exposed.conversionRate).toBeCloseTo(3);
+    expect(analysis.holdout.revenuePerVisitor).toBeCloseTo(1);
+    expect(analysis.exposed.revenuePerVisitor).toBeCloseTo(1.5);
+  });
+
+  it("should report incremental conversion rate and revenue with intervals", () => {
+    const analysis = analyzeIncrementality(createSample(1000, 20), createSample(9000, 270));
+
+    expect(analysis.incrementalConversionRate.value).toBeCloseTo(1);
+    expect(analysis.incrementalConversionRate.lower).toBeLessThan(1);
+    expect(analysis.incrementalConversionRate.upper).toBeGreaterThan(1);
+    expect(analysis.incrementalConversions.value).toBeCloseTo(90);
+    expect(analysis.incrementalRevenue.value).toBeCloseTo(4500);
+    expect(analysis.incrementalRevenue.lower).toBeLessThan(4500);
+    expect(analysis.relativeLift).toBeCloseTo(50);
+  });
+
+  it("should flag a large difference as significant", () => {
+    const analysis = analyzeIncrementality(createSample(5000, 100), createSample(45000, 1800));
+
+    expect(analysis.hasSufficientSample).toBe(true);
+    expect(analysis.conversionPValue).toBeLessThan(0.05);
+    expect(analysis.isSignificant).toBe(true);
+    expect(analysis.incrementalConversionRate.lower).toBeGreaterThan(0);
+  });
+
+  it("should not flag identical groups as significant", () => {
+    const analysis = analyzeIncrementality(createSample(5000, 100), createSample(45000, 900));
+
+    expect(analysis.incrementalConversionRate.value).toBeCloseTo(0);
+    expect(analysis.isSignificant).toBe(false);
+  });
+
+  it("should widen intervals at higher confidence levels", () => {
+    const at95 = analyzeIncrementality(createSample(1000, 20), createSample(9000, 270));
+    const at99 = analyzeIncrementality(createSample(1000, 20), createSample(9000, 270), 0.99);
+
+    expect(at99.incrementalConversionRate.upper).toBeGreaterThan(
+      at95.incrementalConversionRate.upper
+    );
+  });
+
+  it("should handle empty groups", () => {
+    const analysis = analyzeIncrementality(createSample(0, 0), createSample(10, 1));
+
+    expect(analysis.relativeLift).toBeNull();
+    expect(analysis.hasSufficientSample).toBe(false);
+    expect(analysis.isSignificant).toBe(false);
+    expect(analysis.incrementalRevenue.lower).toBe(analysis.incrementalRevenue.value);
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    store: { findUnique: vi.fn() },
+    lead: { findFirst: vi.fn() },
+    leadOrder: {
+      createMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    $queryRaw: vi.fn(),
+  },
+}));
+
+vi.mock("~/lib/logger.server", () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from "~/db.server";
+import { LeadCohortService, getWeekStartKey } from "~/domains/analytics/lead-cohorts.server";
+
+const mockPrisma = prisma as unknown as {
+  store: { findUnique: ReturnType<typeof vi.fn> };
+  lead: { findFirst: ReturnType<typeof vi.fn> };
+  leadOrder: {
+    createMany: ReturnType<typeof vi.fn>;
+    findUnique: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
+  };
+  $queryRaw: ReturnType<typeof vi.fn>;
+};
+
+const ORDER = {
+  orderId: "1001",
+  customerId: "9876543210",
+  email: "Shopper@Example.com",
+  totalPrice: 80,
+  orderedAt: new Date("2025-06-16T09:00:00.000Z"),
+};
+
+describe("getWeekStartKey", () => {
+  it("returns the Monday of the week", () => {
+    expect(getWeekStartKey("2025-06-18")).toBe("2025-06-16");
+    expect(getWeekStartKey("2025-06-16")).toBe("2025-06-16");
+    expect(getWeekStartKey("2025-06-22")).toBe("2025-06-16");
+  });
+});
+
+describe("LeadCohortService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("recordOrder", () => {
+    it("stores orders of leads by customer ID or lowercased email", async () => {
+      mockPrisma.lead.findFirst.mockResolvedValue({ id: "lead-1" });
+
+      await expect(LeadCohortService.recordOrder("store-1", ORDER)).resolves.toBe(true);
+
+      expect(mockPrisma.lead.findFirst).toHaveBeenCalledWith({
+        where: {
+          storeId: "store-1",
+          OR: [{ shopifyCustomerId: BigInt("9876543210") }, { email: "shopper@example.com" }],
+        },
+        select: { id: true },
+      });
+      expect(mockPrisma.leadOrder.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            storeId: "store-1",
+            orderId: "1001",
+            customerId: "9876543210",
+            email: "shopper@example.com",
+            totalPrice: 80,
+            netRevenue: 80,
+            orderedAt: ORDER.orderedAt,
+          },
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it("skips customers who never became leads", async () => {
+      mockPrisma.lead.findFirst.mockResolvedValue(null);
+
+      await expect(LeadCohortService.recordOrder("store-1", ORDER)).resolves.toBe(false);
+      expect(mockPrisma.leadOrder.createMany).not.toHaveBeenCalled();
+    });
+
+    it("skips anonymous orders without a lookup", async () => {
+      const result = await LeadCohortService.recordOrder("store-1", {
+        ...ORDER,
+        customerId: undefined,
+        email: undefined,
+      });
+
+      expect(result).toBe(false);
+      expect(mockPrisma.lead.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("logs instead of throwing when the insert fails", async () => {
+      mockPrisma.lead.findFirst.mockResolvedValue({ id: "lead-1" });
+      mockPrisma.leadOrder.createMany.mockRejectedValueOnce(new Error("db down"));
+
+      await expect(LeadCohortService.recordOrder("store-1", ORDER)).resolves.toBe(false);
+    });
+  });
+
+  describe("reconcileOrder", () => {
+    it("recomputes net revenue from the refunded amount", async () => {
+      mockPrisma.leadOrder.findUnique.mockResolvedValue({ id: "lo-1", totalPrice: "80.00" });
+
+      await expect(
+        LeadCohortService.reconcileOrder("store-1", "1001", {
+          refundedAmount: 30,
+          cancelledAt: null,
+        })
+      ).resolves.toBe(true);
+
+      expect(mockPrisma.leadOrder.update).toHaveBeenCalledWith({
+        where: { id: "lo-1" },
+        data: { netRevenue: 50, cancelledAt: null },
+      });
+    });
+
+    it("ignores orders of non-leads", async () => {
+      mockPrisma.leadOrder.findUnique.mockResolvedValue(null);
+
+      await expect(
+        LeadCohortService.reconcileOrder("store-1", "1001", {
+          refundedAmount: 30,
+          cancelledAt: null,
+        })
+      ).resolves.toBe(false);
+      expect(mockPrisma.leadOrder.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("cancelOrder", () => {
+    it("zeroes the order's revenue", async () => {
+      const cancelledAt = new Date("2025-06-17T09:00:00.000Z");
+      mockPrisma.leadOrder.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(LeadCohortService.cancelOrder("store-1", "1001", cancelledAt)).resolves.toBe(
+        true
+      );
+      expect(mockPrisma.leadOrder.updateMany).toHaveBeenCalledWith({
+        where: { storeId: "store-1", orderId: "1001" },
+        data: { netRevenue: 0, cancelledAt },
+      });
+    });
+  });
+
+  describe("getCohorts", () => {
+    it("starts at the Monday of the first signup week and maps the counts", async () => {
+      mockPrisma.store.findUnique.mockResolvedValue({ timezone: "UTC" });
+      mockPrisma.$queryRaw.mockResolvedValue([
+        {
+          campaignId: "camp-1",
+          campaignName: "Spin to Win",
+          templateType: "SPIN_TO_WIN",
+          week: "2025-03-03",
+          leads: 12,
+          eligible30: 12,
+          purchasers30: 6,
+          repeat30: 2,
+          revenue30: "310.5",
+          eligible60: 12,
+          purchasers60: 7,
+          repeat60: 3,
+          revenue60: 420,
+          eligible90: 10,
+          purchasers90: 7,
+          repeat90: 4,
+          revenue90: 515.25,
+        },
+      ]);
+
+      const rows = await LeadCohortService.getCohorts("store-1", {
+        weeks: 2,
+        now: new Date("2025-06-18T10:00:00.000Z"),
+      });
+
+      expect(rows).toEqual([
+        {
+          campaignId: "camp-1",
+          campaignName: "Spin to Win",
+          templateType: "SPIN_TO_WIN",
+          week: "2025-03-03",
+          leads: 12,
+          windows: {
+            30: { eligibleLeads: 12, purchasers: 6, repeatPurchasers: 2, revenue: 310.5 },
+            60: { eligibleLeads: 12, purchasers: 7, repeatPurchasers: 3, revenue: 420 },
+            90: { eligibleLeads: 10, purchasers: 7, repeatPurchasers: 4, revenue: 515.25 },
+          },
+        },
+      ]);
+
+      // Tagged template values: timezone, storeId, from, then the window cutoffs
+      const values = mockPrisma.$queryRaw.mock.calls[0].slice(1);
+      expect(values.slice(0, 3)).toEqual(["UTC", "store-1", new Date("2025-06-09T00:00:00.000Z")]);
+      expect(values[3]).toEqual(new Date("2025-05-19T10:00:00.000Z"));
+    });
+
+    it("wraps query failures", async () => {
+      mockPrisma.store.findUnique.mockResolvedValue(null);
+      mockPrisma.$queryRaw.mockRejectedValueOnce(new Error("db down"));
+
+      await expect(LeadCohortService.getCohorts("store-1")).rejects.toMatchObject({
+        code: "LEAD_COHORTS_FAILED",
+      });
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  getCohortWindowMetrics,
+  groupCohorts,
+  type CohortWindowCounts,
+  type LeadCohortRow,
+} from "~/domains/analytics/lead-cohorts";
+
+const windowCounts = (
+  eligibleLeads: number,
+  purchasers: number,
+  repeatPurchasers: number,
+  revenue: number
+): CohortWindowCounts => ({ eligibleLeads, purchasers, repeatPurchasers, revenue });
+
+const row = (overrides: Partial<LeadCohortRow>): LeadCohortRow => ({
+  campaignId: "camp-1",
+  campaignName: "Spin to Win",
+  templateType: "SPIN_TO_WIN",
+  week: "2025-03-03",
+  leads: 10,
+  windows: {
+    30: windowCounts(10, 4, 1, 200),
+    60: windowCounts(10, 5, 2, 300),
+    90: windowCounts(8, 5, 3, 400),
+  },
+  ...overrides,
+});
+
+describe("getCohortWindowMetrics", () => {
+  it("divides by the eligible leads", () => {
+    expect(getCohortWindowMetrics(windowCounts(8, 4, 2, 200))).toEqual({
+      eligibleLeads: 8,
+      purchasers: 4,
+      repeatPurchasers: 2,
+      revenue: 200,
+      purchaseRate: 0.5,
+      repeatPurchaseRate: 0.25,
+      revenuePerLead: 25,
+    });
+  });
+
+  it("has no rates before any lead is old enough", () => {
+    expect(getCohortWindowMetrics(windowCounts(0, 0, 0, 0))).toMatchObject({
+      purchaseRate: null,
+      repeatPurchaseRate: null,
+      revenuePerLead: null,
+    });
+  });
+});
+
+describe("groupCohorts", () => {
+  const rows = [
+    row({}),
+    row({ week: "2025-03-10", leads: 5 }),
+    row({
+      campaignId: "camp-2",
+      campaignName: "Newsletter",
+      templateType: "NEWSLETTER",
+      leads: 30,
+      windows: {
+        30: windowCounts(30, 3, 0, 90),
+        60: windowCounts(30, 6, 1, 180),
+        90: windowCounts(0, 0, 0, 0),
+      },
+    }),
+  ];
+
+  it("groups by campaign, largest first", () => {
+    const cohorts = groupCohorts(rows, "campaign");
+
+    expect(cohorts.map((cohort) => [cohort.label, cohort.leads])).toEqual([
+      ["Newsletter", 30],
+      ["Spin to Win", 15],
+    ]);
+    expect(cohorts[1].windows[30]).toMatchObject({
+      eligibleLeads: 20,
+      purchasers: 8,
+      repeatPurchasers: 2,
+      revenue: 400,
+      repeatPurchaseRate: 0.1,
+      revenuePerLead: 20,
+    });
+    expect(cohorts[0].windows[90].repeatPurchaseRate).toBeNull();
+  });
+
+  it("groups by template type with readable labels", () => {
+    expect(groupCohorts(rows, "template").map((cohort) => cohort.label)).toEqual([
+      "Newsletter",
+      "Spin To Win",
+    ]);
+  });
+
+  it("lists signup weeks newest first", () => {
+    const cohorts = groupCohorts(rows, "week");
+
+    expect(cohorts.map((cohort) => [cohort.key, cohort.label, cohort.leads])).toEqual([
+      ["2025-03-10", "Week of 2025-03-10", 5],
+      ["2025-03-03", "Week of 2025-03-03", 40],
+    ]);
+  });
+});
@@ -20,6 +20,19 @@ vi.mock("~/domains/billing/services/plan-guard.server", () => ({
 	PlanGuardService: mockPlanGuardService,
 }));
 
+const mockRetention = vi.hoisted(() => ({
+  hasArchivedEvents: vi.fn(),
+  getTotalsByCampaign: vi.fn(),
+}));
+
+vi.mock("~/domains/analytics/event-retention.server", () => ({
+  EventRetentionService: { hasArchivedEvents: mockRetention.hasArchivedEvents },
+}));
+
+vi.mock("~/domains/analytics/analytics-rollup.server", () => ({
+  AnalyticsRollupService: { getTotalsByCampaign: mockRetention.getTotalsByCampaign },
+}));
+
 const mockPrisma = prisma as unknown as {
   popupEvent: {
     create: ReturnType<typeof vi.fn>;
@@ -33,6 +46,7 @@ describe("PopupEventService", () => {
 	    mockPlanGuardService.assertWithinMonthlyImpressionCap.mockResolvedValue(
 	      undefined,
 	    );
+    mockRetention.hasArchivedEvents.mockResolvedValue(false);
   });
 
   it("records a VIEW event", async () => {
@@ -161,6 +175,27 @@ describe("PopupEventService", () => {
     expect(mockPrisma.popupEvent.groupBy).toHaveBeenCalledTimes(1);
   });
 
+  it("reads counts from the daily rollups when the range reaches archived events", async () => {
+    const from = new Date("2024-01-01T00:00:00.000Z");
+    mockRetention.hasArchivedEvents.mockResolvedValueOnce(true);
+    mockRetention.getTotalsByCampaign.mockResolvedValueOnce(
+      new Map([
+        ["camp-1", { impressions: 120, clicks: 9 }],
+        ["camp-2", { impressions: 0, clicks: 0 }],
+      ]),
+    );
+
+    const result = await PopupEventService.getImpressionCountsByCampaign(
+      ["camp-1", "camp-2"],
+      { from },
+    );
+
+    expect(mockRetention.hasArchivedEvents).toHaveBeenCalledWith(["camp-1", "camp-2"], from);
+    expect(mockRetention.getTotalsByCampaign).toHaveBeenCalledWith(["camp-1", "camp-2"], { from });
+    expect(result.get("camp-1")).toBe(120);
+    expect(result.has("camp-2")).toBe(false);
+    expect(mockPrisma.popupEvent.groupBy).not.toHaveBeenCalled();
+  });
 
   it("computes funnel stats (views -> submits -> coupons) per campaign", async () => {
     (mockPrisma.popupEvent.groupBy as any)
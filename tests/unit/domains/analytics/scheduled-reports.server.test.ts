@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    store: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("~/domains/campaigns/services/campaign-analytics.server", () => ({
+  CampaignAnalyticsService: {
+    getGlobalMetricsWithComparison: vi.fn(),
+    getCampaignRankings: vi.fn(),
+  },
+}));
+
+vi.mock("~/lib/mail-transport.server", () => ({
+  getMailTransport: vi.fn(),
+  getMailFrom: vi.fn(() => "Revenue Boost <reports@example.com>"),
+}));
+
+vi.mock("~/shopify.server", () => ({
+  unauthenticated: { admin: vi.fn() },
+}));
+
+vi.mock("~/lib/currency.server", () => ({
+  getStoreCurrency: vi.fn(),
+}));
+
+vi.mock("~/lib/logger.server", () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from "~/db.server";
+import { CampaignAnalyticsService } from "~/domains/campaigns/services/campaign-analytics.server";
+import { getMailTransport } from "~/lib/mail-transport.server";
+import { unauthenticated } from "~/shopify.server";
+import { getStoreCurrency } from "~/lib/currency.server";
+import { ScheduledReportService } from "~/domains/analytics/scheduled-reports.server";
+
+const mockPrisma = prisma as unknown as {
+  store: {
+    findMany: ReturnType<typeof vi.fn>;
+    findUnique: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+  };
+};
+
+const send = vi.fn();
+
+// Wednesday 2025-06-18, 10:00 UTC
+const NOW = new Date("2025-06-18T10:00:00.000Z");
+
+const EMPTY_METRICS = {
+  totalRevenue: 0,
+  totalLeads: 0,
+  totalImpressions: 0,
+  totalClicks: 0,
+  totalOrders: 0,
+  avgConversionRate: 0,
+  avgOrderValue: 0,
+};
+
+function createStore(overrides = {}) {
+  return {
+    id: "store-1",
+    shopifyDomain: "shop.myshopify.com",
+    timezone: "UTC",
+    reportSentThrough: null as Date | null,
+    settings: {
+      reports: { enabled: true, cadence: "weekly", recipients: ["owner@shop.com"] },
+    },
+    ...overrides,
+  };
+}
+
+describe("ScheduledReportService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getMailTransport).mockReturnValue({ driver: "file", send });
+    send.mockResolvedValue("/tmp/mail/report.eml");
+    vi.mocked(CampaignAnalyticsService.getGlobalMetricsWithComparison).mockResolvedValue({
+      current: EMPTY_METRICS,
+      previous: EMPTY_METRICS,
+      changes: { revenue: 0, leads: 0, impressions: 0, conversionRate: 0, orders: 0, aov: 0 },
+    });
+    vi.mocked(CampaignAnalyticsService.getCampaignRankings).mockResolvedValue([]);
+    vi.mocked(unauthenticated.admin).mockResolvedValue({ admin: {} } as never);
+    vi.mocked(getStoreCurrency).mockResolvedValue("EUR");
+  });
+
+  describe("getSettings", () => {
+    it("should apply defaults", () => {
+      expect(ScheduledReportService.getSettings(null)).toEqual({
+        enabled: false,
+        cadence: "weekly",
+        recipients: [],
+      });
+    });
+  });
+
+  describe("sendDueReports", () => {
+    it("should email the last completed week and record it", async () => {
+      mockPrisma.store.findMany.mockResolvedValue([createStore()]);
+
+      const summary = await ScheduledReportService.sendDueReports(NOW);
+
+      expect(summary).toMatchObject({ sent: 1, errors: 0 });
+      expect(CampaignAnalyticsService.getGlobalMetricsWithComparison).toHaveBeenCalledWith(
+        "store-1",
+        {
+          from: new Date("2025-06-09T00:00:00.000Z"),
+          to: new Date("2025-06-15T23:59:59.999Z"),
+        },
+        {
+          from: new Date("2025-06-02T00:00:00.000Z"),
+          to: new Date("2025-06-08T23:59:59.999Z"),
+        }
+      );
+      expect(send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: ["owner@shop.com"],
+          subject: expect.stringContaining("Jun 9 – Jun 15, 2025"),
+          attachments: [
+            expect.objectContaining({
+              filename: "revenue-boost-weekly-2025-06-09-to-2025-06-15.csv",
+              contentType: "text/csv",
+            }),
+          ],
+        })
+      );
+      expect(mockPrisma.store.update).toHaveBeenCalledWith({
+        where: { id: "store-1" },
+        data: { reportSentThrough: new Date("2025-06-15T00:00:00.000Z") },
+      });
+    });
+
+    it("should not resend a period", async () => {
+      mockPrisma.store.findMany.mockResolvedValue([
+        createStore({ reportSentThrough: new Date("2025-06-15T00:00:00.000Z") }),
+      ]);
+
+      const summary = await ScheduledReportService.sendDueReports(NOW);
+
+      expect(summary.sent).toBe(0);
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it("should skip stores without reports or recipients", async () => {
+      mockPrisma.store.findMany.mockResolvedValue([
+        createStore({ settings: {} }),
+        createStore({
+          id: "store-2",
+          settings: { reports: { enabled: true, cadence: "weekly", recipients: [] } },
+        }),
+      ]);
+
+      const summary = await ScheduledReportService.sendDueReports(NOW);
+
+      expect(summary.results).toEqual([]);
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it("should keep going when one store fails", async () => {
+      mockPrisma.store.findMany.mockResolvedValue([createStore(), createStore({ id: "store-2" })]);
+      send.mockRejectedValueOnce(new Error("SMTP down"));
+
+      const summary = await ScheduledReportService.sendDueReports(NOW);
+
+      expect(summary).toMatchObject({ sent: 1, errors: 1 });
+      expect(mockPrisma.store.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.store.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: "store-2" } })
+      );
+    });
+
+    it("should fall back to USD when the shop currency is unavailable", async () => {
+      mockPrisma.store.findMany.mockResolvedValue([createStore()]);
+      vi.mocked(unauthenticated.admin).mockRejectedValueOnce(new Error("no session"));
+
+      await ScheduledReportService.sendDueReports(NOW);
+
+      expect(send).toHaveBeenCalledWith(
+        expect.objectContaining({ text: expect.stringContaining("$0.00") })
+      );
+    });
+
+    it("should do nothing without a mail transport", async () => {
+      vi.mocked(getMailTransport).mockReturnValueOnce(null);
+
+      const summary = await ScheduledReportService.sendDueReports(NOW);
+
+      expect(summary).toEqual({ sent: 0, errors: 0, results: [] });
+      expect(mockPrisma.store.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("sendTestReport", () => {
+    it("should send the last period without touching the schedule", async () => {
+      mockPrisma.store.findUnique.mockResolvedValue(
+        createStore({
+          settings: { reports: { enabled: false, cadence: "monthly", recipients: ["a@b.com"] } },
+        })
+      );
+
+      const result = await ScheduledReportService.sendTestReport("store-1", NOW);
+
+      expect(result).toEqual({
+        storeId: "store-1",
+        period: { from: "2025-05-01", to: "2025-05-31" },
+        recipients: 1,
+      });
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.store.update).not.toHaveBeenCalled();
+    });
+
+    it("should require recipients", async () => {
+      mockPrisma.store.findUnique.mockResolvedValue(createStore({ settings: {} }));
+
+      await expect(ScheduledReportService.sendTestReport("store-1", NOW)).rejects.toThrow(
+        "Add at least one report recipient first"
+      );
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildReportCsv,
+  buildReportHtml,
+  buildReportText,
+  csvCell,
+  formatPeriodLabel,
+  getLastCompletedPeriod,
+  getPreviousPeriod,
+  getReportFilename,
+  getReportSubject,
+  type AnalyticsReport,
+} from "~/domains/analytics/scheduled-reports";
+
+function createReport(overrides: Partial<AnalyticsReport> = {}): AnalyticsReport {
+  const metrics = {
+    totalRevenue: 1234.5,
+    totalLeads: 40,
+    totalImpressions: 2000,
+    totalClicks: 150,
+    totalOrders: 12,
+    avgConversionRate: 2,
+    avgOrderValue: 102.875,
+  };
+
+  return {
+    shopDomain: "shop.myshopify.com",
+    cadence: "weekly",
+    period: { from: "2025-06-09", to: "2025-06-15" },
+    previousPeriod: { from: "2025-06-02", to: "2025-06-08" },
+    currency: "USD",
+    metrics: {
+      current: metrics,
+      previous: { ...metrics, totalRevenue: 1000, totalLeads: 50 },
+      changes: { revenue: 23.5, leads: -20, impressions: 0, conversionRate: 0, orders: 0, aov: 0 },
+    },
+    topCampaigns: [
+      {
+        id: "campaign-1",
+        name: 'Summer "Sale", 20% off',
+        templateType: "NEWSLETTER",
+        status: "ACTIVE",
+        impressions: 1500,
+        leads: 30,
+        clicks: 100,
+        revenue: 900,
+        orders: 8,
+        conversionRate: 2,
+        aov: 112.5,
+      },
+    ],
+    ...overrides,
+  } as AnalyticsReport;
+}
+
+describe("scheduled report periods", () => {
+  it("should cover the previous Monday to Sunday week", () => {
+    // Wednesday
+    expect(getLastCompletedPeriod("weekly", "2025-06-18")).toEqual({
+      from: "2025-06-09",
+      to: "2025-06-15",
+    });
+    // Monday: the week that just ended
+    expect(getLastCompletedPeriod("weekly", "2025-06-16")).toEqual({
+      from: "2025-06-09",
+      to: "2025-06-15",
+    });
+    // Sunday: the current week is not complete yet
+    expect(getLastCompletedPeriod("weekly", "2025-06-15")).toEqual({
+      from: "2025-06-02",
+      to: "2025-06-08",
+    });
+  });
+
+  it("should cover the previous calendar month", () => {
+    expect(getLastCompletedPeriod("monthly", "2025-03-01")).toEqual({
+      from: "2025-02-01",
+      to: "2025-02-28",
+    });
+    expect(getLastCompletedPeriod("monthly", "2025-01-20")).toEqual({
+      from: "2024-12-01",
+      to: "2024-12-31",
+    });
+  });
+
+  it("should compare with the period right before", () => {
+    expect(getPreviousPeriod("weekly", { from: "2025-06-09", to: "2025-06-15" })).toEqual({
+      from: "2025-06-02",
+      to: "2025-06-08",
+    });
+    expect(getPreviousPeriod("monthly", { from: "2024-03-01", to: "2024-03-31" })).toEqual({
+      from: "2024-02-01",
+      to: "2024-02-29",
+    });
+  });
+
+  it("should label periods", () => {
+    expect(formatPeriodLabel("weekly", { from: "2025-06-09", to: "2025-06-15" })).toBe(
+      "Jun 9 – Jun 15, 2025"
+    );
+    expect(formatPeriodLabel("monthly", { from: "2025-02-01", to: "2025-02-28" })).toBe(
+      "February 2025"
+    );
+  });
+});
+
+describe("scheduled report content", () => {
+  it("should quote CSV cells only when needed", () => {
+    expect(csvCell("plain")).toBe("plain");
+    expect(csvCell(12)).toBe("12");
+    expect(csvCell('a "b", c')).toBe('"a ""b"", c"');
+  });
+
+  it("should build a CSV with the summary and top campaigns", () => {
+    const lines = buildReportCsv(createReport()).split("\r\n");
+
+    expect(lines[0]).toBe("Metric,Current period,Previous period,Change");
+    expect(lines).toContain('Revenue,"$1,234.50","$1,000.00",+23.5%');
+    expect(lines).toContain("Leads,40,50,-20.0%");
+    expect(lines).toContain('"Summer ""Sale"", 20% off",NEWSLETTER,ACTIVE,1500,30,2.00%,8,900.00');
+  });
+
+  it("should name the subject and attachment after the period", () => {
+    const report = createReport();
+
+    expect(getReportSubject(report)).toBe(
+      "Weekly Revenue Boost report for shop.myshopify.com: Jun 9 – Jun 15, 2025"
+    );
+    expect(getReportFilename(report)).toBe("revenue-boost-weekly-2025-06-09-to-2025-06-15.csv");
+  });
+
+  it("should escape campaign names in the HTML body", () => {
+    const html = buildReportHtml(
+      createReport({
+        topCampaigns: [{ ...createReport().topCampaigns[0], name: "<script>x</script>" }],
+      })
+    );
+
+    expect(html).toContain("&lt;script&gt;x&lt;/script&gt;");
+    expect(html).not.toContain("<script>");
+  });
+
+  it("should mention periods without campaign activity", () => {
+    expect(buildReportText(createReport({ topCampaigns: [] }))).toContain(
+      "No campaign activity in this period."
+    );
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Unit Tests for Sequential Testing
+ *
+ * Tests the statistics used to monitor experiments continuously:
+ * - Planned sample size
+ * - Always-valid p-values
+ * - O'Brien-Fleming alpha spending
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  alwaysValidPValue,
+  obrienFlemingAlphaSpent,
+  obrienFlemingBoundary,
+  plannedSampleSizePerVariant,
+  runSequentialTest,
+} from "~/domains/analytics/sequential-testing";
+
+describe("plannedSampleSizePerVariant", () => {
+  it("should match the textbook sample size for a 5% baseline and 20% lift", () => {
+    // Two-sided alpha 0.05, power 0.8 -> roughly 8,150 visitors per variant
+    const n = plannedSampleSizePerVariant(0.05, 0.2, 0.05, 0.8);
+    expect(n).toBeGreaterThan(8000);
+    expect(n).toBeLessThan(8300);
+  });
+
+  it("should need more visitors for smaller effects", () => {
+    expect(plannedSampleSizePerVariant(0.05, 0.1, 0.05, 0.8)).toBeGreaterThan(
+      plannedSampleSizePerVariant(0.05, 0.2, 0.05, 0.8)
+    );
+  });
+});
+
+describe("alwaysValidPValue", () => {
+  it("should stay at 1 without data", () => {
+    expect(alwaysValidPValue({ successes: 0, trials: 0 }, { successes: 0, trials: 0 }, 0.1)).toBe(1);
+  });
+
+  it("should not reject for identical rates", () => {
+    const p = alwaysValidPValue(
+      { successes: 100, trials: 2000 },
+      { successes: 100, trials: 2000 },
+      0.1
+    );
+    expect(p).toBe(1);
+  });
+
+  it("should be more conservative than a fixed-horizon test", () => {
+    // z ≈ 2.05 -> fixed-horizon p ≈ 0.04, always-valid p should be larger
+    const p = alwaysValidPValue(
+      { successes: 100, trials: 2000 },
+      { successes: 130, trials: 2000 },
+      0.2
+    );
+    expect(p).toBeGreaterThan(0.05);
+  });
+
+  it("should reject for a large, well-powered difference", () => {
+    const p = alwaysValidPValue(
+      { successes: 250, trials: 5000 },
+      { successes: 400, trials: 5000 },
+      0.2
+    );
+    expect(p).toBeLessThan(0.01);
+  });
+});
+
+describe("O'Brien-Fleming alpha spending", () => {
+  it("should spend almost no alpha early and all of it at the end", () => {
+    expect(obrienFlemingAlphaSpent(0.05, 0.1)).toBeLessThan(0.0001);
+    expect(obrienFlemingAlphaSpent(0.05, 1)).toBeCloseTo(0.05, 3);
+  });
+
+  it("should use stricter boundaries at earlier looks", () => {
+    expect(obrienFlemingBoundary(0.05, 0.25)).toBeCloseTo(3.92, 1);
+    expect(obrienFlemingBoundary(0.05, 1)).toBeCloseTo(1.96, 2);
+    expect(obrienFlemingBoundary(0.05, 0)).toBe(Infinity);
+  });
+});
+
+describe("runSequentialTest", () => {
+  const control = { successes: 100, trials: 2000 };
+  const variant = { successes: 135, trials: 2000 };
+
+  it("should not cross the alpha-spending boundary at an early look", () => {
+    const result = runSequentialTest(control, variant, {
+      method: "alpha_spending",
+      alpha: 0.05,
+      minimumDetectableEffect: 0.2,
+      plannedSampleSize: 8000,
+    });
+
+    expect(result.informationFraction).toBeCloseTo(0.25);
+    expect(result.criticalValue).toBeCloseTo(3.92, 1);
+    expect(result.boundaryCrossed).toBe(false);
+  });
+
+  it("should cross the boundary at the final look", () => {
+    const result = runSequentialTest(control, variant, {
+      method: "alpha_spending",
+      alpha: 0.05,
+      minimumDetectableEffect: 0.2,
+      plannedSampleSize: 2000,
+    });
+
+    expect(result.informationFraction).toBe(1);
+    expect(result.boundaryCrossed).toBe(true);
+  });
+
+  it("should use always-valid p-values by default method", () => {
+    const result = runSequentialTest(control, variant, {
+      method: "always_valid",
+      alpha: 0.05,
+      minimumDetectableEffect: 0.2,
+      plannedSampleSize: 8000,
+    });
+
+    expect(result.criticalValue).toBeNull();
+    expect(result.pValue).toBe(alwaysValidPValue(control, variant, 0.2));
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Unit Tests for Bandit Allocation Service
+ *
+ * Tests the background bandit reallocation job:
+ * - Only experiments with a bandit config are recomputed
+ * - Weights are cached in Redis and recorded as a snapshot
+ * - Allocation history is returned oldest first
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    experiment: {
+      findMany: vi.fn(),
+    },
+    experimentAllocationSnapshot: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("~/lib/redis.server", () => ({
+  redis: {
+    get: vi.fn(),
+    set: vi.fn(),
+    setex: vi.fn(),
+  },
+  REDIS_PREFIXES: { BANDIT: "bandit" },
+  REDIS_TTL: { DAY: 86400, VISITOR: 7776000 },
+}));
+
+vi.mock("~/domains/analytics/experiment-analytics.server", () => ({
+  getVariantPerformance: vi.fn(),
+}));
+
+import { BanditAllocationService } from "~/domains/campaigns/services/bandit-allocation.server";
+import { getVariantPerformance } from "~/domains/analytics/experiment-analytics.server";
+import { redis } from "~/lib/redis.server";
+import prisma from "~/db.server";
+
+// ==========================================================================
+// TEST HELPERS
+// ==========================================================================
+
+const banditConfig = {
+  algorithm: "epsilon_greedy" as const,
+  epsilon: 0.1,
+  minimumAllocation: 5,
+  warmupImpressions: 100,
+};
+
+function createPerformance() {
+  return {
+    primaryMetric: "conversion_rate",
+    variants: [
+      { variantKey: "A", impressions: 1000, clicks: 0, submissions: 50, orders: 0 },
+      { variantKey: "B", impressions: 1000, clicks: 0, submissions: 90, orders: 0 },
+    ],
+  } as unknown as Awaited<ReturnType<typeof getVariantPerformance>>;
+}
+
+// ==========================================================================
+// TESTS
+// ==========================================================================
+
+describe("BanditAllocationService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("recomputeRunningExperiments", () => {
+    it("should only recompute experiments with a bandit config", async () => {
+      vi.mocked(prisma.experiment.findMany).mockResolvedValue([
+        { id: "exp-1", storeId: "store-1", statisticalConfig: { bandit: banditConfig } },
+        { id: "exp-2", storeId: "store-1", statisticalConfig: {} },
+      ] as never);
+      vi.mocked(getVariantPerformance).mockResolvedValue(createPerformance());
+
+      const summary = await BanditAllocationService.recomputeRunningExperiments();
+
+      expect(summary.recomputed).toBe(1);
+      expect(summary.results[0].experimentId).toBe("exp-1");
+      expect(getVariantPerformance).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("recomputeExperiment", () => {
+    it("should cache the weights and record a snapshot", async () => {
+      vi.mocked(getVariantPerformance).mockResolvedValue(createPerformance());
+
+      const result = await BanditAllocationService.recomputeExperiment(
+        "exp-1",
+        "store-1",
+        banditConfig
+      );
+
+      expect(result.weights?.B).toBeGreaterThan(result.weights?.A ?? 0);
+      expect(redis!.setex).toHaveBeenCalledWith(
+        "bandit:weights:exp-1",
+        86400,
+        JSON.stringify(result.weights)
+      );
+      expect(prisma.experimentAllocationSnapshot.create).toHaveBeenCalledWith({
+        data: {
+          experimentId: "exp-1",
+          algorithm: "epsilon_greedy",
+          weights: result.weights,
+          impressions: { A: 1000, B: 1000 },
+        },
+      });
+    });
+
+    it("should report an error without throwing", async () => {
+      vi.mocked(getVariantPerformance).mockRejectedValue(new Error("db down"));
+
+      const result = await BanditAllocationService.recomputeExperiment(
+        "exp-1",
+        "store-1",
+        banditConfig
+      );
+
+      expect(result).toEqual({
+        experimentId: "exp-1",
+        storeId: "store-1",
+        weights: null,
+        error: true,
+      });
+    });
+  });
+
+  describe("getAllocationHistory", () => {
+    it("should return snapshots oldest first", async () => {
+      vi.mocked(prisma.experimentAllocationSnapshot.findMany).mockResolvedValue([
+        {
+          id: "s2",
+          algorithm: "thompson_sampling",
+          weights: { A: 30, B: 70 },
+          impressions: {},
+          createdAt: new Date("2025-01-02"),
+        },
+        {
+          id: "s1",
+          algorithm: "thompson_sampling",
+          weights: { A: 50, B: 50 },
+          impressions: {},
+          createdAt: new Date("2025-01-01"),
+        },
+      ] as never);
+
+      const history = await BanditAllocationService.getAllocationHistory("exp-1", "store-1");
+
+      expect(history.map((s) => s.id)).toEqual(["s1", "s2"]);
+    });
+  });
+
+  describe("getBanditExperimentIds", () => {
+    it("should return the experiments with a bandit config", async () => {
+      vi.mocked(prisma.experiment.findMany).mockResolvedValue([
+        { id: "exp-1", statisticalConfig: { bandit: banditConfig } },
+        { id: "exp-2", statisticalConfig: {} },
+      ] as never);
+
+      const ids = await BanditAllocationService.getBanditExperimentIds(["exp-1", "exp-2"]);
+
+      expect([...ids]).toEqual(["exp-1"]);
+    });
+
+    it("should not query without experiments and fall back to the static split on errors", async () => {
+      expect((await BanditAllocationService.getBanditExperimentIds([])).size).toBe(0);
+      expect(prisma.experiment.findMany).not.toHaveBeenCalled();
+
+      vi.mocked(prisma.experiment.findMany).mockRejectedValue(new Error("Connection lost"));
+      expect((await BanditAllocationService.getBanditExperimentIds(["exp-1"])).size).toBe(0);
+    });
+  });
+
+  describe("sticky assignments", () => {
+    it("should record assignments only if none exists", async () => {
+      await BanditAllocationService.recordAssignment("exp-1", "visitor-1", "B");
+
+      expect(redis!.set).toHaveBeenCalledWith(
+        "bandit:assignment:exp-1:visitor-1",
+        "B",
+        "EX",
+        7776000,
+        "NX"
+      );
+    });
+
+    it("should return null for unparseable cached weights", async () => {
+      vi.mocked(redis!.get).mockResolvedValue("not-json");
+
+      expect(await BanditAllocationService.getCachedWeights("exp-1")).toBeNull();
+    });
+  });
+});
@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import prisma from "~/db.server";
-import { PopupEventService } from "~/domains/analytics/popup-events.server";
+import {
+  AnalyticsRollupService,
+  EMPTY_ROLLUP_TOTALS,
+  type RollupTotals,
+} from "~/domains/analytics/analytics-rollup.server";
 import { CampaignAnalyticsService } from "~/domains/campaigns/services/campaign-analytics.server";
 
 vi.mock("~/db.server", () => {
@@ -13,18 +17,18 @@ vi.mock("~/db.server", () => {
       campaign: {
         findMany: vi.fn(),
       },
-      campaignConversion: {
-        groupBy: vi.fn(),
-      },
     },
   };
 });
 
-vi.mock("~/domains/analytics/popup-events.server", () => {
+vi.mock("~/domains/analytics/analytics-rollup.server", async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import("~/domains/analytics/analytics-rollup.server")>();
   return {
-    PopupEventService: {
-      getImpressionCountsByCampaign: vi.fn(),
-      getClickCountsByCampaign: vi.fn(),
+    ...actual,
+    AnalyticsRollupService: {
+      getTotalsByCampaign: vi.fn(),
+      getDailyTotals: vi.fn(),
     },
   };
 });
@@ -37,20 +41,24 @@ const mockPrisma = prisma as unknown as {
   campaign: {
     findMany: ReturnType<typeof vi.fn>;
   };
-  campaignConversion: {
-    groupBy: ReturnType<typeof vi.fn>;
-  };
 };
 
-const mockGetImpressions =
-  PopupEventService.getImpressionCountsByCampaign as unknown as ReturnType<
-    typeof vi.fn
-  >;
+const mockGetTotals = AnalyticsRollupService.getTotalsByCampaign as unknown as ReturnType<
+  typeof vi.fn
+>;
+
+const mockGetDailyTotals = AnalyticsRollupService.getDailyTotals as unknown as ReturnType<
+  typeof vi.fn
+>;
 
-const mockGetClicks =
-  PopupEventService.getClickCountsByCampaign as unknown as ReturnType<
-    typeof vi.fn
-  >;
+function totals(entries: Record<string, Partial<RollupTotals>>): Map<string, RollupTotals> {
+  return new Map(
+    Object.entries(entries).map(([campaignId, values]) => [
+      campaignId,
+      { ...EMPTY_ROLLUP_TOTALS, ...values },
+    ])
+  );
+}
 
 describe("CampaignAnalyticsService", () => {
   beforeEach(() => {
@@ -58,10 +66,12 @@ describe("CampaignAnalyticsService", () => {
   });
 
   it("computes conversion rate in getCampaignStats using impressions", async () => {
-    (mockPrisma.lead.groupBy as any).mockResolvedValueOnce([
-      { campaignId: "camp-1", _count: { id: 10 } },
-      { campaignId: "camp-2", _count: { id: 5 } },
-    ]);
+    mockGetTotals.mockResolvedValueOnce(
+      totals({
+        "camp-1": { leads: 10, impressions: 100 },
+        "camp-2": { leads: 5, impressions: 0 },
+      })
+    );
 
     const lastLead1 = new Date("2025-01-01T00:00:00.000Z");
     const lastLead2 = new Date("2025-01-02T00:00:00.000Z");
@@ -71,17 +81,7 @@ describe("CampaignAnalyticsService", () => {
       { campaignId: "camp-2", lastLeadAt: lastLead2 },
     ]);
 
-    (mockGetImpressions as any).mockResolvedValueOnce(
-      new Map<string, number>([
-        ["camp-1", 100],
-        ["camp-2", 0],
-      ]),
-    );
-
-    const stats = await CampaignAnalyticsService.getCampaignStats([
-      "camp-1",
-      "camp-2",
-    ]);
+    const stats = await CampaignAnalyticsService.getCampaignStats(["camp-1", "camp-2"]);
 
     const camp1 = stats.get("camp-1");
     const camp2 = stats.get("camp-2");
@@ -97,6 +97,17 @@ describe("CampaignAnalyticsService", () => {
     expect(camp2!.conversionRate).toBe(0); // no impressions
   });
 
+  it("passes the date range to the rollups in getCampaignStats", async () => {
+    mockGetTotals.mockResolvedValueOnce(new Map());
+    (mockPrisma.$queryRaw as any).mockResolvedValueOnce([]);
+
+    const from = new Date("2025-01-01T00:00:00.000Z");
+    await CampaignAnalyticsService.getCampaignStats(["camp-1"], { from });
+
+    expect(mockGetTotals).toHaveBeenCalledWith(["camp-1"], { from });
+    expect(mockPrisma.lead.groupBy).not.toHaveBeenCalled();
+  });
+
   it("computes conversion rate in getCampaignsWithStats", async () => {
     (mockPrisma.campaign.findMany as any).mockResolvedValueOnce([
       {
@@ -121,16 +132,13 @@ describe("CampaignAnalyticsService", () => {
       .spyOn(CampaignAnalyticsService, "getLastLeadTimes")
       .mockResolvedValueOnce(lastLeadTimes);
 
-    (mockGetImpressions as any).mockResolvedValueOnce(
-      new Map<string, number>([
-        ["camp-1", 50],
-        ["camp-2", 0],
-      ]),
+    mockGetTotals.mockResolvedValueOnce(
+      totals({
+        "camp-1": { impressions: 50 },
+      })
     );
 
-    const result = await CampaignAnalyticsService.getCampaignsWithStats(
-      "store-1",
-    );
+    const result = await CampaignAnalyticsService.getCampaignsWithStats("store-1");
 
     expect(result).toHaveLength(2);
 
@@ -145,42 +153,35 @@ describe("CampaignAnalyticsService", () => {
     expect(camp2.conversionRate).toBe(0);
 
     expect(lastLeadSpy).toHaveBeenCalledWith(["camp-1", "camp-2"]);
-    expect(mockGetImpressions).toHaveBeenCalledWith(["camp-1", "camp-2"]);
+    expect(mockGetTotals).toHaveBeenCalledWith(["camp-1", "camp-2"]);
   });
 
-  it("aggregates gross revenue by campaign", async () => {
-    (mockPrisma.campaignConversion.groupBy as any).mockResolvedValueOnce([
-      {
-        campaignId: "camp-1",
-        _sum: { totalPrice: 100, discountAmount: 10 },
-        _count: { id: 2 },
-      },
-    ]);
+  it("aggregates net revenue by campaign", async () => {
+    mockGetTotals.mockResolvedValueOnce(
+      totals({
+        "camp-1": { revenue: 100, discount: 10, orders: 2 },
+      })
+    );
 
-    const result = await CampaignAnalyticsService.getRevenueByCampaignIds([
-      "camp-1",
-      "camp-2",
-    ]);
+    const result = await CampaignAnalyticsService.getRevenueByCampaignIds(["camp-1", "camp-2"]);
 
     expect(result.get("camp-1")).toBe(100);
     expect(result.has("camp-2")).toBe(false);
-    expect(mockPrisma.campaignConversion.groupBy).toHaveBeenCalledTimes(1);
+    expect(mockGetTotals).toHaveBeenCalledTimes(1);
   });
 
   it("aggregates revenue breakdown by campaign", async () => {
-    (mockPrisma.campaignConversion.groupBy as any).mockResolvedValueOnce([
-      {
-        campaignId: "camp-1",
-        _sum: { totalPrice: 200, discountAmount: 40 },
-        _count: { id: 4 },
-      },
-    ]);
+    mockGetTotals.mockResolvedValueOnce(
+      totals({
+        "camp-1": { revenue: 200, discount: 40, orders: 4 },
+        "camp-2": { impressions: 100 }, // no orders
+      })
+    );
 
-    const result =
-      await CampaignAnalyticsService.getRevenueBreakdownByCampaignIds([
-        "camp-1",
-        "camp-2",
-      ]);
+    const result = await CampaignAnalyticsService.getRevenueBreakdownByCampaignIds([
+      "camp-1",
+      "camp-2",
+    ]);
 
     const camp1 = result.get("camp-1");
     expect(camp1).toBeDefined();
@@ -189,7 +190,39 @@ describe("CampaignAnalyticsService", () => {
     expect(camp1!.orderCount).toBe(4);
     expect(camp1!.aov).toBe(50);
     expect(result.has("camp-2")).toBe(false);
-    expect(mockPrisma.campaignConversion.groupBy).toHaveBeenCalledTimes(1);
+    expect(mockGetTotals).toHaveBeenCalledTimes(1);
+  });
+
+  describe("getDailyMetrics", () => {
+    it("maps daily rollups to impressions, submits and revenue", async () => {
+      mockGetDailyTotals.mockResolvedValueOnce([
+        {
+          ...EMPTY_ROLLUP_TOTALS,
+          date: "2025-01-01",
+          impressions: 100,
+          submits: 7,
+          leads: 6,
+          revenue: 50,
+        },
+        { ...EMPTY_ROLLUP_TOTALS, date: "2025-01-02" },
+      ]);
+
+      const result = await CampaignAnalyticsService.getDailyMetrics("camp-1", 2);
+
+      expect(mockGetDailyTotals).toHaveBeenCalledWith(["camp-1"], 2);
+      expect(result).toEqual([
+        { date: "2025-01-01", impressions: 100, leads: 7, revenue: 50 },
+        { date: "2025-01-02", impressions: 0, leads: 0, revenue: 0 },
+      ]);
+    });
+
+    it("returns an empty array when the rollups fail", async () => {
+      mockGetDailyTotals.mockRejectedValueOnce(new Error("db down"));
+
+      const result = await CampaignAnalyticsService.getDailyMetrics(["camp-1"], 30);
+
+      expect(result).toEqual([]);
+    });
   });
 
   // ==========================================================================
@@ -211,6 +244,7 @@ describe("CampaignAnalyticsService", () => {
         avgConversionRate: 0,
         avgOrderValue: 0,
       });
+      expect(mockGetTotals).not.toHaveBeenCalled();
     });
 
     it("aggregates metrics across all campaigns", async () => {
@@ -220,42 +254,13 @@ describe("CampaignAnalyticsService", () => {
         { id: "camp-2" },
       ]);
 
-      // Mock lead counts
-      (mockPrisma.lead.groupBy as any).mockResolvedValueOnce([
-        { campaignId: "camp-1", _count: { id: 50 } },
-        { campaignId: "camp-2", _count: { id: 30 } },
-      ]);
-
-      // Mock impressions
-      (mockGetImpressions as any).mockResolvedValueOnce(
-        new Map([
-          ["camp-1", 1000],
-          ["camp-2", 500],
-        ])
+      mockGetTotals.mockResolvedValueOnce(
+        totals({
+          "camp-1": { leads: 50, impressions: 1000, clicks: 200, revenue: 5000, orders: 10 },
+          "camp-2": { leads: 30, impressions: 500, clicks: 100, revenue: 3000, orders: 5 },
+        })
       );
 
-      // Mock clicks
-      (mockGetClicks as any).mockResolvedValueOnce(
-        new Map([
-          ["camp-1", 200],
-          ["camp-2", 100],
-        ])
-      );
-
-      // Mock revenue
-      (mockPrisma.campaignConversion.groupBy as any).mockResolvedValueOnce([
-        {
-          campaignId: "camp-1",
-          _sum: { totalPrice: 5000, discountAmount: 500 },
-          _count: { id: 10 },
-        },
-        {
-          campaignId: "camp-2",
-          _sum: { totalPrice: 3000, discountAmount: 300 },
-          _count: { id: 5 },
-        },
-      ]);
-
       const result = await CampaignAnalyticsService.getGlobalMetrics("store-1");
 
       expect(result.totalLeads).toBe(80); // 50 + 30
@@ -275,25 +280,19 @@ describe("CampaignAnalyticsService", () => {
 
       // Mock for current period
       (mockPrisma.campaign.findMany as any).mockResolvedValueOnce([{ id: "camp-1" }]);
-      (mockPrisma.lead.groupBy as any).mockResolvedValueOnce([
-        { campaignId: "camp-1", _count: { id: 100 } },
-      ]);
-      (mockGetImpressions as any).mockResolvedValueOnce(new Map([["camp-1", 1000]]));
-      (mockGetClicks as any).mockResolvedValueOnce(new Map([["camp-1", 200]]));
-      (mockPrisma.campaignConversion.groupBy as any).mockResolvedValueOnce([
-        { campaignId: "camp-1", _sum: { totalPrice: 10000 }, _count: { id: 20 } },
-      ]);
+      mockGetTotals.mockResolvedValueOnce(
+        totals({
+          "camp-1": { leads: 100, impressions: 1000, clicks: 200, revenue: 10000, orders: 20 },
+        })
+      );
 
       // Mock for previous period
       (mockPrisma.campaign.findMany as any).mockResolvedValueOnce([{ id: "camp-1" }]);
-      (mockPrisma.lead.groupBy as any).mockResolvedValueOnce([
-        { campaignId: "camp-1", _count: { id: 50 } },
-      ]);
-      (mockGetImpressions as any).mockResolvedValueOnce(new Map([["camp-1", 500]]));
-      (mockGetClicks as any).mockResolvedValueOnce(new Map([["camp-1", 100]]));
-      (mockPrisma.campaignConversion.groupBy as any).mockResolvedValueOnce([
-        { campaignId: "camp-1", _sum: { totalPrice: 5000 }, _count: { id: 10 } },
-      ]);
+      mockGetTotals.mockResolvedValueOnce(
+        totals({
+          "camp-1": { leads: 50, impressions: 500, clicks: 100, revenue: 5000, orders: 10 },
+        })
+      );
 
       const result = await CampaignAnalyticsService.getGlobalMetricsWithComparison(
         "store-1",
@@ -305,6 +304,8 @@ describe("CampaignAnalyticsService", () => {
       expect(result.previous.totalLeads).toBe(50);
       expect(result.changes.leads).toBe(100); // 100% increase
       expect(result.changes.revenue).toBe(100); // 100% increase (10000 vs 5000)
+      expect(mockGetTotals).toHaveBeenCalledWith(["camp-1"], currentRange);
+      expect(mockGetTotals).toHaveBeenCalledWith(["camp-1"], previousRange);
     });
 
     it("handles zero in previous period gracefully", async () => {
@@ -313,12 +314,9 @@ describe("CampaignAnalyticsService", () => {
 
       // Current period has data
       (mockPrisma.campaign.findMany as any).mockResolvedValueOnce([{ id: "camp-1" }]);
-      (mockPrisma.lead.groupBy as any).mockResolvedValueOnce([
-        { campaignId: "camp-1", _count: { id: 50 } },
-      ]);
-      (mockGetImpressions as any).mockResolvedValueOnce(new Map([["camp-1", 500]]));
-      (mockGetClicks as any).mockResolvedValueOnce(new Map([["camp-1", 100]]));
-      (mockPrisma.campaignConversion.groupBy as any).mockResolvedValueOnce([]);
+      mockGetTotals.mockResolvedValueOnce(
+        totals({ "camp-1": { leads: 50, impressions: 500, clicks: 100 } })
+      );
 
       // Previous period has no campaigns
       (mockPrisma.campaign.findMany as any).mockResolvedValueOnce([]);
@@ -354,30 +352,13 @@ describe("CampaignAnalyticsService", () => {
         { id: "camp-2", name: "Campaign 2", templateType: "SPIN_TO_WIN", status: "ACTIVE" },
       ]);
 
-      (mockPrisma.lead.groupBy as any).mockResolvedValueOnce([
-        { campaignId: "camp-1", _count: { id: 10 } },
-        { campaignId: "camp-2", _count: { id: 20 } },
-      ]);
-
-      (mockGetImpressions as any).mockResolvedValueOnce(
-        new Map([
-          ["camp-1", 100],
-          ["camp-2", 200],
-        ])
-      );
-
-      (mockGetClicks as any).mockResolvedValueOnce(
-        new Map([
-          ["camp-1", 20],
-          ["camp-2", 40],
-        ])
+      mockGetTotals.mockResolvedValueOnce(
+        totals({
+          "camp-1": { leads: 10, impressions: 100, clicks: 20, revenue: 500, orders: 5 },
+          "camp-2": { leads: 20, impressions: 200, clicks: 40, revenue: 1000, orders: 10 },
+        })
       );
 
-      (mockPrisma.campaignConversion.groupBy as any).mockResolvedValueOnce([
-        { campaignId: "camp-1", _sum: { totalPrice: 500 }, _count: { id: 5 } },
-        { campaignId: "camp-2", _sum: { totalPrice: 1000 }, _count: { id: 10 } },
-      ]);
-
       const result = await CampaignAnalyticsService.getCampaignRankings(
         "store-1",
         undefined,
@@ -388,6 +369,7 @@ describe("CampaignAnalyticsService", () => {
       expect(result).toHaveLength(2);
       expect(result[0].id).toBe("camp-2"); // Higher revenue
       expect(result[0].revenue).toBe(1000);
+      expect(result[0].aov).toBe(100);
       expect(result[1].id).toBe("camp-1");
       expect(result[1].revenue).toBe(500);
     });
@@ -398,21 +380,13 @@ describe("CampaignAnalyticsService", () => {
         { id: "camp-2", name: "High Conv", templateType: "SPIN_TO_WIN", status: "ACTIVE" },
       ]);
 
-      (mockPrisma.lead.groupBy as any).mockResolvedValueOnce([
-        { campaignId: "camp-1", _count: { id: 10 } }, // 10% conv
-        { campaignId: "camp-2", _count: { id: 50 } }, // 25% conv
-      ]);
-
-      (mockGetImpressions as any).mockResolvedValueOnce(
-        new Map([
-          ["camp-1", 100],
-          ["camp-2", 200],
-        ])
+      mockGetTotals.mockResolvedValueOnce(
+        totals({
+          "camp-1": { leads: 10, impressions: 100 }, // 10% conv
+          "camp-2": { leads: 50, impressions: 200 }, // 25% conv
+        })
       );
 
-      (mockGetClicks as any).mockResolvedValueOnce(new Map());
-      (mockPrisma.campaignConversion.groupBy as any).mockResolvedValueOnce([]);
-
       const result = await CampaignAnalyticsService.getCampaignRankings(
         "store-1",
         undefined,
@@ -433,10 +407,7 @@ describe("CampaignAnalyticsService", () => {
         { id: "camp-3", name: "Campaign 3", templateType: "FLASH_SALE", status: "ACTIVE" },
       ]);
 
-      (mockPrisma.lead.groupBy as any).mockResolvedValueOnce([]);
-      (mockGetImpressions as any).mockResolvedValueOnce(new Map());
-      (mockGetClicks as any).mockResolvedValueOnce(new Map());
-      (mockPrisma.campaignConversion.groupBy as any).mockResolvedValueOnce([]);
+      mockGetTotals.mockResolvedValueOnce(new Map());
 
       const result = await CampaignAnalyticsService.getCampaignRankings(
         "store-1",
@@ -465,34 +436,14 @@ describe("CampaignAnalyticsService", () => {
         { id: "camp-3", templateType: "SPIN_TO_WIN" },
       ]);
 
-      (mockPrisma.lead.groupBy as any).mockResolvedValueOnce([
-        { campaignId: "camp-1", _count: { id: 30 } },
-        { campaignId: "camp-2", _count: { id: 20 } },
-        { campaignId: "camp-3", _count: { id: 50 } },
-      ]);
-
-      (mockGetImpressions as any).mockResolvedValueOnce(
-        new Map([
-          ["camp-1", 500],
-          ["camp-2", 500],
-          ["camp-3", 1000],
-        ])
+      mockGetTotals.mockResolvedValueOnce(
+        totals({
+          "camp-1": { leads: 30, impressions: 500, clicks: 100, revenue: 1000, orders: 5 },
+          "camp-2": { leads: 20, impressions: 500, clicks: 100, revenue: 1000, orders: 5 },
+          "camp-3": { leads: 50, impressions: 1000, clicks: 300, revenue: 5000, orders: 20 },
+        })
       );
 
-      (mockGetClicks as any).mockResolvedValueOnce(
-        new Map([
-          ["camp-1", 100],
-          ["camp-2", 100],
-          ["camp-3", 300],
-        ])
-      );
-
-      (mockPrisma.campaignConversion.groupBy as any).mockResolvedValueOnce([
-        { campaignId: "camp-1", _sum: { totalPrice: 1000 }, _count: { id: 5 } },
-        { campaignId: "camp-2", _sum: { totalPrice: 1000 }, _count: { id: 5 } },
-        { campaignId: "camp-3", _sum: { totalPrice: 5000 }, _count: { id: 20 } },
-      ]);
-
       const result = await CampaignAnalyticsService.getPerformanceByTemplateType("store-1");
 
       expect(result).toHaveLength(2);
@@ -522,15 +473,13 @@ describe("CampaignAnalyticsService", () => {
         { id: "camp-3", templateType: "FLASH_SALE" },
       ]);
 
-      (mockPrisma.lead.groupBy as any).mockResolvedValueOnce([]);
-      (mockGetImpressions as any).mockResolvedValueOnce(new Map());
-      (mockGetClicks as any).mockResolvedValueOnce(new Map());
-
-      (mockPrisma.campaignConversion.groupBy as any).mockResolvedValueOnce([
-        { campaignId: "camp-1", _sum: { totalPrice: 500 }, _count: { id: 2 } },
-        { campaignId: "camp-2", _sum: { totalPrice: 1500 }, _count: { id: 5 } },
-        { campaignId: "camp-3", _sum: { totalPrice: 1000 }, _count: { id: 3 } },
-      ]);
+      mockGetTotals.mockResolvedValueOnce(
+        totals({
+          "camp-1": { revenue: 500, orders: 2 },
+          "camp-2": { revenue: 1500, orders: 5 },
+          "camp-3": { revenue: 1000, orders: 3 },
+        })
+      );
 
       const result = await CampaignAnalyticsService.getPerformanceByTemplateType("store-1");
 
@@ -540,4 +489,3 @@ describe("CampaignAnalyticsService", () => {
     });
   });
 });
-
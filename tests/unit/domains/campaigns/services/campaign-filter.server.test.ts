@@ -5,7 +5,14 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
 import { CampaignFilterService } from "~/domains/campaigns/services/campaign-filter.server";
 import { FrequencyCapService } from "~/domains/targeting/services/frequency-cap.server";
+import { PurchaseHistoryService } from "~/domains/targeting/services/purchase-history.server";
+import { CartTargetingService } from "~/domains/targeting/services/cart-targeting.server";
+import { CampaignArbitrationService } from "~/domains/campaigns/services/campaign-arbitration.server";
+import { HoldoutService } from "~/domains/analytics/holdout.server";
+import { BanditAllocationService } from "~/domains/campaigns/services/bandit-allocation.server";
+import { getHoldoutPolicy, isInHoldout } from "~/domains/campaigns/utils/holdout";
 import type { StorefrontContext } from "~/domains/campaigns/types/storefront-context";
+import { FilterTrace } from "~/domains/campaigns/utils/filter-trace";
 import type { CampaignWithConfigs } from "~/domains/campaigns/types/campaign";
 import prisma from "~/db.server";
 
@@ -68,6 +75,8 @@ vi.mock('~/lib/redis.server', () => {
       FREQUENCY_CAP: 'freq_cap',
       GLOBAL_FREQUENCY: 'global_freq_cap',
       COOLDOWN: 'cooldown',
+      BANDIT: 'bandit',
+      CONVERSION_RATE: 'conversion_rate',
     },
     REDIS_TTL: {
       SESSION: 3600,
@@ -675,6 +684,51 @@ describe("CampaignFilterService", () => {
 
       expect(filtered).toHaveLength(0);
     });
+
+    it("should record the step that rejected each campaign", async () => {
+      const context: StorefrontContext = {
+        deviceType: "mobile",
+        pageUrl: "/",
+        visitorId: "visitor-123",
+      };
+      const trace = new FilterTrace(mockCampaigns);
+
+      await CampaignFilterService.filterCampaigns(mockCampaigns, context, "store-1", { trace });
+
+      const traces = trace.getTraces();
+      expect(traces.find((t) => t.campaignId === "campaign-1")?.shown).toBe(true);
+      expect(traces.find((t) => t.campaignId === "campaign-2")).toMatchObject({
+        shown: false,
+        rejectedBy: "DEVICE_TYPE",
+      });
+      expect(traces.find((t) => t.campaignId === "campaign-3")).toMatchObject({
+        shown: false,
+        rejectedBy: "PAGE_TARGETING",
+      });
+    });
+
+    it("should explain frequency cap rejections with the cap reason", async () => {
+      const capped = {
+        ...mockCampaigns[0],
+        targetRules: {
+          enhancedTriggers: { frequency_capping: { max_triggers_per_session: 1 } },
+        },
+      } as CampaignWithConfigs;
+      const trace = new FilterTrace([capped]);
+
+      const filtered = await CampaignFilterService.filterCampaigns(
+        [capped],
+        { visitorId: "visitor-123" },
+        "store-1",
+        { trace, simulation: { frequencyCapState: { counts: { session: 1 } } } }
+      );
+
+      expect(filtered).toHaveLength(0);
+      expect(trace.getTraces()[0]).toMatchObject({
+        rejectedBy: "FREQUENCY_CAPPING",
+        reason: "Session limit exceeded (1)",
+      });
+    });
   });
 
   describe("filterByFrequencyCapping", () => {
@@ -944,5 +998,541 @@ describe("CampaignFilterService", () => {
       expect(filtered).toHaveLength(0);
     });
   });
-});
 
+  describe("filterByVisitorStatus", () => {
+    const visitorCampaigns = [
+      {
+        id: "welcome",
+        targetRules: {
+          enhancedTriggers: { visitor_status: { enabled: true, status: "first_time" } },
+        },
+      },
+      {
+        id: "welcome-back",
+        targetRules: {
+          enhancedTriggers: { visitor_status: { enabled: true, status: "returning" } },
+        },
+      },
+      {
+        id: "loyal",
+        targetRules: {
+          enhancedTriggers: {
+            visitor_status: { enabled: true, status: "any", min_visits: 3, max_visits: 5 },
+          },
+        },
+      },
+      { id: "everyone", targetRules: {} },
+    ] as unknown as CampaignWithConfigs[];
+
+    const ids = (campaigns: CampaignWithConfigs[]) => campaigns.map((c) => c.id);
+
+    it("should show first-time campaigns on the first visit", () => {
+      const filtered = CampaignFilterService.filterByVisitorStatus(visitorCampaigns, {
+        visitCount: 1,
+      });
+
+      expect(ids(filtered)).toEqual(["welcome", "everyone"]);
+    });
+
+    it("should show returning campaigns and apply the visit-count range", () => {
+      expect(
+        ids(CampaignFilterService.filterByVisitorStatus(visitorCampaigns, { visitCount: 2, isReturningVisitor: true }))
+      ).toEqual(["welcome-back", "everyone"]);
+
+      expect(
+        ids(CampaignFilterService.filterByVisitorStatus(visitorCampaigns, { visitCount: 4, isReturningVisitor: true }))
+      ).toEqual(["welcome-back", "loyal", "everyone"]);
+
+      expect(
+        ids(CampaignFilterService.filterByVisitorStatus(visitorCampaigns, { visitCount: 6, isReturningVisitor: true }))
+      ).toEqual(["welcome-back", "everyone"]);
+    });
+
+    it("should skip the filter when the storefront sent no visit data", () => {
+      const filtered = CampaignFilterService.filterByVisitorStatus(visitorCampaigns, {});
+
+      expect(filtered).toHaveLength(visitorCampaigns.length);
+    });
+  });
+
+  describe("filterByTrafficSource", () => {
+    const sourceCampaigns = [
+      {
+        id: "facebook-ads",
+        targetRules: {
+          enhancedTriggers: {
+            traffic_source: { enabled: true, source_types: ["paid"], utm_sources: ["facebook"] },
+          },
+        },
+      },
+      {
+        id: "organic",
+        targetRules: {
+          enhancedTriggers: { traffic_source: { enabled: true, source_types: ["organic", "direct"] } },
+        },
+      },
+      {
+        id: "pinterest-referral",
+        targetRules: {
+          enhancedTriggers: { traffic_source: { enabled: true, referrer_domains: ["pinterest.com"] } },
+        },
+      },
+      { id: "everyone", targetRules: {} },
+    ] as unknown as CampaignWithConfigs[];
+
+    const ids = (campaigns: CampaignWithConfigs[]) => campaigns.map((c) => c.id);
+
+    it("should show paid Facebook campaigns only to Facebook ads traffic", () => {
+      const filtered = CampaignFilterService.filterByTrafficSource(sourceCampaigns, {
+        utmSource: "facebook",
+        utmMedium: "paid_social",
+        utmCampaign: "summer",
+      });
+
+      expect(ids(filtered)).toEqual(["facebook-ads", "everyone"]);
+    });
+
+    it("should treat visits without source data as direct", () => {
+      expect(ids(CampaignFilterService.filterByTrafficSource(sourceCampaigns, {}))).toEqual([
+        "organic",
+        "everyone",
+      ]);
+    });
+
+    it("should match referrer subdomains", () => {
+      const filtered = CampaignFilterService.filterByTrafficSource(sourceCampaigns, {
+        referrerDomain: "uk.pinterest.com",
+      });
+
+      expect(ids(filtered)).toEqual(["pinterest-referral", "everyone"]);
+    });
+  });
+
+  describe("filterByPurchaseHistory", () => {
+    const historyCampaigns = [
+      {
+        id: "win-back",
+        targetRules: {
+          enhancedTriggers: {
+            purchase_history: { enabled: true, has_purchased: true, min_days_since_last_order: 60 },
+          },
+        },
+      },
+      {
+        id: "vip",
+        targetRules: {
+          enhancedTriggers: { purchase_history: { enabled: true, min_orders: 5, min_total_spent: 500 } },
+        },
+      },
+      {
+        id: "first-purchase",
+        targetRules: {
+          enhancedTriggers: { purchase_history: { enabled: true, has_purchased: false } },
+        },
+      },
+      { id: "everyone", targetRules: {} },
+    ] as unknown as CampaignWithConfigs[];
+
+    const ids = (campaigns: CampaignWithConfigs[]) => campaigns.map((c) => c.id);
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should match lapsed customers to win-back campaigns", async () => {
+      vi.spyOn(PurchaseHistoryService, "getPurchaseHistory").mockResolvedValue({
+        orderCount: 2,
+        totalSpent: 120,
+        lastOrderAt: new Date(Date.now() - 90 * 24 * 60 * 60 * 1000),
+      });
+
+      const filtered = await CampaignFilterService.filterByPurchaseHistory(
+        historyCampaigns,
+        { customerId: "123" },
+        "store-1"
+      );
+
+      expect(PurchaseHistoryService.getPurchaseHistory).toHaveBeenCalledWith("store-1", "123");
+      expect(ids(filtered)).toEqual(["win-back", "everyone"]);
+    });
+
+    it("should match high-value customers to VIP campaigns", async () => {
+      vi.spyOn(PurchaseHistoryService, "getPurchaseHistory").mockResolvedValue({
+        orderCount: 8,
+        totalSpent: 1500,
+        lastOrderAt: new Date(),
+      });
+
+      const filtered = await CampaignFilterService.filterByPurchaseHistory(
+        historyCampaigns,
+        { customerId: "123" },
+        "store-1"
+      );
+
+      expect(ids(filtered)).toEqual(["vip", "everyone"]);
+    });
+
+    it("should treat guests as customers without orders", async () => {
+      const spy = vi.spyOn(PurchaseHistoryService, "getPurchaseHistory");
+
+      const filtered = await CampaignFilterService.filterByPurchaseHistory(
+        historyCampaigns,
+        {},
+        "store-1"
+      );
+
+      expect(spy).not.toHaveBeenCalled();
+      expect(ids(filtered)).toEqual(["first-purchase", "everyone"]);
+    });
+
+    it("should fail open when the history cannot be resolved", async () => {
+      vi.spyOn(PurchaseHistoryService, "getPurchaseHistory").mockResolvedValue(null);
+
+      const filtered = await CampaignFilterService.filterByPurchaseHistory(
+        historyCampaigns,
+        { customerId: "123" },
+        "store-1"
+      );
+
+      expect(filtered).toHaveLength(4);
+    });
+
+    it("should not look up history when no campaign uses the rule", async () => {
+      const spy = vi.spyOn(PurchaseHistoryService, "getPurchaseHistory");
+
+      await CampaignFilterService.filterByPurchaseHistory(
+        [{ id: "everyone", targetRules: {} } as unknown as CampaignWithConfigs],
+        { customerId: "123" },
+        "store-1"
+      );
+
+      expect(spy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("filterByCartContents", () => {
+    const cartCampaigns = [
+      {
+        id: "free-shipping-nudge",
+        targetRules: {
+          enhancedTriggers: { cart_contents: { enabled: true, min_subtotal: 20, max_subtotal: 50 } },
+        },
+      },
+      {
+        id: "gift-cross-sell",
+        targetRules: {
+          enhancedTriggers: { cart_contents: { enabled: true, product_tags: ["gift"] } },
+        },
+      },
+      {
+        id: "no-stacking",
+        targetRules: {
+          enhancedTriggers: { cart_contents: { enabled: true, discount_applied: false } },
+        },
+      },
+      { id: "everyone", targetRules: {} },
+    ] as unknown as CampaignWithConfigs[];
+
+    const cartContext: StorefrontContext = {
+      cartValue: 35,
+      cartItemCount: 2,
+      cartProductIds: ["101"],
+      cartDiscountApplied: true,
+    };
+
+    const ids = (campaigns: CampaignWithConfigs[]) => campaigns.map((c) => c.id);
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should match campaigns against the cart snapshot", async () => {
+      vi.spyOn(CartTargetingService, "getProductAttributes").mockResolvedValue(
+        new Map([["101", { tags: ["gift"], collectionIds: [] }]])
+      );
+
+      const filtered = await CampaignFilterService.filterByCartContents(
+        cartCampaigns,
+        cartContext,
+        "store-1"
+      );
+
+      expect(CartTargetingService.getProductAttributes).toHaveBeenCalledWith("store-1", ["101"]);
+      expect(ids(filtered)).toEqual(["free-shipping-nudge", "gift-cross-sell", "everyone"]);
+    });
+
+    it("should fail open when there is no cart snapshot", async () => {
+      const spy = vi.spyOn(CartTargetingService, "getProductAttributes");
+
+      const filtered = await CampaignFilterService.filterByCartContents(cartCampaigns, {}, "store-1");
+
+      expect(spy).not.toHaveBeenCalled();
+      expect(filtered).toHaveLength(4);
+    });
+
+    it("should not look up attributes when no rule uses tags or collections", async () => {
+      const spy = vi.spyOn(CartTargetingService, "getProductAttributes");
+
+      const filtered = await CampaignFilterService.filterByCartContents(
+        [cartCampaigns[0], cartCampaigns[3]],
+        { cartValue: 60, cartItemCount: 1, cartProductIds: ["101"] },
+        "store-1"
+      );
+
+      expect(spy).not.toHaveBeenCalled();
+      expect(ids(filtered)).toEqual(["everyone"]);
+    });
+
+    it("should ignore tag rules when attributes cannot be resolved", async () => {
+      vi.spyOn(CartTargetingService, "getProductAttributes").mockResolvedValue(null);
+
+      const filtered = await CampaignFilterService.filterByCartContents(
+        [cartCampaigns[1]],
+        cartContext,
+        "store-1"
+      );
+
+      expect(ids(filtered)).toEqual(["gift-cross-sell"]);
+    });
+  });
+
+  describe("filterByArbitration", () => {
+    const arbitrationCampaigns = [
+      { id: "newsletter", priority: 5 },
+      { id: "spin-to-win", priority: 10 },
+      { id: "free-shipping", priority: 1 },
+    ] as unknown as CampaignWithConfigs[];
+
+    const arbitration = {
+      enabled: true,
+      maxConcurrentOverlays: 1,
+      tiebreak: "priority" as const,
+      exclusiveGroups: [
+        { id: "lead-capture", name: "Lead capture", campaignIds: ["newsletter", "spin-to-win"] },
+      ],
+    };
+
+    const ids = (campaigns: CampaignWithConfigs[]) => campaigns.map((c) => c.id);
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should keep every campaign when no policy is configured", async () => {
+      const filtered = await CampaignFilterService.filterByArbitration(arbitrationCampaigns, {}, {});
+
+      expect(ids(filtered)).toEqual(["newsletter", "spin-to-win", "free-shipping"]);
+    });
+
+    it("should keep every campaign when the policy is disabled", async () => {
+      const filtered = await CampaignFilterService.filterByArbitration(arbitrationCampaigns, {}, {
+        arbitration: { ...arbitration, enabled: false },
+      });
+
+      expect(filtered).toHaveLength(3);
+    });
+
+    it("should rank campaigns and keep one per exclusive group", async () => {
+      const filtered = await CampaignFilterService.filterByArbitration(arbitrationCampaigns, {}, {
+        arbitration,
+      });
+
+      expect(ids(filtered)).toEqual(["spin-to-win", "free-shipping"]);
+    });
+
+    it("should pick the group winner by conversion rate", async () => {
+      vi.spyOn(CampaignArbitrationService, "getConversionRates").mockResolvedValue(
+        new Map([
+          ["newsletter", 6],
+          ["spin-to-win", 2],
+        ])
+      );
+
+      const filtered = await CampaignFilterService.filterByArbitration(
+        arbitrationCampaigns,
+        { visitorId: "visitor-1" },
+        { arbitration: { ...arbitration, tiebreak: "conversion_rate" } }
+      );
+
+      expect(ids(filtered)).toEqual(["newsletter", "free-shipping"]);
+    });
+  });
+
+  describe("filterByVariantAssignment", () => {
+    const variantCampaigns = [
+      { id: "variant-a", experimentId: "exp-1", variantKey: "A", isControl: true },
+      { id: "variant-b", experimentId: "exp-1", variantKey: "B", isControl: false },
+      { id: "standalone", experimentId: null, variantKey: null, isControl: false },
+    ] as unknown as CampaignWithConfigs[];
+
+    beforeEach(() => {
+      vi.spyOn(BanditAllocationService, "getBanditExperimentIds").mockResolvedValue(
+        new Set(["exp-1"])
+      );
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should return one variant per experiment and keep standalone campaigns", async () => {
+      const filtered = await CampaignFilterService.filterByVariantAssignment(variantCampaigns, {
+        visitorId: "visitor-1",
+      });
+
+      expect(filtered).toHaveLength(2);
+      expect(filtered.some((c) => c.id === "standalone")).toBe(true);
+      expect(filtered.filter((c) => c.experimentId === "exp-1")).toHaveLength(1);
+    });
+
+    it("should keep a visitor on their previously assigned variant", async () => {
+      mockRedisStorage["bandit:assignment:exp-1:visitor-1"] = "B";
+      mockRedisStorage["bandit:weights:exp-1"] = JSON.stringify({ A: 100, B: 0 });
+
+      const filtered = await CampaignFilterService.filterByVariantAssignment(variantCampaigns, {
+        visitorId: "visitor-1",
+      });
+
+      expect(filtered.find((c) => c.experimentId === "exp-1")?.id).toBe("variant-b");
+    });
+
+    it("should assign new visitors using cached bandit weights and remember the choice", async () => {
+      mockRedisStorage["bandit:weights:exp-1"] = JSON.stringify({ A: 0, B: 100 });
+
+      const filtered = await CampaignFilterService.filterByVariantAssignment(variantCampaigns, {
+        visitorId: "visitor-2",
+      });
+
+      expect(filtered.find((c) => c.experimentId === "exp-1")?.id).toBe("variant-b");
+      expect(mockRedisStorage["bandit:assignment:exp-1:visitor-2"]).toBe("B");
+    });
+
+    it("should use the static split without Redis for experiments not in a bandit mode", async () => {
+      vi.mocked(BanditAllocationService.getBanditExperimentIds).mockResolvedValue(new Set());
+      mockRedisStorage["bandit:assignment:exp-1:visitor-3"] = "B";
+      mockRedisStorage["bandit:weights:exp-1"] = JSON.stringify({ A: 0, B: 100 });
+      const getAssignedVariant = vi.spyOn(BanditAllocationService, "getAssignedVariant");
+      const getCachedWeights = vi.spyOn(BanditAllocationService, "getCachedWeights");
+      const recordAssignment = vi.spyOn(BanditAllocationService, "recordAssignment");
+
+      const first = await CampaignFilterService.filterByVariantAssignment(variantCampaigns, {
+        visitorId: "visitor-3",
+      });
+      const again = await CampaignFilterService.filterByVariantAssignment(variantCampaigns, {
+        visitorId: "visitor-3",
+      });
+
+      expect(again).toEqual(first);
+      expect(getAssignedVariant).not.toHaveBeenCalled();
+      expect(getCachedWeights).not.toHaveBeenCalled();
+      expect(recordAssignment).not.toHaveBeenCalled();
+    });
+
+    it("should ignore and not record sticky assignments during a simulation", async () => {
+      mockRedisStorage["bandit:assignment:exp-1:visitor-4"] = "A";
+      mockRedisStorage["bandit:weights:exp-1"] = JSON.stringify({ A: 0, B: 100 });
+      const getAssignedVariant = vi.spyOn(BanditAllocationService, "getAssignedVariant");
+      const recordAssignment = vi.spyOn(BanditAllocationService, "recordAssignment");
+
+      const filtered = await CampaignFilterService.filterByVariantAssignment(
+        variantCampaigns,
+        { visitorId: "visitor-4" },
+        { simulation: {} }
+      );
+
+      expect(filtered.find((c) => c.experimentId === "exp-1")?.id).toBe("variant-b");
+      expect(getAssignedVariant).not.toHaveBeenCalled();
+      expect(recordAssignment).not.toHaveBeenCalled();
+      expect(mockRedisStorage["bandit:assignment:exp-1:visitor-4"]).toBe("A");
+    });
+  });
+
+  describe("filterByHoldout", () => {
+    const holdoutCampaign = {
+      id: "holdout-campaign",
+      targetRules: { holdout: { enabled: true, percentage: 50 } },
+    } as unknown as CampaignWithConfigs;
+    const plainCampaign = { id: "plain-campaign", targetRules: {} } as unknown as CampaignWithConfigs;
+
+    const policy = getHoldoutPolicy(holdoutCampaign, "store-1")!;
+    const visitorIds = Array.from({ length: 50 }, (_, i) => `visitor-${i}`);
+    const heldOutVisitor = visitorIds.find((id) => isInHoldout(id, policy))!;
+    const exposedVisitor = visitorIds.find((id) => !isInHoldout(id, policy))!;
+
+    beforeEach(() => {
+      vi.spyOn(HoldoutService, "recordAssignments").mockResolvedValue();
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should withhold the campaign from held-out visitors and log their assignment", async () => {
+      const filtered = await CampaignFilterService.filterByHoldout(
+        [holdoutCampaign, plainCampaign],
+        { visitorId: heldOutVisitor },
+        "store-1"
+      );
+
+      expect(filtered.map((c) => c.id)).toEqual(["plain-campaign"]);
+      expect(HoldoutService.recordAssignments).toHaveBeenCalledWith(
+        "store-1",
+        [{ campaign: holdoutCampaign, policy, heldOut: true }],
+        { visitorId: heldOutVisitor }
+      );
+    });
+
+    it("should keep the campaign for exposed visitors and log their assignment", async () => {
+      const filtered = await CampaignFilterService.filterByHoldout(
+        [holdoutCampaign, plainCampaign],
+        { visitorId: exposedVisitor },
+        "store-1"
+      );
+
+      expect(filtered).toHaveLength(2);
+      expect(HoldoutService.recordAssignments).toHaveBeenCalledWith(
+        "store-1",
+        [{ campaign: holdoutCampaign, policy, heldOut: false }],
+        { visitorId: exposedVisitor }
+      );
+    });
+
+    it("should apply the store-wide holdout to every campaign", async () => {
+      const storePolicy = getHoldoutPolicy(plainCampaign, "store-1", {
+        holdout: { enabled: true, percentage: 50 },
+      })!;
+      const visitorId = visitorIds.find((id) => isInHoldout(id, storePolicy))!;
+
+      const filtered = await CampaignFilterService.filterByHoldout(
+        [plainCampaign],
+        { visitorId },
+        "store-1",
+        { holdout: { enabled: true, percentage: 50 } }
+      );
+
+      expect(filtered).toHaveLength(0);
+    });
+
+    it("should explain the rejection and not log events in simulations", async () => {
+      const trace = new FilterTrace([holdoutCampaign]);
+
+      const filtered = await CampaignFilterService.filterByHoldout(
+        [holdoutCampaign],
+        { visitorId: heldOutVisitor },
+        "store-1",
+        undefined,
+        { trace, simulation: {} }
+      );
+      trace.recordStep("HOLDOUT", [holdoutCampaign], filtered, { visitorId: heldOutVisitor });
+
+      expect(trace.getTraces()[0].reason).toBe("Visitor is in the 50% campaign holdout group");
+      expect(HoldoutService.recordAssignments).not.toHaveBeenCalled();
+    });
+
+    it("should keep every campaign without a visitor ID", async () => {
+      const filtered = await CampaignFilterService.filterByHoldout([holdoutCampaign], {}, "store-1");
+
+      expect(filtered).toHaveLength(1);
+    });
+  });
+});
@@ -33,11 +33,16 @@ vi.mock("~/domains/campaigns/utils/json-helpers", () => ({
 // Mock schedule-helpers
 vi.mock("~/domains/campaigns/utils/schedule-helpers", () => ({
   isWithinSchedule: vi.fn(() => true),
+  isWithinDayparting: vi.fn(() => true),
+  isValidTimezone: vi.fn(() => true),
 }));
 
 import { CampaignQueryService } from "~/domains/campaigns/services/campaign-query.server";
 import prisma from "~/db.server";
-import { isWithinSchedule } from "~/domains/campaigns/utils/schedule-helpers";
+import {
+  isWithinDayparting,
+  isWithinSchedule,
+} from "~/domains/campaigns/utils/schedule-helpers";
 
 // ==========================================================================
 // TEST HELPERS
@@ -210,6 +215,54 @@ describe("CampaignQueryService.getActive", () => {
 
     expect(isWithinSchedule).not.toHaveBeenCalled(); // No campaigns to filter
   });
+
+  it("should filter out campaigns outside dayparting windows", async () => {
+    const mockCampaigns = [
+      createMockCampaign({ id: "1", status: "ACTIVE" }),
+      createMockCampaign({ id: "2", status: "ACTIVE" }),
+    ];
+    vi.mocked(prisma.store.findUnique).mockResolvedValue({ timezone: "UTC" } as any);
+    vi.mocked(prisma.campaign.findMany).mockResolvedValue(mockCampaigns);
+    vi.mocked(isWithinSchedule).mockReturnValue(true);
+    vi.mocked(isWithinDayparting).mockReturnValueOnce(false).mockReturnValueOnce(true);
+
+    const result = await CampaignQueryService.getActive("store-123");
+
+    expect(result).toHaveLength(1);
+    expect(result[0].id).toBe("2");
+  });
+
+  it("should evaluate dayparting in the visitor timezone when configured", async () => {
+    const dayparting = {
+      enabled: true,
+      timezoneMode: "visitor" as const,
+      windows: [{ days: [0, 6], startTime: "00:00", endTime: "00:00" }],
+    };
+    vi.mocked(prisma.store.findUnique).mockResolvedValue({ timezone: "America/New_York" } as any);
+    vi.mocked(prisma.campaign.findMany).mockResolvedValue([
+      createMockCampaign({ id: "1", status: "ACTIVE", targetRules: { dayparting } } as any),
+    ]);
+
+    await CampaignQueryService.getActive("store-123", { visitorTimezone: "Europe/Paris" });
+
+    expect(isWithinDayparting).toHaveBeenCalledWith(dayparting, "Europe/Paris");
+  });
+
+  it("should evaluate dayparting in the store timezone by default", async () => {
+    const dayparting = {
+      enabled: true,
+      timezoneMode: "store" as const,
+      windows: [{ days: [1], startTime: "09:00", endTime: "17:00" }],
+    };
+    vi.mocked(prisma.store.findUnique).mockResolvedValue({ timezone: "America/New_York" } as any);
+    vi.mocked(prisma.campaign.findMany).mockResolvedValue([
+      createMockCampaign({ id: "1", status: "ACTIVE", targetRules: { dayparting } } as any),
+    ]);
+
+    await CampaignQueryService.getActive("store-123", { visitorTimezone: "Europe/Paris" });
+
+    expect(isWithinDayparting).toHaveBeenCalledWith(dayparting, "America/New_York");
+  });
 });
 
 // ==========================================================================
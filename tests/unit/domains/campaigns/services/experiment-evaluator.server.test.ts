@@ -0,0 +1,138 @@
+/**
+ * Unit Tests for Experiment Evaluator Service
+ *
+ * Tests the background sequential-analysis job:
+ * - Only auto-stop experiments are evaluated
+ * - Winners are declared through ExperimentService.declareWinner
+ * - "No detectable difference" completes the experiment
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    experiment: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("~/domains/campaigns/services/experiment.server", () => ({
+  ExperimentService: {
+    getSequentialAnalysis: vi.fn(),
+    declareWinner: vi.fn(),
+    concludeExperiment: vi.fn(),
+  },
+}));
+
+import { ExperimentEvaluatorService } from "~/domains/campaigns/services/experiment-evaluator.server";
+import { ExperimentService } from "~/domains/campaigns/services/experiment.server";
+import prisma from "~/db.server";
+
+// ==========================================================================
+// TEST HELPERS
+// ==========================================================================
+
+const autoStopConfig = {
+  confidenceLevel: 0.95,
+  minimumSampleSize: 1000,
+  minimumDetectableEffect: 0.05,
+  maxDurationDays: 30,
+  sequentialTesting: { method: "always_valid", autoStop: true, power: 0.8 },
+};
+
+function createAnalysis(overrides = {}) {
+  return {
+    method: "always_valid" as const,
+    autoStop: true,
+    alpha: 0.05,
+    plannedSampleSize: 1000,
+    informationFraction: 0.5,
+    daysElapsed: 3,
+    plannedDurationDays: 30,
+    comparisons: [],
+    decision: "continue" as const,
+    winnerKey: null,
+    ...overrides,
+  };
+}
+
+// ==========================================================================
+// TESTS
+// ==========================================================================
+
+describe("ExperimentEvaluatorService.evaluateRunningExperiments", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should only evaluate experiments with auto-stop enabled", async () => {
+    vi.mocked(prisma.experiment.findMany).mockResolvedValue([
+      { id: "exp-auto", storeId: "store-1", statisticalConfig: autoStopConfig },
+      { id: "exp-manual", storeId: "store-1", statisticalConfig: { confidenceLevel: 0.95 } },
+    ] as any);
+    vi.mocked(ExperimentService.getSequentialAnalysis).mockResolvedValue(createAnalysis());
+
+    const summary = await ExperimentEvaluatorService.evaluateRunningExperiments();
+
+    expect(summary.evaluated).toBe(1);
+    expect(ExperimentService.getSequentialAnalysis).toHaveBeenCalledWith(
+      "exp-auto",
+      "store-1",
+      expect.any(Date)
+    );
+  });
+
+  it("should declare the winner when the boundary is crossed", async () => {
+    vi.mocked(prisma.experiment.findMany).mockResolvedValue([
+      { id: "exp-auto", storeId: "store-1", statisticalConfig: autoStopConfig },
+    ] as any);
+    vi.mocked(ExperimentService.getSequentialAnalysis).mockResolvedValue(
+      createAnalysis({ decision: "winner", winnerKey: "B" })
+    );
+
+    const summary = await ExperimentEvaluatorService.evaluateRunningExperiments();
+
+    expect(ExperimentService.declareWinner).toHaveBeenCalledWith("exp-auto", "store-1", "B");
+    expect(summary.winnersDeclared).toBe(1);
+    expect(prisma.experiment.update).toHaveBeenCalledWith({
+      where: { id: "exp-auto" },
+      data: { lastEvaluatedAt: expect.any(Date) },
+    });
+  });
+
+  it("should conclude with no detectable difference when the plan is exhausted", async () => {
+    vi.mocked(prisma.experiment.findMany).mockResolvedValue([
+      { id: "exp-auto", storeId: "store-1", statisticalConfig: autoStopConfig },
+    ] as any);
+    vi.mocked(ExperimentService.getSequentialAnalysis).mockResolvedValue(
+      createAnalysis({ decision: "no_difference" })
+    );
+
+    const summary = await ExperimentEvaluatorService.evaluateRunningExperiments();
+
+    expect(ExperimentService.concludeExperiment).toHaveBeenCalledWith(
+      "exp-auto",
+      "store-1",
+      "NO_DETECTABLE_DIFFERENCE"
+    );
+    expect(ExperimentService.declareWinner).not.toHaveBeenCalled();
+    expect(summary.noDifference).toBe(1);
+  });
+
+  it("should record errors without stopping the run", async () => {
+    vi.mocked(prisma.experiment.findMany).mockResolvedValue([
+      { id: "exp-1", storeId: "store-1", statisticalConfig: autoStopConfig },
+      { id: "exp-2", storeId: "store-1", statisticalConfig: autoStopConfig },
+    ] as any);
+    vi.mocked(ExperimentService.getSequentialAnalysis)
+      .mockRejectedValueOnce(new Error("boom"))
+      .mockResolvedValueOnce(createAnalysis());
+
+    const summary = await ExperimentEvaluatorService.evaluateRunningExperiments();
+
+    expect(summary.errors).toBe(1);
+    expect(summary.evaluated).toBe(2);
+  });
+});
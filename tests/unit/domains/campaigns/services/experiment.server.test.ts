@@ -7,6 +7,8 @@
  * - Create experiment
  * - Update experiment
  * - Get running experiments
+ * - Start, declare winner and conclude
+ * - Sequential analysis
  */
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
@@ -19,10 +21,20 @@ vi.mock("~/db.server", () => ({
       findFirst: vi.fn(),
       create: vi.fn(),
       update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    campaign: {
+      findMany: vi.fn(),
+      update: vi.fn(),
     },
   },
 }));
 
+// Mock variant performance (sequential analysis input)
+vi.mock("~/domains/analytics/experiment-analytics.server", () => ({
+  getVariantPerformance: vi.fn(),
+}));
+
 // Mock PlanGuardService
 vi.mock("~/domains/billing/services/plan-guard.server", () => ({
   PlanGuardService: {
@@ -33,6 +45,7 @@ vi.mock("~/domains/billing/services/plan-guard.server", () => ({
 import { ExperimentService } from "~/domains/campaigns/services/experiment.server";
 import prisma from "~/db.server";
 import { ExperimentServiceError } from "~/lib/errors.server";
+import { getVariantPerformance } from "~/domains/analytics/experiment-analytics.server";
 
 // ==========================================================================
 // TEST HELPERS
@@ -362,3 +375,230 @@ describe("ExperimentService.getRunningExperiments", () => {
     expect(result).toEqual([]);
   });
 });
+
+// ==========================================================================
+// LIFECYCLE TESTS
+// ==========================================================================
+
+describe("ExperimentService.startExperiment", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should mark a draft experiment as running and set the start date", async () => {
+    vi.mocked(prisma.experiment.findFirst).mockResolvedValue({
+      status: "DRAFT",
+      startDate: null,
+    } as any);
+
+    await ExperimentService.startExperiment("exp-123", mockStoreId);
+
+    const call = vi.mocked(prisma.experiment.update).mock.calls[0][0];
+    expect(call.data.status).toBe("RUNNING");
+    expect(call.data.startDate).toBeInstanceOf(Date);
+  });
+
+  it("should not restart a completed experiment", async () => {
+    vi.mocked(prisma.experiment.findFirst).mockResolvedValue({
+      status: "COMPLETED",
+      startDate: new Date(),
+    } as any);
+
+    await ExperimentService.startExperiment("exp-123", mockStoreId);
+
+    expect(prisma.experiment.update).not.toHaveBeenCalled();
+  });
+});
+
+describe("ExperimentService.declareWinner", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should record the winner, complete the experiment and pause losers", async () => {
+    vi.mocked(prisma.campaign.findMany).mockResolvedValue([
+      { id: "campaign-a", variantKey: "A" },
+      { id: "campaign-b", variantKey: "B" },
+      { id: "campaign-c", variantKey: "C" },
+    ] as any);
+
+    await ExperimentService.declareWinner("exp-123", mockStoreId, "B");
+
+    const call = vi.mocked(prisma.experiment.update).mock.calls[0][0];
+    expect(call.data).toMatchObject({
+      status: "COMPLETED",
+      winnerId: "campaign-b",
+      conclusion: "WINNER_DECLARED",
+      trafficAllocation: { A: 0, B: 100, C: 0 },
+    });
+    expect(prisma.campaign.update).toHaveBeenCalledTimes(2);
+    expect(prisma.campaign.update).toHaveBeenCalledWith({
+      where: { id: "campaign-a" },
+      data: { status: "PAUSED" },
+    });
+  });
+
+  it("should throw VARIANT_NOT_FOUND for an unknown variant", async () => {
+    vi.mocked(prisma.campaign.findMany).mockResolvedValue([
+      { id: "campaign-a", variantKey: "A" },
+    ] as any);
+
+    await expect(ExperimentService.declareWinner("exp-123", mockStoreId, "D")).rejects.toMatchObject(
+      { code: "VARIANT_NOT_FOUND" }
+    );
+  });
+});
+
+describe("ExperimentService.concludeExperiment", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should complete the experiment with the given conclusion", async () => {
+    vi.mocked(prisma.experiment.updateMany).mockResolvedValue({ count: 1 });
+
+    await ExperimentService.concludeExperiment("exp-123", mockStoreId, "NO_DETECTABLE_DIFFERENCE");
+
+    const call = vi.mocked(prisma.experiment.updateMany).mock.calls[0][0];
+    expect(call.where).toEqual({ id: "exp-123", storeId: mockStoreId });
+    expect(call.data).toMatchObject({
+      status: "COMPLETED",
+      conclusion: "NO_DETECTABLE_DIFFERENCE",
+    });
+  });
+
+  it("should throw NOT_FOUND when nothing was updated", async () => {
+    vi.mocked(prisma.experiment.updateMany).mockResolvedValue({ count: 0 });
+
+    await expect(
+      ExperimentService.concludeExperiment("exp-404", mockStoreId, "NO_DETECTABLE_DIFFERENCE")
+    ).rejects.toBeInstanceOf(ExperimentServiceError);
+  });
+});
+
+// ==========================================================================
+// SEQUENTIAL ANALYSIS TESTS
+// ==========================================================================
+
+function createPerformance(variants: Array<{ key: string; impressions: number; submissions: number }>) {
+  return {
+    variants: variants.map((v, index) => ({
+      variantKey: v.key,
+      campaignId: `campaign-${v.key}`,
+      campaignName: v.key,
+      isControl: index === 0,
+      impressions: v.impressions,
+      clicks: 0,
+      submissions: v.submissions,
+      couponsIssued: 0,
+      conversionRate: v.impressions ? (v.submissions / v.impressions) * 100 : 0,
+      orders: 0,
+      revenue: 0,
+      averageOrderValue: 0,
+      revenuePerVisitor: 0,
+      primaryMetricValue: v.impressions ? (v.submissions / v.impressions) * 100 : 0,
+      probabilityToBeBest: 0.5,
+      conversionRateInterval: { lower: 0, upper: 0 },
+      revenuePerVisitorInterval: { lower: 0, upper: 0 },
+      averageOrderValueInterval: { lower: 0, upper: 0 },
+    })),
+    winner: null,
+    pValue: null,
+    isSignificant: false,
+    primaryMetric: "conversion_rate" as const,
+    confidenceLevel: 0.95,
+    controlKey: variants[0]?.key ?? null,
+    comparisons: [],
+  };
+}
+
+describe("ExperimentService.getSequentialAnalysis", () => {
+  const sequentialConfig = {
+    confidenceLevel: 0.95,
+    minimumSampleSize: 1000,
+    minimumDetectableEffect: 0.2,
+    maxDurationDays: 30,
+    sequentialTesting: { method: "always_valid", autoStop: true, power: 0.8 },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should return null when the experiment does not exist", async () => {
+    vi.mocked(prisma.experiment.findFirst).mockResolvedValue(null);
+
+    const result = await ExperimentService.getSequentialAnalysis("exp-404", mockStoreId);
+
+    expect(result).toBeNull();
+  });
+
+  it("should declare a winner when a challenger crosses the boundary", async () => {
+    vi.mocked(prisma.experiment.findFirst).mockResolvedValue({
+      statisticalConfig: sequentialConfig,
+      startDate: new Date("2025-01-01"),
+      plannedDurationDays: 30,
+    } as any);
+    vi.mocked(getVariantPerformance).mockResolvedValue(
+      createPerformance([
+        { key: "A", impressions: 5000, submissions: 250 },
+        { key: "B", impressions: 5000, submissions: 400 },
+      ])
+    );
+
+    const result = await ExperimentService.getSequentialAnalysis(
+      "exp-123",
+      mockStoreId,
+      new Date("2025-01-05")
+    );
+
+    expect(result?.decision).toBe("winner");
+    expect(result?.winnerKey).toBe("B");
+    expect(result?.autoStop).toBe(true);
+  });
+
+  it("should keep running while the data is inconclusive", async () => {
+    vi.mocked(prisma.experiment.findFirst).mockResolvedValue({
+      statisticalConfig: sequentialConfig,
+      startDate: new Date("2025-01-01"),
+      plannedDurationDays: 30,
+    } as any);
+    vi.mocked(getVariantPerformance).mockResolvedValue(
+      createPerformance([
+        { key: "A", impressions: 500, submissions: 25 },
+        { key: "B", impressions: 500, submissions: 27 },
+      ])
+    );
+
+    const result = await ExperimentService.getSequentialAnalysis(
+      "exp-123",
+      mockStoreId,
+      new Date("2025-01-05")
+    );
+
+    expect(result?.decision).toBe("continue");
+    expect(result?.winnerKey).toBeNull();
+  });
+
+  it("should flag no detectable difference once the planned duration has passed", async () => {
+    vi.mocked(prisma.experiment.findFirst).mockResolvedValue({
+      statisticalConfig: sequentialConfig,
+      startDate: new Date("2025-01-01"),
+      plannedDurationDays: 14,
+    } as any);
+    vi.mocked(getVariantPerformance).mockResolvedValue(
+      createPerformance([
+        { key: "A", impressions: 500, submissions: 25 },
+        { key: "B", impressions: 500, submissions: 27 },
+      ])
+    );
+
+    const result = await ExperimentService.getSequentialAnalysis(
+      "exp-123",
+      mockStoreId,
+      new Date("2025-01-20")
+    );
+
+    expect(result?.decision).toBe("no_difference");
+  });
+});
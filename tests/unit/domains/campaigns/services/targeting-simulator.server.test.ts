@@ -0,0 +1,125 @@
+/**
+ * Unit Tests for Targeting Simulator Service
+ *
+ * Tests the "why didn't my popup show?" simulation:
+ * - Campaigns dropped by status/schedule are traced as SCHEDULE
+ * - Active campaigns run through CampaignFilterService with the simulated state
+ * - Archived campaigns are left out of the trace
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("~/domains/campaigns/services/campaign.server", () => ({
+  CampaignService: {
+    getAllCampaigns: vi.fn(),
+    getActiveCampaigns: vi.fn(),
+  },
+}));
+
+vi.mock("~/domains/campaigns/services/campaign-filter.server", () => ({
+  CampaignFilterService: {
+    filterCampaigns: vi.fn(),
+  },
+}));
+
+import {
+  SimulationInputSchema,
+  TargetingSimulatorService,
+} from "~/domains/campaigns/services/targeting-simulator.server";
+import { CampaignService } from "~/domains/campaigns/services/campaign.server";
+import { CampaignFilterService } from "~/domains/campaigns/services/campaign-filter.server";
+import type { CampaignWithConfigs } from "~/domains/campaigns/types/campaign";
+
+// ==========================================================================
+// TEST HELPERS
+// ==========================================================================
+
+function createCampaign(id: string, status: string) {
+  return { id, name: id, status, targetRules: {} } as unknown as CampaignWithConfigs;
+}
+
+const live = createCampaign("live", "ACTIVE");
+const scheduled = createCampaign("scheduled", "ACTIVE");
+const paused = createCampaign("paused", "PAUSED");
+const archived = createCampaign("archived", "ARCHIVED");
+
+// ==========================================================================
+// TESTS
+// ==========================================================================
+
+describe("TargetingSimulatorService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(CampaignService.getAllCampaigns).mockResolvedValue([
+      live,
+      scheduled,
+      paused,
+      archived,
+    ]);
+    vi.mocked(CampaignService.getActiveCampaigns).mockResolvedValue([live]);
+    vi.mocked(CampaignFilterService.filterCampaigns).mockImplementation(
+      async (campaigns, context, storeId, options) => {
+        options?.trace?.recordStep("DEVICE_TYPE", campaigns, campaigns, context);
+        return campaigns;
+      }
+    );
+  });
+
+  describe("simulate", () => {
+    it("should trace campaigns dropped by status or schedule", async () => {
+      const result = await TargetingSimulatorService.simulate("store-1", { context: {} });
+
+      expect(result.traces.map((t) => t.campaignId)).toEqual(["live", "scheduled", "paused"]);
+      expect(result.traces.find((t) => t.campaignId === "paused")).toMatchObject({
+        rejectedBy: "SCHEDULE",
+        reason: "Campaign is paused",
+      });
+      expect(result.traces.find((t) => t.campaignId === "scheduled")?.reason).toContain(
+        "schedule"
+      );
+      expect(result.shownCampaignIds).toEqual(["live"]);
+    });
+
+    it("should filter active campaigns with the simulated visitor state", async () => {
+      await TargetingSimulatorService.simulate("store-1", {
+        context: { deviceType: "mobile", timezone: "Europe/Paris" },
+        frequencyCapState: { counts: { session: 3 } },
+        customerSegmentIds: ["gid://shopify/Segment/1"],
+      });
+
+      expect(CampaignService.getActiveCampaigns).toHaveBeenCalledWith("store-1", {
+        visitorTimezone: "Europe/Paris",
+      });
+      expect(CampaignFilterService.filterCampaigns).toHaveBeenCalledWith(
+        [live],
+        expect.objectContaining({ deviceType: "mobile", visitorId: "rb-simulator" }),
+        "store-1",
+        expect.objectContaining({
+          simulation: {
+            frequencyCapState: { counts: { session: 3 } },
+            customerSegmentIds: ["gid://shopify/Segment/1"],
+          },
+        })
+      );
+    });
+
+    it("should simulate a fresh visitor when no frequency state is given", async () => {
+      await TargetingSimulatorService.simulate("store-1", { context: { visitorId: "visitor-1" } });
+
+      const [, context, , options] = vi.mocked(CampaignFilterService.filterCampaigns).mock.calls[0];
+      expect(context.visitorId).toBe("visitor-1");
+      expect(options?.simulation?.frequencyCapState).toEqual({});
+    });
+  });
+
+  describe("SimulationInputSchema", () => {
+    it("should reject negative counters", () => {
+      const result = SimulationInputSchema.safeParse({
+        context: {},
+        frequencyCapState: { counts: { session: -1 } },
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -12,8 +12,6 @@ import {
 describe("StorefrontContext", () => {
   describe("buildStorefrontContext", () => {
     it("should build context from URL params and headers", () => {
-      // Note: cartValue and cartItemCount are now handled client-side only
-      // via the cart_value trigger in Enhanced Triggers
       const searchParams = new URLSearchParams({
         pageUrl: "/products/example",
         pageType: "product",
@@ -47,6 +45,33 @@ describe("StorefrontContext", () => {
       expect(context.cartToken).toBeUndefined();
     });
 
+    it("should parse the cart snapshot, keeping empty carts", () => {
+      const context = buildStorefrontContext(
+        new URLSearchParams({
+          cartValue: "49.5",
+          cartItemCount: "2",
+          cartProductIds: "101,102",
+          cartDiscountApplied: "true",
+        }),
+        new Headers()
+      );
+
+      expect(context.cartValue).toBe(49.5);
+      expect(context.cartItemCount).toBe(2);
+      expect(context.cartProductIds).toEqual(["101", "102"]);
+      expect(context.cartDiscountApplied).toBe(true);
+
+      const empty = buildStorefrontContext(
+        new URLSearchParams({ cartValue: "0", cartItemCount: "0", cartDiscountApplied: "false" }),
+        new Headers()
+      );
+
+      expect(empty.cartValue).toBe(0);
+      expect(empty.cartItemCount).toBe(0);
+      expect(empty.cartProductIds).toBeUndefined();
+      expect(empty.cartDiscountApplied).toBe(false);
+    });
+
     it("should parse customer tags from comma-separated string", () => {
       const searchParams = new URLSearchParams({
         customerTags: "vip,subscriber,wholesale",
@@ -106,7 +131,6 @@ describe("StorefrontContext", () => {
 
   describe("validateStorefrontContext", () => {
     it("should validate valid context", () => {
-      // Note: cartValue is now handled client-side only via cart_value trigger
       const validContext: StorefrontContext = {
         pageUrl: "/products/example",
         pageType: "product",
@@ -0,0 +1,99 @@
+/**
+ * Unit Tests for Arbitration Helpers
+ *
+ * Tests how campaigns matching the same page are resolved:
+ * - Ranking by priority, conversion rate and seeded random
+ * - One campaign per exclusive group
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { applyExclusiveGroups, rankCampaigns } from "~/domains/campaigns/utils/arbitration";
+
+// ==========================================================================
+// TEST HELPERS
+// ==========================================================================
+
+const campaigns = [
+  { id: "newsletter", priority: 5 },
+  { id: "spin-to-win", priority: 10 },
+  { id: "free-shipping", priority: 1 },
+];
+
+const ids = (list: { id: string }[]) => list.map((c) => c.id);
+
+// ==========================================================================
+// TESTS
+// ==========================================================================
+
+describe("rankCampaigns", () => {
+  it("should rank by priority, highest first", () => {
+    expect(ids(rankCampaigns(campaigns, "priority"))).toEqual([
+      "spin-to-win",
+      "newsletter",
+      "free-shipping",
+    ]);
+  });
+
+  it("should not mutate the input", () => {
+    rankCampaigns(campaigns, "priority");
+    expect(ids(campaigns)).toEqual(["newsletter", "spin-to-win", "free-shipping"]);
+  });
+
+  it("should rank by conversion rate and fall back to priority on ties", () => {
+    const conversionRates = new Map([
+      ["newsletter", 4.2],
+      ["free-shipping", 4.2],
+      ["spin-to-win", 1.5],
+    ]);
+
+    expect(ids(rankCampaigns(campaigns, "conversion_rate", { conversionRates }))).toEqual([
+      "newsletter",
+      "free-shipping",
+      "spin-to-win",
+    ]);
+  });
+
+  it("should rank campaigns without a known conversion rate last", () => {
+    const conversionRates = new Map([["free-shipping", 2]]);
+
+    expect(ids(rankCampaigns(campaigns, "conversion_rate", { conversionRates }))[0]).toBe(
+      "free-shipping"
+    );
+  });
+
+  it("should pick the same random order for the same seed", () => {
+    const first = ids(rankCampaigns(campaigns, "random", { seed: "visitor-1" }));
+    const second = ids(rankCampaigns(campaigns, "random", { seed: "visitor-1" }));
+
+    expect(second).toEqual(first);
+    expect([...first].sort()).toEqual(["free-shipping", "newsletter", "spin-to-win"]);
+  });
+});
+
+describe("applyExclusiveGroups", () => {
+  const groups = [{ id: "g1", name: "Lead capture", campaignIds: ["newsletter", "spin-to-win"] }];
+
+  it("should keep only the best-ranked campaign of a group", () => {
+    const ranked = rankCampaigns(campaigns, "priority");
+
+    expect(ids(applyExclusiveGroups(ranked, groups))).toEqual(["spin-to-win", "free-shipping"]);
+  });
+
+  it("should keep every campaign when there are no groups", () => {
+    expect(applyExclusiveGroups(campaigns, [])).toHaveLength(3);
+  });
+
+  it("should not let a dropped campaign claim its other groups", () => {
+    const overlapping = [
+      ...groups,
+      { id: "g2", name: "Offers", campaignIds: ["newsletter", "free-shipping"] },
+    ];
+    const ranked = rankCampaigns(campaigns, "priority");
+
+    expect(ids(applyExclusiveGroups(ranked, overlapping))).toEqual([
+      "spin-to-win",
+      "free-shipping",
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Unit Tests for Filter Trace
+ *
+ * Tests the per-campaign trace used by the targeting simulator:
+ * - Steps are recorded until a campaign is rejected
+ * - Reasons come from the filter when it supplies one, else from the rules
+ * - Campaigns rejected before filtering (status, schedule)
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { FilterTrace, describeRejection } from "~/domains/campaigns/utils/filter-trace";
+import type { CampaignWithConfigs } from "~/domains/campaigns/types/campaign";
+
+// ==========================================================================
+// TEST HELPERS
+// ==========================================================================
+
+const desktopOnly = {
+  id: "desktop-only",
+  name: "Desktop Only",
+  targetRules: {
+    enhancedTriggers: { device_targeting: { enabled: true, device_types: ["desktop"] } },
+  },
+} as unknown as CampaignWithConfigs;
+
+const everyone = { id: "everyone", name: "Everyone", targetRules: {} } as unknown as CampaignWithConfigs;
+
+// ==========================================================================
+// TESTS
+// ==========================================================================
+
+describe("FilterTrace", () => {
+  it("should mark campaigns missing from a step's output as rejected", () => {
+    const trace = new FilterTrace([desktopOnly, everyone]);
+
+    trace.recordStep("DEVICE_TYPE", [desktopOnly, everyone], [everyone], { deviceType: "mobile" });
+    trace.recordStep("PAGE_TARGETING", [everyone], [everyone], { pageUrl: "/" });
+
+    const [rejected, shown] = trace.getTraces();
+    expect(rejected).toMatchObject({
+      shown: false,
+      rejectedBy: "DEVICE_TYPE",
+      reason: 'Device "mobile" is not targeted (targets: desktop)',
+    });
+    expect(rejected.steps).toHaveLength(1);
+    expect(shown.shown).toBe(true);
+    expect(shown.steps.map((s) => s.step)).toEqual(["DEVICE_TYPE", "PAGE_TARGETING"]);
+  });
+
+  it("should prefer the reason supplied by the filter", () => {
+    const trace = new FilterTrace([everyone]);
+
+    trace.setReason("everyone", "Daily limit exceeded (2)");
+    trace.recordStep("FREQUENCY_CAPPING", [everyone], [], {});
+
+    expect(trace.getTraces()[0].reason).toBe("Daily limit exceeded (2)");
+  });
+
+  it("should not carry a supplied reason over to the next step", () => {
+    const trace = new FilterTrace([everyone]);
+
+    trace.setReason("everyone", "Daily limit exceeded (2)");
+    trace.recordStep("FREQUENCY_CAPPING", [everyone], [everyone], {});
+    trace.recordStep("ARBITRATION", [everyone], [], {});
+
+    expect(trace.getTraces()[0].reason).toBe(
+      "Another campaign in the same exclusive group won arbitration"
+    );
+  });
+
+  it("should record campaigns rejected before filtering", () => {
+    const trace = new FilterTrace([everyone]);
+
+    trace.reject("everyone", "SCHEDULE", "Campaign is paused");
+
+    expect(trace.getTraces()[0]).toMatchObject({
+      shown: false,
+      rejectedBy: "SCHEDULE",
+      reason: "Campaign is paused",
+    });
+  });
+});
+
+describe("describeRejection", () => {
+  it("should describe excluded countries", () => {
+    const campaign = {
+      targetRules: { geoTargeting: { enabled: true, mode: "exclude", countries: ["FR"] } },
+    } as unknown as CampaignWithConfigs;
+
+    expect(describeRejection("GEO_TARGETING", campaign, { country: "fr" })).toBe(
+      "Country FR is excluded"
+    );
+  });
+
+  it("should tell guests apart from customers for segment targeting", () => {
+    expect(describeRejection("AUDIENCE_SEGMENTS", everyone, {})).toContain("not logged in");
+    expect(describeRejection("AUDIENCE_SEGMENTS", everyone, { customerId: "42" })).toContain(
+      "not in any of the targeted segments"
+    );
+  });
+});
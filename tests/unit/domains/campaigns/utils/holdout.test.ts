@@ -0,0 +1,82 @@
+/**
+ * Unit Tests for Holdout Helpers
+ *
+ * Tests which holdout applies to a campaign and how visitors are bucketed:
+ * - Campaign holdouts take precedence over the store-wide holdout
+ * - Buckets are deterministic and match the configured share
+ */
+
+import { describe, it, expect } from "vitest";
+
+import { getHoldoutBucket, getHoldoutPolicy, isInHoldout } from "~/domains/campaigns/utils/holdout";
+import type { CampaignWithConfigs } from "~/domains/campaigns/types/campaign";
+
+// ==========================================================================
+// TEST HELPERS
+// ==========================================================================
+
+function createCampaign(targetRules: Record<string, unknown> = {}) {
+  return { id: "campaign-1", targetRules } as unknown as CampaignWithConfigs;
+}
+
+const visitorIds = Array.from({ length: 5000 }, (_, i) => `visitor-${i}`);
+
+// ==========================================================================
+// TESTS
+// ==========================================================================
+
+describe("getHoldoutPolicy", () => {
+  it("should return null when no holdout is enabled", () => {
+    expect(getHoldoutPolicy(createCampaign(), "store-1")).toBeNull();
+    expect(
+      getHoldoutPolicy(createCampaign(), "store-1", { holdout: { enabled: false, percentage: 10 } })
+    ).toBeNull();
+  });
+
+  it("should use the store-wide holdout seeded with the store ID", () => {
+    expect(
+      getHoldoutPolicy(createCampaign(), "store-1", { holdout: { enabled: true, percentage: 5 } })
+    ).toEqual({ scope: "store", percentage: 5, seed: "store-1" });
+  });
+
+  it("should prefer the campaign holdout over the store-wide holdout", () => {
+    const campaign = createCampaign({ holdout: { enabled: true, percentage: 20 } });
+
+    expect(
+      getHoldoutPolicy(campaign, "store-1", { holdout: { enabled: true, percentage: 5 } })
+    ).toEqual({ scope: "campaign", percentage: 20, seed: "campaign-1" });
+  });
+
+  it("should ignore invalid store settings", () => {
+    expect(
+      getHoldoutPolicy(createCampaign(), "store-1", {
+        holdout: { enabled: true, percentage: 90 },
+      })
+    ).toBeNull();
+  });
+});
+
+describe("isInHoldout", () => {
+  const policy = { scope: "store" as const, percentage: 10, seed: "store-1" };
+
+  it("should bucket visitors deterministically", () => {
+    expect(getHoldoutBucket("visitor-1", "store-1")).toBe(getHoldoutBucket("visitor-1", "store-1"));
+    expect(isInHoldout("visitor-1", policy)).toBe(isInHoldout("visitor-1", policy));
+  });
+
+  it("should hold out roughly the configured share of visitors", () => {
+    const heldOut = visitorIds.filter((id) => isInHoldout(id, policy)).length;
+
+    expect(heldOut / visitorIds.length).toBeGreaterThan(0.08);
+    expect(heldOut / visitorIds.length).toBeLessThan(0.12);
+  });
+
+  it("should bucket visitors independently per seed", () => {
+    const storeHeldOut = visitorIds.filter((id) => isInHoldout(id, policy));
+    const campaignHeldOut = visitorIds.filter((id) =>
+      isInHoldout(id, { ...policy, seed: "campaign-1" })
+    );
+
+    expect(storeHeldOut).not.toEqual(campaignHeldOut);
+  });
+});
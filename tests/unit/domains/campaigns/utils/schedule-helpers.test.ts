@@ -14,6 +14,12 @@ import {
   formatDateRange,
   validateScheduleDates,
   isWithinSchedule,
+  isValidTimezone,
+  getZonedDayAndTime,
+  isWithinDaypartingWindow,
+  isWithinDayparting,
+  formatDaypartingDays,
+  formatDaypartingWindow,
 } from "~/domains/campaigns/utils/schedule-helpers";
 
 // ==========================================================================
@@ -235,3 +241,127 @@ describe("isWithinSchedule", () => {
   });
 });
 
+// ==========================================================================
+// DAYPARTING TESTS
+// ==========================================================================
+
+describe("isValidTimezone", () => {
+  it("should accept IANA timezones", () => {
+    expect(isValidTimezone("America/New_York")).toBe(true);
+    expect(isValidTimezone("UTC")).toBe(true);
+  });
+
+  it("should reject missing or unknown timezones", () => {
+    expect(isValidTimezone(undefined)).toBe(false);
+    expect(isValidTimezone("")).toBe(false);
+    expect(isValidTimezone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
+
+describe("getZonedDayAndTime", () => {
+  it("should return day and minutes in the given timezone", () => {
+    // Saturday 2024-06-15 02:30 UTC is Friday 22:30 in New York
+    const date = new Date("2024-06-15T02:30:00Z");
+
+    expect(getZonedDayAndTime(date, "UTC")).toEqual({ day: 6, minutes: 150 });
+    expect(getZonedDayAndTime(date, "America/New_York")).toEqual({ day: 5, minutes: 1350 });
+  });
+
+  it("should report midnight as minute 0", () => {
+    expect(getZonedDayAndTime(new Date("2024-06-16T00:00:00Z"), "UTC")).toEqual({
+      day: 0,
+      minutes: 0,
+    });
+  });
+});
+
+describe("isWithinDaypartingWindow", () => {
+  const happyHour = { days: [1, 2, 3, 4, 5], startTime: "17:00", endTime: "19:00" };
+  const lateNight = { days: [5], startTime: "22:00", endTime: "02:00" };
+
+  it("should match same-day windows with an exclusive end", () => {
+    expect(isWithinDaypartingWindow(happyHour, 3, 17 * 60)).toBe(true);
+    expect(isWithinDaypartingWindow(happyHour, 3, 18 * 60 + 59)).toBe(true);
+    expect(isWithinDaypartingWindow(happyHour, 3, 19 * 60)).toBe(false);
+    expect(isWithinDaypartingWindow(happyHour, 3, 16 * 60)).toBe(false);
+  });
+
+  it("should not match on days outside the window", () => {
+    expect(isWithinDaypartingWindow(happyHour, 6, 18 * 60)).toBe(false);
+  });
+
+  it("should carry overnight windows into the next day", () => {
+    expect(isWithinDaypartingWindow(lateNight, 5, 23 * 60)).toBe(true);
+    expect(isWithinDaypartingWindow(lateNight, 6, 60)).toBe(true);
+    expect(isWithinDaypartingWindow(lateNight, 6, 3 * 60)).toBe(false);
+    expect(isWithinDaypartingWindow(lateNight, 5, 60)).toBe(false);
+  });
+
+  it("should treat 00:00-00:00 as the whole day", () => {
+    const weekends = { days: [0, 6], startTime: "00:00", endTime: "00:00" };
+
+    expect(isWithinDaypartingWindow(weekends, 6, 0)).toBe(true);
+    expect(isWithinDaypartingWindow(weekends, 0, 23 * 60 + 59)).toBe(true);
+    expect(isWithinDaypartingWindow(weekends, 1, 0)).toBe(false);
+  });
+});
+
+describe("isWithinDayparting", () => {
+  // Saturday 2024-06-15 12:00 UTC
+  const now = new Date("2024-06-15T12:00:00Z");
+  const weekends = { days: [0, 6], startTime: "00:00", endTime: "00:00" };
+  const weekdays = { days: [1, 2, 3, 4, 5], startTime: "09:00", endTime: "17:00" };
+
+  it("should return true when dayparting is missing or disabled", () => {
+    expect(isWithinDayparting(undefined, "UTC", now)).toBe(true);
+    expect(
+      isWithinDayparting({ enabled: false, timezoneMode: "store", windows: [weekdays] }, "UTC", now)
+    ).toBe(true);
+  });
+
+  it("should return true when enabled without windows", () => {
+    expect(isWithinDayparting({ enabled: true, timezoneMode: "store", windows: [] }, "UTC", now)).toBe(
+      true
+    );
+  });
+
+  it("should return true when any window matches", () => {
+    const config = { enabled: true, timezoneMode: "store" as const, windows: [weekdays, weekends] };
+    expect(isWithinDayparting(config, "UTC", now)).toBe(true);
+  });
+
+  it("should return false when no window matches", () => {
+    const config = { enabled: true, timezoneMode: "store" as const, windows: [weekdays] };
+    expect(isWithinDayparting(config, "UTC", now)).toBe(false);
+  });
+
+  it("should evaluate windows in the given timezone", () => {
+    // Monday 2024-06-17 02:00 UTC is Sunday evening in Los Angeles
+    const mondayUtc = new Date("2024-06-17T02:00:00Z");
+    const config = { enabled: true, timezoneMode: "store" as const, windows: [weekends] };
+
+    expect(isWithinDayparting(config, "UTC", mondayUtc)).toBe(false);
+    expect(isWithinDayparting(config, "America/Los_Angeles", mondayUtc)).toBe(true);
+  });
+});
+
+describe("formatDaypartingWindow", () => {
+  it("should name common day groups", () => {
+    expect(formatDaypartingDays([0, 1, 2, 3, 4, 5, 6])).toBe("Every day");
+    expect(formatDaypartingDays([5, 4, 3, 2, 1])).toBe("Weekdays");
+    expect(formatDaypartingDays([6, 0])).toBe("Weekends");
+    expect(formatDaypartingDays([1, 3])).toBe("Mon, Wed");
+  });
+
+  it("should format time ranges", () => {
+    expect(formatDaypartingWindow({ days: [0, 6], startTime: "00:00", endTime: "00:00" })).toBe(
+      "Weekends, all day"
+    );
+    expect(formatDaypartingWindow({ days: [1, 2, 3, 4, 5], startTime: "17:00", endTime: "19:00" })).toBe(
+      "Weekdays, 17:00–19:00"
+    );
+    expect(formatDaypartingWindow({ days: [5], startTime: "22:00", endTime: "02:00" })).toBe(
+      "Fri, 22:00–02:00 (overnight)"
+    );
+  });
+});
@@ -0,0 +1,342 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    lead: { findUnique: vi.fn() },
+    espIntegration: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    espSyncJob: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("~/lib/logger.server", () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock("~/domains/integrations/providers/index.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("~/domains/integrations/providers/index.server")>()),
+  createEspAdapter: vi.fn(),
+}));
+
+import prisma from "~/db.server";
+import { encryptSecret } from "~/lib/credential-cipher.server";
+import { createEspAdapter, EspRequestError } from "~/domains/integrations/providers/index.server";
+import {
+  EspSyncService,
+  buildEspContact,
+  getRetryDelayMs,
+  resolveListId,
+  type LeadForSync,
+} from "~/domains/integrations/services/esp-sync.server";
+import { MAX_SYNC_ATTEMPTS } from "~/domains/integrations/types";
+
+const mockPrisma = prisma as unknown as {
+  lead: { findUnique: ReturnType<typeof vi.fn> };
+  espIntegration: {
+    findMany: ReturnType<typeof vi.fn>;
+    findUnique: ReturnType<typeof vi.fn>;
+    upsert: ReturnType<typeof vi.fn>;
+    deleteMany: ReturnType<typeof vi.fn>;
+  };
+  espSyncJob: {
+    findMany: ReturnType<typeof vi.fn>;
+    upsert: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
+  };
+};
+const mockCreateAdapter = vi.mocked(createEspAdapter);
+
+const NOW = new Date("2025-06-15T12:00:00.000Z");
+
+const LEAD: LeadForSync = {
+  email: "shopper@example.com",
+  firstName: "Ada",
+  lastName: null,
+  phone: null,
+  marketingConsent: true,
+  consentedAt: NOW,
+  discountCode: "WELCOME10",
+  utmSource: "instagram",
+  utmMedium: null,
+  utmCampaign: null,
+  campaign: { id: "camp-1", name: "Spring Sale", templateType: "NEWSLETTER" },
+};
+
+function integrationRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "int-1",
+    provider: "klaviyo",
+    credentials: encryptSecret(JSON.stringify({ apiKey: "pk_live_1234" })),
+    enabled: true,
+    defaultListId: "LIST-DEFAULT",
+    campaignLists: { "camp-1": "LIST-SPRING" },
+    propertyMapping: {},
+    verifiedAt: NOW,
+    ...overrides,
+  };
+}
+
+function dueJob(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "job-1",
+    storeId: "store-1",
+    attempts: 0,
+    nextAttemptAt: NOW,
+    integration: integrationRow(),
+    lead: LEAD,
+    ...overrides,
+  };
+}
+
+describe("ESP sync helpers", () => {
+  it("maps lead fields to the configured property names", () => {
+    const contact = buildEspContact(LEAD, {
+      campaignId: "source_campaign",
+      discountCode: "coupon",
+      utmSource: "utm_source",
+      utmMedium: "utm_medium",
+      templateType: "",
+    });
+
+    expect(contact.properties).toEqual({
+      source_campaign: "camp-1",
+      coupon: "WELCOME10",
+      utm_source: "instagram",
+    });
+    expect(contact.tags).toEqual(
+      expect.arrayContaining(["revenue-boost", "rb-campaign:spring-sale", "rb-template:newsletter"])
+    );
+  });
+
+  it("prefers the campaign's own list", () => {
+    expect(resolveListId(integrationRow(), "camp-1")).toBe("LIST-SPRING");
+    expect(resolveListId(integrationRow(), "camp-2")).toBe("LIST-DEFAULT");
+    expect(resolveListId(integrationRow({ defaultListId: null }), "camp-2")).toBeNull();
+  });
+
+  it("backs off and keeps the last delay", () => {
+    expect(getRetryDelayMs(1)).toBe(60_000);
+    expect(getRetryDelayMs(2)).toBe(5 * 60_000);
+    expect(getRetryDelayMs(20)).toBe(24 * 3_600_000);
+  });
+});
+
+describe("EspSyncService", () => {
+  const adapter = { provider: "klaviyo" as const, verify: vi.fn(), upsertContact: vi.fn() };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("CREDENTIALS_ENCRYPTION_KEY", "test_credentials_key_minimum_32_chars_long");
+    mockCreateAdapter.mockReturnValue(adapter);
+    mockPrisma.espSyncJob.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe("saveIntegration", () => {
+    const INPUT = {
+      provider: "klaviyo",
+      apiKey: "pk_live_5678",
+      enabled: true,
+      defaultListId: "LIST-DEFAULT",
+      campaignLists: { "camp-1": "LIST-SPRING", "camp-2": "" },
+      propertyMapping: { campaignId: "rb_campaign_id", utmSource: "" },
+    };
+
+    it("verifies the key and stores it encrypted", async () => {
+      mockPrisma.espIntegration.findUnique.mockResolvedValue(null);
+      mockPrisma.espIntegration.upsert.mockImplementation(async ({ create }) => ({
+        id: "int-1",
+        ...create,
+      }));
+
+      const summary = await EspSyncService.saveIntegration("store-1", INPUT);
+
+      expect(mockCreateAdapter).toHaveBeenCalledWith("klaviyo", { apiKey: "pk_live_5678" });
+      expect(adapter.verify).toHaveBeenCalled();
+      const { create } = mockPrisma.espIntegration.upsert.mock.calls[0][0];
+      expect(create.credentials).not.toContain("pk_live_5678");
+      expect(create.campaignLists).toEqual({ "camp-1": "LIST-SPRING" });
+      expect(create.propertyMapping).toEqual({ campaignId: "rb_campaign_id", utmSource: "" });
+      expect(summary).toMatchObject({ apiKeyHint: "5678", defaultListId: "LIST-DEFAULT" });
+    });
+
+    it("keeps the stored key when none is entered", async () => {
+      mockPrisma.espIntegration.findUnique.mockResolvedValue(integrationRow());
+      mockPrisma.espIntegration.upsert.mockResolvedValue(integrationRow());
+
+      await EspSyncService.saveIntegration("store-1", { ...INPUT, apiKey: "" });
+
+      expect(mockCreateAdapter).toHaveBeenCalledWith("klaviyo", { apiKey: "pk_live_1234" });
+    });
+
+    it("rejects keys the provider refuses", async () => {
+      mockPrisma.espIntegration.findUnique.mockResolvedValue(null);
+      adapter.verify.mockRejectedValueOnce(new EspRequestError("401: Invalid key", 401, false));
+
+      await expect(EspSyncService.saveIntegration("store-1", INPUT)).rejects.toMatchObject({
+        code: "ESP_VERIFY_FAILED",
+        message: "Klaviyo rejected the API key (401: Invalid key)",
+      });
+      expect(mockPrisma.espIntegration.upsert).not.toHaveBeenCalled();
+    });
+
+    it("requires a key for new integrations", async () => {
+      mockPrisma.espIntegration.findUnique.mockResolvedValue(null);
+
+      await expect(
+        EspSyncService.saveIntegration("store-1", { ...INPUT, apiKey: undefined })
+      ).rejects.toMatchObject({ code: "VALIDATION_FAILED" });
+    });
+  });
+
+  describe("enqueueLead", () => {
+    it("queues the lead for every enabled integration", async () => {
+      mockPrisma.lead.findUnique.mockResolvedValue({ storeId: "store-1", email: LEAD.email });
+      mockPrisma.espIntegration.findMany.mockResolvedValue([{ id: "int-1" }, { id: "int-2" }]);
+
+      await expect(EspSyncService.enqueueLead("lead-1")).resolves.toBe(2);
+
+      expect(mockPrisma.espIntegration.findMany).toHaveBeenCalledWith({
+        where: { storeId: "store-1", enabled: true },
+        select: { id: true },
+      });
+      expect(mockPrisma.espSyncJob.upsert).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.espSyncJob.upsert.mock.calls[0][0]).toMatchObject({
+        where: { integrationId_leadId: { integrationId: "int-1", leadId: "lead-1" } },
+        update: { status: "pending", attempts: 0, lastError: null },
+      });
+    });
+
+    it("skips anonymous game leads", async () => {
+      mockPrisma.lead.findUnique.mockResolvedValue({
+        storeId: "store-1",
+        email: "session_abc@anonymous.local",
+      });
+
+      await expect(EspSyncService.enqueueLead("lead-1")).resolves.toBe(0);
+      expect(mockPrisma.espIntegration.findMany).not.toHaveBeenCalled();
+    });
+
+    it("never throws", async () => {
+      mockPrisma.lead.findUnique.mockRejectedValueOnce(new Error("db down"));
+
+      await expect(EspSyncService.enqueueLead("lead-1")).resolves.toBe(0);
+    });
+  });
+
+  describe("processDueJobs", () => {
+    it("delivers the contact to the campaign's list", async () => {
+      mockPrisma.espSyncJob.findMany.mockResolvedValue([dueJob()]);
+      adapter.upsertContact.mockResolvedValue({ externalId: "01PROFILE" });
+
+      const summary = await EspSyncService.processDueJobs(NOW);
+
+      expect(summary).toEqual({ processed: 1, delivered: 1, retrying: 0, failed: 0 });
+      expect(mockCreateAdapter).toHaveBeenCalledWith("klaviyo", { apiKey: "pk_live_1234" });
+      const [contact, listId] = adapter.upsertContact.mock.calls[0];
+      expect(listId).toBe("LIST-SPRING");
+      // No mapping saved yet - Klaviyo's defaults apply
+      expect(contact.properties).toMatchObject({
+        rb_campaign_id: "camp-1",
+        rb_discount_code: "WELCOME10",
+      });
+      expect(mockPrisma.espSyncJob.update).toHaveBeenCalledWith({
+        where: { id: "job-1" },
+        data: {
+          status: "delivered",
+          attempts: 1,
+          nextAttemptAt: null,
+          lastError: null,
+          externalId: "01PROFILE",
+          deliveredAt: NOW,
+        },
+      });
+    });
+
+    it("skips jobs another run claimed first", async () => {
+      mockPrisma.espSyncJob.findMany.mockResolvedValue([dueJob()]);
+      mockPrisma.espSyncJob.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      const summary = await EspSyncService.processDueJobs(NOW);
+
+      expect(summary.processed).toBe(0);
+      expect(adapter.upsertContact).not.toHaveBeenCalled();
+    });
+
+    it("retries retryable failures with backoff", async () => {
+      mockPrisma.espSyncJob.findMany.mockResolvedValue([dueJob({ attempts: 1 })]);
+      adapter.upsertContact.mockRejectedValueOnce(new EspRequestError("429: Throttled", 429, true));
+
+      const summary = await EspSyncService.processDueJobs(NOW);
+
+      expect(summary.retrying).toBe(1);
+      expect(mockPrisma.espSyncJob.update).toHaveBeenCalledWith({
+        where: { id: "job-1" },
+        data: {
+          status: "pending",
+          attempts: 2,
+          nextAttemptAt: new Date(NOW.getTime() + 5 * 60_000),
+          lastError: "429: Throttled",
+        },
+      });
+    });
+
+    it("gives up on rejected requests and after the last attempt", async () => {
+      mockPrisma.espSyncJob.findMany.mockResolvedValue([
+        dueJob(),
+        dueJob({ id: "job-2", attempts: MAX_SYNC_ATTEMPTS - 1 }),
+      ]);
+      adapter.upsertContact
+        .mockRejectedValueOnce(new EspRequestError("400: Invalid list", 400, false))
+        .mockRejectedValueOnce(new EspRequestError("503: Unavailable", 503, true));
+
+      const summary = await EspSyncService.processDueJobs(NOW);
+
+      expect(summary).toEqual({ processed: 2, delivered: 0, retrying: 0, failed: 2 });
+      expect(mockPrisma.espSyncJob.update.mock.calls.map(([call]) => call.data)).toEqual([
+        { status: "failed", attempts: 1, nextAttemptAt: null, lastError: "400: Invalid list" },
+        {
+          status: "failed",
+          attempts: MAX_SYNC_ATTEMPTS,
+          nextAttemptAt: null,
+          lastError: "503: Unavailable",
+        },
+      ]);
+    });
+
+    it("fails jobs whose credentials can't be decrypted", async () => {
+      mockPrisma.espSyncJob.findMany.mockResolvedValue([
+        dueJob({ integration: integrationRow({ credentials: "v1.broken" }) }),
+      ]);
+
+      const summary = await EspSyncService.processDueJobs(NOW);
+
+      expect(summary.failed).toBe(1);
+      expect(mockCreateAdapter).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("retryJob", () => {
+    it("only requeues failed jobs of the store", async () => {
+      await expect(EspSyncService.retryJob("store-1", "job-1")).resolves.toBe(true);
+
+      expect(mockPrisma.espSyncJob.updateMany).toHaveBeenCalledWith({
+        where: { id: "job-1", storeId: "store-1", status: "failed" },
+        data: expect.objectContaining({ status: "pending", attempts: 0, lastError: null }),
+      });
+    });
+  });
+});
@@ -0,0 +1,364 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createHmac } from "crypto";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    lead: { findUnique: vi.fn() },
+    webhookSubscription: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+    },
+    webhookDelivery: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      createMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("~/lib/logger.server", () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from "~/db.server";
+import { decryptSecret, encryptSecret } from "~/lib/credential-cipher.server";
+import {
+  OutboundWebhookService,
+  getWebhookRetryDelayMs,
+  signWebhookPayload,
+} from "~/domains/integrations/services/outbound-webhooks.server";
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  MAX_WEBHOOK_SUBSCRIPTIONS,
+  WebhookSubscriptionInputSchema,
+} from "~/domains/integrations/outbound-webhooks";
+
+const mockPrisma = prisma as unknown as {
+  lead: { findUnique: ReturnType<typeof vi.fn> };
+  webhookSubscription: {
+    findMany: ReturnType<typeof vi.fn>;
+    findFirst: ReturnType<typeof vi.fn>;
+    count: ReturnType<typeof vi.fn>;
+    create: ReturnType<typeof vi.fn>;
+  };
+  webhookDelivery: {
+    findMany: ReturnType<typeof vi.fn>;
+    findFirst: ReturnType<typeof vi.fn>;
+    create: ReturnType<typeof vi.fn>;
+    createMany: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
+    deleteMany: ReturnType<typeof vi.fn>;
+  };
+};
+
+const NOW = new Date("2025-06-15T12:00:00.000Z");
+const SECRET = "whsec_test_secret";
+
+const PAYLOAD = {
+  id: "evt_1",
+  event: "lead.created",
+  createdAt: NOW.toISOString(),
+  shop: "test.myshopify.com",
+  data: { leadId: "lead-1" },
+};
+
+function dueDelivery(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "del-1",
+    storeId: "store-1",
+    event: "lead.created",
+    payload: PAYLOAD,
+    attempts: 0,
+    nextAttemptAt: NOW,
+    subscription: { url: "https://hooks.example.com/rb", secret: encryptSecret(SECRET) },
+    ...overrides,
+  };
+}
+
+describe("outbound webhook helpers", () => {
+  it("signs the timestamp and raw body", () => {
+    const body = JSON.stringify(PAYLOAD);
+    const expected = createHmac("sha256", SECRET).update(`1750000000.${body}`).digest("hex");
+
+    expect(signWebhookPayload(SECRET, body, 1750000000)).toBe(`t=1750000000,v1=${expected}`);
+  });
+
+  it("backs off and keeps the last delay", () => {
+    expect(getWebhookRetryDelayMs(1)).toBe(60_000);
+    expect(getWebhookRetryDelayMs(20)).toBe(24 * 3_600_000);
+  });
+
+  it("only accepts public HTTPS endpoints", () => {
+    const parse = (url: string) =>
+      WebhookSubscriptionInputSchema.safeParse({ url, events: ["lead.created"] }).success;
+
+    expect(parse("https://hooks.example.com/rb")).toBe(true);
+    expect(parse("http://hooks.example.com/rb")).toBe(false);
+    expect(parse("https://localhost:3000/rb")).toBe(false);
+    expect(parse("https://192.168.1.10/rb")).toBe(false);
+    expect(
+      WebhookSubscriptionInputSchema.safeParse({ url: "https://hooks.example.com", events: [] })
+        .success
+    ).toBe(false);
+  });
+});
+
+describe("OutboundWebhookService", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("CREDENTIALS_ENCRYPTION_KEY", "test_credentials_key_minimum_32_chars_long");
+    vi.stubGlobal("fetch", fetchMock);
+    mockPrisma.webhookDelivery.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.webhookDelivery.deleteMany.mockResolvedValue({ count: 0 });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  describe("createSubscription", () => {
+    it("generates a signing secret and stores it encrypted", async () => {
+      mockPrisma.webhookSubscription.count.mockResolvedValue(0);
+      mockPrisma.webhookSubscription.create.mockImplementation(async ({ data }) => ({
+        id: "sub-1",
+        createdAt: NOW,
+        ...data,
+      }));
+
+      const summary = await OutboundWebhookService.createSubscription("store-1", {
+        url: "https://hooks.example.com/rb",
+        events: ["lead.created", "lead.created", "coupon.issued"],
+      });
+
+      const { data } = mockPrisma.webhookSubscription.create.mock.calls[0][0];
+      expect(data.events).toEqual(["lead.created", "coupon.issued"]);
+      expect(data.secret).not.toMatch(/^whsec_/);
+      expect(decryptSecret(data.secret)).toMatch(/^whsec_/);
+      expect(summary.secret).toBe(decryptSecret(data.secret));
+    });
+
+    it("rejects endpoints over the store limit", async () => {
+      mockPrisma.webhookSubscription.count.mockResolvedValue(MAX_WEBHOOK_SUBSCRIPTIONS);
+
+      await expect(
+        OutboundWebhookService.createSubscription("store-1", {
+          url: "https://hooks.example.com/rb",
+          events: ["lead.created"],
+        })
+      ).rejects.toMatchObject({ code: "VALIDATION_FAILED" });
+      expect(mockPrisma.webhookSubscription.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("emit", () => {
+    it("queues one delivery per subscribed endpoint, deduped by event key", async () => {
+      mockPrisma.webhookSubscription.findMany.mockResolvedValue([
+        { id: "sub-1", store: { shopifyDomain: "test.myshopify.com" } },
+        { id: "sub-2", store: { shopifyDomain: "test.myshopify.com" } },
+      ]);
+      mockPrisma.webhookDelivery.createMany.mockResolvedValue({ count: 2 });
+
+      const queued = await OutboundWebhookService.emit("store-1", "coupon.issued", "event-1", {
+        discountCode: "WELCOME10",
+      });
+
+      expect(queued).toBe(2);
+      expect(mockPrisma.webhookSubscription.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { storeId: "store-1", enabled: true, events: { has: "coupon.issued" } },
+        })
+      );
+      const { data, skipDuplicates } = mockPrisma.webhookDelivery.createMany.mock.calls[0][0];
+      expect(skipDuplicates).toBe(true);
+      expect(data).toHaveLength(2);
+      expect(data[0]).toMatchObject({
+        subscriptionId: "sub-1",
+        eventKey: "coupon.issued:event-1",
+        payload: {
+          event: "coupon.issued",
+          shop: "test.myshopify.com",
+          data: { discountCode: "WELCOME10" },
+        },
+      });
+      // Same event ID for every endpoint
+      expect(data[1].payload.id).toBe(data[0].payload.id);
+    });
+
+    it("does nothing without subscribers", async () => {
+      mockPrisma.webhookSubscription.findMany.mockResolvedValue([]);
+
+      expect(await OutboundWebhookService.emit("store-1", "lead.created", "lead-1", {})).toBe(0);
+      expect(mockPrisma.webhookDelivery.createMany).not.toHaveBeenCalled();
+    });
+
+    it("never throws", async () => {
+      mockPrisma.webhookSubscription.findMany.mockRejectedValue(new Error("db down"));
+
+      expect(await OutboundWebhookService.emit("store-1", "lead.created", "lead-1", {})).toBe(0);
+    });
+
+    it("skips anonymous game leads", async () => {
+      mockPrisma.lead.findUnique.mockResolvedValue({
+        id: "lead-1",
+        storeId: "store-1",
+        email: "session_abc@anonymous.local",
+        createdAt: NOW,
+        campaign: { id: "camp-1", name: "Spin", templateType: "SPIN_TO_WIN" },
+      });
+
+      expect(await OutboundWebhookService.emitLeadCreated("lead-1")).toBe(0);
+      expect(mockPrisma.webhookSubscription.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("processDueDeliveries", () => {
+    it("sends the signed payload and marks it delivered", async () => {
+      mockPrisma.webhookDelivery.findMany.mockResolvedValue([dueDelivery()]);
+      fetchMock.mockResolvedValue(new Response("ok", { status: 200 }));
+
+      const summary = await OutboundWebhookService.processDueDeliveries(NOW);
+
+      expect(summary).toMatchObject({ processed: 1, delivered: 1, retrying: 0, failed: 0 });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("https://hooks.example.com/rb");
+      expect(init.headers["X-Revenue-Boost-Event"]).toBe("lead.created");
+      expect(init.headers["X-Revenue-Boost-Delivery"]).toBe("del-1");
+      expect(init.headers["X-Revenue-Boost-Signature"]).toBe(
+        signWebhookPayload(SECRET, init.body, NOW.getTime() / 1000)
+      );
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: "del-1" },
+        data: expect.objectContaining({ status: "delivered", attempts: 1, responseStatus: 200 }),
+      });
+    });
+
+    it("retries failed deliveries with backoff", async () => {
+      mockPrisma.webhookDelivery.findMany.mockResolvedValue([dueDelivery({ attempts: 1 })]);
+      fetchMock.mockResolvedValue(new Response("upstream down", { status: 502 }));
+
+      const summary = await OutboundWebhookService.processDueDeliveries(NOW);
+
+      expect(summary.retrying).toBe(1);
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: "del-1" },
+        data: expect.objectContaining({
+          status: "pending",
+          attempts: 2,
+          nextAttemptAt: new Date(NOW.getTime() + 5 * 60_000),
+          responseStatus: 502,
+          lastError: "502: upstream down",
+        }),
+      });
+    });
+
+    it("gives up after the last attempt", async () => {
+      mockPrisma.webhookDelivery.findMany.mockResolvedValue([
+        dueDelivery({ attempts: MAX_WEBHOOK_ATTEMPTS - 1 }),
+      ]);
+      fetchMock.mockRejectedValue(new Error("ECONNREFUSED"));
+
+      const summary = await OutboundWebhookService.processDueDeliveries(NOW);
+
+      expect(summary.failed).toBe(1);
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: "del-1" },
+        data: expect.objectContaining({ status: "failed", nextAttemptAt: null }),
+      });
+    });
+
+    it("skips deliveries claimed by another run", async () => {
+      mockPrisma.webhookDelivery.findMany.mockResolvedValue([dueDelivery()]);
+      mockPrisma.webhookDelivery.updateMany.mockResolvedValue({ count: 0 });
+
+      const summary = await OutboundWebhookService.processDueDeliveries(NOW);
+
+      expect(summary.processed).toBe(0);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("prunes old delivered and failed deliveries", async () => {
+      mockPrisma.webhookDelivery.findMany.mockResolvedValue([]);
+      mockPrisma.webhookDelivery.deleteMany.mockResolvedValue({ count: 3 });
+
+      const summary = await OutboundWebhookService.processDueDeliveries(NOW);
+
+      expect(summary.pruned).toBe(3);
+      expect(mockPrisma.webhookDelivery.deleteMany).toHaveBeenCalledWith({
+        where: {
+          status: { in: ["delivered", "failed"] },
+          createdAt: { lt: new Date("2025-05-16T12:00:00.000Z") },
+        },
+      });
+    });
+  });
+
+  describe("replayDelivery", () => {
+    it("sends the original payload again", async () => {
+      mockPrisma.webhookDelivery.findFirst.mockResolvedValue(
+        dueDelivery({ status: "failed", attempts: MAX_WEBHOOK_ATTEMPTS })
+      );
+      fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+
+      const result = await OutboundWebhookService.replayDelivery("store-1", "del-1");
+
+      expect(result).toEqual({ delivered: true, responseStatus: 204, error: null });
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual(PAYLOAD);
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: "del-1" },
+        data: expect.objectContaining({ status: "delivered", attempts: MAX_WEBHOOK_ATTEMPTS + 1 }),
+      });
+    });
+
+    it("leaves deliveries that are still being retried to the cron", async () => {
+      mockPrisma.webhookDelivery.findFirst.mockResolvedValue(dueDelivery({ status: "pending" }));
+
+      await expect(OutboundWebhookService.replayDelivery("store-1", "del-1")).rejects.toMatchObject(
+        { code: "VALIDATION_FAILED" }
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("sendTestEvent", () => {
+    it("sends a webhook.test event and logs it", async () => {
+      mockPrisma.webhookSubscription.findFirst.mockResolvedValue({
+        id: "sub-1",
+        url: "https://hooks.example.com/rb",
+        secret: encryptSecret(SECRET),
+        store: { shopifyDomain: "test.myshopify.com" },
+      });
+      mockPrisma.webhookDelivery.create.mockResolvedValue({ id: "del-test" });
+      fetchMock.mockResolvedValue(new Response("nope", { status: 401 }));
+
+      const result = await OutboundWebhookService.sendTestEvent("store-1", "sub-1");
+
+      expect(result).toEqual({ delivered: false, responseStatus: 401, error: "401: nope" });
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+        event: "webhook.test",
+        shop: "test.myshopify.com",
+      });
+      expect(mockPrisma.webhookDelivery.update).toHaveBeenCalledWith({
+        where: { id: "del-test" },
+        data: expect.objectContaining({ status: "failed", attempts: 1, responseStatus: 401 }),
+      });
+    });
+
+    it("rejects another store's endpoint", async () => {
+      mockPrisma.webhookSubscription.findFirst.mockResolvedValue(null);
+
+      await expect(OutboundWebhookService.sendTestEvent("store-1", "sub-x")).rejects.toMatchObject(
+        { code: "NOT_FOUND" }
+      );
+    });
+  });
+});
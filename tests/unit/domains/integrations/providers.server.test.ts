@@ -0,0 +1,307 @@
+/**
+ * @vitest-environment node
+ * Adapters talk to a real local HTTP server; happy-dom's fetch would enforce CORS.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { createEspAdapter, EspRequestError } from "~/domains/integrations/providers/index.server";
+import {
+  getMailchimpApiUrl,
+  getSubscriberHash,
+} from "~/domains/integrations/providers/mailchimp.server";
+import type { EspContact } from "~/domains/integrations/types";
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+type Reply = { status: number; body?: unknown };
+
+/** Local stand-in for a provider API, replying by "METHOD path" */
+function startProviderServer(
+  routes: Record<string, Reply>
+): Promise<{ baseUrl: string; requests: RecordedRequest[]; close: () => void }> {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      requests.push({
+        method: req.method ?? "",
+        url: req.url ?? "",
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined,
+      });
+      const path = (req.url ?? "").split("?")[0];
+      const reply = routes[`${req.method} ${path}`] ?? {
+        status: 404,
+        body: { detail: "Not found" },
+      };
+      res.writeHead(reply.status, { "content-type": "application/json" });
+      res.end(reply.body === undefined ? "" : JSON.stringify(reply.body));
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ baseUrl: `http://127.0.0.1:${port}`, requests, close: () => server.close() });
+    });
+  });
+}
+
+const CONTACT: EspContact = {
+  email: "shopper@example.com",
+  firstName: "Ada",
+  lastName: "Lovelace",
+  phone: "+15555550100",
+  marketingConsent: true,
+  consentedAt: new Date("2025-06-15T12:00:00.000Z"),
+  properties: { rb_campaign_id: "camp-1", rb_discount_code: "WELCOME10" },
+  tags: ["revenue-boost", "rb-campaign:spring-sale"],
+};
+
+describe("ESP adapters", () => {
+  let closeServer: (() => void) | null = null;
+
+  afterEach(() => {
+    closeServer?.();
+    closeServer = null;
+  });
+
+  describe("Klaviyo", () => {
+    it("imports the profile and subscribes consenting leads to the list", async () => {
+      const server = await startProviderServer({
+        "POST /api/profile-import/": { status: 201, body: { data: { id: "01PROFILE" } } },
+        "POST /api/profile-subscription-bulk-create-jobs/": { status: 202 },
+      });
+      closeServer = server.close;
+
+      const adapter = createEspAdapter("klaviyo", { apiKey: "pk_test" }, server.baseUrl);
+      await expect(adapter.upsertContact(CONTACT, "LIST1")).resolves.toEqual({
+        externalId: "01PROFILE",
+      });
+
+      const [profile, subscription] = server.requests;
+      expect(profile.headers.authorization).toBe("Klaviyo-API-Key pk_test");
+      expect(profile.headers.revision).toBeTruthy();
+      expect(profile.body).toMatchObject({
+        data: {
+          type: "profile",
+          attributes: {
+            email: "shopper@example.com",
+            first_name: "Ada",
+            phone_number: "+15555550100",
+            properties: { rb_campaign_id: "camp-1", rb_discount_code: "WELCOME10" },
+          },
+        },
+      });
+      expect(subscription.body).toMatchObject({
+        data: {
+          attributes: {
+            profiles: {
+              data: [
+                {
+                  attributes: {
+                    email: "shopper@example.com",
+                    subscriptions: {
+                      email: {
+                        marketing: {
+                          consent: "SUBSCRIBED",
+                          consented_at: "2025-06-15T12:00:00.000Z",
+                        },
+                      },
+                    },
+                  },
+                },
+              ],
+            },
+          },
+          relationships: { list: { data: { type: "list", id: "LIST1" } } },
+        },
+      });
+    });
+
+    it("adds leads without consent to the list without subscribing them", async () => {
+      const server = await startProviderServer({
+        "POST /api/profile-import/": { status: 200, body: { data: { id: "01PROFILE" } } },
+        "POST /api/lists/LIST1/relationships/profiles/": { status: 204 },
+      });
+      closeServer = server.close;
+
+      const adapter = createEspAdapter("klaviyo", { apiKey: "pk_test" }, server.baseUrl);
+      await adapter.upsertContact(
+        { ...CONTACT, marketingConsent: false, phone: "555-0100" },
+        "LIST1"
+      );
+
+      expect(server.requests.map((request) => request.url)).toEqual([
+        "/api/profile-import/",
+        "/api/lists/LIST1/relationships/profiles/",
+      ]);
+      expect(server.requests[0].body).not.toHaveProperty("data.attributes.phone_number");
+      expect(server.requests[1].body).toEqual({ data: [{ type: "profile", id: "01PROFILE" }] });
+    });
+
+    it("rejects bad keys without retrying and retries rate limits", async () => {
+      const server = await startProviderServer({
+        "GET /api/lists/": {
+          status: 401,
+          body: { errors: [{ detail: "Incorrect authentication credentials." }] },
+        },
+        "POST /api/profile-import/": { status: 429, body: { errors: [{ detail: "Throttled" }] } },
+      });
+      closeServer = server.close;
+
+      const adapter = createEspAdapter("klaviyo", { apiKey: "pk_bad" }, server.baseUrl);
+      await expect(adapter.verify()).rejects.toMatchObject({
+        status: 401,
+        retryable: false,
+        message: "401: Incorrect authentication credentials.",
+      });
+      await expect(adapter.upsertContact(CONTACT, null)).rejects.toMatchObject({
+        status: 429,
+        retryable: true,
+      });
+    });
+  });
+
+  describe("Mailchimp", () => {
+    it("derives the API root from the key's data center", () => {
+      expect(getMailchimpApiUrl("abc123-us21")).toBe("https://us21.api.mailchimp.com");
+      expect(() => getMailchimpApiUrl("abc123")).toThrow(EspRequestError);
+    });
+
+    it("upserts the member with merge fields, then tags it", async () => {
+      const hash = getSubscriberHash("Shopper@Example.com");
+      const server = await startProviderServer({
+        [`PUT /3.0/lists/aud1/members/${hash}`]: { status: 200, body: { id: hash } },
+        [`POST /3.0/lists/aud1/members/${hash}/tags`]: { status: 204 },
+      });
+      closeServer = server.close;
+
+      const adapter = createEspAdapter("mailchimp", { apiKey: "key-us21" }, server.baseUrl);
+      await expect(adapter.upsertContact(CONTACT, "aud1")).resolves.toEqual({ externalId: hash });
+
+      const [member, tags] = server.requests;
+      expect(member.headers.authorization).toBe(
+        `Basic ${Buffer.from("revenue-boost:key-us21").toString("base64")}`
+      );
+      expect(member.body).toEqual({
+        email_address: "shopper@example.com",
+        status_if_new: "subscribed",
+        status: "subscribed",
+        merge_fields: {
+          FNAME: "Ada",
+          LNAME: "Lovelace",
+          rb_campaign_id: "camp-1",
+          rb_discount_code: "WELCOME10",
+        },
+      });
+      expect(tags.body).toEqual({
+        tags: [
+          { name: "revenue-boost", status: "active" },
+          { name: "rb-campaign:spring-sale", status: "active" },
+        ],
+      });
+    });
+
+    it("leaves an existing member's status alone for leads without consent", async () => {
+      const hash = getSubscriberHash(CONTACT.email);
+      const server = await startProviderServer({
+        [`PUT /3.0/lists/aud1/members/${hash}`]: { status: 200, body: { id: hash } },
+        [`POST /3.0/lists/aud1/members/${hash}/tags`]: { status: 204 },
+      });
+      closeServer = server.close;
+
+      const adapter = createEspAdapter("mailchimp", { apiKey: "key-us21" }, server.baseUrl);
+      await adapter.upsertContact({ ...CONTACT, marketingConsent: false }, "aud1");
+
+      expect(server.requests[0].body).toMatchObject({ status_if_new: "transactional" });
+      expect(server.requests[0].body).not.toHaveProperty("status");
+    });
+
+    it("subscribes a member once their double opt-in is confirmed", async () => {
+      const hash = getSubscriberHash(CONTACT.email);
+      const server = await startProviderServer({
+        [`PUT /3.0/lists/aud1/members/${hash}`]: { status: 200, body: { id: hash } },
+        [`POST /3.0/lists/aud1/members/${hash}/tags`]: { status: 204 },
+      });
+      closeServer = server.close;
+
+      const adapter = createEspAdapter("mailchimp", { apiKey: "key-us21" }, server.baseUrl);
+      await adapter.upsertContact(
+        { ...CONTACT, marketingConsent: false, consentedAt: null },
+        "aud1"
+      );
+      await adapter.upsertContact(CONTACT, "aud1");
+
+      const puts = server.requests.filter((req) => req.method === "PUT");
+      expect(puts.map((req) => (req.body as { status?: string }).status)).toEqual([
+        undefined,
+        "subscribed",
+      ]);
+    });
+
+    it("needs an audience", async () => {
+      const adapter = createEspAdapter("mailchimp", { apiKey: "key-us21" }, "http://127.0.0.1:1");
+
+      await expect(adapter.upsertContact(CONTACT, null)).rejects.toMatchObject({
+        retryable: false,
+      });
+    });
+  });
+
+  describe("Omnisend", () => {
+    it("creates the contact with the list as a tag", async () => {
+      const server = await startProviderServer({
+        "POST /v5/contacts": { status: 200, body: { contactID: "c-1" } },
+      });
+      closeServer = server.close;
+
+      const adapter = createEspAdapter("omnisend", { apiKey: "om_key" }, server.baseUrl);
+      await expect(
+        adapter.upsertContact({ ...CONTACT, marketingConsent: false }, "spring-leads")
+      ).resolves.toEqual({ externalId: "c-1" });
+
+      const [request] = server.requests;
+      expect(request.headers["x-api-key"]).toBe("om_key");
+      expect(request.body).toMatchObject({
+        identifiers: [
+          {
+            type: "email",
+            id: "shopper@example.com",
+            channels: { email: { status: "nonSubscribed" } },
+          },
+        ],
+        tags: ["revenue-boost", "rb-campaign:spring-sale", "spring-leads"],
+        customProperties: { rb_campaign_id: "camp-1", rb_discount_code: "WELCOME10" },
+      });
+    });
+
+    it("treats server errors and unreachable hosts as retryable", async () => {
+      const server = await startProviderServer({
+        "POST /v5/contacts": { status: 503, body: { error: "Service unavailable" } },
+      });
+      closeServer = server.close;
+
+      await expect(
+        createEspAdapter("omnisend", { apiKey: "om_key" }, server.baseUrl).upsertContact(
+          CONTACT,
+          null
+        )
+      ).rejects.toMatchObject({ status: 503, retryable: true });
+      await expect(
+        createEspAdapter("omnisend", { apiKey: "om_key" }, "http://127.0.0.1:1").upsertContact(
+          CONTACT,
+          null
+        )
+      ).rejects.toMatchObject({ status: null, retryable: true });
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    lead: { findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+  },
+}));
+
+vi.mock("~/lib/logger.server", () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock("~/lib/auth-helpers.server", () => ({
+  createAdminApiContext: vi.fn(() => ({})),
+}));
+
+vi.mock("~/lib/mail-transport.server", () => ({
+  getMailTransport: vi.fn(),
+  getMailFrom: vi.fn(() => "Revenue Boost <no-reply@example.com>"),
+}));
+
+vi.mock("~/lib/shopify/customer.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("~/lib/shopify/customer.server")>()),
+  updateCustomer: vi.fn(),
+  upsertCustomer: vi.fn(),
+}));
+
+vi.mock("~/domains/integrations/services/esp-sync.server", () => ({
+  EspSyncService: { enqueueLead: vi.fn() },
+}));
+
+import prisma from "~/db.server";
+import { getMailTransport } from "~/lib/mail-transport.server";
+import { updateCustomer, upsertCustomer } from "~/lib/shopify/customer.server";
+import { EspSyncService } from "~/domains/integrations/services/esp-sync.server";
+import {
+  CONFIRMATION_RESEND_INTERVAL_MINUTES,
+  CONFIRMATION_TOKEN_TTL_DAYS,
+  DoubleOptInService,
+  MAX_CONFIRMATION_SENDS,
+  canResendConfirmation,
+  createConfirmationToken,
+  getDoubleOptInSettings,
+  verifyConfirmationToken,
+} from "~/domains/leads/services/double-opt-in.server";
+
+const mockLead = prisma.lead as unknown as Record<
+  "findUnique" | "update" | "updateMany",
+  ReturnType<typeof vi.fn>
+>;
+const mockGetMailTransport = getMailTransport as unknown as ReturnType<typeof vi.fn>;
+const mockUpdateCustomer = updateCustomer as unknown as ReturnType<typeof vi.fn>;
+const mockUpsertCustomer = upsertCustomer as unknown as ReturnType<typeof vi.fn>;
+const mockEnqueueLead = EspSyncService.enqueueLead as unknown as ReturnType<typeof vi.fn>;
+
+function createLead(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "lead-1",
+    email: "jane@example.com",
+    firstName: "Jane",
+    lastName: null,
+    campaignId: "campaign-1",
+    discountCode: "WELCOME-10",
+    shopifyCustomerId: BigInt(42),
+    confirmedAt: null,
+    campaign: { name: "Newsletter", templateType: "NEWSLETTER" },
+    store: { shopifyDomain: "shop.myshopify.com", accessToken: "token" },
+    ...overrides,
+  };
+}
+
+describe("double opt-in", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("SESSION_SECRET", "a".repeat(32));
+    vi.stubEnv("SHOPIFY_APP_URL", "https://app.example.com");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe("getDoubleOptInSettings", () => {
+    it("should only hold the discount when double opt-in is on", () => {
+      expect(getDoubleOptInSettings({ revealDiscountAfterConfirmation: true })).toEqual({
+        enabled: false,
+        revealDiscountAfterConfirmation: false,
+      });
+      expect(
+        getDoubleOptInSettings({ doubleOptInEnabled: true, revealDiscountAfterConfirmation: true })
+      ).toEqual({ enabled: true, revealDiscountAfterConfirmation: true });
+      expect(getDoubleOptInSettings(null).enabled).toBe(false);
+    });
+  });
+
+  describe("confirmation tokens", () => {
+    it("should round-trip the lead ID until the token expires", () => {
+      const issuedAt = new Date("2025-06-01T00:00:00.000Z");
+      const token = createConfirmationToken("lead-1", issuedAt);
+
+      expect(verifyConfirmationToken(token, issuedAt)).toBe("lead-1");
+
+      const expiry = new Date(
+        issuedAt.getTime() + (CONFIRMATION_TOKEN_TTL_DAYS * 24 * 60 * 60 + 1) * 1000
+      );
+      expect(verifyConfirmationToken(token, expiry)).toBeNull();
+    });
+
+    it("should reject tampered and malformed tokens", () => {
+      const [, expiresAt, signature] = createConfirmationToken("lead-1").split(".");
+
+      expect(verifyConfirmationToken(`lead-2.${expiresAt}.${signature}`)).toBeNull();
+      expect(verifyConfirmationToken(`lead-1.${Number(expiresAt) + 1}.${signature}`)).toBeNull();
+      expect(verifyConfirmationToken("lead-1")).toBeNull();
+      expect(verifyConfirmationToken("")).toBeNull();
+    });
+
+    it("should not accept tokens signed under another secret", () => {
+      const token = createConfirmationToken("lead-1");
+      vi.stubEnv("SESSION_SECRET", "b".repeat(32));
+
+      expect(verifyConfirmationToken(token)).toBeNull();
+    });
+  });
+
+  describe("canResendConfirmation", () => {
+    const now = new Date("2025-06-01T12:00:00.000Z");
+    const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+    it("should wait out the resend interval", () => {
+      expect(
+        canResendConfirmation({ confirmationSentAt: minutesAgo(1), confirmationSendCount: 1 }, now)
+      ).toBe(false);
+      expect(
+        canResendConfirmation(
+          {
+            confirmationSentAt: minutesAgo(CONFIRMATION_RESEND_INTERVAL_MINUTES),
+            confirmationSendCount: 1,
+          },
+          now
+        )
+      ).toBe(true);
+    });
+
+    it("should stop at the send cap", () => {
+      expect(
+        canResendConfirmation(
+          { confirmationSentAt: minutesAgo(60), confirmationSendCount: MAX_CONFIRMATION_SENDS },
+          now
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe("sendConfirmation", () => {
+    it("should email the confirmation link and stamp the lead", async () => {
+      const send = vi.fn().mockResolvedValue("message-1");
+      mockGetMailTransport.mockReturnValue({ driver: "file", send });
+      mockLead.findUnique.mockResolvedValue(createLead());
+
+      expect(await DoubleOptInService.sendConfirmation("lead-1")).toBe(true);
+
+      const message = send.mock.calls[0][0];
+      expect(message.to).toEqual(["jane@example.com"]);
+      expect(message.subject).toBe("Confirm your subscription to shop.myshopify.com");
+      const link = message.text.match(/https:\/\/app\.example\.com\/leads\/confirm\?token=(\S+)/);
+      expect(verifyConfirmationToken(decodeURIComponent(link[1]))).toBe("lead-1");
+      expect(mockLead.update).toHaveBeenCalledWith({
+        where: { id: "lead-1" },
+        data: { confirmationSentAt: expect.any(Date), confirmationSendCount: { increment: 1 } },
+      });
+    });
+
+    it("should skip sending without a mail transport", async () => {
+      mockGetMailTransport.mockReturnValue(null);
+
+      expect(await DoubleOptInService.sendConfirmation("lead-1")).toBe(false);
+      expect(mockLead.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should not throw when the mail transport is misconfigured", async () => {
+      mockGetMailTransport.mockImplementation(() => {
+        throw new Error("SMTP_HOST is required when MAIL_DRIVER=smtp");
+      });
+
+      expect(await DoubleOptInService.sendConfirmation("lead-1")).toBe(false);
+      expect(mockLead.update).not.toHaveBeenCalled();
+    });
+
+    it("should leave the lead unstamped when delivery fails", async () => {
+      mockGetMailTransport.mockReturnValue({
+        driver: "smtp",
+        send: vi.fn().mockRejectedValue(new Error("Connection refused")),
+      });
+      mockLead.findUnique.mockResolvedValue(createLead());
+
+      expect(await DoubleOptInService.sendConfirmation("lead-1")).toBe(false);
+      expect(mockLead.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("confirm", () => {
+    it("should record consent and subscribe the linked Shopify customer", async () => {
+      mockLead.findUnique.mockResolvedValue(createLead());
+      mockLead.updateMany.mockResolvedValue({ count: 1 });
+      mockUpdateCustomer.mockResolvedValue({ customer: {} });
+
+      const result = await DoubleOptInService.confirm(createConfirmationToken("lead-1"));
+
+      expect(result).toEqual({
+        newlyConfirmed: true,
+        email: "jane@example.com",
+        shopDomain: "shop.myshopify.com",
+        discountCode: "WELCOME-10",
+      });
+      expect(mockLead.updateMany).toHaveBeenCalledWith({
+        where: { id: "lead-1", confirmedAt: null },
+        data: {
+          confirmedAt: expect.any(Date),
+          marketingConsent: true,
+          consentedAt: expect.any(Date),
+        },
+      });
+      // The consent text agreed to at signup stays on the lead
+      expect(mockLead.updateMany.mock.calls[0][0].data).not.toHaveProperty("consentText");
+      expect(mockUpdateCustomer).toHaveBeenCalledWith({}, "gid://shopify/Customer/42", {
+        acceptsMarketing: true,
+        marketingOptInLevel: "CONFIRMED_OPT_IN",
+      });
+      expect(mockEnqueueLead).toHaveBeenCalledWith("lead-1");
+    });
+
+    it("should create the Shopify customer when the lead has none", async () => {
+      mockLead.findUnique.mockResolvedValue(createLead({ shopifyCustomerId: null }));
+      mockLead.updateMany.mockResolvedValue({ count: 1 });
+      mockUpsertCustomer.mockResolvedValue({
+        success: true,
+        shopifyCustomerId: "gid://shopify/Customer/77",
+      });
+
+      await DoubleOptInService.confirm(createConfirmationToken("lead-1"));
+
+      expect(mockUpsertCustomer).toHaveBeenCalledWith(
+        {},
+        expect.objectContaining({
+          email: "jane@example.com",
+          marketingConsent: true,
+          marketingOptInLevel: "CONFIRMED_OPT_IN",
+        })
+      );
+      expect(mockLead.update).toHaveBeenCalledWith({
+        where: { id: "lead-1" },
+        data: { shopifyCustomerId: BigInt(77) },
+      });
+    });
+
+    it("should not confirm a lead twice", async () => {
+      mockLead.findUnique.mockResolvedValue(createLead({ confirmedAt: new Date() }));
+
+      const result = await DoubleOptInService.confirm(createConfirmationToken("lead-1"));
+
+      expect(result.newlyConfirmed).toBe(false);
+      expect(mockLead.updateMany).not.toHaveBeenCalled();
+      expect(mockEnqueueLead).not.toHaveBeenCalled();
+    });
+
+    it("should reject invalid links and deleted leads", async () => {
+      await expect(DoubleOptInService.confirm("lead-1.1.bad")).rejects.toMatchObject({
+        code: "VALIDATION_FAILED",
+      });
+
+      mockLead.findUnique.mockResolvedValue(null);
+      await expect(
+        DoubleOptInService.confirm(createConfirmationToken("lead-1"))
+      ).rejects.toMatchObject({ code: "VALIDATION_FAILED" });
+    });
+  });
+});
@@ -0,0 +1,324 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+vi.mock("~/db.server", () => {
+  const prisma = {
+    lead: {
+      count: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    popupEvent: { findMany: vi.fn(), updateMany: vi.fn() },
+    campaignConversion: { findMany: vi.fn(), updateMany: vi.fn() },
+    leadOrder: { updateMany: vi.fn() },
+    webhookDelivery: { deleteMany: vi.fn() },
+    espSyncJob: { findMany: vi.fn() },
+    $transaction: vi.fn(),
+  };
+  prisma.$transaction.mockImplementation((callback: (tx: typeof prisma) => unknown) =>
+    callback(prisma)
+  );
+  return { default: prisma };
+});
+
+vi.mock("~/lib/logger.server", () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock("~/lib/shopify/customer.server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("~/lib/shopify/customer.server")>()),
+  upsertCustomer: vi.fn(),
+}));
+
+vi.mock("~/domains/integrations/services/esp-sync.server", () => ({
+  EspSyncService: { enqueueLead: vi.fn() },
+}));
+
+import prisma from "~/db.server";
+import { upsertCustomer } from "~/lib/shopify/customer.server";
+import { EspSyncService } from "~/domains/integrations/services/esp-sync.server";
+import {
+  LeadManagementService,
+  buildLeadWhere,
+} from "~/domains/leads/services/lead-management.server";
+import { LeadFiltersSchema, MAX_BULK_LEADS } from "~/domains/leads/types";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+
+const mockPrisma = prisma as unknown as {
+  lead: Record<
+    "count" | "findMany" | "findFirst" | "update" | "deleteMany",
+    ReturnType<typeof vi.fn>
+  >;
+  popupEvent: Record<"findMany" | "updateMany", ReturnType<typeof vi.fn>>;
+  campaignConversion: Record<"findMany" | "updateMany", ReturnType<typeof vi.fn>>;
+  leadOrder: { updateMany: ReturnType<typeof vi.fn> };
+  webhookDelivery: { deleteMany: ReturnType<typeof vi.fn> };
+  espSyncJob: { findMany: ReturnType<typeof vi.fn> };
+};
+const mockUpsertCustomer = upsertCustomer as unknown as ReturnType<typeof vi.fn>;
+const mockEnqueueLead = EspSyncService.enqueueLead as unknown as ReturnType<typeof vi.fn>;
+const admin = {} as AdminApiContext;
+
+function createLead(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "lead-1",
+    email: "jane@example.com",
+    firstName: "Jane",
+    lastName: "Doe",
+    phone: null,
+    campaignId: "campaign-1",
+    marketingConsent: true,
+    confirmationSentAt: null,
+    confirmedAt: null,
+    discountCode: "SPIN-123",
+    discountUsedAt: null,
+    shopifyCustomerId: BigInt(42),
+    submittedAt: new Date("2025-06-01T10:00:00.000Z"),
+    campaign: { name: "Spring sale", templateType: "SPIN_TO_WIN" },
+    ...overrides,
+  };
+}
+
+describe("buildLeadWhere", () => {
+  it("should match every search term against email and names", () => {
+    const where = buildLeadWhere(
+      "store-1",
+      LeadFiltersSchema.parse({ q: " jane  doe ", consent: "consented" })
+    );
+
+    expect(where).toMatchObject({ storeId: "store-1", marketingConsent: true });
+    expect(where.AND).toHaveLength(2);
+    expect(where.AND).toContainEqual({
+      OR: [
+        { email: { contains: "doe", mode: "insensitive" } },
+        { firstName: { contains: "doe", mode: "insensitive" } },
+        { lastName: { contains: "doe", mode: "insensitive" } },
+      ],
+    });
+  });
+
+  it("should filter by campaign, signup days and discount use", () => {
+    const where = buildLeadWhere(
+      "store-1",
+      LeadFiltersSchema.parse({
+        campaignId: "campaign-1",
+        discount: "unused",
+        from: "2025-06-01",
+        to: "2025-06-30",
+      })
+    );
+
+    expect(where).toEqual({
+      storeId: "store-1",
+      campaignId: "campaign-1",
+      submittedAt: {
+        gte: new Date("2025-06-01T00:00:00.000Z"),
+        lte: new Date("2025-06-30T23:59:59.999Z"),
+      },
+      AND: [{ discountCode: { not: null }, discountUsedAt: null }],
+    });
+  });
+
+  it("should filter leads still awaiting their double opt-in confirmation", () => {
+    expect(
+      buildLeadWhere("store-1", LeadFiltersSchema.parse({ consent: "awaiting_confirmation" }))
+    ).toEqual({ storeId: "store-1", confirmationSentAt: { not: null }, confirmedAt: null });
+  });
+
+  it("should reject a date range that ends before it starts", () => {
+    expect(LeadFiltersSchema.safeParse({ from: "2025-06-30", to: "2025-06-01" }).success).toBe(
+      false
+    );
+  });
+});
+
+describe("LeadManagementService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("listLeads", () => {
+    it("should return one page with its position", async () => {
+      mockPrisma.lead.count.mockResolvedValue(120);
+      mockPrisma.lead.findMany.mockResolvedValue([createLead()]);
+
+      const page = await LeadManagementService.listLeads(
+        "store-1",
+        LeadFiltersSchema.parse({ page: "2" })
+      );
+
+      expect(mockPrisma.lead.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ skip: 50, take: 50 })
+      );
+      expect(page).toMatchObject({ total: 120, page: 2, pageCount: 3 });
+      expect(page.leads[0]).toMatchObject({
+        campaignName: "Spring sale",
+        shopifyCustomerId: "42",
+        submittedAt: "2025-06-01T10:00:00.000Z",
+      });
+    });
+  });
+
+  describe("getLead", () => {
+    it("should return null for leads of other stores", async () => {
+      mockPrisma.lead.findFirst.mockResolvedValue(null);
+
+      expect(await LeadManagementService.getLead("store-1", "lead-9")).toBeNull();
+      expect(mockPrisma.lead.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: "lead-9", storeId: "store-1" } })
+      );
+    });
+
+    it("should load orders attributed through the lead's code or customer", async () => {
+      mockPrisma.lead.findFirst.mockResolvedValue(
+        createLead({ sessionId: "session-1", visitorId: null })
+      );
+      mockPrisma.popupEvent.findMany.mockResolvedValue([]);
+      mockPrisma.campaignConversion.findMany.mockResolvedValue([
+        {
+          orderId: "1001",
+          orderNumber: "#1001",
+          campaignId: "campaign-1",
+          totalPrice: "80.00",
+          netRevenue: "60.00",
+          discountCodes: ["SPIN-123"],
+          source: "discount_code",
+          cancelledAt: null,
+          createdAt: new Date("2025-06-02T00:00:00.000Z"),
+          campaign: { name: "Spring sale" },
+        },
+      ]);
+      mockPrisma.espSyncJob.findMany.mockResolvedValue([
+        {
+          status: "failed",
+          lastError: "Invalid API key",
+          deliveredAt: null,
+          integration: { provider: "klaviyo" },
+        },
+      ]);
+
+      const lead = await LeadManagementService.getLead("store-1", "lead-1");
+
+      expect(mockPrisma.campaignConversion.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            campaign: { storeId: "store-1" },
+            OR: [{ discountCodes: { has: "SPIN-123" } }, { customerId: "42" }],
+          },
+        })
+      );
+      expect(mockPrisma.popupEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { storeId: "store-1", OR: [{ leadId: "lead-1" }, { sessionId: "session-1" }] },
+        })
+      );
+      expect(lead?.orders[0]).toMatchObject({ orderNumber: "#1001", netRevenue: 60 });
+      expect(lead?.syncs).toEqual([
+        { provider: "klaviyo", status: "failed", lastError: "Invalid API key", deliveredAt: null },
+      ]);
+    });
+  });
+
+  describe("resyncLeads", () => {
+    it("should upsert the Shopify customer and queue ESP deliveries", async () => {
+      mockPrisma.lead.findMany.mockResolvedValue([
+        createLead(),
+        createLead({ id: "lead-2", email: "spin-abc@anonymous.local" }),
+      ]);
+      mockUpsertCustomer.mockResolvedValue({
+        success: true,
+        shopifyCustomerId: "gid://shopify/Customer/77",
+      });
+      mockEnqueueLead.mockResolvedValue(2);
+
+      const result = await LeadManagementService.resyncLeads(
+        "store-1",
+        ["lead-1", "lead-2"],
+        admin
+      );
+
+      expect(result).toEqual({ shopify: 1, shopifyFailed: 0, espJobs: 2 });
+      expect(mockUpsertCustomer).toHaveBeenCalledTimes(1);
+      expect(mockUpsertCustomer).toHaveBeenCalledWith(
+        admin,
+        expect.objectContaining({
+          email: "jane@example.com",
+          marketingConsent: true,
+          campaignName: "Spring sale",
+          discountCode: "SPIN-123",
+        })
+      );
+      expect(mockPrisma.lead.update).toHaveBeenCalledWith({
+        where: { id: "lead-1" },
+        data: { shopifyCustomerId: BigInt(77) },
+      });
+    });
+
+    it("should count Shopify failures and still queue the ESPs", async () => {
+      mockPrisma.lead.findMany.mockResolvedValue([createLead()]);
+      mockUpsertCustomer.mockResolvedValue({ success: false, errors: ["Throttled"] });
+      mockEnqueueLead.mockResolvedValue(1);
+
+      const result = await LeadManagementService.resyncLeads("store-1", ["lead-1"], admin);
+
+      expect(result).toEqual({ shopify: 0, shopifyFailed: 1, espJobs: 1 });
+      expect(mockPrisma.lead.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject empty and oversized selections", async () => {
+      await expect(LeadManagementService.resyncLeads("store-1", [], admin)).rejects.toMatchObject({
+        code: "VALIDATION_FAILED",
+      });
+      const tooMany = Array.from({ length: MAX_BULK_LEADS + 1 }, (_, i) => `lead-${i}`);
+      await expect(LeadManagementService.deleteLeads("store-1", tooMany)).rejects.toMatchObject({
+        code: "VALIDATION_FAILED",
+      });
+    });
+  });
+
+  describe("deleteLeads", () => {
+    it("should unlink events and orders, drop webhook deliveries, then delete the store's leads", async () => {
+      mockPrisma.lead.findMany.mockResolvedValue([
+        { id: "lead-1", email: "Jane@Example.com", shopifyCustomerId: BigInt(42) },
+      ]);
+
+      const deleted = await LeadManagementService.deleteLeads("store-1", ["lead-1", "lead-x"]);
+
+      expect(deleted).toBe(1);
+      expect(mockPrisma.lead.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { storeId: "store-1", id: { in: ["lead-1", "lead-x"] } } })
+      );
+      expect(mockPrisma.popupEvent.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { storeId: "store-1", leadId: { in: ["lead-1"] } },
+          data: expect.objectContaining({ ipAddress: null, visitorId: null }),
+        })
+      );
+      expect(mockPrisma.campaignConversion.updateMany).toHaveBeenCalledWith({
+        where: { customerId: { in: ["42"] }, campaign: { storeId: "store-1" } },
+        data: { customerId: null },
+      });
+      expect(mockPrisma.leadOrder.updateMany).toHaveBeenCalledWith({
+        where: {
+          storeId: "store-1",
+          OR: [{ customerId: { in: ["42"] } }, { email: { in: ["jane@example.com"] } }],
+        },
+        data: { customerId: null, email: null },
+      });
+      expect(mockPrisma.webhookDelivery.deleteMany).toHaveBeenCalledWith({
+        where: { storeId: "store-1", eventKey: { in: ["lead.created:lead-1"] } },
+      });
+      expect(mockPrisma.lead.deleteMany).toHaveBeenCalledWith({
+        where: { storeId: "store-1", id: { in: ["lead-1"] } },
+      });
+    });
+
+    it("should do nothing when none of the leads belong to the store", async () => {
+      mockPrisma.lead.findMany.mockResolvedValue([]);
+
+      expect(await LeadManagementService.deleteLeads("store-1", ["lead-9"])).toBe(0);
+      expect(mockPrisma.lead.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    apiKey: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      count: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+import prisma from "~/db.server";
+import { ApiKeyService, hashApiKey } from "~/domains/public-api/services/api-key.server";
+import { MAX_API_KEYS } from "~/domains/public-api/types";
+
+const mockPrisma = prisma as unknown as {
+  apiKey: {
+    findMany: ReturnType<typeof vi.fn>;
+    findUnique: ReturnType<typeof vi.fn>;
+    findUniqueOrThrow: ReturnType<typeof vi.fn>;
+    count: ReturnType<typeof vi.fn>;
+    create: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
+  };
+};
+
+const VALID_KEY = `rbk_${"a".repeat(48)}`;
+
+function keyRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "key_1",
+    name: "CI",
+    keyHint: "rbk_aaaaaa",
+    scopes: ["analytics:read"],
+    lastUsedAt: null,
+    rotatedAt: null,
+    revokedAt: null,
+    createdAt: new Date("2025-01-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+function authRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "key_1",
+    storeId: "store_1",
+    scopes: ["analytics:read"],
+    lastUsedAt: null,
+    revokedAt: null,
+    store: { shopifyDomain: "shop.myshopify.com", isActive: true },
+    ...overrides,
+  };
+}
+
+describe("ApiKeyService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("createKey", () => {
+    it("stores only the hash and returns the key once", async () => {
+      mockPrisma.apiKey.count.mockResolvedValue(0);
+      mockPrisma.apiKey.create.mockImplementation(async ({ data }) => keyRow(data));
+
+      const { apiKey, secret } = await ApiKeyService.createKey("store_1", {
+        name: " CI ",
+        scopes: ["analytics:read", "analytics:read"],
+      });
+
+      expect(secret).toMatch(/^rbk_[A-Za-z0-9_-]{48}$/);
+      const data = mockPrisma.apiKey.create.mock.calls[0][0].data;
+      expect(data.keyHash).toBe(hashApiKey(secret));
+      expect(JSON.stringify(data)).not.toContain(secret);
+      expect(data.keyHint).toBe(secret.slice(0, 10));
+      expect(apiKey).toMatchObject({ name: "CI", scopes: ["analytics:read"] });
+    });
+
+    it("rejects unknown scopes", async () => {
+      await expect(
+        ApiKeyService.createKey("store_1", { name: "CI", scopes: ["admin"] })
+      ).rejects.toMatchObject({ code: "VALIDATION_FAILED" });
+      expect(mockPrisma.apiKey.create).not.toHaveBeenCalled();
+    });
+
+    it("enforces the active key limit", async () => {
+      mockPrisma.apiKey.count.mockResolvedValue(MAX_API_KEYS);
+
+      await expect(
+        ApiKeyService.createKey("store_1", { name: "CI", scopes: ["leads:read"] })
+      ).rejects.toMatchObject({ code: "VALIDATION_FAILED" });
+    });
+  });
+
+  describe("rotateKey", () => {
+    it("replaces the hash of an active key", async () => {
+      mockPrisma.apiKey.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.apiKey.findUniqueOrThrow.mockResolvedValue(keyRow());
+
+      const { secret } = await ApiKeyService.rotateKey("store_1", "key_1");
+
+      const call = mockPrisma.apiKey.updateMany.mock.calls[0][0];
+      expect(call.where).toEqual({ id: "key_1", storeId: "store_1", revokedAt: null });
+      expect(call.data.keyHash).toBe(hashApiKey(secret));
+      expect(call.data.rotatedAt).toBeInstanceOf(Date);
+    });
+
+    it("throws NOT_FOUND for revoked or foreign keys", async () => {
+      mockPrisma.apiKey.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(ApiKeyService.rotateKey("store_1", "key_1")).rejects.toMatchObject({
+        code: "NOT_FOUND",
+      });
+    });
+  });
+
+  describe("authenticate", () => {
+    const now = new Date("2025-06-01T12:00:00Z");
+
+    it("resolves a key to its store and scopes", async () => {
+      mockPrisma.apiKey.findUnique.mockResolvedValue(authRow());
+
+      const context = await ApiKeyService.authenticate(VALID_KEY, now);
+
+      expect(mockPrisma.apiKey.findUnique.mock.calls[0][0].where).toEqual({
+        keyHash: hashApiKey(VALID_KEY),
+      });
+      expect(context).toEqual({
+        keyId: "key_1",
+        storeId: "store_1",
+        shopDomain: "shop.myshopify.com",
+        scopes: ["analytics:read"],
+      });
+      expect(mockPrisma.apiKey.update).toHaveBeenCalledWith({
+        where: { id: "key_1" },
+        data: { lastUsedAt: now },
+      });
+    });
+
+    it("drops stored scopes that are no longer known", async () => {
+      mockPrisma.apiKey.findUnique.mockResolvedValue(
+        authRow({ scopes: ["analytics:read", "admin:write"] })
+      );
+
+      const context = await ApiKeyService.authenticate(VALID_KEY, now);
+
+      expect(context?.scopes).toEqual(["analytics:read"]);
+    });
+
+    it("rejects malformed keys without a lookup", async () => {
+      expect(await ApiKeyService.authenticate("not-a-key", now)).toBeNull();
+      expect(mockPrisma.apiKey.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("rejects revoked keys and uninstalled stores", async () => {
+      mockPrisma.apiKey.findUnique.mockResolvedValueOnce(authRow({ revokedAt: now }));
+      expect(await ApiKeyService.authenticate(VALID_KEY, now)).toBeNull();
+
+      mockPrisma.apiKey.findUnique.mockResolvedValueOnce(
+        authRow({ store: { shopifyDomain: "shop.myshopify.com", isActive: false } })
+      );
+      expect(await ApiKeyService.authenticate(VALID_KEY, now)).toBeNull();
+    });
+
+    it("writes lastUsedAt at most once a minute", async () => {
+      mockPrisma.apiKey.findUnique.mockResolvedValue(
+        authRow({ lastUsedAt: new Date(now.getTime() - 30_000) })
+      );
+
+      await ApiKeyService.authenticate(VALID_KEY, now);
+
+      expect(mockPrisma.apiKey.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { buildOpenApiDocument } from "~/domains/public-api/openapi";
+
+type Operation = { "x-scope"?: string; security?: unknown[] };
+
+describe("buildOpenApiDocument", () => {
+  const doc = buildOpenApiDocument("https://app.example.com/") as {
+    servers: Array<{ url: string }>;
+    paths: Record<string, Record<string, Operation>>;
+    components: { schemas: Record<string, { type?: string; properties?: object }> };
+  };
+
+  it("points at the versioned API of the deployment", () => {
+    expect(doc.servers).toEqual([{ url: "https://app.example.com/api/v1" }]);
+  });
+
+  it("documents the scope of every operation", () => {
+    const operations = Object.values(doc.paths).flatMap((path) =>
+      Object.entries(path)
+        .filter(([method]) => method !== "parameters")
+        .map(([, operation]) => operation)
+    );
+
+    expect(operations.length).toBeGreaterThanOrEqual(12);
+    for (const operation of operations) {
+      expect(operation["x-scope"]).toMatch(/^(analytics:read|campaigns:write|leads:read)$/);
+      expect(operation.security).toEqual([{ apiKey: [] }]);
+    }
+  });
+
+  it("generates request bodies from the validation schemas", () => {
+    const create = doc.components.schemas.CampaignCreate;
+    expect(create.type).toBe("object");
+    expect(create.properties).toHaveProperty("name");
+    expect(create.properties).toHaveProperty("templateType");
+    expect(doc.components.schemas.ExperimentCreate.properties).toHaveProperty("name");
+  });
+});
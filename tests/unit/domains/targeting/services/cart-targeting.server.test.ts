@@ -0,0 +1,111 @@
+/**
+ * Unit Tests for Cart Targeting Service
+ *
+ * Tests product attribute resolution for cart-contents targeting:
+ * - Cached products are served from Redis
+ * - Missing products are fetched from Shopify and cached
+ * - Failures resolve to null (fail-open in the filter)
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const pipelineSetex = vi.fn();
+
+vi.mock("~/db.server", () => ({
+  default: {
+    store: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("~/lib/redis.server", () => ({
+  redis: {
+    mget: vi.fn(),
+    pipeline: vi.fn(() => ({ setex: pipelineSetex, exec: vi.fn() })),
+  },
+  REDIS_PREFIXES: { PRODUCT_ATTRIBUTES: "product_attributes" },
+  REDIS_TTL: { HOUR: 3600 },
+}));
+
+vi.mock("~/lib/auth-helpers.server", () => ({
+  createAdminApiContext: vi.fn(() => ({ graphql: vi.fn() })),
+}));
+
+vi.mock("~/lib/shopify/product-tags.server", () => ({
+  fetchProductAttributes: vi.fn(),
+}));
+
+import { CartTargetingService } from "~/domains/targeting/services/cart-targeting.server";
+import { fetchProductAttributes } from "~/lib/shopify/product-tags.server";
+import { redis } from "~/lib/redis.server";
+import prisma from "~/db.server";
+
+// ==========================================================================
+// TESTS
+// ==========================================================================
+
+describe("CartTargetingService.getProductAttributes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.store.findUnique).mockResolvedValue({
+      shopifyDomain: "test.myshopify.com",
+      accessToken: "token",
+    } as any);
+  });
+
+  it("should serve cached products without calling Shopify", async () => {
+    vi.mocked(redis!.mget).mockResolvedValue([
+      JSON.stringify({ tags: ["gift"], collectionIds: ["900"] }),
+    ]);
+
+    const result = await CartTargetingService.getProductAttributes("store-1", ["101"]);
+
+    expect(redis!.mget).toHaveBeenCalledWith("product_attributes:store-1:101");
+    expect(fetchProductAttributes).not.toHaveBeenCalled();
+    expect(result?.get("101")).toEqual({ tags: ["gift"], collectionIds: ["900"] });
+  });
+
+  it("should fetch missing products from Shopify and cache them", async () => {
+    vi.mocked(redis!.mget).mockResolvedValue([null, null]);
+    vi.mocked(fetchProductAttributes).mockResolvedValue(
+      new Map([
+        [
+          "gid://shopify/Product/101",
+          { tags: ["gift"], collectionIds: ["gid://shopify/Collection/900"] },
+        ],
+      ])
+    );
+
+    const result = await CartTargetingService.getProductAttributes("store-1", [
+      "101",
+      "gid://shopify/Product/102",
+    ]);
+
+    expect(fetchProductAttributes).toHaveBeenCalledWith(expect.anything(), ["101", "102"]);
+    expect(result?.get("101")).toEqual({ tags: ["gift"], collectionIds: ["900"] });
+    // Deleted products are cached as empty so they are not refetched
+    expect(result?.get("102")).toEqual({ tags: [], collectionIds: [] });
+    expect(pipelineSetex).toHaveBeenCalledTimes(2);
+  });
+
+  it("should return null when Shopify cannot be reached", async () => {
+    vi.mocked(redis!.mget).mockResolvedValue([null]);
+    vi.mocked(fetchProductAttributes).mockRejectedValue(new Error("Throttled"));
+
+    const result = await CartTargetingService.getProductAttributes("store-1", ["101"]);
+
+    expect(result).toBeNull();
+    expect(pipelineSetex).not.toHaveBeenCalled();
+  });
+
+  it("should return null when the store has no access token", async () => {
+    vi.mocked(redis!.mget).mockResolvedValue([null]);
+    vi.mocked(prisma.store.findUnique).mockResolvedValue(null);
+
+    const result = await CartTargetingService.getProductAttributes("store-1", ["101"]);
+
+    expect(result).toBeNull();
+    expect(fetchProductAttributes).not.toHaveBeenCalled();
+  });
+});
@@ -702,6 +702,46 @@ describe("FrequencyCapService", () => {
       expect(status.counts.day).toBe(3);
     });
   });
-});
 
+  describe("simulated state", () => {
+    it("should use simulated counts instead of Redis", async () => {
+      const campaign = createMockCampaign("campaign-1", { max_triggers_per_session: 2 });
+
+      const result = await FrequencyCapService.checkFrequencyCapping(
+        campaign,
+        mockContext,
+        undefined,
+        { counts: { session: 2 } }
+      );
+
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain("Session limit exceeded");
+    });
+
+    it("should ignore recorded views when simulating a fresh visitor", async () => {
+      const campaign = createMockCampaign("campaign-1", { max_triggers_per_session: 1 });
+      await FrequencyCapService.recordDisplay("campaign-1", mockContext, {
+        max_triggers_per_session: 1,
+      });
+
+      const result = await FrequencyCapService.checkFrequencyCapping(campaign, mockContext, undefined, {});
 
+      expect(result.allowed).toBe(true);
+      expect(result.currentCounts.session).toBe(0);
+    });
+
+    it("should block while a simulated cooldown is running", async () => {
+      const campaign = createMockCampaign("campaign-1", { cooldown_between_triggers: 300 });
+
+      const result = await FrequencyCapService.checkFrequencyCapping(
+        campaign,
+        mockContext,
+        undefined,
+        { cooldownRemaining: 120 }
+      );
+
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toBe("In cooldown period");
+    });
+  });
+});
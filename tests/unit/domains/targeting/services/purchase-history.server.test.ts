@@ -0,0 +1,142 @@
+/**
+ * Unit Tests for Purchase History Service
+ *
+ * Tests purchase history resolution for targeting:
+ * - Cached histories are served from Redis
+ * - Shopify stats are enriched with CampaignConversion records
+ * - Failures on both sides resolve to null (fail-open in the filter)
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    store: {
+      findUnique: vi.fn(),
+    },
+    campaignConversion: {
+      aggregate: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("~/lib/redis.server", () => ({
+  redis: {
+    get: vi.fn(),
+    setex: vi.fn(),
+    del: vi.fn(),
+  },
+  REDIS_PREFIXES: { PURCHASE_HISTORY: "purchase_history" },
+  REDIS_TTL: { HOUR: 3600 },
+}));
+
+vi.mock("~/lib/auth-helpers.server", () => ({
+  createAdminApiContext: vi.fn(() => ({ graphql: vi.fn() })),
+}));
+
+vi.mock("~/lib/shopify/customer.server", () => ({
+  extractCustomerId: vi.fn((gid: string) => gid.split("/").pop()),
+  getCustomerPurchaseHistory: vi.fn(),
+}));
+
+import { PurchaseHistoryService } from "~/domains/targeting/services/purchase-history.server";
+import { getCustomerPurchaseHistory } from "~/lib/shopify/customer.server";
+import { redis } from "~/lib/redis.server";
+import prisma from "~/db.server";
+
+// ==========================================================================
+// TEST HELPERS
+// ==========================================================================
+
+function mockConversions(count: number, total = 0, lastAt: Date | null = null) {
+  vi.mocked(prisma.campaignConversion.aggregate).mockResolvedValue({
+    _count: { _all: count },
+    _sum: { totalPrice: total },
+    _max: { createdAt: lastAt },
+  } as any);
+}
+
+// ==========================================================================
+// TESTS
+// ==========================================================================
+
+describe("PurchaseHistoryService.getPurchaseHistory", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(redis!.get).mockResolvedValue(null);
+    vi.mocked(prisma.store.findUnique).mockResolvedValue({
+      shopifyDomain: "test.myshopify.com",
+      accessToken: "token",
+    } as any);
+  });
+
+  it("should return the cached history without calling Shopify", async () => {
+    vi.mocked(redis!.get).mockResolvedValue(
+      JSON.stringify({ orderCount: 2, totalSpent: 80, lastOrderAt: "2024-06-01T00:00:00.000Z" })
+    );
+
+    const history = await PurchaseHistoryService.getPurchaseHistory("store-1", "123");
+
+    expect(history).toEqual({
+      orderCount: 2,
+      totalSpent: 80,
+      lastOrderAt: new Date("2024-06-01T00:00:00.000Z"),
+    });
+    expect(getCustomerPurchaseHistory).not.toHaveBeenCalled();
+  });
+
+  it("should merge Shopify stats with conversions and cache the result", async () => {
+    vi.mocked(getCustomerPurchaseHistory).mockResolvedValue({
+      history: { numberOfOrders: 4, amountSpent: 320, lastOrderAt: "2024-05-01T00:00:00Z" },
+    });
+    mockConversions(1, 50, new Date("2024-06-10T00:00:00Z"));
+
+    const history = await PurchaseHistoryService.getPurchaseHistory(
+      "store-1",
+      "gid://shopify/Customer/123"
+    );
+
+    expect(getCustomerPurchaseHistory).toHaveBeenCalledWith(expect.anything(), "123");
+    expect(prisma.campaignConversion.aggregate).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { customerId: "123", campaign: { storeId: "store-1" } } })
+    );
+    expect(history).toEqual({
+      orderCount: 4,
+      totalSpent: 320,
+      lastOrderAt: new Date("2024-06-10T00:00:00Z"),
+    });
+    expect(redis!.setex).toHaveBeenCalledWith(
+      "purchase_history:store-1:123",
+      3600,
+      expect.any(String)
+    );
+  });
+
+  it("should fall back to conversions when Shopify is unavailable", async () => {
+    vi.mocked(getCustomerPurchaseHistory).mockResolvedValue({ errors: ["Access denied"] });
+    mockConversions(2, 150, new Date("2024-06-10T00:00:00Z"));
+
+    const history = await PurchaseHistoryService.getPurchaseHistory("store-1", "123");
+
+    expect(history?.orderCount).toBe(2);
+    expect(history?.totalSpent).toBe(150);
+  });
+
+  it("should return null when no source has data", async () => {
+    vi.mocked(getCustomerPurchaseHistory).mockResolvedValue({ errors: ["Access denied"] });
+    mockConversions(0);
+
+    const history = await PurchaseHistoryService.getPurchaseHistory("store-1", "123");
+
+    expect(history).toBeNull();
+    expect(redis!.setex).not.toHaveBeenCalled();
+  });
+});
+
+describe("PurchaseHistoryService.invalidate", () => {
+  it("should delete the cached history", async () => {
+    await PurchaseHistoryService.invalidate("store-1", "123");
+
+    expect(redis!.del).toHaveBeenCalledWith("purchase_history:store-1:123");
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit Tests for Cart Contents Matching
+ *
+ * Tests cart-contents targeting rules:
+ * - Subtotal / item count bounds
+ * - Contains (or excludes) products, collections and tags
+ * - Discount already applied
+ * - Fail-open when product attributes are unavailable
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  matchesCartContents,
+  needsProductAttributes,
+  toNumericId,
+  type CartSnapshot,
+  type ProductAttributesLookup,
+} from "~/domains/targeting/utils/cart-contents";
+
+// ==========================================================================
+// TEST HELPERS
+// ==========================================================================
+
+const cart: CartSnapshot = {
+  subtotal: 80,
+  itemCount: 3,
+  productIds: ["101", "102"],
+  discountApplied: false,
+};
+
+const attributes: ProductAttributesLookup = new Map([
+  ["101", { tags: ["Gift", "summer"], collectionIds: ["900"] }],
+  ["102", { tags: [], collectionIds: ["901"] }],
+]);
+
+// ==========================================================================
+// TESTS
+// ==========================================================================
+
+describe("toNumericId", () => {
+  it("should strip the GID prefix", () => {
+    expect(toNumericId("gid://shopify/Product/123")).toBe("123");
+    expect(toNumericId("123")).toBe("123");
+  });
+});
+
+describe("needsProductAttributes", () => {
+  it("should only require attributes for collections and tags", () => {
+    expect(needsProductAttributes({ enabled: true, product_ids: ["1"] })).toBe(false);
+    expect(needsProductAttributes({ enabled: true, collection_ids: ["1"] })).toBe(true);
+    expect(needsProductAttributes({ enabled: true, product_tags: ["gift"] })).toBe(true);
+  });
+});
+
+describe("matchesCartContents", () => {
+  it("should match an enabled rule without conditions", () => {
+    expect(matchesCartContents({ enabled: true }, cart, null)).toBe(true);
+  });
+
+  it("should check subtotal bounds", () => {
+    expect(matchesCartContents({ enabled: true, min_subtotal: 50 }, cart, null)).toBe(true);
+    expect(matchesCartContents({ enabled: true, min_subtotal: 100 }, cart, null)).toBe(false);
+    expect(matchesCartContents({ enabled: true, max_subtotal: 79.99 }, cart, null)).toBe(false);
+  });
+
+  it("should check item count bounds, including empty carts", () => {
+    expect(matchesCartContents({ enabled: true, min_items: 3 }, cart, null)).toBe(true);
+    expect(matchesCartContents({ enabled: true, max_items: 2 }, cart, null)).toBe(false);
+    expect(
+      matchesCartContents(
+        { enabled: true, max_items: 0 },
+        { subtotal: 0, itemCount: 0, productIds: [] },
+        null
+      )
+    ).toBe(true);
+  });
+
+  it("should match carts containing a selected product GID", () => {
+    const rule = { enabled: true, product_ids: ["gid://shopify/Product/102"] };
+    expect(matchesCartContents(rule, cart, null)).toBe(true);
+    expect(
+      matchesCartContents({ enabled: true, product_ids: ["gid://shopify/Product/999"] }, cart, null)
+    ).toBe(false);
+  });
+
+  it("should match carts containing a product from a selected collection", () => {
+    const rule = { enabled: true, collection_ids: ["gid://shopify/Collection/901"] };
+    expect(matchesCartContents(rule, cart, attributes)).toBe(true);
+    expect(
+      matchesCartContents(
+        { enabled: true, collection_ids: ["gid://shopify/Collection/555"] },
+        cart,
+        attributes
+      )
+    ).toBe(false);
+  });
+
+  it("should match product tags case-insensitively", () => {
+    expect(matchesCartContents({ enabled: true, product_tags: ["gift"] }, cart, attributes)).toBe(
+      true
+    );
+    expect(matchesCartContents({ enabled: true, product_tags: ["sale"] }, cart, attributes)).toBe(
+      false
+    );
+  });
+
+  it("should invert the product check for 'none'", () => {
+    const rule = { enabled: true, product_tags: ["gift"], product_match: "none" as const };
+    expect(matchesCartContents(rule, cart, attributes)).toBe(false);
+    expect(matchesCartContents({ ...rule, product_tags: ["sale"] }, cart, attributes)).toBe(true);
+  });
+
+  it("should check whether a discount is already applied", () => {
+    expect(matchesCartContents({ enabled: true, discount_applied: false }, cart, null)).toBe(true);
+    expect(matchesCartContents({ enabled: true, discount_applied: true }, cart, null)).toBe(false);
+    expect(
+      matchesCartContents(
+        { enabled: true, discount_applied: true },
+        { ...cart, discountApplied: undefined },
+        null
+      )
+    ).toBe(true);
+  });
+
+  it("should fail open when tags or collections cannot be looked up", () => {
+    expect(matchesCartContents({ enabled: true, product_tags: ["sale"] }, cart, null)).toBe(true);
+    expect(
+      matchesCartContents(
+        { enabled: true, product_tags: ["sale"], product_match: "none" },
+        cart,
+        null
+      )
+    ).toBe(true);
+  });
+
+  it("should still apply the other bounds when attributes are unavailable", () => {
+    expect(
+      matchesCartContents({ enabled: true, product_tags: ["gift"], min_subtotal: 100 }, cart, null)
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit Tests for Purchase History Matching
+ *
+ * Tests purchase-history targeting rules:
+ * - Has purchased / order count / total spent bounds
+ * - Days since last order (never matches customers without orders)
+ * - Merging Shopify stats with our own conversions
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  EMPTY_PURCHASE_HISTORY,
+  daysSince,
+  matchesPurchaseHistory,
+  mergePurchaseHistory,
+} from "~/domains/targeting/utils/purchase-history";
+
+// ==========================================================================
+// TEST HELPERS
+// ==========================================================================
+
+const NOW = new Date("2024-06-15T12:00:00Z");
+
+function daysAgo(days: number): Date {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+const repeatCustomer = { orderCount: 3, totalSpent: 240, lastOrderAt: daysAgo(45) };
+
+// ==========================================================================
+// TESTS
+// ==========================================================================
+
+describe("daysSince", () => {
+  it("should count whole days", () => {
+    expect(daysSince(daysAgo(10), NOW)).toBe(10);
+    expect(daysSince(new Date("2024-06-15T00:00:00Z"), NOW)).toBe(0);
+  });
+});
+
+describe("matchesPurchaseHistory", () => {
+  it("should match everyone when no bounds are set", () => {
+    expect(matchesPurchaseHistory({ enabled: true }, repeatCustomer, NOW)).toBe(true);
+    expect(matchesPurchaseHistory({ enabled: true }, EMPTY_PURCHASE_HISTORY, NOW)).toBe(true);
+  });
+
+  it("should check has_purchased", () => {
+    expect(
+      matchesPurchaseHistory({ enabled: true, has_purchased: true }, repeatCustomer, NOW)
+    ).toBe(true);
+    expect(
+      matchesPurchaseHistory({ enabled: true, has_purchased: true }, EMPTY_PURCHASE_HISTORY, NOW)
+    ).toBe(false);
+    expect(
+      matchesPurchaseHistory({ enabled: true, has_purchased: false }, EMPTY_PURCHASE_HISTORY, NOW)
+    ).toBe(true);
+  });
+
+  it("should check the order count range", () => {
+    expect(matchesPurchaseHistory({ enabled: true, min_orders: 3 }, repeatCustomer, NOW)).toBe(
+      true
+    );
+    expect(matchesPurchaseHistory({ enabled: true, min_orders: 4 }, repeatCustomer, NOW)).toBe(
+      false
+    );
+    expect(matchesPurchaseHistory({ enabled: true, max_orders: 2 }, repeatCustomer, NOW)).toBe(
+      false
+    );
+  });
+
+  it("should check the total spent range", () => {
+    expect(
+      matchesPurchaseHistory({ enabled: true, min_total_spent: 200 }, repeatCustomer, NOW)
+    ).toBe(true);
+    expect(
+      matchesPurchaseHistory({ enabled: true, max_total_spent: 200 }, repeatCustomer, NOW)
+    ).toBe(false);
+  });
+
+  it("should check days since last order", () => {
+    expect(
+      matchesPurchaseHistory({ enabled: true, min_days_since_last_order: 30 }, repeatCustomer, NOW)
+    ).toBe(true);
+    expect(
+      matchesPurchaseHistory({ enabled: true, min_days_since_last_order: 60 }, repeatCustomer, NOW)
+    ).toBe(false);
+    expect(
+      matchesPurchaseHistory({ enabled: true, max_days_since_last_order: 30 }, repeatCustomer, NOW)
+    ).toBe(false);
+  });
+
+  it("should not match recency bounds for customers without orders", () => {
+    expect(
+      matchesPurchaseHistory(
+        { enabled: true, min_days_since_last_order: 60 },
+        EMPTY_PURCHASE_HISTORY,
+        NOW
+      )
+    ).toBe(false);
+  });
+});
+
+describe("mergePurchaseHistory", () => {
+  it("should return whichever side is available", () => {
+    expect(mergePurchaseHistory(null, null)).toBeNull();
+    expect(mergePurchaseHistory(repeatCustomer, null)).toBe(repeatCustomer);
+    expect(mergePurchaseHistory(null, repeatCustomer)).toBe(repeatCustomer);
+  });
+
+  it("should keep the highest totals and the latest order", () => {
+    const merged = mergePurchaseHistory(repeatCustomer, {
+      orderCount: 1,
+      totalSpent: 300,
+      lastOrderAt: daysAgo(2),
+    });
+
+    expect(merged).toEqual({ orderCount: 3, totalSpent: 300, lastOrderAt: daysAgo(2) });
+  });
+});
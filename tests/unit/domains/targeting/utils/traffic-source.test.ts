@@ -0,0 +1,66 @@
+/**
+ * Unit Tests for Traffic Source Classification
+ *
+ * Tests channel classification and matching helpers used by traffic-source targeting.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  classifyTrafficSource,
+  matchesDomain,
+  matchesValue,
+} from "~/domains/targeting/utils/traffic-source";
+
+describe("classifyTrafficSource", () => {
+  it("should classify visits without UTM or referrer as direct", () => {
+    expect(classifyTrafficSource({})).toBe("direct");
+  });
+
+  it("should treat paid mediums as paid even on social platforms", () => {
+    expect(classifyTrafficSource({ utmSource: "facebook", utmMedium: "paid_social" })).toBe(
+      "paid"
+    );
+    expect(classifyTrafficSource({ utmSource: "google", utmMedium: "CPC" })).toBe("paid");
+  });
+
+  it("should classify email and social UTM sources", () => {
+    expect(classifyTrafficSource({ utmSource: "klaviyo" })).toBe("email");
+    expect(classifyTrafficSource({ utmMedium: "newsletter" })).toBe("email");
+    expect(classifyTrafficSource({ utmSource: "instagram" })).toBe("social");
+  });
+
+  it("should classify by referrer domain when there are no UTM params", () => {
+    expect(classifyTrafficSource({ referrerDomain: "google.co.uk" })).toBe("organic");
+    expect(classifyTrafficSource({ referrerDomain: "l.facebook.com" })).toBe("social");
+    expect(classifyTrafficSource({ referrerDomain: "mail.google.com" })).toBe("email");
+    expect(classifyTrafficSource({ referrerDomain: "someblog.com" })).toBe("referral");
+  });
+
+  it("should classify unrecognised tagged links as referral", () => {
+    expect(classifyTrafficSource({ utmSource: "partner-site" })).toBe("referral");
+  });
+});
+
+describe("matchesDomain", () => {
+  it("should match exact domains and subdomains", () => {
+    expect(matchesDomain("facebook.com", "facebook.com")).toBe(true);
+    expect(matchesDomain("l.facebook.com", "www.facebook.com")).toBe(true);
+    expect(matchesDomain("notfacebook.com", "facebook.com")).toBe(false);
+  });
+
+  it("should match prefix patterns across TLDs", () => {
+    expect(matchesDomain("google.de", "google.")).toBe(true);
+    expect(matchesDomain("news.google.com", "google.")).toBe(true);
+    expect(matchesDomain("googlefoo.com", "google.")).toBe(false);
+  });
+});
+
+describe("matchesValue", () => {
+  it("should match case-insensitively with wildcards", () => {
+    expect(matchesValue("Summer_Sale_2025", "summer_sale_*")).toBe(true);
+    expect(matchesValue("facebook", "Facebook")).toBe(true);
+    expect(matchesValue("facebook", "face")).toBe(false);
+    expect(matchesValue(undefined, "*")).toBe(false);
+  });
+});
@@ -272,4 +272,95 @@ describe("PopupManagerPreact renderPopup", () => {
 
     cleanup();
   });
+
+  it("shows the double opt-in pending message instead of the success message", async () => {
+    const { renderPopup } = await loadPopupManager();
+
+    let capturedProps: any = null;
+    const FakeComponent: ComponentType<Record<string, unknown>> = (props) => {
+      capturedProps = props;
+      return null;
+    };
+
+    const campaign: StorefrontCampaign = {
+      id: "newsletter-doi",
+      name: "Newsletter",
+      templateType: "NEWSLETTER",
+      contentConfig: { successMessage: "Thanks for subscribing!" },
+      designConfig: {},
+      discountConfig: { enabled: true, code: "WELCOME10" } as any,
+    };
+
+    const pendingMessage =
+      "Almost there! Confirm your subscription from the email we just sent you to get your discount code.";
+    const api = {
+      trackEvent: vi.fn().mockResolvedValue(undefined),
+      submitLead: vi.fn().mockResolvedValue({
+        success: true,
+        leadId: "lead-1",
+        discountCode: null,
+        confirmationRequired: true,
+        message: pendingMessage,
+      }),
+    } as any;
+    const loader = {
+      loadComponent: vi.fn().mockResolvedValue(FakeComponent),
+    } as any;
+
+    const cleanup = renderPopup(campaign, vi.fn(), loader, api);
+    const props = await waitForValue(() => capturedProps);
+    expect(props.config.successMessage).toBe("Thanks for subscribing!");
+
+    const code = await props.onSubmit({ email: "jane@example.com", gdprConsent: true });
+
+    expect(code).toBeNull();
+    const config = await waitForValue(() =>
+      capturedProps.config.successMessage === pendingMessage ? capturedProps.config : null
+    );
+    expect(config.discount).toBeUndefined();
+
+    cleanup();
+  });
+});
+
+describe("PopupArbiter", () => {
+  const policy = {
+    maxConcurrentOverlays: 1,
+    exclusiveGroups: [["newsletter", "spin-to-win"]],
+  };
+
+  it("should allow every campaign without a policy", async () => {
+    const { PopupArbiter } = await loadPopupManager();
+    const arbiter = new PopupArbiter();
+
+    expect(arbiter.isEnabled()).toBe(false);
+    expect(arbiter.tryAcquire("a", true)).toBe(true);
+    expect(arbiter.tryAcquire("b", true)).toBe(true);
+  });
+
+  it("should limit concurrent overlays and free the slot on release", async () => {
+    const { PopupArbiter } = await loadPopupManager();
+    const arbiter = new PopupArbiter();
+    arbiter.configure(policy);
+
+    expect(arbiter.tryAcquire("a", true)).toBe(true);
+    expect(arbiter.tryAcquire("b", true)).toBe(false);
+    // Banners and notifications don't take an overlay slot
+    expect(arbiter.tryAcquire("banner", false)).toBe(true);
+
+    arbiter.release("a");
+    expect(arbiter.tryAcquire("b", true)).toBe(true);
+  });
+
+  it("should block the rest of an exclusive group once one campaign has shown", async () => {
+    const { PopupArbiter } = await loadPopupManager();
+    const arbiter = new PopupArbiter();
+    arbiter.configure(policy);
+
+    expect(arbiter.tryAcquire("newsletter", true)).toBe(true);
+    arbiter.release("newsletter");
+
+    expect(arbiter.tryAcquire("spin-to-win", true)).toBe(false);
+    expect(arbiter.tryAcquire("other", true)).toBe(true);
+  });
 });
@@ -37,6 +37,9 @@ describe("LeadCaptureConfig Sync", () => {
         "consentFieldRequired",
         "consentFieldText",
         "privacyPolicyUrl",
+        // Double opt-in
+        "doubleOptInEnabled",
+        "revealDiscountAfterConfirmation",
       ];
 
       expect(LEAD_CAPTURE_CONFIG_KEYS).toEqual(expect.arrayContaining(expectedFields));
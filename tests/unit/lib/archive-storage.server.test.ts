@@ -0,0 +1,132 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { access, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  createLocalArchiveStorage,
+  parseS3ListResponse,
+  signS3PutRequest,
+  signS3Request,
+} from "~/lib/archive-storage.server";
+
+describe("archive storage", () => {
+  let dir: string | null = null;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it("writes local archives under the configured directory", async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "archives-"));
+    const storage = createLocalArchiveStorage(dir);
+
+    const location = await storage.put(
+      "popup-events/store-1/run/part-0001.ndjson.gz",
+      Buffer.from("data"),
+      "application/x-ndjson"
+    );
+
+    expect(location).toBe(path.join(dir, "popup-events/store-1/run/part-0001.ndjson.gz"));
+    expect((await readFile(location)).toString()).toBe("data");
+    await expect(
+      storage.put("../outside.gz", Buffer.from("x"), "application/x-ndjson")
+    ).rejects.toThrow(/escapes/);
+  });
+
+  it("deletes local archives by prefix", async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "archives-"));
+    const storage = createLocalArchiveStorage(dir);
+    const kept = await storage.put(
+      "popup-events/store-2/run/part-0001.ndjson.gz",
+      Buffer.from("b"),
+      "application/x-ndjson"
+    );
+    const removed = await storage.put(
+      "popup-events/store-1/run/part-0001.ndjson.gz",
+      Buffer.from("a"),
+      "application/x-ndjson"
+    );
+
+    await storage.deletePrefix("popup-events/store-1/");
+    // Already deleted
+    await storage.deletePrefix("popup-events/store-1/");
+
+    await expect(access(removed)).rejects.toThrow();
+    await expect(access(kept)).resolves.toBeUndefined();
+    await expect(storage.deletePrefix("../")).rejects.toThrow(/escapes/);
+  });
+
+  it("signs path-style S3 PUT requests with SigV4", () => {
+    const config = {
+      bucket: "rb-archives",
+      region: "us-east-1",
+      endpoint: "https://minio.example.com/",
+      accessKeyId: "AKIDEXAMPLE",
+      secretAccessKey: "secret",
+    };
+    const body = Buffer.from("{}\n");
+    const now = new Date("2025-06-15T12:00:00.000Z");
+
+    const request = signS3PutRequest(
+      config,
+      "popup-events/a b.gz",
+      body,
+      "application/x-ndjson",
+      now
+    );
+    const again = signS3PutRequest(
+      config,
+      "popup-events/a b.gz",
+      body,
+      "application/x-ndjson",
+      now
+    );
+
+    expect(request.url).toBe("https://minio.example.com/rb-archives/popup-events/a%20b.gz");
+    expect(request.headers["x-amz-date"]).toBe("20250615T120000Z");
+    expect(request.headers.host).toBe("minio.example.com");
+    expect(request.headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/20250615\/us-east-1\/s3\/aws4_request, SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+    );
+    expect(again.headers.authorization).toBe(request.headers.authorization);
+  });
+
+  it("signs S3 list requests with a sorted canonical query", () => {
+    const config = {
+      bucket: "rb-archives",
+      region: "us-east-1",
+      endpoint: "https://s3.us-east-1.amazonaws.com",
+      accessKeyId: "AKIDEXAMPLE",
+      secretAccessKey: "secret",
+    };
+
+    const request = signS3Request(
+      config,
+      { method: "GET", key: "", query: { prefix: "popup-events/store 1/", "list-type": "2" } },
+      new Date("2025-06-15T12:00:00.000Z")
+    );
+
+    expect(request.url).toBe(
+      "https://s3.us-east-1.amazonaws.com/rb-archives?list-type=2&prefix=popup-events%2Fstore%201%2F"
+    );
+    expect(request.headers).not.toHaveProperty("content-type");
+    expect(request.headers.authorization).toContain(
+      "SignedHeaders=host;x-amz-content-sha256;x-amz-date"
+    );
+  });
+
+  it("parses S3 list responses", () => {
+    expect(
+      parseS3ListResponse(
+        "<ListBucketResult><Contents><Key>popup-events/a&amp;b.gz</Key></Contents>" +
+          "<Contents><Key>popup-events/c.gz</Key></Contents>" +
+          "<NextContinuationToken>token==</NextContinuationToken></ListBucketResult>"
+      )
+    ).toEqual({ keys: ["popup-events/a&b.gz", "popup-events/c.gz"], nextToken: "token==" });
+    expect(parseS3ListResponse("<ListBucketResult></ListBucketResult>")).toEqual({
+      keys: [],
+      nextToken: null,
+    });
+  });
+});
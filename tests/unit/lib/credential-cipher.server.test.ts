@@ -0,0 +1,45 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { decryptSecret, encryptSecret } from "~/lib/credential-cipher.server";
+
+const KEY = "test_credentials_key_minimum_32_chars_long";
+
+describe("credential cipher", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("round-trips values with a fresh IV each time", () => {
+    vi.stubEnv("CREDENTIALS_ENCRYPTION_KEY", KEY);
+
+    const first = encryptSecret('{"apiKey":"pk_live_123"}');
+    const second = encryptSecret('{"apiKey":"pk_live_123"}');
+
+    expect(first).toMatch(/^v1\./);
+    expect(first).not.toContain("pk_live_123");
+    expect(first).not.toBe(second);
+    expect(decryptSecret(first)).toBe('{"apiKey":"pk_live_123"}');
+  });
+
+  it("rejects tampered values and other keys", () => {
+    vi.stubEnv("CREDENTIALS_ENCRYPTION_KEY", KEY);
+    const encrypted = encryptSecret("secret");
+    const [version, iv, tag, ciphertext] = encrypted.split(".");
+    const flipped = Buffer.from(ciphertext, "base64url");
+    flipped[0] ^= 1;
+
+    expect(() =>
+      decryptSecret([version, iv, tag, flipped.toString("base64url")].join("."))
+    ).toThrow();
+    expect(() => decryptSecret("plain-text")).toThrow(/Unsupported/);
+
+    vi.stubEnv("CREDENTIALS_ENCRYPTION_KEY", `${KEY}-rotated`);
+    expect(() => decryptSecret(encrypted)).toThrow();
+  });
+
+  it("falls back to SESSION_SECRET", () => {
+    vi.stubEnv("CREDENTIALS_ENCRYPTION_KEY", "");
+    vi.stubEnv("SESSION_SECRET", "test_session_secret_minimum_32_chars_long");
+
+    expect(decryptSecret(encryptSecret("secret"))).toBe("secret");
+  });
+});
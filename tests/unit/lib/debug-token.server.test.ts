@@ -0,0 +1,48 @@
+/**
+ * Unit Tests for Storefront Debug Tokens
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+import {
+  DEBUG_TOKEN_TTL_HOURS,
+  createDebugToken,
+  verifyDebugToken,
+} from "~/lib/debug-token.server";
+
+describe("debug tokens", () => {
+  const issuedAt = new Date("2025-06-01T00:00:00.000Z");
+
+  beforeEach(() => {
+    vi.stubEnv("SESSION_SECRET", "a".repeat(32));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should accept a token for its store until it expires", () => {
+    const token = createDebugToken("store-1", issuedAt);
+
+    expect(verifyDebugToken(token, "store-1", issuedAt)).toBe(true);
+
+    const expired = new Date(issuedAt.getTime() + (DEBUG_TOKEN_TTL_HOURS * 3600 + 1) * 1000);
+    expect(verifyDebugToken(token, "store-1", expired)).toBe(false);
+  });
+
+  it("should reject tokens of another store", () => {
+    const token = createDebugToken("store-1", issuedAt);
+
+    expect(verifyDebugToken(token, "store-2", issuedAt)).toBe(false);
+  });
+
+  it("should reject the old rb_debug=1 flag and tampered tokens", () => {
+    const [expiresAt, signature] = createDebugToken("store-1", issuedAt).split(".");
+
+    expect(verifyDebugToken("1", "store-1", issuedAt)).toBe(false);
+    expect(verifyDebugToken(`${Number(expiresAt) + 1}.${signature}`, "store-1", issuedAt)).toBe(
+      false
+    );
+    expect(verifyDebugToken("", "store-1", issuedAt)).toBe(false);
+  });
+});
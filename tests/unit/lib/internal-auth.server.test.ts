@@ -0,0 +1,60 @@
+/**
+ * Unit Tests for Internal Request Authentication
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+
+import { isInternalRequest, requireInternalRequest } from "~/lib/internal-auth.server";
+
+const SECRET = "test_internal_api_secret_minimum_32_chars_long_validation";
+
+function createRequest(authorization?: string) {
+  return new Request("https://app.example.com/api/internal/experiments/evaluate", {
+    method: "POST",
+    headers: authorization ? { Authorization: authorization } : {},
+  });
+}
+
+describe("isInternalRequest", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should accept the internal API secret as a bearer token", () => {
+    vi.stubEnv("INTERNAL_API_SECRET", SECRET);
+
+    expect(isInternalRequest(createRequest(`Bearer ${SECRET}`))).toBe(true);
+  });
+
+  it("should reject a wrong or missing token", () => {
+    vi.stubEnv("INTERNAL_API_SECRET", SECRET);
+
+    expect(isInternalRequest(createRequest("Bearer wrong"))).toBe(false);
+    expect(isInternalRequest(createRequest(SECRET))).toBe(false);
+    expect(isInternalRequest(createRequest())).toBe(false);
+  });
+
+  it("should reject everything when no secret is configured", () => {
+    vi.stubEnv("INTERNAL_API_SECRET", "");
+
+    expect(isInternalRequest(createRequest("Bearer "))).toBe(false);
+  });
+});
+
+describe("requireInternalRequest", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("should throw a 401 response for unauthorized requests", () => {
+    vi.stubEnv("INTERNAL_API_SECRET", SECRET);
+
+    try {
+      requireInternalRequest(createRequest("Bearer wrong"));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(Response);
+      expect((error as Response).status).toBe(401);
+    }
+  });
+});
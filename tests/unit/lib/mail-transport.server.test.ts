@@ -0,0 +1,165 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import net from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  buildMimeMessage,
+  createFileMailTransport,
+  createSmtpTransport,
+  extractAddress,
+  type MailMessage,
+} from "~/lib/mail-transport.server";
+
+const MESSAGE: MailMessage = {
+  from: "Revenue Boost <reports@example.com>",
+  to: ["owner@shop.com"],
+  subject: "Weekly report",
+  text: "Hello",
+  html: "<p>Hello</p>",
+  attachments: [{ filename: "report.csv", contentType: "text/csv", content: "a,b\r\n1,2\r\n" }],
+};
+
+function decodeParts(mime: string): string[] {
+  return mime
+    .split(/\r\n\r\n/)
+    .map((block) => block.split(/\r\n--/)[0].replace(/\r\n/g, ""))
+    .filter((block) => /^[A-Za-z0-9+/=]+$/.test(block))
+    .map((block) => Buffer.from(block, "base64").toString("utf8"));
+}
+
+/** Fake SMTP server recording the commands it receives */
+function startSmtpServer(): Promise<{ port: number; commands: string[]; close: () => void }> {
+  const commands: string[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    socket.write("220 fake ESMTP\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString();
+      let index: number;
+      while ((index = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 queued\r\n");
+          }
+          continue;
+        }
+        commands.push(line);
+        if (line.startsWith("EHLO")) socket.write("250-fake\r\n250 AUTH PLAIN\r\n");
+        else if (line.startsWith("AUTH")) socket.write("235 ok\r\n");
+        else if (line === "STARTTLS") socket.write("454 TLS not available\r\n");
+        else if (line.startsWith("RCPT TO:<blocked")) socket.write("550 no such user\r\n");
+        else if (line === "DATA") {
+          inData = true;
+          socket.write("354 go ahead\r\n");
+        } else if (line === "QUIT") socket.end("221 bye\r\n");
+        else socket.write("250 ok\r\n");
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({ port, commands, close: () => server.close() });
+    });
+  });
+}
+
+describe("mail transport", () => {
+  let dir: string | null = null;
+  let closeServer: (() => void) | null = null;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = null;
+    closeServer?.();
+    closeServer = null;
+  });
+
+  it("extracts bare addresses", () => {
+    expect(extractAddress("Revenue Boost <reports@example.com>")).toBe("reports@example.com");
+    expect(extractAddress(" owner@shop.com ")).toBe("owner@shop.com");
+  });
+
+  it("builds multipart MIME with text, HTML and attachments", () => {
+    const mime = buildMimeMessage(
+      { ...MESSAGE, subject: "Rapport – semaine" },
+      { messageId: "id-1@example.com", date: new Date("2025-06-16T08:00:00.000Z") }
+    );
+
+    expect(mime).toContain("To: owner@shop.com\r\n");
+    expect(mime).toContain("Message-ID: <id-1@example.com>");
+    expect(mime).toContain("Date: Mon, 16 Jun 2025 08:00:00 GMT");
+    expect(mime).toMatch(/Subject: =\?UTF-8\?B\?.+\?=/);
+    expect(mime).toContain('Content-Disposition: attachment; filename="report.csv"');
+    expect(decodeParts(mime)).toEqual(["Hello", "<p>Hello</p>", "a,b\r\n1,2\r\n"]);
+  });
+
+  it("writes .eml files with the file driver", async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "mail-"));
+    const location = await createFileMailTransport(dir).send(MESSAGE);
+
+    expect(path.dirname(location)).toBe(dir);
+    expect(location).toMatch(/\.eml$/);
+    expect(await readFile(location, "utf8")).toContain("Subject: Weekly report");
+  });
+
+  it("delivers through SMTP", async () => {
+    const server = await startSmtpServer();
+    closeServer = server.close;
+
+    const transport = createSmtpTransport({
+      host: "127.0.0.1",
+      port: server.port,
+      secure: false,
+      timeoutMs: 5000,
+    });
+    const messageId = await transport.send(MESSAGE);
+
+    expect(messageId).toMatch(/@example\.com$/);
+    expect(server.commands.slice(0, 4)).toEqual([
+      "EHLO revenue-boost",
+      "MAIL FROM:<reports@example.com>",
+      "RCPT TO:<owner@shop.com>",
+      "DATA",
+    ]);
+  });
+
+  it("refuses to send credentials without TLS", async () => {
+    const server = await startSmtpServer();
+    closeServer = server.close;
+
+    const transport = createSmtpTransport({
+      host: "127.0.0.1",
+      port: server.port,
+      secure: false,
+      user: "user",
+      password: "secret",
+      timeoutMs: 5000,
+    });
+
+    await expect(transport.send(MESSAGE)).rejects.toThrow("STARTTLS");
+    expect(server.commands.some((command) => command.startsWith("AUTH"))).toBe(false);
+  });
+
+  it("reports rejected recipients", async () => {
+    const server = await startSmtpServer();
+    closeServer = server.close;
+
+    const transport = createSmtpTransport({
+      host: "127.0.0.1",
+      port: server.port,
+      secure: false,
+      timeoutMs: 5000,
+    });
+
+    await expect(transport.send({ ...MESSAGE, to: ["blocked@shop.com"] })).rejects.toThrow(
+      "550 no such user"
+    );
+  });
+});
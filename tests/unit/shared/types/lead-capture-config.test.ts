@@ -12,8 +12,8 @@ import {
 import type { LeadCaptureConfig, LeadCaptureFormConfigProps } from "~/shared/types/lead-capture-config";
 
 describe("LEAD_CAPTURE_CONFIG_KEYS", () => {
-  it("should have 12 keys", () => {
-    expect(LEAD_CAPTURE_CONFIG_KEYS).toHaveLength(12);
+  it("should have 14 keys", () => {
+    expect(LEAD_CAPTURE_CONFIG_KEYS).toHaveLength(14);
   });
 
   it("should include email keys", () => {
@@ -36,6 +36,11 @@ describe("LEAD_CAPTURE_CONFIG_KEYS", () => {
     expect(LEAD_CAPTURE_CONFIG_KEYS).toContain("consentFieldText");
     expect(LEAD_CAPTURE_CONFIG_KEYS).toContain("privacyPolicyUrl");
   });
+
+  it("should include double opt-in keys", () => {
+    expect(LEAD_CAPTURE_CONFIG_KEYS).toContain("doubleOptInEnabled");
+    expect(LEAD_CAPTURE_CONFIG_KEYS).toContain("revealDiscountAfterConfirmation");
+  });
 });
 
 describe("LEAD_CAPTURE_DEFAULTS", () => {
@@ -0,0 +1,145 @@
+/**
+ * Order Adjustment Webhook Tests
+ *
+ * refunds/create, orders/updated and orders/cancelled adjust the net revenue
+ * of the order's CampaignConversion (ConversionAdjustmentService) and of its
+ * LeadOrder (LeadCohortService).
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+vi.mock("~/db.server", () => ({
+  default: {
+    store: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("~/domains/analytics/conversion-adjustment.server", () => ({
+  ConversionAdjustmentService: {
+    applyRefund: vi.fn(),
+    reconcileOrder: vi.fn(),
+    cancelOrder: vi.fn(),
+  },
+}));
+
+vi.mock("~/domains/analytics/lead-cohorts.server", () => ({
+  LeadCohortService: {
+    reconcileOrder: vi.fn(),
+    cancelOrder: vi.fn(),
+  },
+}));
+
+vi.mock("~/lib/logger.server", () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() },
+}));
+
+import prisma from "~/db.server";
+import { ConversionAdjustmentService } from "~/domains/analytics/conversion-adjustment.server";
+import { LeadCohortService } from "~/domains/analytics/lead-cohorts.server";
+import {
+  getRefundAmount,
+  handleOrderCancelled,
+  handleOrderUpdated,
+  handleRefundCreate,
+  type RefundPayload,
+} from "~/webhooks/order-adjustments";
+
+const storeFindUniqueMock = prisma.store.findUnique as unknown as ReturnType<typeof vi.fn>;
+
+const SHOP = "test-store.myshopify.com";
+
+const createRefund = (overrides: Partial<RefundPayload> = {}): RefundPayload => ({
+  id: 501,
+  order_id: 1001,
+  transactions: [
+    { kind: "refund", status: "success", amount: "20.00" },
+    { kind: "refund", status: "failure", amount: "20.00" },
+  ],
+  ...overrides,
+});
+
+describe("Order Adjustment Webhooks", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storeFindUniqueMock.mockResolvedValue({ id: "store-123" });
+  });
+
+  describe("getRefundAmount", () => {
+    it("should only count successful refund transactions", () => {
+      expect(getRefundAmount(createRefund())).toBe(20);
+    });
+
+    it("should be zero for restock-only refunds", () => {
+      expect(getRefundAmount(createRefund({ transactions: [] }))).toBe(0);
+    });
+  });
+
+  describe("handleRefundCreate", () => {
+    it("should apply the refund to the order's conversion", async () => {
+      await handleRefundCreate(SHOP, createRefund());
+
+      expect(ConversionAdjustmentService.applyRefund).toHaveBeenCalledWith("store-123", "1001", {
+        id: "501",
+        amount: 20,
+      });
+    });
+
+    it("should do nothing for unknown stores", async () => {
+      storeFindUniqueMock.mockResolvedValue(null);
+
+      await handleRefundCreate(SHOP, createRefund());
+
+      expect(ConversionAdjustmentService.applyRefund).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("handleOrderUpdated", () => {
+    it("should reconcile every refund and the cancellation", async () => {
+      await handleOrderUpdated(SHOP, {
+        id: 1001,
+        cancelled_at: "2025-06-16T09:00:00Z",
+        refunds: [createRefund(), createRefund({ id: 502 })],
+      });
+
+      expect(ConversionAdjustmentService.reconcileOrder).toHaveBeenCalledWith("store-123", "1001", {
+        refunds: [
+          { id: "501", amount: 20 },
+          { id: "502", amount: 20 },
+        ],
+        cancelledAt: new Date("2025-06-16T09:00:00Z"),
+      });
+      expect(LeadCohortService.reconcileOrder).toHaveBeenCalledWith("store-123", "1001", {
+        refundedAmount: 40,
+        cancelledAt: new Date("2025-06-16T09:00:00Z"),
+      });
+    });
+
+    it("should treat missing refunds as none", async () => {
+      await handleOrderUpdated(SHOP, { id: 1001 });
+
+      expect(ConversionAdjustmentService.reconcileOrder).toHaveBeenCalledWith("store-123", "1001", {
+        refunds: [],
+        cancelledAt: null,
+      });
+    });
+  });
+
+  describe("handleOrderCancelled", () => {
+    it("should void the order's conversion", async () => {
+      await handleOrderCancelled(SHOP, { id: 1001, cancelled_at: "2025-06-16T09:00:00Z" });
+
+      expect(ConversionAdjustmentService.cancelOrder).toHaveBeenCalledWith(
+        "store-123",
+        "1001",
+        new Date("2025-06-16T09:00:00Z")
+      );
+      expect(LeadCohortService.cancelOrder).toHaveBeenCalledWith(
+        "store-123",
+        "1001",
+        new Date("2025-06-16T09:00:00Z")
+      );
+    });
+  });
+});
@@ -4,11 +4,12 @@
  * Tests for revenue attribution logic in ORDERS_CREATE webhook:
  * - Discount code attribution (highest confidence)
  * - View-through attribution via Lead lookup (requires actual user engagement)
+ * - Multi-touch credit split across campaigns (AttributionService)
+ * - Order visitors for holdout incrementality (HoldoutService)
  * - Edge cases and error handling
  *
- * Note: VIEW-only PopupEvent attribution was removed as passive views are
- * not a strong enough signal for revenue attribution. Only Lead-based
- * attribution (which requires form submission) is used for view-through.
+ * Note: passive VIEW events only earn credit when the store enables a view
+ * window (StoreSettings.attribution.viewWindowDays, off by default).
  */
 
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
@@ -21,6 +22,8 @@ vi.mock("~/db.server", () => ({
     },
     lead: {
       findFirst: vi.fn(),
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
     },
     campaign: {
       findMany: vi.fn(),
@@ -28,6 +31,15 @@ vi.mock("~/db.server", () => ({
     campaignConversion: {
       create: vi.fn(),
     },
+    popupEvent: {
+      findMany: vi.fn(),
+    },
+    campaignAttribution: {
+      createMany: vi.fn(),
+    },
+    orderVisitor: {
+      createMany: vi.fn(),
+    },
   },
 }));
 
@@ -57,7 +69,21 @@ vi.mock("~/domains/commerce/services/discount.server", () => ({
   }),
 }));
 
+vi.mock("~/domains/targeting/services/purchase-history.server", () => ({
+  PurchaseHistoryService: {
+    invalidate: vi.fn(),
+  },
+}));
+
+vi.mock("~/domains/analytics/lead-cohorts.server", () => ({
+  LeadCohortService: {
+    recordOrder: vi.fn(),
+  },
+}));
+
 import prisma from "~/db.server";
+import { LeadCohortService } from "~/domains/analytics/lead-cohorts.server";
+import { PurchaseHistoryService } from "~/domains/targeting/services/purchase-history.server";
 import { handleOrderCreate, type OrderPayload } from "~/webhooks/orders.create";
 
 // Type helpers for mocks
@@ -65,6 +91,12 @@ const storeFindUniqueMock = prisma.store.findUnique as unknown as ReturnType<typ
 const leadFindFirstMock = prisma.lead.findFirst as unknown as ReturnType<typeof vi.fn>;
 const campaignFindManyMock = prisma.campaign.findMany as unknown as ReturnType<typeof vi.fn>;
 const conversionCreateMock = prisma.campaignConversion.create as unknown as ReturnType<typeof vi.fn>;
+const leadFindManyMock = prisma.lead.findMany as unknown as ReturnType<typeof vi.fn>;
+const eventFindManyMock = prisma.popupEvent.findMany as unknown as ReturnType<typeof vi.fn>;
+const attributionCreateManyMock = prisma.campaignAttribution
+  .createMany as unknown as ReturnType<typeof vi.fn>;
+const orderVisitorCreateManyMock = prisma.orderVisitor
+  .createMany as unknown as ReturnType<typeof vi.fn>;
 
 // Test data factories
 const createStore = (overrides = {}) => ({
@@ -81,8 +113,10 @@ const createLead = (overrides = {}) => ({
   discountCode: "SPIN-ABC123",
   shopifyCustomerId: BigInt(9876543210),
   sessionId: "session-xyz",
+  visitorId: "visitor-xyz",
   campaign: { id: "campaign-456", status: "ACTIVE" },
   createdAt: new Date(),
+  submittedAt: new Date(),
   ...overrides,
 });
 
@@ -100,8 +134,12 @@ const createOrderPayload = (overrides: Partial<OrderPayload> = {}): OrderPayload
 describe("Orders Create Webhook - handleOrderCreate", () => {
   beforeEach(() => {
     vi.clearAllMocks();
-    // Default: store exists
+    // Default: store exists, shopper has no popup history
     storeFindUniqueMock.mockResolvedValue(createStore());
+    leadFindManyMock.mockResolvedValue([]);
+    eventFindManyMock.mockResolvedValue([]);
+    attributionCreateManyMock.mockResolvedValue({ count: 0 });
+    orderVisitorCreateManyMock.mockResolvedValue({ count: 1 });
   });
 
   afterEach(() => {
@@ -119,6 +157,69 @@ describe("Orders Create Webhook - handleOrderCreate", () => {
     });
   });
 
+  describe("Purchase History Cache", () => {
+    it("should invalidate the customer's cached purchase history", async () => {
+      await handleOrderCreate("test-store.myshopify.com", createOrderPayload());
+
+      expect(PurchaseHistoryService.invalidate).toHaveBeenCalledWith("store-123", "9876543210");
+    });
+
+    it("should skip invalidation for guest checkouts", async () => {
+      await handleOrderCreate(
+        "test-store.myshopify.com",
+        createOrderPayload({ customer: undefined })
+      );
+
+      expect(PurchaseHistoryService.invalidate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Lead Orders", () => {
+    it("should record the order for the lead cohort report", async () => {
+      await handleOrderCreate("test-store.myshopify.com", createOrderPayload());
+
+      expect(LeadCohortService.recordOrder).toHaveBeenCalledWith("store-123", {
+        orderId: "1001",
+        customerId: "9876543210",
+        totalPrice: 99.99,
+        orderedAt: expect.any(Date),
+      });
+    });
+  });
+
+  describe("Holdout Order Visitors", () => {
+    it("should link the order to the storefront visitor from the cart attribute", async () => {
+      await handleOrderCreate(
+        "test-store.myshopify.com",
+        createOrderPayload({
+          note_attributes: [
+            { name: "gift_note", value: "Happy birthday" },
+            { name: "_rb_visitor_id", value: "visitor-xyz" },
+          ],
+        })
+      );
+
+      expect(orderVisitorCreateManyMock).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({
+            storeId: "store-123",
+            orderId: "1001",
+            visitorId: "visitor-xyz",
+            customerId: "9876543210",
+            totalPrice: 99.99,
+          }),
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it("should skip orders without the visitor attribute", async () => {
+      await handleOrderCreate("test-store.myshopify.com", createOrderPayload());
+
+      expect(orderVisitorCreateManyMock).not.toHaveBeenCalled();
+    });
+  });
+
   describe("Discount Code Attribution", () => {
     it("should attribute conversion when discount code matches a lead", async () => {
       const lead = createLead({ discountCode: "SPIN-ABC123" });
@@ -139,6 +240,10 @@ describe("Orders Create Webhook - handleOrderCreate", () => {
           source: "discount_code",
         }),
       });
+      expect(prisma.lead.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["lead-123"] }, discountUsedAt: null },
+        data: { discountUsedAt: expect.any(Date) },
+      });
     });
 
     it("should attribute to campaign by prefix match when no lead found", async () => {
@@ -184,9 +289,18 @@ describe("Orders Create Webhook - handleOrderCreate", () => {
       });
     });
 
-    it("should not try view-through when discount code is attributed", async () => {
-      const lead = createLead({ discountCode: "SPIN-ABC123" });
-      leadFindFirstMock.mockResolvedValue(lead);
+    it("should credit the discount code campaign over an earlier sign-up under last touch", async () => {
+      const codeLead = createLead({ discountCode: "SPIN-ABC123" });
+      leadFindFirstMock.mockResolvedValue(codeLead);
+      leadFindManyMock.mockResolvedValue([
+        codeLead,
+        createLead({
+          id: "lead-newsletter",
+          campaignId: "campaign-newsletter",
+          discountCode: null,
+          submittedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
+        }),
+      ]);
       conversionCreateMock.mockResolvedValue({ id: "conversion-1" });
 
       const payload = createOrderPayload({
@@ -195,9 +309,12 @@ describe("Orders Create Webhook - handleOrderCreate", () => {
 
       await handleOrderCreate("test-store.myshopify.com", payload);
 
-      // Should only call leadFindFirst once (for discount code lookup)
-      // Not again for view-through attribution
+      // Lead lookup by code happens once, view-through reuses the identity leads
       expect(leadFindFirstMock).toHaveBeenCalledTimes(1);
+      expect(conversionCreateMock).toHaveBeenCalledTimes(1);
+      expect(conversionCreateMock).toHaveBeenCalledWith({
+        data: expect.objectContaining({ campaignId: "campaign-456", source: "discount_code" }),
+      });
     });
   });
 
@@ -213,8 +330,8 @@ describe("Orders Create Webhook - handleOrderCreate", () => {
         discountCode: "UNUSED-CODE",
       });
 
-      // leadFindFirst is called once in view-through (by shopifyCustomerId)
-      leadFindFirstMock.mockResolvedValue(customerLead);
+      // Leads resolved by shopifyCustomerId
+      leadFindManyMock.mockResolvedValue([customerLead]);
       conversionCreateMock.mockResolvedValue({ id: "conversion-view" });
 
       const payload = createOrderPayload({
@@ -244,7 +361,7 @@ describe("Orders Create Webhook - handleOrderCreate", () => {
         discountCode: null, // Newsletter without discount
       });
 
-      leadFindFirstMock.mockResolvedValue(newsletterLead);
+      leadFindManyMock.mockResolvedValue([newsletterLead]);
       conversionCreateMock.mockResolvedValue({ id: "conversion-newsletter" });
 
       const payload = createOrderPayload({
@@ -309,7 +426,7 @@ describe("Orders Create Webhook - handleOrderCreate", () => {
       await handleOrderCreate("test-store.myshopify.com", payload);
 
       // Should still check view-through
-      expect(leadFindFirstMock).toHaveBeenCalled();
+      expect(leadFindManyMock).toHaveBeenCalled();
     });
 
     it("should handle undefined discount_codes", async () => {
@@ -324,7 +441,7 @@ describe("Orders Create Webhook - handleOrderCreate", () => {
       await handleOrderCreate("test-store.myshopify.com", payload);
 
       // Should still check view-through via lead lookup
-      expect(leadFindFirstMock).toHaveBeenCalled();
+      expect(leadFindManyMock).toHaveBeenCalled();
     });
 
     it("should handle duplicate order (P2002 error) gracefully", async () => {
@@ -387,6 +504,100 @@ describe("Orders Create Webhook - handleOrderCreate", () => {
     });
   });
 
+  describe("Multi-Touch Attribution", () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const orderedAt = new Date("2025-06-15T12:00:00.000Z");
+
+    it("should store credits for every model and use the store model for the conversion", async () => {
+      storeFindUniqueMock.mockResolvedValue(
+        createStore({ settings: { attribution: { model: "first_touch" } } })
+      );
+      leadFindManyMock.mockResolvedValue([
+        createLead({ submittedAt: new Date(orderedAt.getTime() - DAY), discountCode: null }),
+      ]);
+      eventFindManyMock.mockResolvedValue([
+        {
+          campaignId: "campaign-exit",
+          eventType: "CLICK",
+          createdAt: new Date(orderedAt.getTime() - 3 * DAY),
+          leadId: null,
+        },
+        {
+          campaignId: "campaign-456",
+          eventType: "SUBMIT",
+          createdAt: new Date(orderedAt.getTime() - DAY),
+          leadId: "lead-123",
+        },
+      ]);
+
+      await handleOrderCreate(
+        "test-store.myshopify.com",
+        createOrderPayload({ created_at: orderedAt.toISOString(), total_price: "100.00" })
+      );
+
+      expect(eventFindManyMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            storeId: "store-123",
+            createdAt: { gte: new Date(orderedAt.getTime() - 7 * DAY), lte: orderedAt },
+            OR: [
+              { visitorId: { in: ["visitor-xyz"] } },
+              { sessionId: { in: ["session-xyz"] } },
+              { leadId: { in: ["lead-123"] } },
+            ],
+          }),
+        })
+      );
+
+      const rows = attributionCreateManyMock.mock.calls[0][0].data;
+      const linear = rows.filter((row: any) => row.model === "linear");
+      expect(linear).toEqual([
+        expect.objectContaining({ campaignId: "campaign-456", credit: 0.5, revenue: 50 }),
+        expect.objectContaining({ campaignId: "campaign-exit", credit: 0.5, revenue: 50 }),
+      ]);
+      expect(rows.filter((row: any) => row.model === "last_touch")).toEqual([
+        expect.objectContaining({ campaignId: "campaign-456", credit: 1 }),
+      ]);
+
+      // First touch is the store's model
+      expect(conversionCreateMock).toHaveBeenCalledWith({
+        data: expect.objectContaining({ campaignId: "campaign-exit", source: "view_through" }),
+      });
+    });
+
+    it("should ignore interactions outside the click window", async () => {
+      leadFindManyMock.mockResolvedValue([
+        createLead({ submittedAt: new Date(orderedAt.getTime() - 10 * DAY) }),
+      ]);
+
+      await handleOrderCreate(
+        "test-store.myshopify.com",
+        createOrderPayload({ created_at: orderedAt.toISOString() })
+      );
+
+      expect(attributionCreateManyMock).not.toHaveBeenCalled();
+      expect(conversionCreateMock).not.toHaveBeenCalled();
+    });
+
+    it("should resolve guest checkouts through the order email", async () => {
+      leadFindManyMock.mockResolvedValue([createLead({ discountCode: null })]);
+
+      await handleOrderCreate(
+        "test-store.myshopify.com",
+        createOrderPayload({ customer: undefined, email: "Test@Example.com" })
+      );
+
+      expect(leadFindManyMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { storeId: "store-123", OR: [{ email: "test@example.com" }] },
+        })
+      );
+      expect(conversionCreateMock).toHaveBeenCalledWith({
+        data: expect.objectContaining({ campaignId: "campaign-456" }),
+      });
+    });
+  });
+
   describe("Spin To Win / Scratch Card Attribution", () => {
     it("should attribute Spin To Win conversion via unique code in Lead", async () => {
       const spinToWinLead = createLead({
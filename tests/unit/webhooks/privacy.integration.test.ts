@@ -105,6 +105,7 @@ describe('Privacy Webhooks Integration Tests', () => {
           orderNumber: '#1001',
           totalPrice: 100.0,
           discountAmount: 10.0,
+          netRevenue: 100.0,
           discountCodes: ['WELCOME10'],
           customerId: '67890',
           source: 'discount_code',
@@ -188,6 +189,7 @@ describe('Privacy Webhooks Integration Tests', () => {
           orderNumber: '#1001',
           totalPrice: 100.0,
           discountAmount: 10.0,
+          netRevenue: 100.0,
           discountCodes: ['WELCOME10'],
           customerId: '67890',
           source: 'discount_code',
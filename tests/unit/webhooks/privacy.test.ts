@@ -18,6 +18,7 @@ import type {
 } from '~/webhooks/privacy/types';
 import prisma from '~/db.server';
 import { Prisma } from '@prisma/client';
+import { EventRetentionService } from '~/domains/analytics/event-retention.server';
 
 // Mock Prisma
 vi.mock('~/db.server', () => ({
@@ -38,6 +39,15 @@ vi.mock('~/db.server', () => ({
       findMany: vi.fn(),
       updateMany: vi.fn(),
     },
+    leadOrder: {
+      updateMany: vi.fn(),
+    },
+    orderVisitor: {
+      deleteMany: vi.fn(),
+    },
+    webhookDelivery: {
+      deleteMany: vi.fn(),
+    },
     session: {
       deleteMany: vi.fn(),
     },
@@ -45,6 +55,10 @@ vi.mock('~/db.server', () => ({
   },
 }));
 
+vi.mock('~/domains/analytics/event-retention.server', () => ({
+  EventRetentionService: { deleteArchives: vi.fn() },
+}));
+
 describe('Privacy Webhook Handlers', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -168,6 +182,9 @@ describe('Privacy Webhook Handlers', () => {
       vi.mocked(prisma.lead.updateMany).mockResolvedValue({ count: 2 } as any);
       vi.mocked(prisma.popupEvent.updateMany).mockResolvedValue({ count: 1 } as any);
       vi.mocked(prisma.campaignConversion.updateMany).mockResolvedValue({ count: 1 } as any);
+      vi.mocked(prisma.leadOrder.updateMany).mockResolvedValue({ count: 1 } as any);
+      vi.mocked(prisma.orderVisitor.deleteMany).mockResolvedValue({ count: 1 } as any);
+      vi.mocked(prisma.webhookDelivery.deleteMany).mockResolvedValue({ count: 2 } as any);
 
       await handleCustomersRedact('test-store.myshopify.com', mockPayload);
 
@@ -206,6 +223,34 @@ describe('Privacy Webhook Handlers', () => {
           customerId: null,
         },
       });
+
+      // Verify lead orders were unlinked
+      expect(prisma.leadOrder.updateMany).toHaveBeenCalledWith({
+        where: {
+          storeId: 'store-123',
+          OR: [
+            { customerId: String(mockPayload.customer.id) },
+            { email: mockPayload.customer.email.toLowerCase() },
+          ],
+        },
+        data: { customerId: null, email: null },
+      });
+
+      // Verify order visitors were deleted
+      expect(prisma.orderVisitor.deleteMany).toHaveBeenCalledWith({
+        where: {
+          storeId: 'store-123',
+          OR: [{ customerId: '67890' }, { orderId: { in: ['1001', '1002'] } }],
+        },
+      });
+
+      // Verify lead.created webhook deliveries were deleted
+      expect(prisma.webhookDelivery.deleteMany).toHaveBeenCalledWith({
+        where: {
+          storeId: 'store-123',
+          eventKey: { in: ['lead.created:lead-1', 'lead.created:lead-2'] },
+        },
+      });
     });
 
     it('should handle store not found gracefully', async () => {
@@ -226,6 +271,9 @@ describe('Privacy Webhook Handlers', () => {
       vi.mocked(prisma.lead.findMany).mockResolvedValue([]);
       vi.mocked(prisma.popupEvent.findMany).mockResolvedValue([]);
       vi.mocked(prisma.campaignConversion.findMany).mockResolvedValue([]);
+      vi.mocked(prisma.leadOrder.updateMany).mockResolvedValue({ count: 0 } as any);
+      vi.mocked(prisma.orderVisitor.deleteMany).mockResolvedValue({ count: 0 } as any);
+      vi.mocked(prisma.webhookDelivery.deleteMany).mockResolvedValue({ count: 0 } as any);
 
       await expect(
         handleCustomersRedact('test-store.myshopify.com', mockPayload)
@@ -257,6 +305,21 @@ describe('Privacy Webhook Handlers', () => {
       expect(prisma.store.delete).toHaveBeenCalledWith({
         where: { id: 'store-123' },
       });
+
+      // Verify archived popup events were deleted
+      expect(EventRetentionService.deleteArchives).toHaveBeenCalledWith('store-123');
+    });
+
+    it('should keep the store for a retry when archives cannot be deleted', async () => {
+      vi.mocked(prisma.store.findUnique).mockResolvedValue({ id: 'store-123' } as any);
+      vi.mocked(EventRetentionService.deleteArchives).mockRejectedValueOnce(
+        new Error('S3 delete failed (500)')
+      );
+
+      await expect(
+        handleShopRedact('test-store.myshopify.com', mockPayload)
+      ).rejects.toThrow('S3 delete failed');
+      expect(prisma.store.delete).not.toHaveBeenCalled();
     });
 
     it('should handle store not found gracefully', async () => {